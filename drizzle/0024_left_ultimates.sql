@@ -0,0 +1,13 @@
+CREATE TABLE `agent_workflow_executions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`workflow_id` integer NOT NULL,
+	`status` text DEFAULT 'running' NOT NULL,
+	`current_node_id` text,
+	`variables_json` text,
+	`history_json` text,
+	`state_json` text,
+	`error` text,
+	`started_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`completed_at` integer,
+	FOREIGN KEY (`workflow_id`) REFERENCES `agent_workflows`(`id`) ON UPDATE no action ON DELETE cascade
+);
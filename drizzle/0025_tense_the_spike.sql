@@ -0,0 +1 @@
+ALTER TABLE `agent_deployments` ADD `error` text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `agent_test_sessions` ADD `agent_version` text;--> statement-breakpoint
+ALTER TABLE `agent_test_sessions` ADD `replay_of_session_id` integer;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `agent_knowledge_bases` ADD `index_error` text;
\ No newline at end of file
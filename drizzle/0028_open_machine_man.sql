@@ -0,0 +1 @@
+ALTER TABLE `agent_tools` ADD `permissions_json` text;
\ No newline at end of file
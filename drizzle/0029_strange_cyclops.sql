@@ -0,0 +1 @@
+ALTER TABLE `documents` ADD `content` text;
\ No newline at end of file
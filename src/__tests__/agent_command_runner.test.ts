@@ -0,0 +1,68 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from "vitest";
+import os from "node:os";
+import {
+  OutputBuffer,
+  normalizeCommand,
+  runAgentCommand,
+} from "@/ipc/utils/agent_command_runner";
+
+vi.mock("electron-log", () => ({
+  default: {
+    scope: () => ({
+      log: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+  },
+}));
+
+describe("OutputBuffer", () => {
+  it("should keep the start and end of long output", () => {
+    const buffer = new OutputBuffer(10);
+    buffer.append("abc");
+    buffer.append("defghijklmnop");
+    buffer.append("qrstuvwxyz");
+    expect(buffer.truncated).toBe(true);
+    expect(buffer.toString()).toBe(
+      "abcde\n\n... [16 characters truncated] ...\n\nvwxyz",
+    );
+  });
+
+  it("should leave short output untouched", () => {
+    const buffer = new OutputBuffer(10);
+    buffer.append("hello");
+    expect(buffer.truncated).toBe(false);
+    expect(buffer.toString()).toBe("hello");
+  });
+});
+
+describe("runAgentCommand", () => {
+  const node = JSON.stringify(process.execPath);
+
+  it("should report the exit code and both streams", async () => {
+    const result = await runAgentCommand({
+      command: `${node} -e "console.log('out'); console.error('err'); process.exit(3)"`,
+      cwd: os.tmpdir(),
+    });
+    expect(result.exitCode).toBe(3);
+    expect(result.stdout.trim()).toBe("out");
+    expect(result.stderr.trim()).toBe("err");
+    expect(result.timedOut).toBe(false);
+  });
+
+  it("should kill commands that run past the timeout", async () => {
+    const result = await runAgentCommand({
+      command: `${node} -e "setTimeout(() => {}, 60000)"`,
+      cwd: os.tmpdir(),
+      timeoutMs: 500,
+    });
+    expect(result.timedOut).toBe(true);
+    expect(result.durationMs).toBeLessThan(10_000);
+  });
+
+  it("should normalize commands for consent", () => {
+    expect(normalizeCommand("  npm   run\tlint ")).toBe("npm run lint");
+  });
+});
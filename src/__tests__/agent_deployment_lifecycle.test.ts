@@ -0,0 +1,287 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { IpcMainInvokeEvent } from "electron";
+
+type Row = Record<string, unknown>;
+type Condition = (row: Row) => boolean;
+
+const mocks = vi.hoisted(() => ({
+  handlers: new Map<string, (...args: any[]) => any>(),
+  deployments: new Map<number, Record<string, unknown>>(),
+  nextId: 1,
+  writeAgentBundle: vi.fn(),
+  removeAgentDeploymentDir: vi.fn(),
+  buildAgentBundle: vi.fn(),
+  startLocalAgent: vi.fn(),
+  startDockerAgent: vi.fn(),
+  stopAgentDeployment: vi.fn(),
+}));
+
+vi.mock("electron", () => ({
+  ipcMain: {
+    handle: (channel: string, handler: (...args: any[]) => any) =>
+      mocks.handlers.set(channel, handler),
+  },
+}));
+
+vi.mock("electron-log", () => ({
+  default: {
+    scope: () => ({
+      log: vi.fn(),
+      info: vi.fn(),
+      debug: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+  },
+}));
+
+// Conditions are evaluated against the in-memory rows below
+vi.mock("drizzle-orm", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("drizzle-orm")>();
+  const key = (column: { name: string }) =>
+    column.name.replace(/_(\w)/g, (_, char: string) => char.toUpperCase());
+  return {
+    ...actual,
+    eq:
+      (column: { name: string }, value: unknown): Condition =>
+      (row) =>
+        row[key(column)] === value,
+    inArray:
+      (column: { name: string }, values: unknown[]): Condition =>
+      (row) =>
+        values.includes(row[key(column)]),
+    and:
+      (...conditions: Condition[]): Condition =>
+      (row) =>
+        conditions.every((condition) => condition(row)),
+  };
+});
+
+vi.mock("@/db", () => {
+  const matching = (where: Condition) =>
+    [...mocks.deployments.values()].filter((row) => where(row));
+  return {
+    db: {
+      query: {
+        agentDeployments: {
+          findFirst: async ({ where }: { where: Condition }) =>
+            matching(where)[0],
+          findMany: async ({ where }: { where: Condition }) => matching(where),
+        },
+      },
+      insert: () => ({
+        values: (values: Row) => ({
+          returning: async () => {
+            const row = {
+              id: mocks.nextId++,
+              createdAt: new Date(),
+              updatedAt: new Date(),
+              ...values,
+            };
+            mocks.deployments.set(row.id, row);
+            return [row];
+          },
+        }),
+      }),
+      delete: () => ({ where: async () => undefined }),
+      update: () => ({
+        set: (values: Row) => ({
+          where: async (where: Condition) => {
+            for (const row of matching(where)) Object.assign(row, values);
+          },
+        }),
+      }),
+    },
+  };
+});
+
+vi.mock("@/main/settings", () => ({
+  readSettings: () => ({ providerSettings: {} }),
+}));
+
+vi.mock("@/ipc/utils/agent_deployment_utils", () => ({
+  buildAgentBundle: mocks.buildAgentBundle,
+  startLocalAgent: mocks.startLocalAgent,
+  startDockerAgent: mocks.startDockerAgent,
+  stopAgentDeployment: mocks.stopAgentDeployment,
+}));
+
+vi.mock("@/ipc/handlers/agent_export_handlers", () => ({
+  getAgentDeploymentDir: (deploymentId: number) =>
+    `/exports/deployments/deployment-${deploymentId}`,
+  removeAgentDeploymentDir: mocks.removeAgentDeploymentDir,
+  writeAgentBundle: mocks.writeAgentBundle,
+}));
+
+vi.mock("@/ipc/utils/knowledge_base_indexer", () => ({
+  deleteKnowledgeIndex: vi.fn(),
+  indexKnowledgeBase: vi.fn(),
+  searchKnowledgeBases: vi.fn(),
+}));
+vi.mock("@/ipc/utils/agent_model_client", () => ({
+  getAgentModelClient: vi.fn(),
+}));
+
+import {
+  handleDeleteAgent,
+  handleDeployAgent,
+  handleStopDeployment,
+  registerAgentBuilderHandlers,
+} from "@/ipc/handlers/agent_builder_handlers";
+
+const event = {} as IpcMainInvokeEvent;
+
+/** A promise whose settlement the test controls */
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => (resolve = res));
+  return { promise, resolve };
+}
+
+function statusOf(deploymentId: number) {
+  return mocks.deployments.get(deploymentId)?.deploymentStatus;
+}
+
+describe("agent deployment lifecycle", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.deployments.clear();
+    mocks.writeAgentBundle.mockImplementation(
+      async (_agentId: number, options: { outputDir: string }) =>
+        options.outputDir,
+    );
+    mocks.buildAgentBundle.mockResolvedValue(undefined);
+    mocks.startLocalAgent.mockImplementation(
+      async ({ deploymentId }: { deploymentId: number }) => ({
+        deploymentId,
+        target: "local",
+        endpoint: "http://127.0.0.1:32100",
+      }),
+    );
+    mocks.stopAgentDeployment.mockResolvedValue(undefined);
+    mocks.removeAgentDeploymentDir.mockResolvedValue(undefined);
+  });
+
+  it("should build and start a local deployment in its own directory", async () => {
+    const first = await handleDeployAgent(event, {
+      agentId: 7,
+      target: "local",
+    });
+    const second = await handleDeployAgent(event, {
+      agentId: 7,
+      target: "local",
+    });
+
+    await vi.waitFor(() => {
+      expect(statusOf(first.id)).toBe("deployed");
+      expect(statusOf(second.id)).toBe("deployed");
+    });
+    expect(mocks.buildAgentBundle.mock.calls.map(([dir]) => dir)).toEqual([
+      `/exports/deployments/deployment-${first.id}`,
+      `/exports/deployments/deployment-${second.id}`,
+    ]);
+    expect(mocks.deployments.get(first.id)).toMatchObject({
+      endpoint: "http://127.0.0.1:32100",
+      error: null,
+    });
+  });
+
+  it("should mark a deployment failed when the build fails", async () => {
+    mocks.buildAgentBundle.mockRejectedValue(new Error("npm install failed"));
+
+    const deployment = await handleDeployAgent(event, {
+      agentId: 7,
+      target: "local",
+    });
+
+    await vi.waitFor(() => expect(statusOf(deployment.id)).toBe("failed"));
+    expect(mocks.deployments.get(deployment.id)?.error).toBe(
+      "npm install failed",
+    );
+    expect(mocks.startLocalAgent).not.toHaveBeenCalled();
+    expect(mocks.removeAgentDeploymentDir).toHaveBeenCalledWith(deployment.id);
+  });
+
+  it("should stop and remove an agent's deployments when it is deleted", async () => {
+    const deployment = await handleDeployAgent(event, {
+      agentId: 7,
+      target: "local",
+    });
+    await vi.waitFor(() => expect(statusOf(deployment.id)).toBe("deployed"));
+
+    await handleDeleteAgent(event, 7);
+
+    expect(mocks.stopAgentDeployment).toHaveBeenCalledWith(
+      deployment.id,
+      "local",
+    );
+    expect(mocks.removeAgentDeploymentDir).toHaveBeenCalledWith(deployment.id);
+  });
+
+  it("should not start an agent that was stopped while building", async () => {
+    const build = deferred();
+    mocks.buildAgentBundle.mockReturnValue(build.promise);
+
+    const deployment = await handleDeployAgent(event, {
+      agentId: 7,
+      target: "local",
+    });
+    await vi.waitFor(() => expect(mocks.buildAgentBundle).toHaveBeenCalled());
+
+    await handleStopDeployment(event, deployment.id);
+    build.resolve();
+
+    await vi.waitFor(() =>
+      expect(mocks.stopAgentDeployment).toHaveBeenCalledTimes(2),
+    );
+    expect(mocks.startLocalAgent).not.toHaveBeenCalled();
+    expect(statusOf(deployment.id)).toBe("stopped");
+  });
+
+  it("should stop an agent that finished starting after it was stopped", async () => {
+    const started = deferred<{ endpoint: string }>();
+    mocks.startLocalAgent.mockReturnValue(started.promise);
+
+    const deployment = await handleDeployAgent(event, {
+      agentId: 7,
+      target: "local",
+    });
+    await vi.waitFor(() => expect(mocks.startLocalAgent).toHaveBeenCalled());
+
+    await handleStopDeployment(event, deployment.id);
+    started.resolve({ endpoint: "http://127.0.0.1:32100" });
+
+    await vi.waitFor(() =>
+      expect(mocks.stopAgentDeployment).toHaveBeenLastCalledWith(
+        deployment.id,
+        "local",
+      ),
+    );
+    expect(mocks.stopAgentDeployment).toHaveBeenCalledTimes(2);
+    expect(statusOf(deployment.id)).toBe("stopped");
+  });
+
+  it("should reconcile deployments left behind by the last run", async () => {
+    const rows = [
+      { id: 101, target: "local", deploymentStatus: "deployed" },
+      { id: 102, target: "docker", deploymentStatus: "deployed" },
+      { id: 103, target: "local", deploymentStatus: "building" },
+      { id: 104, target: "docker", deploymentStatus: "deploying" },
+      { id: 105, target: "local", deploymentStatus: "failed", error: "boom" },
+    ];
+    for (const row of rows) mocks.deployments.set(row.id, { ...row });
+
+    registerAgentBuilderHandlers();
+
+    await vi.waitFor(() => expect(statusOf(101)).toBe("stopped"));
+    await vi.waitFor(() => expect(statusOf(104)).toBe("failed"));
+    expect(statusOf(102)).toBe("deployed");
+    expect(mocks.deployments.get(103)).toMatchObject({
+      deploymentStatus: "failed",
+      error: "Deployment was interrupted before it finished",
+    });
+    expect(mocks.deployments.get(105)?.error).toBe("boom");
+    expect(mocks.handlers.has("agent:deployment:stop")).toBe(true);
+  });
+});
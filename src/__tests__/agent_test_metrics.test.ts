@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import {
+  compareReplayTurn,
+  computeTestMetrics,
+  countMessageErrors,
+  getReplayTurns,
+} from "@/lib/agent_test_metrics";
+import type { AgentTestMessage, AgentToolCall } from "@/types/agent_builder";
+
+let nextId = 0;
+
+function message(
+  role: AgentTestMessage["role"],
+  content: string,
+  extra: Partial<AgentTestMessage> = {},
+): AgentTestMessage {
+  return { id: `m${nextId++}`, role, content, timestamp: nextId, ...extra };
+}
+
+function toolCall(
+  name: string,
+  status: AgentToolCall["status"] = "completed",
+): AgentToolCall {
+  return { id: `call-${name}`, name, input: {}, status };
+}
+
+describe("computeTestMetrics", () => {
+  it("should report only the message count for an empty conversation", () => {
+    expect(computeTestMetrics([message("user", "hi")])).toEqual({
+      totalMessages: 1,
+      averageResponseTime: undefined,
+      toolCallCount: 0,
+      errorCount: 0,
+      tokenUsage: { prompt: 0, completion: 0, total: 0 },
+    });
+  });
+
+  it("should aggregate latency, tool calls and tokens over responses", () => {
+    const metrics = computeTestMetrics([
+      message("system", "be brief"),
+      message("user", "one"),
+      message("assistant", "first", {
+        latencyMs: 100,
+        toolCalls: [toolCall("search"), toolCall("fetch")],
+        tokenUsage: { prompt: 10, completion: 5, total: 15 },
+      }),
+      message("user", "two"),
+      message("assistant", "second", {
+        latencyMs: 251,
+        tokenUsage: { prompt: 20, completion: 7, total: 27 },
+      }),
+    ]);
+
+    expect(metrics).toEqual({
+      totalMessages: 5,
+      averageResponseTime: 176,
+      toolCallCount: 2,
+      errorCount: 0,
+      tokenUsage: { prompt: 30, completion: 12, total: 42 },
+    });
+  });
+
+  it("should average latency only over timed responses", () => {
+    const metrics = computeTestMetrics([
+      message("assistant", "timed", { latencyMs: 300 }),
+      message("assistant", "untimed"),
+    ]);
+
+    expect(metrics.averageResponseTime).toBe(300);
+  });
+
+  it("should count failed responses and failed tool calls as errors", () => {
+    const failed = message("assistant", "", {
+      error: "model unavailable",
+      toolCalls: [toolCall("search", "failed")],
+    });
+
+    expect(countMessageErrors(failed)).toBe(2);
+    expect(
+      computeTestMetrics([
+        failed,
+        message("assistant", "ok", {
+          toolCalls: [toolCall("fetch", "failed"), toolCall("search")],
+        }),
+        // Errors on user messages aren't agent errors
+        message("user", "hi", { error: "ignored" }),
+      ]).errorCount,
+    ).toBe(3);
+  });
+});
+
+describe("getReplayTurns", () => {
+  it("should keep user inputs in order, paired with their replies", () => {
+    const first = message("assistant", "first reply");
+    const second = message("assistant", "second reply");
+
+    const turns = getReplayTurns([
+      message("system", "be brief"),
+      message("user", "one"),
+      first,
+      message("user", "two"),
+      message("system", "tool output"),
+      second,
+      message("user", "three"),
+    ]);
+
+    expect(turns).toEqual([
+      { input: "one", originalResponse: first },
+      { input: "two", originalResponse: second },
+      { input: "three", originalResponse: undefined },
+    ]);
+  });
+
+  it("should not pair a user message with the next user message", () => {
+    const reply = message("assistant", "reply");
+
+    expect(
+      getReplayTurns([message("user", "one"), message("user", "two"), reply]),
+    ).toEqual([
+      { input: "one", originalResponse: undefined },
+      { input: "two", originalResponse: reply },
+    ]);
+  });
+});
+
+describe("compareReplayTurn", () => {
+  it("should compare responses, tool calls and latency", () => {
+    const comparison = compareReplayTurn(
+      {
+        input: "one",
+        originalResponse: message("assistant", "", {
+          error: "timeout",
+          latencyMs: 900,
+          toolCalls: [toolCall("search")],
+        }),
+      },
+      message("assistant", "answer", {
+        latencyMs: 400,
+        toolCalls: [toolCall("search"), toolCall("fetch")],
+      }),
+    );
+
+    expect(comparison).toEqual({
+      input: "one",
+      originalResponse: "Error: timeout",
+      replayResponse: "answer",
+      originalToolCalls: ["search"],
+      replayToolCalls: ["search", "fetch"],
+      latencyDeltaMs: -500,
+    });
+  });
+
+  it("should leave out what the original turn didn't have", () => {
+    const comparison = compareReplayTurn(
+      { input: "one" },
+      message("assistant", "answer", { latencyMs: 400 }),
+    );
+
+    expect(comparison.originalResponse).toBeUndefined();
+    expect(comparison.originalToolCalls).toEqual([]);
+    expect(comparison.latencyDeltaMs).toBeUndefined();
+  });
+});
@@ -0,0 +1,160 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { IpcMainInvokeEvent } from "electron";
+import type { AgentTestMessage } from "@/types/agent_builder";
+
+const mocks = vi.hoisted(() => ({
+  session: null as Record<string, unknown> | null,
+  inserted: [] as Record<string, unknown>[],
+  generateText: vi.fn(),
+}));
+
+vi.mock("electron", () => ({ ipcMain: { handle: vi.fn() } }));
+
+vi.mock("electron-log", () => ({
+  default: {
+    scope: () => ({
+      log: vi.fn(),
+      info: vi.fn(),
+      debug: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+  },
+}));
+
+vi.mock("@/db", () => ({
+  db: {
+    query: {
+      agentTestSessions: { findFirst: async () => mocks.session },
+      agents: {
+        findFirst: async () => ({
+          id: 3,
+          type: "chatbot",
+          version: "1.2.0",
+          systemPrompt: "You are helpful",
+          modelId: "test-model",
+          tools: [],
+        }),
+      },
+    },
+    insert: () => ({
+      values: (values: Record<string, unknown>) => ({
+        returning: async () => {
+          const row = {
+            id: 99,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            ...values,
+          };
+          mocks.inserted.push(row);
+          return [row];
+        },
+      }),
+    }),
+  },
+}));
+
+vi.mock("ai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("ai")>()),
+  generateText: mocks.generateText,
+}));
+
+vi.mock("@/ipc/utils/agent_model_client", () => ({
+  getAgentModelClient: async () => ({ modelClient: { model: "test-model" } }),
+}));
+vi.mock("@/main/settings", () => ({ readSettings: () => ({}) }));
+vi.mock("@/ipc/utils/agent_deployment_utils", () => ({}));
+vi.mock("@/ipc/handlers/agent_export_handlers", () => ({}));
+vi.mock("@/ipc/utils/knowledge_base_indexer", () => ({}));
+
+import { handleReplayTestSession } from "@/ipc/handlers/agent_builder_handlers";
+
+const event = { sender: undefined } as unknown as IpcMainInvokeEvent;
+
+function message(
+  role: AgentTestMessage["role"],
+  content: string,
+  extra: Partial<AgentTestMessage> = {},
+): AgentTestMessage {
+  return { id: content, role, content, timestamp: 0, ...extra };
+}
+
+describe("handleReplayTestSession", () => {
+  beforeEach(() => {
+    mocks.inserted = [];
+    mocks.generateText.mockReset();
+    mocks.session = {
+      id: 12,
+      agentId: 3,
+      messagesJson: [
+        message("user", "one"),
+        message("assistant", "first reply", { latencyMs: 50 }),
+        message("user", "two"),
+        message("assistant", "second reply"),
+        message("user", "three"),
+      ],
+    };
+  });
+
+  it("should replay turns in order, each on top of the replayed history", async () => {
+    const calls: string[][] = [];
+    mocks.generateText.mockImplementation(
+      async ({ messages }: { messages: { content: string }[] }) => {
+        calls.push(messages.map((m) => m.content));
+        return {
+          text: `replay ${calls.length}`,
+          totalUsage: { inputTokens: 1, outputTokens: 2, totalTokens: 3 },
+        };
+      },
+    );
+
+    const { session, comparisons } = await handleReplayTestSession(event, 12);
+
+    expect(calls).toEqual([
+      ["one"],
+      ["one", "replay 1", "two"],
+      ["one", "replay 1", "two", "replay 2", "three"],
+    ]);
+    expect(session.messages?.map((m) => m.content)).toEqual([
+      "one",
+      "replay 1",
+      "two",
+      "replay 2",
+      "three",
+      "replay 3",
+    ]);
+    expect(comparisons.map((c) => [c.input, c.originalResponse])).toEqual([
+      ["one", "first reply"],
+      ["two", "second reply"],
+      ["three", undefined],
+    ]);
+    expect(mocks.inserted[0]).toMatchObject({
+      replayOfSessionId: 12,
+      agentVersion: "1.2.0",
+      metricsJson: {
+        totalMessages: 6,
+        tokenUsage: { prompt: 3, completion: 6, total: 9 },
+      },
+    });
+  });
+
+  it("should keep replaying after a failed turn and leave it out of the history", async () => {
+    mocks.generateText
+      .mockRejectedValueOnce(new Error("model unavailable"))
+      .mockImplementation(
+        async ({ messages }: { messages: { content: string }[] }) => ({
+          text: `saw ${messages.map((m) => m.content).join(",")}`,
+          totalUsage: {},
+        }),
+      );
+
+    const { comparisons } = await handleReplayTestSession(event, 12);
+
+    expect(comparisons.map((c) => c.replayResponse)).toEqual([
+      "Error: model unavailable",
+      "saw one,two",
+      "saw one,two,saw one,two,three",
+    ]);
+  });
+});
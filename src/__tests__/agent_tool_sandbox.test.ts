@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from "vitest";
+import os from "node:os";
+import path from "node:path";
+import fs from "node:fs";
+import { runInSandbox } from "@/ipc/utils/agent_tool_sandbox";
+
+vi.mock("electron-log", () => ({
+  default: {
+    scope: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  },
+}));
+
+describe("runInSandbox", () => {
+  it("should return the output of the code with timing and logs", async () => {
+    const result = await runInSandbox({
+      source:
+        "console.log('sum', input.a + input.b); return { sum: input.a + input.b };",
+      scope: { input: { a: 2, b: 3 } },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toEqual({ sum: 5 });
+    expect(result.logs).toEqual(["sum 5"]);
+    expect(result.executionTimeMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should surface thrown errors", async () => {
+    const result = await runInSandbox({
+      source: "throw new Error('bad input');",
+      scope: {},
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("bad input");
+  });
+
+  it("should not expose host globals", async () => {
+    const result = await runInSandbox({
+      source: `return [
+        typeof require,
+        typeof process,
+        (() => { try { return console.log.constructor("return typeof process")(); } catch (e) { return "blocked"; } })(),
+        (() => { try { return globalThis.constructor.constructor("return typeof process")(); } catch (e) { return "blocked"; } })(),
+      ];`,
+      scope: {},
+    });
+
+    expect(result.output).toEqual([
+      "undefined",
+      "undefined",
+      "blocked",
+      "blocked",
+    ]);
+  });
+
+  it("should stop code that runs past the timeout", async () => {
+    const result = await runInSandbox({
+      source: "while (true) {}",
+      scope: {},
+      timeoutMs: 200,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/timed out/);
+  });
+
+  it("should deny network access unless granted", async () => {
+    const result = await runInSandbox({
+      source: 'return await fetch("http://127.0.0.1:9/");',
+      scope: {},
+      permissions: { filesystem: { paths: [os.tmpdir()] } },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Network access is not granted/);
+  });
+
+  it("should deny filesystem access unless granted", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sandbox-"));
+    const file = path.join(dir, "data.txt");
+    fs.writeFileSync(file, "hello");
+
+    const denied = await runInSandbox({
+      source: "return await fs.readFile(input.file);",
+      scope: { input: { file } },
+    });
+    expect(denied.success).toBe(false);
+    expect(denied.error).toMatch(/not granted/);
+
+    const granted = await runInSandbox({
+      source: "return await fs.readFile(input.file);",
+      scope: { input: { file } },
+      permissions: { filesystem: { paths: [dir] } },
+    });
+    expect(granted.output).toBe("hello");
+
+    const outside = await runInSandbox({
+      source: "return await fs.readFile(input.file);",
+      scope: { input: { file: path.join(dir, "..", "elsewhere.txt") } },
+      permissions: { filesystem: { paths: [dir] } },
+    });
+    expect(outside.error).toMatch(/outside the granted paths/);
+
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
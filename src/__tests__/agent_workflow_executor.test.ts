@@ -0,0 +1,315 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  WorkflowExecutor,
+  createInitialRunState,
+  createInitialVariables,
+  evaluateExpression,
+  interpolateTemplate,
+  type WorkflowNodeRunners,
+} from "@/lib/agent_workflow_executor";
+import type {
+  WorkflowDefinition,
+  WorkflowExecution,
+} from "@/types/agent_builder";
+
+function createRunners(
+  overrides: Partial<WorkflowNodeRunners> = {},
+): WorkflowNodeRunners {
+  return {
+    llm: vi.fn(async (_node, request) => `llm:${request.prompt}`),
+    tool: vi.fn(async (_node, input) => ({ echoed: input })),
+    subagent: vi.fn(async () => "subagent"),
+    code: vi.fn(async (_node, request) => {
+      const fn = new Function(...Object.keys(request.scope), request.source);
+      return fn(...Object.values(request.scope));
+    }),
+    ...overrides,
+  };
+}
+
+function createExecutor(
+  definition: WorkflowDefinition,
+  runners: WorkflowNodeRunners,
+  variables: Record<string, unknown> = {},
+) {
+  const execution: WorkflowExecution = {
+    id: "exec-1",
+    workflowId: 1,
+    status: "running",
+    variables: createInitialVariables(definition, variables),
+    history: [],
+    startedAt: new Date(),
+  };
+  return new WorkflowExecutor(
+    definition,
+    execution,
+    createInitialRunState(definition),
+    { runners },
+  );
+}
+
+describe("interpolateTemplate", () => {
+  it("should replace placeholders with scope values", () => {
+    expect(
+      interpolateTemplate("Hello {{variables.name}}!", {
+        variables: { name: "Ada" },
+      }),
+    ).toBe("Hello Ada!");
+  });
+
+  it("should return the raw value for a single placeholder", () => {
+    expect(interpolateTemplate("{{input}}", { input: { a: 1 } })).toEqual({
+      a: 1,
+    });
+  });
+});
+
+describe("evaluateExpression", () => {
+  it("should evaluate expressions against the scope", () => {
+    expect(evaluateExpression("input.count > 2", { input: { count: 3 } })).toBe(
+      true,
+    );
+  });
+
+  it("should not expose the host Function constructor through scope objects", () => {
+    expect(() =>
+      evaluateExpression('input.constructor.constructor("return process")()', {
+        input: { a: 1 },
+      }),
+    ).toThrow();
+    expect(() =>
+      evaluateExpression(
+        'this.constructor.constructor("return process")()',
+        {},
+      ),
+    ).toThrow();
+    expect(evaluateExpression("typeof process", {})).toBe("undefined");
+  });
+
+  it("should time out sandbox code that runs while serializing the result", () => {
+    expect(() =>
+      evaluateExpression("({ toJSON() { while (true) {} } })", {}),
+    ).toThrow(/timed out/);
+    expect(
+      evaluateExpression(
+        "(JSON.stringify = () => ({ toString() { while (true) {} } }), 1)",
+        {},
+      ),
+    ).toBe(1);
+  });
+});
+
+describe("WorkflowExecutor", () => {
+  it("should run nodes in order and pass outputs along edges", async () => {
+    const runners = createRunners();
+    const definition: WorkflowDefinition = {
+      entryNodeId: "start",
+      nodes: [
+        {
+          id: "start",
+          type: "transform",
+          name: "Start",
+          config: { transformCode: "return variables.topic.toUpperCase();" },
+        },
+        {
+          id: "ask",
+          type: "llm",
+          name: "Ask",
+          config: { prompt: "Write about {{input}}" },
+        },
+      ],
+      edges: [{ id: "e1", sourceId: "start", targetId: "ask" }],
+    };
+
+    const execution = await createExecutor(definition, runners, {
+      topic: "owls",
+    }).run();
+
+    expect(execution.status).toBe("completed");
+    expect(execution.history.map((s) => s.nodeId)).toEqual(["start", "ask"]);
+    expect(execution.history[1].output).toBe("llm:Write about OWLS");
+    expect((execution.variables.nodes as Record<string, unknown>).ask).toBe(
+      "llm:Write about OWLS",
+    );
+  });
+
+  it("should follow the branch matching a condition", async () => {
+    const definition: WorkflowDefinition = {
+      entryNodeId: "check",
+      nodes: [
+        {
+          id: "check",
+          type: "condition",
+          name: "Check",
+          config: { condition: "variables.score > 5" },
+        },
+        { id: "high", type: "llm", name: "High", config: { prompt: "high" } },
+        { id: "low", type: "llm", name: "Low", config: { prompt: "low" } },
+      ],
+      edges: [
+        { id: "t", sourceId: "check", targetId: "high", sourceHandle: "true" },
+        { id: "f", sourceId: "check", targetId: "low", sourceHandle: "false" },
+      ],
+    };
+
+    const execution = await createExecutor(definition, createRunners(), {
+      score: 3,
+    }).run();
+
+    expect(execution.history.map((s) => s.nodeId)).toEqual(["check", "low"]);
+  });
+
+  it("should skip edges whose condition is false", async () => {
+    const definition: WorkflowDefinition = {
+      entryNodeId: "a",
+      nodes: [
+        { id: "a", type: "llm", name: "A", config: { prompt: "a" } },
+        { id: "b", type: "llm", name: "B", config: { prompt: "b" } },
+      ],
+      edges: [
+        {
+          id: "e",
+          sourceId: "a",
+          targetId: "b",
+          condition: "output === 'never'",
+        },
+      ],
+    };
+
+    const execution = await createExecutor(definition, createRunners()).run();
+
+    expect(execution.history.map((s) => s.nodeId)).toEqual(["a"]);
+  });
+
+  it("should stop a loop at maxIterations", async () => {
+    const runners = createRunners();
+    const definition: WorkflowDefinition = {
+      entryNodeId: "loop",
+      nodes: [
+        {
+          id: "loop",
+          type: "loop",
+          name: "Loop",
+          config: { maxIterations: 3 },
+        },
+        { id: "body", type: "llm", name: "Body", config: { prompt: "go" } },
+        { id: "done", type: "llm", name: "Done", config: { prompt: "done" } },
+      ],
+      edges: [
+        { id: "b", sourceId: "loop", targetId: "body", sourceHandle: "body" },
+        { id: "back", sourceId: "body", targetId: "loop" },
+        { id: "x", sourceId: "loop", targetId: "done", sourceHandle: "exit" },
+      ],
+    };
+
+    const execution = await createExecutor(definition, runners).run();
+
+    expect(execution.status).toBe("completed");
+    expect(execution.history.filter((s) => s.nodeId === "body")).toHaveLength(
+      3,
+    );
+    expect(execution.history[execution.history.length - 1].nodeId).toBe("done");
+  });
+
+  it("should break a loop when breakCondition is met", async () => {
+    const definition: WorkflowDefinition = {
+      entryNodeId: "loop",
+      nodes: [
+        {
+          id: "loop",
+          type: "loop",
+          name: "Loop",
+          config: { maxIterations: 10, breakCondition: "iteration >= 2" },
+        },
+        { id: "body", type: "llm", name: "Body", config: { prompt: "go" } },
+      ],
+      edges: [
+        { id: "b", sourceId: "loop", targetId: "body", sourceHandle: "body" },
+        { id: "back", sourceId: "body", targetId: "loop" },
+      ],
+    };
+
+    const execution = await createExecutor(definition, createRunners()).run();
+
+    expect(execution.history.filter((s) => s.nodeId === "body")).toHaveLength(
+      2,
+    );
+  });
+
+  it("should pause on human nodes and resume with the provided input", async () => {
+    const definition: WorkflowDefinition = {
+      entryNodeId: "approve",
+      nodes: [
+        {
+          id: "approve",
+          type: "human",
+          name: "Approve",
+          config: { message: "Approve?" },
+        },
+        {
+          id: "after",
+          type: "llm",
+          name: "After",
+          config: { prompt: "approved: {{input}}" },
+        },
+      ],
+      edges: [{ id: "e", sourceId: "approve", targetId: "after" }],
+    };
+    const executor = createExecutor(definition, createRunners());
+
+    const paused = await executor.run();
+    expect(paused.status).toBe("paused");
+    expect(paused.currentNodeId).toBe("approve");
+    expect(paused.history[0].status).toBe("pending");
+
+    const resumed = await executor.resume("yes");
+    expect(resumed.status).toBe("completed");
+    expect(resumed.history[0].status).toBe("completed");
+    expect(resumed.history[1].output).toBe("llm:approved: yes");
+  });
+
+  it("should fail the execution when a node throws", async () => {
+    const definition: WorkflowDefinition = {
+      entryNodeId: "a",
+      nodes: [{ id: "a", type: "tool", name: "A", config: { toolName: "x" } }],
+      edges: [],
+    };
+    const runners = createRunners({
+      tool: vi.fn(async () => {
+        throw new Error("boom");
+      }),
+    });
+
+    const execution = await createExecutor(definition, runners).run();
+
+    expect(execution.status).toBe("failed");
+    expect(execution.error).toBe("boom");
+    expect(execution.history[0].status).toBe("failed");
+  });
+
+  it("should fail runaway graphs after maxSteps", async () => {
+    const definition: WorkflowDefinition = {
+      entryNodeId: "a",
+      nodes: [{ id: "a", type: "llm", name: "A", config: { prompt: "a" } }],
+      edges: [{ id: "self", sourceId: "a", targetId: "a" }],
+    };
+    const execution = new WorkflowExecutor(
+      definition,
+      {
+        id: "exec",
+        workflowId: 1,
+        status: "running",
+        variables: createInitialVariables(definition),
+        history: [],
+        startedAt: new Date(),
+      },
+      createInitialRunState(definition),
+      { runners: createRunners(), maxSteps: 5 },
+    );
+
+    const result = await execution.run();
+
+    expect(result.status).toBe("failed");
+    expect(result.history).toHaveLength(5);
+  });
+});
@@ -0,0 +1,229 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import git from "isomorphic-git";
+import {
+  chatBranchName,
+  chatIdFromBranch,
+  isChatBranch,
+} from "@/lib/chat_branches";
+import {
+  checkoutBranch,
+  ensureChatBranch,
+  listChatBranches,
+  mergeChatBranch,
+  withChatBranch,
+} from "@/ipc/utils/chat_branch_utils";
+import { withLock } from "@/ipc/utils/lock_utils";
+
+// Run git_utils through isomorphic-git, which needs no git binary
+vi.mock("@/main/settings", () => ({
+  readSettings: () => ({ enableNativeGit: false }),
+}));
+
+vi.mock("@/ipc/utils/git_author", () => ({
+  getGitAuthor: async () => ({ name: "[dyad]", email: "git@dyad.sh" }),
+}));
+
+vi.mock("electron-log", () => ({
+  default: {
+    scope: () => ({
+      log: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+  },
+}));
+
+const author = { name: "test", email: "test@example.com" };
+let dir: string;
+
+async function commitFiles(files: Record<string, string>, message: string) {
+  for (const [filepath, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, filepath), content);
+    await git.add({ fs, dir, filepath });
+  }
+  return git.commit({ fs, dir, message, author });
+}
+
+const read = (filepath: string) =>
+  fs.readFileSync(path.join(dir, filepath), "utf8");
+
+describe("chat branch names", () => {
+  it("should round-trip chat ids and ignore other branches", () => {
+    expect(chatBranchName(12)).toBe("chat/12");
+    expect(chatIdFromBranch("chat/12")).toBe(12);
+    expect(isChatBranch("main")).toBe(false);
+    expect(isChatBranch("chat/new-idea")).toBe(false);
+    expect(isChatBranch(null)).toBe(false);
+  });
+});
+
+describe("chat branches", () => {
+  let initialCommit: string;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "chat-branches-"));
+    await git.init({ fs, dir, defaultBranch: "main" });
+    initialCommit = await commitFiles(
+      { "a.txt": "one\ntwo\nthree\n", "b.txt": "b\n" },
+      "init",
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should create the branch from the chat's initial commit", async () => {
+    await commitFiles({ "b.txt": "b from main\n" }, "main moved on");
+
+    await ensureChatBranch({
+      appPath: dir,
+      chatId: 1,
+      initialCommitHash: initialCommit,
+    });
+
+    expect(await git.currentBranch({ fs, dir })).toBe("chat/1");
+    expect(read("b.txt")).toBe("b\n");
+    expect(await listChatBranches(dir)).toEqual([
+      { name: "chat/1", chatId: 1, isCurrent: true, merged: true },
+    ]);
+  });
+
+  it("should fast-forward main when it hasn't moved", async () => {
+    await ensureChatBranch({
+      appPath: dir,
+      chatId: 1,
+      initialCommitHash: initialCommit,
+    });
+    await commitFiles({ "a.txt": "one\nTWO\nthree\n" }, "chat change");
+
+    const result = await mergeChatBranch({ appPath: dir, chatId: 1 });
+
+    expect(result.status).toBe("fast-forward");
+    expect(await git.currentBranch({ fs, dir })).toBe("main");
+    expect(read("a.txt")).toBe("one\nTWO\nthree\n");
+    expect((await mergeChatBranch({ appPath: dir, chatId: 1 })).status).toBe(
+      "up-to-date",
+    );
+  });
+
+  it("should merge parallel chats and move the chat branch to main", async () => {
+    await ensureChatBranch({
+      appPath: dir,
+      chatId: 1,
+      initialCommitHash: initialCommit,
+    });
+    await commitFiles({ "a.txt": "one\ntwo\nthree\nfour\n" }, "chat 1");
+    await ensureChatBranch({
+      appPath: dir,
+      chatId: 2,
+      initialCommitHash: initialCommit,
+    });
+    await commitFiles({ "b.txt": "b from chat 2\n" }, "chat 2");
+
+    expect((await mergeChatBranch({ appPath: dir, chatId: 1 })).status).toBe(
+      "fast-forward",
+    );
+    const result = await mergeChatBranch({ appPath: dir, chatId: 2 });
+
+    expect(result.status).toBe("merged");
+    expect(read("a.txt")).toBe("one\ntwo\nthree\nfour\n");
+    expect(read("b.txt")).toBe("b from chat 2\n");
+    expect(await git.resolveRef({ fs, dir, ref: "chat/2" })).toBe(
+      result.commitHash,
+    );
+  });
+
+  it("should report conflicts without touching main", async () => {
+    await ensureChatBranch({
+      appPath: dir,
+      chatId: 1,
+      initialCommitHash: initialCommit,
+    });
+    await commitFiles({ "a.txt": "one\nchat\nthree\n" }, "chat 1");
+    await git.checkout({ fs, dir, ref: "main" });
+    const mainHead = await commitFiles(
+      { "a.txt": "one\nmain\nthree\n" },
+      "main",
+    );
+
+    const result = await mergeChatBranch({ appPath: dir, chatId: 1 });
+
+    expect(result.status).toBe("conflicts");
+    expect(result.conflicts).toEqual([
+      {
+        path: "a.txt",
+        base: "one\ntwo\nthree\n",
+        main: "one\nmain\nthree\n",
+        branch: "one\nchat\nthree\n",
+      },
+    ]);
+    expect(await git.resolveRef({ fs, dir, ref: "main" })).toBe(mainHead);
+    expect(await git.currentBranch({ fs, dir })).toBe("chat/1");
+    expect(read("a.txt")).toBe("one\nchat\nthree\n");
+  });
+
+  it("should commit on the chat's branch after another chat switched away", async () => {
+    await ensureChatBranch({
+      appPath: dir,
+      chatId: 1,
+      initialCommitHash: initialCommit,
+    });
+    await ensureChatBranch({
+      appPath: dir,
+      chatId: 2,
+      initialCommitHash: initialCommit,
+    });
+
+    const commit = await withChatBranch(
+      { appId: 1, appPath: dir, chatId: 1, initialCommitHash: initialCommit },
+      async () => {
+        expect(await git.currentBranch({ fs, dir })).toBe("chat/1");
+        return commitFiles({ "a.txt": "chat 1\n" }, "chat 1");
+      },
+    );
+
+    expect(await git.resolveRef({ fs, dir, ref: "chat/1" })).toBe(commit);
+    expect(await git.resolveRef({ fs, dir, ref: "chat/2" })).toBe(
+      initialCommit,
+    );
+  });
+
+  it("should hold the app lock until the chat's commit is done", async () => {
+    let releaseCommit!: () => void;
+    const committing = withChatBranch(
+      { appId: 1, appPath: dir, chatId: 1, initialCommitHash: initialCommit },
+      async () => {
+        await new Promise<void>((resolve) => (releaseCommit = resolve));
+        return commitFiles({ "a.txt": "chat 1\n" }, "chat 1");
+      },
+    );
+    await vi.waitFor(() => expect(releaseCommit).toBeDefined());
+
+    const switching = withLock(1, () =>
+      checkoutBranch({ appPath: dir, branch: "main" }),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(await git.currentBranch({ fs, dir })).toBe("chat/1");
+
+    releaseCommit();
+    const commit = await committing;
+    await switching;
+
+    expect(await git.currentBranch({ fs, dir })).toBe("main");
+    expect(await git.resolveRef({ fs, dir, ref: "chat/1" })).toBe(commit);
+    expect(await git.resolveRef({ fs, dir, ref: "main" })).toBe(initialCommit);
+  });
+
+  it("should refuse to switch branches with uncommitted changes", async () => {
+    fs.writeFileSync(path.join(dir, "a.txt"), "edited\n");
+    await expect(
+      ensureChatBranch({ appPath: dir, chatId: 3, initialCommitHash: null }),
+    ).rejects.toThrow("uncommitted changes");
+  });
+});
@@ -0,0 +1,152 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import ts from "typescript";
+import {
+  findSymbolInFiles,
+  formatGrepResult,
+  formatSymbolSearchResult,
+  grepFiles,
+} from "@/lib/code_search";
+
+const ROOT = "/app";
+
+const files = [
+  {
+    path: "src/utils/format.ts",
+    content: `export function formatPrice(value: number) {
+  return "$" + value.toFixed(2);
+}
+
+export const TAX_RATE = 0.2;
+`,
+  },
+  {
+    path: "src/components/Price.tsx",
+    content: `import { formatPrice } from "@/utils/format";
+
+export function Price({ value }: { value: number }) {
+  return <span>{formatPrice(value)}</span>;
+}
+`,
+  },
+  {
+    path: "src/lib/cart.js",
+    content: `import { formatPrice as fmt, TAX_RATE } from "../utils/format";
+
+export function total(items) {
+  let sum = 0;
+  for (const item of items) sum += item.price;
+  return fmt(sum * (1 + TAX_RATE));
+}
+`,
+  },
+  { path: "README.md", content: "Call formatPrice to show prices.\n" },
+];
+
+describe("grepFiles", async () => {
+  it("should match case-insensitively by default and list matched files", async () => {
+    const result = await grepFiles(files, { pattern: "FORMATPRICE\\(" });
+    expect(result.files).toEqual([
+      "src/components/Price.tsx",
+      "src/utils/format.ts",
+    ]);
+    expect(
+      (await grepFiles(files, { pattern: "FORMATPRICE", caseSensitive: true }))
+        .matches,
+    ).toHaveLength(0);
+  });
+
+  it("should render context lines like grep -n", async () => {
+    const result = await grepFiles(files, {
+      pattern: "toFixed",
+      contextLines: 1,
+    });
+    expect(formatGrepResult(result)).toBe(
+      [
+        "src/utils/format.ts-1-export function formatPrice(value: number) {",
+        'src/utils/format.ts:2:  return "$" + value.toFixed(2);',
+        "src/utils/format.ts-3-}",
+      ].join("\n"),
+    );
+  });
+
+  it("should stop at the match limit and reject bad patterns", async () => {
+    const result = await grepFiles(files, { pattern: "e", maxMatches: 3 });
+    expect(result.matches).toHaveLength(3);
+    expect(result.truncated).toBe(true);
+    expect(formatGrepResult(result)).toContain("Stopped after 3 matches");
+    await expect(grepFiles(files, { pattern: "(" })).rejects.toThrow(
+      "Invalid regular expression",
+    );
+  });
+
+  it("should time out patterns that backtrack catastrophically", async () => {
+    await expect(
+      grepFiles([{ path: "a.txt", content: `${"a".repeat(40)}!` }], {
+        pattern: "^(a+)+$",
+        timeoutMs: 200,
+      }),
+    ).rejects.toThrow("Search timed out");
+  });
+});
+
+describe("findSymbolInFiles", () => {
+  const compilerOptions = {
+    baseUrl: ROOT,
+    paths: { "@/*": ["./src/*"] },
+    jsx: ts.JsxEmit.ReactJSX,
+  };
+
+  it("should find definitions and follow imports to references", () => {
+    const result = findSymbolInFiles(ts, files, {
+      name: "formatPrice",
+      rootDir: ROOT,
+      compilerOptions,
+    });
+
+    expect(result.definitions).toEqual([
+      expect.objectContaining({
+        path: "src/utils/format.ts",
+        line: 1,
+        kind: "function",
+      }),
+    ]);
+    // Path aliases, renamed imports (both names) and JS files are followed; the README isn't code
+    expect(result.references.map((r) => `${r.path}:${r.line}`)).toEqual([
+      "src/components/Price.tsx:1",
+      "src/components/Price.tsx:4",
+      "src/lib/cart.js:1",
+      "src/lib/cart.js:1",
+      "src/lib/cart.js:6",
+    ]);
+  });
+
+  it("should report symbols that aren't defined in the app", () => {
+    const result = findSymbolInFiles(ts, files, {
+      name: "missingThing",
+      rootDir: ROOT,
+    });
+    expect(formatSymbolSearchResult("missingThing", result)).toContain(
+      "No TypeScript/JavaScript definition",
+    );
+  });
+
+  it("should skip references when asked and cap the list", () => {
+    const definitionsOnly = findSymbolInFiles(ts, files, {
+      name: "TAX_RATE",
+      rootDir: ROOT,
+      includeReferences: false,
+    });
+    expect(definitionsOnly.definitions[0].kind).toBe("variable");
+    expect(definitionsOnly.references).toEqual([]);
+
+    const capped = findSymbolInFiles(ts, files, {
+      name: "formatPrice",
+      rootDir: ROOT,
+      compilerOptions,
+      maxReferences: 1,
+    });
+    expect(capped.references).toHaveLength(1);
+    expect(capped.truncated).toBe(true);
+  });
+});
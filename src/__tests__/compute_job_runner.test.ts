@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { InferenceJob } from "@/types/compute_network_types";
+
+vi.mock("electron-log", () => ({
+  default: {
+    scope: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  },
+}));
+
+const localModelService = vi.hoisted(() => ({
+  listAllModels: vi.fn(),
+  generate: vi.fn(),
+  chat: vi.fn(),
+  embed: vi.fn(),
+  getLoadedModelMemory: vi.fn(),
+}));
+
+vi.mock("@/lib/local_model_service", () => ({ localModelService }));
+
+import {
+  canRunComputeJob,
+  createValidationSample,
+  deriveJobSeed,
+  parseJobInput,
+  runComputeJob,
+} from "@/ipc/utils/compute_job_runner";
+
+function createJob(overrides: Partial<InferenceJob> = {}): InferenceJob {
+  return {
+    id: "job-1",
+    type: "text-generation",
+    modelCid: "sha256:abc123",
+    modelName: "llama3.1",
+    inputCid: "bafyinput",
+    params: {},
+    requester: "peer-a",
+    validators: [],
+    priority: 1,
+    maxExecutionTimeMs: 60000,
+    paymentOffered: BigInt(0),
+    requiredStake: BigInt(0),
+    redundancy: 1,
+    consensusThreshold: 0.66,
+    status: "pending",
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+const encode = (value: string) => new TextEncoder().encode(value);
+
+describe("parseJobInput", () => {
+  it("should parse JSON object inputs", () => {
+    expect(parseJobInput(encode('{"prompt":"hi","images":["x"]}'))).toEqual({
+      prompt: "hi",
+      images: ["x"],
+    });
+  });
+
+  it("should treat non-JSON input as a prompt", () => {
+    expect(parseJobInput(encode("plain text"))).toEqual({
+      prompt: "plain text",
+    });
+  });
+});
+
+describe("deriveJobSeed", () => {
+  it("should use the explicit seed when given", () => {
+    expect(deriveJobSeed(createJob({ params: { seed: 42 } }))).toBe(42);
+  });
+
+  it("should derive the same seed for the same job on every executor", () => {
+    const seed = deriveJobSeed(createJob());
+    expect(deriveJobSeed(createJob({ id: "other-id" }))).toBe(seed);
+    expect(deriveJobSeed(createJob({ inputCid: "bafyother" }))).not.toBe(seed);
+  });
+});
+
+describe("createValidationSample", () => {
+  it("should sample a subset of embedding texts", () => {
+    const sample = createValidationSample(
+      createJob({ type: "text-embedding" }),
+      encode('{"texts":["a","b","c","d","e","f"]}'),
+      () => 0,
+    );
+
+    expect(sample.sampledIndices).toEqual([0, 1, 2]);
+    expect(sample.coverage).toBe(0.5);
+    expect(parseJobInput(sample.inputData).texts).toEqual(["a", "b", "c"]);
+  });
+
+  it("should limit generation samples while keeping the job seed", () => {
+    const job = createJob({ params: { maxTokens: 256 } });
+    const sample = createValidationSample(job, encode("Say hello"));
+
+    expect(sample.job.params.maxTokens).toBe(32);
+    expect(sample.job.params.seed).toBe(deriveJobSeed(job));
+    expect(sample.coverage).toBe(0.125);
+  });
+});
+
+describe("runComputeJob", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localModelService.listAllModels.mockResolvedValue([
+      {
+        id: "llama3.1:latest",
+        name: "llama3.1",
+        provider: "ollama",
+        digest: "abc123",
+      },
+    ]);
+    localModelService.getLoadedModelMemory.mockResolvedValue({
+      sizeMb: 4096,
+      vramMb: 3072,
+    });
+  });
+
+  it("should only accept supported job types with an installed model", async () => {
+    expect(await canRunComputeJob(createJob())).toBe(true);
+    expect(
+      await canRunComputeJob(createJob({ type: "image-generation" })),
+    ).toBe(false);
+    expect(
+      await canRunComputeJob(
+        createJob({ modelCid: "sha256:missing", modelName: "missing" }),
+      ),
+    ).toBe(false);
+  });
+
+  it("should generate deterministically and report backend metrics", async () => {
+    localModelService.generate.mockResolvedValue({
+      output: "Hello",
+      finishReason: "stop",
+      totalTokens: 12,
+      completionTokens: 10,
+      generationTimeMs: 900,
+      timings: { loadMs: 100, promptEvalMs: 50, evalMs: 500 },
+    });
+
+    const job = createJob();
+    const run = await runComputeJob(job, encode("Say hello"));
+
+    const request = localModelService.generate.mock.calls[0][0];
+    expect(request.prompt).toBe("Say hello");
+    expect(request.modelConfig.modelId).toBe("llama3.1:latest");
+    expect(request.modelConfig.options.temperature).toBe(0);
+    expect(request.modelConfig.options.seed).toBe(deriveJobSeed(job));
+    expect(run.output).toEqual({
+      type: "text-generation",
+      model: "abc123",
+      seed: deriveJobSeed(job),
+      text: "Hello",
+      finishReason: "stop",
+    });
+    expect(run.metrics).toMatchObject({
+      modelLoadTimeMs: 100,
+      inferenceTimeMs: 500,
+      peakMemoryMb: 4096,
+      peakVramMb: 3072,
+      tokensProcessed: 12,
+      tokensPerSecond: 20,
+    });
+  });
+
+  it("should round embeddings so executors produce identical output", async () => {
+    localModelService.embed.mockResolvedValue([[0.12345678, -0.9999999]]);
+
+    const run = await runComputeJob(
+      createJob({ type: "text-embedding" }),
+      encode('{"texts":["a"]}'),
+    );
+
+    expect(localModelService.embed).toHaveBeenCalledWith(
+      "ollama",
+      "llama3.1:latest",
+      ["a"],
+    );
+    expect(run.output).toEqual({
+      type: "text-embedding",
+      model: "abc123",
+      embeddings: [[0.123457, -1]],
+    });
+  });
+
+  it("should reject vision jobs without images", async () => {
+    await expect(
+      runComputeJob(createJob({ type: "vision" }), encode("describe")),
+    ).rejects.toThrow("vision jobs require input images");
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkExecutionMetrics,
+  compareJobOutputs,
+  compareSampledOutputs,
+  groupAgreeingOutputs,
+  isAcceptableMatch,
+  textSimilarity,
+} from "@/lib/compute_output_comparison";
+import type { ExecutionMetrics } from "@/types/compute_network_types";
+
+const generation = (text: string, finishReason = "stop") => ({
+  type: "text-generation",
+  model: "abc123",
+  seed: 1,
+  text,
+  finishReason,
+});
+
+const embedding = (embeddings: number[][]) => ({
+  type: "text-embedding",
+  model: "abc123",
+  embeddings,
+});
+
+describe("textSimilarity", () => {
+  it("should score identical and disjoint texts", () => {
+    expect(textSimilarity("the quick fox", "the quick fox")).toBe(1);
+    expect(textSimilarity("a b", "c d")).toBe(0);
+  });
+
+  it("should score by word edit distance", () => {
+    expect(textSimilarity("the quick brown fox", "the slow brown fox")).toBe(
+      0.75,
+    );
+  });
+});
+
+describe("compareJobOutputs", () => {
+  it("should accept identical generations", () => {
+    const comparison = compareJobOutputs(
+      generation("Hello world"),
+      generation("Hello world"),
+    );
+    expect(comparison).toEqual({ matchScore: 1, discrepancies: [] });
+    expect(isAcceptableMatch(comparison)).toBe(true);
+  });
+
+  it("should reject divergent generations with a discrepancy", () => {
+    const comparison = compareJobOutputs(
+      generation("The answer is 42"),
+      generation("I cannot help with that"),
+    );
+    expect(comparison.matchScore).toBeLessThan(0.5);
+    expect(comparison.discrepancies[0]).toMatchObject({
+      type: "output-mismatch",
+      severity: "critical",
+    });
+    expect(isAcceptableMatch(comparison)).toBe(false);
+  });
+
+  it("should tolerate small embedding drift", () => {
+    const comparison = compareJobOutputs(
+      embedding([[0.1, 0.2, 0.3]]),
+      embedding([[0.1000001, 0.2, 0.3]]),
+    );
+    expect(comparison.discrepancies).toEqual([]);
+    expect(isAcceptableMatch(comparison)).toBe(true);
+  });
+
+  it("should flag embeddings from a different model", () => {
+    const comparison = compareJobOutputs(embedding([[1, 0]]), {
+      ...embedding([[1, 0]]),
+      model: "other",
+    });
+    expect(comparison.matchScore).toBe(1);
+    expect(comparison.discrepancies[0].severity).toBe("high");
+    expect(isAcceptableMatch(comparison)).toBe(false);
+  });
+
+  it("should fail outputs of a different type", () => {
+    const comparison = compareJobOutputs(generation("x"), embedding([[1, 0]]));
+    expect(comparison.matchScore).toBe(0);
+    expect(comparison.discrepancies[0].severity).toBe("critical");
+  });
+});
+
+describe("compareSampledOutputs", () => {
+  it("should match a truncated sample against the output prefix", () => {
+    const comparison = compareSampledOutputs(
+      generation("Once upon a", "length"),
+      generation("Once upon a time there was a fox"),
+    );
+    expect(comparison).toEqual({ matchScore: 1, discrepancies: [] });
+  });
+
+  it("should report where a sample diverges", () => {
+    const comparison = compareSampledOutputs(
+      generation("Once upon a", "length"),
+      generation("Once we had a fox"),
+    );
+    expect(comparison.matchScore).toBeCloseTo(5 / 11);
+    expect(comparison.discrepancies).toHaveLength(1);
+  });
+
+  it("should compare only the sampled embeddings", () => {
+    const comparison = compareSampledOutputs(
+      embedding([[0, 1]]),
+      embedding([
+        [1, 0],
+        [0, 1],
+      ]),
+      [1],
+    );
+    expect(comparison).toEqual({ matchScore: 1, discrepancies: [] });
+  });
+});
+
+describe("checkExecutionMetrics", () => {
+  const metrics: ExecutionMetrics = {
+    executionTimeMs: 1000,
+    modelLoadTimeMs: 100,
+    inputProcessTimeMs: 50,
+    inferenceTimeMs: 800,
+    outputProcessTimeMs: 10,
+    peakMemoryMb: 1024,
+    peakVramMb: 0,
+    tokensPerSecond: 40,
+  };
+
+  it("should accept consistent metrics", () => {
+    expect(checkExecutionMetrics(metrics)).toEqual([]);
+  });
+
+  it("should flag timings that exceed the total", () => {
+    expect(
+      checkExecutionMetrics({ ...metrics, inferenceTimeMs: 5000 })[0].type,
+    ).toBe("metric-mismatch");
+  });
+
+  it("should flag implausible throughput", () => {
+    expect(
+      checkExecutionMetrics({ ...metrics, tokensPerSecond: 100000 })[0].type,
+    ).toBe("timing-anomaly");
+  });
+});
+
+describe("groupAgreeingOutputs", () => {
+  const words = Array.from({ length: 40 }, (_, i) => `word${i}`);
+  const candidate = (result: string, output: unknown, outputHash = result) => ({
+    result,
+    outputHash,
+    output,
+  });
+
+  it("should put near-equal generations in one group", () => {
+    const groups = groupAgreeingOutputs([
+      candidate("a", generation(words.join(" "))),
+      candidate("b", generation([...words.slice(0, -1), "last"].join(" "))),
+      candidate("c", generation("something else entirely")),
+    ]);
+
+    expect(groups).toEqual([["a", "b"], ["c"]]);
+  });
+
+  it("should reach a majority when embeddings drift slightly", () => {
+    const groups = groupAgreeingOutputs([
+      candidate("a", embedding([[0.1, 0.2, 0.3]])),
+      candidate("b", embedding([[0.1001, 0.2, 0.2999]])),
+      candidate("c", embedding([[0.1, 0.2001, 0.3]])),
+    ]);
+
+    expect(groups).toEqual([["a", "b", "c"]]);
+  });
+
+  it("should only join a group that every member agrees with", () => {
+    const base = words.join(" ");
+    const drift = (count: number) =>
+      [...words.slice(0, -count), ...Array(count).fill("x")].join(" ");
+    // "b" is close to both, but "a" and "c" are too far apart to agree
+    const groups = groupAgreeingOutputs([
+      candidate("a", generation(base)),
+      candidate("b", generation(drift(1))),
+      candidate("c", generation(drift(3))),
+    ]);
+
+    expect(groups).toEqual([["a", "b"], ["c"]]);
+  });
+
+  it("should match results without a loaded output only by hash", () => {
+    const groups = groupAgreeingOutputs([
+      candidate("a", undefined, "hash-1"),
+      candidate("b", undefined, "hash-2"),
+      candidate("c", generation("text"), "hash-1"),
+    ]);
+
+    expect(groups).toEqual([["a", "c"], ["b"]]);
+  });
+});
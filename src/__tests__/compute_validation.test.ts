@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkValidationResult,
+  hasPendingValidations,
+  selectValidators,
+} from "@/lib/compute_validation";
+import type {
+  JobResult,
+  PeerInfo,
+  ValidationRequest,
+  ValidationResult,
+} from "@/types/compute_network_types";
+
+const peer = (
+  peerId: string,
+  overrides: {
+    canValidate?: boolean;
+    publicKey?: string;
+    reputation?: number;
+    status?: PeerInfo["status"];
+  } = {},
+) =>
+  ({
+    id: { peerId, walletAddress: "", publicKey: overrides.publicKey ?? "key" },
+    capabilities: { canValidate: overrides.canValidate ?? true },
+    reputation: overrides.reputation ?? 50,
+    status: overrides.status ?? "online",
+  }) as PeerInfo;
+
+const request = (
+  id: string,
+  validator: string,
+  requestedAt = 0,
+): ValidationRequest => ({
+  id,
+  jobId: "job-1",
+  resultToValidate: { executor: "executor" } as JobResult,
+  validator,
+  validationType: "hash-verification",
+  timeoutMs: 1000,
+  stakeAmount: 0n,
+  requestedAt,
+});
+
+const result = (
+  requestId: string,
+  validator: string,
+  jobId = "job-1",
+): ValidationResult =>
+  ({
+    requestId,
+    jobId,
+    validator,
+    isValid: true,
+    confidence: 1,
+    signature: "sig",
+  }) as ValidationResult;
+
+describe("selectValidators", () => {
+  it("should pick online validators with known keys, best reputation first", () => {
+    const peers = [
+      peer("low", { reputation: 10 }),
+      peer("high", { reputation: 90 }),
+      peer("no-key", { publicKey: "" }),
+      peer("cannot", { canValidate: false }),
+      peer("offline", { status: "offline" }),
+      peer("executor", { reputation: 100 }),
+      peer("mid"),
+    ];
+
+    expect(
+      selectValidators(peers, { exclude: ["executor"], count: 2 }),
+    ).toEqual(["high", "mid"]);
+  });
+});
+
+describe("checkValidationResult", () => {
+  it("should accept a signed verdict from the assigned validator", () => {
+    expect(
+      checkValidationResult(result("r1", "v1"), request("r1", "v1"), [], true),
+    ).toEqual({ accept: true });
+  });
+
+  it("should reject answers to unknown requests or other jobs", () => {
+    expect(
+      checkValidationResult(result("r1", "v1"), undefined, [], true).accept,
+    ).toBe(false);
+    expect(
+      checkValidationResult(
+        result("r1", "v1", "job-2"),
+        request("r1", "v1"),
+        [],
+        true,
+      ).accept,
+    ).toBe(false);
+  });
+
+  it("should reject validators that weren't assigned the request", () => {
+    expect(
+      checkValidationResult(result("r1", "v2"), request("r1", "v1"), [], true),
+    ).toEqual({ accept: false, reason: "validator was not assigned" });
+    expect(
+      checkValidationResult(result("r1", ""), request("r1", ""), [], true)
+        .accept,
+    ).toBe(false);
+  });
+
+  it("should reject unsigned verdicts", () => {
+    expect(
+      checkValidationResult(result("r1", "v1"), request("r1", "v1"), [], false),
+    ).toEqual({ accept: false, reason: "invalid signature" });
+  });
+
+  it("should count one verdict per validator per job", () => {
+    const recorded = [result("r1", "v1")];
+
+    expect(
+      checkValidationResult(
+        result("r1", "v1"),
+        request("r1", "v1"),
+        recorded,
+        true,
+      ).accept,
+    ).toBe(false);
+    expect(
+      checkValidationResult(
+        result("r2", "v1"),
+        request("r2", "v1"),
+        recorded,
+        true,
+      ).accept,
+    ).toBe(false);
+  });
+});
+
+describe("hasPendingValidations", () => {
+  const requests = [request("r1", "v1"), request("r2", "v2")];
+
+  it("should wait until every assigned validator has answered", () => {
+    expect(hasPendingValidations(requests, [result("r1", "v1")], 500)).toBe(
+      true,
+    );
+    expect(
+      hasPendingValidations(
+        requests,
+        [result("r1", "v1"), result("r2", "v2")],
+        500,
+      ),
+    ).toBe(false);
+  });
+
+  it("should not count answers from other validators", () => {
+    expect(
+      hasPendingValidations(
+        requests,
+        [result("r1", "v1"), result("r2", "v1")],
+        500,
+      ),
+    ).toBe(true);
+  });
+
+  it("should stop waiting once requests time out", () => {
+    expect(hasPendingValidations(requests, [], 1000)).toBe(false);
+  });
+});
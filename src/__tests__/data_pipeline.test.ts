@@ -0,0 +1,189 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  castValue,
+  cleanRows,
+  dedupeRows,
+  filterRows,
+  joinRows,
+  mapRows,
+  runPipeline,
+  sortRows,
+  splitRows,
+  validateTransformations,
+} from "@/lib/data_pipeline";
+import type { DataTransformation } from "@/types/scraper_types";
+
+const products = [
+  { id: "1", title: "  <b>Lamp</b>  ", price: "$1,299.00", url: "a" },
+  { id: "2", title: "Chair", price: "45", url: "b" },
+  { id: "3", title: "Lamp", price: null, url: "a" },
+  { id: "4", title: "Desk", price: "120.5", url: "c" },
+];
+
+function step(
+  type: DataTransformation["type"],
+  config: Record<string, any>,
+): DataTransformation {
+  return { id: type, name: type, type, config };
+}
+
+describe("castValue", () => {
+  it("should convert scraped strings to typed values", () => {
+    expect(castValue("$1,299.00", "number")).toBe(1299);
+    expect(castValue("n/a", "number")).toBeNull();
+    expect(castValue("Yes", "boolean")).toBe(true);
+    expect(castValue("2024-02-01", "date")).toBe("2024-02-01T00:00:00.000Z");
+    expect(castValue("not a date", "date")).toBeNull();
+    expect(castValue('["a","b"]', "array")).toEqual(["a", "b"]);
+    expect(castValue(12, "text")).toBe("12");
+  });
+});
+
+describe("transformations", () => {
+  it("should filter with all or any conditions", () => {
+    const conditions = [
+      { field: "price", operator: "exists" as const },
+      { field: "price", operator: "lt" as const, value: 100 },
+    ];
+    expect(filterRows(products, { conditions }).map((r) => r.id)).toEqual([
+      "2",
+    ]);
+    expect(
+      filterRows(products, { conditions, match: "any" }).map((r) => r.id),
+    ).toEqual(["1", "2", "4"]);
+  });
+
+  it("should rename, drop and cast fields", () => {
+    const [row] = mapRows(products.slice(0, 1), {
+      rename: { title: "name" },
+      cast: { price: "number" },
+      drop: ["url"],
+    });
+    expect(row).toEqual({ id: "1", name: "  <b>Lamp</b>  ", price: 1299 });
+  });
+
+  it("should apply a regex clean and trim strings", () => {
+    const [row] = cleanRows(products.slice(0, 1), {
+      fields: ["title"],
+      pattern: "<[^>]+>",
+    });
+    expect(row.title).toBe("Lamp");
+    expect(row.price).toBe("$1,299.00");
+  });
+
+  it("should dedupe on selected fields keeping the first or last row", () => {
+    expect(dedupeRows(products, { fields: ["url"] }).map((r) => r.id)).toEqual([
+      "1",
+      "2",
+      "4",
+    ]);
+    expect(
+      dedupeRows(products, { fields: ["url"], keep: "last" }).map((r) => r.id),
+    ).toEqual(["2", "3", "4"]);
+  });
+
+  it("should sort numerically with missing values last", () => {
+    const rows = mapRows(products, { cast: { price: "number" } });
+    expect(
+      sortRows(rows, { field: "price", direction: "desc" }).map((r) => r.id),
+    ).toEqual(["1", "4", "2", "3"]);
+  });
+
+  it("should join rows and prefix clashing fields", () => {
+    const stock = [
+      { sku: "1", qty: 3, title: "Lamp (warehouse)" },
+      { sku: "2", qty: 0 },
+    ];
+    const inner = joinRows(products, stock, {
+      datasetId: "stock",
+      leftKey: "id",
+      rightKey: "sku",
+    });
+    expect(inner).toHaveLength(2);
+    expect(inner[0]).toMatchObject({
+      id: "1",
+      qty: 3,
+      right_title: "Lamp (warehouse)",
+    });
+    expect(inner[0]).not.toHaveProperty("sku");
+
+    const left = joinRows(products, stock, {
+      datasetId: "stock",
+      leftKey: "id",
+      rightKey: "sku",
+      type: "left",
+    });
+    expect(left).toHaveLength(4);
+  });
+
+  it("should split rows deterministically by ratio", () => {
+    const rows = Array.from({ length: 10 }, (_, i) => ({ i }));
+    const first = splitRows(rows, { ratios: { train: 0.8, test: 0.2 } });
+    const second = splitRows(rows, { ratios: { train: 0.8, test: 0.2 } });
+
+    expect(first.train).toHaveLength(8);
+    expect(first.test).toHaveLength(2);
+    expect(first).toEqual(second);
+    expect(
+      [...first.train, ...first.test].map((r) => r.i).sort((a, b) => a - b),
+    ).toEqual(rows.map((r) => r.i));
+  });
+});
+
+describe("validateTransformations", () => {
+  it("should reject a split that is not the last step", () => {
+    expect(() =>
+      validateTransformations([
+        step("split", { ratios: { train: 0.5, test: 0.5 } }),
+        step("dedupe", {}),
+      ]),
+    ).toThrow("split must be the last step");
+  });
+
+  it("should reject unsupported transformation types", () => {
+    expect(() => validateTransformations([step("enrich", {})])).toThrow(
+      "not supported",
+    );
+  });
+});
+
+describe("runPipeline", () => {
+  it("should run steps in order and record row counts", async () => {
+    const loadDataset = vi.fn(async () => [{ id: "2", stock: 5 }]);
+    const result = await runPipeline(
+      products,
+      [
+        step("dedupe", { fields: ["url"] }),
+        step("map", { cast: { price: "number" } }),
+        step("join", { datasetId: "stock", leftKey: "id", type: "left" }),
+      ],
+      { loadDataset },
+    );
+
+    expect(loadDataset).toHaveBeenCalledWith("stock");
+    expect(result.outputs).toHaveLength(1);
+    expect(result.outputs[0].rows.map((r) => r.price)).toEqual([
+      1299, 45, 120.5,
+    ]);
+    expect(result.outputs[0].rows[1].stock).toBe(5);
+    expect(result.steps.map((s) => [s.rowsIn, s.rowsOut])).toEqual([
+      [4, 3],
+      [3, 3],
+      [3, 3],
+    ]);
+    expect(result.joinedDatasetIds).toEqual(["stock"]);
+  });
+
+  it("should produce one output per split partition", async () => {
+    const result = await runPipeline(
+      products,
+      [step("split", { ratios: { train: 3, test: 1 } })],
+      { loadDataset: vi.fn() },
+    );
+
+    expect(result.outputs.map((o) => [o.split, o.rows.length])).toEqual([
+      ["train", 3],
+      ["test", 1],
+    ]);
+  });
+});
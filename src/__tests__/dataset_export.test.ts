@@ -0,0 +1,385 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as zlib from "zlib";
+import {
+  exportDatasetRows,
+  getSqliteTableName,
+  inferColumns,
+  inferFieldType,
+  readDatasetRows,
+} from "@/lib/dataset_export";
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) result.push(item);
+  return result;
+}
+
+async function* fromArray<T>(items: T[]): AsyncGenerator<T> {
+  yield* items;
+}
+
+const rows = [
+  { title: 'Say "hi", [ok]', price: 10, url: "https://x.com/a", tags: ["a"] },
+  { title: "Lamp\nshade", price: "12.5", url: null, date: "2024-02-01" },
+  { title: "Chair", price: null, url: "https://x.com/b.png" },
+];
+
+// ============= Minimal Parquet reader =============
+// Just enough of the format spec to decode what the writer emits: the
+// thrift compact footer, GZIP/uncompressed PLAIN data pages and 1-bit
+// definition levels.
+
+type ThriftStruct = Map<number, any>;
+
+class CompactReader {
+  constructor(
+    private readonly bytes: Buffer,
+    public offset = 0,
+  ) {}
+
+  private byte(): number {
+    return this.bytes[this.offset++];
+  }
+
+  varint(): number {
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      const byte = this.byte();
+      result += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return result;
+      multiplier *= 0x80;
+    }
+  }
+
+  zigzag(): number {
+    const n = this.varint();
+    return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+  }
+
+  private value(type: number): any {
+    switch (type) {
+      case 1:
+        return true;
+      case 2:
+        return false;
+      case 3:
+        return this.byte();
+      case 4:
+      case 5:
+      case 6:
+        return this.zigzag();
+      case 8: {
+        const length = this.varint();
+        const value = this.bytes.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return value;
+      }
+      case 9: {
+        const header = this.byte();
+        const size = header >> 4 === 15 ? this.varint() : header >> 4;
+        const elementType = header & 0x0f;
+        return Array.from({ length: size }, () =>
+          // Booleans in lists are one byte each
+          elementType === 1 || elementType === 2
+            ? this.byte() === 1
+            : this.value(elementType),
+        );
+      }
+      case 12:
+        return this.struct();
+      default:
+        throw new Error(`Unsupported thrift type ${type}`);
+    }
+  }
+
+  struct(): ThriftStruct {
+    const fields: ThriftStruct = new Map();
+    let lastId = 0;
+    for (;;) {
+      const header = this.byte();
+      if (header === 0) return fields;
+      const delta = header >> 4;
+      const id = delta === 0 ? this.zigzag() : lastId + delta;
+      fields.set(id, this.value(header & 0x0f));
+      lastId = id;
+    }
+  }
+}
+
+function readDefinitionLevels(page: Buffer, count: number) {
+  const length = page.readUInt32LE(0);
+  const reader = new CompactReader(page.subarray(4, 4 + length));
+  const levels: boolean[] = [];
+  while (levels.length < count) {
+    const header = reader.varint();
+    if (header & 1) {
+      const bytes = page.subarray(
+        4 + reader.offset,
+        4 + reader.offset + (header >> 1),
+      );
+      reader.offset += header >> 1;
+      for (let i = 0; i < bytes.length * 8; i++) {
+        levels.push(((bytes[i >> 3] >> (i & 7)) & 1) === 1);
+      }
+    } else {
+      const value = page[4 + reader.offset++] === 1;
+      levels.push(...Array<boolean>(header >> 1).fill(value));
+    }
+  }
+  return { levels: levels.slice(0, count), valuesOffset: 4 + length };
+}
+
+function readPlainValues(data: Buffer, type: number, count: number): any[] {
+  const values: any[] = [];
+  let offset = 0;
+  for (let i = 0; i < count; i++) {
+    switch (type) {
+      case 0:
+        values.push(((data[i >> 3] >> (i & 7)) & 1) === 1);
+        break;
+      case 2:
+        values.push(Number(data.readBigInt64LE(offset)));
+        offset += 8;
+        break;
+      case 5:
+        values.push(data.readDoubleLE(offset));
+        offset += 8;
+        break;
+      case 6: {
+        const length = data.readUInt32LE(offset);
+        values.push(data.subarray(offset + 4, offset + 4 + length));
+        offset += 4 + length;
+        break;
+      }
+      default:
+        throw new Error(`Unsupported physical type ${type}`);
+    }
+  }
+  return values;
+}
+
+function readParquet(bytes: Buffer) {
+  const footerLength = bytes.readUInt32LE(bytes.length - 8);
+  const metadata = new CompactReader(
+    bytes.subarray(bytes.length - 8 - footerLength, bytes.length - 8),
+  ).struct();
+  const schema = (metadata.get(2) as ThriftStruct[])
+    .slice(1)
+    .map((element) => ({
+      name: element.get(4).toString(),
+      type: element.get(1) as number,
+      convertedType: element.get(6) as number | undefined,
+    }));
+
+  const rowGroups = (metadata.get(4) as ThriftStruct[]).map((group) => {
+    const columns: Record<string, unknown[]> = {};
+    (group.get(1) as ThriftStruct[]).forEach((chunk, i) => {
+      const meta: ThriftStruct = chunk.get(3);
+      const reader = new CompactReader(bytes, meta.get(9));
+      const header = reader.struct();
+      const compressed = bytes.subarray(
+        reader.offset,
+        reader.offset + header.get(3),
+      );
+      const page = meta.get(4) === 2 ? zlib.gunzipSync(compressed) : compressed;
+      const numValues: number = header.get(5).get(1);
+      const { levels, valuesOffset } = readDefinitionLevels(page, numValues);
+      const values = readPlainValues(
+        page.subarray(valuesOffset),
+        meta.get(1),
+        levels.filter(Boolean).length,
+      );
+      columns[schema[i].name] = levels.map((defined) =>
+        defined ? values.shift() : null,
+      );
+    });
+    return { numRows: group.get(3) as number, columns };
+  });
+
+  return { schema, numRows: metadata.get(3) as number, rowGroups };
+}
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "dataset-export-"));
+  fs.writeFileSync(
+    path.join(tempDir, "data.json"),
+    JSON.stringify(rows, null, 2),
+  );
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const source = () => readDatasetRows(path.join(tempDir, "data.json"));
+
+describe("inferFieldType", () => {
+  it("should detect common value types", () => {
+    expect(inferFieldType("https://x.com/a.jpg")).toBe("image");
+    expect(inferFieldType("https://x.com")).toBe("url");
+    expect(inferFieldType("2024-01-01T00:00:00Z")).toBe("date");
+    expect(inferFieldType("42")).toBe("number");
+    expect(inferFieldType({})).toBe("object");
+  });
+});
+
+describe("readDatasetRows", () => {
+  it("should stream rows containing brackets, commas and escapes", async () => {
+    expect(await collect(source())).toEqual(rows);
+  });
+
+  it("should handle empty datasets", async () => {
+    fs.writeFileSync(path.join(tempDir, "data.json"), "[]");
+    expect(await collect(source())).toEqual([]);
+  });
+});
+
+describe("inferColumns", () => {
+  it("should widen types across rows and skip nulls", async () => {
+    const columns = await inferColumns(fromArray(rows));
+    expect(columns).toEqual([
+      { name: "title", type: "text" },
+      { name: "price", type: "number" },
+      { name: "url", type: "url" },
+      { name: "tags", type: "array" },
+      { name: "date", type: "date" },
+    ]);
+  });
+
+  it("should keep only the requested columns in order", async () => {
+    const columns = await inferColumns(fromArray(rows), ["url", "title"]);
+    expect(columns.map((c) => c.name)).toEqual(["url", "title"]);
+  });
+});
+
+describe("exportDatasetRows", () => {
+  it("should write quoted CSV with selected columns and a limit", async () => {
+    const output = path.join(tempDir, "out.csv");
+    await exportDatasetRows(source, output, {
+      format: "csv",
+      columns: ["title", "price"],
+      limit: 2,
+    });
+
+    expect(fs.readFileSync(output, "utf8")).toBe(
+      'title,price\n"Say ""hi"", [ok]",10\n"Lamp\nshade",12.5\n',
+    );
+  });
+
+  it("should write JSONL and a JSON array", async () => {
+    await exportDatasetRows(source, path.join(tempDir, "out.jsonl"), {
+      format: "jsonl",
+    });
+    await exportDatasetRows(source, path.join(tempDir, "out.json"), {
+      format: "json",
+    });
+
+    const lines = fs
+      .readFileSync(path.join(tempDir, "out.jsonl"), "utf8")
+      .trim()
+      .split("\n");
+    expect(lines.map((line) => JSON.parse(line))).toEqual(rows);
+    expect(
+      JSON.parse(fs.readFileSync(path.join(tempDir, "out.json"), "utf8")),
+    ).toEqual(rows);
+  });
+
+  it("should write a Parquet file with a footer", async () => {
+    const output = path.join(tempDir, "out.parquet");
+    await exportDatasetRows(source, output, { format: "parquet" });
+
+    const bytes = fs.readFileSync(output);
+    expect(bytes.subarray(0, 4).toString()).toBe("PAR1");
+    expect(bytes.subarray(-4).toString()).toBe("PAR1");
+    const footerLength = bytes.readUInt32LE(bytes.length - 8);
+    const footer = bytes.subarray(bytes.length - 8 - footerLength, -8);
+    for (const column of ["title", "price", "url", "tags", "date"]) {
+      expect(footer.includes(Buffer.from(column))).toBe(true);
+    }
+  });
+
+  it("should write typed Parquet columns that decode back to the rows", async () => {
+    fs.writeFileSync(
+      path.join(tempDir, "data.json"),
+      JSON.stringify([
+        {
+          name: "Lamp",
+          price: 12.5,
+          inStock: true,
+          listed: "2024-02-01T10:30:00Z",
+          tags: ["home", "light"],
+        },
+        { name: "Chair", price: null, inStock: false, listed: null, tags: [] },
+        {
+          name: "Desk",
+          price: 200,
+          inStock: true,
+          listed: "2024-03-05",
+          tags: null,
+        },
+      ]),
+    );
+    const output = path.join(tempDir, "out.parquet");
+    await exportDatasetRows(source, output, { format: "parquet" });
+
+    const parquet = readParquet(fs.readFileSync(output));
+
+    // Physical types: BOOLEAN 0, INT64 2, DOUBLE 5, BYTE_ARRAY 6
+    // Converted types: UTF8 0, TIMESTAMP_MILLIS 9, JSON 19
+    expect(parquet.schema).toEqual([
+      { name: "name", type: 6, convertedType: 0 },
+      { name: "price", type: 5, convertedType: undefined },
+      { name: "inStock", type: 0, convertedType: undefined },
+      { name: "listed", type: 2, convertedType: 9 },
+      { name: "tags", type: 6, convertedType: 19 },
+    ]);
+    expect(parquet.numRows).toBe(3);
+    expect(parquet.rowGroups).toHaveLength(1);
+
+    const { columns } = parquet.rowGroups[0];
+    expect(columns.name.map(String)).toEqual(["Lamp", "Chair", "Desk"]);
+    expect(columns.price).toEqual([12.5, null, 200]);
+    expect(columns.inStock).toEqual([true, false, true]);
+    expect(columns.listed).toEqual([
+      Date.parse("2024-02-01T10:30:00Z"),
+      null,
+      Date.parse("2024-03-05"),
+    ]);
+    expect(
+      columns.tags.map((value) => value && JSON.parse(String(value))),
+    ).toEqual([["home", "light"], [], null]);
+  });
+
+  it("should write an XLSX workbook with data, schema and info sheets", async () => {
+    const output = path.join(tempDir, "out.xlsx");
+    await exportDatasetRows(source, output, { format: "xlsx" });
+
+    const bytes = fs.readFileSync(output);
+    expect(bytes.readUInt32LE(0)).toBe(0x04034b50);
+    for (const entry of [
+      "xl/workbook.xml",
+      "xl/styles.xml",
+      "xl/worksheets/sheet1.xml",
+      "xl/worksheets/sheet3.xml",
+    ]) {
+      expect(bytes.includes(Buffer.from(entry))).toBe(true);
+    }
+  });
+});
+
+describe("getSqliteTableName", () => {
+  it("should make a safe table name", () => {
+    expect(getSqliteTableName("Shop Products - 1/2/2025")).toBe(
+      "shop_products_1_2_2025",
+    );
+    expect(getSqliteTableName("2024 data")).toBe("data_2024_data");
+    expect(getSqliteTableName("___")).toBe("data");
+    expect(getSqliteTableName(undefined)).toBe("data");
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, expect, it } from "vitest";
+import {
+  addMember,
+  banMember,
+  closePoll,
+  createGroup,
+  createInvite,
+  createPoll,
+  findMember,
+  isBanned,
+  processJoinRequest,
+  removeMember,
+  reviewJoinRequest,
+  setMemberRole,
+  toPublicPoll,
+  transferOwnership,
+  unbanMember,
+  votePoll,
+} from "@/lib/dchat_groups";
+import type { GroupSettings } from "@/types/decentralized_chat_types";
+
+const NOW = new Date("2025-05-01T12:00:00Z");
+
+function makeGroup(settings: Partial<GroupSettings> = {}) {
+  const group = createGroup({
+    id: "group-1",
+    conversationId: "conv-1",
+    name: "Builders",
+    owner: { walletAddress: "0xOWNER" },
+    settings,
+    now: NOW,
+  });
+  addMember(group, { walletAddress: "0xadmin" }, { role: "admin", now: NOW });
+  addMember(group, { walletAddress: "0xmember" }, { now: NOW });
+  return group;
+}
+
+describe("group roles", () => {
+  it("should create the owner and keep derived fields in step", () => {
+    const group = makeGroup();
+    expect(group.ownerWallet).toBe("0xowner");
+    expect(group.admins).toEqual(["0xowner", "0xadmin"]);
+    expect(group.memberCount).toBe(3);
+    expect(group.inviteCode).toBeTruthy();
+  });
+
+  it("should only let members manage lower roles", () => {
+    const group = makeGroup();
+    expect(() => setMemberRole(group, "0xmember", "0xadmin", "member")).toThrow(
+      "cannot manage",
+    );
+    expect(() => setMemberRole(group, "0xadmin", "0xmember", "admin")).toThrow(
+      "cannot manage",
+    );
+
+    setMemberRole(group, "0xadmin", "0xmember", "moderator");
+    const member = findMember(group, "0xmember")!;
+    expect(member.role).toBe("moderator");
+    expect(member.permissions.canDeleteMessages).toBe(true);
+    expect(member.permissions.canChangeSettings).toBe(false);
+  });
+
+  it("should require ownership transfer before the owner leaves", () => {
+    const group = makeGroup();
+    expect(() => removeMember(group, "0xowner", "0xowner")).toThrow(
+      "Transfer ownership",
+    );
+    transferOwnership(group, "0xowner", "0xadmin");
+    expect(group.ownerWallet).toBe("0xadmin");
+    removeMember(group, "0xowner", "0xowner");
+    expect(findMember(group, "0xowner")).toBeUndefined();
+    expect(group.admins).toEqual(["0xadmin"]);
+  });
+});
+
+describe("joining groups", () => {
+  it("should accept invites for the invited wallet only", () => {
+    const group = makeGroup({ isPublic: false, joinMethod: "invite" });
+    const invite = createInvite(group, "0xadmin", "0xNEW", { now: NOW });
+
+    expect(() =>
+      processJoinRequest(
+        group,
+        { walletAddress: "0xother" },
+        { inviteId: invite.id },
+        NOW,
+      ),
+    ).toThrow("invite-only");
+
+    expect(
+      processJoinRequest(
+        group,
+        { walletAddress: "0xnew" },
+        { inviteId: invite.id },
+        NOW,
+      ),
+    ).toBe("joined");
+    expect(findMember(group, "0xnew")?.invitedBy).toBe("0xadmin");
+    expect(invite.status).toBe("accepted");
+  });
+
+  it("should expire old invites", () => {
+    const group = makeGroup({ joinMethod: "request" });
+    const invite = createInvite(group, "0xadmin", "0xnew", { now: NOW });
+    const later = new Date(NOW.getTime() + 8 * 24 * 60 * 60 * 1000);
+
+    expect(
+      processJoinRequest(
+        group,
+        { walletAddress: "0xnew" },
+        { inviteId: invite.id },
+        later,
+      ),
+    ).toBe("pending");
+    expect(invite.status).toBe("expired");
+  });
+
+  it("should admit by code and queue requests for approval", () => {
+    const group = makeGroup({ joinMethod: "code" });
+    expect(() =>
+      processJoinRequest(group, { walletAddress: "0xa" }, { inviteCode: "x" }),
+    ).toThrow("Invalid invite code");
+    expect(
+      processJoinRequest(
+        group,
+        { walletAddress: "0xa" },
+        { inviteCode: group.settings.inviteCode },
+      ),
+    ).toBe("joined");
+
+    const moderated = makeGroup({ joinMethod: "request" });
+    expect(
+      processJoinRequest(
+        moderated,
+        { walletAddress: "0xb" },
+        { message: "hi" },
+      ),
+    ).toBe("pending");
+    const [request] = moderated.pendingRequests;
+    expect(() =>
+      reviewJoinRequest(moderated, "0xmember", request.id, true),
+    ).toThrow("Missing permission");
+    reviewJoinRequest(moderated, "0xadmin", request.id, true);
+    expect(findMember(moderated, "0xb")).toBeDefined();
+    expect(request.status).toBe("approved");
+  });
+
+  it("should keep banned wallets out until the ban expires or is lifted", () => {
+    const group = makeGroup();
+    banMember(group, "0xadmin", "0xmember", {
+      durationMinutes: 60,
+      now: NOW,
+    });
+    expect(findMember(group, "0xmember")).toBeUndefined();
+    expect(isBanned(group, "0xmember", NOW)).toBe(true);
+    expect(() =>
+      processJoinRequest(group, { walletAddress: "0xmember" }, {}, NOW),
+    ).toThrow("banned");
+    expect(
+      isBanned(group, "0xmember", new Date(NOW.getTime() + 61 * 60_000)),
+    ).toBe(false);
+
+    expect(() => banMember(group, "0xadmin", "0xowner")).toThrow(
+      "cannot manage",
+    );
+    unbanMember(group, "0xadmin", "0xmember");
+    expect(processJoinRequest(group, { walletAddress: "0xmember" }, {})).toBe(
+      "joined",
+    );
+  });
+});
+
+describe("polls", () => {
+  it("should count one vote per member and move changed votes", () => {
+    const group = makeGroup();
+    const poll = createPoll(
+      group,
+      "0xmember",
+      { groupId: group.id, question: "Lunch?", options: ["Pizza", "Sushi"] },
+      NOW,
+    );
+    const [pizza, sushi] = poll.options;
+
+    votePoll(poll, group, "0xowner", [pizza.id]);
+    votePoll(poll, group, "0xadmin", [pizza.id]);
+    votePoll(poll, group, "0xadmin", [sushi.id]);
+    expect(poll.options.map((option) => option.votes)).toEqual([1, 1]);
+    expect(poll.totalVotes).toBe(2);
+
+    expect(() =>
+      votePoll(poll, group, "0xowner", [pizza.id, sushi.id]),
+    ).toThrow("exactly one");
+    expect(() => votePoll(poll, group, "0xstranger", [pizza.id])).toThrow(
+      "not a member",
+    );
+  });
+
+  it("should hide voters and results as configured", () => {
+    const group = makeGroup();
+    const poll = createPoll(group, "0xowner", {
+      groupId: group.id,
+      question: "Ship it?",
+      options: ["Yes", "No"],
+      anonymous: true,
+      showResults: "after-end",
+    });
+    votePoll(poll, group, "0xadmin", [poll.options[0].id]);
+    votePoll(poll, group, "0xmember", [poll.options[0].id]);
+
+    const during = toPublicPoll(poll, "0xadmin");
+    expect(during.options[0].votes).toBe(0);
+    expect(during.options[0].voters).toEqual(["0xadmin"]);
+
+    expect(() => closePoll(poll, group, "0xmember")).toThrow(
+      "creator or a moderator",
+    );
+    closePoll(poll, group, "0xowner");
+    const after = toPublicPoll(poll, "0xowner");
+    expect(after.options[0].votes).toBe(2);
+    expect(after.options[0].voters).toEqual([]);
+    expect(() =>
+      votePoll(poll, group, "0xowner", [poll.options[1].id]),
+    ).toThrow("ended");
+  });
+});
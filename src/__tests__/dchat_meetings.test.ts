@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  admitParticipant,
+  cancelMeeting,
+  createMeeting,
+  endMeeting,
+  findParticipant,
+  joinMeeting,
+  hashMeetingPassword,
+  leaveMeeting,
+  meetingPasswordProof,
+  removeParticipant,
+  startMeeting,
+  updateParticipantMedia,
+} from "@/lib/dchat_meetings";
+
+const HOST = { walletAddress: "0xHOST", displayName: "Host" };
+
+describe("meeting lifecycle", () => {
+  it("should go live once a second participant joins and end when all leave", () => {
+    const meeting = createMeeting({ title: "Sync", type: "instant" }, HOST);
+    expect(meeting.status).toBe("waiting");
+
+    expect(joinMeeting(meeting, HOST)).toBe("joined");
+    expect(meeting.status).toBe("waiting");
+    expect(joinMeeting(meeting, { walletAddress: "0xguest" })).toBe("joined");
+    expect(meeting.status).toBe("live");
+    expect(meeting.actualStart).toBeDefined();
+
+    leaveMeeting(meeting, "0xguest");
+    expect(meeting.status).toBe("live");
+    leaveMeeting(meeting, "0xhost");
+    expect(meeting.status).toBe("ended");
+    expect(() => joinMeeting(meeting, HOST)).toThrow("ended");
+  });
+
+  it("should only let the host start a scheduled meeting", () => {
+    const meeting = createMeeting(
+      {
+        title: "Planning",
+        type: "scheduled",
+        scheduledStart: "2025-05-01T10:00:00Z",
+        scheduledEnd: "2025-05-01T11:00:00Z",
+        invitees: ["0xGuest"],
+      },
+      HOST,
+    );
+    expect(meeting.duration).toBe(60);
+    expect(findParticipant(meeting, "0xguest")?.status).toBe("invited");
+
+    expect(() => joinMeeting(meeting, { walletAddress: "0xguest" })).toThrow(
+      "hasn't started",
+    );
+    expect(() => startMeeting(meeting, "0xguest")).toThrow("host");
+    startMeeting(meeting, "0xhost");
+    expect(joinMeeting(meeting, { walletAddress: "0xguest" })).toBe("joined");
+  });
+
+  it("should hold participants in the waiting room until admitted", () => {
+    const meeting = createMeeting(
+      {
+        title: "Interview",
+        type: "instant",
+        requiresApproval: true,
+        password: "secret",
+      },
+      HOST,
+    );
+    joinMeeting(meeting, HOST);
+
+    expect(() =>
+      joinMeeting(meeting, { walletAddress: "0xc" }, { password: "nope" }),
+    ).toThrow("password");
+    // A proof made for another wallet doesn't carry over
+    const proof = meetingPasswordProof(hashMeetingPassword("secret"), "0xc");
+    expect(() =>
+      joinMeeting(meeting, { walletAddress: "0xe" }, { passwordProof: proof }),
+    ).toThrow("password");
+    expect(
+      joinMeeting(meeting, { walletAddress: "0xc" }, { passwordProof: proof }),
+    ).toBe("waiting");
+    expect(meeting.waitingRoom).toEqual(["0xc"]);
+
+    admitParticipant(meeting, "0xhost", "0xc");
+    expect(meeting.waitingRoom).toEqual([]);
+    expect(findParticipant(meeting, "0xc")?.status).toBe("connecting");
+    expect(meeting.status).toBe("live");
+  });
+
+  it("should apply moderation and media rules", () => {
+    const meeting = createMeeting(
+      {
+        title: "Webinar",
+        type: "webinar",
+        settings: { muteOnEntry: true, allowScreenShare: false },
+      },
+      HOST,
+    );
+    joinMeeting(meeting, HOST);
+    joinMeeting(meeting, { walletAddress: "0xd" }, { audioEnabled: true });
+    expect(findParticipant(meeting, "0xd")?.audioEnabled).toBe(false);
+    expect(findParticipant(meeting, "0xhost")?.audioEnabled).toBe(true);
+
+    expect(() =>
+      updateParticipantMedia(meeting, "0xd", { screenSharing: true }),
+    ).toThrow("Screen sharing");
+    updateParticipantMedia(meeting, "0xd", { handRaised: true });
+    expect(findParticipant(meeting, "0xd")?.handRaised).toBe(true);
+
+    removeParticipant(meeting, "0xhost", "0xd");
+    expect(() => joinMeeting(meeting, { walletAddress: "0xd" })).toThrow(
+      "removed",
+    );
+    expect(() => cancelMeeting(meeting, "0xhost")).toThrow("haven't started");
+
+    endMeeting(meeting, "0xhost");
+    expect(meeting.status).toBe("ended");
+    expect(findParticipant(meeting, "0xhost")?.status).toBe("left");
+  });
+});
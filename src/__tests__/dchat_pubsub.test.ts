@@ -0,0 +1,88 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import nacl from "tweetnacl";
+import {
+  authenticatePubSubMessage,
+  signPubSubMessage,
+} from "@/lib/dchat_pubsub";
+import type { ChatPubSubMessage } from "@/types/decentralized_chat_types";
+
+function makeSigner() {
+  const keys = nacl.sign.keyPair();
+  return {
+    publicKey: Buffer.from(keys.publicKey).toString("base64"),
+    secretKey: Buffer.from(keys.secretKey).toString("base64"),
+  };
+}
+
+function signedMessage(
+  signer: { publicKey: string; secretKey: string },
+  senderId: string,
+  payload: unknown,
+): ChatPubSubMessage {
+  const fields = {
+    type: "group:removed" as const,
+    conversationId: "conv-1",
+    payload,
+    timestamp: "2025-05-01T12:00:00.000Z",
+  };
+  return {
+    ...fields,
+    senderId,
+    signature: signPubSubMessage(fields, signer.secretKey),
+    signingKey: signer.publicKey,
+  };
+}
+
+describe("authenticatePubSubMessage", () => {
+  const owner = makeSigner();
+  const attacker = makeSigner();
+
+  it("should accept a message signed with the sender's known key", () => {
+    const message = signedMessage(owner, "0xowner", { groupId: "g1" });
+
+    expect(authenticatePubSubMessage(message, owner.publicKey)).toEqual({
+      signingKey: owner.publicKey,
+      introduced: false,
+    });
+  });
+
+  it("should reject a forged senderId signed with another key", () => {
+    const forged = signedMessage(attacker, "0xowner", { groupId: "g1" });
+
+    expect(authenticatePubSubMessage(forged, owner.publicKey)).toBeNull();
+    // Claiming the owner's key doesn't help without the owner's secret
+    expect(
+      authenticatePubSubMessage(
+        { ...forged, signingKey: owner.publicKey },
+        owner.publicKey,
+      ),
+    ).toBeNull();
+  });
+
+  it("should reject a message whose payload was changed after signing", () => {
+    const message = signedMessage(owner, "0xowner", { groupId: "g1" });
+
+    expect(
+      authenticatePubSubMessage(
+        { ...message, payload: { groupId: "g2" } },
+        owner.publicKey,
+      ),
+    ).toBeNull();
+  });
+
+  it("should let an unknown sender introduce its key", () => {
+    const message = signedMessage(attacker, "0xnewcomer", {});
+
+    expect(authenticatePubSubMessage(message, undefined)).toEqual({
+      signingKey: attacker.publicKey,
+      introduced: true,
+    });
+    expect(
+      authenticatePubSubMessage(
+        { ...message, signingKey: undefined },
+        undefined,
+      ),
+    ).toBeNull();
+  });
+});
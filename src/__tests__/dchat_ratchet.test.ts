@@ -0,0 +1,247 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import nacl from "tweetnacl";
+import {
+  acceptSession,
+  createPreKeys,
+  createSenderKey,
+  exportSenderKey,
+  generateKeyPair,
+  initiateSession,
+  needsSenderKeyRotation,
+  ratchetDecrypt,
+  ratchetEncrypt,
+  refreshPreKeys,
+  senderKeyDecrypt,
+  senderKeyEncrypt,
+  toKeyBundle,
+  verifyKeyBundle,
+} from "@/lib/dchat_ratchet";
+
+const NOW = new Date("2025-05-01T12:00:00Z");
+
+function makeParty(walletAddress: string) {
+  const identity = generateKeyPair();
+  const signing = nacl.sign.keyPair();
+  const signingSecret = Buffer.from(signing.secretKey).toString("base64");
+  const preKeys = createPreKeys(signingSecret, NOW);
+  const bundle = toKeyBundle(
+    preKeys,
+    {
+      walletAddress,
+      publicKey: identity.publicKey,
+      signingKey: Buffer.from(signing.publicKey).toString("base64"),
+    },
+    NOW,
+  );
+  return { walletAddress, identity, signingSecret, preKeys, bundle };
+}
+
+function connect() {
+  const alice = makeParty("0xalice");
+  const bob = makeParty("0xbob");
+  const aliceSession = initiateSession(alice.identity, bob.bundle, NOW);
+  const first = ratchetEncrypt(aliceSession, "hello bob");
+  const bobSession = acceptSession(
+    bob.identity,
+    bob.preKeys,
+    { walletAddress: "0xalice", publicKey: alice.identity.publicKey },
+    first.header.preKey!,
+    NOW,
+  );
+  expect(ratchetDecrypt(bobSession, first)).toBe("hello bob");
+  return { alice, bob, aliceSession, bobSession };
+}
+
+describe("pre-key bundles", () => {
+  it("should sign the pre-key and reject tampered bundles", () => {
+    const { bundle } = makeParty("0xalice");
+    expect(verifyKeyBundle(bundle, NOW)).toBe(true);
+    expect(
+      verifyKeyBundle(
+        { ...bundle, signedPreKey: generateKeyPair().publicKey },
+        NOW,
+      ),
+    ).toBe(false);
+    expect(verifyKeyBundle(bundle, new Date("2026-01-01T00:00:00Z"))).toBe(
+      false,
+    );
+  });
+
+  it("should rotate the signed pre-key weekly and top up one-time keys", () => {
+    const party = makeParty("0xalice");
+    const original = party.preKeys.signedPreKey.publicKey;
+    party.preKeys.oneTimePreKeys.splice(0, 17);
+
+    const later = new Date(NOW.getTime() + 8 * 24 * 60 * 60 * 1000);
+    expect(refreshPreKeys(party.preKeys, party.signingSecret, later)).toBe(
+      true,
+    );
+    expect(party.preKeys.signedPreKey.publicKey).not.toBe(original);
+    expect(party.preKeys.previousSignedPreKey?.publicKey).toBe(original);
+    expect(party.preKeys.oneTimePreKeys).toHaveLength(20);
+    expect(refreshPreKeys(party.preKeys, party.signingSecret, later)).toBe(
+      false,
+    );
+  });
+});
+
+describe("double ratchet sessions", () => {
+  it("should agree on a session and consume the one-time pre-key", () => {
+    const { alice, bob, aliceSession, bobSession } = connect();
+    expect(bobSession.sessionId).toBe(aliceSession.sessionId);
+    expect(bob.preKeys.oneTimePreKeys).toHaveLength(19);
+
+    // The same pre-key message can't open a second session
+    expect(() =>
+      acceptSession(
+        bob.identity,
+        bob.preKeys,
+        { walletAddress: "0xalice", publicKey: alice.identity.publicKey },
+        ratchetEncrypt(aliceSession, "again").header.preKey!,
+      ),
+    ).toThrow("already used");
+  });
+
+  it("should refuse a session whose identity key isn't the sender's", () => {
+    const alice = makeParty("0xalice");
+    const bob = makeParty("0xbob");
+    const mallory = makeParty("0xmallory");
+
+    // Mallory starts a session against Bob's bundle and claims to be Alice
+    const forged = ratchetEncrypt(
+      initiateSession(mallory.identity, bob.bundle, NOW),
+      "hello bob",
+    );
+    expect(() =>
+      acceptSession(
+        bob.identity,
+        bob.preKeys,
+        { walletAddress: "0xalice", publicKey: alice.identity.publicKey },
+        forged.header.preKey!,
+        NOW,
+      ),
+    ).toThrow("identity key doesn't match");
+    expect(() =>
+      acceptSession(
+        bob.identity,
+        bob.preKeys,
+        { walletAddress: "0xalice", publicKey: "" },
+        forged.header.preKey!,
+        NOW,
+      ),
+    ).toThrow("identity key doesn't match");
+    expect(bob.preKeys.oneTimePreKeys).toHaveLength(20);
+  });
+
+  it("should stop sending the pre-key once the peer replies", () => {
+    const { aliceSession, bobSession } = connect();
+    expect(ratchetEncrypt(aliceSession, "one").header.preKey).toBeDefined();
+
+    const reply = ratchetEncrypt(bobSession, "hi alice");
+    expect(reply.header.preKey).toBeUndefined();
+    expect(ratchetDecrypt(aliceSession, reply)).toBe("hi alice");
+    expect(aliceSession.pendingPreKey).toBeUndefined();
+    expect(ratchetEncrypt(aliceSession, "two").header.preKey).toBeUndefined();
+  });
+
+  it("should decrypt out of order and never reuse a message key", () => {
+    const { aliceSession, bobSession } = connect();
+    const reply = ratchetEncrypt(bobSession, "reply");
+    ratchetDecrypt(aliceSession, reply);
+
+    const messages = ["a", "b", "c"].map((text) =>
+      ratchetEncrypt(aliceSession, text),
+    );
+    expect(ratchetDecrypt(bobSession, messages[2])).toBe("c");
+    expect(ratchetDecrypt(bobSession, messages[0])).toBe("a");
+    expect(ratchetDecrypt(bobSession, messages[1])).toBe("b");
+    expect(Object.keys(bobSession.skippedKeys)).toHaveLength(0);
+    expect(() => ratchetDecrypt(bobSession, messages[1])).toThrow();
+  });
+
+  it("should move to fresh keys on every turn", () => {
+    const { aliceSession, bobSession } = connect();
+    const keys = new Set<string>();
+    for (let turn = 0; turn < 3; turn++) {
+      const fromBob = ratchetEncrypt(bobSession, `bob ${turn}`);
+      expect(ratchetDecrypt(aliceSession, fromBob)).toBe(`bob ${turn}`);
+      const fromAlice = ratchetEncrypt(aliceSession, `alice ${turn}`);
+      expect(ratchetDecrypt(bobSession, fromAlice)).toBe(`alice ${turn}`);
+      keys.add(fromBob.header.dh).add(fromAlice.header.dh);
+    }
+    expect(keys.size).toBe(6);
+  });
+
+  it("should leave the session untouched when a message fails to authenticate", () => {
+    const { aliceSession, bobSession } = connect();
+    const message = ratchetEncrypt(aliceSession, "secret");
+    const before = structuredClone(bobSession);
+
+    const tampered = {
+      ...message,
+      ciphertext: Buffer.from("not the real ciphertext").toString("base64"),
+    };
+    expect(() => ratchetDecrypt(bobSession, tampered)).toThrow(
+      "Failed to decrypt",
+    );
+    expect(bobSession).toEqual(before);
+    expect(ratchetDecrypt(bobSession, message)).toBe("secret");
+  });
+});
+
+describe("sender keys", () => {
+  it("should let members read from the point they received the key", () => {
+    const own = createSenderKey(["0xbob", "0xcarol"], NOW);
+    const early = senderKeyEncrypt(own, "before carol", "conv-1|0xalice");
+
+    const carolCopy = exportSenderKey(own);
+    const messages = ["one", "two", "three"].map((text) =>
+      senderKeyEncrypt(own, text, "conv-1|0xalice"),
+    );
+
+    const read = (index: number) =>
+      senderKeyDecrypt(
+        carolCopy,
+        messages[index].header,
+        messages[index].ciphertext,
+        messages[index].nonce,
+        "conv-1|0xalice",
+      );
+    expect(read(2)).toBe("three");
+    expect(read(0)).toBe("one");
+    expect(read(1)).toBe("two");
+    expect(() =>
+      senderKeyDecrypt(
+        carolCopy,
+        early.header,
+        early.ciphertext,
+        early.nonce,
+        "conv-1|0xalice",
+      ),
+    ).toThrow("already used");
+  });
+
+  it("should bind messages to their conversation and sender", () => {
+    const own = createSenderKey(["0xbob"], NOW);
+    const copy = exportSenderKey(own);
+    const message = senderKeyEncrypt(own, "hi", "conv-1|0xalice");
+    expect(() =>
+      senderKeyDecrypt(
+        copy,
+        message.header,
+        message.ciphertext,
+        message.nonce,
+        "conv-2|0xalice",
+      ),
+    ).toThrow("Failed to decrypt");
+  });
+
+  it("should rotate only when a member leaves", () => {
+    const own = createSenderKey(["0xbob", "0xcarol"], NOW);
+    expect(needsSenderKeyRotation(own, ["0xbob", "0xcarol", "0xdave"])).toBe(
+      false,
+    );
+    expect(needsSenderKeyRotation(own, ["0xbob"])).toBe(true);
+  });
+});
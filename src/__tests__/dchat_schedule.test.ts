@@ -0,0 +1,256 @@
+import { describe, expect, it } from "vitest";
+import {
+  createAppointment,
+  expandOccurrences,
+  getDueReminders,
+  markReminderSent,
+  respondToAppointment,
+  updateAppointment,
+} from "@/lib/dchat_schedule";
+import type {
+  CreateAppointmentRequest,
+  RecurrenceRule,
+} from "@/types/decentralized_chat_types";
+
+function series(
+  startTime: string,
+  endTime: string,
+  timezone: string,
+  recurrence?: RecurrenceRule,
+) {
+  return { startTime, endTime, timezone, recurrence };
+}
+
+function starts(occurrences: Array<{ start: Date }>): string[] {
+  return occurrences.map((occurrence) => occurrence.start.toISOString());
+}
+
+const baseRequest: CreateAppointmentRequest = {
+  title: "Standup",
+  type: "meeting",
+  startTime: "2025-03-03T15:00:00.000Z",
+  endTime: "2025-03-03T15:30:00.000Z",
+  timezone: "UTC",
+  attendees: ["0xAAA", "0xbbb"],
+  locationType: "virtual",
+  reminders: [{ type: "notification", minutesBefore: 10 }],
+};
+
+describe("expandOccurrences", () => {
+  it("should return a single occurrence for one-off appointments", () => {
+    const appointment = series(
+      "2025-01-10T09:00:00.000Z",
+      "2025-01-10T10:00:00.000Z",
+      "UTC",
+    );
+    expect(
+      starts(
+        expandOccurrences(
+          appointment,
+          new Date("2025-01-10T09:30:00Z"),
+          new Date("2025-01-11T00:00:00Z"),
+        ),
+      ),
+    ).toEqual(["2025-01-10T09:00:00.000Z"]);
+    expect(
+      expandOccurrences(
+        appointment,
+        new Date("2025-01-11T00:00:00Z"),
+        new Date("2025-01-12T00:00:00Z"),
+      ),
+    ).toEqual([]);
+  });
+
+  it("should keep local time across a DST change", () => {
+    // 10:00 in New York is 15:00Z before March 9th 2025 and 14:00Z after
+    const occurrences = expandOccurrences(
+      series(
+        "2025-03-03T15:00:00.000Z",
+        "2025-03-03T15:30:00.000Z",
+        "America/New_York",
+        { frequency: "weekly", interval: 1 },
+      ),
+      new Date("2025-03-01T00:00:00Z"),
+      new Date("2025-03-20T00:00:00Z"),
+    );
+    expect(starts(occurrences)).toEqual([
+      "2025-03-03T15:00:00.000Z",
+      "2025-03-10T14:00:00.000Z",
+      "2025-03-17T14:00:00.000Z",
+    ]);
+    expect(occurrences[1].end.toISOString()).toBe("2025-03-10T14:30:00.000Z");
+  });
+
+  it("should expand weekly rules on the given weekdays with an interval", () => {
+    // Monday 2025-03-03; every other week on Monday and Thursday
+    const occurrences = expandOccurrences(
+      series("2025-03-03T09:00:00.000Z", "2025-03-03T10:00:00.000Z", "UTC", {
+        frequency: "weekly",
+        interval: 2,
+        daysOfWeek: [4, 1],
+      }),
+      new Date("2025-03-01T00:00:00Z"),
+      new Date("2025-04-01T00:00:00Z"),
+    );
+    expect(starts(occurrences)).toEqual([
+      "2025-03-03T09:00:00.000Z",
+      "2025-03-06T09:00:00.000Z",
+      "2025-03-17T09:00:00.000Z",
+      "2025-03-20T09:00:00.000Z",
+      "2025-03-31T09:00:00.000Z",
+    ]);
+  });
+
+  it("should skip months without the day and stop after the count", () => {
+    const occurrences = expandOccurrences(
+      series("2025-01-31T12:00:00.000Z", "2025-01-31T13:00:00.000Z", "UTC", {
+        frequency: "monthly",
+        interval: 1,
+        occurrences: 3,
+      }),
+      new Date("2025-01-01T00:00:00Z"),
+      new Date("2026-01-01T00:00:00Z"),
+    );
+    expect(starts(occurrences)).toEqual([
+      "2025-01-31T12:00:00.000Z",
+      "2025-03-31T12:00:00.000Z",
+      "2025-05-31T12:00:00.000Z",
+    ]);
+  });
+
+  it("should honour endDate, exceptions and yearly rules", () => {
+    const daily = expandOccurrences(
+      series("2025-06-01T08:00:00.000Z", "2025-06-01T08:15:00.000Z", "UTC", {
+        frequency: "daily",
+        interval: 1,
+        endDate: "2025-06-04T23:59:59.000Z",
+        exceptions: ["2025-06-02", "2025-06-03T08:00:00.000Z"],
+      }),
+      new Date("2025-05-01T00:00:00Z"),
+      new Date("2025-07-01T00:00:00Z"),
+    );
+    expect(starts(daily)).toEqual([
+      "2025-06-01T08:00:00.000Z",
+      "2025-06-04T08:00:00.000Z",
+    ]);
+
+    const yearly = expandOccurrences(
+      series("2024-02-29T12:00:00.000Z", "2024-02-29T13:00:00.000Z", "UTC", {
+        frequency: "yearly",
+        interval: 1,
+      }),
+      new Date("2024-01-01T00:00:00Z"),
+      new Date("2029-01-01T00:00:00Z"),
+    );
+    expect(starts(yearly)).toEqual([
+      "2024-02-29T12:00:00.000Z",
+      "2028-02-29T12:00:00.000Z",
+    ]);
+  });
+});
+
+describe("getDueReminders", () => {
+  it("should fire once per occurrence of a recurring appointment", () => {
+    const appointment = createAppointment(
+      {
+        ...baseRequest,
+        recurrence: { frequency: "daily", interval: 1 },
+      },
+      "0xorganizer",
+      new Date("2025-03-01T00:00:00Z"),
+    );
+
+    expect(
+      getDueReminders(appointment, new Date("2025-03-03T14:45:00Z")),
+    ).toEqual([]);
+
+    const firstCheck = new Date("2025-03-03T14:52:00Z");
+    const due = getDueReminders(appointment, firstCheck);
+    expect(due).toHaveLength(1);
+    expect(due[0].occurrenceStart.toISOString()).toBe(
+      "2025-03-03T15:00:00.000Z",
+    );
+
+    markReminderSent(due[0].reminder, firstCheck);
+    expect(
+      getDueReminders(appointment, new Date("2025-03-03T14:55:00Z")),
+    ).toEqual([]);
+
+    const nextDay = getDueReminders(
+      appointment,
+      new Date("2025-03-04T14:51:00Z"),
+    );
+    expect(nextDay[0].occurrenceStart.toISOString()).toBe(
+      "2025-03-04T15:00:00.000Z",
+    );
+  });
+
+  it("should not fire for cancelled appointments", () => {
+    const appointment = createAppointment(baseRequest, "0xorganizer");
+    appointment.status = "cancelled";
+    expect(
+      getDueReminders(appointment, new Date("2025-03-03T14:55:00Z")),
+    ).toEqual([]);
+  });
+});
+
+describe("appointments", () => {
+  it("should validate requests", () => {
+    expect(() =>
+      createAppointment(
+        { ...baseRequest, endTime: baseRequest.startTime },
+        "0xorganizer",
+      ),
+    ).toThrow("must end after");
+    expect(() =>
+      createAppointment({ ...baseRequest, timezone: "Mars/Olympus" }, "0xo"),
+    ).toThrow("Unknown timezone");
+  });
+
+  it("should derive the status from attendee responses", () => {
+    const appointment = createAppointment(baseRequest, "0xorganizer");
+    expect(appointment.attendees.map((a) => a.walletAddress)).toEqual([
+      "0xaaa",
+      "0xbbb",
+    ]);
+    expect(appointment.status).toBe("pending");
+
+    respondToAppointment(appointment, "0xaaa", "accepted");
+    expect(appointment.status).toBe("pending");
+    respondToAppointment(appointment, "0xBBB", "tentative");
+    expect(appointment.status).toBe("tentative");
+    respondToAppointment(appointment, "0xbbb", "declined");
+    expect(appointment.status).toBe("confirmed");
+    expect(() =>
+      respondToAppointment(appointment, "0xccc", "accepted"),
+    ).toThrow("not invited");
+  });
+
+  it("should ask attendees again when the organizer reschedules", () => {
+    const appointment = createAppointment(baseRequest, "0xorganizer");
+    respondToAppointment(appointment, "0xaaa", "accepted");
+    respondToAppointment(appointment, "0xbbb", "accepted");
+    markReminderSent(appointment.reminders[0]);
+    expect(appointment.status).toBe("confirmed");
+
+    expect(() =>
+      updateAppointment(appointment, "0xaaa", { title: "Mine now" }),
+    ).toThrow("Only the organizer");
+
+    updateAppointment(appointment, "0xorganizer", { title: "Daily standup" });
+    expect(appointment.status).toBe("confirmed");
+
+    updateAppointment(appointment, "0xorganizer", {
+      startTime: "2025-03-03T16:00:00.000Z",
+      endTime: "2025-03-03T16:30:00.000Z",
+    });
+    expect(appointment.title).toBe("Daily standup");
+    expect(appointment.status).toBe("pending");
+    expect(appointment.reminders[0].sent).toBe(false);
+    expect(() =>
+      updateAppointment(appointment, "0xorganizer", {
+        endTime: "2025-03-03T15:00:00.000Z",
+      }),
+    ).toThrow("must end after");
+  });
+});
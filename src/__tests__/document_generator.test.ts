@@ -0,0 +1,242 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  columnName,
+  generateDocumentContent,
+  getGenerationModelId,
+  getRevisableSections,
+  reviseDocumentSection,
+  type StructuredGenerator,
+} from "@/lib/document_generator";
+import type {
+  DocumentContent,
+  GenerationProgress,
+  PresentationContent,
+  SpreadsheetContent,
+} from "@/types/libreoffice_types";
+
+function fakeGenerator(
+  output: unknown,
+  partials: unknown[] = [],
+): StructuredGenerator {
+  return vi.fn(async (_request, onPartial) => {
+    partials.forEach(onPartial);
+    return output;
+  });
+}
+
+describe("generateDocumentContent", () => {
+  it("should convert model output into document sections", async () => {
+    const generate = fakeGenerator({
+      title: "Q4 Report",
+      sections: [
+        { type: "heading", level: 1, text: "Summary" },
+        { type: "paragraph", text: "Revenue grew 12%." },
+        { type: "list", items: ["North", "South"], ordered: true },
+        {
+          type: "table",
+          headers: ["Region", "Sales"],
+          rows: [["North", "10"]],
+        },
+        { type: "paragraph", text: "  " },
+        { type: "image" },
+      ],
+    });
+
+    const result = await generateDocumentContent(
+      "document",
+      { prompt: "quarterly report", tone: "formal" },
+      generate,
+    );
+
+    expect(result.success).toBe(true);
+    const content = result.content as DocumentContent;
+    expect(content.title).toBe("Q4 Report");
+    expect(content.sections).toEqual([
+      { type: "heading", level: 1, content: "Summary" },
+      { type: "paragraph", content: "Revenue grew 12%." },
+      { type: "list", content: { items: ["North", "South"], ordered: true } },
+      {
+        type: "table",
+        content: { headers: ["Region", "Sales"], rows: [["North", "10"]] },
+      },
+    ]);
+
+    const request = vi.mocked(generate).mock.calls[0][0];
+    expect(request.prompt).toContain("quarterly report");
+    expect(request.schema.required).toEqual(["title", "sections"]);
+  });
+
+  it("should build spreadsheet cells with numbers and formulas", async () => {
+    const result = await generateDocumentContent(
+      "spreadsheet",
+      { prompt: "budget" },
+      fakeGenerator({
+        sheets: [
+          {
+            name: "Budget",
+            rows: [
+              ["Item", "Q1", "Q2", "Total"],
+              ["Rent", "1000", "1000.50", ""],
+            ],
+            formulas: [{ cell: "D2", formula: "SUM(B2:C2)" }],
+          },
+        ],
+      }),
+    );
+
+    const sheet = (result.content as SpreadsheetContent).sheets[0];
+    expect(sheet.name).toBe("Budget");
+    expect(sheet.cells.find((c) => c.row === 1 && c.col === "A")).toEqual({
+      row: 1,
+      col: "A",
+      value: "Item",
+      format: { bold: true },
+    });
+    expect(sheet.cells.find((c) => c.row === 2 && c.col === "C")?.value).toBe(
+      1000.5,
+    );
+    expect(sheet.cells.find((c) => c.col === "D" && c.row === 2)).toMatchObject(
+      { formula: "=SUM(B2:C2)" },
+    );
+  });
+
+  it("should stream progress from partial output", async () => {
+    const progress: GenerationProgress[] = [];
+    await generateDocumentContent(
+      "presentation",
+      { prompt: "launch deck", length: "short" },
+      fakeGenerator({ slides: [] }, [
+        { slides: [{}] },
+        { slides: [{}, {}, {}] },
+        { slides: [{}, {}, {}] },
+      ]),
+      (p) => progress.push(p),
+    );
+
+    expect(progress.map((p) => p.stage)).toEqual([
+      "analyzing",
+      "generating",
+      "generating",
+      "formatting",
+    ]);
+    expect(progress[2].progress).toBeGreaterThan(progress[1].progress);
+    expect(progress[2].message).toBe("Generated 3 slides");
+  });
+
+  it("should report model failures", async () => {
+    const result = await generateDocumentContent(
+      "document",
+      { prompt: "x" },
+      vi.fn(async () => {
+        throw new Error("rate limited");
+      }),
+    );
+
+    expect(result).toEqual({ success: false, error: "rate limited" });
+  });
+});
+
+describe("reviseDocumentSection", () => {
+  const document: DocumentContent = {
+    title: "Plan",
+    sections: [
+      { type: "paragraph", content: "Intro" },
+      { type: "heading", level: 2, content: "Goals" },
+      { type: "paragraph", content: "Grow." },
+      { type: "heading", level: 3, content: "Detail" },
+      { type: "paragraph", content: "More." },
+      { type: "heading", level: 2, content: "Risks" },
+      { type: "paragraph", content: "Few." },
+    ],
+  };
+
+  it("should list sections split at top-level headings", () => {
+    expect(getRevisableSections("document", document)).toEqual([
+      { index: 0, title: "Plan" },
+      { index: 1, title: "Goals" },
+      { index: 2, title: "Risks" },
+    ]);
+  });
+
+  it("should replace only the chosen section", async () => {
+    const generate = fakeGenerator({
+      sections: [
+        { type: "heading", level: 2, text: "Goals" },
+        { type: "list", items: ["Grow 20%", "Hire 3"] },
+      ],
+    });
+
+    const revised = (await reviseDocumentSection(
+      "document",
+      document,
+      1,
+      "Use a bullet list",
+      generate,
+    )) as DocumentContent;
+
+    expect(revised.sections!.map((s) => s.type)).toEqual([
+      "paragraph",
+      "heading",
+      "list",
+      "heading",
+      "paragraph",
+    ]);
+    const request = vi.mocked(generate).mock.calls[0][0];
+    expect(request.prompt).toContain("-> 2. Goals");
+    expect(request.prompt).toContain('"text": "More."');
+    expect(request.prompt).toContain("Use a bullet list");
+  });
+
+  it("should replace a slide in a presentation", async () => {
+    const deck: PresentationContent = {
+      slides: [
+        { layout: "title", title: "Launch" },
+        { layout: "content", title: "Why", content: [] },
+      ],
+    };
+
+    const revised = (await reviseDocumentSection(
+      "presentation",
+      deck,
+      1,
+      "Add reasons",
+      fakeGenerator({
+        layout: "content",
+        title: "Why now",
+        bullets: ["Demand"],
+      }),
+    )) as PresentationContent;
+
+    expect(revised.slides[0]).toBe(deck.slides[0]);
+    expect(revised.slides[1]).toMatchObject({
+      title: "Why now",
+      content: [{ type: "list", content: { items: ["Demand"] } }],
+    });
+  });
+
+  it("should reject unknown sections", async () => {
+    await expect(
+      reviseDocumentSection("document", document, 9, "x", fakeGenerator({})),
+    ).rejects.toThrow("Section 10 does not exist");
+  });
+});
+
+describe("helpers", () => {
+  it("should name spreadsheet columns", () => {
+    expect([0, 25, 26, 701, 702].map(columnName)).toEqual([
+      "A",
+      "Z",
+      "AA",
+      "ZZ",
+      "AAA",
+    ]);
+  });
+
+  it("should build model ids from provider and model", () => {
+    expect(getGenerationModelId({})).toBeUndefined();
+    expect(getGenerationModelId({ model: "gpt-4o" })).toBe("gpt-4o");
+    expect(
+      getGenerationModelId({ provider: "ollama", model: "llama3.1" }),
+    ).toBe("ollama:llama3.1");
+  });
+});
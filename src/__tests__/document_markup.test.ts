@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import {
+  renderCsv,
+  renderHtml,
+  renderMarkdown,
+  renderPlainText,
+} from "@/lib/document_markup";
+import type {
+  DocumentContent,
+  PresentationContent,
+  SpreadsheetContent,
+} from "@/types/libreoffice_types";
+
+const document: DocumentContent = {
+  title: "Guide",
+  sections: [
+    { type: "heading", level: 2, content: "Setup" },
+    { type: "paragraph", content: "Install <it>", style: { bold: true } },
+    { type: "list", content: { items: ["a", "b"], ordered: true } },
+    {
+      type: "table",
+      content: { headers: ["Key", "Value"], rows: [["x", "1|2"]] },
+    },
+    {
+      type: "chart",
+      content: {
+        type: "line",
+        title: "Trend",
+        data: {
+          labels: ["Jan", "Feb"],
+          datasets: [{ label: "Users", data: [3, 5] }],
+        },
+      },
+    },
+  ],
+};
+
+const spreadsheet: SpreadsheetContent = {
+  sheets: [
+    {
+      name: "Data",
+      cells: [
+        { row: 1, col: "A", value: "Name" },
+        { row: 1, col: "C", value: "Note" },
+        { row: 2, col: "A", value: "Ann" },
+        { row: 2, col: "C", value: 'says "hi", ok' },
+      ],
+    },
+  ],
+};
+
+describe("renderHtml", () => {
+  it("should escape text and inline charts as SVG", () => {
+    const html = renderHtml("document", document, "Guide");
+
+    expect(html).toContain("<h1>Guide</h1>");
+    expect(html).toContain(
+      '<p style="font-weight:bold">Install &lt;it&gt;</p>',
+    );
+    expect(html).toContain("<ol><li>a</li><li>b</li></ol>");
+    expect(html).toContain("<svg");
+  });
+
+  it("should render presentation themes as CSS", () => {
+    const deck: PresentationContent = {
+      theme: { name: "Brand", primaryColor: "#123456" },
+      slides: [{ layout: "title", title: "Hi", notes: "Remember" }],
+    };
+    const html = renderHtml("presentation", deck, "Deck");
+
+    expect(html).toContain(".slide h1, .slide h2 { color: #123456; }");
+    expect(html).toContain('<section class="slide title">');
+    expect(html).toContain('<aside class="notes">Remember</aside>');
+  });
+});
+
+describe("renderMarkdown", () => {
+  it("should render tables and charts as Markdown tables", () => {
+    const markdown = renderMarkdown("document", document);
+
+    expect(markdown).toContain("## Setup");
+    expect(markdown).toContain("**Install <it>**");
+    expect(markdown).toContain("1. a\n2. b");
+    expect(markdown).toContain("| x | 1\\|2 |");
+    expect(markdown).toContain("**Trend** (line chart)");
+    expect(markdown).toContain("| Jan | 3 |");
+  });
+
+  it("should use the first sheet row as the table header", () => {
+    expect(renderMarkdown("spreadsheet", spreadsheet)).toContain(
+      '| Name |  | Note |\n| --- | --- | --- |\n| Ann |  | says "hi", ok |',
+    );
+  });
+});
+
+describe("renderCsv", () => {
+  it("should quote values per RFC 4180", () => {
+    expect(renderCsv(spreadsheet)).toBe(
+      'Name,,Note\r\nAnn,,"says ""hi"", ok"\r\n',
+    );
+  });
+});
+
+describe("renderPlainText", () => {
+  it("should number slides", () => {
+    const text = renderPlainText("presentation", {
+      slides: [
+        { layout: "title", title: "Intro" },
+        {
+          layout: "content",
+          content: [{ type: "list", content: { items: ["x"] } }],
+        },
+      ],
+    });
+
+    expect(text).toBe("Slide 1: Intro\n\nSlide 2\n\n• x\n");
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from "vitest";
+import {
+  getChunkCoverage,
+  rankInferencePeers,
+  scoreInferencePeer,
+  type PeerHeartbeatInfo,
+} from "@/lib/federated_routing";
+import type { ModelChunkAnnouncement, Peer } from "@/types/federation_types";
+
+const NOW = 1_000_000;
+
+function createPeer(id: string, overrides: Partial<Peer> = {}): Peer {
+  return {
+    id,
+    did: {
+      did: `did:joy:${id}`,
+      public_key: "",
+      display_name: id,
+      created_at: new Date(0).toISOString(),
+      capabilities: ["compute"],
+    },
+    addresses: [],
+    protocols: ["libp2p"],
+    agent_version: "joycreate/test",
+    status: "online",
+    last_seen: new Date(0).toISOString(),
+    capabilities: ["compute"],
+    reputation: {
+      score: 50,
+      total_transactions: 0,
+      successful_transactions: 0,
+      disputes: 0,
+      disputes_won: 0,
+      uptime_percentage: 0,
+      avg_response_time_ms: 0,
+      reviews: [],
+      badges: [],
+    },
+    connected: true,
+    ...overrides,
+  };
+}
+
+function createChunk(
+  publisherDid: string,
+  index: number,
+): ModelChunkAnnouncement {
+  return {
+    model_id: "llama3",
+    chunk_cid: `chunk-${index}`,
+    chunk_index: index,
+    total_chunks: 4,
+    peer_id: publisherDid.replace("did:joy:", ""),
+    publisher_did: publisherDid,
+    created_at: new Date(0).toISOString(),
+  };
+}
+
+const noHeartbeats = new Map<string, PeerHeartbeatInfo>();
+
+describe("getChunkCoverage", () => {
+  it("should return the fraction of chunks a peer announced", () => {
+    const peer = createPeer("a");
+    const chunks = [
+      createChunk("did:joy:a", 0),
+      createChunk("did:joy:a", 1),
+      createChunk("did:joy:b", 2),
+    ];
+    expect(getChunkCoverage(peer, chunks)).toBe(0.5);
+  });
+
+  it("should return 0 when no chunks are known", () => {
+    expect(getChunkCoverage(createPeer("a"), [])).toBe(0);
+  });
+});
+
+describe("scoreInferencePeer", () => {
+  it("should skip peers that are disconnected or lack compute", () => {
+    const options = { chunks: [], heartbeats: noHeartbeats, now: NOW };
+    expect(
+      scoreInferencePeer(createPeer("a", { connected: false }), options),
+    ).toBeNull();
+    expect(
+      scoreInferencePeer(
+        createPeer("a", { capabilities: ["storage"] }),
+        options,
+      ),
+    ).toBeNull();
+  });
+
+  it("should skip peers whose heartbeat reports them offline", () => {
+    const heartbeats = new Map<string, PeerHeartbeatInfo>([
+      ["a", { status: "offline", lastSeen: NOW, activeJobs: 0 }],
+    ]);
+    expect(
+      scoreInferencePeer(createPeer("a"), { chunks: [], heartbeats, now: NOW }),
+    ).toBeNull();
+  });
+
+  it("should favour fresh heartbeats and idle peers", () => {
+    const heartbeats = new Map<string, PeerHeartbeatInfo>([
+      ["fresh", { status: "online", lastSeen: NOW, activeJobs: 0 }],
+      ["stale", { status: "busy", lastSeen: NOW - 80_000, activeJobs: 3 }],
+    ]);
+    const options = { chunks: [], heartbeats, now: NOW };
+    const fresh = scoreInferencePeer(createPeer("fresh"), options)!;
+    const stale = scoreInferencePeer(createPeer("stale"), options)!;
+
+    expect(fresh.score).toBeGreaterThan(stale.score);
+    expect(fresh.reasons).toContain("heartbeat 0s ago, 0 active jobs");
+  });
+});
+
+describe("rankInferencePeers", () => {
+  it("should rank by reputation, chunk coverage and latency", () => {
+    const trusted = createPeer("trusted", {
+      latency_ms: 50,
+      reputation: {
+        ...createPeer("x").reputation,
+        score: 95,
+        total_transactions: 10,
+        successful_transactions: 10,
+      },
+    });
+    const seeder = createPeer("seeder");
+    const slow = createPeer("slow", { latency_ms: 1900 });
+    const chunks = [
+      createChunk("did:joy:seeder", 0),
+      createChunk("did:joy:other", 1),
+    ];
+
+    const ranked = rankInferencePeers([slow, seeder, trusted], {
+      chunks,
+      heartbeats: noHeartbeats,
+      now: NOW,
+    });
+
+    expect(ranked.map((c) => c.peer_id)).toEqual(["trusted", "seeder", "slow"]);
+    expect(ranked[1].reasons).toContain("holds 25% of model chunks");
+  });
+
+  it("should put an eligible preferred peer first", () => {
+    const good = createPeer("good", {
+      reputation: { ...createPeer("x").reputation, score: 90 },
+    });
+    const preferred = createPeer("preferred", {
+      reputation: { ...createPeer("x").reputation, score: 10 },
+    });
+
+    const ranked = rankInferencePeers([good, preferred], {
+      chunks: [],
+      heartbeats: noHeartbeats,
+      preferredPeerId: "preferred",
+      now: NOW,
+    });
+
+    expect(ranked[0].peer_id).toBe("preferred");
+    expect(ranked[0].reasons[0]).toBe("preferred peer");
+    expect(ranked[1].peer_id).toBe("good");
+  });
+
+  it("should ignore a preferred peer that is not eligible", () => {
+    const ranked = rankInferencePeers(
+      [createPeer("a"), createPeer("b", { connected: false })],
+      { chunks: [], heartbeats: noHeartbeats, preferredPeerId: "b", now: NOW },
+    );
+    expect(ranked.map((c) => c.peer_id)).toEqual(["a"]);
+  });
+});
@@ -0,0 +1,179 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import crypto from "node:crypto";
+import {
+  checkReplicatedRecord,
+  didFromPublicKey,
+  isRecordExpired,
+  recordPayloadMatchesKey,
+  verifyDHTRecord,
+} from "@/lib/federation_dht";
+import type { DHTRecord } from "@/types/federation_types";
+
+const NOW = new Date("2025-05-01T12:00:00Z");
+
+function makePublisher() {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519");
+  const pem = publicKey.export({ type: "spki", format: "pem" }).toString();
+  return { did: didFromPublicKey(pem), publicKey: pem, privateKey };
+}
+
+function signRecord(
+  publisher: ReturnType<typeof makePublisher>,
+  key: string,
+  value: unknown,
+  timestamp = NOW.toISOString(),
+): DHTRecord {
+  return {
+    key,
+    value,
+    publisher: publisher.did,
+    publisher_key: publisher.publicKey,
+    signature: crypto
+      .sign(
+        null,
+        Buffer.from(JSON.stringify({ key, value })),
+        publisher.privateKey,
+      )
+      .toString("base64"),
+    timestamp,
+    ttl_seconds: 3600,
+    replicas: [],
+  };
+}
+
+function listing(id: string, sellerDid: string) {
+  return { id, seller: { did: sellerDid }, asset_id: "asset-1" };
+}
+
+describe("verifyDHTRecord", () => {
+  it("should accept a record signed by its publisher", () => {
+    const seller = makePublisher();
+    expect(verifyDHTRecord(signRecord(seller, "note:1", { text: "hi" }))).toBe(
+      true,
+    );
+  });
+
+  it("should reject a tampered value or a borrowed publisher DID", () => {
+    const seller = makePublisher();
+    const other = makePublisher();
+    const record = signRecord(seller, "note:1", { text: "hi" });
+
+    expect(verifyDHTRecord({ ...record, value: { text: "bye" } })).toBe(false);
+    expect(verifyDHTRecord({ ...record, publisher: other.did })).toBe(false);
+    expect(verifyDHTRecord({ ...record, publisher_key: undefined })).toBe(
+      false,
+    );
+  });
+});
+
+describe("recordPayloadMatchesKey", () => {
+  const seller = makePublisher();
+
+  it("should require listings to be stored under their own id", () => {
+    expect(
+      recordPayloadMatchesKey(
+        signRecord(seller, "listing:p2p-1", listing("p2p-1", seller.did)),
+      ),
+    ).toBe(true);
+    expect(
+      recordPayloadMatchesKey(
+        signRecord(seller, "listing:p2p-victim", listing("p2p-1", seller.did)),
+      ),
+    ).toBe(false);
+  });
+
+  it("should require the payload to name the record's publisher", () => {
+    const victim = makePublisher();
+    expect(
+      recordPayloadMatchesKey(
+        signRecord(seller, "listing:p2p-1", listing("p2p-1", victim.did)),
+      ),
+    ).toBe(false);
+  });
+
+  it("should match model chunk announcements against the key", () => {
+    const announcement = {
+      model_id: "org:model",
+      chunk_cid: "bafychunk",
+      publisher_did: seller.did,
+    };
+    expect(
+      recordPayloadMatchesKey(
+        signRecord(seller, "model-chunk:org:model:bafychunk", announcement),
+      ),
+    ).toBe(true);
+    expect(
+      recordPayloadMatchesKey(
+        signRecord(seller, "model-chunk:org:model:bafyother", announcement),
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("checkReplicatedRecord", () => {
+  const seller = makePublisher();
+  const attacker = makePublisher();
+  const key = "listing:p2p-1";
+  const stored = signRecord(seller, key, listing("p2p-1", seller.did));
+
+  it("should store a new record and newer versions from its owner", () => {
+    expect(checkReplicatedRecord(stored, null, NOW)).toEqual({
+      accept: true,
+      changed: true,
+    });
+
+    const update = signRecord(
+      seller,
+      key,
+      { ...listing("p2p-1", seller.did), asset_id: "asset-2" },
+      new Date(NOW.getTime() + 1000).toISOString(),
+    );
+    expect(checkReplicatedRecord(update, stored, NOW)).toEqual({
+      accept: true,
+      changed: true,
+    });
+    expect(checkReplicatedRecord(stored, stored, NOW)).toEqual({
+      accept: true,
+      changed: false,
+    });
+  });
+
+  it("should reject another publisher taking over an owned key", () => {
+    const takeover = signRecord(
+      attacker,
+      key,
+      listing("p2p-1", attacker.did),
+      new Date(NOW.getTime() + 1000).toISOString(),
+    );
+
+    expect(checkReplicatedRecord(takeover, stored, NOW)).toEqual({
+      accept: false,
+      reason: `key is owned by ${seller.did}`,
+    });
+  });
+
+  it("should reject stale, expired and mismatched records", () => {
+    const older = signRecord(
+      seller,
+      key,
+      listing("p2p-1", seller.did),
+      new Date(NOW.getTime() - 1000).toISOString(),
+    );
+    expect(checkReplicatedRecord(older, stored, NOW).accept).toBe(false);
+
+    const later = new Date(NOW.getTime() + 2 * 3600 * 1000);
+    expect(isRecordExpired(stored, later)).toBe(true);
+    expect(checkReplicatedRecord(stored, null, later).accept).toBe(false);
+
+    const mismatched = signRecord(
+      attacker,
+      "listing:p2p-2",
+      listing("p2p-1", attacker.did),
+    );
+    expect(checkReplicatedRecord(mismatched, null, NOW)).toEqual({
+      accept: false,
+      reason: "payload does not match its key",
+    });
+  });
+});
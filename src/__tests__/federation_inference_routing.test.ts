@@ -0,0 +1,253 @@
+// @vitest-environment node
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+const mocks = vi.hoisted(() => ({
+  handlers: new Map<string, (...args: any[]) => any>(),
+  userData: "",
+  node: null as any,
+  connections: [] as { remotePeer: { toString(): string } }[],
+  runVerifiedInference: vi.fn(),
+  settings: { enableFederatedCompute: true } as Record<string, unknown>,
+}));
+
+vi.mock("electron", () => ({
+  ipcMain: {
+    handle: (channel: string, handler: (...args: any[]) => any) =>
+      mocks.handlers.set(channel, handler),
+  },
+  app: {
+    getPath: () => mocks.userData,
+    getVersion: () => "0.0.0-test",
+  },
+}));
+
+vi.mock("electron-log", () => ({
+  default: {
+    scope: () => ({
+      log: vi.fn(),
+      info: vi.fn(),
+      debug: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+  },
+}));
+
+// The handlers import fs-extra as a namespace; back it with node:fs
+vi.mock("fs-extra", async () => {
+  const { promises: fsp } = await import("node:fs");
+  return {
+    ensureDir: (dir: string) => fsp.mkdir(dir, { recursive: true }),
+    pathExists: (target: string) =>
+      fsp.access(target).then(
+        () => true,
+        () => false,
+      ),
+    readJson: async (file: string) =>
+      JSON.parse(await fsp.readFile(file, "utf8")),
+    writeJson: (file: string, value: unknown) =>
+      fsp.writeFile(file, JSON.stringify(value)),
+    readdir: (dir: string) => fsp.readdir(dir),
+  };
+});
+
+vi.mock("@/main/settings", () => ({ readSettings: () => mocks.settings }));
+
+vi.mock("@/ipc/handlers/compute_network_handlers", () => ({
+  createLibp2pNode: vi.fn(),
+  dialPeer: vi.fn(),
+  getComputePeer: vi.fn(),
+  getLibp2pNode: () => mocks.node,
+  loadDependencies: vi.fn(),
+}));
+
+vi.mock("@/lib/helia_verification_service", () => ({
+  heliaVerificationService: {},
+}));
+vi.mock("@/lib/trustless_inference_service", () => ({
+  trustlessInferenceService: {
+    runVerifiedInference: mocks.runVerifiedInference,
+  },
+}));
+vi.mock("@/lib/ipld_receipt_service", () => ({ ipldReceiptService: {} }));
+
+import { registerFederationHandlers } from "@/ipc/handlers/federation_handlers";
+
+const PEERS_TOPIC = "/joycreate/federation/peers/1.0.0";
+const INFERENCE_TOPIC = "/joycreate/federation/inference/1.0.0";
+const LOCAL_PEER = "12D3KooWLocalPeer";
+const REMOTE_PEER = "12D3KooWRemotePeer";
+
+/** Just enough of a libp2p node for the federation network to run on */
+function createFakeNode(peerId: string) {
+  const pubsub = Object.assign(new EventTarget(), {
+    subscribe: vi.fn(),
+    unsubscribe: vi.fn(),
+    publish: vi.fn(async () => undefined),
+    getSubscribers: vi.fn(() => []),
+  });
+  return Object.assign(new EventTarget(), {
+    peerId: { toString: () => peerId },
+    status: "started",
+    services: { pubsub },
+    getMultiaddrs: () => [],
+    getConnections: () => mocks.connections,
+  });
+}
+
+function invoke(channel: string, ...args: unknown[]) {
+  return mocks.handlers.get(channel)!({}, ...args);
+}
+
+function emit(target: EventTarget, type: string, detail: unknown) {
+  target.dispatchEvent(Object.assign(new Event(type), { detail }));
+}
+
+function deliver(topic: string, payload: unknown, from = REMOTE_PEER) {
+  emit(mocks.node.services.pubsub, "message", {
+    topic,
+    from: { toString: () => from },
+    data: new TextEncoder().encode(JSON.stringify(payload)),
+  });
+}
+
+function published(type: string): any[] {
+  return mocks.node.services.pubsub.publish.mock.calls
+    .map(([, data]: [string, Uint8Array]) =>
+      JSON.parse(new TextDecoder().decode(data)),
+    )
+    .filter((payload: any) => payload.type === type);
+}
+
+describe("federated inference routing between identities", () => {
+  let remoteDid: string;
+
+  beforeAll(async () => {
+    mocks.userData = fs.mkdtempSync(path.join(os.tmpdir(), "federation-"));
+    mocks.node = createFakeNode(LOCAL_PEER);
+    registerFederationHandlers();
+    await vi.waitFor(() =>
+      expect(
+        fs.existsSync(path.join(mocks.userData, "federation", "identity")),
+      ).toBe(true),
+    );
+    await invoke("federation:network:start");
+
+    // Announce as the "remote" identity, then switch this node to its own
+    const remote = await invoke(
+      "federation:create-identity",
+      "Remote",
+      "password",
+    );
+    remoteDid = remote.identity.did;
+    emit(mocks.node.services.pubsub, "subscription-change", {
+      subscriptions: [{ topic: PEERS_TOPIC, subscribe: true }],
+    });
+    await vi.waitFor(() => expect(published("peer:announce")).toHaveLength(1));
+    const announcement = published("peer:announce")[0];
+    await invoke("federation:create-identity", "Local", "password");
+
+    mocks.connections = [{ remotePeer: { toString: () => REMOTE_PEER } }];
+    deliver(PEERS_TOPIC, announcement);
+    await vi.waitFor(async () =>
+      expect(await invoke("federation:get-connected-peers")).toHaveLength(1),
+    );
+  });
+
+  afterAll(async () => {
+    await invoke("federation:network:stop");
+    fs.rmSync(mocks.userData, { recursive: true, force: true });
+  });
+
+  it("should advertise compute when federated compute is on", async () => {
+    const [peer] = await invoke("federation:get-connected-peers");
+    expect(peer.capabilities).toContain("compute");
+  });
+
+  it("should route to the connected peer instead of running locally", async () => {
+    const route = await invoke("federation:route-inference", {
+      model_id: "llama3",
+      prompt_hash: "hash",
+      data_hash: "hash",
+    });
+
+    expect(route.candidates.map((c: { peer_id: string }) => c.peer_id)).toEqual(
+      [REMOTE_PEER],
+    );
+    expect(route.target).toMatchObject({
+      peer_id: REMOTE_PEER,
+      did: remoteDid,
+      capability: "compute",
+    });
+  });
+
+  it("should serve a routed request and return the peer's output", async () => {
+    mocks.runVerifiedInference.mockResolvedValue({
+      response: { output: "remote answer" },
+      record: { id: "record-1", cid: "bafyproof" },
+    });
+
+    const execution = invoke("federation:execute-inference", {
+      provider: "ollama",
+      model_id: "llama3",
+      prompt: "hello",
+      payer_did: remoteDid,
+      require_remote: true,
+    });
+
+    // The request is sealed to the key the "remote" announced, which is this
+    // node's own, so this node can serve it as the remote peer would
+    await vi.waitFor(() =>
+      expect(published("inference:request")).toHaveLength(1),
+    );
+    const [request] = published("inference:request");
+    expect(request.target).toBe(REMOTE_PEER);
+    deliver(INFERENCE_TOPIC, { ...request, target: LOCAL_PEER });
+
+    await vi.waitFor(() =>
+      expect(published("inference:response")).toHaveLength(1),
+    );
+    deliver(INFERENCE_TOPIC, published("inference:response")[0]);
+
+    const result = await execution;
+    expect(result).toMatchObject({
+      status: "remote",
+      output: "remote answer",
+      proof_cid: "bafyproof",
+    });
+    expect(mocks.runVerifiedInference).toHaveBeenCalledWith(
+      "ollama",
+      "llama3",
+      "hello",
+      expect.anything(),
+    );
+  });
+
+  it("should neither advertise nor serve compute when federated compute is off", async () => {
+    mocks.settings = {};
+    mocks.runVerifiedInference.mockClear();
+
+    const announced = published("peer:announce").length;
+    emit(mocks.node.services.pubsub, "subscription-change", {
+      subscriptions: [{ topic: PEERS_TOPIC, subscribe: true }],
+    });
+    await vi.waitFor(() =>
+      expect(published("peer:announce")).toHaveLength(announced + 1),
+    );
+    expect(published("peer:announce")[announced].identity.capabilities).toEqual(
+      ["asset-hosting"],
+    );
+
+    const responses = published("inference:response").length;
+    const [request] = published("inference:request");
+    deliver(INFERENCE_TOPIC, { ...request, target: LOCAL_PEER });
+
+    await vi.waitFor(() =>
+      expect(published("inference:response")).toHaveLength(responses + 1),
+    );
+    expect(mocks.runVerifiedInference).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,308 @@
+// @vitest-environment node
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { didFromPublicKey, verifyDHTRecord } from "@/lib/federation_dht";
+import type { DHTRecord } from "@/types/federation_types";
+
+const mocks = vi.hoisted(() => ({
+  handlers: new Map<string, (...args: any[]) => any>(),
+  userData: "",
+  node: null as any,
+  warn: vi.fn(),
+}));
+
+vi.mock("electron", () => ({
+  ipcMain: {
+    handle: (channel: string, handler: (...args: any[]) => any) =>
+      mocks.handlers.set(channel, handler),
+  },
+  app: {
+    getPath: () => mocks.userData,
+    getVersion: () => "0.0.0-test",
+  },
+}));
+
+vi.mock("electron-log", () => ({
+  default: {
+    scope: () => ({
+      log: vi.fn(),
+      info: vi.fn(),
+      debug: vi.fn(),
+      warn: mocks.warn,
+      error: vi.fn(),
+    }),
+  },
+}));
+
+// The handlers import fs-extra as a namespace; back it with node:fs
+vi.mock("fs-extra", async () => {
+  const { promises: fsp } = await import("node:fs");
+  return {
+    ensureDir: (dir: string) => fsp.mkdir(dir, { recursive: true }),
+    pathExists: (target: string) =>
+      fsp.access(target).then(
+        () => true,
+        () => false,
+      ),
+    readJson: async (file: string) =>
+      JSON.parse(await fsp.readFile(file, "utf8")),
+    writeJson: (file: string, value: unknown) =>
+      fsp.writeFile(file, JSON.stringify(value)),
+    readdir: (dir: string) => fsp.readdir(dir),
+  };
+});
+
+vi.mock("@/ipc/handlers/compute_network_handlers", () => ({
+  createLibp2pNode: vi.fn(),
+  dialPeer: vi.fn(),
+  getComputePeer: vi.fn(),
+  getLibp2pNode: () => mocks.node,
+  loadDependencies: vi.fn(),
+}));
+
+vi.mock("@/lib/helia_verification_service", () => ({
+  heliaVerificationService: {},
+}));
+vi.mock("@/lib/trustless_inference_service", () => ({
+  trustlessInferenceService: {},
+}));
+vi.mock("@/lib/ipld_receipt_service", () => ({ ipldReceiptService: {} }));
+
+import { registerFederationHandlers } from "@/ipc/handlers/federation_handlers";
+
+const DHT_TOPIC = "/joycreate/federation/dht/1.0.0";
+const REMOTE_PEER = "12D3KooWRemotePeer";
+
+/** Just enough of a libp2p node for the federation network to run on */
+function createFakeNode(peerId: string) {
+  const pubsub = Object.assign(new EventTarget(), {
+    subscribe: vi.fn(),
+    unsubscribe: vi.fn(),
+    publish: vi.fn(async () => undefined),
+    getSubscribers: vi.fn(() => []),
+  });
+  return Object.assign(new EventTarget(), {
+    peerId: { toString: () => peerId },
+    status: "started",
+    services: { pubsub },
+    getMultiaddrs: () => [],
+    getConnections: () => [],
+  });
+}
+
+function invoke(channel: string, ...args: unknown[]) {
+  return mocks.handlers.get(channel)!({}, ...args);
+}
+
+function deliver(topic: string, payload: unknown, from = REMOTE_PEER) {
+  mocks.node.services.pubsub.dispatchEvent(
+    Object.assign(new Event("message"), {
+      detail: {
+        topic,
+        from: { toString: () => from },
+        data: new TextEncoder().encode(JSON.stringify(payload)),
+      },
+    }),
+  );
+}
+
+function published(type: string): any[] {
+  return mocks.node.services.pubsub.publish.mock.calls
+    .map(([, data]: [string, Uint8Array]) =>
+      JSON.parse(new TextDecoder().decode(data)),
+    )
+    .filter((payload: any) => payload.type === type);
+}
+
+function makePublisher() {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519");
+  const pem = publicKey.export({ type: "spki", format: "pem" }).toString();
+  return { did: didFromPublicKey(pem), publicKey: pem, privateKey };
+}
+
+function signRecord(
+  publisher: ReturnType<typeof makePublisher>,
+  key: string,
+  value: unknown,
+  timestamp = new Date().toISOString(),
+): DHTRecord {
+  return {
+    key,
+    value,
+    publisher: publisher.did,
+    publisher_key: publisher.publicKey,
+    signature: crypto
+      .sign(
+        null,
+        Buffer.from(JSON.stringify({ key, value })),
+        publisher.privateKey,
+      )
+      .toString("base64"),
+    timestamp,
+    ttl_seconds: 3600,
+    replicas: [],
+  };
+}
+
+function listing(id: string, sellerDid: string, assetId = "asset-1") {
+  return { id, asset_id: assetId, seller: { did: sellerDid } };
+}
+
+async function getListing(id: string) {
+  const listings = await invoke("federation:get-listings");
+  return listings.find((candidate: { id: string }) => candidate.id === id);
+}
+
+describe("federation DHT replication", () => {
+  const seller = makePublisher();
+  const attacker = makePublisher();
+
+  beforeAll(async () => {
+    mocks.userData = fs.mkdtempSync(path.join(os.tmpdir(), "federation-"));
+    mocks.node = createFakeNode("12D3KooWLocalPeer");
+    registerFederationHandlers();
+    await vi.waitFor(() =>
+      expect(
+        fs.existsSync(path.join(mocks.userData, "federation", "dht")),
+      ).toBe(true),
+    );
+    await invoke("federation:network:start");
+  });
+
+  afterAll(async () => {
+    await invoke("federation:network:stop");
+    fs.rmSync(mocks.userData, { recursive: true, force: true });
+  });
+
+  it("should subscribe to the federation topics on the shared node", () => {
+    const topics = mocks.node.services.pubsub.subscribe.mock.calls.map(
+      ([topic]: [string]) => topic,
+    );
+    expect(topics).toContain(DHT_TOPIC);
+  });
+
+  it("should sign local records and replicate them to peers", async () => {
+    const { identity, privateKey } = await invoke(
+      "federation:create-identity",
+      "Local",
+      "password",
+    );
+
+    await invoke(
+      "federation:dht-put",
+      "note:local",
+      { text: "hello" },
+      identity.did,
+      privateKey,
+    );
+
+    const [put] = published("dht:put");
+    expect(put.record.key).toBe("note:local");
+    expect(verifyDHTRecord(put.record)).toBe(true);
+  });
+
+  it("should store, index and acknowledge a peer's listing", async () => {
+    const record = signRecord(
+      seller,
+      "listing:p2p-seller",
+      listing("p2p-seller", seller.did),
+    );
+    deliver(DHT_TOPIC, { type: "dht:put", record });
+
+    await vi.waitFor(() =>
+      expect(published("dht:ack")).toContainEqual({
+        type: "dht:ack",
+        key: record.key,
+        timestamp: record.timestamp,
+      }),
+    );
+    expect(await getListing("p2p-seller")).toMatchObject({
+      seller: { did: seller.did },
+    });
+    expect((await invoke("federation:dht-get", record.key)).replicas).toContain(
+      "12D3KooWLocalPeer",
+    );
+  });
+
+  it("should reject another publisher overwriting an owned key", async () => {
+    const takeover = signRecord(
+      attacker,
+      "listing:p2p-seller",
+      listing("p2p-seller", attacker.did, "asset-stolen"),
+      new Date(Date.now() + 60_000).toISOString(),
+    );
+    deliver(DHT_TOPIC, { type: "dht:put", record: takeover });
+
+    await vi.waitFor(() =>
+      expect(mocks.warn).toHaveBeenCalledWith(
+        `Ignoring DHT record listing:p2p-seller: key is owned by ${seller.did}`,
+      ),
+    );
+    expect(await getListing("p2p-seller")).toMatchObject({
+      asset_id: "asset-1",
+      seller: { did: seller.did },
+    });
+    expect(
+      (await invoke("federation:dht-get", "listing:p2p-seller")).publisher,
+    ).toBe(seller.did);
+  });
+
+  it("should reject a listing published under another listing's key", async () => {
+    const mislabeled = signRecord(
+      attacker,
+      "listing:p2p-attacker",
+      listing("p2p-seller", attacker.did, "asset-stolen"),
+    );
+    deliver(DHT_TOPIC, { type: "dht:put", record: mislabeled });
+
+    await vi.waitFor(() =>
+      expect(mocks.warn).toHaveBeenCalledWith(
+        "Ignoring DHT record listing:p2p-attacker: payload does not match its key",
+      ),
+    );
+    expect(await getListing("p2p-seller")).toMatchObject({
+      asset_id: "asset-1",
+    });
+    expect(
+      await invoke("federation:dht-get", "listing:p2p-attacker"),
+    ).toBeNull();
+  });
+
+  it("should refuse to publish locally over a key another peer owns", async () => {
+    const { identity, privateKey } = await invoke(
+      "federation:create-identity",
+      "Local",
+      "password",
+    );
+
+    await expect(
+      invoke(
+        "federation:dht-put",
+        "listing:p2p-seller",
+        listing("p2p-seller", identity.did),
+        identity.did,
+        privateKey,
+      ),
+    ).rejects.toThrow(`owned by ${seller.did}`);
+  });
+
+  it("should answer peers' lookups with stored records", async () => {
+    deliver(DHT_TOPIC, {
+      type: "dht:get",
+      query_id: "query-1",
+      key: "listing:p2p-seller",
+    });
+
+    await vi.waitFor(() =>
+      expect(published("dht:record")).toContainEqual(
+        expect.objectContaining({
+          query_id: "query-1",
+          record: expect.objectContaining({ publisher: seller.did }),
+        }),
+      ),
+    );
+  });
+});
@@ -0,0 +1,328 @@
+// @vitest-environment node
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  CloudRecordClient,
+  HybridSyncEngine,
+  SyncStore,
+  resolveConflict,
+} from "@/lib/hybrid_sync_engine";
+import type {
+  ConflictResolution,
+  ServiceBridge,
+  SyncConflict,
+  SyncMode,
+  SyncRecord,
+} from "@/types/hybrid_bridge_types";
+
+/**
+ * Minimal storage service speaking the records contract, backed by a Map.
+ */
+function startStandInService() {
+  const records = new Map<string, SyncRecord>();
+  let clock = Date.parse("2026-01-01T00:00:00.000Z");
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url!, "http://localhost");
+    const [, root, dataType, id] = url.pathname
+      .split("/")
+      .map(decodeURIComponent);
+    const send = (status: number, body?: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(body === undefined ? undefined : JSON.stringify(body));
+    };
+    if (root !== "records") return send(404);
+
+    const key = `${dataType}/${id}`;
+    if (!id && req.method === "GET") {
+      const since = url.searchParams.get("since");
+      return send(200, {
+        records: [...records.values()].filter(
+          (r) =>
+            r.dataType === dataType &&
+            (!since || Date.parse(r.updatedAt) > Date.parse(since)),
+        ),
+      });
+    }
+    if (req.method === "GET") {
+      const record = records.get(key);
+      return record && !record.deleted ? send(200, record) : send(404);
+    }
+    if (req.method === "DELETE") {
+      const updatedAt = new Date(++clock).toISOString();
+      records.set(key, { id, dataType, data: null, updatedAt, deleted: true });
+      return send(204);
+    }
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      // The service stamps its own time, like a real database would
+      const { data } = JSON.parse(body);
+      const record = {
+        id,
+        dataType,
+        data,
+        updatedAt: new Date(++clock).toISOString(),
+      };
+      records.set(key, record);
+      send(200, record);
+    });
+  });
+
+  return new Promise<{
+    url: string;
+    records: Map<string, SyncRecord>;
+    edit: (dataType: string, id: string, data: unknown) => void;
+    close: () => Promise<void>;
+  }>((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        records,
+        edit: (dataType, id, data) =>
+          records.set(`${dataType}/${id}`, {
+            id,
+            dataType,
+            data,
+            updatedAt: new Date(++clock).toISOString(),
+          }),
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+function createBridge(url: string): ServiceBridge {
+  return {
+    id: "stand-in",
+    name: "Stand-in",
+    description: "Local records service",
+    type: "storage",
+    config: {
+      endpoint: { id: "stand-in", name: "Stand-in", type: "local", url },
+    },
+    status: {
+      state: "connected",
+      lastCheck: new Date().toISOString(),
+      errorCount: 0,
+      reconnectAttempts: 0,
+    },
+    capabilities: [],
+  };
+}
+
+describe("resolveConflict", () => {
+  const local: SyncRecord = {
+    id: "1",
+    dataType: "note",
+    data: { title: "local", body: "mine" },
+    updatedAt: "2026-01-01T00:00:02.000Z",
+  };
+  const cloud: SyncRecord = {
+    id: "1",
+    dataType: "note",
+    data: { title: "cloud", tags: ["a"] },
+    updatedAt: "2026-01-01T00:00:01.000Z",
+  };
+  const resolve = (
+    resolution: ConflictResolution,
+    mode: SyncMode = "local-first",
+  ) => resolveConflict(local, cloud, resolution, mode);
+
+  it("should pick a side per strategy", () => {
+    expect(resolve("local-wins")).toBe(local);
+    expect(resolve("cloud-wins")).toBe(cloud);
+    expect(resolve("newest-wins")).toBe(local);
+    expect(resolve("manual")).toBeNull();
+  });
+
+  it("should break timestamp ties toward the mode's preferred side", () => {
+    const tied = { ...cloud, updatedAt: local.updatedAt };
+    expect(resolveConflict(local, tied, "newest-wins", "local-first")).toBe(
+      local,
+    );
+    expect(resolveConflict(local, tied, "newest-wins", "cloud-first")).toBe(
+      tied,
+    );
+  });
+
+  it("should merge fields with the preferred side on top", () => {
+    expect(resolve("merge")?.data).toEqual({
+      title: "local",
+      body: "mine",
+      tags: ["a"],
+    });
+    expect(resolve("merge", "cloud-first")?.data).toEqual({
+      title: "cloud",
+      body: "mine",
+      tags: ["a"],
+    });
+  });
+});
+
+describe("HybridSyncEngine", () => {
+  let service: Awaited<ReturnType<typeof startStandInService>>;
+  let dir: string;
+  let store: SyncStore;
+  let conflicts: SyncConflict[];
+
+  const createEngine = (
+    conflictResolution: ConflictResolution = "newest-wins",
+    mode: SyncMode = "local-first",
+  ) =>
+    new HybridSyncEngine({
+      store,
+      cloud: new CloudRecordClient(createBridge(service.url)),
+      mode,
+      conflictResolution,
+      onConflict: (conflict) => conflicts.push(conflict),
+    });
+
+  const putLocal = (id: string, data: unknown, deleted?: boolean) =>
+    store.getRecord("note", id).then((existing) =>
+      store.putRecord({
+        ...existing,
+        id,
+        dataType: "note",
+        data,
+        deleted,
+        updatedAt: new Date().toISOString(),
+        dirty: true,
+      }),
+    );
+
+  beforeEach(async () => {
+    service = await startStandInService();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "hybrid-sync-"));
+    store = new SyncStore(path.join(dir, "store.json"));
+    conflicts = [];
+  });
+
+  afterEach(async () => {
+    await service.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should push local changes and pull cloud changes", async () => {
+    const engine = createEngine();
+    await putLocal("a", { title: "from local" });
+    expect(await engine.reconcile("note", "a")).toBe("pushed");
+    expect(service.records.get("note/a")?.data).toEqual({
+      title: "from local",
+    });
+    expect((await store.getRecord("note", "a"))?.dirty).toBe(false);
+
+    service.edit("note", "b", { title: "from cloud" });
+    expect(await engine.pullChanges("note")).toEqual({
+      applied: 1,
+      conflicts: 0,
+    });
+    expect((await store.getRecord("note", "b"))?.data).toEqual({
+      title: "from cloud",
+    });
+
+    // The cursor only returns newer changes next time
+    expect(await engine.pullChanges("note")).toEqual({
+      applied: 0,
+      conflicts: 0,
+    });
+  });
+
+  it("should propagate deletes in both directions", async () => {
+    const engine = createEngine();
+    await putLocal("a", { title: "a" });
+    await putLocal("b", { title: "b" });
+    await engine.reconcile("note", "a");
+    await engine.reconcile("note", "b");
+
+    await putLocal("a", null, true);
+    expect(await engine.reconcile("note", "a")).toBe("deleted-cloud");
+    expect(service.records.get("note/a")?.deleted).toBe(true);
+    expect(await store.getRecord("note", "a")).toBeNull();
+
+    service.records.set("note/b", {
+      ...service.records.get("note/b")!,
+      deleted: true,
+      updatedAt: "2030-01-01T00:00:00.000Z",
+    });
+    await engine.pullChanges("note");
+    expect(await store.getRecord("note", "b")).toBeNull();
+  });
+
+  it("should persist manual conflicts and apply the user's choice", async () => {
+    const engine = createEngine("manual");
+    await putLocal("a", { title: "v1" });
+    await engine.reconcile("note", "a");
+
+    service.edit("note", "a", { title: "cloud edit", pinned: true });
+    await putLocal("a", { title: "local edit" });
+    expect(await engine.reconcile("note", "a")).toBe("conflict");
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      dataId: "a",
+      localVersion: { title: "local edit" },
+      cloudVersion: { title: "cloud edit", pinned: true },
+      resolved: false,
+    });
+
+    // The conflict survives a restart, and the record stays put until resolved
+    store = new SyncStore(path.join(dir, "store.json"));
+    const reopened = createEngine("manual");
+    expect(await store.listConflicts()).toHaveLength(1);
+    expect(await reopened.reconcile("note", "a")).toBe("conflict");
+
+    const resolved = await reopened.resolveManually(conflicts[0].id, "merge");
+    expect(resolved.resolved).toBe(true);
+    expect(service.records.get("note/a")?.data).toEqual({
+      title: "local edit",
+      pinned: true,
+    });
+    expect(await store.getRecord("note", "a")).toMatchObject({
+      dirty: false,
+      conflictId: undefined,
+    });
+  });
+
+  it("should resolve automatically with newest-wins", async () => {
+    const engine = createEngine("newest-wins");
+    await putLocal("a", { title: "v1" });
+    await engine.reconcile("note", "a");
+
+    await putLocal("a", { title: "local edit" });
+    service.records.set("note/a", {
+      id: "a",
+      dataType: "note",
+      data: { title: "later cloud edit" },
+      updatedAt: "2030-01-01T00:00:00.000Z",
+    });
+    expect(await engine.reconcile("note", "a")).toBe("resolved");
+    expect((await store.getRecord("note", "a"))?.data).toEqual({
+      title: "later cloud edit",
+    });
+    expect(conflicts).toHaveLength(0);
+  });
+
+  it("should keep only the latest queued operation per record", async () => {
+    const op = (id: string, type: "push" | "delete") => ({
+      id: `${type}-${id}`,
+      type,
+      dataType: "note",
+      dataId: id,
+      timestamp: new Date().toISOString(),
+      status: "pending" as const,
+      retries: 0,
+    });
+    await store.enqueue(op("a", "push"));
+    await store.enqueue(op("b", "push"));
+    await store.enqueue(op("a", "delete"));
+
+    expect((await store.takeQueued(1)).map((o) => o.id)).toEqual(["push-b"]);
+    expect((await store.takeQueued(10)).map((o) => o.id)).toEqual(["delete-a"]);
+    expect(await store.getQueueLength()).toBe(0);
+  });
+});
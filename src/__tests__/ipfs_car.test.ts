@@ -0,0 +1,113 @@
+// @vitest-environment node
+
+import { describe, it, expect } from "vitest";
+import { CID } from "multiformats/cid";
+import { sha256 } from "multiformats/hashes/sha2";
+import * as dagCbor from "@ipld/dag-cbor";
+import {
+  buildUnixFsDirectory,
+  createCar,
+  isSameCid,
+  type CarEntry,
+} from "@/lib/ipfs_car";
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+// Root CID from the reference UnixFS importer (ipfs-unixfs-importer with
+// default options) for the same files
+const SITE_ROOT_CID =
+  "bafybeigxwcrxp5bnql34hhftzjjryuyooprluq5ls2mr3ajfsr2xv5hcoa";
+
+const EMPTY_DIR_CID =
+  "bafybeiczsscdsbs7ffqz55asqdf3smv6klcw3gofszvwlyarci47bgf354";
+
+function siteEntries(): CarEntry[] {
+  return [
+    { path: "index.html", content: text("<!doctype html><h1>Hello</h1>") },
+    { path: "assets/app.js", content: text("console.log('hi');") },
+    // Spans three chunks, so the file gets an intermediate dag-pb node
+    {
+      path: "assets/data.bin",
+      content: new Uint8Array(600_000).map((_, i) => i % 251),
+    },
+  ];
+}
+
+function readVarint(bytes: Uint8Array, offset: number): [number, number] {
+  let value = 0;
+  let shift = 0;
+  for (;;) {
+    const byte = bytes[offset++];
+    value += (byte & 0x7f) * 2 ** shift;
+    if (byte < 0x80) return [value, offset];
+    shift += 7;
+  }
+}
+
+function parseCar(car: Uint8Array) {
+  const [headerLength, headerStart] = readVarint(car, 0);
+  const header = dagCbor.decode(
+    car.subarray(headerStart, headerStart + headerLength),
+  ) as { roots: CID[]; version: number };
+  const blocks: { cid: CID; bytes: Uint8Array }[] = [];
+  let offset = headerStart + headerLength;
+  while (offset < car.length) {
+    const [sectionLength, sectionStart] = readVarint(car, offset);
+    const section = car.subarray(sectionStart, sectionStart + sectionLength);
+    const [cid, bytes] = CID.decodeFirst(section);
+    blocks.push({ cid, bytes });
+    offset = sectionStart + sectionLength;
+  }
+  return { header, blocks };
+}
+
+describe("buildUnixFsDirectory", () => {
+  it("should match the reference importer's root CID", async () => {
+    const dag = await buildUnixFsDirectory(siteEntries());
+    expect(dag.root.toString()).toBe(SITE_ROOT_CID);
+    expect(dag.size).toBe(600_423);
+  });
+
+  it("should not depend on entry order", async () => {
+    const dag = await buildUnixFsDirectory(siteEntries().reverse());
+    expect(dag.root.toString()).toBe(SITE_ROOT_CID);
+  });
+
+  it("should produce the well-known empty directory CID", async () => {
+    const dag = await buildUnixFsDirectory([]);
+    expect(dag.root.toString()).toBe(EMPTY_DIR_CID);
+  });
+
+  it("should reject paths escaping the root", async () => {
+    await expect(
+      buildUnixFsDirectory([{ path: "../secret", content: text("x") }]),
+    ).rejects.toThrow("Invalid path");
+  });
+});
+
+describe("createCar", () => {
+  it("should write a CARv1 whose blocks all hash to their CIDs", async () => {
+    const { root, car } = await createCar(siteEntries());
+    const { header, blocks } = parseCar(car);
+
+    expect(header.version).toBe(1);
+    expect(header.roots.map(String)).toEqual([root.toString()]);
+    expect(blocks[0].cid.equals(root)).toBe(true);
+    // Root dir, assets dir, data.bin node, three data.bin chunks, two small files
+    expect(blocks).toHaveLength(8);
+    for (const block of blocks) {
+      const digest = await sha256.digest(block.bytes);
+      expect(CID.createV1(block.cid.code, digest).equals(block.cid)).toBe(true);
+    }
+  });
+});
+
+describe("isSameCid", () => {
+  it("should compare across CID versions and reject garbage", () => {
+    const v0 = CID.parse(EMPTY_DIR_CID).toV0().toString();
+    expect(v0.startsWith("Qm")).toBe(true);
+    expect(isSameCid(v0, EMPTY_DIR_CID)).toBe(true);
+    expect(isSameCid(v0, SITE_ROOT_CID)).toBe(false);
+    expect(isSameCid(v0, "not-a-cid")).toBe(false);
+  });
+});
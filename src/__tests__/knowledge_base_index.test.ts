@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import {
+  chunkText,
+  cosineSimilarity,
+  formatRetrievedContext,
+  htmlToText,
+  searchIndex,
+  type KnowledgeIndexFile,
+} from "@/lib/knowledge_base_index";
+
+describe("chunkText", () => {
+  it("should return a single chunk for short text", () => {
+    expect(chunkText("hello world", 100, 10)).toEqual(["hello world"]);
+  });
+
+  it("should keep chunks within chunkSize and overlap neighbours", () => {
+    const text = Array.from({ length: 50 }, (_, i) => `word${i}`).join(" ");
+    const chunks = chunkText(text, 60, 20);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(60);
+    }
+    // The start of each chunk repeats the tail of the previous one
+    for (let i = 1; i < chunks.length; i++) {
+      const firstWord = chunks[i].split(" ")[0];
+      expect(chunks[i - 1]).toContain(firstWord);
+    }
+    expect(chunks[chunks.length - 1]).toContain("word49");
+  });
+
+  it("should prefer paragraph breaks", () => {
+    const text = `${"a".repeat(30)}\n\n${"b".repeat(30)}`;
+    expect(chunkText(text, 50, 0)).toEqual(["a".repeat(30), "b".repeat(30)]);
+  });
+
+  it("should terminate when overlap is not smaller than chunkSize", () => {
+    expect(chunkText("abcdefghij", 3, 5).length).toBeGreaterThan(0);
+  });
+});
+
+describe("cosineSimilarity", () => {
+  it("should score identical vectors as 1 and orthogonal vectors as 0", () => {
+    expect(cosineSimilarity([1, 2, 3], [1, 2, 3])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+  });
+
+  it("should reject vectors of different dimensions", () => {
+    expect(() => cosineSimilarity([1], [1, 2])).toThrow();
+  });
+});
+
+describe("searchIndex", () => {
+  const index: KnowledgeIndexFile = {
+    version: 1,
+    knowledgeBaseId: 7,
+    embeddingModel: "test",
+    dimensions: 2,
+    indexedAt: 0,
+    chunks: [
+      {
+        id: "a#0",
+        sourceId: "a",
+        content: "cats",
+        metadata: {},
+        embedding: [1, 0],
+      },
+      {
+        id: "b#0",
+        sourceId: "b",
+        content: "dogs",
+        metadata: {},
+        embedding: [0, 1],
+      },
+      {
+        id: "c#0",
+        sourceId: "c",
+        content: "pets",
+        metadata: {},
+        embedding: [0.7, 0.7],
+      },
+    ],
+  };
+
+  it("should rank chunks by similarity and limit to topK", () => {
+    const results = searchIndex(index, [1, 0.1], 2);
+    expect(results.map((r) => r.documentId)).toEqual(["a#0", "c#0"]);
+    expect(results[0].knowledgeBaseId).toBe(7);
+  });
+});
+
+describe("htmlToText", () => {
+  it("should strip scripts and markup", () => {
+    expect(
+      htmlToText(
+        "<html><script>alert(1)</script><h1>Title</h1><p>A &amp; B</p></html>",
+      ),
+    ).toBe("Title\n\nA & B");
+  });
+});
+
+describe("formatRetrievedContext", () => {
+  it("should return an empty string when nothing was retrieved", () => {
+    expect(formatRetrievedContext([])).toBe("");
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildHunks,
+  diffLines,
+  formatHunkHeader,
+  getDiffStats,
+  splitLines,
+} from "@/lib/line_diff";
+
+const lines = (count: number, prefix = "line") =>
+  Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`);
+
+describe("diffLines", () => {
+  it("should find the minimal set of added and removed lines", () => {
+    const diff = diffLines("a\nb\nc\nd\n", "a\nc\nd\ne\n");
+    expect(diff.map((l) => `${l.type[0]} ${l.text}`)).toEqual([
+      "c a",
+      "r b",
+      "c c",
+      "c d",
+      "a e",
+    ]);
+    expect(getDiffStats(diff)).toEqual({ additions: 1, deletions: 1 });
+    expect(diff[4]).toEqual({ type: "add", text: "e", newLine: 4 });
+  });
+
+  it("should treat added and deleted files as all additions or removals", () => {
+    expect(getDiffStats(diffLines("", "x\ny\n"))).toEqual({
+      additions: 2,
+      deletions: 0,
+    });
+    expect(getDiffStats(diffLines("x\r\ny", ""))).toEqual({
+      additions: 0,
+      deletions: 2,
+    });
+    expect(diffLines("same\n", "same")).toEqual([
+      { type: "context", text: "same", oldLine: 1, newLine: 1 },
+    ]);
+    expect(splitLines("")).toEqual([]);
+  });
+});
+
+describe("buildHunks", () => {
+  it("should split distant changes and merge nearby ones", () => {
+    const before = lines(30);
+    const after = [...before];
+    after[1] = "changed 2";
+    after[4] = "changed 5";
+    after.splice(25, 1);
+
+    const hunks = buildHunks(diffLines(before.join("\n"), after.join("\n")));
+
+    expect(hunks.map(formatHunkHeader)).toEqual([
+      "@@ -1,8 +1,8 @@",
+      "@@ -23,7 +23,6 @@",
+    ]);
+    expect(hunks[1].lines.filter((l) => l.type === "remove")).toEqual([
+      { type: "remove", text: "line 26", oldLine: 26 },
+    ]);
+  });
+
+  it("should number hunks in new files like unified diffs", () => {
+    const [hunk] = buildHunks(diffLines("", "a\nb\n"));
+    expect(formatHunkHeader(hunk)).toBe("@@ -0,0 +1,2 @@");
+    expect(buildHunks(diffLines("a\n", "a\n"))).toEqual([]);
+  });
+});
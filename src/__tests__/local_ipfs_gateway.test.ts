@@ -0,0 +1,149 @@
+// @vitest-environment node
+import http from "node:http";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  LocalIpfsGateway,
+  getContentType,
+  parseGatewayRequest,
+  resolveGatewayFile,
+  type UnixFsReader,
+} from "@/lib/local_ipfs_gateway";
+
+const CID = "bafybeigxwcrxp5bnql34hhftzjjryuyooprluq5ls2mr3ajfsr2xv5hcoa";
+
+function createReader(files: Record<string, string>): UnixFsReader {
+  return {
+    async stat(cid, entryPath) {
+      if (cid !== CID) return null;
+      if (entryPath in files) return "file";
+      const isDir =
+        entryPath === "" ||
+        Object.keys(files).some((file) => file.startsWith(`${entryPath}/`));
+      return isDir ? "directory" : null;
+    },
+    async *cat(_cid, entryPath) {
+      yield new TextEncoder().encode(files[entryPath]);
+    },
+  };
+}
+
+const reader = createReader({
+  "index.html": "<h1>home</h1>",
+  "assets/app.js": "console.log(1)",
+  "docs/index.html": "<h1>docs</h1>",
+});
+
+function request(
+  port: number,
+  host: string,
+  requestPath: string,
+  method = "GET",
+): Promise<{
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      { host: "127.0.0.1", port, path: requestPath, method, headers: { host } },
+      (res) => {
+        let body = "";
+        res.on("data", (chunk) => (body += chunk));
+        res.on("end", () =>
+          resolve({ status: res.statusCode!, headers: res.headers, body }),
+        );
+      },
+    );
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+describe("parseGatewayRequest", () => {
+  it("should read the CID from a subdomain host", () => {
+    expect(
+      parseGatewayRequest(`${CID}.ipfs.localhost:48084`, "/assets/app.js?v=1"),
+    ).toEqual({ cid: CID, path: "assets/app.js" });
+  });
+
+  it("should read the CID from a path-style URL", () => {
+    expect(
+      parseGatewayRequest("127.0.0.1:48084", `/ipfs/${CID}/docs/`),
+    ).toEqual({ cid: CID, path: "docs" });
+  });
+
+  it("should reject other URLs", () => {
+    expect(parseGatewayRequest("127.0.0.1:48084", "/favicon.ico")).toBeNull();
+  });
+});
+
+describe("resolveGatewayFile", () => {
+  it("should serve index.html for directories and client-side routes", async () => {
+    expect(await resolveGatewayFile(reader, CID, "")).toBe("index.html");
+    expect(await resolveGatewayFile(reader, CID, "docs")).toBe(
+      "docs/index.html",
+    );
+    expect(await resolveGatewayFile(reader, CID, "settings/profile")).toBe(
+      "index.html",
+    );
+  });
+
+  it("should not fall back for missing assets", async () => {
+    expect(await resolveGatewayFile(reader, CID, "assets/missing.js")).toBe(
+      null,
+    );
+  });
+
+  it("should guess content types from the extension", () => {
+    expect(getContentType("assets/app.js")).toBe(
+      "text/javascript; charset=utf-8",
+    );
+    expect(getContentType("data.bin")).toBe("application/octet-stream");
+  });
+});
+
+describe("LocalIpfsGateway", () => {
+  const gateway = new LocalIpfsGateway(reader);
+
+  afterEach(async () => {
+    await gateway.stop();
+  });
+
+  it("should serve files over HTTP", async () => {
+    const port = await gateway.start(0);
+    expect(gateway.urlFor(CID)).toBe(`http://${CID}.ipfs.localhost:${port}/`);
+
+    const res = await request(port, `${CID}.ipfs.localhost`, "/assets/app.js");
+    expect(res.status).toBe(200);
+    expect(res.body).toBe("console.log(1)");
+    expect(res.headers["content-type"]).toContain("text/javascript");
+    expect(res.headers["x-ipfs-path"]).toBe(`/ipfs/${CID}/assets/app.js`);
+
+    const pathStyle = await request(port, "127.0.0.1", `/ipfs/${CID}/`);
+    expect(pathStyle.body).toBe("<h1>home</h1>");
+  });
+
+  it("should return 404 and 405 for unknown content and methods", async () => {
+    const port = await gateway.start(0);
+
+    const missing = await request(port, `${CID}.ipfs.localhost`, "/x.png");
+    expect(missing.status).toBe(404);
+
+    const post = await request(port, `${CID}.ipfs.localhost`, "/", "POST");
+    expect(post.status).toBe(405);
+  });
+
+  it("should fall back to a free port when the preferred one is taken", async () => {
+    const blocker = http.createServer();
+    await new Promise<void>((resolve) =>
+      blocker.listen(0, "127.0.0.1", () => resolve()),
+    );
+    const taken = (blocker.address() as { port: number }).port;
+    try {
+      const port = await gateway.start(taken);
+      expect(port).not.toBe(taken);
+    } finally {
+      await new Promise<void>((resolve) => blocker.close(() => resolve()));
+    }
+  });
+});
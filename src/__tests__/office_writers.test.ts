@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import AdmZip from "adm-zip";
+import {
+  getImageSize,
+  writeDocx,
+  writePptx,
+  writeXlsx,
+} from "@/lib/office_writers";
+import {
+  parseHexColor,
+  renderChartPng,
+  renderChartSvg,
+} from "@/lib/chart_renderer";
+import type { ChartContent } from "@/types/libreoffice_types";
+
+const chart: ChartContent = {
+  type: "bar",
+  title: "Revenue",
+  data: {
+    labels: ["Q1", "Q2", "Q3"],
+    datasets: [
+      { label: "2024", data: [10, 20, 15] },
+      { label: "2025", data: [12, 25, 18], backgroundColor: "#ff0000" },
+    ],
+  },
+};
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "office-writers-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+function readEntry(zip: AdmZip, name: string): string {
+  const entry = zip.getEntry(name);
+  expect(entry, name).toBeTruthy();
+  return entry!.getData().toString("utf8");
+}
+
+describe("chart_renderer", () => {
+  it("should normalize hex and rgb colors", () => {
+    expect(parseHexColor("#abc")).toBe("AABBCC");
+    expect(parseHexColor("1f4e79")).toBe("1F4E79");
+    expect(parseHexColor("rgb(255, 0, 16)")).toBe("FF0010");
+    expect(parseHexColor("blue")).toBeUndefined();
+  });
+
+  it("should render a PNG with the requested size", () => {
+    const png = renderChartPng(chart, { width: 320, height: 200 });
+
+    expect(png.subarray(1, 4).toString("ascii")).toBe("PNG");
+    expect(getImageSize(png, "png")).toEqual({ width: 320, height: 200 });
+  });
+
+  it("should render SVG with the title and legend", () => {
+    const svg = renderChartSvg(chart);
+
+    expect(svg).toContain("<svg");
+    expect(svg).toContain(">Revenue</text>");
+    expect(svg).toContain(">2025</text>");
+    expect(svg).toContain('fill="#FF0000"');
+  });
+});
+
+describe("writeDocx", () => {
+  it("should write headings, lists, tables and charts", async () => {
+    const outputPath = path.join(tempDir, "report.docx");
+    await writeDocx(
+      {
+        title: "Report",
+        author: "Ada",
+        sections: [
+          { type: "heading", level: 2, content: "Summary" },
+          {
+            type: "paragraph",
+            content: "Sales & growth",
+            style: { bold: true },
+          },
+          { type: "list", content: { items: ["One", "Two"], ordered: true } },
+          {
+            type: "table",
+            content: { headers: ["Region", "Total"], rows: [["EU", "10"]] },
+          },
+          { type: "chart", content: chart },
+        ],
+      },
+      outputPath,
+    );
+
+    const zip = new AdmZip(outputPath);
+    const document = readEntry(zip, "word/document.xml");
+    expect(document).toContain('<w:pStyle w:val="Title"/>');
+    expect(document).toContain('<w:pStyle w:val="Heading2"/>');
+    expect(document).toContain("Sales &amp; growth");
+    expect(document).toContain('<w:numId w:val="2"/>');
+    expect(document).toContain("<w:tbl>");
+    expect(document).toContain('r:embed="rIdImage1"');
+    expect(document).toContain("Revenue (2024, 2025)");
+    expect(readEntry(zip, "word/_rels/document.xml.rels")).toContain(
+      'Target="media/image1.png"',
+    );
+    expect(zip.getEntry("word/media/image1.png")).toBeTruthy();
+    expect(readEntry(zip, "docProps/core.xml")).toContain(
+      "<dc:creator>Ada</dc:creator>",
+    );
+  });
+});
+
+describe("writeXlsx", () => {
+  it("should keep formulas, formats and sheet names", async () => {
+    const outputPath = path.join(tempDir, "book.xlsx");
+    await writeXlsx(
+      {
+        sheets: [
+          {
+            name: "Q1/Q2 [draft]",
+            columnWidths: { A: 20 },
+            cells: [
+              { row: 1, col: "A", value: "Item", format: { bold: true } },
+              { row: 2, col: "A", value: "Widget" },
+              {
+                row: 2,
+                col: "B",
+                value: 1234.5,
+                format: { type: "currency", currency: "EUR" },
+              },
+              { row: 3, col: "B", value: 1234.5, formula: "=SUM(B2:B2)" },
+            ],
+          },
+        ],
+      },
+      outputPath,
+    );
+
+    const zip = new AdmZip(outputPath);
+    expect(readEntry(zip, "xl/workbook.xml")).toContain('name="Q1_Q2 _draft_"');
+    const sheet = readEntry(zip, "xl/worksheets/sheet1.xml");
+    expect(sheet).toContain(
+      '<col min="1" max="1" width="20" customWidth="1"/>',
+    );
+    expect(sheet).toContain("<f>SUM(B2:B2)</f><v>1234.5</v>");
+    expect(sheet).toContain('<c r="A2" t="inlineStr">');
+    const styles = readEntry(zip, "xl/styles.xml");
+    expect(styles).toContain('formatCode="[$€]#,##0.00"');
+    expect(styles).toContain("<b/>");
+  });
+});
+
+describe("writePptx", () => {
+  it("should apply the theme and write slides with notes", async () => {
+    const outputPath = path.join(tempDir, "deck.pptx");
+    await writePptx(
+      {
+        theme: {
+          name: "Ocean",
+          primaryColor: "#003366",
+          secondaryColor: "#00AACC",
+          fontFamily: "Georgia",
+        },
+        slides: [
+          { layout: "title", title: "Hello", subtitle: "World" },
+          {
+            layout: "content",
+            title: "Numbers",
+            notes: "Say hi",
+            content: [
+              { type: "list", content: { items: ["Up", "Down"] } },
+              { type: "chart", content: chart },
+            ],
+          },
+          {
+            layout: "section",
+            title: "Break",
+            background: { type: "gradient", value: "#111111, #333333" },
+          },
+        ],
+      },
+      outputPath,
+    );
+
+    const zip = new AdmZip(outputPath);
+    const theme = readEntry(zip, "ppt/theme/theme1.xml");
+    expect(theme).toContain('<a:accent1><a:srgbClr val="003366"/></a:accent1>');
+    expect(theme).toContain('<a:latin typeface="Georgia"/>');
+    expect(readEntry(zip, "ppt/presentation.xml")).toContain(
+      '<p:sldId id="258" r:id="rId4"/>',
+    );
+
+    const content = readEntry(zip, "ppt/slides/slide2.xml");
+    expect(content).toContain('<a:buChar char="•"/>');
+    expect(content).toContain('<a:srgbClr val="00AACC"/>');
+    expect(content).toContain("<p:pic>");
+    const rels = readEntry(zip, "ppt/slides/_rels/slide2.xml.rels");
+    expect(rels).toContain('Target="../media/image1.png"');
+    expect(rels).toContain('Target="../notesSlides/notesSlide2.xml"');
+    expect(readEntry(zip, "ppt/notesSlides/notesSlide2.xml")).toContain(
+      "Say hi",
+    );
+
+    const section = readEntry(zip, "ppt/slides/slide3.xml");
+    expect(section).toContain("<a:gradFill");
+    // Text on a dark background is light
+    expect(section).toContain('<a:srgbClr val="FFFFFF"/>');
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildExtractionPrompt,
+  buildExtractionSchema,
+  mergeWithSelectorFallback,
+  normalizeAIExtraction,
+  prepareHtmlForExtraction,
+} from "@/lib/scraper_ai_extraction";
+import type { ScrapingField } from "@/types/scraper_types";
+
+const fields: ScrapingField[] = [
+  { id: "1", name: "title", type: "text", selector: "h1", selectorType: "css" },
+  {
+    id: "2",
+    name: "price",
+    type: "number",
+    selector: ".price",
+    selectorType: "css",
+  },
+  {
+    id: "3",
+    name: "summary",
+    type: "text",
+    selector: "A one-sentence summary of the product",
+    selectorType: "ai-extract",
+  },
+];
+
+describe("buildExtractionSchema", () => {
+  it("should require a value and confidence per field", () => {
+    const schema = buildExtractionSchema(fields) as any;
+
+    expect(schema.required).toEqual(["title", "price", "summary"]);
+    expect(schema.properties.price.properties.value).toEqual({
+      type: ["number", "null"],
+    });
+    expect(schema.properties.title.required).toEqual(["value", "confidence"]);
+  });
+
+  it("should describe nested array items", () => {
+    const schema = buildExtractionSchema([
+      {
+        id: "1",
+        name: "variants",
+        type: "array",
+        selector: "",
+        selectorType: "ai-extract",
+        nested: [
+          {
+            id: "2",
+            name: "sku",
+            type: "text",
+            selector: "",
+            selectorType: "css",
+          },
+        ],
+      },
+    ]) as any;
+
+    expect(schema.properties.variants.properties.value.items.required).toEqual([
+      "sku",
+    ]);
+  });
+});
+
+describe("prepareHtmlForExtraction", () => {
+  it("should drop scripts and keep only useful attributes", () => {
+    const html = `<html><head><title>x</title></head><body>
+      <script>track()</script><!-- note -->
+      <a class="btn" href="/buy" onclick="go()">Buy</a>
+      <img src="/p.png" alt="Product" data-x="1">
+    </body></html>`;
+
+    expect(prepareHtmlForExtraction(html)).toBe(
+      '<a href="/buy">Buy</a> <img src="/p.png" alt="Product">',
+    );
+  });
+
+  it("should truncate long pages", () => {
+    expect(prepareHtmlForExtraction("a".repeat(50), 10)).toHaveLength(10);
+  });
+});
+
+describe("buildExtractionPrompt", () => {
+  it("should use the description of ai-extract fields", () => {
+    const prompt = buildExtractionPrompt(
+      fields,
+      "https://shop.test/p/1",
+      "<h1>Lamp</h1>",
+      "Prices are in EUR.",
+    );
+
+    expect(prompt).toContain("Prices are in EUR.");
+    expect(prompt).toContain("https://shop.test/p/1");
+    expect(prompt).toContain(
+      "- summary (text): A one-sentence summary of the product",
+    );
+  });
+});
+
+describe("normalizeAIExtraction", () => {
+  it("should coerce values and clamp confidence", () => {
+    const result = normalizeAIExtraction(
+      {
+        title: { value: " Lamp ", confidence: 1.4 },
+        price: { value: "$12.50", confidence: 0.8 },
+      },
+      fields,
+    );
+
+    expect(result.data).toEqual({ title: "Lamp", price: 12.5, summary: null });
+    expect(result.fieldConfidence).toEqual({
+      title: 1,
+      price: 0.8,
+      summary: 0,
+    });
+    expect(result.confidence).toBeCloseTo(0.6);
+  });
+});
+
+describe("mergeWithSelectorFallback", () => {
+  it("should use selectors for low-confidence fields only", () => {
+    const merged = mergeWithSelectorFallback(
+      {
+        data: { title: "Lamp", price: 99, summary: "A lamp." },
+        fieldConfidence: { title: 0.9, price: 0.2, summary: 0.3 },
+      },
+      { title: "Lamp (old)", price: 12.5, summary: null },
+      fields,
+    );
+
+    expect(merged.data).toEqual({
+      title: "Lamp",
+      price: 12.5,
+      summary: "A lamp.",
+    });
+    expect(merged.fallbackFields).toEqual(["price"]);
+  });
+});
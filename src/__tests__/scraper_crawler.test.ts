@@ -0,0 +1,161 @@
+import { describe, it, expect } from "vitest";
+import {
+  CrawlFrontier,
+  extractLinks,
+  getRobotsRulesForResponse,
+  isAllowedByRobots,
+  normalizeUrl,
+  parseRobotsTxt,
+  parseSitemap,
+  passesUrlFilters,
+} from "@/lib/scraper_crawler";
+
+describe("normalizeUrl", () => {
+  it("should resolve relative URLs and drop fragments", () => {
+    expect(normalizeUrl("../b?x=1#top", "https://example.com/a/c")).toBe(
+      "https://example.com/b?x=1",
+    );
+  });
+
+  it("should reject non-http URLs", () => {
+    expect(normalizeUrl("mailto:hi@example.com")).toBeNull();
+    expect(
+      normalizeUrl("javascript:void(0)", "https://example.com"),
+    ).toBeNull();
+  });
+});
+
+describe("extractLinks", () => {
+  it("should resolve anchors against the base and skip nofollow", () => {
+    const html = `
+      <base href="https://example.com/docs/">
+      <a href="intro">Intro</a>
+      <a class="x" href='/about?a=1&amp;b=2'>About</a>
+      <a href="/private" rel="nofollow">Private</a>
+      <a name="anchor">No href</a>
+    `;
+    expect(extractLinks(html, "https://example.com/")).toEqual([
+      "https://example.com/docs/intro",
+      "https://example.com/about?a=1&b=2",
+    ]);
+  });
+});
+
+describe("parseSitemap", () => {
+  it("should read page URLs from a urlset", () => {
+    const xml = `<?xml version="1.0"?>
+      <urlset>
+        <url><loc>https://example.com/a</loc></url>
+        <url><loc><![CDATA[https://example.com/b?x=1&y=2]]></loc></url>
+      </urlset>`;
+    expect(parseSitemap(xml)).toEqual({
+      urls: ["https://example.com/a", "https://example.com/b?x=1&y=2"],
+      sitemaps: [],
+    });
+  });
+
+  it("should read child sitemaps from a sitemap index", () => {
+    const xml = `<sitemapindex>
+      <sitemap><loc>https://example.com/s1.xml</loc></sitemap>
+      <sitemap><loc>https://example.com/s2.xml.gz</loc></sitemap>
+    </sitemapindex>`;
+    expect(parseSitemap(xml).sitemaps).toEqual([
+      "https://example.com/s1.xml",
+      "https://example.com/s2.xml.gz",
+    ]);
+  });
+});
+
+describe("robots.txt", () => {
+  const robots = `
+    User-agent: *
+    Disallow: /private
+    Allow: /private/public
+    Crawl-delay: 2
+
+    User-agent: JoyCreate-Scraper
+    Disallow: /*.pdf$
+
+    Sitemap: https://example.com/sitemap.xml
+  `;
+
+  it("should use the group matching the user agent", () => {
+    const rules = parseRobotsTxt(robots, "JoyCreate-Scraper/1.0");
+    expect(rules.disallow).toEqual(["/*.pdf$"]);
+    expect(rules.sitemaps).toEqual(["https://example.com/sitemap.xml"]);
+    expect(isAllowedByRobots(rules, "https://example.com/file.pdf")).toBe(
+      false,
+    );
+    expect(isAllowedByRobots(rules, "https://example.com/private")).toBe(true);
+  });
+
+  it("should fall back to the wildcard group and prefer the longest match", () => {
+    const rules = parseRobotsTxt(robots, "OtherBot");
+    expect(rules.crawlDelay).toBe(2);
+    expect(isAllowedByRobots(rules, "https://example.com/private/x")).toBe(
+      false,
+    );
+    expect(
+      isAllowedByRobots(rules, "https://example.com/private/public/x"),
+    ).toBe(true);
+    expect(isAllowedByRobots(rules, "https://example.com/")).toBe(true);
+  });
+
+  it("should treat a missing robots.txt as allow-all and an unavailable one as disallow-all", () => {
+    const page = "https://example.com/products/1";
+    const rulesFor = (response: { status: number; body: string } | null) =>
+      getRobotsRulesForResponse(response, "OtherBot");
+
+    expect(
+      isAllowedByRobots(rulesFor({ status: 200, body: robots }), page),
+    ).toBe(true);
+    expect(isAllowedByRobots(rulesFor({ status: 404, body: "" }), page)).toBe(
+      true,
+    );
+    expect(isAllowedByRobots(rulesFor({ status: 503, body: "" }), page)).toBe(
+      false,
+    );
+    expect(isAllowedByRobots(rulesFor(null), "https://example.com/")).toBe(
+      false,
+    );
+  });
+});
+
+describe("passesUrlFilters", () => {
+  it("should apply exclude before include", () => {
+    const filters = { include: ["/products/*"], exclude: ["?sort="] };
+    expect(passesUrlFilters("https://x.com/products/1", filters)).toBe(true);
+    expect(passesUrlFilters("https://x.com/products/1?sort=asc", filters)).toBe(
+      false,
+    );
+    expect(passesUrlFilters("https://x.com/blog", filters)).toBe(false);
+    expect(passesUrlFilters("https://x.com/blog", undefined)).toBe(true);
+  });
+});
+
+describe("CrawlFrontier", () => {
+  it("should queue each URL once in breadth-first order", () => {
+    const frontier = new CrawlFrontier();
+    expect(frontier.add("https://example.com/a", 0)).toBe(true);
+    expect(frontier.add("https://example.com/a#section", 1)).toBe(false);
+    frontier.add("https://example.com/b", 1);
+
+    expect(frontier.next()).toEqual({ url: "https://example.com/a", depth: 0 });
+    expect(frontier.add("https://example.com/a", 2)).toBe(false);
+    expect(frontier.size).toBe(1);
+  });
+
+  it("should resume from saved state without revisiting pages", () => {
+    const frontier = new CrawlFrontier();
+    frontier.add("https://example.com/a", 0);
+    frontier.add("https://example.com/b", 1);
+    frontier.next();
+
+    const resumed = new CrawlFrontier(
+      JSON.parse(JSON.stringify(frontier.toJSON())),
+    );
+    expect(resumed.add("https://example.com/a", 1)).toBe(false);
+    expect(resumed.next()).toEqual({ url: "https://example.com/b", depth: 1 });
+    expect(resumed.size).toBe(0);
+  });
+});
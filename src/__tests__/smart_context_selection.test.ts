@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildImportGraph,
+  extractPromptTerms,
+  selectSmartContextFiles,
+} from "@/lib/smart_context_selection";
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const files = [
+  {
+    path: "src/App.tsx",
+    content: `import Index from "./pages/Index";
+import Checkout from "@/pages/Checkout";
+export default function App() { return <Index />; }`,
+  },
+  {
+    path: "src/pages/Index.tsx",
+    content: "export default function Index() {}",
+  },
+  {
+    path: "src/pages/Checkout.tsx",
+    content: `import { CartSummary } from "../components/cart";
+import { formatPrice } from "@/utils/format";
+export default function Checkout() {}`,
+  },
+  {
+    path: "src/components/cart/index.tsx",
+    content: "export function CartSummary() { return null; }",
+  },
+  {
+    path: "src/utils/format.ts",
+    content: "export const formatPrice = (n: number) => n.toFixed(2);",
+  },
+  {
+    path: "src/components/Footer.tsx",
+    content: "export function Footer() { return 'footer text'; }",
+  },
+];
+
+describe("buildImportGraph", () => {
+  it("should resolve relative, aliased and index imports", () => {
+    const graph = buildImportGraph(files);
+    expect([...graph.get("src/App.tsx")!]).toEqual([
+      "src/pages/Index.tsx",
+      "src/pages/Checkout.tsx",
+    ]);
+    expect([...graph.get("src/pages/Checkout.tsx")!]).toEqual([
+      "src/components/cart/index.tsx",
+      "src/utils/format.ts",
+    ]);
+  });
+});
+
+describe("selectSmartContextFiles", () => {
+  it("should pick mentioned files and their imports, with reasons", () => {
+    const selection = selectSmartContextFiles(files, {
+      prompt: "Show the tax on the Checkout page",
+      budgetTokens: 10_000,
+      estimateTokens,
+    });
+    const reasons = Object.fromEntries(
+      selection.files.map((file) => [file.path, file.reason]),
+    );
+
+    expect(reasons["src/pages/Checkout.tsx"]).toBe("mentioned in the prompt");
+    expect(reasons["src/utils/format.ts"]).toBe(
+      "imported by src/pages/Checkout.tsx",
+    );
+    expect(reasons["src/App.tsx"]).toBe("imports src/pages/Checkout.tsx");
+    expect(reasons["src/components/Footer.tsx"]).toBeUndefined();
+    expect(selection.files[0].path).toBe("src/pages/Checkout.tsx");
+  });
+
+  it("should use embedding similarity when it's available", () => {
+    const selection = selectSmartContextFiles(files, {
+      prompt: "Change the bottom of every page",
+      budgetTokens: 10_000,
+      estimateTokens,
+      similarities: new Map([["src/components/Footer.tsx", 0.82]]),
+    });
+    expect(selection.files[0]).toMatchObject({
+      path: "src/components/Footer.tsx",
+      reason: "similar to the prompt (0.82)",
+    });
+  });
+
+  it("should stay within the budget but always keep pinned files", () => {
+    const pinned = files.map((file) =>
+      file.path === "src/components/Footer.tsx"
+        ? { ...file, focused: true }
+        : file,
+    );
+    const selection = selectSmartContextFiles(pinned, {
+      prompt: "Checkout formatPrice CartSummary",
+      budgetTokens: 30,
+      estimateTokens,
+    });
+    expect(selection.files[0]).toMatchObject({
+      path: "src/components/Footer.tsx",
+      reason: "selected component",
+    });
+    expect(selection.usedTokens).toBeLessThanOrEqual(
+      30 + estimateTokens(files[5].content),
+    );
+    expect(selection.skippedForBudget.length).toBeGreaterThan(0);
+  });
+
+  it("should split camelCase and drop filler words from the prompt", () => {
+    expect(extractPromptTerms("Please fix the CheckoutButton color")).toEqual([
+      "checkout",
+      "button",
+      "color",
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildTestCommand,
+  detectTestRunner,
+  formatTestReport,
+  parseTestReport,
+} from "@/lib/test_report";
+
+const ROOT = "/app";
+
+describe("detectTestRunner", () => {
+  it("should prefer installed packages over the test script", () => {
+    expect(
+      detectTestRunner({
+        scripts: { test: "jest" },
+        devDependencies: { vitest: "^3.0.0" },
+      }),
+    ).toBe("vitest");
+    expect(detectTestRunner({ scripts: { test: "jest --coverage" } })).toBe(
+      "jest",
+    );
+    expect(detectTestRunner({ scripts: { test: "node test.js" } })).toBeNull();
+  });
+
+  it("should build a one-off run with a JSON report", () => {
+    expect(
+      buildTestCommand("vitest", {
+        outputFile: "/tmp/report.json",
+        files: ["src/cart.test.ts"],
+        testNamePattern: "adds tax",
+      }),
+    ).toBe(
+      "npx vitest run --reporter=json --outputFile=/tmp/report.json src/cart.test.ts -t 'adds tax'",
+    );
+    expect(buildTestCommand("jest", { outputFile: "/tmp/report.json" })).toBe(
+      "npx jest --json --outputFile=/tmp/report.json",
+    );
+  });
+});
+
+describe("parseTestReport", () => {
+  const report = JSON.stringify({
+    numTotalTests: 3,
+    numPassedTests: 1,
+    numFailedTests: 1,
+    numPendingTests: 1,
+    testResults: [
+      {
+        name: "/app/src/cart.test.ts",
+        status: "failed",
+        message: "",
+        assertionResults: [
+          { title: "sums", status: "passed", failureMessages: [] },
+          {
+            ancestorTitles: ["cart"],
+            title: "adds tax",
+            fullName: "cart adds tax",
+            status: "failed",
+            failureMessages: [
+              "\u001b[31mAssertionError: expected 10 to be 12\u001b[39m\n    at /app/src/cart.test.ts:14:21\n    at /app/node_modules/vitest/dist/runner.js:1:1",
+            ],
+          },
+          { title: "skipped", status: "pending", failureMessages: [] },
+        ],
+      },
+      {
+        name: "/app/src/broken.test.ts",
+        status: "failed",
+        message: "Failed to resolve import ./missing",
+        assertionResults: [],
+      },
+    ],
+  });
+
+  it("should list failing tests with their location and clean message", () => {
+    const parsed = parseTestReport("vitest", report, ROOT);
+    expect(parsed).toMatchObject({ total: 3, failed: 1, skipped: 1 });
+    expect(parsed.failures).toEqual([
+      {
+        file: "src/cart.test.ts",
+        testName: "cart adds tax",
+        message:
+          "AssertionError: expected 10 to be 12\n    at /app/src/cart.test.ts:14:21",
+        line: 14,
+        column: 21,
+      },
+      {
+        file: "src/broken.test.ts",
+        testName: null,
+        message: "Failed to resolve import ./missing",
+      },
+    ]);
+  });
+
+  it("should format failures for the agent", () => {
+    const text = formatTestReport(parseTestReport("vitest", report, ROOT));
+    expect(text).toContain("vitest: 1 failed, 1 passed, 1 skipped (3 total)");
+    expect(text).toContain("FAIL cart adds tax (src/cart.test.ts:14:21)");
+    expect(text).toContain("FAIL src/broken.test.ts (test file failed to run)");
+  });
+});
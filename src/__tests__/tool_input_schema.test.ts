@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { validateToolInput } from "@/lib/tool_input_schema";
+import type { ToolInputSchema } from "@/types/agent_builder";
+
+const schema: ToolInputSchema = {
+  type: "object",
+  properties: {
+    city: { type: "string" },
+    units: { type: "string", enum: ["metric", "imperial"], default: "metric" },
+    days: { type: "number" },
+    tags: { type: "array", items: { type: "string" } },
+  },
+  required: ["city"],
+};
+
+describe("validateToolInput", () => {
+  it("should accept valid input and apply defaults", () => {
+    const result = validateToolInput(schema, { city: "Oslo", days: 3 });
+    expect(result.valid).toBe(true);
+    expect(result.value).toEqual({ city: "Oslo", days: 3, units: "metric" });
+  });
+
+  it("should report missing required parameters", () => {
+    const result = validateToolInput(schema, {});
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(['Missing required parameter "city"']);
+  });
+
+  it("should report type, enum and array item errors", () => {
+    const result = validateToolInput(schema, {
+      city: 1,
+      units: "kelvin",
+      tags: ["a", 2],
+    });
+    expect(result.errors).toEqual([
+      '"city" must be of type string, got number',
+      '"units" must be one of: metric, imperial',
+      '"tags[1]" must be of type string, got number',
+    ]);
+  });
+
+  it("should reject non-object input", () => {
+    expect(validateToolInput(undefined, [1]).valid).toBe(false);
+    expect(validateToolInput(undefined, { any: true }).valid).toBe(true);
+  });
+});
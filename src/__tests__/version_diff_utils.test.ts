@@ -0,0 +1,141 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import git from "isomorphic-git";
+import {
+  buildVersionDiffFile,
+  getProposalDiff,
+  getVersionDiff,
+} from "@/ipc/utils/version_diff_utils";
+
+// Run git_utils through isomorphic-git, which needs no git binary
+vi.mock("@/main/settings", () => ({
+  readSettings: () => ({ enableNativeGit: false }),
+}));
+
+vi.mock("@/ipc/utils/git_author", () => ({
+  getGitAuthor: async () => ({ name: "[dyad]", email: "git@dyad.sh" }),
+}));
+
+vi.mock("electron-log", () => ({
+  default: {
+    scope: () => ({
+      log: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+  },
+}));
+
+const author = { name: "test", email: "test@example.com" };
+let dir: string;
+
+async function commit(
+  files: Record<string, string | null>,
+  message: string,
+): Promise<string> {
+  for (const [filepath, content] of Object.entries(files)) {
+    const fullPath = path.join(dir, filepath);
+    if (content === null) {
+      fs.unlinkSync(fullPath);
+      await git.remove({ fs, dir, filepath });
+    } else {
+      fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+      fs.writeFileSync(fullPath, content);
+      await git.add({ fs, dir, filepath });
+    }
+  }
+  return git.commit({ fs, dir, message, author });
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "version-diff-"));
+  return git.init({ fs, dir, defaultBranch: "main" });
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("getVersionDiff", () => {
+  it("should list added, modified and deleted files with their hunks", async () => {
+    const first = await commit(
+      {
+        "src/App.tsx": "a\nb\nc\n",
+        "src/old.ts": "old\n",
+        "README.md": "same\n",
+      },
+      "first",
+    );
+    await commit(
+      { "src/App.tsx": "a\nB\nc\n", "src/old.ts": null, "src/new.ts": "new\n" },
+      "second",
+    );
+
+    const files = await getVersionDiff({
+      appPath: dir,
+      fromCommit: first,
+      toCommit: "main",
+    });
+
+    expect(
+      files.map((f) => [f.path, f.status, f.additions, f.deletions]),
+    ).toEqual([
+      ["src/App.tsx", "modified", 1, 1],
+      ["src/new.ts", "added", 1, 0],
+      ["src/old.ts", "deleted", 0, 1],
+    ]);
+    expect(files[0].oldContent).toBe("a\nb\nc\n");
+    expect(files[0].hunks).toHaveLength(1);
+    expect(files[2].newContent).toBeNull();
+  });
+});
+
+describe("getProposalDiff", () => {
+  it("should apply the proposal's tags on top of HEAD", async () => {
+    await commit(
+      {
+        "src/App.tsx": "import a\nrender(a)\n",
+        "src/gone.ts": "bye\n",
+        "src/moved.ts": "moved\n",
+      },
+      "init",
+    );
+
+    const files = await getProposalDiff({
+      appPath: dir,
+      messageContent: [
+        '<dyad-delete path="src/gone.ts"></dyad-delete>',
+        '<dyad-rename from="src/moved.ts" to="src/lib/moved.ts"></dyad-rename>',
+        '<dyad-search-replace path="src/App.tsx">',
+        "<<<<<<< SEARCH",
+        "render(a)",
+        "=======",
+        "render(b)",
+        ">>>>>>> REPLACE",
+        "</dyad-search-replace>",
+        '<dyad-write path="src/new.ts">export {};</dyad-write>',
+      ].join("\n"),
+    });
+
+    expect(files.map((f) => [f.path, f.status])).toEqual([
+      ["src/App.tsx", "modified"],
+      ["src/gone.ts", "deleted"],
+      ["src/lib/moved.ts", "added"],
+      ["src/moved.ts", "deleted"],
+      ["src/new.ts", "added"],
+    ]);
+    expect(files[0].newContent).toBe("import a\nrender(b)\n");
+    expect(files[2].newContent).toBe("moved\n");
+  });
+});
+
+describe("buildVersionDiffFile", () => {
+  it("should not diff binary files", () => {
+    const file = buildVersionDiffFile("logo.png", "\0PNG", "\0PNG2");
+    expect(file).toMatchObject({ binary: true, oldContent: null, hunks: [] });
+  });
+});
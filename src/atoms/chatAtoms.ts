@@ -25,6 +25,7 @@ export interface PendingAgentConsent {
   toolName: string;
   toolDescription?: string | null;
   inputPreview?: string | null;
+  consentScope?: string | null;
 }
 
 export const pendingAgentConsentsAtom = atom<PendingAgentConsent[]>([]);
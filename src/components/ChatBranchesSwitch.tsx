@@ -0,0 +1,21 @@
+import { useSettings } from "@/hooks/useSettings";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+export function ChatBranchesSwitch() {
+  const { settings, updateSettings } = useSettings();
+  return (
+    <div className="flex items-center space-x-2">
+      <Switch
+        id="chat-branches"
+        checked={!!settings?.enableChatBranches}
+        onCheckedChange={() => {
+          updateSettings({
+            enableChatBranches: !settings?.enableChatBranches,
+          });
+        }}
+      />
+      <Label htmlFor="chat-branches">Run each chat on its own branch</Label>
+    </div>
+  );
+}
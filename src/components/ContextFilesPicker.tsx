@@ -113,7 +113,8 @@ export function ContextFilesPicker() {
   };
 
   const isSmartContextEnabled =
-    settings?.enableDyadPro && settings?.enableProSmartFilesContextMode;
+    (settings?.enableDyadPro && settings?.enableProSmartFilesContextMode) ||
+    settings?.enableLocalSmartContext;
 
   return (
     <Popover open={isOpen} onOpenChange={setIsOpen}>
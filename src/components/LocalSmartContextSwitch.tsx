@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react";
+import { useSettings } from "@/hooks/useSettings";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+
+export function LocalSmartContextSwitch() {
+  const { settings, updateSettings } = useSettings();
+  const [embeddingModel, setEmbeddingModel] = useState("");
+
+  useEffect(() => {
+    setEmbeddingModel(settings?.localSmartContextEmbeddingModel ?? "");
+  }, [settings?.localSmartContextEmbeddingModel]);
+
+  const saveEmbeddingModel = () => {
+    const value = embeddingModel.trim();
+    if (value !== (settings?.localSmartContextEmbeddingModel ?? "")) {
+      updateSettings({ localSmartContextEmbeddingModel: value || undefined });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="local-smart-context"
+          checked={!!settings?.enableLocalSmartContext}
+          onCheckedChange={() => {
+            updateSettings({
+              enableLocalSmartContext: !settings?.enableLocalSmartContext,
+            });
+          }}
+        />
+        <Label htmlFor="local-smart-context">Local Smart Context</Label>
+      </div>
+      <div className="text-sm text-gray-500 dark:text-gray-400">
+        Send only the files relevant to each prompt, picked from what it
+        mentions and the app's imports. Used when Pro Smart Context is off.
+      </div>
+      {settings?.enableLocalSmartContext && (
+        <div className="space-y-1 pt-1">
+          <Label htmlFor="local-smart-context-embedding-model">
+            Ollama embedding model (optional)
+          </Label>
+          <Input
+            id="local-smart-context-embedding-model"
+            placeholder="e.g. nomic-embed-text"
+            value={embeddingModel}
+            onChange={(e) => setEmbeddingModel(e.target.value)}
+            onBlur={saveEmbeddingModel}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") saveEmbeddingModel();
+            }}
+            className="max-w-xs"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
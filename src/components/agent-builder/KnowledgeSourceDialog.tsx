@@ -0,0 +1,230 @@
+/**
+ * Knowledge Source Dialog
+ * Adds a knowledge base source to an agent and starts indexing it
+ */
+
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Plus } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { agentBuilderClient } from "@/ipc/agent_builder_client";
+import { showError, showSuccess } from "@/lib/toast";
+
+import type {
+  KnowledgeBaseConfig,
+  KnowledgeSourceType,
+} from "@/types/agent_builder";
+
+const SOURCE_TYPES: {
+  value: KnowledgeSourceType;
+  label: string;
+  placeholder: string;
+}[] = [
+  {
+    value: "files",
+    label: "Files & folders",
+    placeholder: "/path/to/docs\n/path/to/handbook.md",
+  },
+  {
+    value: "urls",
+    label: "Web pages",
+    placeholder: "https://example.com/docs",
+  },
+  {
+    value: "github",
+    label: "GitHub repository",
+    placeholder: "owner/repo",
+  },
+  {
+    value: "api",
+    label: "API endpoint",
+    placeholder: "https://api.example.com/articles",
+  },
+];
+
+export interface KnowledgeSourceDialogProps {
+  agentId: number;
+}
+
+export function KnowledgeSourceDialog({ agentId }: KnowledgeSourceDialogProps) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [sourceType, setSourceType] = useState<KnowledgeSourceType>("files");
+  const [sources, setSources] = useState("");
+  const [crawlDepth, setCrawlDepth] = useState(0);
+
+  const entries = sources
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      agentBuilderClient.createKnowledgeBase(
+        agentId,
+        name.trim(),
+        sourceType,
+        buildSourceConfig(sourceType, entries, crawlDepth) as Record<
+          string,
+          unknown
+        >,
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["agent-knowledge-bases", String(agentId)],
+      });
+      setOpen(false);
+      setName("");
+      setSources("");
+      showSuccess("Knowledge source added, indexing started");
+    },
+    onError: (error) => {
+      showError(`Failed to add knowledge source: ${error.message}`);
+    },
+  });
+
+  const placeholder = SOURCE_TYPES.find(
+    (t) => t.value === sourceType,
+  )?.placeholder;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Source
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Knowledge Source</DialogTitle>
+          <DialogDescription>
+            Sources are chunked and embedded with a local Ollama model
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="kb-name">Name</Label>
+            <Input
+              id="kb-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Product docs"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Source type</Label>
+            <Select
+              value={sourceType}
+              onValueChange={(value) =>
+                setSourceType(value as KnowledgeSourceType)
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SOURCE_TYPES.map((type) => (
+                  <SelectItem key={type.value} value={type.value}>
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="kb-sources">
+              {sourceType === "github" || sourceType === "api"
+                ? "Source"
+                : "Sources (one per line)"}
+            </Label>
+            <Textarea
+              id="kb-sources"
+              value={sources}
+              onChange={(e) => setSources(e.target.value)}
+              placeholder={placeholder}
+              rows={4}
+            />
+          </div>
+          {sourceType === "urls" && (
+            <div className="space-y-2">
+              <Label htmlFor="kb-depth">Crawl depth</Label>
+              <Input
+                id="kb-depth"
+                type="number"
+                min={0}
+                max={3}
+                value={crawlDepth}
+                onChange={(e) => setCrawlDepth(Number(e.target.value))}
+              />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={
+              !name.trim() || entries.length === 0 || createMutation.isPending
+            }
+          >
+            {createMutation.isPending && (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            )}
+            Add & Index
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function buildSourceConfig(
+  sourceType: KnowledgeSourceType,
+  entries: string[],
+  crawlDepth: number,
+): KnowledgeBaseConfig {
+  switch (sourceType) {
+    case "files":
+      return {
+        files: entries.map((filePath) => ({
+          path: filePath,
+          name: filePath.split(/[\\/]/).pop() ?? filePath,
+          type: "path",
+          size: 0,
+          indexed: false,
+        })),
+      };
+    case "urls":
+      return { urls: entries, crawlDepth };
+    case "github":
+      return { githubRepo: entries[0] };
+    case "api":
+      return { apiEndpoint: entries[0] };
+    default:
+      return {};
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Tool Approval Dialog
+ * Asks the user to approve agent tools marked as requiring approval
+ */
+
+import { useEffect, useState } from "react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { agentBuilderClient } from "@/ipc/agent_builder_client";
+
+import type { AgentToolApprovalRequest } from "@/types/agent_builder";
+
+export interface ToolApprovalDialogProps {
+  agentId: number;
+}
+
+export function ToolApprovalDialog({ agentId }: ToolApprovalDialogProps) {
+  const [queue, setQueue] = useState<AgentToolApprovalRequest[]>([]);
+
+  useEffect(() => {
+    return agentBuilderClient.onToolApprovalRequest((request) => {
+      if (request.agentId !== agentId) return;
+      setQueue((current) => [...current, request]);
+    });
+  }, [agentId]);
+
+  const current = queue[0];
+
+  const respond = (approved: boolean) => {
+    if (!current) return;
+    void agentBuilderClient.respondToToolApproval(current.requestId, approved);
+    setQueue((pending) => pending.slice(1));
+  };
+
+  return (
+    <AlertDialog
+      open={!!current}
+      onOpenChange={(open) => {
+        if (!open) respond(false);
+      }}
+    >
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Run tool "{current?.toolName}"?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {current?.toolDescription}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <pre className="max-h-64 overflow-auto rounded bg-muted p-2 text-xs">
+          {JSON.stringify(current?.input, null, 2)}
+        </pre>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => respond(false)}>
+            Decline
+          </AlertDialogCancel>
+          <AlertDialogAction onClick={() => respond(true)}>
+            Run
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
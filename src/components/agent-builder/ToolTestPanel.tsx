@@ -0,0 +1,103 @@
+/**
+ * Tool Test Panel
+ * Runs an agent tool in the sandbox with sample input
+ */
+
+import { useState } from "react";
+import { Loader2, Play } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { agentBuilderClient } from "@/ipc/agent_builder_client";
+import { showError } from "@/lib/toast";
+
+import type { AgentTool, ToolExecutionResult } from "@/types/agent_builder";
+
+export interface ToolTestPanelProps {
+  tool: AgentTool;
+}
+
+export function ToolTestPanel({ tool }: ToolTestPanelProps) {
+  const [inputJson, setInputJson] = useState(() =>
+    JSON.stringify(getSampleInput(tool), null, 2),
+  );
+  const [result, setResult] = useState<ToolExecutionResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleRun = async () => {
+    let input: Record<string, unknown>;
+    try {
+      input = JSON.parse(inputJson);
+    } catch {
+      setResult({ success: false, error: "Input is not valid JSON" });
+      return;
+    }
+
+    setIsRunning(true);
+    try {
+      setResult(
+        await agentBuilderClient.executeAgentTool({ toolId: tool.id, input }),
+      );
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={inputJson}
+        onChange={(e) => setInputJson(e.target.value)}
+        className="font-mono text-xs"
+        rows={4}
+      />
+      <Button size="sm" onClick={handleRun} disabled={isRunning}>
+        {isRunning ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <Play className="h-4 w-4 mr-2" />
+        )}
+        Run
+      </Button>
+
+      {result && (
+        <div className="space-y-1 text-sm">
+          {result.success ? (
+            <pre className="max-h-48 overflow-auto rounded bg-muted p-2 text-xs whitespace-pre-wrap">
+              {JSON.stringify(result.output, null, 2) ?? "undefined"}
+            </pre>
+          ) : (
+            <p className="text-destructive">{result.error}</p>
+          )}
+          {result.logs && result.logs.length > 0 && (
+            <pre className="max-h-32 overflow-auto rounded bg-muted p-2 text-xs text-muted-foreground">
+              {result.logs.join("\n")}
+            </pre>
+          )}
+          {result.executionTimeMs !== undefined && (
+            <p className="text-xs text-muted-foreground">
+              {result.executionTimeMs} ms
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function getSampleInput(tool: AgentTool): Record<string, unknown> {
+  const sample: Record<string, unknown> = {};
+  for (const [name, parameter] of Object.entries(
+    tool.inputSchema?.properties ?? {},
+  )) {
+    sample[name] =
+      parameter.default ??
+      parameter.enum?.[0] ??
+      { string: "", number: 0, boolean: false, array: [], object: {} }[
+        parameter.type
+      ];
+  }
+  return sample;
+}
@@ -0,0 +1,175 @@
+/**
+ * Workflow Run Panel
+ * Runs an agent workflow and streams its execution steps
+ */
+
+import { useEffect, useState } from "react";
+import {
+  CheckCircle2,
+  Circle,
+  Hand,
+  Loader2,
+  Play,
+  Square,
+  XCircle,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { agentBuilderClient } from "@/ipc/agent_builder_client";
+import { showError } from "@/lib/toast";
+
+import type {
+  AgentWorkflow,
+  WorkflowExecution,
+  WorkflowExecutionStep,
+} from "@/types/agent_builder";
+
+export interface WorkflowRunPanelProps {
+  workflow: AgentWorkflow;
+}
+
+export function WorkflowRunPanel({ workflow }: WorkflowRunPanelProps) {
+  const [execution, setExecution] = useState<WorkflowExecution | null>(null);
+  const [humanInput, setHumanInput] = useState("");
+  const [isStarting, setIsStarting] = useState(false);
+
+  useEffect(() => {
+    return agentBuilderClient.onWorkflowEvent((event) => {
+      if (event.workflowId !== workflow.id) return;
+      setExecution((current) =>
+        !current || current.id === event.executionId
+          ? event.execution
+          : current,
+      );
+    });
+  }, [workflow.id]);
+
+  const isActive =
+    execution?.status === "running" || execution?.status === "paused";
+  const pendingStep = execution?.history.find((s) => s.status === "pending");
+
+  const handleRun = async () => {
+    setIsStarting(true);
+    try {
+      setExecution(
+        await agentBuilderClient.runAgentWorkflow({ workflowId: workflow.id }),
+      );
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleResume = async () => {
+    if (!execution) return;
+    try {
+      await agentBuilderClient.resumeAgentWorkflow({
+        executionId: execution.id,
+        input: humanInput,
+      });
+      setHumanInput("");
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!execution) return;
+    try {
+      await agentBuilderClient.cancelAgentWorkflow(execution.id);
+      if (execution.status === "paused") {
+        setExecution({ ...execution, status: "cancelled" });
+      }
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Button size="sm" onClick={handleRun} disabled={isStarting || isActive}>
+          {isStarting ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Play className="h-4 w-4 mr-2" />
+          )}
+          Run
+        </Button>
+        {isActive && (
+          <Button size="sm" variant="outline" onClick={handleCancel}>
+            <Square className="h-4 w-4 mr-2" />
+            Cancel
+          </Button>
+        )}
+        {execution && <Badge variant="secondary">{execution.status}</Badge>}
+      </div>
+
+      {execution && execution.history.length > 0 && (
+        <div className="space-y-1 text-sm">
+          {execution.history.map((step, index) => (
+            <WorkflowStepRow key={`${step.nodeId}-${index}`} step={step} />
+          ))}
+        </div>
+      )}
+
+      {execution?.status === "paused" && pendingStep && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            {(pendingStep.input as { message?: string })?.message ??
+              `${pendingStep.nodeName} is waiting for input`}
+          </p>
+          <Textarea
+            value={humanInput}
+            onChange={(e) => setHumanInput(e.target.value)}
+            rows={3}
+          />
+          <Button size="sm" onClick={handleResume}>
+            Continue
+          </Button>
+        </div>
+      )}
+
+      {execution?.error && (
+        <p className="text-sm text-destructive">{execution.error}</p>
+      )}
+    </div>
+  );
+}
+
+function WorkflowStepRow({ step }: { step: WorkflowExecutionStep }) {
+  const icon = {
+    pending: <Hand className="h-4 w-4 text-amber-500" />,
+    running: <Loader2 className="h-4 w-4 animate-spin" />,
+    completed: <CheckCircle2 className="h-4 w-4 text-green-500" />,
+    failed: <XCircle className="h-4 w-4 text-destructive" />,
+    skipped: <Circle className="h-4 w-4 text-muted-foreground" />,
+  }[step.status];
+
+  return (
+    <div className="flex items-start gap-2">
+      <span className="mt-0.5">{icon}</span>
+      <div className="min-w-0 flex-1">
+        <div className="font-medium">
+          {step.nodeName}
+          {step.iteration !== undefined && (
+            <span className="ml-2 text-xs text-muted-foreground">
+              iteration {step.iteration + 1}
+            </span>
+          )}
+        </div>
+        {step.output !== undefined && step.status === "completed" && (
+          <pre className="mt-1 max-h-32 overflow-auto rounded bg-muted p-2 text-xs whitespace-pre-wrap">
+            {typeof step.output === "string"
+              ? step.output
+              : JSON.stringify(step.output, null, 2)}
+          </pre>
+        )}
+        {step.error && <p className="text-xs text-destructive">{step.error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -23,7 +23,7 @@ export function AgentConsentBanner({
   onClose,
   queueTotal = 1,
 }: AgentConsentBannerProps) {
-  const { toolName, toolDescription, inputPreview } = consent;
+  const { toolName, toolDescription, inputPreview, consentScope } = consent;
 
   // Collapsible input preview state
   const [isInputExpanded, setIsInputExpanded] = React.useState(false);
@@ -118,9 +118,10 @@ export function AgentConsentBanner({
             size="sm"
             variant="outline"
             className="h-7 px-3 text-xs"
+            title={consentScope ? `Always allow: ${consentScope}` : undefined}
           >
             <ShieldCheck className="w-3.5 h-3.5 mr-1" />
-            Always allow
+            {consentScope ? "Always allow this" : "Always allow"}
           </Button>
           <Button
             onClick={() => onDecision("accept-once")}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { GitBranch, GitMerge } from "lucide-react";
+import {
+  MiniSelectTrigger,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { useChatBranches } from "@/hooks/useChatBranches";
+import { useLoadApp } from "@/hooks/useLoadApp";
+import { showInfo, showSuccess } from "@/lib/toast";
+import { chatBranchName, MAIN_BRANCH } from "@/lib/chat_branches";
+import type { ChatBranch, MergeConflictFile } from "@/ipc/ipc_types";
+import { MergeConflictDialog } from "./MergeConflictDialog";
+
+interface ChatBranchBarProps {
+  appId: number;
+  chatId: number | null;
+  isStreaming: boolean;
+}
+
+function branchLabel(branch: ChatBranch) {
+  return branch.chatTitle || `Chat #${branch.chatId}`;
+}
+
+export function ChatBranchBar({
+  appId,
+  chatId,
+  isStreaming,
+}: ChatBranchBarProps) {
+  const {
+    currentBranch,
+    chatBranches,
+    checkoutBranch,
+    isCheckingOutBranch,
+    mergeChatBranch,
+    isMergingChatBranch,
+    refetchChatBranches,
+  } = useChatBranches(appId);
+  const { refreshApp } = useLoadApp(appId);
+  const [conflicts, setConflicts] = useState<MergeConflictFile[]>([]);
+
+  // Sending a message can create and check out the chat's branch
+  useEffect(() => {
+    refetchChatBranches();
+  }, [chatId, isStreaming, refetchChatBranches]);
+
+  const chatBranch = chatBranches.find((branch) => branch.chatId === chatId);
+  const chatLabel = chatBranch ? branchLabel(chatBranch) : "This chat";
+  const isBusy = isStreaming || isCheckingOutBranch || isMergingChatBranch;
+
+  const handleSwitch = async (branch: string) => {
+    await checkoutBranch(branch);
+    await refreshApp();
+  };
+
+  const handleMerge = async () => {
+    if (chatId === null) return;
+    const result = await mergeChatBranch(chatId);
+    if (result.status === "conflicts") {
+      setConflicts(result.conflicts);
+      return;
+    }
+    await refreshApp();
+    if (result.status === "up-to-date") {
+      showInfo("Main already has all of this chat's changes");
+    } else {
+      showSuccess(`Merged ${chatLabel} into main`);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1.5 px-2">
+      <GitBranch size={14} className="text-muted-foreground" />
+      <Select
+        value={currentBranch ?? undefined}
+        onValueChange={handleSwitch}
+        disabled={isBusy}
+      >
+        <MiniSelectTrigger
+          data-testid="chat-branch-selector"
+          className="h-6 w-fit max-w-48 px-1.5 py-0 text-xs-sm shadow-none gap-0.5"
+          size="sm"
+        >
+          <SelectValue placeholder="Detached version" />
+        </MiniSelectTrigger>
+        <SelectContent align="start">
+          <SelectItem value={MAIN_BRANCH}>main</SelectItem>
+          {chatBranches.map((branch) => (
+            <SelectItem key={branch.name} value={branch.name}>
+              <span className="truncate">{branchLabel(branch)}</span>
+              {branch.merged && (
+                <span className="text-xs text-muted-foreground">merged</span>
+              )}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {chatBranch && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-1.5 text-xs gap-1"
+          onClick={handleMerge}
+          disabled={isBusy || chatBranch.merged}
+          title={
+            chatBranch.merged
+              ? "Main already has all of this chat's changes"
+              : `Merge ${chatBranchName(chatBranch.chatId)} into main`
+          }
+        >
+          <GitMerge size={14} />
+          {isMergingChatBranch ? "Merging..." : "Merge into main"}
+        </Button>
+      )}
+      <MergeConflictDialog
+        chatLabel={chatLabel}
+        conflicts={conflicts}
+        isOpen={conflicts.length > 0}
+        onOpenChange={(open) => {
+          if (!open) setConflicts([]);
+        }}
+      />
+    </div>
+  );
+}
@@ -28,6 +28,9 @@ import { useCheckoutVersion } from "@/hooks/useCheckoutVersion";
 import { useRenameBranch } from "@/hooks/useRenameBranch";
 import { isAnyCheckoutVersionInProgressAtom } from "@/store/appAtoms";
 import { LoadingBar } from "../ui/LoadingBar";
+import { useSettings } from "@/hooks/useSettings";
+import { isChatBranch } from "@/lib/chat_branches";
+import { ChatBranchBar } from "./ChatBranchBar";
 
 interface ChatHeaderProps {
   isVersionPaneOpen: boolean;
@@ -60,6 +63,8 @@ export function ChatHeader({
 
   const { checkoutVersion, isCheckingOutVersion } = useCheckoutVersion();
   const { renameBranch, isRenamingBranch } = useRenameBranch();
+  const { settings } = useSettings();
+  const chatBranchesEnabled = !!settings?.enableChatBranches;
 
   useEffect(() => {
     if (appId) {
@@ -101,7 +106,11 @@ export function ChatHeader({
   // REMINDER: KEEP UP TO DATE WITH app_handlers.ts
   const versionPostfix = versions.length === 100_000 ? `+` : "";
 
-  const isNotMainBranch = branchInfo && branchInfo.branch !== "main";
+  // Chat branches are expected when each chat runs on its own branch
+  const isNotMainBranch =
+    branchInfo &&
+    branchInfo.branch !== "main" &&
+    !(chatBranchesEnabled && isChatBranch(branchInfo.branch));
 
   const currentBranchName = branchInfo?.branch;
 
@@ -199,6 +208,13 @@ export function ChatHeader({
               ? "..."
               : `Version ${versions.length}${versionPostfix}`}
           </Button>
+          {chatBranchesEnabled && appId && (
+            <ChatBranchBar
+              appId={appId}
+              chatId={selectedChatId}
+              isStreaming={isStreaming}
+            />
+          )}
         </div>
 
         <button
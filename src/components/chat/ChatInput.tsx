@@ -17,6 +17,7 @@ import {
   ChartColumnIncreasing,
   SendHorizontalIcon,
   Lock,
+  GitCompare,
 } from "lucide-react";
 import type React from "react";
 import { useCallback, useEffect, useState } from "react";
@@ -58,6 +59,8 @@ import {
 import { useVersions } from "@/hooks/useVersions";
 import { useAttachments } from "@/hooks/useAttachments";
 import { AttachmentsList } from "./AttachmentsList";
+import { VersionDiffDialog } from "./VersionDiffDialog";
+import type { VersionDiffTarget } from "@/hooks/useVersionDiff";
 import { DragDropOverlay } from "./DragDropOverlay";
 import { FileAttachmentDropdown } from "./FileAttachmentDropdown";
 import { showExtraFilesToast } from "@/lib/toast";
@@ -94,6 +97,8 @@ export function ChatInput({ chatId }: { chatId?: number }) {
   const [showError, setShowError] = useState(true);
   const [isApproving, setIsApproving] = useState(false); // State for approving
   const [isRejecting, setIsRejecting] = useState(false); // State for rejecting
+  const [proposalDiffTarget, setProposalDiffTarget] =
+    useState<VersionDiffTarget | null>(null);
   const messagesById = useAtomValue(chatMessagesByIdAtom);
   const setMessagesById = useSetAtom(chatMessagesByIdAtom);
   const setIsPreviewOpen = useSetAtom(isPreviewOpenAtom);
@@ -361,6 +366,16 @@ export function ChatInput({ chatId }: { chatId?: number }) {
                 proposal={proposal}
                 onApprove={handleApprove}
                 onReject={handleReject}
+                onViewDiff={
+                  chatId && messageId
+                    ? () =>
+                        setProposalDiffTarget({
+                          type: "proposal",
+                          chatId,
+                          messageId,
+                        })
+                    : undefined
+                }
                 isApprovable={
                   !isProposalLoading &&
                   !!proposal &&
@@ -373,6 +388,16 @@ export function ChatInput({ chatId }: { chatId?: number }) {
                 isRejecting={isRejecting}
               />
             )}
+          {appId && proposalDiffTarget && (
+            <VersionDiffDialog
+              appId={appId}
+              isOpen
+              onOpenChange={(open) => {
+                if (!open) setProposalDiffTarget(null);
+              }}
+              initialTarget={proposalDiffTarget}
+            />
+          )}
 
           {userBudget ? (
             <VisualEditingChangesDialog
@@ -719,6 +744,7 @@ interface ChatInputActionsProps {
   proposal: Proposal;
   onApprove: () => void;
   onReject: () => void;
+  onViewDiff?: () => void;
   isApprovable: boolean; // Can be used to enable/disable buttons
   isApproving: boolean; // State for approving
   isRejecting: boolean; // State for rejecting
@@ -729,6 +755,7 @@ function ChatInputActions({
   proposal,
   onApprove,
   onReject,
+  onViewDiff,
   isApprovable,
   isApproving,
   isRejecting,
@@ -828,6 +855,17 @@ function ChatInputActions({
             )}
             Reject
           </Button>
+          {onViewDiff && proposal.filesChanged.length > 0 && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={onViewDiff}
+              data-testid="view-proposal-diff-button"
+            >
+              <GitCompare size={16} className="mr-1" />
+              View diff
+            </Button>
+          )}
           <div className="flex items-center space-x-1 ml-auto">
             <AutoApproveSwitch />
           </div>
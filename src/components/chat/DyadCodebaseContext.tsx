@@ -13,12 +13,26 @@ interface DyadCodebaseContextProps {
 }
 
 export const DyadCodebaseContext: React.FC<DyadCodebaseContextProps> = ({
+  children,
   node,
 }) => {
   const state = node?.properties?.state as CustomTagState;
   const inProgress = state === "pending";
   const [isExpanded, setIsExpanded] = useState(inProgress);
   const files = node?.properties?.files?.split(",") || [];
+  // Local smart context lists why each file was picked as "path: reason" lines
+  const reasons = new Map<string, string>();
+  if (typeof children === "string") {
+    for (const line of children.split("\n")) {
+      const separator = line.indexOf(": ");
+      if (separator > 0) {
+        reasons.set(
+          line.slice(0, separator).trim(),
+          line.slice(separator + 2).trim(),
+        );
+      }
+    }
+  }
 
   // Collapse when transitioning from in-progress to not-in-progress
   useEffect(() => {
@@ -105,6 +119,11 @@ export const DyadCodebaseContext: React.FC<DyadCodebaseContextProps> = ({
                         {pathPart}
                       </div>
                     )}
+                    {reasons.get(filePath) && (
+                      <div className="text-xs italic text-gray-500 dark:text-gray-400 ml-5">
+                        {reasons.get(filePath)}
+                      </div>
+                    )}
                   </div>
                 );
               })}
@@ -25,6 +25,8 @@ import { DyadWebSearch } from "./DyadWebSearch";
 import { DyadWebCrawl } from "./DyadWebCrawl";
 import { DyadCodeSearchResult } from "./DyadCodeSearchResult";
 import { DyadCodeSearch } from "./DyadCodeSearch";
+import { DyadRunCommandResult } from "./DyadRunCommandResult";
+import { DyadRunCommand } from "./DyadRunCommand";
 import { DyadRead } from "./DyadRead";
 import { DyadListFiles } from "./DyadListFiles";
 import { DyadDatabaseSchema } from "./DyadDatabaseSchema";
@@ -50,6 +52,8 @@ const DYAD_CUSTOM_TAGS = [
   "dyad-web-crawl",
   "dyad-code-search-result",
   "dyad-code-search",
+  "dyad-run-command-result",
+  "dyad-run-command",
   "dyad-read",
   "think",
   "dyad-command",
@@ -377,6 +381,28 @@ function renderCustomTag(
           {content}
         </DyadCodeSearchResult>
       );
+    case "dyad-run-command":
+      return (
+        <DyadRunCommand
+          node={{
+            properties: {},
+          }}
+        >
+          {content}
+        </DyadRunCommand>
+      );
+    case "dyad-run-command-result":
+      return (
+        <DyadRunCommandResult
+          node={{
+            properties: {},
+          }}
+          command={attributes.command}
+          status={attributes.status}
+        >
+          {content}
+        </DyadRunCommandResult>
+      );
     case "dyad-web-search-result":
       return (
         <DyadWebSearchResult
@@ -0,0 +1,32 @@
+import type React from "react";
+import type { ReactNode } from "react";
+import { SquareTerminal } from "lucide-react";
+import { unescapeXml } from "./DyadRunCommandResult";
+
+interface DyadRunCommandProps {
+  children?: ReactNode;
+  node?: any;
+  command?: string;
+}
+
+export const DyadRunCommand: React.FC<DyadRunCommandProps> = ({
+  children,
+  node: _node,
+  command: commandProp,
+}) => {
+  const command = unescapeXml(
+    commandProp || (typeof children === "string" ? children : ""),
+  );
+
+  return (
+    <div className="bg-(--background-lightest) rounded-lg px-4 py-2 border my-2">
+      <div className="flex items-center gap-2">
+        <SquareTerminal size={16} className="text-sky-600" />
+        <div className="text-xs text-sky-600 font-medium">Run Command</div>
+      </div>
+      <div className="text-sm font-mono text-gray-600 dark:text-gray-300 mt-2 break-all">
+        {command || children}
+      </div>
+    </div>
+  );
+};
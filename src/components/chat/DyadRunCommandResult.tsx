@@ -0,0 +1,90 @@
+import React, { useState } from "react";
+import {
+  ChevronDown,
+  ChevronUp,
+  CheckCircle2,
+  XCircle,
+  TimerOff,
+} from "lucide-react";
+
+interface DyadRunCommandResultProps {
+  node?: any;
+  command?: string;
+  status?: string;
+  children?: React.ReactNode;
+}
+
+export function unescapeXml(str: string): string {
+  return str
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&");
+}
+
+export const DyadRunCommandResult: React.FC<DyadRunCommandResultProps> = ({
+  command,
+  status,
+  children,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const output = typeof children === "string" ? unescapeXml(children) : "";
+
+  const { icon, label, color } =
+    status === "passed"
+      ? {
+          icon: <CheckCircle2 size={16} className="text-green-600" />,
+          label: "Passed",
+          color: "text-green-600",
+        }
+      : status === "timeout"
+        ? {
+            icon: <TimerOff size={16} className="text-amber-500" />,
+            label: "Timed out",
+            color: "text-amber-500",
+          }
+        : {
+            icon: <XCircle size={16} className="text-red-500" />,
+            label: "Failed",
+            color: "text-red-500",
+          };
+
+  return (
+    <div
+      className="relative bg-(--background-lightest) dark:bg-zinc-900 hover:bg-(--background-lighter) rounded-lg px-4 py-2 border border-border my-2 cursor-pointer"
+      onClick={() => setIsExpanded(!isExpanded)}
+      role="button"
+      aria-expanded={isExpanded}
+      tabIndex={0}
+      onKeyDown={(e) => {
+        if (e.key === "Enter" || e.key === " ") {
+          e.preventDefault();
+          setIsExpanded(!isExpanded);
+        }
+      }}
+    >
+      <div className="flex items-center gap-2 pr-6">
+        {icon}
+        <span className={`text-xs font-semibold ${color}`}>{label}</span>
+        {command && (
+          <span className="text-xs font-mono text-gray-600 dark:text-gray-300 truncate">
+            {unescapeXml(command)}
+          </span>
+        )}
+      </div>
+
+      <div className="absolute top-2 right-2 p-1 text-gray-500">
+        {isExpanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </div>
+
+      {isExpanded && output && (
+        <pre
+          className="mt-2 p-2 text-xs font-mono whitespace-pre-wrap max-h-80 overflow-y-auto rounded bg-muted/40 cursor-text"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {output}
+        </pre>
+      )}
+    </div>
+  );
+};
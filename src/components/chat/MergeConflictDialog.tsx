@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { MergeConflictFile } from "@/ipc/ipc_types";
+import { cn } from "@/lib/utils";
+
+interface MergeConflictDialogProps {
+  chatLabel: string;
+  conflicts: MergeConflictFile[];
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function FileVersion({
+  title,
+  content,
+}: {
+  title: string;
+  content: string | null;
+}) {
+  return (
+    <div className="flex min-w-0 flex-1 flex-col">
+      <div className="px-2 py-1 text-xs font-medium text-muted-foreground border-b border-border">
+        {title}
+      </div>
+      <pre className="flex-1 overflow-auto p-2 text-xs font-mono whitespace-pre">
+        {content ?? "(deleted)"}
+      </pre>
+    </div>
+  );
+}
+
+export function MergeConflictDialog({
+  chatLabel,
+  conflicts,
+  isOpen,
+  onOpenChange,
+}: MergeConflictDialogProps) {
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelectedPath(conflicts[0]?.path ?? null);
+  }, [conflicts]);
+
+  const selected = conflicts.find((file) => file.path === selectedPath);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Merge conflicts</DialogTitle>
+          <DialogDescription>
+            {chatLabel} and main both changed{" "}
+            {conflicts.length === 1 ? "this file" : "these files"}, so nothing
+            was merged. Ask the chat to reconcile its changes with main, or
+            revert them in main, then merge again.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex h-[60vh] gap-2 min-h-0">
+          <ul className="w-56 shrink-0 overflow-auto border border-border rounded-md">
+            {conflicts.map((file) => (
+              <li key={file.path}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedPath(file.path)}
+                  className={cn(
+                    "w-full truncate px-2 py-1.5 text-left text-xs font-mono hover:bg-(--background-lightest)",
+                    file.path === selectedPath && "bg-(--background-lightest)",
+                  )}
+                  title={file.path}
+                >
+                  {file.path}
+                </button>
+              </li>
+            ))}
+          </ul>
+          {selected && (
+            <div className="flex flex-1 min-w-0 border border-border rounded-md divide-x divide-border">
+              <FileVersion title="main" content={selected.main} />
+              <FileVersion title={chatLabel} content={selected.branch} />
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
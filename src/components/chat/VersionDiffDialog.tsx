@@ -0,0 +1,284 @@
+import { useEffect, useRef, useState } from "react";
+import { DiffEditor, type MonacoDiffEditor } from "@monaco-editor/react";
+import { Loader2, RotateCcw } from "lucide-react";
+import "@/components/chat/monaco";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { useTheme } from "@/contexts/ThemeContext";
+import { useVersions } from "@/hooks/useVersions";
+import { useVersionDiff, type VersionDiffTarget } from "@/hooks/useVersionDiff";
+import type { VersionDiffFile } from "@/ipc/ipc_types";
+import { formatHunkHeader, type DiffHunk } from "@/lib/line_diff";
+import { showSuccess } from "@/lib/toast";
+import { cn } from "@/lib/utils";
+import { getLanguage } from "@/utils/get_language";
+
+interface VersionDiffDialogProps {
+  appId: number;
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialTarget: VersionDiffTarget;
+  // Branch that "latest" refers to and that file reverts are committed on
+  branch?: string;
+}
+
+const STATUS_STYLES: Record<VersionDiffFile["status"], string> = {
+  added: "text-green-600 dark:text-green-400",
+  modified: "text-amber-600 dark:text-amber-400",
+  deleted: "text-red-600 dark:text-red-400",
+};
+
+function VersionSelect({
+  label,
+  value,
+  onChange,
+  options,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  options: { value: string; label: string }[];
+}) {
+  return (
+    <div className="flex items-center gap-2 min-w-0">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger size="sm" className="max-w-72 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              <span className="truncate text-xs">{option.label}</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export function VersionDiffDialog({
+  appId,
+  isOpen,
+  onOpenChange,
+  initialTarget,
+  branch = "main",
+}: VersionDiffDialogProps) {
+  const [target, setTarget] = useState<VersionDiffTarget>(initialTarget);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const diffEditorRef = useRef<MonacoDiffEditor | null>(null);
+  const { versions } = useVersions(appId);
+  const { files, isLoading, error, revertFile, isRevertingFile } =
+    useVersionDiff(appId, isOpen ? target : null);
+  const { theme } = useTheme();
+
+  useEffect(() => {
+    if (isOpen) setTarget(initialTarget);
+  }, [isOpen, initialTarget]);
+
+  // Keep the selection on the same file while the list reloads
+  useEffect(() => {
+    if (!files.some((file) => file.path === selectedPath)) {
+      setSelectedPath(files[0]?.path ?? null);
+    }
+  }, [files, selectedPath]);
+
+  const selected = files.find((file) => file.path === selectedPath);
+  const isDarkMode =
+    theme === "dark" ||
+    (theme === "system" &&
+      window.matchMedia("(prefers-color-scheme: dark)").matches);
+
+  const versionOptions = versions.map((version) => ({
+    value: version.oid,
+    label: `${version.oid.slice(0, 7)} ${version.message.split("\n")[0].slice(0, 60)}`,
+  }));
+  const latestOption = { value: branch, label: `Latest (${branch})` };
+
+  const revealHunk = (hunk: DiffHunk) => {
+    const editor = diffEditorRef.current;
+    if (!editor) return;
+    // Pure deletions only have lines on the original side
+    const [side, line] =
+      hunk.newLines > 0
+        ? [editor.getModifiedEditor(), hunk.newStart]
+        : [editor.getOriginalEditor(), Math.max(hunk.oldStart, 1)];
+    side.revealLineInCenter(line);
+    side.setPosition({ lineNumber: line, column: 1 });
+    side.focus();
+  };
+
+  const handleRevertFile = async (file: VersionDiffFile) => {
+    if (target.type !== "versions") return;
+    await revertFile({
+      filePath: file.path,
+      commitHash: target.fromCommit,
+      branch,
+    });
+    showSuccess(`Reverted ${file.path}`);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[90vw] h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>
+            {target.type === "versions"
+              ? "Compare versions"
+              : "Proposed changes"}
+          </DialogTitle>
+          <DialogDescription>
+            {target.type === "versions"
+              ? "Changes from the first version to the second."
+              : "What approving this proposal would change, compared to the current version."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {target.type === "versions" && (
+          <div className="flex flex-wrap items-center gap-4">
+            <VersionSelect
+              label="From"
+              value={target.fromCommit}
+              onChange={(fromCommit) => setTarget({ ...target, fromCommit })}
+              options={versionOptions}
+            />
+            <VersionSelect
+              label="To"
+              value={target.toCommit}
+              onChange={(toCommit) => setTarget({ ...target, toCommit })}
+              options={[latestOption, ...versionOptions]}
+            />
+          </div>
+        )}
+
+        <div className="flex flex-1 min-h-0 gap-2">
+          <ul
+            className="w-64 shrink-0 overflow-auto border border-border rounded-md"
+            data-testid="version-diff-file-list"
+          >
+            {isLoading && (
+              <li className="flex items-center gap-2 p-2 text-xs text-muted-foreground">
+                <Loader2 size={14} className="animate-spin" />
+                Loading changes...
+              </li>
+            )}
+            {error && (
+              <li className="p-2 text-xs text-red-500">{error.message}</li>
+            )}
+            {!isLoading && !error && files.length === 0 && (
+              <li className="p-2 text-xs text-muted-foreground">
+                No file changes.
+              </li>
+            )}
+            {files.map((file) => (
+              <li key={file.path}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedPath(file.path)}
+                  className={cn(
+                    "flex w-full items-center gap-2 px-2 py-1.5 text-left text-xs hover:bg-(--background-lightest)",
+                    file.path === selectedPath && "bg-(--background-lightest)",
+                  )}
+                  title={file.path}
+                >
+                  <span
+                    className={cn(
+                      "w-3 shrink-0 font-semibold",
+                      STATUS_STYLES[file.status],
+                    )}
+                  >
+                    {file.status.charAt(0).toUpperCase()}
+                  </span>
+                  <span className="flex-1 truncate font-mono">{file.path}</span>
+                  {!file.binary && (
+                    <span className="shrink-0 font-mono">
+                      <span className="text-green-600 dark:text-green-400">
+                        +{file.additions}
+                      </span>{" "}
+                      <span className="text-red-600 dark:text-red-400">
+                        -{file.deletions}
+                      </span>
+                    </span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selected && (
+            <div className="flex flex-1 min-w-0 flex-col border border-border rounded-md">
+              <div className="flex items-center gap-2 px-2 py-1 border-b border-border">
+                <div className="flex flex-1 min-w-0 items-center gap-1 overflow-x-auto">
+                  {selected.hunks.map((hunk) => (
+                    <button
+                      key={formatHunkHeader(hunk)}
+                      type="button"
+                      onClick={() => revealHunk(hunk)}
+                      className="shrink-0 rounded px-1.5 py-0.5 font-mono text-xs text-muted-foreground hover:bg-(--background-lightest)"
+                    >
+                      {formatHunkHeader(hunk)}
+                    </button>
+                  ))}
+                </div>
+                {target.type === "versions" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 shrink-0 text-xs"
+                    onClick={() => handleRevertFile(selected)}
+                    disabled={isRevertingFile}
+                    title="Restore this file to the first version and commit it"
+                  >
+                    <RotateCcw size={14} />
+                    {isRevertingFile ? "Reverting..." : "Revert file"}
+                  </Button>
+                )}
+              </div>
+              {selected.binary ? (
+                <div className="p-4 text-sm text-muted-foreground">
+                  Binary file {selected.status}.
+                </div>
+              ) : (
+                <div className="flex-1 min-h-0">
+                  <DiffEditor
+                    height="100%"
+                    original={selected.oldContent ?? ""}
+                    modified={selected.newContent ?? ""}
+                    language={getLanguage(selected.path)}
+                    theme={isDarkMode ? "dyad-dark" : "dyad-light"}
+                    onMount={(editor) => {
+                      diffEditorRef.current = editor;
+                    }}
+                    options={{
+                      readOnly: true,
+                      renderSideBySide: true,
+                      automaticLayout: true,
+                      minimap: { enabled: false },
+                      scrollBeyondLastLine: false,
+                      fontFamily: "monospace",
+                      fontSize: 13,
+                    }}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,7 +2,7 @@ import { useAtom, useAtomValue } from "jotai";
 import { selectedAppIdAtom, selectedVersionIdAtom } from "@/atoms/appAtoms";
 import { useVersions } from "@/hooks/useVersions";
 import { formatDistanceToNow } from "date-fns";
-import { RotateCcw, X, Database, Loader2 } from "lucide-react";
+import { RotateCcw, X, Database, Loader2, GitCompare } from "lucide-react";
 import type { Version } from "@/ipc/ipc_types";
 import { cn } from "@/lib/utils";
 import { useEffect, useRef, useState } from "react";
@@ -15,6 +15,10 @@ import {
 } from "@/components/ui/tooltip";
 
 import { useRunApp } from "@/hooks/useRunApp";
+import { useCurrentBranch } from "@/hooks/useCurrentBranch";
+import { isChatBranch } from "@/lib/chat_branches";
+import type { VersionDiffTarget } from "@/hooks/useVersionDiff";
+import { VersionDiffDialog } from "./VersionDiffDialog";
 
 interface VersionPaneProps {
   isVisible: boolean;
@@ -37,12 +41,19 @@ export function VersionPane({ isVisible, onClose }: VersionPaneProps) {
   );
   const { checkoutVersion, isCheckingOutVersion } = useCheckoutVersion();
   const wasVisibleRef = useRef(false);
+  const { branchInfo } = useCurrentBranch(appId);
+  // Chat branch to go back to (and revert on) when the pane was opened from one
+  const returnBranchRef = useRef("main");
+  const [diffTarget, setDiffTarget] = useState<VersionDiffTarget | null>(null);
   const [cachedVersions, setCachedVersions] = useState<Version[]>([]);
 
   useEffect(() => {
     async function updatePaneState() {
       // When pane becomes visible after being closed
       if (isVisible && !wasVisibleRef.current) {
+        returnBranchRef.current = isChatBranch(branchInfo?.branch)
+          ? branchInfo!.branch
+          : "main";
         if (appId) {
           await refreshVersions();
           setCachedVersions(liveVersions);
@@ -53,7 +64,10 @@ export function VersionPane({ isVisible, onClose }: VersionPaneProps) {
       if (!isVisible && selectedVersionId) {
         setSelectedVersionId(null);
         if (appId) {
-          await checkoutVersion({ appId, versionId: "main" });
+          await checkoutVersion({
+            appId,
+            versionId: returnBranchRef.current,
+          });
           if (app?.neonProjectId) {
             await restartApp();
           }
@@ -71,6 +85,7 @@ export function VersionPane({ isVisible, onClose }: VersionPaneProps) {
     checkoutVersion,
     refreshVersions,
     liveVersions,
+    branchInfo,
   ]);
 
   // Initial load of cached versions when live versions become available
@@ -220,6 +235,32 @@ export function VersionPane({ isVisible, onClose }: VersionPaneProps) {
                   )}
 
                   <div className="flex items-center gap-1">
+                    {/* Compare button */}
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setDiffTarget({
+                              type: "versions",
+                              fromCommit: version.oid,
+                              toCommit: returnBranchRef.current,
+                            });
+                          }}
+                          className={cn(
+                            "invisible mt-1 flex items-center gap-1 px-2 py-0.5 text-sm font-medium border border-border hover:bg-background-lightest rounded-md transition-colors",
+                            selectedVersionId === version.oid && "visible",
+                          )}
+                          aria-label="Compare with the latest version"
+                        >
+                          <GitCompare size={12} />
+                          <span>Compare</span>
+                        </button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        Compare with the latest version
+                      </TooltipContent>
+                    </Tooltip>
                     {/* Restore button */}
                     <Tooltip>
                       <TooltipTrigger asChild>
@@ -229,6 +270,7 @@ export function VersionPane({ isVisible, onClose }: VersionPaneProps) {
 
                             await revertVersion({
                               versionId: version.oid,
+                              branch: returnBranchRef.current,
                             });
                             setSelectedVersionId(null);
                             // Close the pane after revert to force a refresh on next open
@@ -269,6 +311,17 @@ export function VersionPane({ isVisible, onClose }: VersionPaneProps) {
           </div>
         )}
       </div>
+      {appId && diffTarget && (
+        <VersionDiffDialog
+          appId={appId}
+          isOpen
+          onOpenChange={(open) => {
+            if (!open) setDiffTarget(null);
+          }}
+          initialTarget={diffTarget}
+          branch={returnBranchRef.current}
+        />
+      )}
     </div>
   );
 }
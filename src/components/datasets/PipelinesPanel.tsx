@@ -0,0 +1,363 @@
+/**
+ * Data Pipelines Panel
+ * Builds and runs transformation pipelines over datasets
+ */
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowRight,
+  Loader2,
+  Play,
+  Plus,
+  Trash2,
+  Workflow,
+} from "lucide-react";
+import { toast } from "sonner";
+
+import { scraperClient } from "@/ipc/scraper_client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import type {
+  DataPipeline,
+  DataTransformation,
+  DataTransformationType,
+  Dataset,
+} from "@/types/scraper_types";
+
+// Starting config for each step type, edited as JSON in the dialog
+const STEP_TEMPLATES: Partial<Record<DataTransformationType, object>> = {
+  dedupe: { fields: ["url"], keep: "first" },
+  filter: {
+    conditions: [{ field: "price", operator: "exists" }],
+    match: "all",
+  },
+  map: { rename: { title: "name" }, cast: { price: "number" }, drop: [] },
+  clean: { pattern: "<[^>]+>", replacement: "", collapseWhitespace: true },
+  sort: { field: "price", direction: "asc" },
+  join: { datasetId: "", leftKey: "id", type: "left" },
+  split: { ratios: { train: 0.8, test: 0.2 }, seed: 42 },
+};
+
+const STEP_LABELS: Partial<Record<DataTransformationType, string>> = {
+  dedupe: "Dedupe",
+  filter: "Filter",
+  map: "Rename / cast",
+  clean: "Regex clean",
+  sort: "Sort",
+  join: "Join dataset",
+  split: "Train/test split",
+};
+
+export interface PipelinesPanelProps {
+  datasets: Dataset[];
+}
+
+export function PipelinesPanel({ datasets }: PipelinesPanelProps) {
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<Partial<DataPipeline>>({
+    name: "",
+    sources: [],
+    transformations: [],
+  });
+  const [stepType, setStepType] = useState<DataTransformationType>("dedupe");
+  const [stepConfig, setStepConfig] = useState(
+    JSON.stringify(STEP_TEMPLATES.dedupe, null, 2),
+  );
+
+  const { data: pipelines = [], isLoading } = useQuery({
+    queryKey: ["scraper-pipelines"],
+    queryFn: () => scraperClient.listPipelines(),
+  });
+
+  const savePipelineMutation = useMutation({
+    mutationFn: (pipeline: Partial<DataPipeline>) =>
+      scraperClient.savePipeline(pipeline),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["scraper-pipelines"] });
+      toast.success("Pipeline saved");
+      setIsDialogOpen(false);
+      setForm({ name: "", sources: [], transformations: [] });
+    },
+    onError: (error) => {
+      toast.error(`Failed to save pipeline: ${error.message}`);
+    },
+  });
+
+  const runPipelineMutation = useMutation({
+    mutationFn: (pipelineId: string) => scraperClient.runPipeline(pipelineId),
+    onSuccess: (outputs) => {
+      queryClient.invalidateQueries({ queryKey: ["datasets"] });
+      toast.success(`Created ${outputs.map((d) => d.name).join(", ")}`);
+    },
+    onError: (error) => {
+      toast.error(`Pipeline failed: ${error.message}`);
+    },
+  });
+
+  const deletePipelineMutation = useMutation({
+    mutationFn: (pipelineId: string) =>
+      scraperClient.deletePipeline(pipelineId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["scraper-pipelines"] });
+      toast.success("Pipeline deleted");
+    },
+  });
+
+  const selectStepType = (type: DataTransformationType) => {
+    setStepType(type);
+    setStepConfig(JSON.stringify(STEP_TEMPLATES[type], null, 2));
+  };
+
+  const addStep = () => {
+    let config: Record<string, any>;
+    try {
+      config = JSON.parse(stepConfig);
+    } catch {
+      toast.error("Step config must be valid JSON");
+      return;
+    }
+    const step: DataTransformation = {
+      id: Date.now().toString(),
+      name: STEP_LABELS[stepType] || stepType,
+      type: stepType,
+      config,
+    };
+    setForm({
+      ...form,
+      transformations: [...(form.transformations || []), step],
+    });
+  };
+
+  const removeStep = (stepId: string) => {
+    setForm({
+      ...form,
+      transformations: (form.transformations || []).filter(
+        (s) => s.id !== stepId,
+      ),
+    });
+  };
+
+  const datasetName = (datasetId: string) =>
+    datasets.find((d) => d.id === datasetId)?.name ?? datasetId;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={() => setIsDialogOpen(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Pipeline
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : pipelines.length === 0 ? (
+        <Card className="border-dashed">
+          <CardContent className="py-12 text-center">
+            <Workflow className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium">No pipelines yet</h3>
+            <p className="text-sm text-muted-foreground">
+              Pipelines clean and reshape datasets into new versions
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {pipelines.map((pipeline) => (
+            <Card key={pipeline.id}>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <h4 className="font-medium">{pipeline.name}</h4>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {pipeline.sources.length > 0
+                        ? pipeline.sources.map(datasetName).join(", ")
+                        : "Runs on scraper output"}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-1 mt-2">
+                      {pipeline.transformations.map((step, index) => (
+                        <span key={step.id} className="flex items-center gap-1">
+                          {index > 0 && (
+                            <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                          )}
+                          <Badge variant="outline" className="text-xs">
+                            {step.name}
+                          </Badge>
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => runPipelineMutation.mutate(pipeline.id)}
+                      disabled={
+                        runPipelineMutation.isPending ||
+                        pipeline.sources.length === 0
+                      }
+                    >
+                      <Play className="w-4 h-4 mr-1" />
+                      Run
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deletePipelineMutation.mutate(pipeline.id)}
+                    >
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Create Pipeline</DialogTitle>
+            <DialogDescription>
+              Steps run in order; each run saves a new dataset version
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Pipeline Name</Label>
+                <Input
+                  placeholder="Clean products"
+                  value={form.name}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      name: e.target.value,
+                      outputName: e.target.value,
+                    })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Source Dataset</Label>
+                <Select
+                  value={form.sources?.[0] ?? "none"}
+                  onValueChange={(value) =>
+                    setForm({
+                      ...form,
+                      sources: value === "none" ? [] : [value],
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Scraper output only</SelectItem>
+                    {datasets.map((dataset) => (
+                      <SelectItem key={dataset.id} value={dataset.id}>
+                        {dataset.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <Label>Steps</Label>
+              {(form.transformations || []).map((step, index) => (
+                <div
+                  key={step.id}
+                  className="flex items-center justify-between p-2 rounded-lg bg-muted/50"
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant="outline" className="text-xs">
+                      {index + 1}
+                    </Badge>
+                    <span className="font-medium">{step.name}</span>
+                    <code className="text-xs text-muted-foreground truncate">
+                      {JSON.stringify(step.config)}
+                    </code>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeStep(step.id)}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+              <div className="space-y-2 p-3 rounded-lg border border-dashed">
+                <div className="flex gap-2">
+                  <Select
+                    value={stepType}
+                    onValueChange={(value) =>
+                      selectStepType(value as DataTransformationType)
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(STEP_LABELS).map(([type, label]) => (
+                        <SelectItem key={type} value={type}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={addStep} variant="outline">
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
+                <Textarea
+                  className="font-mono text-xs"
+                  rows={5}
+                  value={stepConfig}
+                  onChange={(e) => setStepConfig(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => savePipelineMutation.mutate(form)}
+              disabled={!form.name || (form.transformations || []).length === 0}
+            >
+              Save Pipeline
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
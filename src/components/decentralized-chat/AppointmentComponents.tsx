@@ -5,6 +5,7 @@
 
 import { useState, useMemo } from "react";
 import { cn } from "@/lib/utils";
+import { decentralizedChatClient } from "@/ipc/decentralized_chat_client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -152,9 +153,36 @@ export function CreateAppointmentDialog({
     setError(null);
 
     try {
-      // Create appointment via IPC
-      // const result = await createAppointment({ ... });
-      // onAppointmentCreated?.(result.appointment);
+      const at = (time: string) => {
+        const [hours, minutes] = time.split(":").map(Number);
+        const value = new Date(date);
+        value.setHours(hours, minutes, 0, 0);
+        return value.toISOString();
+      };
+      // Everyone in the conversation is invited
+      const conversation = conversationId
+        ? await decentralizedChatClient.getConversation(conversationId)
+        : null;
+
+      const result = await decentralizedChatClient.createAppointment({
+        conversationId,
+        title: title.trim(),
+        description: description.trim() || undefined,
+        type: appointmentType,
+        startTime: at(startTime),
+        endTime: at(endTime),
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        attendees: conversation?.participants.map((p) => p.walletAddress) ?? [],
+        locationType: isVirtual ? "virtual" : "in-person",
+        meetingLink: isVirtual && location ? location : undefined,
+        physicalLocation: !isVirtual && location ? location : undefined,
+        recurrence: isRecurring ? { frequency: recurrenceFrequency, interval: 1 } : undefined,
+        reminders: reminderMinutes > 0 ? [{ type: "notification", minutesBefore: reminderMinutes }] : [],
+      });
+      if (!result.success || !result.appointment) {
+        throw new Error(result.error || "Failed to create appointment");
+      }
+      onAppointmentCreated?.(result.appointment);
       onOpenChange(false);
       resetForm();
     } catch (err) {
@@ -914,12 +914,47 @@ export function EnhancedDecentralizedChatPanel() {
   const [meetingParticipants, setMeetingParticipants] = useState<MeetingParticipant[]>([]);
   const localVideoRef = useRef<HTMLVideoElement>(null);
 
-  // Mock data (replace with actual data from hooks)
   const [groups, setGroups] = useState<ChatGroup[]>([]);
   const [meetings, setMeetings] = useState<Meeting[]>([]);
   const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [selectedDate, setSelectedDate] = useState(new Date());
 
+  // Load groups, meetings and appointments once we have an identity
+  useEffect(() => {
+    if (!identity) return;
+    decentralizedChatClient.listGroups().then(setGroups).catch(() => {});
+    decentralizedChatClient.listMeetings().then(setMeetings).catch(() => {});
+    decentralizedChatClient.listAppointments().then(setAppointments).catch(() => {});
+  }, [identity]);
+
+  // Keep them in step with changes from this device and from peers
+  useEffect(() => {
+    const upsert = <T extends { id: string }>(items: T[], item: T) =>
+      items.some(i => i.id === item.id) ? items.map(i => (i.id === item.id ? item : i)) : [...items, item];
+
+    const unsubscribers = [
+      decentralizedChatClient.on("group:updated", (event) => {
+        if (event.type === "group:updated") setGroups(prev => upsert(prev, event.group));
+      }),
+      decentralizedChatClient.on("group:removed", (event) => {
+        if (event.type === "group:removed") setGroups(prev => prev.filter(g => g.id !== event.groupId));
+      }),
+      decentralizedChatClient.on("meeting:updated", (event) => {
+        if (event.type !== "meeting:updated") return;
+        setMeetings(prev => upsert(prev, event.meeting));
+        setActiveMeeting(prev => (prev?.id === event.meeting.id ? event.meeting : prev));
+      }),
+      decentralizedChatClient.on("appointment:updated", (event) => {
+        if (event.type === "appointment:updated") setAppointments(prev => upsert(prev, event.appointment));
+      }),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, []);
+
+  useEffect(() => {
+    if (activeMeeting) setMeetingParticipants(activeMeeting.participants);
+  }, [activeMeeting]);
+
   // Auto-show identity dialog if no identity
   useEffect(() => {
     if (!identity) {
@@ -937,63 +972,17 @@ export function EnhancedDecentralizedChatPanel() {
     const conversation = conversations.find(c => c.id === selectedConversation);
     if (!conversation) return;
 
-    // Create a meeting for this call
-    const newMeeting: Meeting = {
-      id: crypto.randomUUID(),
+    const result = await decentralizedChatClient.createMeeting({
       conversationId: selectedConversation,
       title: conversation.type === "direct"
         ? `Call with ${conversation.participants.find(p => p.walletAddress !== identity.walletAddress)?.displayName || "User"}`
         : `${conversation.name} call`,
       type: "instant",
-      status: "live",
-      hostWallet: identity.walletAddress,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      participants: [],
-      maxParticipants: 50,
-      waitingRoom: [],
-      isPublic: false,
-      requiresApproval: false,
-      isRecording: false,
-      allowRecording: true,
-      autoRecord: false,
-      webrtcRoomId: crypto.randomUUID(),
-      signalingTopic: `meeting-${crypto.randomUUID()}`,
-      settings: {
-        startWithAudioMuted: false,
-        startWithVideoOff: false,
-        allowParticipantVideo: true,
-        allowParticipantAudio: true,
-        allowScreenShare: true,
-        muteOnEntry: false,
-        lockMeeting: false,
-        allowChat: true,
-        allowReactions: true,
-        allowHandRaise: true,
-        allowRecording: true,
-        notifyOnRecording: true,
-        endToEndEncryption: true,
-        enableWaitingRoom: false,
-        autoAdmit: true,
-        defaultLayout: "gallery",
-        maxVideoTiles: 25,
-        preferredVideoQuality: "auto",
-        preferredAudioCodec: "opus",
-      },
-    };
+      invitees: conversation.participants.map(p => p.walletAddress),
+    });
+    if (!result.success || !result.meeting) return;
 
-    setActiveMeeting(newMeeting);
-    setMeetingParticipants([{
-      walletAddress: identity.walletAddress,
-      displayName: identity.displayName,
-      role: "host",
-      joinedAt: new Date().toISOString(),
-      audioEnabled: true,
-      videoEnabled: true,
-      screenSharing: false,
-      handRaised: false,
-      status: "connected",
-    }]);
+    setActiveMeeting(result.meeting);
     setShowJoinMeetingDialog(true);
   }, [identity, selectedConversation, conversations]);
 
@@ -1004,20 +993,40 @@ export function EnhancedDecentralizedChatPanel() {
   }, [handleStartVideoCall]);
 
   // Handle joining a meeting
-  const handleJoinMeeting = useCallback((audioEnabled: boolean, videoEnabled: boolean) => {
+  const handleJoinMeeting = useCallback(async (audioEnabled: boolean, videoEnabled: boolean) => {
+    if (!activeMeeting) return;
     setShowJoinMeetingDialog(false);
+
+    const result = await decentralizedChatClient.joinMeeting({
+      meetingId: activeMeeting.id,
+      audioEnabled,
+      videoEnabled,
+    });
+    if (!result.success || !result.meeting) return;
+
+    setActiveMeeting(result.meeting);
     setIsInMeetingRoom(true);
-    
-    // Start WebRTC connection here
-    // This would call the IPC handlers to initialize the call
-  }, []);
+  }, [activeMeeting]);
 
   // Handle leaving a meeting
-  const handleLeaveMeeting = useCallback(() => {
+  const handleLeaveMeeting = useCallback(async () => {
+    if (activeMeeting) {
+      await decentralizedChatClient.leaveMeeting(activeMeeting.id);
+    }
     setIsInMeetingRoom(false);
     setActiveMeeting(null);
     setMeetingParticipants([]);
-  }, []);
+  }, [activeMeeting]);
+
+  // Handle ending a meeting for everyone
+  const handleEndMeeting = useCallback(async () => {
+    if (activeMeeting) {
+      await decentralizedChatClient.endMeeting(activeMeeting.id);
+    }
+    setIsInMeetingRoom(false);
+    setActiveMeeting(null);
+    setMeetingParticipants([]);
+  }, [activeMeeting]);
 
   // Render meeting room if in a call
   if (isInMeetingRoom && activeMeeting && identity) {
@@ -1028,7 +1037,7 @@ export function EnhancedDecentralizedChatPanel() {
         participants={meetingParticipants}
         localVideoRef={localVideoRef}
         onLeave={handleLeaveMeeting}
-        onEnd={handleLeaveMeeting}
+        onEnd={handleEndMeeting}
       />
     );
   }
@@ -1318,7 +1327,7 @@ export function EnhancedDecentralizedChatPanel() {
         open={showCreateGroupDialog}
         onOpenChange={setShowCreateGroupDialog}
         onGroupCreated={(group) => {
-          setGroups([...groups, group]);
+          setGroups(prev => prev.some(g => g.id === group.id) ? prev : [...prev, group]);
           setSelectedGroup(group.id);
           setActiveTab("groups");
         }}
@@ -1329,7 +1338,7 @@ export function EnhancedDecentralizedChatPanel() {
         onOpenChange={setShowCreateMeetingDialog}
         conversationId={selectedConversation || undefined}
         onMeetingCreated={(meeting) => {
-          setMeetings([...meetings, meeting]);
+          setMeetings(prev => prev.some(m => m.id === meeting.id) ? prev : [...prev, meeting]);
           if (meeting.type === "instant") {
             setActiveMeeting(meeting);
             setShowJoinMeetingDialog(true);
@@ -1343,7 +1352,7 @@ export function EnhancedDecentralizedChatPanel() {
         conversationId={selectedConversation || undefined}
         selectedDate={selectedDate}
         onAppointmentCreated={(apt) => {
-          setAppointments([...appointments, apt]);
+          setAppointments(prev => prev.some(a => a.id === apt.id) ? prev : [...prev, apt]);
         }}
       />
 
@@ -5,6 +5,7 @@
 
 import { useState, useCallback } from "react";
 import { cn } from "@/lib/utils";
+import { decentralizedChatClient } from "@/ipc/decentralized_chat_client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -137,6 +138,8 @@ export function CreateGroupDialog({
   const [description, setDescription] = useState("");
   const [isPrivate, setIsPrivate] = useState(false);
   const [requireApproval, setRequireApproval] = useState(false);
+  const [members, setMembers] = useState<string[]>([]);
+  const [memberInput, setMemberInput] = useState("");
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [step, setStep] = useState<"details" | "settings" | "invite">("details");
@@ -151,9 +154,20 @@ export function CreateGroupDialog({
     setError(null);
 
     try {
-      // Create group via IPC
-      // const result = await createGroup({ ... });
-      // onGroupCreated?.(result.group);
+      const result = await decentralizedChatClient.createGroup({
+        name: name.trim(),
+        description: description.trim() || undefined,
+        members,
+        settings: {
+          isPublic: !isPrivate,
+          joinMethod: isPrivate ? "invite" : requireApproval ? "request" : "open",
+          requireApproval,
+        },
+      });
+      if (!result.success || !result.group) {
+        throw new Error(result.error || "Failed to create group");
+      }
+      onGroupCreated?.(result.group);
       onOpenChange(false);
       resetForm();
     } catch (err) {
@@ -163,11 +177,26 @@ export function CreateGroupDialog({
     }
   };
 
+  const addMember = () => {
+    const wallet = memberInput.trim().toLowerCase();
+    if (!/^0x[a-f0-9]{40}$/.test(wallet)) {
+      setError("Enter a valid wallet address");
+      return;
+    }
+    if (!members.includes(wallet)) {
+      setMembers([...members, wallet]);
+    }
+    setMemberInput("");
+    setError(null);
+  };
+
   const resetForm = () => {
     setName("");
     setDescription("");
     setIsPrivate(false);
     setRequireApproval(false);
+    setMembers([]);
+    setMemberInput("");
     setStep("details");
     setError(null);
   };
@@ -354,16 +383,50 @@ export function CreateGroupDialog({
 
             <div className="space-y-2">
               <Label>Add Members</Label>
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input placeholder="Search by name or wallet address" className="pl-9" />
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Wallet address (0x...)"
+                    className="pl-9 font-mono text-sm"
+                    value={memberInput}
+                    onChange={(e) => setMemberInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        addMember();
+                      }
+                    }}
+                  />
+                </div>
+                <Button variant="outline" size="icon" onClick={addMember}>
+                  <UserPlus className="h-4 w-4" />
+                </Button>
               </div>
             </div>
 
-            <div className="text-center py-8 text-muted-foreground">
-              <Users className="h-12 w-12 mx-auto mb-2 opacity-50" />
-              <p className="text-sm">Search for people to add</p>
-            </div>
+            {members.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <Users className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">Add people by wallet address</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {members.map((wallet) => (
+                  <div key={wallet} className="flex items-center justify-between rounded-md border px-3 py-2">
+                    <span className="font-mono text-xs">{wallet.slice(0, 10)}...{wallet.slice(-8)}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setMembers(members.filter((m) => m !== wallet))}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         )}
 
@@ -430,12 +493,23 @@ export function GroupSettingsDialog({
   const [name, setName] = useState(group.name);
   const [description, setDescription] = useState(group.description || "");
   const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const handleSave = async () => {
     setIsSaving(true);
+    setError(null);
     try {
-      // Save via IPC
+      const result = await decentralizedChatClient.updateGroup(group.id, {
+        name: name.trim(),
+        description: description.trim(),
+      });
+      if (!result.success || !result.group) {
+        throw new Error(result.error || "Failed to save group");
+      }
+      onGroupUpdated?.(result.group);
       onOpenChange(false);
+    } catch (err) {
+      setError((err as Error).message);
     } finally {
       setIsSaving(false);
     }
@@ -557,6 +631,13 @@ export function GroupSettingsDialog({
           </ScrollArea>
         </Tabs>
 
+        {error && (
+          <div className="text-sm text-red-500 flex items-center gap-2">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
@@ -928,9 +1009,17 @@ interface DangerZonePanelProps {
 function DangerZonePanel({ group, isOwner, onLeave, onDelete }: DangerZonePanelProps) {
   const [isLeaving, setIsLeaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   return (
     <div className="space-y-4">
+      {error && (
+        <div className="text-sm text-red-500 flex items-center gap-2">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
       <div className="rounded-lg border border-yellow-500/50 bg-yellow-500/10 p-4">
         <h4 className="font-medium flex items-center gap-2 text-yellow-600">
           <AlertCircle className="h-4 w-4" />
@@ -970,8 +1059,13 @@ function DangerZonePanel({ group, isOwner, onLeave, onDelete }: DangerZonePanelP
                 <AlertDialogAction
                   onClick={async () => {
                     setIsLeaving(true);
+                    setError(null);
                     try {
-                      // Leave via IPC
+                      const result = await decentralizedChatClient.leaveGroup(group.id);
+                      if (!result.success) {
+                        setError(result.error || "Failed to leave group");
+                        return;
+                      }
                       onLeave();
                     } finally {
                       setIsLeaving(false);
@@ -1042,8 +1136,13 @@ function DangerZonePanel({ group, isOwner, onLeave, onDelete }: DangerZonePanelP
                     className="bg-red-600 hover:bg-red-700"
                     onClick={async () => {
                       setIsDeleting(true);
+                      setError(null);
                       try {
-                        // Delete via IPC
+                        const result = await decentralizedChatClient.deleteGroup(group.id);
+                        if (!result.success) {
+                          setError(result.error || "Failed to delete group");
+                          return;
+                        }
                         onDelete?.();
                       } finally {
                         setIsDeleting(false);
@@ -5,6 +5,7 @@
 
 import { useState, useEffect, useRef, useCallback } from "react";
 import { cn } from "@/lib/utils";
+import { decentralizedChatClient } from "@/ipc/decentralized_chat_client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -895,9 +896,36 @@ export function CreateMeetingDialog({
     setError(null);
 
     try {
-      // Create meeting via IPC
-      // const result = await createMeeting({ ... });
-      // onMeetingCreated?.(result.meeting);
+      let scheduledStart: string | undefined;
+      let scheduledEnd: string | undefined;
+      if (meetingType === "scheduled") {
+        if (!scheduledDate || !scheduledTime) {
+          throw new Error("Pick a date and time for the meeting");
+        }
+        const start = new Date(`${scheduledDate}T${scheduledTime}`);
+        scheduledStart = start.toISOString();
+        scheduledEnd = new Date(start.getTime() + duration * 60_000).toISOString();
+      }
+
+      const result = await decentralizedChatClient.createMeeting({
+        conversationId,
+        title: title.trim(),
+        description: description.trim() || undefined,
+        type: meetingType,
+        scheduledStart,
+        scheduledEnd,
+        password: requirePassword && password ? password : undefined,
+        settings: {
+          enableWaitingRoom,
+          autoAdmit: !enableWaitingRoom,
+          allowRecording,
+          muteOnEntry,
+        },
+      });
+      if (!result.success || !result.meeting) {
+        throw new Error(result.error || "Failed to create meeting");
+      }
+      onMeetingCreated?.(result.meeting);
       onOpenChange(false);
     } catch (err) {
       setError((err as Error).message);
@@ -14,6 +14,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
+import { SyncConflictsPanel } from "./SyncConflictsPanel";
 import {
   Activity,
   Cloud,
@@ -197,6 +198,9 @@ export function BridgeStatusIndicator({
               </>
             )}
 
+            {/* Sync conflicts awaiting a decision */}
+            <SyncConflictsPanel />
+
             {/* Last Event */}
             {lastEvent && (
               <>
@@ -0,0 +1,114 @@
+/**
+ * Sync Conflicts Panel
+ * Lists conflicts left for manual resolution and applies the user's choice
+ */
+
+import { useSyncConflicts } from "@/hooks/useHybridBridge";
+import { showError } from "@/lib/toast";
+import { Button } from "@/components/ui/button";
+import { GitMerge } from "lucide-react";
+
+import type { ConflictChoice, SyncConflict } from "@/types/hybrid_bridge_types";
+
+export function SyncConflictsPanel() {
+  const { conflicts, resolveConflict, isResolving } = useSyncConflicts();
+
+  if (conflicts.length === 0) return null;
+
+  const handleResolve = async (conflictId: string, choice: ConflictChoice) => {
+    try {
+      await resolveConflict({ conflictId, choice });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <GitMerge className="h-3 w-3" />
+        <span>
+          {conflicts.length} sync conflict{conflicts.length === 1 ? "" : "s"}
+        </span>
+      </div>
+      {conflicts.map((conflict) => (
+        <div key={conflict.id} className="rounded-lg bg-muted/50 p-2 space-y-2">
+          <div className="text-xs font-medium truncate">
+            {conflict.dataType}/{conflict.dataId}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <ConflictVersion
+              label="Local"
+              timestamp={conflict.localTimestamp}
+              value={conflict.localVersion}
+            />
+            <ConflictVersion
+              label="Cloud"
+              timestamp={conflict.cloudTimestamp}
+              value={conflict.cloudVersion}
+            />
+          </div>
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-6 flex-1 text-[11px]"
+              disabled={isResolving}
+              onClick={() => handleResolve(conflict.id, "local-wins")}
+            >
+              Keep local
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-6 flex-1 text-[11px]"
+              disabled={isResolving}
+              onClick={() => handleResolve(conflict.id, "cloud-wins")}
+            >
+              Keep cloud
+            </Button>
+            {canMerge(conflict) && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-6 flex-1 text-[11px]"
+                disabled={isResolving}
+                onClick={() => handleResolve(conflict.id, "merge")}
+              >
+                Merge
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function canMerge(conflict: SyncConflict): boolean {
+  const isObject = (value: unknown) =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+  return isObject(conflict.localVersion) && isObject(conflict.cloudVersion);
+}
+
+function ConflictVersion({
+  label,
+  timestamp,
+  value,
+}: {
+  label: string;
+  timestamp: string;
+  value: unknown;
+}) {
+  return (
+    <div className="min-w-0">
+      <div className="flex justify-between text-[10px] text-muted-foreground">
+        <span>{label}</span>
+        <span>{new Date(timestamp).toLocaleTimeString()}</span>
+      </div>
+      <pre className="mt-1 max-h-24 overflow-auto rounded bg-background p-1 text-[10px] whitespace-pre-wrap">
+        {value === null ? "(deleted)" : JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  );
+}
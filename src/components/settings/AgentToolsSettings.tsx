@@ -12,7 +12,7 @@ import {
   type AgentToolName,
   type AgentTool,
 } from "@/hooks/useAgentTools";
-import { Loader2, ChevronRight } from "lucide-react";
+import { Loader2, ChevronRight, X } from "lucide-react";
 import type { AgentToolConsent } from "@/ipc/ipc_types";
 
 export function AgentToolsSettings() {
@@ -26,6 +26,10 @@ export function AgentToolsSettings() {
     setConsent({ toolName, consent });
   };
 
+  const handleRevokeScope = (toolName: AgentToolName, scope: string) => {
+    setConsent({ toolName, consent: "ask", scope });
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-8">
@@ -53,9 +57,13 @@ export function AgentToolsSettings() {
             name={tool.name}
             description={tool.description}
             consent={tool.consent}
+            allowedScopes={tool.allowedScopes}
             onConsentChange={(consent) =>
               handleConsentChange(tool.name as AgentToolName, consent)
             }
+            onRevokeScope={(scope) =>
+              handleRevokeScope(tool.name as AgentToolName, scope)
+            }
           />
         ))}
       </div>
@@ -96,12 +104,16 @@ function ToolConsentRow({
   name,
   description,
   consent,
+  allowedScopes,
   onConsentChange,
+  onRevokeScope,
 }: {
   name: string;
   description: string;
   consent: AgentToolConsent;
+  allowedScopes?: string[];
   onConsentChange: (consent: AgentToolConsent) => void;
+  onRevokeScope?: (scope: string) => void;
 }) {
   return (
     <div className="border rounded p-3">
@@ -125,6 +137,31 @@ function ToolConsentRow({
           </SelectContent>
         </Select>
       </div>
+      {consent === "ask" && allowedScopes && allowedScopes.length > 0 && (
+        <div className="mt-2">
+          <div className="text-xs text-muted-foreground mb-1">
+            Allowed without asking:
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {allowedScopes.map((scope) => (
+              <span
+                key={scope}
+                className="inline-flex items-center gap-1 rounded bg-muted px-2 py-0.5 font-mono text-xs"
+              >
+                {scope}
+                <button
+                  type="button"
+                  onClick={() => onRevokeScope?.(scope)}
+                  className="text-muted-foreground hover:text-foreground"
+                  aria-label={`Revoke ${scope}`}
+                >
+                  <X className="size-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -328,6 +328,8 @@ export const agentTools = sqliteTable("agent_tools", {
   requiresApproval: integer("requires_approval", { mode: "boolean" })
     .notNull()
     .default(sql`0`),
+  // Sandbox permissions granted to the implementation code
+  permissionsJson: text("permissions_json", { mode: "json" }).$type<Record<string, unknown> | null>(),
   // Whether tool is enabled
   enabled: integer("enabled", { mode: "boolean" })
     .notNull()
@@ -362,6 +364,27 @@ export const agentWorkflows = sqliteTable("agent_workflows", {
     .default(sql`(unixepoch())`),
 });
 
+// Agent workflow executions - run history for workflows, including paused runs
+export const agentWorkflowExecutions = sqliteTable("agent_workflow_executions", {
+  id: text("id").primaryKey(),
+  workflowId: integer("workflow_id")
+    .notNull()
+    .references(() => agentWorkflows.id, { onDelete: "cascade" }),
+  status: text("status").notNull().default("running"),
+  currentNodeId: text("current_node_id"),
+  // Workflow variables, including node outputs
+  variablesJson: text("variables_json", { mode: "json" }).$type<Record<string, unknown> | null>(),
+  // Executed steps in order
+  historyJson: text("history_json", { mode: "json" }).$type<unknown[] | null>(),
+  // Scheduler state (pending nodes, loop counters) needed to resume a paused run
+  stateJson: text("state_json", { mode: "json" }).$type<Record<string, unknown> | null>(),
+  error: text("error"),
+  startedAt: integer("started_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  completedAt: integer("completed_at", { mode: "timestamp" }),
+});
+
 // Agent deployments - track where agents are deployed
 export const agentDeployments = sqliteTable("agent_deployments", {
   id: integer("id").primaryKey({ autoIncrement: true }),
@@ -375,6 +398,8 @@ export const agentDeployments = sqliteTable("agent_deployments", {
   endpoint: text("endpoint"),
   // Deployment status
   deploymentStatus: text("deployment_status").notNull().default("pending"),
+  // Failure reason when deploymentStatus is "failed"
+  error: text("error"),
   // Last deployment timestamp
   deployedAt: integer("deployed_at", { mode: "timestamp" }),
   createdAt: integer("created_at", { mode: "timestamp" })
@@ -391,6 +416,10 @@ export const agentTestSessions = sqliteTable("agent_test_sessions", {
   agentId: integer("agent_id")
     .notNull()
     .references(() => agents.id, { onDelete: "cascade" }),
+  // Agent version the session was run against
+  agentVersion: text("agent_version"),
+  // Source session when this session is a replay
+  replayOfSessionId: integer("replay_of_session_id"),
   // Test session messages as JSON
   messagesJson: text("messages_json", { mode: "json" }).$type<AgentTestMessage[] | null>(),
   // Test results/metrics
@@ -420,6 +449,8 @@ export const agentKnowledgeBases = sqliteTable("agent_knowledge_bases", {
   // Status
   indexStatus: text("index_status").notNull().default("pending"),
   documentCount: integer("document_count").default(0),
+  // Failure reason when indexStatus is 'failed'
+  indexError: text("index_error"),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`(unixepoch())`),
@@ -509,14 +540,21 @@ export interface DeploymentConfig {
 }
 
 export interface AgentTestMessage {
+  id: string;
   role: "user" | "assistant" | "system";
   content: string;
   timestamp: number;
   toolCalls?: Array<{
+    id: string;
     name: string;
     input: Record<string, unknown>;
     output?: unknown;
+    status: "pending" | "completed" | "failed";
+    error?: string;
   }>;
+  latencyMs?: number;
+  tokenUsage?: { prompt: number; completion: number; total: number };
+  error?: string;
 }
 
 export interface TestMetrics {
@@ -524,6 +562,7 @@ export interface TestMetrics {
   averageResponseTime?: number;
   toolCallCount?: number;
   errorCount?: number;
+  tokenUsage?: { prompt: number; completion: number; total: number };
 }
 
 export interface KnowledgeBaseConfig {
@@ -560,11 +599,19 @@ export const agentToolsRelations = relations(agentTools, ({ one }) => ({
   }),
 }));
 
-export const agentWorkflowsRelations = relations(agentWorkflows, ({ one }) => ({
+export const agentWorkflowsRelations = relations(agentWorkflows, ({ one, many }) => ({
   agent: one(agents, {
     fields: [agentWorkflows.agentId],
     references: [agents.id],
   }),
+  executions: many(agentWorkflowExecutions),
+}));
+
+export const agentWorkflowExecutionsRelations = relations(agentWorkflowExecutions, ({ one }) => ({
+  workflow: one(agentWorkflows, {
+    fields: [agentWorkflowExecutions.workflowId],
+    references: [agentWorkflows.id],
+  }),
 }));
 
 export const agentDeploymentsRelations = relations(agentDeployments, ({ one }) => ({
@@ -616,6 +663,8 @@ export const documents = sqliteTable("documents", {
   aiPrompt: text("ai_prompt"),
   aiModel: text("ai_model"),
   aiProvider: text("ai_provider"),
+  // Structured content the file was written from, used for section revisions
+  content: text("content", { mode: "json" }),
   // Timestamps
   createdAt: text("created_at")
     .notNull()
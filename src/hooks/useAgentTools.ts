@@ -26,6 +26,7 @@ export function useAgentTools() {
     mutationFn: async (params: {
       toolName: AgentToolName;
       consent: AgentToolConsent;
+      scope?: string;
     }) => {
       const ipcClient = IpcClient.getInstance();
       return ipcClient.setAgentToolConsent(params);
@@ -0,0 +1,67 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import type {
+  ChatBranchesResult,
+  MergeChatBranchResult,
+} from "@/ipc/ipc_types";
+
+export function useChatBranches(appId: number | null, enabled = true) {
+  const queryClient = useQueryClient();
+
+  const {
+    data,
+    isLoading,
+    refetch: refetchChatBranches,
+  } = useQuery<ChatBranchesResult, Error>({
+    queryKey: ["chatBranches", appId],
+    queryFn: async (): Promise<ChatBranchesResult> => {
+      if (appId === null) {
+        throw new Error("appId is null, cannot list chat branches.");
+      }
+      return IpcClient.getInstance().listChatBranches(appId);
+    },
+    enabled: enabled && appId !== null,
+    meta: { showErrorToast: true },
+  });
+
+  const invalidateBranchQueries = async () => {
+    await Promise.all(
+      ["chatBranches", "currentBranch", "versions"].map((key) =>
+        queryClient.invalidateQueries({ queryKey: [key, appId] }),
+      ),
+    );
+  };
+
+  const checkoutMutation = useMutation<void, Error, string>({
+    mutationFn: async (branch: string) => {
+      if (appId === null) {
+        throw new Error("App ID is null, cannot switch branch.");
+      }
+      await IpcClient.getInstance().checkoutChatBranch({ appId, branch });
+    },
+    onSuccess: invalidateBranchQueries,
+    meta: { showErrorToast: true },
+  });
+
+  const mergeMutation = useMutation<MergeChatBranchResult, Error, number>({
+    mutationFn: async (chatId: number) => {
+      if (appId === null) {
+        throw new Error("App ID is null, cannot merge branch.");
+      }
+      return IpcClient.getInstance().mergeChatBranch({ appId, chatId });
+    },
+    onSuccess: invalidateBranchQueries,
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    currentBranch: data?.currentBranch ?? null,
+    chatBranches: data?.branches ?? [],
+    isLoading,
+    refetchChatBranches,
+    checkoutBranch: checkoutMutation.mutateAsync,
+    isCheckingOutBranch: checkoutMutation.isPending,
+    mergeChatBranch: mergeMutation.mutateAsync,
+    isMergingChatBranch: mergeMutation.isPending,
+  };
+}
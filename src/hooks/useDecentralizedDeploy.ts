@@ -54,6 +54,7 @@ export interface DecentralizedDeployRequest {
   ensName?: string;
   customDomain?: string;
   metadata?: Record<string, unknown>;
+  federationAnnounce?: { privateKey: string };
 }
 
 export interface DecentralizedDeployment {
@@ -62,6 +63,8 @@ export interface DecentralizedDeployment {
   platform: string;
   status: string;
   cid?: string;
+  localCid?: string;
+  cidVerified?: boolean;
   txId?: string;
   url: string;
   gatewayUrls: string[];
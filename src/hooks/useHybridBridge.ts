@@ -11,6 +11,7 @@ import type {
   ServiceEndpoint,
   ServiceBridge,
   SyncState,
+  ConflictChoice,
   HybridBridgeStatus,
   HybridBridgeEvent,
   ConnectionState,
@@ -24,6 +25,7 @@ export const bridgeQueryKeys = {
   config: () => [...bridgeQueryKeys.all, "config"] as const,
   services: () => [...bridgeQueryKeys.all, "services"] as const,
   syncState: () => [...bridgeQueryKeys.all, "sync-state"] as const,
+  syncConflicts: () => [...bridgeQueryKeys.all, "sync-conflicts"] as const,
   n8nHealth: () => [...bridgeQueryKeys.all, "n8n-health"] as const,
 };
 
@@ -93,6 +95,10 @@ export function useBridgeEvents(options: UseBridgeEventsOptions = {}) {
           case "sync:error":
             queryClient.invalidateQueries({ queryKey: bridgeQueryKeys.syncState() });
             break;
+          case "sync:conflict":
+            queryClient.invalidateQueries({ queryKey: bridgeQueryKeys.syncState() });
+            queryClient.invalidateQueries({ queryKey: bridgeQueryKeys.syncConflicts() });
+            break;
           case "service:connected":
           case "service:disconnected":
             queryClient.invalidateQueries({ queryKey: bridgeQueryKeys.services() });
@@ -271,6 +277,33 @@ export function useBridgeSync() {
   };
 }
 
+export function useSyncConflicts() {
+  const queryClient = useQueryClient();
+
+  const conflictsQuery = useQuery({
+    queryKey: bridgeQueryKeys.syncConflicts(),
+    queryFn: () => hybridBridgeClient.listSyncConflicts(),
+    staleTime: 5000,
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: ({ conflictId, choice }: { conflictId: string; choice: ConflictChoice }) =>
+      hybridBridgeClient.resolveSyncConflict(conflictId, choice),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: bridgeQueryKeys.syncConflicts() });
+      queryClient.invalidateQueries({ queryKey: bridgeQueryKeys.syncState() });
+    },
+  });
+
+  return {
+    conflicts: conflictsQuery.data?.filter((c) => !c.resolved) ?? [],
+    resolvedConflicts: conflictsQuery.data?.filter((c) => c.resolved) ?? [],
+    isLoading: conflictsQuery.isLoading,
+    resolveConflict: resolveMutation.mutateAsync,
+    isResolving: resolveMutation.isPending,
+  };
+}
+
 // ============================================================================
 // n8n Health Hook
 // ============================================================================
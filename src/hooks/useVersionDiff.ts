@@ -0,0 +1,61 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import type { RevertFileParams, VersionDiffFile } from "@/ipc/ipc_types";
+
+export type VersionDiffTarget =
+  | { type: "versions"; fromCommit: string; toCommit: string }
+  | { type: "proposal"; chatId: number; messageId: number };
+
+export function useVersionDiff(
+  appId: number | null,
+  target: VersionDiffTarget | null,
+) {
+  const queryClient = useQueryClient();
+
+  const {
+    data: files,
+    isLoading,
+    error,
+  } = useQuery<VersionDiffFile[], Error>({
+    queryKey: ["versionDiff", appId, target],
+    queryFn: async (): Promise<VersionDiffFile[]> => {
+      if (appId === null || target === null) {
+        throw new Error("appId and target are required to load a diff.");
+      }
+      const ipcClient = IpcClient.getInstance();
+      return target.type === "versions"
+        ? ipcClient.getVersionDiff({ appId, ...target })
+        : ipcClient.getProposalDiff({ appId, ...target });
+    },
+    enabled: appId !== null && target !== null,
+  });
+
+  const revertFileMutation = useMutation<
+    void,
+    Error,
+    Omit<RevertFileParams, "appId">
+  >({
+    mutationFn: async (params) => {
+      if (appId === null) {
+        throw new Error("App ID is null, cannot revert file.");
+      }
+      await IpcClient.getInstance().revertFile({ appId, ...params });
+    },
+    onSuccess: async () => {
+      await Promise.all(
+        ["versionDiff", "versions", "currentBranch"].map((key) =>
+          queryClient.invalidateQueries({ queryKey: [key, appId] }),
+        ),
+      );
+    },
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    files: files ?? [],
+    isLoading,
+    error,
+    revertFile: revertFileMutation.mutateAsync,
+    isRevertingFile: revertFileMutation.isPending,
+  };
+}
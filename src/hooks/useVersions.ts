@@ -45,14 +45,17 @@ export function useVersions(appId: number | null) {
     {
       versionId: string;
       currentChatMessageId?: { chatId: number; messageId: number };
+      branch?: string;
     }
   >({
     mutationFn: async ({
       versionId,
       currentChatMessageId,
+      branch,
     }: {
       versionId: string;
       currentChatMessageId?: { chatId: number; messageId: number };
+      branch?: string;
     }) => {
       const currentAppId = appId;
       if (currentAppId === null) {
@@ -63,6 +66,7 @@ export function useVersions(appId: number | null) {
         appId: currentAppId,
         previousVersionId: versionId,
         currentChatMessageId,
+        branch,
       });
     },
     onSuccess: async (result) => {
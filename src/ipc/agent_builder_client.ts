@@ -10,13 +10,25 @@ import type {
   AgentWorkflow,
   AgentDeployment,
   AgentTestSession,
+  ReplayTestSessionResult,
+  TestAgentRequest,
+  TestAgentResponse,
   AgentKnowledgeBase,
+  KnowledgeSearchRequest,
+  KnowledgeSearchResult,
   AgentUIComponent,
   CreateAgentRequest,
   UpdateAgentRequest,
   CreateAgentToolRequest,
   UpdateAgentToolRequest,
   DeployAgentRequest,
+  RunWorkflowRequest,
+  ResumeWorkflowRequest,
+  WorkflowExecution,
+  WorkflowExecutionEvent,
+  AgentToolApprovalRequest,
+  ExecuteAgentToolRequest,
+  ToolExecutionResult,
 } from "@/types/agent_builder";
 
 class AgentBuilderClient {
@@ -82,6 +94,31 @@ class AgentBuilderClient {
     return this.ipcRenderer.invoke("agent:tool:delete", toolId);
   }
 
+  async executeAgentTool(
+    request: ExecuteAgentToolRequest
+  ): Promise<ToolExecutionResult> {
+    return this.ipcRenderer.invoke("agent:tool:execute", request);
+  }
+
+  async respondToToolApproval(requestId: string, approved: boolean): Promise<void> {
+    return this.ipcRenderer.invoke("agent:tool:approval-response", {
+      requestId,
+      approved,
+    });
+  }
+
+  onToolApprovalRequest(
+    callback: (request: AgentToolApprovalRequest) => void
+  ): () => void {
+    const listener = (data: any) => {
+      callback(data as AgentToolApprovalRequest);
+    };
+    this.ipcRenderer.on("agent:tool:approval-request", listener);
+    return () => {
+      this.ipcRenderer.removeListener("agent:tool:approval-request", listener);
+    };
+  }
+
   // ============================================================================
   // Agent Workflow Operations
   // ============================================================================
@@ -109,6 +146,36 @@ class AgentBuilderClient {
     return this.ipcRenderer.invoke("agent:workflow:delete", workflowId);
   }
 
+  async runAgentWorkflow(request: RunWorkflowRequest): Promise<WorkflowExecution> {
+    return this.ipcRenderer.invoke("agent:workflow:run", request);
+  }
+
+  async resumeAgentWorkflow(request: ResumeWorkflowRequest): Promise<WorkflowExecution> {
+    return this.ipcRenderer.invoke("agent:workflow:resume", request);
+  }
+
+  async cancelAgentWorkflow(executionId: string): Promise<void> {
+    return this.ipcRenderer.invoke("agent:workflow:cancel", executionId);
+  }
+
+  async getWorkflowExecutions(workflowId: number): Promise<WorkflowExecution[]> {
+    return this.ipcRenderer.invoke("agent:workflow:executions", workflowId);
+  }
+
+  async getWorkflowExecution(executionId: string): Promise<WorkflowExecution | null> {
+    return this.ipcRenderer.invoke("agent:workflow:execution:get", executionId);
+  }
+
+  onWorkflowEvent(callback: (event: WorkflowExecutionEvent) => void): () => void {
+    const listener = (data: any) => {
+      callback(data as WorkflowExecutionEvent);
+    };
+    this.ipcRenderer.on("agent:workflow:event", listener);
+    return () => {
+      this.ipcRenderer.removeListener("agent:workflow:event", listener);
+    };
+  }
+
   // ============================================================================
   // Agent Deployment Operations
   // ============================================================================
@@ -137,6 +204,18 @@ class AgentBuilderClient {
     return this.ipcRenderer.invoke("agent:test:list", agentId);
   }
 
+  async sendTestMessage(request: TestAgentRequest): Promise<TestAgentResponse> {
+    return this.ipcRenderer.invoke("agent:test:message", request);
+  }
+
+  async replayTestSession(sessionId: number): Promise<ReplayTestSessionResult> {
+    return this.ipcRenderer.invoke("agent:test:replay", sessionId);
+  }
+
+  async deleteTestSession(sessionId: number): Promise<void> {
+    return this.ipcRenderer.invoke("agent:test:delete", sessionId);
+  }
+
   // ============================================================================
   // Agent Knowledge Base Operations
   // ============================================================================
@@ -154,6 +233,20 @@ class AgentBuilderClient {
     return this.ipcRenderer.invoke("agent:kb:list", agentId);
   }
 
+  async indexKnowledgeBase(knowledgeBaseId: number): Promise<AgentKnowledgeBase> {
+    return this.ipcRenderer.invoke("agent:kb:index", knowledgeBaseId);
+  }
+
+  async deleteKnowledgeBase(knowledgeBaseId: number): Promise<void> {
+    return this.ipcRenderer.invoke("agent:kb:delete", knowledgeBaseId);
+  }
+
+  async searchKnowledgeBase(
+    request: KnowledgeSearchRequest
+  ): Promise<KnowledgeSearchResult[]> {
+    return this.ipcRenderer.invoke("agent:kb:search", request);
+  }
+
   // ============================================================================
   // Agent UI Component Operations
   // ============================================================================
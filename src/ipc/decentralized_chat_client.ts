@@ -18,6 +18,33 @@ import type {
   PullPinnedMessagesResult,
   SyncMessagesResult,
   ChatServiceStatus,
+  ChatGroup,
+  CreateGroupRequest,
+  CreateGroupResult,
+  UpdateGroupRequest,
+  GroupActionResult,
+  GroupInvite,
+  GroupPermissions,
+  GroupRole,
+  JoinGroupRequest,
+  JoinGroupResult,
+  Poll,
+  CreatePollRequest,
+  PollResult,
+  Meeting,
+  MeetingRole,
+  CreateMeetingRequest,
+  CreateMeetingResult,
+  JoinMeetingRequest,
+  JoinMeetingResult,
+  MeetingActionResult,
+  MediaStateUpdate,
+  Appointment,
+  AppointmentAttendee,
+  AppointmentOccurrence,
+  CreateAppointmentRequest,
+  CreateAppointmentResult,
+  UpdateAppointmentRequest,
 } from "@/types/decentralized_chat_types";
 
 type EventCallback = (event: ChatEvent) => void;
@@ -363,6 +390,201 @@ class DecentralizedChatClient {
     return status.heliaConnected;
   }
 
+  // ============================================================================
+  // Groups
+  // ============================================================================
+
+  /**
+   * Create a group and its underlying group conversation
+   */
+  async createGroup(request: CreateGroupRequest): Promise<CreateGroupResult> {
+    return this.ipcRenderer.invoke("dchat:group:create", request);
+  }
+
+  async getGroup(groupId: string): Promise<ChatGroup | null> {
+    return this.ipcRenderer.invoke("dchat:group:get", groupId);
+  }
+
+  /**
+   * List groups the local identity belongs to
+   */
+  async listGroups(): Promise<ChatGroup[]> {
+    return this.ipcRenderer.invoke("dchat:group:list");
+  }
+
+  async updateGroup(groupId: string, updates: UpdateGroupRequest): Promise<GroupActionResult> {
+    return this.ipcRenderer.invoke("dchat:group:update", groupId, updates);
+  }
+
+  async deleteGroup(groupId: string): Promise<GroupActionResult> {
+    return this.ipcRenderer.invoke("dchat:group:delete", groupId);
+  }
+
+  async leaveGroup(groupId: string): Promise<GroupActionResult> {
+    return this.ipcRenderer.invoke("dchat:group:leave", groupId);
+  }
+
+  async inviteToGroup(groupId: string, walletAddress: string, message?: string): Promise<GroupActionResult & { invite?: GroupInvite }> {
+    return this.ipcRenderer.invoke("dchat:group:invite", groupId, walletAddress, message);
+  }
+
+  /**
+   * Join with an invite or invite code, or ask to join
+   */
+  async joinGroup(request: JoinGroupRequest): Promise<JoinGroupResult> {
+    return this.ipcRenderer.invoke("dchat:group:join", request);
+  }
+
+  async reviewJoinRequest(groupId: string, requestId: string, approve: boolean): Promise<GroupActionResult> {
+    return this.ipcRenderer.invoke("dchat:group:review-request", groupId, requestId, approve);
+  }
+
+  async removeGroupMember(groupId: string, walletAddress: string): Promise<GroupActionResult> {
+    return this.ipcRenderer.invoke("dchat:group:remove-member", groupId, walletAddress);
+  }
+
+  async setGroupMemberRole(groupId: string, walletAddress: string, role: GroupRole): Promise<GroupActionResult> {
+    return this.ipcRenderer.invoke("dchat:group:set-role", groupId, walletAddress, role);
+  }
+
+  async setGroupMemberPermissions(groupId: string, walletAddress: string, permissions: Partial<GroupPermissions>): Promise<GroupActionResult> {
+    return this.ipcRenderer.invoke("dchat:group:set-permissions", groupId, walletAddress, permissions);
+  }
+
+  async transferGroupOwnership(groupId: string, walletAddress: string): Promise<GroupActionResult> {
+    return this.ipcRenderer.invoke("dchat:group:transfer", groupId, walletAddress);
+  }
+
+  async banGroupMember(groupId: string, walletAddress: string, options?: { reason?: string; durationMinutes?: number }): Promise<GroupActionResult> {
+    return this.ipcRenderer.invoke("dchat:group:ban", groupId, walletAddress, options);
+  }
+
+  async unbanGroupMember(groupId: string, walletAddress: string): Promise<GroupActionResult> {
+    return this.ipcRenderer.invoke("dchat:group:unban", groupId, walletAddress);
+  }
+
+  // ============================================================================
+  // Polls
+  // ============================================================================
+
+  async createPoll(request: CreatePollRequest): Promise<PollResult> {
+    return this.ipcRenderer.invoke("dchat:poll:create", request);
+  }
+
+  async listPolls(groupId: string): Promise<Poll[]> {
+    return this.ipcRenderer.invoke("dchat:poll:list", groupId);
+  }
+
+  async votePoll(pollId: string, optionIds: string[]): Promise<PollResult> {
+    return this.ipcRenderer.invoke("dchat:poll:vote", pollId, optionIds);
+  }
+
+  async addPollOption(pollId: string, text: string): Promise<PollResult> {
+    return this.ipcRenderer.invoke("dchat:poll:add-option", pollId, text);
+  }
+
+  async closePoll(pollId: string): Promise<PollResult> {
+    return this.ipcRenderer.invoke("dchat:poll:close", pollId);
+  }
+
+  // ============================================================================
+  // Meetings
+  // ============================================================================
+
+  async createMeeting(request: CreateMeetingRequest): Promise<CreateMeetingResult> {
+    return this.ipcRenderer.invoke("dchat:meeting:create", request);
+  }
+
+  async getMeeting(meetingId: string): Promise<Meeting | null> {
+    return this.ipcRenderer.invoke("dchat:meeting:get", meetingId);
+  }
+
+  async listMeetings(): Promise<Meeting[]> {
+    return this.ipcRenderer.invoke("dchat:meeting:list");
+  }
+
+  async startMeeting(meetingId: string): Promise<MeetingActionResult> {
+    return this.ipcRenderer.invoke("dchat:meeting:start", meetingId);
+  }
+
+  /**
+   * Join a meeting. `admitted` is false while waiting for the host.
+   */
+  async joinMeeting(request: JoinMeetingRequest): Promise<JoinMeetingResult> {
+    return this.ipcRenderer.invoke("dchat:meeting:join", request);
+  }
+
+  async leaveMeeting(meetingId: string): Promise<MeetingActionResult> {
+    return this.ipcRenderer.invoke("dchat:meeting:leave", meetingId);
+  }
+
+  async admitToMeeting(meetingId: string, walletAddress: string): Promise<MeetingActionResult> {
+    return this.ipcRenderer.invoke("dchat:meeting:admit", meetingId, walletAddress);
+  }
+
+  async removeFromMeeting(meetingId: string, walletAddress: string): Promise<MeetingActionResult> {
+    return this.ipcRenderer.invoke("dchat:meeting:remove", meetingId, walletAddress);
+  }
+
+  async setMeetingRole(meetingId: string, walletAddress: string, role: Exclude<MeetingRole, "host">): Promise<MeetingActionResult> {
+    return this.ipcRenderer.invoke("dchat:meeting:set-role", meetingId, walletAddress, role);
+  }
+
+  async updateMeetingMedia(meetingId: string, update: MediaStateUpdate): Promise<MeetingActionResult> {
+    return this.ipcRenderer.invoke("dchat:meeting:update-media", meetingId, update);
+  }
+
+  async endMeeting(meetingId: string): Promise<MeetingActionResult> {
+    return this.ipcRenderer.invoke("dchat:meeting:end", meetingId);
+  }
+
+  async cancelMeeting(meetingId: string): Promise<MeetingActionResult> {
+    return this.ipcRenderer.invoke("dchat:meeting:cancel", meetingId);
+  }
+
+  // ============================================================================
+  // Appointments
+  // ============================================================================
+
+  async createAppointment(request: CreateAppointmentRequest): Promise<CreateAppointmentResult> {
+    return this.ipcRenderer.invoke("dchat:appointment:create", request);
+  }
+
+  async getAppointment(appointmentId: string): Promise<Appointment | null> {
+    return this.ipcRenderer.invoke("dchat:appointment:get", appointmentId);
+  }
+
+  async listAppointments(): Promise<Appointment[]> {
+    return this.ipcRenderer.invoke("dchat:appointment:list");
+  }
+
+  /**
+   * Expand recurring appointments into occurrences between two ISO timestamps
+   */
+  async listAppointmentOccurrences(from: string, to: string): Promise<AppointmentOccurrence[]> {
+    return this.ipcRenderer.invoke("dchat:appointment:occurrences", from, to);
+  }
+
+  async updateAppointment(appointmentId: string, updates: UpdateAppointmentRequest): Promise<CreateAppointmentResult> {
+    return this.ipcRenderer.invoke("dchat:appointment:update", appointmentId, updates);
+  }
+
+  async respondToAppointment(
+    appointmentId: string,
+    response: Exclude<AppointmentAttendee["responseStatus"], "pending">,
+    comment?: string
+  ): Promise<CreateAppointmentResult> {
+    return this.ipcRenderer.invoke("dchat:appointment:respond", appointmentId, response, comment);
+  }
+
+  async cancelAppointment(appointmentId: string): Promise<CreateAppointmentResult> {
+    return this.ipcRenderer.invoke("dchat:appointment:cancel", appointmentId);
+  }
+
+  async deleteAppointment(appointmentId: string): Promise<boolean> {
+    return this.ipcRenderer.invoke("dchat:appointment:delete", appointmentId);
+  }
+
   // ============================================================================
   // Self-Test Methods
   // ============================================================================
@@ -25,6 +25,7 @@ import type {
   FederatedInferenceExecutionRequest,
   FederatedInferenceExecutionResult,
   FederationStats,
+  FederationNetworkStatus,
   TransactionStatus,
 } from "@/types/federation_types";
 import type { NFTListing } from "@/types/nft_types";
@@ -69,6 +70,26 @@ export const FederationClient = {
     return getIpcRenderer().invoke("federation:get-identity");
   },
 
+  // ============= Network =============
+
+  /**
+   * Start the libp2p node used to reach federation peers
+   */
+  async startNetwork(): Promise<FederationNetworkStatus> {
+    return getIpcRenderer().invoke("federation:network:start");
+  },
+
+  /**
+   * Stop the federation libp2p node
+   */
+  async stopNetwork(): Promise<FederationNetworkStatus> {
+    return getIpcRenderer().invoke("federation:network:stop");
+  },
+
+  async getNetworkStatus(): Promise<FederationNetworkStatus> {
+    return getIpcRenderer().invoke("federation:network:status");
+  },
+
   // ============= Peers =============
 
   /**
@@ -189,7 +210,7 @@ export const FederationClient = {
     callbacks: {
       onChunk: (content: string) => void;
       onDone?: (data: {
-        status: "local" | "dispatched";
+        status: "local" | "remote";
         route: FederatedInferenceRoute;
         recordId?: string;
         cid?: string;
@@ -58,3 +58,34 @@ export interface GitInitParams extends GitBaseParams {
 export interface GitStageToRevertParams extends GitBaseParams {
   targetOid: string;
 }
+export interface GitCreateBranchParams extends GitBaseParams {
+  branch: string;
+  startPoint: string; // commit hash or ref the branch starts from
+  force?: boolean; // move the branch if it already exists
+}
+export interface GitIsAncestorParams extends GitBaseParams {
+  ancestor: string;
+  ref: string;
+}
+export interface GitMergeBaseParams extends GitBaseParams {
+  refs: [string, string];
+}
+export interface GitMergeParams extends GitBaseParams {
+  ours: string; // branch that receives the merge
+  theirs: string;
+  message: string;
+}
+export interface GitMergeResult {
+  status: "up-to-date" | "fast-forward" | "merged" | "conflicts";
+  commitHash?: string;
+  // Files both sides changed in ways that can't be combined automatically
+  conflicts?: string[];
+}
+export interface GitChangedFilesParams extends GitBaseParams {
+  from: string;
+  to: string;
+}
+export interface GitChangedFile {
+  path: string;
+  status: "added" | "modified" | "deleted";
+}
@@ -3,19 +3,66 @@
  * Handles CRUD operations for AI agents, tools, workflows, and deployments
  */
 
-import { IpcMainInvokeEvent, ipcMain } from "electron";
+import { IpcMainInvokeEvent, ipcMain, type WebContents } from "electron";
+import vm from "node:vm";
+import { v4 as uuidv4 } from "uuid";
+import {
+  generateText,
+  jsonSchema,
+  stepCountIs,
+  tool,
+  type JSONSchema7,
+  type ToolSet,
+} from "ai";
 import { db } from "@/db";
 import {
   agents,
   agentTools,
   agentWorkflows,
+  agentWorkflowExecutions,
   agentDeployments,
   agentTestSessions,
   agentKnowledgeBases,
   agentUIComponents,
 } from "@/db/schema";
-import { eq, desc } from "drizzle-orm";
+import { and, eq, desc, inArray } from "drizzle-orm";
 import log from "electron-log";
+import { safeSend } from "../utils/safe_sender";
+import { getAgentModelClient } from "../utils/agent_model_client";
+import {
+  buildAgentBundle,
+  startDockerAgent,
+  startLocalAgent,
+  stopAgentDeployment,
+  type RunningAgentDeployment,
+} from "../utils/agent_deployment_utils";
+import { readSettings } from "../../main/settings";
+import {
+  deleteKnowledgeIndex,
+  indexKnowledgeBase,
+  searchKnowledgeBases,
+} from "../utils/knowledge_base_indexer";
+import { formatRetrievedContext } from "@/lib/knowledge_base_index";
+import {
+  compareReplayTurn,
+  computeTestMetrics,
+  countMessageErrors,
+  getReplayTurns,
+} from "@/lib/agent_test_metrics";
+import { runInSandbox } from "../utils/agent_tool_sandbox";
+import { validateToolInput } from "@/lib/tool_input_schema";
+import {
+  getAgentDeploymentDir,
+  removeAgentDeploymentDir,
+  writeAgentBundle,
+} from "./agent_export_handlers";
+import {
+  WorkflowExecutor,
+  createInitialRunState,
+  createInitialVariables,
+  type WorkflowNodeRunners,
+  type WorkflowRunState,
+} from "@/lib/agent_workflow_executor";
 
 import type {
   CreateAgentRequest,
@@ -23,13 +70,35 @@ import type {
   CreateAgentToolRequest,
   UpdateAgentToolRequest,
   DeployAgentRequest,
+  DeploymentConfig,
   Agent,
   AgentTool,
   AgentWorkflow,
   AgentDeployment,
   AgentTestSession,
+  AgentTestMessage,
+  AgentToolCall,
+  ReplayTestSessionResult,
+  TestAgentRequest,
+  TestAgentResponse,
+  TestReplayComparison,
   AgentKnowledgeBase,
   AgentUIComponent,
+  AgentToolApprovalRequest,
+  ExecuteAgentToolRequest,
+  ToolExecutionResult,
+  ToolInputSchema,
+  ToolSandboxPermissions,
+  KnowledgeBaseConfig,
+  KnowledgeSearchRequest,
+  KnowledgeSearchResult,
+  KnowledgeSourceType,
+  RunWorkflowRequest,
+  ResumeWorkflowRequest,
+  WorkflowDefinition,
+  WorkflowExecution,
+  WorkflowExecutionEvent,
+  WorkflowExecutionStep,
 } from "@/types/agent_builder";
 
 const logger = log.scope("agent_builder_handlers");
@@ -127,6 +196,16 @@ export async function handleDeleteAgent(
 ): Promise<void> {
   logger.info("Deleting agent:", agentId);
 
+  // Deployment rows go with the agent; their processes and bundles must too
+  const deployments = await db.query.agentDeployments.findMany({
+    where: eq(agentDeployments.agentId, agentId),
+  });
+  for (const deployment of deployments) {
+    deploymentAbortControllers.get(deployment.id)?.abort();
+    await stopAgentDeployment(deployment.id, deployment.target);
+    await removeAgentDeploymentDir(deployment.id);
+  }
+
   await db.delete(agents).where(eq(agents.id, agentId));
 }
 
@@ -173,6 +252,7 @@ export async function handleDuplicateAgent(
         inputSchema: tool.inputSchema,
         implementationCode: tool.implementationCode,
         requiresApproval: tool.requiresApproval,
+        permissionsJson: tool.permissionsJson,
         enabled: tool.enabled,
       }))
     );
@@ -203,6 +283,7 @@ export async function handleCreateAgentTool(
   request: CreateAgentToolRequest
 ): Promise<AgentTool> {
   logger.info("Creating tool for agent:", request.agentId);
+  assertValidToolCode(request.implementationCode);
 
   const [tool] = await db
     .insert(agentTools)
@@ -213,6 +294,8 @@ export async function handleCreateAgentTool(
       inputSchema: (request.inputSchema as unknown as Record<string, unknown>) ?? null,
       implementationCode: request.implementationCode,
       requiresApproval: request.requiresApproval ?? false,
+      permissionsJson:
+        (request.permissions as unknown as Record<string, unknown>) ?? null,
       enabled: true,
     })
     .returning();
@@ -240,8 +323,12 @@ export async function handleUpdateAgentTool(
   if (request.name !== undefined) updateData.name = request.name;
   if (request.description !== undefined) updateData.description = request.description;
   if (request.inputSchema !== undefined) updateData.inputSchema = request.inputSchema;
-  if (request.implementationCode !== undefined) updateData.implementationCode = request.implementationCode;
+  if (request.implementationCode !== undefined) {
+    assertValidToolCode(request.implementationCode);
+    updateData.implementationCode = request.implementationCode;
+  }
   if (request.requiresApproval !== undefined) updateData.requiresApproval = request.requiresApproval;
+  if (request.permissions !== undefined) updateData.permissionsJson = request.permissions;
   if (request.enabled !== undefined) updateData.enabled = request.enabled;
 
   const [updated] = await db
@@ -264,6 +351,126 @@ export async function handleDeleteAgentTool(
   await db.delete(agentTools).where(eq(agentTools.id, toolId));
 }
 
+export async function handleExecuteAgentTool(
+  event: IpcMainInvokeEvent,
+  request: ExecuteAgentToolRequest
+): Promise<ToolExecutionResult> {
+  const tool = await db.query.agentTools.findFirst({
+    where: eq(agentTools.id, request.toolId),
+  });
+  if (!tool) {
+    throw new Error(`Tool not found: ${request.toolId}`);
+  }
+  return executeAgentTool(tool, request.input, () => event.sender);
+}
+
+export async function handleAgentToolApprovalResponse(
+  _event: IpcMainInvokeEvent,
+  params: { requestId: string; approved: boolean }
+): Promise<void> {
+  const pending = pendingToolApprovals.get(params.requestId);
+  if (pending) {
+    pendingToolApprovals.delete(params.requestId);
+    clearTimeout(pending.timeout);
+    pending.resolve(params.approved);
+  }
+}
+
+const TOOL_APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+
+const pendingToolApprovals = new Map<
+  string,
+  { resolve: (approved: boolean) => void; timeout: NodeJS.Timeout }
+>();
+
+/**
+ * Validates the input, asks the user when the tool requires approval, and
+ * runs the implementation in the sandbox. Failures are returned in the
+ * result rather than thrown.
+ */
+async function executeAgentTool(
+  tool: typeof agentTools.$inferSelect,
+  input: unknown,
+  getSender: () => WebContents | undefined
+): Promise<ToolExecutionResult> {
+  const fail = (error: string): ToolExecutionResult => ({
+    success: false,
+    error,
+    executionTimeMs: 0,
+  });
+
+  if (!tool.enabled) {
+    return fail(`Tool "${tool.name}" is disabled`);
+  }
+  if (!tool.implementationCode) {
+    return fail(`Tool "${tool.name}" has no implementation`);
+  }
+
+  const validation = validateToolInput(
+    tool.inputSchema as unknown as ToolInputSchema | null,
+    input
+  );
+  if (!validation.valid) {
+    return fail(`Invalid input for "${tool.name}": ${validation.errors.join("; ")}`);
+  }
+
+  if (tool.requiresApproval) {
+    const approved = await requestAgentToolApproval(getSender(), tool, validation.value);
+    if (!approved) {
+      return fail(`Running "${tool.name}" was declined by the user`);
+    }
+  }
+
+  const result = await runInSandbox({
+    source: tool.implementationCode,
+    scope: { input: validation.value },
+    permissions: tool.permissionsJson as ToolSandboxPermissions | null,
+  });
+  if (!result.success) {
+    logger.warn(`Tool "${tool.name}" failed:`, result.error);
+  }
+  return result;
+}
+
+/**
+ * Asks the renderer to approve a tool call. Without a window to ask, or when
+ * nobody answers in time, the call is declined.
+ */
+function requestAgentToolApproval(
+  sender: WebContents | undefined,
+  tool: typeof agentTools.$inferSelect,
+  input: Record<string, unknown>
+): Promise<boolean> {
+  if (!sender || sender.isDestroyed()) {
+    return Promise.resolve(false);
+  }
+
+  const request: AgentToolApprovalRequest = {
+    requestId: uuidv4(),
+    agentId: tool.agentId,
+    toolName: tool.name,
+    toolDescription: tool.description,
+    input,
+  };
+  return new Promise((resolve) => {
+    const timeout = setTimeout(() => {
+      pendingToolApprovals.delete(request.requestId);
+      resolve(false);
+    }, TOOL_APPROVAL_TIMEOUT_MS);
+    pendingToolApprovals.set(request.requestId, { resolve, timeout });
+    safeSend(sender, "agent:tool:approval-request", request);
+  });
+}
+
+function assertValidToolCode(code: string | undefined): void {
+  if (!code) return;
+  try {
+    new vm.Script(`(async () => {\n${code}\n})()`);
+  } catch (error) {
+    throw new Error(`Invalid tool code: ${(error as Error).message}`);
+  }
+}
+
 // ============================================================================
 // Agent Workflow Operations
 // ============================================================================
@@ -335,6 +542,402 @@ export async function handleDeleteAgentWorkflow(
   await db.delete(agentWorkflows).where(eq(agentWorkflows.id, workflowId));
 }
 
+// ============================================================================
+// Agent Workflow Execution
+// ============================================================================
+
+const MAX_SUBAGENT_DEPTH = 3;
+
+interface ActiveWorkflowRun {
+  executor: WorkflowExecutor;
+  sender: WebContents;
+  humanTimeout?: NodeJS.Timeout;
+}
+
+const activeWorkflowRuns = new Map<string, ActiveWorkflowRun>();
+
+export async function handleRunAgentWorkflow(
+  event: IpcMainInvokeEvent,
+  request: RunWorkflowRequest
+): Promise<WorkflowExecution> {
+  const workflow = await db.query.agentWorkflows.findFirst({
+    where: eq(agentWorkflows.id, request.workflowId),
+  });
+  if (!workflow) {
+    throw new Error(`Workflow not found: ${request.workflowId}`);
+  }
+
+  const definition = workflow.workflowJson as unknown as WorkflowDefinition | null;
+  if (!definition || !definition.entryNodeId) {
+    throw new Error(`Workflow "${workflow.name}" has no entry node`);
+  }
+
+  const execution: WorkflowExecution = {
+    id: uuidv4(),
+    workflowId: workflow.id,
+    status: "running",
+    variables: createInitialVariables(definition, request.variables),
+    history: [],
+    startedAt: new Date(),
+  };
+  const state = createInitialRunState(definition);
+
+  await db.insert(agentWorkflowExecutions).values({
+    id: execution.id,
+    workflowId: workflow.id,
+    status: execution.status,
+    variablesJson: execution.variables,
+    historyJson: [],
+    stateJson: state as unknown as Record<string, unknown>,
+    startedAt: execution.startedAt,
+  });
+
+  logger.info("Running workflow:", workflow.id, "execution:", execution.id);
+
+  const executor = await createWorkflowExecutor(
+    workflow.agentId,
+    definition,
+    execution,
+    state
+  );
+  activeWorkflowRuns.set(execution.id, { executor, sender: event.sender });
+  void driveWorkflowRun(execution.id, () => executor.run());
+
+  return { ...execution };
+}
+
+export async function handleResumeAgentWorkflow(
+  event: IpcMainInvokeEvent,
+  request: ResumeWorkflowRequest
+): Promise<WorkflowExecution> {
+  let run = activeWorkflowRuns.get(request.executionId);
+
+  if (!run) {
+    // The app may have restarted since the run paused; rebuild it from the DB.
+    const row = await db.query.agentWorkflowExecutions.findFirst({
+      where: eq(agentWorkflowExecutions.id, request.executionId),
+      with: { workflow: true },
+    });
+    if (!row) {
+      throw new Error(`Workflow execution not found: ${request.executionId}`);
+    }
+    const definition = row.workflow.workflowJson as unknown as WorkflowDefinition;
+    const executor = await createWorkflowExecutor(
+      row.workflow.agentId,
+      definition,
+      mapWorkflowExecutionFromDb(row),
+      row.stateJson as unknown as WorkflowRunState
+    );
+    run = { executor, sender: event.sender };
+    activeWorkflowRuns.set(request.executionId, run);
+  }
+
+  if (run.executor.execution.status !== "paused") {
+    throw new Error(`Workflow execution is not paused: ${request.executionId}`);
+  }
+
+  run.sender = event.sender;
+  clearTimeout(run.humanTimeout);
+  const executor = run.executor;
+  void driveWorkflowRun(request.executionId, () => executor.resume(request.input));
+
+  return { ...executor.execution };
+}
+
+export async function handleCancelAgentWorkflow(
+  _event: IpcMainInvokeEvent,
+  executionId: string
+): Promise<void> {
+  const run = activeWorkflowRuns.get(executionId);
+  if (run && run.executor.execution.status === "running") {
+    run.executor.cancel();
+    return;
+  }
+
+  // Paused (or orphaned) runs have nothing in flight, so mark them directly.
+  if (run) {
+    clearTimeout(run.humanTimeout);
+    activeWorkflowRuns.delete(executionId);
+  }
+  await db
+    .update(agentWorkflowExecutions)
+    .set({ status: "cancelled", currentNodeId: null, completedAt: new Date() })
+    .where(eq(agentWorkflowExecutions.id, executionId));
+}
+
+export async function handleGetWorkflowExecutions(
+  _event: IpcMainInvokeEvent,
+  workflowId: number
+): Promise<WorkflowExecution[]> {
+  const rows = await db.query.agentWorkflowExecutions.findMany({
+    where: eq(agentWorkflowExecutions.workflowId, workflowId),
+    orderBy: [desc(agentWorkflowExecutions.startedAt)],
+  });
+
+  return rows.map(mapWorkflowExecutionFromDb);
+}
+
+export async function handleGetWorkflowExecution(
+  _event: IpcMainInvokeEvent,
+  executionId: string
+): Promise<WorkflowExecution | null> {
+  const active = activeWorkflowRuns.get(executionId);
+  if (active) {
+    return { ...active.executor.execution };
+  }
+
+  const row = await db.query.agentWorkflowExecutions.findFirst({
+    where: eq(agentWorkflowExecutions.id, executionId),
+  });
+  return row ? mapWorkflowExecutionFromDb(row) : null;
+}
+
+async function driveWorkflowRun(
+  executionId: string,
+  step: () => Promise<WorkflowExecution>
+): Promise<void> {
+  try {
+    const execution = await step();
+    if (execution.status !== "paused") {
+      activeWorkflowRuns.delete(executionId);
+    }
+  } catch (error) {
+    logger.error("Workflow execution crashed:", executionId, error);
+    activeWorkflowRuns.delete(executionId);
+  }
+}
+
+async function createWorkflowExecutor(
+  agentId: number,
+  definition: WorkflowDefinition,
+  execution: WorkflowExecution,
+  state: WorkflowRunState,
+  depth = 0,
+  getSender = () => activeWorkflowRuns.get(execution.id)?.sender
+): Promise<WorkflowExecutor> {
+  const runners = await createWorkflowRunners(agentId, depth, getSender);
+
+  return new WorkflowExecutor(definition, execution, state, {
+    runners,
+    onEvent: (type, current, step) => {
+      if (depth > 0) return;
+      const run = activeWorkflowRuns.get(current.id);
+      const payload: WorkflowExecutionEvent = {
+        type,
+        executionId: current.id,
+        workflowId: current.workflowId,
+        step: step ? { ...step } : undefined,
+        execution: { ...current, history: [...current.history] },
+      };
+      safeSend(run?.sender, "agent:workflow:event", payload);
+
+      if (type === "execution:paused" && run) {
+        scheduleHumanTimeout(run, definition, current);
+      }
+    },
+    persist: depth > 0 ? undefined : persistWorkflowExecution,
+  });
+}
+
+function scheduleHumanTimeout(
+  run: ActiveWorkflowRun,
+  definition: WorkflowDefinition,
+  execution: WorkflowExecution
+): void {
+  const node = definition.nodes.find((n) => n.id === execution.currentNodeId);
+  const timeout = node?.config.timeout;
+  if (!timeout || timeout <= 0) return;
+
+  clearTimeout(run.humanTimeout);
+  run.humanTimeout = setTimeout(async () => {
+    if (execution.status !== "paused" || execution.currentNodeId !== node.id) return;
+
+    const pending = execution.history.find(
+      (s) => s.nodeId === node.id && s.status === "pending"
+    );
+    if (pending) {
+      pending.status = "failed";
+      pending.error = "Timed out waiting for human input";
+      pending.completedAt = new Date();
+    }
+    execution.status = "failed";
+    execution.error = `Timed out waiting for human input at "${node.name}"`;
+    execution.completedAt = new Date();
+
+    activeWorkflowRuns.delete(execution.id);
+    await persistWorkflowExecution(execution, run.executor.getState());
+    safeSend(run.sender, "agent:workflow:event", {
+      type: "execution:failed",
+      executionId: execution.id,
+      workflowId: execution.workflowId,
+      step: pending,
+      execution,
+    } satisfies WorkflowExecutionEvent);
+  }, timeout);
+}
+
+/**
+ * Running workflows are driven by this process, so a run still marked as
+ * running at startup was cut off by a crash or quit. Paused runs are kept;
+ * they resume from their saved state.
+ */
+async function reconcileWorkflowExecutions(): Promise<void> {
+  await db
+    .update(agentWorkflowExecutions)
+    .set({
+      status: "failed",
+      currentNodeId: null,
+      error: "Workflow run was interrupted before it finished",
+      completedAt: new Date(),
+    })
+    .where(eq(agentWorkflowExecutions.status, "running"));
+}
+
+async function persistWorkflowExecution(
+  execution: WorkflowExecution,
+  state: WorkflowRunState
+): Promise<void> {
+  await db
+    .update(agentWorkflowExecutions)
+    .set({
+      status: execution.status,
+      currentNodeId: execution.currentNodeId ?? null,
+      variablesJson: execution.variables,
+      historyJson: execution.history,
+      stateJson: state as unknown as Record<string, unknown>,
+      error: execution.error ?? null,
+      completedAt: execution.completedAt ?? null,
+    })
+    .where(eq(agentWorkflowExecutions.id, execution.id));
+}
+
+async function createWorkflowRunners(
+  agentId: number,
+  depth: number,
+  getSender: () => WebContents | undefined
+): Promise<WorkflowNodeRunners> {
+  const agent = await db.query.agents.findFirst({
+    where: eq(agents.id, agentId),
+    with: { tools: true },
+  });
+  if (!agent) {
+    throw new Error(`Agent not found: ${agentId}`);
+  }
+
+  return {
+    llm: async (_node, request) => {
+      const { modelClient } = await getAgentModelClient(
+        request.modelId ?? agent.modelId
+      );
+      const result = await generateText({
+        model: modelClient.model,
+        system: await getAgentSystemPrompt(agent, request.prompt),
+        prompt: request.prompt,
+        temperature: request.temperature ?? agent.temperature ?? undefined,
+        maxOutputTokens: agent.maxTokens ?? undefined,
+      });
+      return result.text;
+    },
+
+    tool: async (node, input) => {
+      const tool = agent.tools.find((t) =>
+        node.config.toolId !== undefined
+          ? t.id === node.config.toolId
+          : t.name === node.config.toolName
+      );
+      if (!tool) {
+        throw new Error(`Tool not found for node "${node.name}"`);
+      }
+      const result = await executeAgentTool(tool, input, getSender);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      return result.output;
+    },
+
+    subagent: async (node, input) => {
+      if (!node.config.subagentId) {
+        throw new Error(`Subagent node "${node.name}" has no subagent`);
+      }
+      if (depth >= MAX_SUBAGENT_DEPTH) {
+        throw new Error("Maximum subagent nesting depth exceeded");
+      }
+      return runSubagent(node.config.subagentId, input, depth + 1, getSender);
+    },
+
+    code: async (_node, request) => {
+      if (request.language !== "javascript") {
+        throw new Error(`Unsupported code language: ${request.language}`);
+      }
+      const result = await runInSandbox({
+        source: request.source,
+        scope: request.scope,
+      });
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      return result.output;
+    },
+  };
+}
+
+async function runSubagent(
+  subagentId: number,
+  input: unknown,
+  depth: number,
+  getSender: () => WebContents | undefined
+): Promise<unknown> {
+  const subagent = await db.query.agents.findFirst({
+    where: eq(agents.id, subagentId),
+    with: { workflows: true },
+  });
+  if (!subagent) {
+    throw new Error(`Subagent not found: ${subagentId}`);
+  }
+
+  const workflow =
+    subagent.workflows.find((w) => w.isDefault) ?? subagent.workflows[0];
+  const definition = workflow?.workflowJson as unknown as WorkflowDefinition | null;
+
+  // Agents without a workflow answer with a single model call
+  if (!workflow || !definition?.entryNodeId) {
+    const prompt = typeof input === "string" ? input : JSON.stringify(input);
+    const { modelClient } = await getAgentModelClient(subagent.modelId);
+    const result = await generateText({
+      model: modelClient.model,
+      system: await getAgentSystemPrompt(subagent, prompt),
+      prompt,
+      temperature: subagent.temperature ?? undefined,
+      maxOutputTokens: subagent.maxTokens ?? undefined,
+    });
+    return result.text;
+  }
+
+  const execution: WorkflowExecution = {
+    id: uuidv4(),
+    workflowId: workflow.id,
+    status: "running",
+    variables: createInitialVariables(definition, { input }),
+    history: [],
+    startedAt: new Date(),
+  };
+  const executor = await createWorkflowExecutor(
+    subagent.id,
+    definition,
+    execution,
+    createInitialRunState(definition),
+    depth,
+    getSender
+  );
+  const result = await executor.run();
+  if (result.status !== "completed") {
+    throw new Error(
+      result.error ?? `Subagent workflow ended with status ${result.status}`
+    );
+  }
+  return result.history[result.history.length - 1]?.output;
+}
+
 // ============================================================================
 // Agent Deployment Operations
 // ============================================================================
@@ -345,6 +948,10 @@ export async function handleDeployAgent(
 ): Promise<AgentDeployment> {
   logger.info("Deploying agent:", request.agentId, "to", request.target);
 
+  if (request.target !== "local" && request.target !== "docker") {
+    throw new Error(`Deployment target "${request.target}" is not supported yet`);
+  }
+
   const [deployment] = await db
     .insert(agentDeployments)
     .values({
@@ -355,12 +962,118 @@ export async function handleDeployAgent(
     })
     .returning();
 
-  // TODO: Implement actual deployment logic based on target
-  // For now, just create the deployment record
+  // Building can take minutes; the renderer follows progress via agent:deployment:list
+  const controller = new AbortController();
+  deploymentAbortControllers.set(deployment.id, controller);
+  void runAgentDeployment(deployment.id, request, controller.signal);
 
   return mapDeploymentFromDb(deployment);
 }
 
+/** Deployments being built or started, so a stop can cancel them */
+const deploymentAbortControllers = new Map<number, AbortController>();
+
+async function runAgentDeployment(
+  deploymentId: number,
+  request: DeployAgentRequest,
+  signal: AbortSignal
+): Promise<void> {
+  const env = getDeploymentEnv(request.config);
+
+  try {
+    await setDeploymentStatus(deploymentId, { deploymentStatus: "building" });
+    const bundleDir = await writeAgentBundle(request.agentId, {
+      docker: request.target === "docker",
+      outputDir: getAgentDeploymentDir(deploymentId),
+    });
+
+    let running: RunningAgentDeployment;
+    if (request.target === "docker") {
+      signal.throwIfAborted();
+      await setDeploymentStatus(deploymentId, { deploymentStatus: "deploying" });
+      running = await startDockerAgent({
+        deploymentId,
+        agentId: request.agentId,
+        bundleDir,
+        env,
+        ports: request.config?.docker?.ports,
+      });
+    } else {
+      signal.throwIfAborted();
+      await buildAgentBundle(bundleDir, env);
+      signal.throwIfAborted();
+      await setDeploymentStatus(deploymentId, { deploymentStatus: "deploying" });
+      running = await startLocalAgent({
+        deploymentId,
+        bundleDir,
+        env,
+        onExit: (code) => {
+          logger.warn(`Agent deployment ${deploymentId} exited with code ${code}`);
+          void setDeploymentStatus(deploymentId, {
+            deploymentStatus: "failed",
+            error: `Agent process exited with code ${code}`,
+          });
+        },
+      });
+    }
+
+    signal.throwIfAborted();
+    await setDeploymentStatus(deploymentId, {
+      deploymentStatus: "deployed",
+      endpoint: running.endpoint,
+      deployedAt: new Date(),
+      error: null,
+    });
+    logger.info(`Agent deployment ${deploymentId} running at ${running.endpoint}`);
+  } catch (error) {
+    if (signal.aborted) {
+      // Stopped mid-deploy; whatever got started must not outlive the stop
+      logger.info(`Agent deployment ${deploymentId} stopped before it finished`);
+      await stopAgentDeployment(deploymentId, request.target);
+      await removeDeploymentBundle(deploymentId);
+      return;
+    }
+    logger.error(`Agent deployment ${deploymentId} failed:`, error);
+    await setDeploymentStatus(deploymentId, {
+      deploymentStatus: "failed",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    await removeDeploymentBundle(deploymentId);
+  } finally {
+    deploymentAbortControllers.delete(deploymentId);
+  }
+}
+
+/** A deployment that never finished has nothing to run from its bundle */
+async function removeDeploymentBundle(deploymentId: number): Promise<void> {
+  try {
+    await removeAgentDeploymentDir(deploymentId);
+  } catch (error) {
+    logger.warn(`Failed to remove bundle of deployment ${deploymentId}:`, error);
+  }
+}
+
+function getDeploymentEnv(config?: DeploymentConfig): Record<string, string> {
+  const env: Record<string, string> = { ...config?.envVars };
+  if (!env.OPENAI_API_KEY) {
+    const apiKey = readSettings().providerSettings?.openai?.apiKey?.value;
+    if (apiKey) {
+      env.OPENAI_API_KEY = apiKey;
+    }
+  }
+  return env;
+}
+
+async function setDeploymentStatus(
+  deploymentId: number,
+  values: Partial<typeof agentDeployments.$inferInsert>
+): Promise<void> {
+  await db
+    .update(agentDeployments)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(agentDeployments.id, deploymentId));
+}
+
 export async function handleGetAgentDeployments(
   _event: IpcMainInvokeEvent,
   agentId: number
@@ -377,24 +1090,69 @@ export async function handleStopDeployment(
   _event: IpcMainInvokeEvent,
   deploymentId: number
 ): Promise<void> {
+  const deployment = await db.query.agentDeployments.findFirst({
+    where: eq(agentDeployments.id, deploymentId),
+  });
+  if (!deployment) {
+    throw new Error(`Deployment not found: ${deploymentId}`);
+  }
+
+  logger.info("Stopping agent deployment:", deploymentId);
+  // A deployment still being built stops at its next phase
+  deploymentAbortControllers.get(deploymentId)?.abort();
+  await stopAgentDeployment(deploymentId, deployment.target);
+  await setDeploymentStatus(deploymentId, { deploymentStatus: "stopped" });
+}
+
+/**
+ * Local agents are child processes of the app and deployments in progress
+ * are driven by it, so neither survives a restart. Docker containers keep
+ * running and stay deployed.
+ */
+async function reconcileAgentDeployments(): Promise<void> {
   await db
     .update(agentDeployments)
-    .set({ deploymentStatus: "stopped" })
-    .where(eq(agentDeployments.id, deploymentId));
+    .set({ deploymentStatus: "stopped", updatedAt: new Date() })
+    .where(
+      and(
+        eq(agentDeployments.target, "local"),
+        eq(agentDeployments.deploymentStatus, "deployed")
+      )
+    );
+  await db
+    .update(agentDeployments)
+    .set({
+      deploymentStatus: "failed",
+      error: "Deployment was interrupted before it finished",
+      updatedAt: new Date(),
+    })
+    .where(
+      inArray(agentDeployments.deploymentStatus, [
+        "pending",
+        "building",
+        "deploying",
+      ])
+    );
 }
 
 // ============================================================================
 // Agent Test Session Operations
 // ============================================================================
 
+const MAX_TEST_TOOL_STEPS = 5;
+
 export async function handleCreateTestSession(
   _event: IpcMainInvokeEvent,
   agentId: number
 ): Promise<AgentTestSession> {
+  const agent = await db.query.agents.findFirst({
+    where: eq(agents.id, agentId),
+  });
   const [session] = await db
     .insert(agentTestSessions)
     .values({
       agentId,
+      agentVersion: agent?.version,
       messagesJson: [],
       metricsJson: {
         totalMessages: 0,
@@ -419,10 +1177,265 @@ export async function handleGetTestSessions(
   return sessions.map(mapTestSessionFromDb);
 }
 
+export async function handleSendTestMessage(
+  event: IpcMainInvokeEvent,
+  request: TestAgentRequest
+): Promise<TestAgentResponse> {
+  const agent = await db.query.agents.findFirst({
+    where: eq(agents.id, request.agentId),
+    with: { tools: true },
+  });
+  if (!agent) {
+    throw new Error("Agent not found");
+  }
+
+  const session = request.sessionId
+    ? await db.query.agentTestSessions.findFirst({
+        where: eq(agentTestSessions.id, request.sessionId),
+      })
+    : undefined;
+  if (request.sessionId && !session) {
+    throw new Error(`Test session not found: ${request.sessionId}`);
+  }
+
+  const history = session?.messagesJson ?? [];
+  const reply = await runAgentTestTurn(
+    agent,
+    history,
+    request.message,
+    () => event.sender
+  );
+  const messages = [...history, reply.userMessage, reply.assistantMessage];
+  const metrics = computeTestMetrics(messages);
+
+  let sessionId: number;
+  if (session) {
+    await db
+      .update(agentTestSessions)
+      .set({ messagesJson: messages, metricsJson: metrics })
+      .where(eq(agentTestSessions.id, session.id));
+    sessionId = session.id;
+  } else {
+    const [created] = await db
+      .insert(agentTestSessions)
+      .values({
+        agentId: agent.id,
+        agentVersion: agent.version,
+        messagesJson: messages,
+        metricsJson: metrics,
+      })
+      .returning();
+    sessionId = created.id;
+  }
+
+  const { assistantMessage } = reply;
+  return {
+    sessionId,
+    response: assistantMessage.content,
+    toolCalls: assistantMessage.toolCalls,
+    metrics: {
+      averageResponseTime: assistantMessage.latencyMs,
+      toolCallCount: assistantMessage.toolCalls?.length ?? 0,
+      errorCount: countMessageErrors(assistantMessage),
+      tokenUsage: assistantMessage.tokenUsage,
+    },
+    error: assistantMessage.error,
+  };
+}
+
+/**
+ * Re-runs every user message of a saved session against the agent's current
+ * configuration, storing the result as a new session linked to the original.
+ */
+export async function handleReplayTestSession(
+  event: IpcMainInvokeEvent,
+  sessionId: number
+): Promise<ReplayTestSessionResult> {
+  const original = await db.query.agentTestSessions.findFirst({
+    where: eq(agentTestSessions.id, sessionId),
+  });
+  if (!original) {
+    throw new Error(`Test session not found: ${sessionId}`);
+  }
+
+  const agent = await db.query.agents.findFirst({
+    where: eq(agents.id, original.agentId),
+    with: { tools: true },
+  });
+  if (!agent) {
+    throw new Error("Agent not found");
+  }
+
+  const originalMessages = original.messagesJson ?? [];
+  const messages: AgentTestMessage[] = [];
+  const comparisons: TestReplayComparison[] = [];
+
+  // Turns run one after another so each sees the replayed history before it
+  for (const turn of getReplayTurns(originalMessages)) {
+    const { userMessage, assistantMessage } = await runAgentTestTurn(
+      agent,
+      messages,
+      turn.input,
+      () => event.sender
+    );
+    messages.push(userMessage, assistantMessage);
+    comparisons.push(compareReplayTurn(turn, assistantMessage));
+  }
+
+  const [session] = await db
+    .insert(agentTestSessions)
+    .values({
+      agentId: agent.id,
+      agentVersion: agent.version,
+      replayOfSessionId: original.id,
+      messagesJson: messages,
+      metricsJson: computeTestMetrics(messages),
+    })
+    .returning();
+
+  return { session: mapTestSessionFromDb(session), comparisons };
+}
+
+export async function handleDeleteTestSession(
+  _event: IpcMainInvokeEvent,
+  sessionId: number
+): Promise<void> {
+  await db.delete(agentTestSessions).where(eq(agentTestSessions.id, sessionId));
+}
+
+type AgentWithTools = typeof agents.$inferSelect & {
+  tools: (typeof agentTools.$inferSelect)[];
+};
+
+/**
+ * Sends one user message to the agent, with the prior conversation as
+ * context, and returns the user/assistant message pair to record. Model
+ * errors are captured on the assistant message rather than thrown so the
+ * session keeps a record of the failure.
+ */
+async function runAgentTestTurn(
+  agent: AgentWithTools,
+  history: AgentTestMessage[],
+  content: string,
+  getSender: () => WebContents | undefined
+): Promise<{
+  userMessage: AgentTestMessage;
+  assistantMessage: AgentTestMessage;
+}> {
+  const userMessage: AgentTestMessage = {
+    id: uuidv4(),
+    role: "user",
+    content,
+    timestamp: Date.now(),
+  };
+  const toolCalls: AgentToolCall[] = [];
+  const startedAt = Date.now();
+
+  try {
+    const { modelClient } = await getAgentModelClient(agent.modelId);
+    const result = await generateText({
+      model: modelClient.model,
+      system: await getAgentSystemPrompt(agent, content),
+      messages: [...history, userMessage]
+        .filter((m) => m.role !== "system" && !m.error)
+        .map((m) => ({
+          role: m.role as "user" | "assistant",
+          content: m.content,
+        })),
+      tools: buildAgentTestTools(agent.tools, toolCalls, getSender),
+      stopWhen: stepCountIs(MAX_TEST_TOOL_STEPS),
+      temperature: agent.temperature ?? undefined,
+      maxOutputTokens: agent.maxTokens ?? undefined,
+    });
+
+    return {
+      userMessage,
+      assistantMessage: {
+        id: uuidv4(),
+        role: "assistant",
+        content: result.text,
+        timestamp: Date.now(),
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        latencyMs: Date.now() - startedAt,
+        tokenUsage: {
+          prompt: result.totalUsage.inputTokens ?? 0,
+          completion: result.totalUsage.outputTokens ?? 0,
+          total: result.totalUsage.totalTokens ?? 0,
+        },
+      },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`Agent test turn failed for agent ${agent.id}:`, message);
+    return {
+      userMessage,
+      assistantMessage: {
+        id: uuidv4(),
+        role: "assistant",
+        content: "",
+        timestamp: Date.now(),
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        latencyMs: Date.now() - startedAt,
+        error: message,
+      },
+    };
+  }
+}
+
+/**
+ * Exposes the agent's enabled tools to the model. Every invocation is
+ * recorded into `toolCalls`; tool errors are returned to the model as the
+ * tool result so it can recover.
+ */
+function buildAgentTestTools(
+  tools: (typeof agentTools.$inferSelect)[],
+  toolCalls: AgentToolCall[],
+  getSender: () => WebContents | undefined
+): ToolSet {
+  const toolSet: ToolSet = {};
+  for (const agentTool of tools) {
+    if (!agentTool.enabled) continue;
+
+    toolSet[agentTool.name] = tool({
+      description: agentTool.description,
+      inputSchema: jsonSchema<Record<string, unknown>>(
+        (agentTool.inputSchema as JSONSchema7 | null) ?? {
+          type: "object",
+          properties: {},
+        }
+      ),
+      execute: async (input) => {
+        const call: AgentToolCall = {
+          id: uuidv4(),
+          name: agentTool.name,
+          input,
+          status: "pending",
+        };
+        toolCalls.push(call);
+        const result = await executeAgentTool(agentTool, input, getSender);
+        if (!result.success) {
+          call.status = "failed";
+          call.error = result.error;
+          return { error: call.error };
+        }
+        call.output = result.output;
+        call.status = "completed";
+        return call.output;
+      },
+    });
+  }
+  return toolSet;
+}
+
 // ============================================================================
 // Agent Knowledge Base Operations
 // ============================================================================
 
+const RAG_TOP_K = 5;
+
+/** Knowledge bases with an indexing job running in this process */
+const indexingKnowledgeBases = new Set<number>();
+
 export async function handleCreateKnowledgeBase(
   _event: IpcMainInvokeEvent,
   agentId: number,
@@ -442,9 +1455,155 @@ export async function handleCreateKnowledgeBase(
     })
     .returning();
 
+  if (config) {
+    return startKnowledgeBaseIndexing(kb);
+  }
   return mapKnowledgeBaseFromDb(kb);
 }
 
+export async function handleIndexKnowledgeBase(
+  _event: IpcMainInvokeEvent,
+  knowledgeBaseId: number
+): Promise<AgentKnowledgeBase> {
+  const kb = await db.query.agentKnowledgeBases.findFirst({
+    where: eq(agentKnowledgeBases.id, knowledgeBaseId),
+  });
+  if (!kb) {
+    throw new Error(`Knowledge base not found: ${knowledgeBaseId}`);
+  }
+  // The stored status can't tell a running job from one lost to a crash
+  if (indexingKnowledgeBases.has(kb.id)) {
+    throw new Error("Knowledge base is already being indexed");
+  }
+  return startKnowledgeBaseIndexing(kb);
+}
+
+export async function handleDeleteKnowledgeBase(
+  _event: IpcMainInvokeEvent,
+  knowledgeBaseId: number
+): Promise<void> {
+  await db
+    .delete(agentKnowledgeBases)
+    .where(eq(agentKnowledgeBases.id, knowledgeBaseId));
+  await deleteKnowledgeIndex(knowledgeBaseId);
+}
+
+export async function handleSearchKnowledgeBase(
+  _event: IpcMainInvokeEvent,
+  request: KnowledgeSearchRequest
+): Promise<KnowledgeSearchResult[]> {
+  return retrieveAgentKnowledge(
+    request.agentId,
+    request.query,
+    request.topK,
+    request.knowledgeBaseId
+  );
+}
+
+/**
+ * Marks the knowledge base as indexing and builds its index in the
+ * background. Progress is reported through `indexStatus`.
+ */
+async function startKnowledgeBaseIndexing(
+  kb: typeof agentKnowledgeBases.$inferSelect
+): Promise<AgentKnowledgeBase> {
+  indexingKnowledgeBases.add(kb.id);
+  let updated: typeof agentKnowledgeBases.$inferSelect;
+  try {
+    [updated] = await db
+      .update(agentKnowledgeBases)
+      .set({ indexStatus: "indexing", indexError: null, updatedAt: new Date() })
+      .where(eq(agentKnowledgeBases.id, kb.id))
+      .returning();
+  } catch (error) {
+    indexingKnowledgeBases.delete(kb.id);
+    throw error;
+  }
+
+  void indexKnowledgeBase({
+    id: kb.id,
+    sourceType: kb.sourceType as KnowledgeSourceType,
+    sourceConfig: kb.sourceConfigJson as unknown as KnowledgeBaseConfig | null,
+    embeddingModel: kb.embeddingModel,
+    chunkSize: kb.chunkSize ?? 1000,
+    chunkOverlap: kb.chunkOverlap ?? 200,
+  })
+    .then(({ documentCount }) =>
+      db
+        .update(agentKnowledgeBases)
+        .set({ indexStatus: "indexed", documentCount, updatedAt: new Date() })
+        .where(eq(agentKnowledgeBases.id, kb.id))
+    )
+    .catch((error) => {
+      logger.error(`Failed to index knowledge base ${kb.id}:`, error);
+      return db
+        .update(agentKnowledgeBases)
+        .set({
+          indexStatus: "failed",
+          indexError: error instanceof Error ? error.message : String(error),
+          updatedAt: new Date(),
+        })
+        .where(eq(agentKnowledgeBases.id, kb.id));
+    })
+    .finally(() => indexingKnowledgeBases.delete(kb.id));
+
+  return mapKnowledgeBaseFromDb(updated);
+}
+
+/**
+ * Indexing runs in the background of this process, so a job still marked as
+ * indexing at startup was cut off by a crash or quit. Mark it failed so it
+ * can be indexed again.
+ */
+async function resetInterruptedIndexing(): Promise<void> {
+  await db
+    .update(agentKnowledgeBases)
+    .set({
+      indexStatus: "failed",
+      indexError: "Indexing was interrupted before it finished",
+      updatedAt: new Date(),
+    })
+    .where(eq(agentKnowledgeBases.indexStatus, "indexing"));
+}
+
+/**
+ * Retrieves the chunks most relevant to `query` from the agent's indexed
+ * knowledge bases.
+ */
+async function retrieveAgentKnowledge(
+  agentId: number,
+  query: string,
+  topK = RAG_TOP_K,
+  knowledgeBaseId?: number
+): Promise<KnowledgeSearchResult[]> {
+  const kbs = await db.query.agentKnowledgeBases.findMany({
+    where: eq(agentKnowledgeBases.agentId, agentId),
+  });
+  const ids = kbs
+    .filter((kb) => kb.indexStatus === "indexed")
+    .filter((kb) => knowledgeBaseId === undefined || kb.id === knowledgeBaseId)
+    .map((kb) => kb.id);
+  if (ids.length === 0) return [];
+  return searchKnowledgeBases(ids, query, topK);
+}
+
+/**
+ * Returns the system prompt to answer `query` with. RAG agents get the
+ * retrieved knowledge base excerpts appended.
+ */
+async function getAgentSystemPrompt(
+  agent: typeof agents.$inferSelect,
+  query: string
+): Promise<string | undefined> {
+  if (agent.type !== "rag") {
+    return agent.systemPrompt ?? undefined;
+  }
+  const context = formatRetrievedContext(
+    await retrieveAgentKnowledge(agent.id, query)
+  );
+  return [agent.systemPrompt, context].filter(Boolean).join("\n\n") || undefined;
+}
+
 export async function handleGetKnowledgeBases(
   _event: IpcMainInvokeEvent,
   agentId: number
@@ -523,6 +1682,7 @@ function mapToolFromDb(tool: typeof agentTools.$inferSelect): AgentTool {
     inputSchema: tool.inputSchema as unknown as AgentTool["inputSchema"],
     implementationCode: tool.implementationCode ?? undefined,
     requiresApproval: tool.requiresApproval,
+    permissions: (tool.permissionsJson as ToolSandboxPermissions | null) ?? undefined,
     enabled: tool.enabled,
     createdAt: tool.createdAt,
     updatedAt: tool.updatedAt,
@@ -542,6 +1702,27 @@ function mapWorkflowFromDb(workflow: typeof agentWorkflows.$inferSelect): AgentW
   };
 }
 
+function mapWorkflowExecutionFromDb(
+  row: typeof agentWorkflowExecutions.$inferSelect
+): WorkflowExecution {
+  const history = (row.historyJson ?? []) as WorkflowExecutionStep[];
+  return {
+    id: row.id,
+    workflowId: row.workflowId,
+    status: row.status as WorkflowExecution["status"],
+    currentNodeId: row.currentNodeId ?? undefined,
+    variables: row.variablesJson ?? {},
+    history: history.map((step) => ({
+      ...step,
+      startedAt: new Date(step.startedAt),
+      completedAt: step.completedAt ? new Date(step.completedAt) : undefined,
+    })),
+    startedAt: row.startedAt,
+    completedAt: row.completedAt ?? undefined,
+    error: row.error ?? undefined,
+  };
+}
+
 function mapDeploymentFromDb(deployment: typeof agentDeployments.$inferSelect): AgentDeployment {
   return {
     id: deployment.id,
@@ -551,6 +1732,7 @@ function mapDeploymentFromDb(deployment: typeof agentDeployments.$inferSelect):
     endpoint: deployment.endpoint ?? undefined,
     status: deployment.deploymentStatus as AgentDeployment["status"],
     deployedAt: deployment.deployedAt ?? undefined,
+    error: deployment.error ?? undefined,
     createdAt: deployment.createdAt,
     updatedAt: deployment.updatedAt,
   };
@@ -560,6 +1742,8 @@ function mapTestSessionFromDb(session: typeof agentTestSessions.$inferSelect): A
   return {
     id: session.id,
     agentId: session.agentId,
+    agentVersion: session.agentVersion ?? undefined,
+    replayOfSessionId: session.replayOfSessionId ?? undefined,
     messages: session.messagesJson as unknown as AgentTestSession["messages"],
     metrics: session.metricsJson ?? undefined,
     createdAt: session.createdAt,
@@ -579,6 +1763,7 @@ function mapKnowledgeBaseFromDb(kb: typeof agentKnowledgeBases.$inferSelect): Ag
     chunkOverlap: kb.chunkOverlap ?? 200,
     indexStatus: kb.indexStatus as AgentKnowledgeBase["indexStatus"],
     documentCount: kb.documentCount ?? 0,
+    indexError: kb.indexError ?? undefined,
     createdAt: kb.createdAt,
     updatedAt: kb.updatedAt,
   };
@@ -616,25 +1801,47 @@ export function registerAgentBuilderHandlers(): void {
   ipcMain.handle("agent:tool:list", handleGetAgentTools);
   ipcMain.handle("agent:tool:update", handleUpdateAgentTool);
   ipcMain.handle("agent:tool:delete", handleDeleteAgentTool);
+  ipcMain.handle("agent:tool:execute", handleExecuteAgentTool);
+  ipcMain.handle("agent:tool:approval-response", handleAgentToolApprovalResponse);
 
   // Agent Workflows
   ipcMain.handle("agent:workflow:create", handleCreateAgentWorkflow);
   ipcMain.handle("agent:workflow:list", handleGetAgentWorkflows);
   ipcMain.handle("agent:workflow:update", handleUpdateAgentWorkflow);
   ipcMain.handle("agent:workflow:delete", handleDeleteAgentWorkflow);
+  ipcMain.handle("agent:workflow:run", handleRunAgentWorkflow);
+  ipcMain.handle("agent:workflow:resume", handleResumeAgentWorkflow);
+  ipcMain.handle("agent:workflow:cancel", handleCancelAgentWorkflow);
+  ipcMain.handle("agent:workflow:executions", handleGetWorkflowExecutions);
+  ipcMain.handle("agent:workflow:execution:get", handleGetWorkflowExecution);
+  reconcileWorkflowExecutions().catch((error) =>
+    logger.error("Failed to reconcile interrupted workflow runs:", error)
+  );
 
   // Agent Deployments
   ipcMain.handle("agent:deploy", handleDeployAgent);
   ipcMain.handle("agent:deployment:list", handleGetAgentDeployments);
   ipcMain.handle("agent:deployment:stop", handleStopDeployment);
+  reconcileAgentDeployments().catch((error) =>
+    logger.error("Failed to reconcile agent deployments:", error)
+  );
 
   // Agent Test Sessions
   ipcMain.handle("agent:test:create", handleCreateTestSession);
   ipcMain.handle("agent:test:list", handleGetTestSessions);
+  ipcMain.handle("agent:test:message", handleSendTestMessage);
+  ipcMain.handle("agent:test:replay", handleReplayTestSession);
+  ipcMain.handle("agent:test:delete", handleDeleteTestSession);
 
   // Agent Knowledge Bases
   ipcMain.handle("agent:kb:create", handleCreateKnowledgeBase);
   ipcMain.handle("agent:kb:list", handleGetKnowledgeBases);
+  ipcMain.handle("agent:kb:index", handleIndexKnowledgeBase);
+  ipcMain.handle("agent:kb:delete", handleDeleteKnowledgeBase);
+  ipcMain.handle("agent:kb:search", handleSearchKnowledgeBase);
+  resetInterruptedIndexing().catch((error) =>
+    logger.error("Failed to reset interrupted knowledge base indexing:", error)
+  );
 
   // Agent UI Components
   ipcMain.handle("agent:ui:create", handleCreateUIComponent);
@@ -23,6 +23,25 @@ function getAgentsExportPath(): string {
   return path.join(getUserDataPath(), "agent-exports");
 }
 
+/**
+ * Where a deployment's bundle is built and run from. Each deployment gets its
+ * own directory so redeploying an agent never rebuilds under a running one.
+ */
+export function getAgentDeploymentDir(deploymentId: number): string {
+  return path.join(
+    getAgentsExportPath(),
+    "deployments",
+    `deployment-${deploymentId}`
+  );
+}
+
+/** Removes a deployment's bundle once nothing will run from it again */
+export async function removeAgentDeploymentDir(
+  deploymentId: number
+): Promise<void> {
+  await fs.remove(getAgentDeploymentDir(deploymentId));
+}
+
 import type {
   ExportAgentRequest,
   ExportAgentResponse,
@@ -108,103 +127,133 @@ export async function handleExportAgentStandalone(
   agentId: number
 ): Promise<ExportAgentResponse> {
   try {
-    const agent = await db.query.agents.findFirst({
-      where: eq(agents.id, agentId),
-      with: {
-        tools: true,
-        workflows: true,
-        uiComponents: true,
-      },
-    });
+    const exportDir = await writeAgentBundle(agentId);
+    logger.info("Agent exported to:", exportDir);
+    return { success: true, exportPath: exportDir };
+  } catch (error) {
+    logger.error("Failed to export agent:", error);
+    return { success: false, error: String(error) };
+  }
+}
 
-    if (!agent) {
-      return { success: false, error: "Agent not found" };
-    }
+/**
+ * Writes the standalone agent project (CLI + HTTP server) to the export
+ * directory and returns its path. With `docker: true` the Dockerfile,
+ * docker-compose.yml and .dockerignore are added as well.
+ *
+ * This is the bundle that `agent:export:*` hands to users and that
+ * `agent:deploy` builds and runs. `outputDir` overrides the export directory.
+ */
+export async function writeAgentBundle(
+  agentId: number,
+  options: { docker?: boolean; outputDir?: string } = {}
+): Promise<string> {
+  const agent = await db.query.agents.findFirst({
+    where: eq(agents.id, agentId),
+    with: {
+      tools: true,
+      workflows: true,
+      uiComponents: true,
+    },
+  });
+
+  if (!agent) {
+    throw new Error("Agent not found");
+  }
 
-    const exportDir = path.join(
+  const exportDir =
+    options.outputDir ??
+    path.join(
       getAgentsExportPath(),
       "standalone",
       `agent-${agent.name.replace(/\s+/g, "-").toLowerCase()}`
     );
-    await fs.ensureDir(exportDir);
+  await fs.ensureDir(exportDir);
+
+  // Create package.json
+  const packageJson = {
+    name: agent.name.replace(/\s+/g, "-").toLowerCase(),
+    version: agent.version || "1.0.0",
+    description: agent.description || `AI Agent: ${agent.name}`,
+    main: "dist/index.js",
+    type: "module",
+    scripts: {
+      build: "tsc",
+      start: "node dist/index.js",
+      serve: "node dist/server.js",
+      dev: "tsx src/index.ts",
+    },
+    dependencies: {
+      ai: "^4.0.0",
+      "@ai-sdk/openai": "^1.0.0",
+      zod: "^3.23.0",
+      dotenv: "^16.0.0",
+    },
+    devDependencies: {
+      typescript: "^5.0.0",
+      tsx: "^4.0.0",
+      "@types/node": "^20.0.0",
+    },
+  };
 
-    // Create package.json
-    const packageJson = {
-      name: agent.name.replace(/\s+/g, "-").toLowerCase(),
-      version: agent.version || "1.0.0",
-      description: agent.description || `AI Agent: ${agent.name}`,
-      main: "dist/index.js",
-      type: "module",
-      scripts: {
-        build: "tsc",
-        start: "node dist/index.js",
-        dev: "tsx src/index.ts",
-      },
-      dependencies: {
-        ai: "^4.0.0",
-        openai: "^4.0.0",
-        dotenv: "^16.0.0",
-      },
-      devDependencies: {
-        typescript: "^5.0.0",
-        tsx: "^4.0.0",
-        "@types/node": "^20.0.0",
-      },
-    };
+  await fs.writeJson(path.join(exportDir, "package.json"), packageJson, { spaces: 2 });
+
+  // Create tsconfig.json
+  const tsconfig = {
+    compilerOptions: {
+      target: "ES2022",
+      module: "NodeNext",
+      moduleResolution: "NodeNext",
+      outDir: "./dist",
+      rootDir: "./src",
+      strict: true,
+      esModuleInterop: true,
+      skipLibCheck: true,
+    },
+    include: ["src/**/*"],
+  };
 
-    await fs.writeJson(path.join(exportDir, "package.json"), packageJson, { spaces: 2 });
-
-    // Create tsconfig.json
-    const tsconfig = {
-      compilerOptions: {
-        target: "ES2022",
-        module: "NodeNext",
-        moduleResolution: "NodeNext",
-        outDir: "./dist",
-        rootDir: "./src",
-        strict: true,
-        esModuleInterop: true,
-        skipLibCheck: true,
-      },
-      include: ["src/**/*"],
-    };
+  await fs.writeJson(path.join(exportDir, "tsconfig.json"), tsconfig, { spaces: 2 });
 
-    await fs.writeJson(path.join(exportDir, "tsconfig.json"), tsconfig, { spaces: 2 });
+  // Create src directory
+  await fs.ensureDir(path.join(exportDir, "src"));
 
-    // Create src directory
-    await fs.ensureDir(path.join(exportDir, "src"));
+  // Create main agent file
+  const agentCode = generateAgentCode(agent);
+  await fs.writeFile(path.join(exportDir, "src", "index.ts"), agentCode);
 
-    // Create main agent file
-    const agentCode = generateAgentCode(agent);
-    await fs.writeFile(path.join(exportDir, "src", "index.ts"), agentCode);
+  // Create HTTP server used by deployments
+  await fs.writeFile(path.join(exportDir, "src", "server.ts"), generateServerCode(agent));
 
-    // Create tools file
-    if (agent.tools && agent.tools.length > 0) {
-      const toolsCode = generateToolsCode(agent.tools);
-      await fs.writeFile(path.join(exportDir, "src", "tools.ts"), toolsCode);
-    }
+  // Create tools file
+  if (agent.tools && agent.tools.length > 0) {
+    const toolsCode = generateToolsCode(agent.tools);
+    await fs.writeFile(path.join(exportDir, "src", "tools.ts"), toolsCode);
+  }
 
-    // Create .env.example
-    const envExample = `# OpenAI API Key
+  // Create .env.example
+  const envExample = `# OpenAI API Key
 OPENAI_API_KEY=your-api-key-here
 
 # Model configuration
 MODEL_ID=${agent.modelId || "gpt-4o"}
 TEMPERATURE=${agent.temperature || 0.7}
 MAX_TOKENS=${agent.maxTokens || 4096}
+
+# HTTP server (npm run serve)
+PORT=3000
 `;
-    await fs.writeFile(path.join(exportDir, ".env.example"), envExample);
+  await fs.writeFile(path.join(exportDir, ".env.example"), envExample);
 
-    // Create README
-    const readme = generateReadme(agent);
-    await fs.writeFile(path.join(exportDir, "README.md"), readme);
+  // Create README
+  const readme = generateReadme(agent);
+  await fs.writeFile(path.join(exportDir, "README.md"), readme);
 
-    logger.info("Agent exported to:", exportDir);
-    return { success: true, exportPath: exportDir };
-  } catch (error) {
-    logger.error("Failed to export agent:", error);
-    return { success: false, error: String(error) };
+  if (options.docker) {
+    await writeDockerFiles(exportDir);
   }
+
+  return exportDir;
 }
 
 // ============================================================================
@@ -216,16 +265,17 @@ export async function handleExportAgentDocker(
   agentId: number
 ): Promise<ExportAgentResponse> {
   try {
-    // First export as standalone
-    const standaloneResult = await handleExportAgentStandalone(_event, agentId);
-    if (!standaloneResult.success || !standaloneResult.exportPath) {
-      return standaloneResult;
-    }
-
-    const exportDir = standaloneResult.exportPath;
+    const exportDir = await writeAgentBundle(agentId, { docker: true });
+    return { success: true, exportPath: exportDir };
+  } catch (error) {
+    logger.error("Failed to export agent as Docker:", error);
+    return { success: false, error: String(error) };
+  }
+}
 
-    // Add Dockerfile
-    const dockerfile = `FROM node:20-alpine
+async function writeDockerFiles(exportDir: string): Promise<void> {
+  // Add Dockerfile
+  const dockerfile = `FROM node:20-alpine
 
 WORKDIR /app
 
@@ -235,14 +285,15 @@ RUN npm install
 COPY . .
 RUN npm run build
 
+ENV PORT=3000
 EXPOSE 3000
 
-CMD ["npm", "start"]
+CMD ["npm", "run", "serve"]
 `;
-    await fs.writeFile(path.join(exportDir, "Dockerfile"), dockerfile);
+  await fs.writeFile(path.join(exportDir, "Dockerfile"), dockerfile);
 
-    // Add docker-compose.yml
-    const dockerCompose = `version: '3.8'
+  // Add docker-compose.yml
+  const dockerCompose = `version: '3.8'
 
 services:
   agent:
@@ -253,21 +304,15 @@ services:
       - OPENAI_API_KEY=\${OPENAI_API_KEY}
     restart: unless-stopped
 `;
-    await fs.writeFile(path.join(exportDir, "docker-compose.yml"), dockerCompose);
+  await fs.writeFile(path.join(exportDir, "docker-compose.yml"), dockerCompose);
 
-    // Add .dockerignore
-    const dockerIgnore = `node_modules
+  // Add .dockerignore
+  const dockerIgnore = `node_modules
 dist
 .env
 *.log
 `;
-    await fs.writeFile(path.join(exportDir, ".dockerignore"), dockerIgnore);
-
-    return { success: true, exportPath: exportDir };
-  } catch (error) {
-    logger.error("Failed to export agent as Docker:", error);
-    return { success: false, error: String(error) };
-  }
+  await fs.writeFile(path.join(exportDir, ".dockerignore"), dockerIgnore);
 }
 
 // ============================================================================
@@ -286,6 +331,7 @@ function generateAgentCode(agent: any): string {
 
 import { openai } from "@ai-sdk/openai";
 import { streamText, generateText } from "ai";
+import { pathToFileURL } from "node:url";
 import "dotenv/config";
 ${hasTools ? 'import { tools } from "./tools.js";' : ""}
 
@@ -293,7 +339,7 @@ const MODEL_ID = process.env.MODEL_ID || "${agent.modelId || "gpt-4o"}";
 const TEMPERATURE = parseFloat(process.env.TEMPERATURE || "${agent.temperature || 0.7}");
 const MAX_TOKENS = parseInt(process.env.MAX_TOKENS || "${agent.maxTokens || 4096}");
 
-const SYSTEM_PROMPT = \`${agent.systemPrompt || "You are a helpful AI assistant."}\`;
+const SYSTEM_PROMPT = ${JSON.stringify(agent.systemPrompt || "You are a helpful AI assistant.")};
 
 interface Message {
   role: "user" | "assistant" | "system";
@@ -398,32 +444,101 @@ async function main() {
   prompt();
 }
 
-main().catch(console.error);
+// Only start the CLI when run directly (the HTTP server imports this module)
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch(console.error);
+}
 
 export { Agent };
 `;
 }
 
+function generateServerCode(agent: any): string {
+  return `/**
+ * ${agent.name} HTTP server
+ * Exposes the agent over HTTP for deployments
+ *
+ * Generated by JoyCreate Agent Builder
+ */
+
+import http from "node:http";
+import { randomUUID } from "node:crypto";
+import { Agent } from "./index.js";
+
+const PORT = parseInt(process.env.PORT || "3000");
+const HOST = process.env.HOST || "0.0.0.0";
+
+const sessions = new Map<string, Agent>();
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk;
+  }
+  return body;
+}
+
+const server = http.createServer(async (req, res) => {
+  try {
+    if (req.method === "GET" && req.url === "/health") {
+      return sendJson(res, 200, { status: "ok", agent: ${JSON.stringify(agent.name)} });
+    }
+
+    if (req.method === "POST" && req.url === "/chat") {
+      const { message, sessionId } = JSON.parse((await readBody(req)) || "{}");
+      if (typeof message !== "string" || !message.trim()) {
+        return sendJson(res, 400, { error: "message is required" });
+      }
+
+      const id = typeof sessionId === "string" ? sessionId : randomUUID();
+      let agent = sessions.get(id);
+      if (!agent) {
+        agent = new Agent();
+        sessions.set(id, agent);
+      }
+
+      const response = await agent.chat(message);
+      return sendJson(res, 200, { response, sessionId: id });
+    }
+
+    sendJson(res, 404, { error: "Not found" });
+  } catch (error) {
+    sendJson(res, 500, { error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(\`${agent.name} listening on http://\${HOST}:\${PORT}\`);
+});
+`;
+}
+
 function generateToolsCode(tools: any[]): string {
   const toolDefinitions = tools.map((tool) => {
-    return `  ${tool.name}: {
-    description: "${tool.description}",
-    parameters: ${JSON.stringify(tool.inputSchema || { type: "object", properties: {} }, null, 4).replace(/\n/g, "\n    ")},
-    execute: async (args: Record<string, unknown>) => {
+    return `  ${JSON.stringify(tool.name)}: tool({
+    description: ${JSON.stringify(tool.description)},
+    parameters: jsonSchema(${JSON.stringify(tool.inputSchema || { type: "object", properties: {} }, null, 4).replace(/\n/g, "\n    ")}),
+    execute: async (input: any) => {
+      const args = input;
       // Tool implementation
-      ${tool.implementationCode || `console.log("${tool.name} called with:", args);
+      ${tool.implementationCode || `console.log("${tool.name} called with:", input);
       return { success: true, result: "Tool executed" };`}
     },
-  }`;
+  })`;
   });
 
-  return `/**
+  return `// @ts-nocheck -- tool bodies are user-authored code
+/**
  * Agent Tools
  * Custom tools for the AI agent
  */
 
-import { tool } from "ai";
-import { z } from "zod";
+import { tool, jsonSchema } from "ai";
 
 export const tools = {
 ${toolDefinitions.join(",\n\n")}
@@ -463,6 +578,15 @@ npm run build
 npm start
 \`\`\`
 
+### HTTP server
+\`\`\`bash
+npm run build
+npm run serve
+\`\`\`
+
+- \`GET /health\` returns \`{ "status": "ok" }\`
+- \`POST /chat\` with \`{ "message": "...", "sessionId": "optional" }\` returns \`{ "response": "...", "sessionId": "..." }\`
+
 ### Docker
 \`\`\`bash
 docker-compose up -d
@@ -476,6 +600,7 @@ docker-compose up -d
 | MODEL_ID | Model to use | ${agent.modelId || "gpt-4o"} |
 | TEMPERATURE | Sampling temperature | ${agent.temperature || 0.7} |
 | MAX_TOKENS | Maximum tokens | ${agent.maxTokens || 4096} |
+| PORT | HTTP server port | 3000 |
 
 ## Agent Details
 
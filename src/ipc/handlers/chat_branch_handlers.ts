@@ -0,0 +1,88 @@
+import { db } from "../../db";
+import { apps, chats } from "../../db/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import log from "electron-log";
+import { createLoggedHandler } from "./safe_handle";
+import { getDyadAppPath } from "../../paths/paths";
+import { withLock } from "../utils/lock_utils";
+import { gitCurrentBranch } from "../utils/git_utils";
+import {
+  checkoutBranch,
+  listChatBranches,
+  mergeChatBranch,
+} from "../utils/chat_branch_utils";
+import { isChatBranch, MAIN_BRANCH } from "../../lib/chat_branches";
+import type {
+  ChatBranchesResult,
+  CheckoutChatBranchParams,
+  MergeChatBranchParams,
+  MergeChatBranchResult,
+} from "../ipc_types";
+
+const logger = log.scope("chat_branch_handlers");
+const handle = createLoggedHandler(logger);
+
+async function getAppPath(appId: number): Promise<string> {
+  const app = await db.query.apps.findFirst({
+    where: eq(apps.id, appId),
+  });
+  if (!app) {
+    throw new Error("App not found");
+  }
+  return getDyadAppPath(app.path);
+}
+
+export function registerChatBranchHandlers() {
+  handle(
+    "chat-branch:list",
+    async (_, { appId }: { appId: number }): Promise<ChatBranchesResult> => {
+      const appPath = await getAppPath(appId);
+      const [branches, currentBranch] = await Promise.all([
+        listChatBranches(appPath),
+        gitCurrentBranch({ path: appPath }),
+      ]);
+
+      const chatIds = branches.map((branch) => branch.chatId);
+      const chatRows =
+        chatIds.length > 0
+          ? await db
+              .select({ id: chats.id, title: chats.title })
+              .from(chats)
+              .where(and(eq(chats.appId, appId), inArray(chats.id, chatIds)))
+          : [];
+      const titles = new Map(chatRows.map((chat) => [chat.id, chat.title]));
+
+      return {
+        currentBranch,
+        branches: branches.map((branch) => ({
+          ...branch,
+          chatTitle: titles.get(branch.chatId) ?? null,
+        })),
+      };
+    },
+  );
+
+  handle(
+    "chat-branch:checkout",
+    async (_, { appId, branch }: CheckoutChatBranchParams): Promise<void> => {
+      if (branch !== MAIN_BRANCH && !isChatBranch(branch)) {
+        throw new Error(`'${branch}' is not a chat branch`);
+      }
+      return withLock(appId, async () => {
+        await checkoutBranch({ appPath: await getAppPath(appId), branch });
+      });
+    },
+  );
+
+  handle(
+    "chat-branch:merge",
+    async (
+      _,
+      { appId, chatId }: MergeChatBranchParams,
+    ): Promise<MergeChatBranchResult> => {
+      return withLock(appId, async () =>
+        mergeChatBranch({ appPath: await getAppPath(appId), chatId }),
+      );
+    },
+  );
+}
@@ -25,6 +25,8 @@ import {
 } from "../../prompts/supabase_prompt";
 import { getDyadAppPath } from "../../paths/paths";
 import { readSettings } from "../../main/settings";
+import { ensureChatBranch } from "../utils/chat_branch_utils";
+import { withLock } from "../utils/lock_utils";
 import type { ChatResponseEnd, ChatStreamParams } from "../ipc_types";
 import {
   CodebaseFile,
@@ -88,6 +90,11 @@ import {
   VersionedFiles,
 } from "../utils/versioned_codebase_context";
 import { getAiMessagesJsonIfWithinLimit } from "../utils/ai_messages_utils";
+import {
+  buildCodebaseContextTag,
+  formatSmartContextCodebase,
+  selectLocalSmartContext,
+} from "../utils/local_smart_context";
 
 type AsyncIterableStream<T> = AsyncIterable<T> & ReadableStream<T>;
 
@@ -244,6 +251,18 @@ export function registerChatStreamHandlers() {
         throw new Error(`Chat not found: ${req.chatId}`);
       }
 
+      // Keep each chat's changes on its own branch so parallel chats don't
+      // build on top of each other
+      if (readSettings().enableChatBranches) {
+        await withLock(chat.app.id, () =>
+          ensureChatBranch({
+            appPath: getDyadAppPath(chat.app.path),
+            chatId: chat.id,
+            initialCommitHash: chat.initialCommitHash,
+          }),
+        );
+      }
+
       // Handle redo option: remove the most recent messages if needed
       if (req.redo) {
         // Get the most recent messages
@@ -469,6 +488,9 @@ ${componentSnippet}
         // Normal AI processing for non-test prompts
         const { modelClient, isEngineEnabled, isSmartContextEnabled } =
           await getModelClient(settings.selectedModel, settings);
+        // Without the engine's smart context, files can be picked locally instead
+        const isLocalSmartContextEnabled =
+          !isSmartContextEnabled && !!settings.enableLocalSmartContext;
 
         const appPath = getDyadAppPath(updatedChat.app.path);
         // When we don't have smart context enabled, we
@@ -479,7 +501,8 @@ ${componentSnippet}
         const chatContext =
           req.selectedComponents &&
           req.selectedComponents.length > 0 &&
-          !isSmartContextEnabled
+          !isSmartContextEnabled &&
+          !isLocalSmartContextEnabled
             ? {
                 contextPaths: req.selectedComponents.map((component) => ({
                   globPath: component.relativePath,
@@ -489,7 +512,7 @@ ${componentSnippet}
             : validateChatContext(updatedChat.app.chatContext);
 
         // Extract codebase for current app
-        const { formattedOutput: codebaseInfo, files } = await extractCodebase({
+        let { formattedOutput: codebaseInfo, files } = await extractCodebase({
           appPath,
           chatContext,
         });
@@ -498,7 +521,7 @@ ${componentSnippet}
         // This means that we don't do the regular smart context handling, but we'll allow fetching
         // additional files through <dyad-read> as needed.
         if (
-          isSmartContextEnabled &&
+          (isSmartContextEnabled || isLocalSmartContextEnabled) &&
           req.selectedComponents &&
           req.selectedComponents.length > 0
         ) {
@@ -512,6 +535,19 @@ ${componentSnippet}
           }
         }
 
+        if (isLocalSmartContextEnabled) {
+          const { selection, files: selectedFiles } =
+            await selectLocalSmartContext({
+              files,
+              prompt: userPrompt,
+              settings,
+            });
+          codebaseInfo = formatSmartContextCodebase(selectedFiles, files);
+          files = selectedFiles;
+          // Show which files were sent, and why, at the top of the response
+          fullResponse = buildCodebaseContextTag(selection);
+        }
+
         // Parse app mentions from the prompt
         const mentionedAppNames = parseAppMentions(req.prompt);
 
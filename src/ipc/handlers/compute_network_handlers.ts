@@ -38,6 +38,7 @@ import {
   type ValidationRequest,
   type ValidationType,
   type ValidationResult,
+  type Discrepancy,
   type ConsensusResult,
   type Heartbeat,
   type JobStats,
@@ -48,6 +49,26 @@ import {
   type NetworkStatus,
   type ComputeNetworkConfig,
 } from "@/types/compute_network_types";
+import {
+  canRunComputeJob,
+  createValidationSample,
+  findLocalModel,
+  runComputeJob,
+} from "../utils/compute_job_runner";
+import {
+  checkExecutionMetrics,
+  compareJobOutputs,
+  compareSampledOutputs,
+  groupAgreeingOutputs,
+  isAcceptableMatch,
+  type OutputComparison,
+} from "@/lib/compute_output_comparison";
+import {
+  checkValidationResult,
+  hasPendingValidations,
+  selectValidators,
+  VALIDATORS_PER_RESULT,
+} from "@/lib/compute_validation";
 
 const logger = log.scope("compute-network");
 
@@ -185,6 +206,8 @@ interface ComputeNetworkState {
   fetchRequests: Map<string, FetchRequest>;
   fetchProgress: Map<string, FetchProgress>;
   validationRequests: Map<string, ValidationRequest>;
+  /** Validation results received, by job ID */
+  validationResults: Map<string, ValidationResult[]>;
   heartbeatInterval: NodeJS.Timeout | null;
   heartbeatSequence: number;
   startTime: number;
@@ -205,6 +228,7 @@ const state: ComputeNetworkState = {
   fetchRequests: new Map(),
   fetchProgress: new Map(),
   validationRequests: new Map(),
+  validationResults: new Map(),
   heartbeatInterval: null,
   heartbeatSequence: 0,
   startTime: 0,
@@ -399,6 +423,33 @@ async function createLibp2pNode(config: ComputeNetworkConfig): Promise<any> {
   return node;
 }
 
+/**
+ * Dials a peer by multiaddr (e.g. "/ip4/192.168.1.5/tcp/4001/p2p/12D3...")
+ * or by the ID of a peer already in the node's peer store.
+ */
+async function dialPeer(libp2p: any, target: string): Promise<void> {
+  if (target.startsWith("/")) {
+    const { multiaddr } = await import("@multiformats/multiaddr");
+    await libp2p.dial(multiaddr(target));
+    return;
+  }
+
+  const peers = await libp2p.peerStore.all();
+  const peer = peers.find((p: any) => p.id.toString() === target);
+  if (!peer) {
+    throw new Error(`No known addresses for peer ${target}`);
+  }
+  await libp2p.dial(peer.id);
+}
+
+/**
+ * Returns the running compute network libp2p node, if any, so other
+ * subsystems can share it instead of starting a second node.
+ */
+function getLibp2pNode(): any | null {
+  return state.libp2p;
+}
+
 async function initializeNetwork(
   config: Partial<ComputeNetworkConfig>
 ): Promise<NetworkStatus> {
@@ -632,7 +683,7 @@ function handlePubSubMessage(message: any): void {
     } else if (topic === "/joycreate/compute/validation/1.0.0") {
       handleValidationMessage(parsed);
     } else if (topic.startsWith("/joycreate/compute/discovery")) {
-      handleDiscoveryMessage(parsed);
+      handleDiscoveryMessage(parsed, message.from?.toString());
     }
   } catch (error) {
     logger.error("Failed to parse PubSub message:", error);
@@ -675,7 +726,9 @@ function handleHeartbeatMessage(heartbeat: Heartbeat): void {
 function handleJobMessage(message: any): void {
   switch (message.type) {
     case "job:broadcast":
-      handleJobBroadcast(message.job);
+      handleJobBroadcast(message.job).catch((error) =>
+        logger.error(`Failed to handle job broadcast ${message.job?.id}:`, error)
+      );
       break;
     case "job:assignment":
       handleJobAssignment(message.jobId, message.executor);
@@ -700,10 +753,23 @@ function handleValidationMessage(message: any): void {
   }
 }
 
-function handleDiscoveryMessage(message: any): void {
+function handleDiscoveryMessage(message: any, from: string | undefined): void {
   if (message.type === "announce" && message.peerInfo) {
     const peerInfo = message.peerInfo as PeerInfo;
-    state.peers.set(peerInfo.id.peerId, peerInfo);
+
+    // Peers can only announce themselves
+    if (!from || peerInfo.id?.peerId !== from) {
+      logger.warn(`Ignoring announcement for ${peerInfo.id?.peerId} from ${from}`);
+      return;
+    }
+
+    // A peer's signing key can't be swapped out once we know it
+    const knownKey = state.peers.get(from)?.id.publicKey;
+    if (knownKey) {
+      peerInfo.id = { ...peerInfo.id, publicKey: knownKey };
+    }
+
+    state.peers.set(from, peerInfo);
     emitEvent({ type: "peer:discovered", peer: peerInfo });
   }
 }
@@ -1078,7 +1144,12 @@ async function createJob(
   return job;
 }
 
-function handleJobBroadcast(job: InferenceJob): void {
+async function handleJobBroadcast(job: InferenceJob): Promise<void> {
+  // Track the job so we can execute or validate it later
+  if (!state.jobs.has(job.id)) {
+    state.jobs.set(job.id, job);
+  }
+
   // Check if we should accept this job
   if (!state.config.execution.autoAcceptJobs) {
     return;
@@ -1088,8 +1159,11 @@ function handleJobBroadcast(job: InferenceJob): void {
     return;
   }
 
-  // Check if we have the required capabilities
-  // This would need to check model compatibility, VRAM, etc.
+  // Only accept jobs whose type and model our local backends can run
+  if (!(await canRunComputeJob(job))) {
+    logger.info(`Skipping job ${job.id}: ${job.type} on ${job.modelName} not runnable locally`);
+    return;
+  }
 
   // Accept the job
   acceptJob(job.id);
@@ -1158,66 +1232,30 @@ async function executeJob(job: InferenceJob): Promise<void> {
   emitEvent({ type: "job:started", jobId: job.id });
 
   try {
-    // Fetch model if needed
-    const modelPath = path.join(
-      state.config.content.cacheDir,
-      "models",
-      job.modelCid
-    );
-
-    if (!(await fs.pathExists(modelPath))) {
-      job.status = "fetching-model";
-      emitEvent({ type: "job:progress", jobId: job.id, progress: 0.1 });
-
-      await fetchContent({
-        id: crypto.randomUUID(),
-        cid: job.modelCid,
-        priority: 10,
-        maxProviders: 5,
-        chunkTimeoutMs: 60000,
-        verifyChunks: true,
-        destinationPath: modelPath,
-        requester: state.localPeerId?.peerId || "",
-        requestedAt: Date.now(),
-      });
+    // Models are served by the local backends (Ollama/LM Studio), so make
+    // sure the requested one is installed before fetching anything
+    emitEvent({ type: "job:progress", jobId: job.id, progress: 0.1 });
+    if (!(await findLocalModel(job))) {
+      throw new Error(`Model "${job.modelName}" is not available locally`);
     }
 
     // Fetch input
     job.status = "fetching-input";
     emitEvent({ type: "job:progress", jobId: job.id, progress: 0.3 });
-
-    const inputPath = path.join(
-      state.config.content.cacheDir,
-      "inputs",
-      job.inputCid
-    );
-
-    if (!(await fs.pathExists(inputPath))) {
-      await fetchContent({
-        id: crypto.randomUUID(),
-        cid: job.inputCid,
-        priority: 10,
-        maxProviders: 5,
-        chunkTimeoutMs: 30000,
-        verifyChunks: true,
-        destinationPath: inputPath,
-        requester: state.localPeerId?.peerId || "",
-        requestedAt: Date.now(),
-      });
-    }
+    const inputData = await readJobInput(job);
 
     // Execute inference
     job.status = "executing";
     emitEvent({ type: "job:progress", jobId: job.id, progress: 0.5 });
 
-    // This would call the actual inference engine
-    // For now, we'll simulate
-    const result = await runInference(job, modelPath, inputPath);
+    const result = await runInference(job, inputData);
 
     // Store output
-    const outputCid = await storeContent(
-      new TextEncoder().encode(JSON.stringify(result.output))
-    );
+    const outputStart = Date.now();
+    const outputData = new TextEncoder().encode(JSON.stringify(result.output));
+    const outputCid = await storeContent(outputData);
+    const outputHash = hashData(outputData);
+    const outputProcessTimeMs = Date.now() - outputStart;
 
     const executionTime = Date.now() - startTime;
     const metrics: ExecutionMetrics = {
@@ -1225,7 +1263,7 @@ async function executeJob(job: InferenceJob): Promise<void> {
       modelLoadTimeMs: result.metrics?.modelLoadTimeMs || 0,
       inputProcessTimeMs: result.metrics?.inputProcessTimeMs || 0,
       inferenceTimeMs: result.metrics?.inferenceTimeMs || 0,
-      outputProcessTimeMs: result.metrics?.outputProcessTimeMs || 0,
+      outputProcessTimeMs,
       peakMemoryMb: result.metrics?.peakMemoryMb || 0,
       peakVramMb: result.metrics?.peakVramMb || 0,
       tokensProcessed: result.metrics?.tokensProcessed,
@@ -1233,13 +1271,13 @@ async function executeJob(job: InferenceJob): Promise<void> {
     };
 
     // Create receipt
-    const receipt = await createExecutionReceipt(job, outputCid, metrics);
+    const receipt = await createExecutionReceipt(job, outputCid, outputHash, metrics);
 
     const jobResult: JobResult = {
       jobId: job.id,
       executor: state.localPeerId?.peerId || "",
       outputCid,
-      outputHash: hashData(new TextEncoder().encode(JSON.stringify(result.output))),
+      outputHash,
       metrics,
       receipt,
       completedAt: Date.now(),
@@ -1283,40 +1321,77 @@ async function executeJob(job: InferenceJob): Promise<void> {
   }
 }
 
+/**
+ * Returns the job input, fetching it from the network into the content
+ * cache the first time.
+ */
+async function readJobInput(job: InferenceJob): Promise<Uint8Array> {
+  return readCachedContent(job.inputCid, "inputs");
+}
+
+/**
+ * Returns the raw output stored by an executor.
+ */
+async function readJobOutput(result: JobResult): Promise<Uint8Array> {
+  return readCachedContent(result.outputCid, "outputs");
+}
+
+async function readCachedContent(
+  cid: string,
+  directory: string
+): Promise<Uint8Array> {
+  const contentPath = path.join(state.config.content.cacheDir, directory, cid);
+
+  if (!(await fs.pathExists(contentPath))) {
+    const fetched = await fetchContent({
+      id: crypto.randomUUID(),
+      cid,
+      priority: 10,
+      maxProviders: 5,
+      chunkTimeoutMs: 30000,
+      verifyChunks: true,
+      destinationPath: contentPath,
+      requester: state.localPeerId?.peerId || "",
+      requestedAt: Date.now(),
+    });
+    if (!fetched.success) {
+      throw new Error(fetched.error || `Failed to fetch ${cid}`);
+    }
+  }
+
+  return new Uint8Array(await fs.readFile(contentPath));
+}
+
 async function runInference(
   job: InferenceJob,
-  modelPath: string,
-  inputPath: string
+  inputData: Uint8Array
 ): Promise<{
   output: unknown;
   metrics?: Partial<ExecutionMetrics>;
 }> {
-  // This is a placeholder - actual implementation would call
-  // llama.cpp, ONNX runtime, or other inference engines
-  logger.info(`Running inference for job ${job.id}`);
-
-  // Simulate inference
-  await new Promise((resolve) => setTimeout(resolve, 1000));
+  logger.info(`Running ${job.type} inference for job ${job.id} on ${job.modelName}`);
 
-  return {
-    output: {
-      type: job.type,
-      result: "Simulated inference result",
-      timestamp: Date.now(),
-    },
-    metrics: {
-      modelLoadTimeMs: 500,
-      inputProcessTimeMs: 100,
-      inferenceTimeMs: 400,
-      outputProcessTimeMs: 50,
-      peakMemoryMb: 1024,
-    },
-  };
+  const timeoutMs = job.maxExecutionTimeMs || state.config.execution.defaultTimeoutMs;
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      runComputeJob(job, inputData),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Inference exceeded ${timeoutMs}ms`)),
+          timeoutMs
+        );
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
 }
 
 async function createExecutionReceipt(
   job: InferenceJob,
   outputCid: string,
+  outputHash: string,
   metrics: ExecutionMetrics
 ): Promise<ExecutionReceipt> {
   if (!state.localPeerId || !state.keyPair) {
@@ -1331,7 +1406,7 @@ async function createExecutionReceipt(
     inputCid: job.inputCid,
     outputCid,
     modelCid: job.modelCid,
-    outputHash: "", // Will be set below
+    outputHash,
     metricsHash: hashData(new TextEncoder().encode(JSON.stringify(metrics))),
     timestamp: Date.now(),
     nonce: crypto.randomBytes(16).toString("hex"),
@@ -1361,7 +1436,7 @@ function handleJobResult(result: JobResult): void {
 
   // Check if we have enough results for consensus
   if (job.results.length >= job.redundancy) {
-    checkConsensus(job);
+    startConsensusCheck(job);
   }
 }
 
@@ -1384,34 +1459,65 @@ async function requestValidation(
   job: InferenceJob,
   result: JobResult
 ): Promise<void> {
-  const request: ValidationRequest = {
-    id: crypto.randomUUID(),
-    jobId: job.id,
-    resultToValidate: result,
-    validator: "", // Will be assigned
-    validationType:
-      state.config.validation.supportedValidationTypes[0] || "hash-verification",
-    timeoutMs: 60000,
-    stakeAmount: state.config.validation.validatorStake,
-    requestedAt: Date.now(),
-  };
+  // A validator gives one verdict per job, so skip those already assigned
+  const assigned = Array.from(state.validationRequests.values())
+    .filter((r) => r.jobId === job.id)
+    .map((r) => r.validator);
+  const exclude = [
+    ...assigned,
+    result.executor,
+    state.localPeerId?.peerId || "",
+  ];
+  const validators =
+    job.validators.length > 0
+      ? job.validators.filter((peerId) => !exclude.includes(peerId))
+      : selectValidators(Array.from(state.peers.values()), {
+          exclude,
+          count: VALIDATORS_PER_RESULT,
+        });
+
+  if (validators.length === 0) {
+    logger.warn(
+      `No validators available for job ${job.id} result from ${result.executor}`
+    );
+    return;
+  }
 
-  state.validationRequests.set(request.id, request);
+  const timeoutMs = 60000;
+  for (const validator of validators) {
+    const request: ValidationRequest = {
+      id: crypto.randomUUID(),
+      jobId: job.id,
+      resultToValidate: result,
+      validator,
+      validationType:
+        state.config.validation.supportedValidationTypes[0] ||
+        "hash-verification",
+      timeoutMs,
+      stakeAmount: state.config.validation.validatorStake,
+      requestedAt: Date.now(),
+    };
 
-  // Broadcast validation request
-  if (state.libp2p) {
-    await state.libp2p.services.pubsub.publish(
-      "/joycreate/compute/validation/1.0.0",
-      new TextEncoder().encode(
-        JSON.stringify({
-          type: "validation:request",
-          request,
-        })
-      )
-    );
+    state.validationRequests.set(request.id, request);
+
+    // Send the request to its validator
+    if (state.libp2p) {
+      await state.libp2p.services.pubsub.publish(
+        "/joycreate/compute/validation/1.0.0",
+        new TextEncoder().encode(
+          JSON.stringify({
+            type: "validation:request",
+            request,
+          })
+        )
+      );
+    }
+
+    emitEvent({ type: "validation:requested", request });
   }
 
-  emitEvent({ type: "validation:requested", request });
+  // Don't let unanswered requests hold up consensus forever
+  setTimeout(() => startConsensusCheck(job), timeoutMs).unref();
 }
 
 function handleValidationRequest(request: ValidationRequest): void {
@@ -1420,6 +1526,23 @@ function handleValidationRequest(request: ValidationRequest): void {
     return;
   }
 
+  if (
+    !state.config.validation.supportedValidationTypes.includes(
+      request.validationType
+    )
+  ) {
+    return;
+  }
+
+  // Only answer requests addressed to us, and never validate our own results
+  if (
+    !state.localPeerId ||
+    request.validator !== state.localPeerId.peerId ||
+    request.resultToValidate.executor === state.localPeerId.peerId
+  ) {
+    return;
+  }
+
   const activeValidations = Array.from(state.validationRequests.values()).filter(
     (r) => r.validator === state.localPeerId?.peerId
   ).length;
@@ -1429,75 +1552,53 @@ function handleValidationRequest(request: ValidationRequest): void {
   }
 
   // Accept validation
-  request.validator = state.localPeerId?.peerId || "";
   state.validationRequests.set(request.id, request);
 
   // Perform validation
   performValidation(request);
 }
 
+/** Chance that a "probabilistic" validation also re-runs a sample */
+const PROBABILISTIC_SAMPLE_RATE = 0.25;
+
+/** Reputation change applied once consensus settles a job */
+const REPUTATION_REWARD = 1;
+const REPUTATION_PENALTY = 5;
+
+interface ValidationOutcome {
+  comparison: OutputComparison;
+  confidence: number;
+  validatorOutputHash?: string;
+  resourcesUsed: number;
+}
+
 async function performValidation(request: ValidationRequest): Promise<void> {
   const startTime = Date.now();
 
   try {
-    let isValid = true;
-    let confidence = 1.0;
-    let validatorOutputHash: string | undefined;
-    let matchScore: number | undefined;
-
-    switch (request.validationType) {
-      case "hash-verification":
-        // Verify the output hash matches
-        isValid = true; // Hash is self-verifying via CID
-        confidence = 1.0;
-        break;
-
-      case "sampling":
-        // Re-run a sample of the computation
-        // This would re-execute with a subset of the input
-        isValid = true;
-        confidence = 0.95;
-        break;
-
-      case "full-reexecution":
-        // Re-execute the entire job
-        const job = state.jobs.get(request.jobId);
-        if (job) {
-          const modelPath = path.join(
-            state.config.content.cacheDir,
-            "models",
-            job.modelCid
-          );
-          const inputPath = path.join(
-            state.config.content.cacheDir,
-            "inputs",
-            job.inputCid
-          );
-
-          const rerunResult = await runInference(job, modelPath, inputPath);
-          validatorOutputHash = hashData(
-            new TextEncoder().encode(JSON.stringify(rerunResult.output))
-          );
-
-          // Compare hashes
-          isValid = validatorOutputHash === request.resultToValidate.outputHash;
-          matchScore = isValid ? 1.0 : 0.0;
-          confidence = 1.0;
-        }
-        break;
-
-      case "output-comparison":
-        // Compare outputs for similarity
-        matchScore = 1.0; // Would need actual comparison logic
-        isValid = matchScore >= 0.95;
-        confidence = matchScore;
-        break;
-
-      default:
-        isValid = true;
-        confidence = 0.5;
+    const job = state.jobs.get(request.jobId);
+    if (!job) {
+      throw new Error(`Unknown job: ${request.jobId}`);
     }
 
+    const result = request.resultToValidate;
+    const outcome = await runValidationStrategy(
+      request.validationType,
+      job,
+      result
+    );
+
+    // Receipt and metric problems count whichever strategy was used
+    const discrepancies = [
+      ...verifyJobReceipt(result),
+      ...checkExecutionMetrics(result.metrics),
+      ...outcome.comparison.discrepancies,
+    ];
+    const isValid = isAcceptableMatch({
+      matchScore: outcome.comparison.matchScore,
+      discrepancies,
+    });
+
     const validationTime = Date.now() - startTime;
 
     const validationResult: ValidationResult = {
@@ -1505,13 +1606,14 @@ async function performValidation(request: ValidationRequest): Promise<void> {
       jobId: request.jobId,
       validator: state.localPeerId?.peerId || "",
       isValid,
-      confidence,
+      confidence: outcome.confidence,
       validationType: request.validationType,
-      validatorOutputHash,
-      matchScore,
+      validatorOutputHash: outcome.validatorOutputHash,
+      matchScore: outcome.comparison.matchScore,
+      discrepancies: discrepancies.length > 0 ? discrepancies : undefined,
       metrics: {
         validationTimeMs: validationTime,
-        resourcesUsed: 0,
+        resourcesUsed: outcome.resourcesUsed,
       },
       signature: "",
       completedAt: Date.now(),
@@ -1549,53 +1651,385 @@ async function performValidation(request: ValidationRequest): Promise<void> {
   }
 }
 
+async function runValidationStrategy(
+  validationType: ValidationType,
+  job: InferenceJob,
+  result: JobResult
+): Promise<ValidationOutcome> {
+  switch (validationType) {
+    case "hash-verification":
+      return verifyOutputHash(result);
+    case "sampling":
+      return validateBySampling(job, result);
+    case "full-reexecution":
+      return validateByReexecution(job, result);
+    case "output-comparison":
+      return validateByComparison(job, result);
+    case "probabilistic":
+      // Cheap integrity check, with a sampled re-run for a share of jobs
+      return Math.random() < PROBABILISTIC_SAMPLE_RATE
+        ? validateBySampling(job, result)
+        : verifyOutputHash(result);
+  }
+}
+
+async function verifyOutputHash(result: JobResult): Promise<ValidationOutcome> {
+  const { outputHash, discrepancies } = await loadExecutorOutput(result);
+
+  return {
+    comparison: {
+      matchScore: outputHash === result.outputHash ? 1 : 0,
+      discrepancies,
+    },
+    // Proves the output wasn't altered, not that it was computed correctly
+    confidence: 0.5,
+    validatorOutputHash: outputHash,
+    resourcesUsed: 0,
+  };
+}
+
+async function validateBySampling(
+  job: InferenceJob,
+  result: JobResult
+): Promise<ValidationOutcome> {
+  const sample = createValidationSample(job, await readJobInput(job));
+  const rerun = await runInference(sample.job, sample.inputData);
+  const executorOutput = await loadExecutorOutput(result);
+  const comparison = compareSampledOutputs(
+    rerun.output,
+    executorOutput.output,
+    sample.sampledIndices
+  );
+
+  return {
+    comparison: {
+      matchScore: comparison.matchScore,
+      discrepancies: [
+        ...executorOutput.discrepancies,
+        ...comparison.discrepancies,
+      ],
+    },
+    confidence: 0.7 + 0.25 * sample.coverage,
+    resourcesUsed: rerun.metrics?.tokensProcessed ?? 0,
+  };
+}
+
+async function validateByReexecution(
+  job: InferenceJob,
+  result: JobResult
+): Promise<ValidationOutcome> {
+  const rerun = await runInference(job, await readJobInput(job));
+  const validatorOutputHash = hashData(
+    new TextEncoder().encode(JSON.stringify(rerun.output))
+  );
+  const resourcesUsed = rerun.metrics?.tokensProcessed ?? 0;
+
+  if (validatorOutputHash === result.outputHash) {
+    return {
+      comparison: { matchScore: 1, discrepancies: [] },
+      confidence: 1.0,
+      validatorOutputHash,
+      resourcesUsed,
+    };
+  }
+
+  // Outputs differ byte-wise; score how far apart they actually are
+  const executorOutput = await loadExecutorOutput(result);
+  const comparison = compareJobOutputs(rerun.output, executorOutput.output);
+
+  return {
+    comparison: {
+      matchScore: comparison.matchScore,
+      discrepancies: [
+        ...executorOutput.discrepancies,
+        ...comparison.discrepancies,
+      ],
+    },
+    confidence: 1.0,
+    validatorOutputHash,
+    resourcesUsed,
+  };
+}
+
+async function validateByComparison(
+  job: InferenceJob,
+  result: JobResult
+): Promise<ValidationOutcome> {
+  const others = (job.results || []).filter(
+    (r) => r.executor !== result.executor
+  );
+  if (others.length === 0) {
+    throw new Error(`No other results for job ${job.id} to compare against`);
+  }
+
+  const executorOutput = await loadExecutorOutput(result);
+  const comparisons: OutputComparison[] = [];
+  for (const other of others) {
+    if (other.outputHash === result.outputHash) {
+      comparisons.push({ matchScore: 1, discrepancies: [] });
+      continue;
+    }
+    const otherOutput = await loadExecutorOutput(other);
+    comparisons.push(compareJobOutputs(otherOutput.output, executorOutput.output));
+  }
+
+  return {
+    comparison: {
+      matchScore:
+        comparisons.reduce((sum, c) => sum + c.matchScore, 0) /
+        comparisons.length,
+      discrepancies: [
+        ...executorOutput.discrepancies,
+        ...comparisons.flatMap((c) => c.discrepancies),
+      ],
+    },
+    // Agreement across more independent executors is stronger evidence
+    confidence: Math.min(0.9, 0.5 + 0.2 * others.length),
+    resourcesUsed: 0,
+  };
+}
+
+/**
+ * Fetches and parses an executor's output, flagging content that doesn't
+ * match the hash it reported.
+ */
+async function loadExecutorOutput(result: JobResult): Promise<{
+  output: unknown;
+  outputHash: string;
+  discrepancies: Discrepancy[];
+}> {
+  const data = await readJobOutput(result);
+  const outputHash = hashData(data);
+  const discrepancies: Discrepancy[] = [];
+
+  if (outputHash !== result.outputHash) {
+    discrepancies.push({
+      type: "output-mismatch",
+      description: "Stored output does not match the reported output hash",
+      severity: "critical",
+      evidence: { reported: result.outputHash, actual: outputHash },
+    });
+  }
+
+  let output: unknown = null;
+  try {
+    output = JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    discrepancies.push({
+      type: "output-mismatch",
+      description: "Stored output is not valid JSON",
+      severity: "critical",
+    });
+  }
+
+  return { output, outputHash, discrepancies };
+}
+
+/**
+ * Loads a result's output for consensus comparison. Outputs that can't be
+ * fetched or don't match their reported hash are left out, so the result can
+ * only agree with others by hash.
+ */
+async function loadConsensusOutput(result: JobResult): Promise<unknown> {
+  try {
+    const { output, discrepancies } = await loadExecutorOutput(result);
+    return discrepancies.length === 0 ? output : undefined;
+  } catch (error) {
+    logger.warn(
+      `Could not load output of ${result.executor} for consensus:`,
+      error
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Checks that the executor's signed receipt covers the result it reported.
+ */
+function verifyJobReceipt(result: JobResult): Discrepancy[] {
+  const discrepancies: Discrepancy[] = [];
+  const { receipt } = result;
+
+  if (
+    receipt.jobId !== result.jobId ||
+    receipt.executor !== result.executor ||
+    receipt.outputCid !== result.outputCid ||
+    receipt.outputHash !== result.outputHash
+  ) {
+    discrepancies.push({
+      type: "signature-invalid",
+      description: "Execution receipt does not cover the reported result",
+      severity: "critical",
+    });
+  }
+
+  const metricsHash = hashData(
+    new TextEncoder().encode(JSON.stringify(result.metrics))
+  );
+  if (metricsHash !== receipt.metricsHash) {
+    discrepancies.push({
+      type: "metric-mismatch",
+      description: "Reported metrics differ from the signed receipt",
+      severity: "high",
+    });
+  }
+
+  const isSigned = verifyPeerSignature(
+    result.executor,
+    JSON.stringify({ ...receipt, signature: undefined }),
+    receipt.signature
+  );
+  if (!isSigned) {
+    discrepancies.push({
+      type: "signature-invalid",
+      description: "Execution receipt signature is invalid",
+      severity: "critical",
+    });
+  }
+
+  return discrepancies;
+}
+
+/**
+ * Verifies data signed by a known peer. Missing signatures and peers whose
+ * public key we haven't learned yet fail verification.
+ */
+function verifyPeerSignature(
+  peerId: string,
+  data: string,
+  signature: string
+): boolean {
+  const publicKey = state.peers.get(peerId)?.id.publicKey;
+  if (!publicKey || !signature) {
+    return false;
+  }
+
+  try {
+    return verifySignature(
+      new TextEncoder().encode(data),
+      decodeFromBase64(signature),
+      decodeFromBase64(publicKey)
+    );
+  } catch {
+    return false;
+  }
+}
+
 function handleValidationResult(result: ValidationResult): void {
   const job = state.jobs.get(result.jobId);
   if (!job) return;
 
-  // Store validation result
-  // Check if we have enough validations for consensus
-  const allValidations = Array.from(state.validationRequests.values())
-    .filter((r) => r.jobId === result.jobId)
-    .map((r) => r); // Would need to track results
+  // Only signed answers from the validator we asked count toward consensus
+  const validations = state.validationResults.get(job.id) || [];
+  const check = checkValidationResult(
+    result,
+    state.validationRequests.get(result.requestId),
+    validations,
+    verifyPeerSignature(
+      result.validator,
+      JSON.stringify({ ...result, signature: undefined }),
+      result.signature
+    )
+  );
+  if (!check.accept) {
+    logger.warn(
+      `Ignoring validation result from ${result.validator}: ${check.reason}`
+    );
+    return;
+  }
+  validations.push(result);
+  state.validationResults.set(job.id, validations);
 
   emitEvent({ type: "validation:completed", result });
 
   // Check consensus
-  checkConsensus(job);
+  startConsensusCheck(job);
 }
 
-function checkConsensus(job: InferenceJob): void {
-  if (!job.results || job.results.length === 0) return;
+function isValidationOf(validation: ValidationResult, result: JobResult): boolean {
+  const validated = state.validationRequests.get(validation.requestId)
+    ?.resultToValidate;
+  return (
+    validated?.executor === result.executor &&
+    validated.outputHash === result.outputHash
+  );
+}
 
-  // Group results by output hash
-  const hashGroups = new Map<string, JobResult[]>();
-  for (const result of job.results) {
-    const existing = hashGroups.get(result.outputHash) || [];
-    existing.push(result);
-    hashGroups.set(result.outputHash, existing);
-  }
+/**
+ * Net validator evidence for a result: positive when validators accepted
+ * it, negative when they rejected it, weighted by their confidence.
+ */
+function getValidationVerdict(
+  result: JobResult,
+  validations: ValidationResult[]
+): number {
+  return validations
+    .filter((v) => isValidationOf(v, result))
+    .reduce((sum, v) => sum + (v.isValid ? v.confidence : -v.confidence), 0);
+}
+
+function isConsensusSettled(job: InferenceJob): boolean {
+  return Boolean(job.consensusResult) || job.status === "disputed";
+}
+
+function startConsensusCheck(job: InferenceJob): void {
+  checkConsensus(job).catch((error) =>
+    logger.error(`Failed to check consensus for job ${job.id}:`, error)
+  );
+}
+
+async function checkConsensus(job: InferenceJob): Promise<void> {
+  if (!job.results || job.results.length < Math.max(job.redundancy, 1)) return;
+  if (isConsensusSettled(job)) return;
+
+  // Wait for outstanding validations before deciding
+  const validations = state.validationResults.get(job.id) || [];
+  const requests = Array.from(state.validationRequests.values()).filter(
+    (r) => r.jobId === job.id
+  );
+  if (hasPendingValidations(requests, validations)) return;
+
+  const results = [...job.results];
+  // Results rejected by validators don't count toward any majority
+  const rejectedResults = new Set(
+    results.filter((r) => getValidationVerdict(r, validations) < 0)
+  );
+
+  // Group results whose outputs agree, not just identical hashes
+  const groups = groupAgreeingOutputs(
+    await Promise.all(
+      results
+        .filter((result) => !rejectedResults.has(result))
+        .map(async (result) => ({
+          result,
+          outputHash: result.outputHash,
+          output: await loadConsensusOutput(result),
+        }))
+    )
+  );
+
+  // Another check may have settled the job while outputs were loading
+  if (isConsensusSettled(job)) return;
 
   // Find majority
   let maxCount = 0;
-  let majorityHash = "";
   let majorityResults: JobResult[] = [];
 
-  for (const [hash, results] of hashGroups) {
-    if (results.length > maxCount) {
-      maxCount = results.length;
-      majorityHash = hash;
-      majorityResults = results;
+  for (const group of groups) {
+    if (group.length > maxCount) {
+      maxCount = group.length;
+      majorityResults = group;
     }
   }
+  const majorityHash = majorityResults[0]?.outputHash ?? "";
 
   // Check if consensus threshold is met
-  const consensusScore = maxCount / job.results.length;
+  const consensusScore = maxCount / results.length;
 
-  if (consensusScore >= job.consensusThreshold) {
+  if (maxCount > 0 && consensusScore >= job.consensusThreshold) {
     const majorityExecutor = majorityResults[0]?.executor;
-    const disputedExecutors = job.results
-      .filter((r) => r.outputHash !== majorityHash)
+    const disputedExecutors = results
+      .filter((r) => !majorityResults.includes(r))
       .map((r) => r.executor);
 
     const consensusResult: ConsensusResult = {
@@ -1603,13 +2037,12 @@ function checkConsensus(job: InferenceJob): void {
       consensusReached: true,
       finalOutputCid: majorityResults[0]?.outputCid,
       finalOutputHash: majorityHash,
-      executors: job.results.map((r) => r.executor),
-      validations: [],
+      executors: results.map((r) => r.executor),
+      validations,
       consensusScore,
       majorityExecutor,
       disputedExecutors,
-      slashedAmounts: {},
-      rewardsDistributed: {},
+      ...settleConsensus(job, majorityResults, validations),
       finalizedAt: Date.now(),
       consensusSignature: "",
     };
@@ -1624,17 +2057,75 @@ function checkConsensus(job: InferenceJob): void {
       jobId: job.id,
       result: majorityResults[0],
     });
-  } else if (job.results.length >= job.redundancy) {
-    // Consensus failed
+  } else {
+    // Consensus failed; executors caught by validators still lose reputation
     job.status = "disputed";
+    for (const result of rejectedResults) {
+      adjustReputation(result.executor, -REPUTATION_PENALTY);
+    }
     emitEvent({
       type: "consensus:failed",
       jobId: job.id,
-      reason: `Consensus threshold not met: ${consensusScore} < ${job.consensusThreshold}`,
+      reason:
+        `Consensus threshold not met: ${consensusScore} < ${job.consensusThreshold}` +
+        (rejectedResults.size > 0
+          ? ` (${rejectedResults.size} result(s) rejected by validators)`
+          : ""),
     });
   }
 }
 
+/**
+ * Pays the majority executors, slashes disputed executors and validators
+ * whose verdict contradicted the consensus, and updates reputations.
+ */
+function settleConsensus(
+  job: InferenceJob,
+  majorityResults: JobResult[],
+  validations: ValidationResult[]
+): Pick<ConsensusResult, "slashedAmounts" | "rewardsDistributed"> {
+  const slashedAmounts: Record<string, bigint> = {};
+  const rewardsDistributed: Record<string, bigint> = {};
+  const slash = (peerId: string, amount: bigint) => {
+    if (amount > BigInt(0)) {
+      slashedAmounts[peerId] = (slashedAmounts[peerId] ?? BigInt(0)) + amount;
+    }
+  };
+
+  const share = job.paymentOffered / BigInt(majorityResults.length);
+  for (const result of job.results || []) {
+    if (majorityResults.includes(result)) {
+      rewardsDistributed[result.executor] = share;
+      adjustReputation(result.executor, REPUTATION_REWARD);
+    } else {
+      slash(result.executor, job.requiredStake);
+      adjustReputation(result.executor, -REPUTATION_PENALTY);
+    }
+  }
+
+  for (const validation of validations) {
+    const request = state.validationRequests.get(validation.requestId);
+    if (!request) continue;
+    const upheld = majorityResults.some((r) => isValidationOf(validation, r));
+    if (validation.isValid === upheld) {
+      adjustReputation(validation.validator, REPUTATION_REWARD);
+    } else {
+      slash(validation.validator, request.stakeAmount);
+      adjustReputation(validation.validator, -REPUTATION_PENALTY);
+    }
+  }
+
+  return { slashedAmounts, rewardsDistributed };
+}
+
+function adjustReputation(peerId: string, delta: number): void {
+  const peer = state.peers.get(peerId);
+  if (!peer) return;
+
+  peer.reputation = Math.max(0, Math.min(100, peer.reputation + delta));
+  emitEvent({ type: "peer:updated", peer });
+}
+
 // ============================================================================
 // Network Status
 // ============================================================================
@@ -1728,6 +2219,13 @@ async function shutdownNetwork(): Promise<void> {
   logger.info("Compute network shutdown complete");
 }
 
+/**
+ * Latest compute network view of a peer, including heartbeat liveness
+ */
+function getComputePeer(peerId: string): PeerInfo | null {
+  return state.peers.get(peerId) || null;
+}
+
 // ============================================================================
 // IPC Handler Registration
 // ============================================================================
@@ -1773,7 +2271,7 @@ export function registerComputeNetworkHandlers(): void {
   ipcMain.handle(
     "compute-network:get-peer",
     async (_event: IpcMainInvokeEvent, peerId: string) => {
-      return state.peers.get(peerId) || null;
+      return getComputePeer(peerId);
     }
   );
 
@@ -1788,9 +2286,7 @@ export function registerComputeNetworkHandlers(): void {
         throw new Error("Network not initialized");
       }
 
-      const { multiaddr: ma } = await import("@multiformats/multiaddr");
-      const addr = ma(multiaddr);
-      await state.libp2p.dial(addr);
+      await dialPeer(state.libp2p, multiaddr);
       return { success: true };
     }
   );
@@ -1936,6 +2432,11 @@ export function registerComputeNetworkHandlers(): void {
 }
 
 export {
+  loadDependencies,
+  createLibp2pNode,
+  dialPeer,
+  getLibp2pNode,
+  getComputePeer,
   initializeNetwork,
   shutdownNetwork,
   getNetworkStatus,
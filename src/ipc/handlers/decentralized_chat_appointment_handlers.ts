@@ -0,0 +1,437 @@
+/**
+ * Decentralized Chat Appointment Handlers
+ * Scheduling, RSVPs, recurring occurrences and local reminders
+ * The organizer's copy is authoritative and is shared with attendees over the presence topic
+ */
+
+import { ipcMain, Notification } from "electron";
+import * as fs from "fs-extra";
+import * as path from "path";
+import log from "electron-log";
+import {
+  getChatDir,
+  getLocalChatIdentity,
+  publishToConversation,
+  onChatPubSubMessage,
+  emitChatEvent,
+} from "./decentralized_chat_handlers";
+import {
+  cancelAppointment as applyCancel,
+  createAppointment as buildAppointment,
+  expandOccurrences,
+  getDueReminders,
+  markReminderSent,
+  respondToAppointment as applyResponse,
+  updateAppointment as applyUpdate,
+} from "@/lib/dchat_schedule";
+import type {
+  Appointment,
+  AppointmentAttendee,
+  AppointmentOccurrence,
+  ChatIdentity,
+  ChatPubSubMessage,
+  CreateAppointmentRequest,
+  CreateAppointmentResult,
+  UpdateAppointmentRequest,
+} from "@/types/decentralized_chat_types";
+
+const logger = log.scope("decentralized-chat-appointments");
+
+const REMINDER_CHECK_INTERVAL_MS = 30_000;
+
+type AppointmentResponse = Exclude<
+  AppointmentAttendee["responseStatus"],
+  "pending"
+>;
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+function getAppointmentsDir(): string {
+  return path.join(getChatDir(), "appointments");
+}
+
+const appointments = new Map<string, Appointment>();
+let loaded = false;
+let reminderInterval: NodeJS.Timeout | null = null;
+
+async function loadAppointments(): Promise<void> {
+  if (loaded) return;
+  await fs.ensureDir(getAppointmentsDir());
+
+  for (const file of await fs.readdir(getAppointmentsDir())) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      const appointment = await fs.readJson(
+        path.join(getAppointmentsDir(), file),
+      );
+      appointments.set(appointment.id, appointment);
+    } catch (error) {
+      logger.warn("Failed to load appointment:", { file, error });
+    }
+  }
+  loaded = true;
+}
+
+async function writeAppointment(appointment: Appointment): Promise<void> {
+  appointments.set(appointment.id, appointment);
+  await fs.writeJson(
+    path.join(getAppointmentsDir(), `${appointment.id}.json`),
+    appointment,
+    { spaces: 2 },
+  );
+  emitChatEvent({ type: "appointment:updated", appointment });
+}
+
+async function requireIdentity(): Promise<ChatIdentity> {
+  const identity = await getLocalChatIdentity();
+  if (!identity) {
+    throw new Error("No local identity");
+  }
+  return identity;
+}
+
+function isInvolved(appointment: Appointment, walletAddress: string): boolean {
+  return (
+    appointment.organizerWallet === walletAddress ||
+    appointment.attendees.some((a) => a.walletAddress === walletAddress)
+  );
+}
+
+/**
+ * Attendees aren't necessarily in a shared conversation, so appointments travel on the presence topic
+ */
+async function broadcastAppointment(appointment: Appointment): Promise<void> {
+  await publishToConversation("global", "appointment:update", { appointment });
+}
+
+/**
+ * Apply an organizer change to a copy of the appointment so a rejected change leaves no trace
+ */
+async function changeAppointment(
+  appointmentId: string,
+  change: (appointment: Appointment, walletAddress: string) => void,
+): Promise<CreateAppointmentResult> {
+  try {
+    const identity = await requireIdentity();
+    await loadAppointments();
+    const current = appointments.get(appointmentId);
+    if (!current) {
+      return { success: false, error: "Appointment not found" };
+    }
+
+    const appointment = structuredClone(current);
+    change(appointment, identity.walletAddress);
+    await writeAppointment(appointment);
+    await broadcastAppointment(appointment);
+    return { success: true, appointment };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+// ============================================================================
+// Appointments
+// ============================================================================
+
+async function createAppointment(
+  request: CreateAppointmentRequest,
+): Promise<CreateAppointmentResult> {
+  try {
+    const identity = await requireIdentity();
+    await loadAppointments();
+
+    const appointment = buildAppointment(request, identity.walletAddress);
+    await writeAppointment(appointment);
+    await broadcastAppointment(appointment);
+
+    logger.info("Created appointment", {
+      appointmentId: appointment.id,
+      attendees: appointment.attendees.length,
+    });
+    return { success: true, appointment };
+  } catch (error) {
+    logger.error("Failed to create appointment:", error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+async function listAppointments(): Promise<Appointment[]> {
+  await loadAppointments();
+  return Array.from(appointments.values()).sort(
+    (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime(),
+  );
+}
+
+/**
+ * Every occurrence of every appointment within the range, in start order
+ */
+async function listOccurrences(
+  from: string,
+  to: string,
+): Promise<AppointmentOccurrence[]> {
+  await loadAppointments();
+  const rangeStart = new Date(from);
+  const rangeEnd = new Date(to);
+
+  const occurrences: AppointmentOccurrence[] = [];
+  for (const appointment of appointments.values()) {
+    for (const occurrence of expandOccurrences(
+      appointment,
+      rangeStart,
+      rangeEnd,
+    )) {
+      occurrences.push({
+        appointment,
+        startTime: occurrence.start.toISOString(),
+        endTime: occurrence.end.toISOString(),
+      });
+    }
+  }
+  return occurrences.sort(
+    (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime(),
+  );
+}
+
+async function respondToAppointment(
+  appointmentId: string,
+  response: AppointmentResponse,
+  comment?: string,
+): Promise<CreateAppointmentResult> {
+  try {
+    const identity = await requireIdentity();
+    await loadAppointments();
+    const current = appointments.get(appointmentId);
+    if (!current) {
+      return { success: false, error: "Appointment not found" };
+    }
+
+    const appointment = structuredClone(current);
+    applyResponse(appointment, identity.walletAddress, response, { comment });
+    await writeAppointment(appointment);
+    await publishToConversation("global", "appointment:rsvp", {
+      appointmentId,
+      response,
+      comment,
+    });
+    return { success: true, appointment };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+async function deleteAppointment(appointmentId: string): Promise<boolean> {
+  const identity = await getLocalChatIdentity();
+  await loadAppointments();
+  const appointment = appointments.get(appointmentId);
+  if (!appointment) return false;
+
+  // Deleting as the organizer cancels it for everyone else
+  if (
+    identity &&
+    appointment.organizerWallet === identity.walletAddress &&
+    appointment.status !== "cancelled"
+  ) {
+    const cancelled = structuredClone(appointment);
+    applyCancel(cancelled, identity.walletAddress);
+    await broadcastAppointment(cancelled);
+  }
+
+  appointments.delete(appointmentId);
+  await fs.remove(path.join(getAppointmentsDir(), `${appointmentId}.json`));
+  return true;
+}
+
+// ============================================================================
+// Reminders
+// ============================================================================
+
+async function checkReminders(): Promise<void> {
+  const identity = await getLocalChatIdentity();
+  if (!identity) return;
+  await loadAppointments();
+
+  const now = new Date();
+  for (const current of appointments.values()) {
+    const self = current.attendees.find(
+      (a) => a.walletAddress === identity.walletAddress,
+    );
+    if (
+      !isInvolved(current, identity.walletAddress) ||
+      self?.responseStatus === "declined"
+    )
+      continue;
+
+    const due = getDueReminders(current, now);
+    if (due.length === 0) continue;
+
+    const appointment = structuredClone(current);
+    for (const { reminder, occurrenceStart } of due) {
+      const local = appointment.reminders.find((r) => r.id === reminder.id)!;
+      markReminderSent(local, now);
+
+      if (local.type === "notification" && Notification.isSupported()) {
+        new Notification({
+          title: appointment.title,
+          body: `Starts in ${reminder.minutesBefore} minutes${appointment.meetingLink ? ` - ${appointment.meetingLink}` : ""}`,
+        }).show();
+      }
+      emitChatEvent({
+        type: "appointment:reminder",
+        appointment,
+        reminder: local,
+        occurrenceStart: occurrenceStart.toISOString(),
+      });
+    }
+    await writeAppointment(appointment);
+  }
+}
+
+function startReminderChecks(): void {
+  if (reminderInterval) {
+    clearInterval(reminderInterval);
+  }
+  reminderInterval = setInterval(() => {
+    checkReminders().catch((err) =>
+      logger.warn("Failed to check appointment reminders:", err),
+    );
+  }, REMINDER_CHECK_INTERVAL_MS);
+}
+
+// ============================================================================
+// Incoming PubSub
+// ============================================================================
+
+async function handleAppointmentUpdate(
+  message: ChatPubSubMessage,
+): Promise<void> {
+  const incoming = message.payload?.appointment as Appointment | undefined;
+  const identity = await getLocalChatIdentity();
+  if (!incoming?.id || !identity) return;
+  if (
+    incoming.organizerWallet !== message.senderId ||
+    !isInvolved(incoming, identity.walletAddress)
+  )
+    return;
+  await loadAppointments();
+
+  const existing = appointments.get(incoming.id);
+  if (existing && new Date(incoming.updatedAt) <= new Date(existing.updatedAt))
+    return;
+
+  // Reminders fire per device, so keep our own record of which have been sent
+  // unless the organizer re-armed them by rescheduling
+  if (existing) {
+    for (const reminder of incoming.reminders) {
+      const local = existing.reminders.find((r) => r.id === reminder.id);
+      if (local && incoming.startTime === existing.startTime) {
+        reminder.sent = local.sent;
+        reminder.sentAt = local.sentAt;
+      }
+    }
+  }
+  await writeAppointment(incoming);
+}
+
+async function handleAppointmentRsvp(
+  message: ChatPubSubMessage,
+): Promise<void> {
+  const { appointmentId, response, comment } = message.payload || {};
+  await loadAppointments();
+  const current = appointments.get(appointmentId);
+  if (!current) return;
+
+  const appointment = structuredClone(current);
+  try {
+    applyResponse(appointment, message.senderId, response, { comment });
+  } catch (error) {
+    logger.debug("Ignoring RSVP", {
+      appointmentId,
+      reason: (error as Error).message,
+    });
+    return;
+  }
+  await writeAppointment(appointment);
+
+  const identity = await getLocalChatIdentity();
+  if (identity && appointment.organizerWallet === identity.walletAddress) {
+    await broadcastAppointment(appointment);
+  }
+}
+
+// ============================================================================
+// Register IPC Handlers
+// ============================================================================
+
+export function registerDecentralizedChatAppointmentHandlers(): void {
+  loadAppointments().catch((err) =>
+    logger.warn("Failed to load appointments:", err),
+  );
+  startReminderChecks();
+
+  onChatPubSubMessage("appointment:update", handleAppointmentUpdate);
+  onChatPubSubMessage("appointment:rsvp", handleAppointmentRsvp);
+
+  ipcMain.handle(
+    "dchat:appointment:create",
+    async (_, request: CreateAppointmentRequest) => {
+      return createAppointment(request);
+    },
+  );
+
+  ipcMain.handle("dchat:appointment:get", async (_, appointmentId: string) => {
+    await loadAppointments();
+    return appointments.get(appointmentId) || null;
+  });
+
+  ipcMain.handle("dchat:appointment:list", async () => {
+    return listAppointments();
+  });
+
+  ipcMain.handle(
+    "dchat:appointment:occurrences",
+    async (_, from: string, to: string) => {
+      return listOccurrences(from, to);
+    },
+  );
+
+  ipcMain.handle(
+    "dchat:appointment:update",
+    async (_, appointmentId: string, updates: UpdateAppointmentRequest) => {
+      return changeAppointment(appointmentId, (appointment, actor) =>
+        applyUpdate(appointment, actor, updates),
+      );
+    },
+  );
+
+  ipcMain.handle(
+    "dchat:appointment:respond",
+    async (
+      _,
+      appointmentId: string,
+      response: AppointmentResponse,
+      comment?: string,
+    ) => {
+      return respondToAppointment(appointmentId, response, comment);
+    },
+  );
+
+  ipcMain.handle(
+    "dchat:appointment:cancel",
+    async (_, appointmentId: string) => {
+      return changeAppointment(appointmentId, (appointment, actor) =>
+        applyCancel(appointment, actor),
+      );
+    },
+  );
+
+  ipcMain.handle(
+    "dchat:appointment:delete",
+    async (_, appointmentId: string) => {
+      return deleteAppointment(appointmentId);
+    },
+  );
+
+  logger.info("Decentralized chat appointment handlers registered");
+}
@@ -0,0 +1,881 @@
+/**
+ * Decentralized Chat Group Handlers
+ * Group membership, roles, invites, join requests and polls
+ * Groups ride on a group conversation; admins replicate signed snapshots over its PubSub topic
+ */
+
+import { ipcMain } from "electron";
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as crypto from "crypto";
+import log from "electron-log";
+import {
+  getChatDir,
+  getLocalChatIdentity,
+  createConversation,
+  getConversation,
+  saveConversation,
+  subscribeToConversation,
+  publishToConversation,
+  onChatPubSubMessage,
+  emitChatEvent,
+} from "./decentralized_chat_handlers";
+import {
+  GROUP_ROLE_RANK,
+  addMember,
+  addPollOption,
+  banMember,
+  closePoll,
+  createGroup as buildGroup,
+  createInvite,
+  createPoll as buildPoll,
+  expirePoll,
+  findMember,
+  processJoinRequest,
+  removeMember,
+  reviewJoinRequest,
+  setMemberPermissions,
+  setMemberRole,
+  toPublicPoll,
+  transferOwnership,
+  unbanMember,
+  updateGroupDetails,
+  votePoll,
+  type GroupMemberProfile,
+} from "@/lib/dchat_groups";
+import type {
+  ChatGroup,
+  ChatIdentity,
+  ChatPubSubMessage,
+  ConversationParticipant,
+  CreateGroupRequest,
+  CreateGroupResult,
+  CreatePollRequest,
+  GroupActionResult,
+  GroupInvite,
+  GroupPermissions,
+  GroupRole,
+  JoinGroupRequest,
+  JoinGroupResult,
+  ParticipantRole,
+  Poll,
+  PollResult,
+  UpdateGroupRequest,
+} from "@/types/decentralized_chat_types";
+
+const logger = log.scope("decentralized-chat-groups");
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+function getGroupsDir(): string {
+  return path.join(getChatDir(), "groups");
+}
+
+function getPollsDir(): string {
+  return path.join(getChatDir(), "polls");
+}
+
+const groups = new Map<string, ChatGroup>();
+const polls = new Map<string, Poll>();
+let loaded = false;
+
+async function loadGroupState(): Promise<void> {
+  if (loaded) return;
+  await fs.ensureDir(getGroupsDir());
+  await fs.ensureDir(getPollsDir());
+
+  for (const file of await fs.readdir(getGroupsDir())) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      const group = await fs.readJson(path.join(getGroupsDir(), file));
+      groups.set(group.id, group);
+    } catch (error) {
+      logger.warn("Failed to load group:", { file, error });
+    }
+  }
+  for (const file of await fs.readdir(getPollsDir())) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      const poll = await fs.readJson(path.join(getPollsDir(), file));
+      polls.set(poll.id, poll);
+    } catch (error) {
+      logger.warn("Failed to load poll:", { file, error });
+    }
+  }
+  loaded = true;
+}
+
+async function writeGroup(group: ChatGroup): Promise<void> {
+  groups.set(group.id, group);
+  await fs.writeJson(path.join(getGroupsDir(), `${group.id}.json`), group, {
+    spaces: 2,
+  });
+}
+
+async function deleteGroupLocally(groupId: string): Promise<void> {
+  const group = groups.get(groupId);
+  groups.delete(groupId);
+  await fs.remove(path.join(getGroupsDir(), `${groupId}.json`));
+
+  if (group) {
+    for (const poll of Array.from(polls.values())) {
+      if (poll.conversationId === group.conversationId) {
+        polls.delete(poll.id);
+        await fs.remove(path.join(getPollsDir(), `${poll.id}.json`));
+      }
+    }
+  }
+  emitChatEvent({ type: "group:removed", groupId });
+}
+
+async function writePoll(poll: Poll): Promise<void> {
+  polls.set(poll.id, poll);
+  await fs.writeJson(path.join(getPollsDir(), `${poll.id}.json`), poll, {
+    spaces: 2,
+  });
+}
+
+async function requireIdentity(): Promise<ChatIdentity> {
+  const identity = await getLocalChatIdentity();
+  if (!identity) {
+    throw new Error("No local identity");
+  }
+  return identity;
+}
+
+function toProfile(identity: ChatIdentity): GroupMemberProfile {
+  return {
+    walletAddress: identity.walletAddress,
+    publicKey: identity.publicKey,
+    signingKey: identity.signingKey,
+    displayName: identity.displayName,
+    avatar: identity.avatar,
+  };
+}
+
+function isGroupModerator(group: ChatGroup, walletAddress: string): boolean {
+  const member = findMember(group, walletAddress);
+  return !!member && GROUP_ROLE_RANK[member.role] >= GROUP_ROLE_RANK.moderator;
+}
+
+function toParticipantRole(role: GroupRole): ParticipantRole {
+  if (role === "owner" || role === "admin") return role;
+  return role === "guest" ? "readonly" : "member";
+}
+
+/**
+ * Keep the underlying conversation's participants in step with group membership
+ * so messages are encrypted for the right recipients
+ */
+async function syncConversationParticipants(group: ChatGroup): Promise<void> {
+  const conversation = await getConversation(group.conversationId);
+  if (!conversation) return;
+
+  const existing = new Map(
+    conversation.participants.map((p) => [p.walletAddress.toLowerCase(), p]),
+  );
+  const participants: ConversationParticipant[] = group.members.map(
+    (member) => {
+      const current = existing.get(member.walletAddress);
+      return {
+        walletAddress: member.walletAddress,
+        did: current?.did || `did:joy:chat:${member.walletAddress}`,
+        publicKey: current?.publicKey || member.publicKey || "",
+        // Keys we already hold for a participant win over what a snapshot claims
+        signingKey: current?.signingKey || member.signingKey,
+        displayName: member.displayName ?? current?.displayName,
+        avatar: member.avatar ?? current?.avatar,
+        role: toParticipantRole(member.role),
+        joinedAt: current?.joinedAt || member.joinedAt,
+        notificationSettings: current?.notificationSettings || {
+          enabled: true,
+          sound: true,
+          mentions: true,
+          allMessages: true,
+        },
+      };
+    },
+  );
+
+  conversation.participants = participants;
+  conversation.name = group.name;
+  conversation.description = group.description;
+  await saveConversation(conversation);
+}
+
+/**
+ * Persist a changed group, update the conversation and replicate the snapshot
+ */
+async function commitGroup(group: ChatGroup): Promise<void> {
+  await writeGroup(group);
+  await syncConversationParticipants(group);
+  emitChatEvent({ type: "group:updated", group });
+  await publishToConversation(group.conversationId, "group:update", { group });
+}
+
+/**
+ * Apply a change to a copy of the group so a rejected change leaves no trace
+ */
+async function changeGroup(
+  groupId: string,
+  change: (group: ChatGroup, walletAddress: string) => void,
+): Promise<GroupActionResult> {
+  try {
+    const identity = await requireIdentity();
+    await loadGroupState();
+    const current = groups.get(groupId);
+    if (!current) {
+      return { success: false, error: "Group not found" };
+    }
+
+    const group = structuredClone(current);
+    change(group, identity.walletAddress);
+    await commitGroup(group);
+    return { success: true, group };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+// ============================================================================
+// Groups
+// ============================================================================
+
+async function createGroup(
+  request: CreateGroupRequest,
+): Promise<CreateGroupResult> {
+  try {
+    const identity = await requireIdentity();
+    await loadGroupState();
+
+    const members = (request.members || [])
+      .map((m) => m.toLowerCase())
+      .filter((m) => m !== identity.walletAddress);
+    const conversationResult = await createConversation({
+      type: "group",
+      participants: members,
+      name: request.name,
+      description: request.description,
+    });
+    if (!conversationResult.success || !conversationResult.conversation) {
+      return {
+        success: false,
+        error:
+          conversationResult.error || "Failed to create group conversation",
+      };
+    }
+
+    const group = buildGroup({
+      id: `group-${Date.now()}-${crypto.randomBytes(8).toString("hex")}`,
+      conversationId: conversationResult.conversation.id,
+      name: request.name,
+      description: request.description,
+      avatar: request.avatar,
+      owner: toProfile(identity),
+      settings: request.settings,
+    });
+    for (const walletAddress of members) {
+      addMember(
+        group,
+        { walletAddress },
+        { invitedBy: identity.walletAddress },
+      );
+    }
+
+    await commitGroup(group);
+    logger.info("Created group", {
+      groupId: group.id,
+      members: group.memberCount,
+    });
+
+    return {
+      success: true,
+      group,
+      conversation: conversationResult.conversation,
+    };
+  } catch (error) {
+    logger.error("Failed to create group:", error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+async function getGroup(groupId: string): Promise<ChatGroup | null> {
+  await loadGroupState();
+  return groups.get(groupId) || null;
+}
+
+/**
+ * Groups the local identity belongs to, most recently active first
+ */
+async function listGroups(): Promise<ChatGroup[]> {
+  const identity = await getLocalChatIdentity();
+  if (!identity) return [];
+  await loadGroupState();
+
+  return Array.from(groups.values())
+    .filter((group) => findMember(group, identity.walletAddress))
+    .sort(
+      (a, b) =>
+        new Date(b.lastActivityAt).getTime() -
+        new Date(a.lastActivityAt).getTime(),
+    );
+}
+
+async function deleteGroup(groupId: string): Promise<GroupActionResult> {
+  try {
+    const identity = await requireIdentity();
+    const group = await getGroup(groupId);
+    if (!group) {
+      return { success: false, error: "Group not found" };
+    }
+    if (group.ownerWallet !== identity.walletAddress) {
+      return { success: false, error: "Only the owner can delete the group" };
+    }
+
+    await publishToConversation(group.conversationId, "group:removed", {
+      groupId,
+    });
+    await deleteGroupLocally(groupId);
+    logger.info("Deleted group", { groupId });
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+async function leaveGroup(groupId: string): Promise<GroupActionResult> {
+  try {
+    const identity = await requireIdentity();
+    const group = await getGroup(groupId);
+    if (!group) {
+      return { success: false, error: "Group not found" };
+    }
+
+    // Throws for the owner, who must transfer ownership first
+    removeMember(
+      structuredClone(group),
+      identity.walletAddress,
+      identity.walletAddress,
+    );
+
+    await publishToConversation(group.conversationId, "participant:leave", {
+      groupId,
+    });
+    await deleteGroupLocally(groupId);
+    logger.info("Left group", { groupId });
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+async function inviteToGroup(
+  groupId: string,
+  walletAddress: string,
+  message?: string,
+): Promise<GroupActionResult & { invite?: GroupInvite }> {
+  let invite: GroupInvite | undefined;
+  const result = await changeGroup(groupId, (group, actor) => {
+    invite = createInvite(group, actor, walletAddress, { message });
+  });
+  if (result.success && result.group && invite) {
+    // Invitees aren't on the group topic yet, so reach them on the presence topic
+    await publishToConversation("global", "group:invite", {
+      invite,
+      group: result.group,
+    });
+  }
+  return { ...result, invite };
+}
+
+/**
+ * Join a group we've been invited to or discovered. Admins apply the same rules
+ * when the request reaches them and replicate the outcome.
+ */
+async function joinGroup(request: JoinGroupRequest): Promise<JoinGroupResult> {
+  try {
+    const identity = await requireIdentity();
+    const current = await getGroup(request.groupId);
+    if (!current) {
+      return {
+        success: false,
+        error: "Group not found. Ask a member for an invite.",
+      };
+    }
+
+    const group = structuredClone(current);
+    const status = processJoinRequest(group, toProfile(identity), request);
+    await writeGroup(group);
+
+    await subscribeToConversation(group.conversationId);
+    await publishToConversation(group.conversationId, "group:join-request", {
+      groupId: group.id,
+      profile: toProfile(identity),
+      inviteId: request.inviteId,
+      inviteCode: request.inviteCode,
+      message: request.message,
+    });
+
+    if (status === "joined") {
+      await syncConversationParticipants(group);
+    }
+    emitChatEvent({ type: "group:updated", group });
+    logger.info("Requested to join group", { groupId: group.id, status });
+
+    return { success: true, status, group };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+// ============================================================================
+// Polls
+// ============================================================================
+
+function findGroupForPoll(poll: Poll): ChatGroup | undefined {
+  return Array.from(groups.values()).find(
+    (group) => group.conversationId === poll.conversationId,
+  );
+}
+
+/**
+ * Apply a change to a poll and return the view the local identity may see
+ */
+async function changePoll(
+  pollId: string,
+  change: (
+    poll: Poll,
+    group: ChatGroup,
+    walletAddress: string,
+  ) => { type: "poll:update" | "poll:vote"; payload: any },
+): Promise<PollResult> {
+  try {
+    const identity = await requireIdentity();
+    await loadGroupState();
+    const current = polls.get(pollId);
+    const group = current && findGroupForPoll(current);
+    if (!current || !group) {
+      return { success: false, error: "Poll not found" };
+    }
+
+    const poll = structuredClone(current);
+    const { type, payload } = change(poll, group, identity.walletAddress);
+    await writePoll(poll);
+
+    const view = toPublicPoll(poll, identity.walletAddress);
+    emitChatEvent({ type: "poll:updated", poll: view });
+    await publishToConversation(poll.conversationId, type, payload);
+    return { success: true, poll: view };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+async function createPoll(request: CreatePollRequest): Promise<PollResult> {
+  try {
+    const identity = await requireIdentity();
+    const group = await getGroup(request.groupId);
+    if (!group) {
+      return { success: false, error: "Group not found" };
+    }
+
+    const poll = buildPoll(group, identity.walletAddress, request);
+    await writePoll(poll);
+
+    const view = toPublicPoll(poll, identity.walletAddress);
+    emitChatEvent({ type: "poll:updated", poll: view });
+    await publishToConversation(poll.conversationId, "poll:update", { poll });
+    return { success: true, poll: view };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+async function listPolls(groupId: string): Promise<Poll[]> {
+  const identity = await getLocalChatIdentity();
+  const group = await getGroup(groupId);
+  if (!identity || !group) return [];
+
+  const result: Poll[] = [];
+  for (const poll of polls.values()) {
+    if (poll.conversationId !== group.conversationId) continue;
+    if (expirePoll(poll)) {
+      await writePoll(poll);
+    }
+    result.push(toPublicPoll(poll, identity.walletAddress));
+  }
+  return result.sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+  );
+}
+
+// ============================================================================
+// Incoming PubSub
+// ============================================================================
+
+async function handleGroupUpdate(message: ChatPubSubMessage): Promise<void> {
+  const incoming = message.payload?.group as ChatGroup | undefined;
+  if (!incoming?.id) return;
+
+  const identity = await getLocalChatIdentity();
+  if (!identity) return;
+  await loadGroupState();
+
+  const existing = groups.get(incoming.id);
+  if (existing) {
+    if (new Date(incoming.updatedAt) <= new Date(existing.updatedAt)) return;
+    if (!isGroupModerator(existing, message.senderId)) {
+      logger.warn("Ignoring group update from non-moderator", {
+        groupId: incoming.id,
+        sender: message.senderId,
+      });
+      return;
+    }
+  } else if (
+    !findMember(incoming, identity.walletAddress) ||
+    !isGroupModerator(incoming, message.senderId)
+  ) {
+    return;
+  }
+
+  if (!findMember(incoming, identity.walletAddress)) {
+    // We've been removed or banned
+    await deleteGroupLocally(incoming.id);
+    return;
+  }
+
+  await writeGroup(incoming);
+  await subscribeToConversation(incoming.conversationId);
+  await syncConversationParticipants(incoming);
+  emitChatEvent({ type: "group:updated", group: incoming });
+}
+
+async function handleGroupInvite(message: ChatPubSubMessage): Promise<void> {
+  const invite = message.payload?.invite as GroupInvite | undefined;
+  const group = message.payload?.group as ChatGroup | undefined;
+  const identity = await getLocalChatIdentity();
+  if (
+    !invite ||
+    !group ||
+    !identity ||
+    invite.inviteeWallet !== identity.walletAddress
+  )
+    return;
+  if (
+    invite.inviterWallet !== message.senderId ||
+    !findMember(group, message.senderId)
+  )
+    return;
+
+  await loadGroupState();
+  const existing = groups.get(group.id);
+  if (!existing || new Date(group.updatedAt) > new Date(existing.updatedAt)) {
+    await writeGroup(group);
+  }
+  emitChatEvent({ type: "group:invite", invite, groupName: group.name });
+}
+
+async function handleJoinRequest(message: ChatPubSubMessage): Promise<void> {
+  const {
+    groupId,
+    profile,
+    inviteId,
+    inviteCode,
+    message: note,
+  } = message.payload || {};
+  const identity = await getLocalChatIdentity();
+  if (!identity || !groupId) return;
+
+  const current = await getGroup(groupId);
+  if (
+    !current ||
+    !findMember(current, identity.walletAddress)?.permissions.canAddMembers
+  )
+    return;
+
+  const group = structuredClone(current);
+  try {
+    processJoinRequest(
+      group,
+      {
+        ...profile,
+        walletAddress: message.senderId,
+        signingKey: message.signingKey,
+      },
+      { inviteId, inviteCode, message: note },
+    );
+  } catch (error) {
+    logger.info("Rejected join request", {
+      groupId,
+      requester: message.senderId,
+      reason: (error as Error).message,
+    });
+    return;
+  }
+  if (group.updatedAt !== current.updatedAt) {
+    await commitGroup(group);
+  }
+}
+
+async function handleMemberLeft(message: ChatPubSubMessage): Promise<void> {
+  const current = await getGroup(message.payload?.groupId);
+  if (!current || !findMember(current, message.senderId)) return;
+
+  const group = structuredClone(current);
+  removeMember(group, message.senderId, message.senderId);
+  await writeGroup(group);
+  await syncConversationParticipants(group);
+  emitChatEvent({ type: "group:updated", group });
+}
+
+async function handleGroupRemoved(message: ChatPubSubMessage): Promise<void> {
+  const group = await getGroup(message.payload?.groupId);
+  if (group && group.ownerWallet === message.senderId) {
+    await deleteGroupLocally(group.id);
+  }
+}
+
+async function handlePollUpdate(message: ChatPubSubMessage): Promise<void> {
+  const incoming = message.payload?.poll as Poll | undefined;
+  const identity = await getLocalChatIdentity();
+  if (!incoming?.id || !identity) return;
+  await loadGroupState();
+
+  const group = findGroupForPoll(incoming);
+  if (!group || !findMember(group, message.senderId)) return;
+
+  const existing = polls.get(incoming.id);
+  let poll: Poll;
+  if (!existing) {
+    if (incoming.creatorWallet !== message.senderId) return;
+    poll = incoming;
+  } else {
+    // Votes arrive separately; only take new options and the status from snapshots
+    poll = structuredClone(existing);
+    for (const option of incoming.options) {
+      if (!poll.options.some((o) => o.id === option.id)) {
+        poll.options.push({
+          id: option.id,
+          text: option.text,
+          votes: 0,
+          voters: [],
+        });
+      }
+    }
+    if (
+      incoming.status !== "active" &&
+      (message.senderId === poll.creatorWallet ||
+        isGroupModerator(group, message.senderId))
+    ) {
+      poll.status = incoming.status;
+      poll.endedAt = incoming.endedAt;
+    }
+  }
+
+  await writePoll(poll);
+  emitChatEvent({
+    type: "poll:updated",
+    poll: toPublicPoll(poll, identity.walletAddress),
+  });
+}
+
+async function handlePollVote(message: ChatPubSubMessage): Promise<void> {
+  const { pollId, optionIds } = message.payload || {};
+  const identity = await getLocalChatIdentity();
+  if (!identity) return;
+  await loadGroupState();
+
+  const current = polls.get(pollId);
+  const group = current && findGroupForPoll(current);
+  if (!current || !group) return;
+
+  const poll = structuredClone(current);
+  try {
+    votePoll(poll, group, message.senderId, optionIds || []);
+  } catch (error) {
+    logger.debug("Ignoring poll vote", {
+      pollId,
+      reason: (error as Error).message,
+    });
+    return;
+  }
+  await writePoll(poll);
+  emitChatEvent({
+    type: "poll:updated",
+    poll: toPublicPoll(poll, identity.walletAddress),
+  });
+}
+
+// ============================================================================
+// Register IPC Handlers
+// ============================================================================
+
+export function registerDecentralizedChatGroupHandlers(): void {
+  loadGroupState().catch((err) => logger.warn("Failed to load groups:", err));
+
+  onChatPubSubMessage("group:update", handleGroupUpdate);
+  onChatPubSubMessage("group:invite", handleGroupInvite);
+  onChatPubSubMessage("group:join-request", handleJoinRequest);
+  onChatPubSubMessage("group:removed", handleGroupRemoved);
+  onChatPubSubMessage("participant:leave", handleMemberLeft);
+  onChatPubSubMessage("poll:update", handlePollUpdate);
+  onChatPubSubMessage("poll:vote", handlePollVote);
+
+  // Groups
+  ipcMain.handle(
+    "dchat:group:create",
+    async (_, request: CreateGroupRequest) => {
+      return createGroup(request);
+    },
+  );
+
+  ipcMain.handle("dchat:group:get", async (_, groupId: string) => {
+    return getGroup(groupId);
+  });
+
+  ipcMain.handle("dchat:group:list", async () => {
+    return listGroups();
+  });
+
+  ipcMain.handle(
+    "dchat:group:update",
+    async (_, groupId: string, updates: UpdateGroupRequest) => {
+      return changeGroup(groupId, (group, actor) =>
+        updateGroupDetails(group, actor, updates),
+      );
+    },
+  );
+
+  ipcMain.handle("dchat:group:delete", async (_, groupId: string) => {
+    return deleteGroup(groupId);
+  });
+
+  ipcMain.handle("dchat:group:leave", async (_, groupId: string) => {
+    return leaveGroup(groupId);
+  });
+
+  // Membership
+  ipcMain.handle(
+    "dchat:group:invite",
+    async (_, groupId: string, walletAddress: string, message?: string) => {
+      return inviteToGroup(groupId, walletAddress, message);
+    },
+  );
+
+  ipcMain.handle("dchat:group:join", async (_, request: JoinGroupRequest) => {
+    return joinGroup(request);
+  });
+
+  ipcMain.handle(
+    "dchat:group:review-request",
+    async (_, groupId: string, requestId: string, approve: boolean) => {
+      return changeGroup(groupId, (group, actor) => {
+        reviewJoinRequest(group, actor, requestId, approve);
+      });
+    },
+  );
+
+  ipcMain.handle(
+    "dchat:group:remove-member",
+    async (_, groupId: string, walletAddress: string) => {
+      return changeGroup(groupId, (group, actor) =>
+        removeMember(group, actor, walletAddress),
+      );
+    },
+  );
+
+  ipcMain.handle(
+    "dchat:group:set-role",
+    async (_, groupId: string, walletAddress: string, role: GroupRole) => {
+      return changeGroup(groupId, (group, actor) => {
+        setMemberRole(group, actor, walletAddress, role);
+      });
+    },
+  );
+
+  ipcMain.handle(
+    "dchat:group:set-permissions",
+    async (
+      _,
+      groupId: string,
+      walletAddress: string,
+      permissions: Partial<GroupPermissions>,
+    ) => {
+      return changeGroup(groupId, (group, actor) => {
+        setMemberPermissions(group, actor, walletAddress, permissions);
+      });
+    },
+  );
+
+  ipcMain.handle(
+    "dchat:group:transfer",
+    async (_, groupId: string, walletAddress: string) => {
+      return changeGroup(groupId, (group, actor) =>
+        transferOwnership(group, actor, walletAddress),
+      );
+    },
+  );
+
+  ipcMain.handle(
+    "dchat:group:ban",
+    async (
+      _,
+      groupId: string,
+      walletAddress: string,
+      options?: { reason?: string; durationMinutes?: number },
+    ) => {
+      return changeGroup(groupId, (group, actor) => {
+        banMember(group, actor, walletAddress, options);
+      });
+    },
+  );
+
+  ipcMain.handle(
+    "dchat:group:unban",
+    async (_, groupId: string, walletAddress: string) => {
+      return changeGroup(groupId, (group, actor) =>
+        unbanMember(group, actor, walletAddress),
+      );
+    },
+  );
+
+  // Polls
+  ipcMain.handle("dchat:poll:create", async (_, request: CreatePollRequest) => {
+    return createPoll(request);
+  });
+
+  ipcMain.handle("dchat:poll:list", async (_, groupId: string) => {
+    return listPolls(groupId);
+  });
+
+  ipcMain.handle(
+    "dchat:poll:vote",
+    async (_, pollId: string, optionIds: string[]) => {
+      return changePoll(pollId, (poll, group, voter) => {
+        votePoll(poll, group, voter, optionIds);
+        return { type: "poll:vote", payload: { pollId, optionIds } };
+      });
+    },
+  );
+
+  ipcMain.handle(
+    "dchat:poll:add-option",
+    async (_, pollId: string, text: string) => {
+      return changePoll(pollId, (poll, group, actor) => {
+        addPollOption(poll, group, actor, text);
+        return { type: "poll:update", payload: { poll } };
+      });
+    },
+  );
+
+  ipcMain.handle("dchat:poll:close", async (_, pollId: string) => {
+    return changePoll(pollId, (poll, group, actor) => {
+      closePoll(poll, group, actor);
+      return { type: "poll:update", payload: { poll } };
+    });
+  });
+
+  logger.info("Decentralized chat group handlers registered");
+}
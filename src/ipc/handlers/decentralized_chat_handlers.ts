@@ -21,13 +21,19 @@ import type {
   ConversationManifest,
   MessagePin,
   ChatPubSubMessage,
+  PubSubMessageType,
   OfflineMessageQueue,
   QueuedMessage,
   ChatSyncState,
   SyncRequest,
   SyncResponse,
   KeyBundle,
+  LocalPreKeys,
   SessionKeys,
+  PeerSessions,
+  RatchetEnvelope,
+  SenderKeyState,
+  ConversationSenderKeys,
   ChatEvent,
   SendMessageRequest,
   SendMessageResult,
@@ -43,6 +49,23 @@ import type {
   ChatPresenceStatus,
   ParticipantRole,
 } from "@/types/decentralized_chat_types";
+import {
+  acceptSession,
+  createPreKeys,
+  createSenderKey,
+  exportSenderKey,
+  initiateSession,
+  needsSenderKeyRotation,
+  ratchetDecrypt,
+  ratchetEncrypt,
+  refreshPreKeys,
+  senderKeyDecrypt,
+  senderKeyEncrypt,
+  toKeyBundle,
+  verifyKeyBundle,
+  type IdentityKeys,
+} from "@/lib/dchat_ratchet";
+import { authenticatePubSubMessage, pubSubDigest } from "@/lib/dchat_pubsub";
 
 const logger = log.scope("decentralized-chat");
 
@@ -217,7 +240,7 @@ async function getChatJSON(cidString: string): Promise<any> {
 // Storage Paths
 // ============================================================================
 
-function getChatDir(): string {
+export function getChatDir(): string {
   return path.join(getUserDataPath(), "decentralized-chat");
 }
 
@@ -241,6 +264,18 @@ function getKeysDir(): string {
   return path.join(getChatDir(), "keys");
 }
 
+function getSessionsDir(): string {
+  return path.join(getKeysDir(), "sessions");
+}
+
+function getSenderKeysDir(): string {
+  return path.join(getKeysDir(), "sender-keys");
+}
+
+function getPlaintextDir(): string {
+  return path.join(getChatDir(), "plaintext");
+}
+
 function getOfflineQueueDir(): string {
   return path.join(getChatDir(), "offline-queue");
 }
@@ -256,6 +291,9 @@ async function initChatDirs(): Promise<void> {
   await fs.ensureDir(getMessagesDir());
   await fs.ensureDir(getPinsDir());
   await fs.ensureDir(getKeysDir());
+  await fs.ensureDir(getSessionsDir());
+  await fs.ensureDir(getSenderKeysDir());
+  await fs.ensureDir(getPlaintextDir());
   await fs.ensureDir(getOfflineQueueDir());
   await fs.ensureDir(getSyncStateDir());
 }
@@ -272,7 +310,10 @@ const conversations = new Map<string, ChatConversation>();
 const messages = new Map<string, ChatMessage[]>();
 const pins = new Map<string, MessagePin>();
 const offlineQueues = new Map<string, OfflineMessageQueue>();
-const sessionKeys = new Map<string, SessionKeys>();
+const sessionKeys = new Map<string, PeerSessions>();     // By peer wallet
+const senderKeys = new Map<string, ConversationSenderKeys>(); // By conversation
+let localPreKeys: LocalPreKeys | null = null;
+let peerSigningKeys: Map<string, string> | null = null; // By wallet, pinned on first contact
 const presenceCache = new Map<string, { status: ChatPresenceStatus; lastSeen: string }>();
 
 // PubSub subscriptions
@@ -350,6 +391,15 @@ async function createChatIdentity(
   privateKey = encryptionKeys.secretKey;
   signingKey = signingKeys.secretKey;
   
+  // Sessions and pre-keys belong to the previous identity key
+  localPreKeys = null;
+  sessionKeys.clear();
+  senderKeys.clear();
+  await fs.remove(getPreKeysPath());
+  await fs.emptyDir(getSessionsDir());
+  await fs.emptyDir(getSenderKeysDir());
+  await ensurePreKeys();
+  
   logger.info("Created chat identity", { walletAddress, did });
   
   return {
@@ -399,7 +449,7 @@ async function loadChatIdentity(): Promise<ChatIdentity | null> {
 /**
  * Get local identity (create or load)
  */
-async function getLocalChatIdentity(): Promise<ChatIdentity | null> {
+export async function getLocalChatIdentity(): Promise<ChatIdentity | null> {
   if (localIdentity) return localIdentity;
   return loadChatIdentity();
 }
@@ -489,7 +539,7 @@ async function decryptMessage(
 /**
  * Sign message
  */
-async function signMessage(messageHash: string): Promise<string> {
+export async function signMessage(messageHash: string): Promise<string> {
   await loadCryptoModules();
   
   if (!signingKey) {
@@ -530,6 +580,430 @@ function hashContent(content: string): string {
   return crypto.createHash("sha256").update(content).digest("hex");
 }
 
+// ============================================================================
+// Forward-Secret Sessions
+// ============================================================================
+
+const MAX_SESSIONS_PER_PEER = 5;
+
+function getPreKeysPath(): string {
+  return path.join(getKeysDir(), "prekeys.json");
+}
+
+function keyBundleDHTKey(walletAddress: string): string {
+  return `chat:prekeys:${walletAddress}`;
+}
+
+function getIdentityKeys(): IdentityKeys {
+  if (!localIdentity || !privateKey) {
+    throw new Error("No encryption key available");
+  }
+  return { publicKey: localIdentity.publicKey, secretKey: naclUtil.encodeBase64(privateKey) };
+}
+
+/**
+ * Load our pre-keys, creating them on first use and rotating or topping them up as needed.
+ * Returns whether the published bundle is out of date.
+ */
+async function ensurePreKeys(): Promise<boolean> {
+  if (!localIdentity || !signingKey) {
+    throw new Error("No local identity");
+  }
+  
+  const signingSecret = naclUtil.encodeBase64(signingKey);
+  let changed = false;
+  
+  if (!localPreKeys && await fs.pathExists(getPreKeysPath())) {
+    localPreKeys = await fs.readJson(getPreKeysPath());
+  }
+  if (!localPreKeys) {
+    localPreKeys = createPreKeys(signingSecret);
+    changed = true;
+  }
+  if (refreshPreKeys(localPreKeys, signingSecret)) {
+    changed = true;
+  }
+  
+  if (changed) {
+    await fs.writeJson(getPreKeysPath(), localPreKeys, { spaces: 2 });
+  }
+  return changed;
+}
+
+/**
+ * Publish our pre-key bundle to the DHT and announce it on the presence topic
+ */
+async function publishKeyBundle(): Promise<void> {
+  await ensurePreKeys();
+  const bundle = toKeyBundle(localPreKeys!, localIdentity!);
+  await publishToDHT(keyBundleDHTKey(bundle.walletAddress), bundle);
+  await publishToConversation("global", "keys:bundle", { bundle });
+  logger.info("Published pre-key bundle", { oneTimePreKeys: bundle.oneTimePreKeys.length });
+}
+
+/**
+ * Find a peer's bundle, only accepting one that matches the identity and signing keys we know them by
+ */
+async function fetchKeyBundle(walletAddress: string, identityKey: string): Promise<KeyBundle | null> {
+  const bundle = await getFromDHT(keyBundleDHTKey(walletAddress)) as KeyBundle | null;
+  if (!bundle || bundle.walletAddress !== walletAddress || bundle.identityKey !== identityKey) {
+    return null;
+  }
+  const knownSigningKey = await getKnownSigningKey(walletAddress);
+  if (knownSigningKey && bundle.identitySigningKey !== knownSigningKey) {
+    return null;
+  }
+  return verifyKeyBundle(bundle) ? bundle : null;
+}
+
+async function handleKeyBundle(message: ChatPubSubMessage): Promise<void> {
+  const bundle = message.payload?.bundle as KeyBundle | undefined;
+  if (!bundle || bundle.walletAddress !== message.senderId || !verifyKeyBundle(bundle)) return;
+  // Dispatch checked the announcement against the sender's known key; the bundle must be signed by that same key
+  if (bundle.identitySigningKey !== message.signingKey) {
+    logger.warn("Ignoring pre-key bundle signed by an unknown key", { walletAddress: bundle.walletAddress });
+    return;
+  }
+  
+  const key = keyBundleDHTKey(bundle.walletAddress);
+  const cached = dhtCache.get(key)?.value as KeyBundle | undefined;
+  if (cached && new Date(cached.uploadedAt) >= new Date(bundle.uploadedAt)) return;
+  
+  dhtCache.set(key, { value: bundle, timestamp: new Date().toISOString() });
+  await saveDHTCache();
+  logger.debug("Stored pre-key bundle", { walletAddress: bundle.walletAddress });
+}
+
+async function loadPeerSessions(walletAddress: string): Promise<PeerSessions | null> {
+  if (!sessionKeys.has(walletAddress)) {
+    const sessionPath = path.join(getSessionsDir(), `${walletAddress}.json`);
+    if (!await fs.pathExists(sessionPath)) return null;
+    const peer = await fs.readJson(sessionPath);
+    // Another call may have loaded (and changed) it while we were reading
+    if (!sessionKeys.has(walletAddress)) {
+      sessionKeys.set(walletAddress, peer);
+    }
+  }
+  return sessionKeys.get(walletAddress)!;
+}
+
+async function savePeerSessions(walletAddress: string): Promise<void> {
+  const peer = sessionKeys.get(walletAddress);
+  if (!peer) return;
+  await fs.writeJson(path.join(getSessionsDir(), `${walletAddress}.json`), peer, { spaces: 2 });
+}
+
+function addSession(session: SessionKeys): PeerSessions {
+  const peer = sessionKeys.get(session.peerWallet) || { active: session.sessionId, sessions: {} };
+  peer.sessions[session.sessionId] = session;
+  sessionKeys.set(session.peerWallet, peer);
+  
+  const stale = Object.values(peer.sessions)
+    .filter(s => s.sessionId !== peer.active && s.sessionId !== session.sessionId)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(MAX_SESSIONS_PER_PEER - 2);
+  for (const s of stale) {
+    delete peer.sessions[s.sessionId];
+  }
+  return peer;
+}
+
+/**
+ * If both sides started a session at once, send on whichever the peer used first.
+ * A session of ours the peer has already answered on is kept.
+ */
+function preferSession(peer: PeerSessions, sessionId: string): void {
+  const active = peer.sessions[peer.active];
+  if (!active || active.pendingPreKey) {
+    peer.active = sessionId;
+  }
+}
+
+/**
+ * Session to send to a peer on, starting one from their pre-key bundle if needed.
+ * Returns null when the peer hasn't published a bundle yet.
+ */
+async function getSendingSession(participant: ConversationParticipant): Promise<SessionKeys | null> {
+  const { walletAddress } = participant;
+  const peer = await loadPeerSessions(walletAddress);
+  if (peer?.sessions[peer.active]?.sendingChainKey) {
+    return peer.sessions[peer.active];
+  }
+  
+  const bundle = await fetchKeyBundle(walletAddress, participant.publicKey);
+  if (!bundle) return null;
+  
+  const current = sessionKeys.get(walletAddress);
+  if (current?.sessions[current.active]?.sendingChainKey) {
+    return current.sessions[current.active];
+  }
+  
+  const session = initiateSession(getIdentityKeys(), bundle);
+  addSession(session).active = session.sessionId;
+  await savePeerSessions(walletAddress);
+  
+  // Don't reuse the one-time pre-key if we ever need another session
+  dhtCache.set(keyBundleDHTKey(walletAddress), {
+    value: { ...bundle, oneTimePreKeys: bundle.oneTimePreKeys.slice(1) },
+    timestamp: new Date().toISOString(),
+  });
+  await saveDHTCache();
+  
+  logger.info("Started ratchet session", { walletAddress, sessionId: session.sessionId });
+  return session;
+}
+
+/**
+ * Decrypt a pairwise message, accepting the session the sender started if it's new to us
+ */
+async function openRatchetEnvelope(
+  conversation: ChatConversation,
+  walletAddress: string,
+  envelope: RatchetEnvelope
+): Promise<string> {
+  const peer = await loadPeerSessions(walletAddress);
+  const existing = peer?.sessions[envelope.header.sessionId];
+  
+  if (existing) {
+    const plaintext = ratchetDecrypt(existing, envelope);
+    preferSession(peer!, existing.sessionId);
+    await savePeerSessions(walletAddress);
+    return plaintext;
+  }
+  
+  const preKey = envelope.header.preKey;
+  if (!preKey) {
+    throw new Error("No session for message");
+  }
+  const participant = conversation.participants.find(p => p.walletAddress === walletAddress);
+  if (!participant) {
+    throw new Error("Sender is not a participant");
+  }
+  await ensurePreKeys();
+  
+  // Work on a copy so a message that fails to decrypt doesn't burn a one-time pre-key
+  const session = acceptSession(getIdentityKeys(), structuredClone(localPreKeys!), participant, preKey);
+  const plaintext = ratchetDecrypt(session, envelope);
+  
+  localPreKeys!.oneTimePreKeys = localPreKeys!.oneTimePreKeys.filter(k => k.publicKey !== preKey.oneTimePreKey);
+  preferSession(addSession(session), session.sessionId);
+  await savePeerSessions(walletAddress);
+  logger.info("Accepted ratchet session", { walletAddress, sessionId: session.sessionId });
+  
+  // The consumed pre-key is still listed in our published bundle
+  await ensurePreKeys();
+  await fs.writeJson(getPreKeysPath(), localPreKeys, { spaces: 2 });
+  if (chatHelia) {
+    publishKeyBundle().catch(err => logger.warn("Failed to republish pre-key bundle:", err));
+  }
+  
+  return plaintext;
+}
+
+async function loadSenderKeys(conversationId: string): Promise<ConversationSenderKeys> {
+  if (!senderKeys.has(conversationId)) {
+    const keysPath = path.join(getSenderKeysDir(), `${conversationId}.json`);
+    const stored = await fs.pathExists(keysPath) ? await fs.readJson(keysPath) : { received: {} };
+    if (!senderKeys.has(conversationId)) {
+      senderKeys.set(conversationId, stored);
+    }
+  }
+  return senderKeys.get(conversationId)!;
+}
+
+async function saveSenderKeys(conversationId: string): Promise<void> {
+  const keys = senderKeys.get(conversationId);
+  if (!keys) return;
+  await fs.writeJson(path.join(getSenderKeysDir(), `${conversationId}.json`), keys, { spaces: 2 });
+}
+
+function senderKeyAssociatedData(conversationId: string, sender: string): string {
+  return `${conversationId}|${sender}`;
+}
+
+type SealedContent = Pick<
+  ChatMessage,
+  "encryptedContent" | "nonce" | "encryptionAlgorithm" | "ratchet" | "senderKey" | "senderKeyDistribution"
+>;
+
+/**
+ * Encrypt outgoing content on the ratchet session (direct) or with our sender key (groups).
+ * Direct chats fall back to the static box until the peer has published pre-keys.
+ */
+async function sealMessageContent(
+  conversation: ChatConversation,
+  recipients: string[],
+  content: string
+): Promise<SealedContent> {
+  if (conversation.type === "direct" && recipients.length === 1) {
+    const recipient = conversation.participants.find(p => p.walletAddress === recipients[0]);
+    if (!recipient?.publicKey) {
+      throw new Error("Recipient public key not found");
+    }
+    
+    const session = await getSendingSession(recipient);
+    if (!session) {
+      logger.debug("Recipient has no pre-key bundle, using legacy encryption", { walletAddress: recipient.walletAddress });
+      const encrypted = await encryptMessage(content, recipient.publicKey);
+      return {
+        encryptedContent: encrypted.encrypted,
+        nonce: encrypted.nonce,
+        encryptionAlgorithm: "x25519-xsalsa20-poly1305",
+      };
+    }
+    
+    const envelope = ratchetEncrypt(session, content);
+    await savePeerSessions(recipient.walletAddress);
+    return {
+      encryptedContent: envelope.ciphertext,
+      nonce: envelope.nonce,
+      encryptionAlgorithm: "double-ratchet-aes-256-gcm",
+      ratchet: envelope.header,
+    };
+  }
+  
+  const keys = await loadSenderKeys(conversation.id);
+  if (!keys.own || needsSenderKeyRotation(keys.own, recipients)) {
+    if (keys.own) {
+      conversation.keyRotationCount += 1;
+      logger.info("Rotating sender key after a member left", { conversationId: conversation.id });
+    }
+    keys.own = createSenderKey(recipients);
+  }
+  const own = keys.own;
+  own.members = [...recipients];
+  
+  // Hand the current chain to anyone who doesn't have it yet
+  const shared = JSON.stringify(exportSenderKey(own));
+  const senderKeyDistribution: Record<string, RatchetEnvelope> = {};
+  for (const walletAddress of recipients.filter(w => !own.distributedTo.includes(w))) {
+    const participant = conversation.participants.find(p => p.walletAddress === walletAddress);
+    const session = participant ? await getSendingSession(participant) : null;
+    if (!session) {
+      logger.warn("Can't share sender key yet, member has no pre-key bundle", { walletAddress });
+      continue;
+    }
+    senderKeyDistribution[walletAddress] = ratchetEncrypt(session, shared);
+    own.distributedTo.push(walletAddress);
+    await savePeerSessions(walletAddress);
+  }
+  
+  const sealed = senderKeyEncrypt(own, content, senderKeyAssociatedData(conversation.id, localIdentity!.walletAddress));
+  await saveSenderKeys(conversation.id);
+  
+  return {
+    encryptedContent: sealed.ciphertext,
+    nonce: sealed.nonce,
+    encryptionAlgorithm: "sender-key-aes-256-gcm",
+    senderKey: sealed.header,
+    senderKeyDistribution: Object.keys(senderKeyDistribution).length > 0 ? senderKeyDistribution : undefined,
+  };
+}
+
+async function openSenderKeyMessage(msg: ChatMessage, conversation: ChatConversation): Promise<string> {
+  if (!msg.senderKey) {
+    throw new Error("Missing sender key header");
+  }
+  
+  const keys = await loadSenderKeys(msg.conversationId);
+  const fromSender = keys.received[msg.sender] || {};
+  keys.received[msg.sender] = fromSender;
+  
+  const distribution = msg.senderKeyDistribution?.[localIdentity!.walletAddress];
+  if (distribution && !fromSender[msg.senderKey.keyId]) {
+    const shared = JSON.parse(await openRatchetEnvelope(conversation, msg.sender, distribution)) as SenderKeyState;
+    fromSender[shared.keyId] = exportSenderKey(shared);
+    await saveSenderKeys(msg.conversationId);
+  }
+  
+  const state = fromSender[msg.senderKey.keyId];
+  if (!state) {
+    throw new Error("Sender key not received");
+  }
+  const plaintext = senderKeyDecrypt(
+    state,
+    msg.senderKey,
+    msg.encryptedContent,
+    msg.nonce,
+    senderKeyAssociatedData(msg.conversationId, msg.sender)
+  );
+  await saveSenderKeys(msg.conversationId);
+  return plaintext;
+}
+
+// ============================================================================
+// Local Plaintext Cache
+// ============================================================================
+
+/**
+ * Ratchet message keys are deleted once used, so each message can only be decrypted once.
+ * The plaintext is kept on this device, sealed with a key derived from the identity key.
+ */
+function getPlaintextCacheKey(): Uint8Array {
+  if (!privateKey) {
+    throw new Error("No encryption key available");
+  }
+  return new Uint8Array(crypto.hkdfSync("sha256", privateKey, Buffer.alloc(0), "JoyCreateMessageCache", 32));
+}
+
+async function cachePlaintext(conversationId: string, messageId: string, plaintext: string): Promise<void> {
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const sealed = nacl.secretbox(naclUtil.decodeUTF8(plaintext), nonce, getPlaintextCacheKey());
+  
+  const dir = path.join(getPlaintextDir(), conversationId);
+  await fs.ensureDir(dir);
+  await fs.writeJson(path.join(dir, `${messageId}.json`), {
+    nonce: naclUtil.encodeBase64(nonce),
+    sealed: naclUtil.encodeBase64(sealed),
+  });
+}
+
+async function getCachedPlaintext(conversationId: string, messageId: string): Promise<string | null> {
+  const cachePath = path.join(getPlaintextDir(), conversationId, `${messageId}.json`);
+  if (!await fs.pathExists(cachePath)) return null;
+  
+  try {
+    const { nonce, sealed } = await fs.readJson(cachePath);
+    const opened = nacl.secretbox.open(naclUtil.decodeBase64(sealed), naclUtil.decodeBase64(nonce), getPlaintextCacheKey());
+    return opened ? naclUtil.encodeUTF8(opened) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decrypt one message, whichever scheme it was sent with
+ */
+async function openMessage(msg: ChatMessage, conversation: ChatConversation): Promise<string> {
+  const cached = await getCachedPlaintext(msg.conversationId, msg.id);
+  if (cached !== null) return cached;
+  
+  let plaintext: string;
+  switch (msg.encryptionAlgorithm) {
+    case "double-ratchet-aes-256-gcm":
+      if (!msg.ratchet) {
+        throw new Error("Missing ratchet header");
+      }
+      plaintext = await openRatchetEnvelope(conversation, msg.sender, {
+        header: msg.ratchet,
+        ciphertext: msg.encryptedContent,
+        nonce: msg.nonce,
+      });
+      break;
+    case "sender-key-aes-256-gcm":
+      plaintext = await openSenderKeyMessage(msg, conversation);
+      break;
+    default: {
+      // Messages from before the ratchet still open with the static keys
+      const sender = conversation.participants.find(p => p.walletAddress === msg.sender);
+      return decryptMessage(msg.encryptedContent, msg.nonce, sender?.publicKey || localIdentity!.publicKey);
+    }
+  }
+  
+  await cachePlaintext(msg.conversationId, msg.id, plaintext);
+  return plaintext;
+}
+
 // ============================================================================
 // Conversation Management
 // ============================================================================
@@ -537,7 +1011,7 @@ function hashContent(content: string): string {
 /**
  * Create a new conversation
  */
-async function createConversation(
+export async function createConversation(
   request: CreateConversationRequest
 ): Promise<CreateConversationResult> {
   if (!localIdentity) {
@@ -552,6 +1026,7 @@ async function createConversation(
       walletAddress: localIdentity.walletAddress,
       did: localIdentity.did,
       publicKey: localIdentity.publicKey,
+      signingKey: localIdentity.signingKey,
       displayName: localIdentity.displayName,
       avatar: localIdentity.avatar,
       role: "owner",
@@ -679,7 +1154,7 @@ async function resolveParticipantInfo(walletAddress: string): Promise<{
 /**
  * Get conversation by ID
  */
-async function getConversation(conversationId: string): Promise<ChatConversation | null> {
+export async function getConversation(conversationId: string): Promise<ChatConversation | null> {
   // Check in-memory first
   if (conversations.has(conversationId)) {
     return conversations.get(conversationId)!;
@@ -696,6 +1171,16 @@ async function getConversation(conversationId: string): Promise<ChatConversation
   return null;
 }
 
+/**
+ * Persist changes made to a conversation outside this module (e.g. group membership)
+ */
+export async function saveConversation(conversation: ChatConversation): Promise<void> {
+  conversation.updatedAt = new Date().toISOString();
+  conversations.set(conversation.id, conversation);
+  await fs.writeJson(path.join(getConversationsDir(), `${conversation.id}.json`), conversation, { spaces: 2 });
+  emitChatEvent({ type: "conversation:updated", conversationId: conversation.id, updates: conversation });
+}
+
 /**
  * List all conversations
  */
@@ -768,25 +1253,11 @@ async function sendMessage(request: SendMessageRequest): Promise<SendMessageResu
     .filter(p => p.walletAddress !== localIdentity!.walletAddress)
     .map(p => p.walletAddress);
   
-  // For direct messages, encrypt for recipient's public key
-  // For groups, would use group key (simplified for now)
-  let encryptedContent: string;
-  let nonce: string;
-  
-  if (conversation.type === "direct" && recipients.length === 1) {
-    const recipient = conversation.participants.find(p => p.walletAddress === recipients[0]);
-    if (!recipient?.publicKey) {
-      return { success: false, deliveryStatus: "failed", error: "Recipient public key not found" };
-    }
-    
-    const encrypted = await encryptMessage(request.content, recipient.publicKey);
-    encryptedContent = encrypted.encrypted;
-    nonce = encrypted.nonce;
-  } else {
-    // Group encryption - simplified
-    const encrypted = await encryptMessage(request.content, localIdentity.publicKey);
-    encryptedContent = encrypted.encrypted;
-    nonce = encrypted.nonce;
+  let sealed: SealedContent;
+  try {
+    sealed = await sealMessageContent(conversation, recipients, request.content);
+  } catch (error) {
+    return { success: false, deliveryStatus: "failed", error: (error as Error).message };
   }
   
   const message: ChatMessage = {
@@ -795,9 +1266,7 @@ async function sendMessage(request: SendMessageRequest): Promise<SendMessageResu
     sender: localIdentity.walletAddress,
     senderDid: localIdentity.did,
     recipients,
-    encryptedContent,
-    nonce,
-    encryptionAlgorithm: "x25519-xsalsa20-poly1305",
+    ...sealed,
     messageType: request.messageType || "text",
     replyTo: request.replyTo,
     threadId: request.threadId,
@@ -818,6 +1287,7 @@ async function sendMessage(request: SendMessageRequest): Promise<SendMessageResu
     messages.set(request.conversationId, []);
   }
   messages.get(request.conversationId)!.push(message);
+  await cachePlaintext(request.conversationId, messageId, request.content);
   
   // Save to disk
   const msgPath = path.join(getMessagesDir(), request.conversationId);
@@ -948,16 +1418,7 @@ async function decryptMessages(
   
   for (const msg of msgs) {
     try {
-      // Find sender's public key
-      const sender = conversation.participants.find(p => p.walletAddress === msg.sender);
-      const senderPublicKey = sender?.publicKey || localIdentity.publicKey;
-      
-      const decryptedContent = await decryptMessage(
-        msg.encryptedContent,
-        msg.nonce,
-        senderPublicKey
-      );
-      
+      const decryptedContent = await openMessage(msg, conversation);
       results.push({ ...msg, decryptedContent });
     } catch (error) {
       // If decryption fails, return without decrypted content
@@ -1138,7 +1599,7 @@ async function pullPinnedMessages(
 /**
  * Subscribe to conversation topic
  */
-async function subscribeToConversation(conversationId: string): Promise<void> {
+export async function subscribeToConversation(conversationId: string): Promise<void> {
   const topic = `/joycreate/chat/v1/${conversationId}`;
   
   if (activeSubscriptions.has(topic)) {
@@ -1191,6 +1652,10 @@ async function publishMessage(conversationId: string, message: ChatMessage): Pro
       // Include full message data for real-time delivery
       encryptedContent: message.encryptedContent,
       nonce: message.nonce,
+      encryptionAlgorithm: message.encryptionAlgorithm,
+      ratchet: message.ratchet,
+      senderKey: message.senderKey,
+      senderKeyDistribution: message.senderKeyDistribution,
       recipients: message.recipients,
       senderDid: message.senderDid,
       signature: message.signature,
@@ -1264,7 +1729,10 @@ async function handlePubSubMessage(topic: string, data: Uint8Array): Promise<voi
           recipients: payload.recipients || [],
           encryptedContent: payload.encryptedContent || "",
           nonce: payload.nonce || "",
-          encryptionAlgorithm: "x25519-xsalsa20-poly1305" as EncryptionAlgorithm,
+          encryptionAlgorithm: (payload.encryptionAlgorithm || "x25519-xsalsa20-poly1305") as EncryptionAlgorithm,
+          ratchet: payload.ratchet,
+          senderKey: payload.senderKey,
+          senderKeyDistribution: payload.senderKeyDistribution,
           messageType: payload.messageType || "text",
           deliveryStatus: "delivered" as DeliveryStatus,
           readReceipts: [],
@@ -1297,6 +1765,14 @@ async function handlePubSubMessage(topic: string, data: Uint8Array): Promise<voi
             sender: pubsubMsg.senderId,
           });
           
+          // Decrypt in arrival order so the ratchet advances; the plaintext is cached for display
+          const conversation = await getConversation(pubsubMsg.conversationId);
+          if (conversation) {
+            await openMessage(chatMessage, conversation).catch(error => {
+              logger.debug("Could not decrypt received message yet", { messageId: chatMessage.id, error });
+            });
+          }
+          
           // Emit event to UI
           emitChatEvent({
             type: "message:received",
@@ -1345,12 +1821,156 @@ async function handlePubSubMessage(topic: string, data: Uint8Array): Promise<voi
           status: pubsubMsg.payload.status,
         });
         break;
+
+      default:
+        await dispatchPubSubExtension(pubsubMsg);
+        break;
     }
   } catch (error) {
     logger.error("Failed to handle PubSub message:", error);
   }
 }
 
+// ============================================================================
+// PubSub Extensions (groups, polls, meetings, appointments)
+// ============================================================================
+
+type ChatPubSubListener = (message: ChatPubSubMessage) => void | Promise<void>;
+
+const pubsubListeners = new Map<PubSubMessageType, Set<ChatPubSubListener>>();
+
+/**
+ * Register a listener for a PubSub message type not handled by this module.
+ * Returns a function that removes the listener.
+ */
+export function onChatPubSubMessage(type: PubSubMessageType, listener: ChatPubSubListener): () => void {
+  if (!pubsubListeners.has(type)) {
+    pubsubListeners.set(type, new Set());
+  }
+  pubsubListeners.get(type)!.add(listener);
+  return () => {
+    pubsubListeners.get(type)?.delete(listener);
+  };
+}
+
+function getPeerSigningKeysPath(): string {
+  return path.join(getKeysDir(), "peer-signing-keys.json");
+}
+
+async function loadPeerSigningKeys(): Promise<Map<string, string>> {
+  if (!peerSigningKeys) {
+    const stored = await fs.pathExists(getPeerSigningKeysPath())
+      ? await fs.readJson(getPeerSigningKeysPath())
+      : {};
+    peerSigningKeys ??= new Map(Object.entries(stored));
+  }
+  return peerSigningKeys;
+}
+
+async function pinPeerSigningKey(walletAddress: string, key: string): Promise<void> {
+  const keys = await loadPeerSigningKeys();
+  if (keys.has(walletAddress)) return;
+  keys.set(walletAddress, key);
+  await fs.writeJson(getPeerSigningKeysPath(), Object.fromEntries(keys), { spaces: 2 });
+}
+
+/**
+ * Signing key we already trust for a wallet: the one recorded for them in the
+ * conversation, else the one they introduced when we first heard from them,
+ * else one recorded for them in another conversation
+ */
+async function getKnownSigningKey(walletAddress: string, conversationId?: string): Promise<string | undefined> {
+  const wallet = walletAddress.toLowerCase();
+  if (conversationId && conversationId !== "global") {
+    const conversation = await getConversation(conversationId);
+    const participant = conversation?.participants.find(p => p.walletAddress.toLowerCase() === wallet);
+    if (participant?.signingKey) return participant.signingKey;
+  }
+  const pinned = (await loadPeerSigningKeys()).get(wallet);
+  if (pinned) return pinned;
+  for (const conversation of conversations.values()) {
+    const participant = conversation.participants.find(p => p.walletAddress.toLowerCase() === wallet);
+    if (participant?.signingKey) return participant.signingKey;
+  }
+  return undefined;
+}
+
+async function dispatchPubSubExtension(message: ChatPubSubMessage): Promise<void> {
+  const listeners = pubsubListeners.get(message.type);
+  if (!listeners || listeners.size === 0) return;
+
+  // Our own publications have already been applied locally
+  if (localIdentity && message.senderId === localIdentity.walletAddress) return;
+
+  // Listeners authorize by senderId, so it has to be backed by the sender's signature
+  const sender = message.senderId.toLowerCase();
+  const authenticated = authenticatePubSubMessage(message, await getKnownSigningKey(sender, message.conversationId));
+  if (!authenticated) {
+    logger.warn("Dropping PubSub message with an invalid signature", { type: message.type, senderId: message.senderId });
+    return;
+  }
+  if (authenticated.introduced) {
+    await pinPeerSigningKey(sender, authenticated.signingKey);
+  }
+  message.signingKey = authenticated.signingKey;
+
+  for (const listener of listeners) {
+    try {
+      await listener(message);
+    } catch (error) {
+      logger.warn("PubSub listener failed", { type: message.type, error });
+    }
+  }
+}
+
+/**
+ * Sign and publish a message to a conversation topic.
+ * Use "global" as the conversation ID to reach peers on the presence topic.
+ */
+export async function publishToConversation(
+  conversationId: string,
+  type: PubSubMessageType,
+  payload: any
+): Promise<void> {
+  if (!localIdentity) {
+    throw new Error("No local identity");
+  }
+
+  const timestamp = new Date().toISOString();
+  const pubsubMessage: ChatPubSubMessage = {
+    type,
+    conversationId,
+    senderId: localIdentity.walletAddress,
+    payload,
+    timestamp,
+    signature: await signMessage(pubSubDigest({ type, conversationId, payload, timestamp })),
+    signingKey: localIdentity.signingKey,
+  };
+
+  const topic = conversationId === "global"
+    ? `/joycreate/chat/v1/presence`
+    : `/joycreate/chat/v1/${conversationId}`;
+
+  try {
+    await ensureChatHelia();
+    if (conversationId === "global") {
+      await subscribeToGlobalPresence();
+    } else {
+      await subscribeToConversation(conversationId);
+    }
+
+    if (chatHelia?.libp2p?.services?.pubsub) {
+      const data = new TextEncoder().encode(JSON.stringify(pubsubMessage));
+      await chatHelia.libp2p.services.pubsub.publish(topic, data);
+      logger.debug("Published PubSub message", { topic, type });
+    } else {
+      logger.debug("PubSub not available, skipping publish", { topic, type });
+    }
+  } catch (error) {
+    logger.warn("Failed to publish to PubSub:", { topic, type, error });
+  }
+}
+
 // ============================================================================
 // Offline Message Queue
 // ============================================================================
@@ -1674,6 +2294,13 @@ async function syncOnComingOnline(): Promise<SyncMessagesResult> {
     // Broadcast that we're online
     await broadcastPresence("online");
     
+    // Let peers start sessions with us while we're away
+    try {
+      await publishKeyBundle();
+    } catch (error) {
+      logger.warn("Failed to publish pre-key bundle:", error);
+    }
+    
     logger.info("Sync completed", { conversations: convs.length, totalNewMessages: totalNew });
     
     return {
@@ -1690,7 +2317,7 @@ async function syncOnComingOnline(): Promise<SyncMessagesResult> {
 // Event Emission
 // ============================================================================
 
-function emitChatEvent(event: ChatEvent): void {
+export function emitChatEvent(event: ChatEvent): void {
   const windows = BrowserWindow.getAllWindows();
   for (const win of windows) {
     win.webContents.send("decentralized-chat:event", event);
@@ -1784,6 +2411,11 @@ async function subscribeToGlobalPresence(): Promise<void> {
               }
             }
             
+            // Targeted messages (group invites, appointment updates) travel on the presence topic
+            if (message.conversationId === "global" && pubsubListeners.has(message.type)) {
+              await dispatchPubSubExtension(message as ChatPubSubMessage);
+            }
+            
             // Handle presence updates
             if (message.type === "presence:update" && message.senderId) {
               presenceCache.set(message.senderId, {
@@ -1821,9 +2453,11 @@ export function registerDecentralizedChatHandlers(): void {
   
   // Load DHT cache and identity on startup
   loadDHTCache().catch(err => logger.warn("Failed to load DHT cache:", err));
+  onChatPubSubMessage("keys:bundle", handleKeyBundle);
   loadChatIdentity().then(identity => {
     if (identity) {
       logger.info("Loaded existing chat identity", { walletAddress: identity.walletAddress });
+      ensurePreKeys().catch(err => logger.warn("Failed to prepare pre-keys:", err));
       // Subscribe to global presence for message discovery
       subscribeToGlobalPresence().catch(err => logger.warn("Failed to subscribe to presence:", err));
     }
@@ -0,0 +1,573 @@
+/**
+ * Decentralized Chat Meeting Handlers
+ * Meeting lifecycle, waiting room and participant state on top of WebRTC calls
+ * The host's copy is authoritative; participants send requests and the host replicates snapshots
+ */
+
+import { ipcMain } from "electron";
+import * as fs from "fs-extra";
+import * as path from "path";
+import log from "electron-log";
+import {
+  getChatDir,
+  getLocalChatIdentity,
+  subscribeToConversation,
+  publishToConversation,
+  onChatPubSubMessage,
+  emitChatEvent,
+} from "./decentralized_chat_handlers";
+import { startCall, endCall, getIceServers } from "./webrtc_handlers";
+import {
+  admitParticipant,
+  cancelMeeting,
+  createMeeting as buildMeeting,
+  endMeeting,
+  findParticipant,
+  getActiveParticipants,
+  hashMeetingPassword,
+  isMeetingModerator,
+  joinMeeting as applyJoin,
+  leaveMeeting as applyLeave,
+  meetingPasswordProof,
+  removeParticipant,
+  setParticipantRole,
+  startMeeting,
+  updateParticipantMedia,
+  type MeetingParticipantProfile,
+} from "@/lib/dchat_meetings";
+import type {
+  ChatIdentity,
+  ChatPubSubMessage,
+  CreateMeetingRequest,
+  CreateMeetingResult,
+  JoinMeetingRequest,
+  JoinMeetingResult,
+  MediaStateUpdate,
+  Meeting,
+  MeetingActionResult,
+  MeetingRole,
+} from "@/types/decentralized_chat_types";
+
+const logger = log.scope("decentralized-chat-meetings");
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+function getMeetingsDir(): string {
+  return path.join(getChatDir(), "meetings");
+}
+
+const meetings = new Map<string, Meeting>();
+const meetingCalls = new Map<string, string[]>(); // meetingId -> WebRTC call IDs
+let loaded = false;
+
+async function loadMeetings(): Promise<void> {
+  if (loaded) return;
+  await fs.ensureDir(getMeetingsDir());
+
+  for (const file of await fs.readdir(getMeetingsDir())) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      const meeting = await fs.readJson(path.join(getMeetingsDir(), file));
+      meetings.set(meeting.id, meeting);
+    } catch (error) {
+      logger.warn("Failed to load meeting:", { file, error });
+    }
+  }
+  loaded = true;
+}
+
+async function writeMeeting(meeting: Meeting): Promise<void> {
+  meetings.set(meeting.id, meeting);
+  await fs.writeJson(
+    path.join(getMeetingsDir(), `${meeting.id}.json`),
+    meeting,
+    { spaces: 2 },
+  );
+  emitChatEvent({ type: "meeting:updated", meeting: withoutPassword(meeting) });
+}
+
+async function requireIdentity(): Promise<ChatIdentity> {
+  const identity = await getLocalChatIdentity();
+  if (!identity) {
+    throw new Error("No local identity");
+  }
+  return identity;
+}
+
+function toProfile(identity: ChatIdentity): MeetingParticipantProfile {
+  return {
+    walletAddress: identity.walletAddress,
+    displayName: identity.displayName,
+    avatar: identity.avatar,
+  };
+}
+
+/**
+ * Only the host keeps the password hash; everyone else proves knowledge of it
+ */
+function withoutPassword(meeting: Meeting): Meeting {
+  return { ...meeting, password: undefined };
+}
+
+/**
+ * Meetings outside a conversation use their WebRTC room ID as the PubSub channel
+ */
+function getMeetingChannel(meeting: Meeting): string {
+  return meeting.conversationId || meeting.webrtcRoomId;
+}
+
+function getWebRTCConfig(meeting: Meeting): JoinMeetingResult["webrtcConfig"] {
+  return {
+    iceServers: getIceServers(),
+    signalingTopic: meeting.signalingTopic,
+  };
+}
+
+async function broadcastMeeting(meeting: Meeting): Promise<void> {
+  await publishToConversation(getMeetingChannel(meeting), "meeting:update", {
+    meeting: withoutPassword(meeting),
+  });
+}
+
+/**
+ * Apply a change to a copy of the meeting so a rejected change leaves no trace
+ */
+async function changeMeeting(
+  meetingId: string,
+  change: (meeting: Meeting, walletAddress: string) => void,
+): Promise<MeetingActionResult> {
+  try {
+    const identity = await requireIdentity();
+    await loadMeetings();
+    const current = meetings.get(meetingId);
+    if (!current) {
+      return { success: false, error: "Meeting not found" };
+    }
+
+    const meeting = structuredClone(current);
+    change(meeting, identity.walletAddress);
+    await writeMeeting(meeting);
+    await broadcastMeeting(meeting);
+    return { success: true, meeting: withoutPassword(meeting) };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+// ============================================================================
+// Calls
+// ============================================================================
+
+/**
+ * Call every other active participant. The newest arrival places the calls,
+ * so each pair of participants is connected exactly once.
+ */
+async function connectToParticipants(
+  meeting: Meeting,
+  localWallet: string,
+): Promise<void> {
+  const local = findParticipant(meeting, localWallet);
+  const callIds: string[] = meetingCalls.get(meeting.id) || [];
+
+  for (const participant of getActiveParticipants(meeting)) {
+    if (participant.walletAddress === localWallet) continue;
+
+    const result = await startCall({
+      walletAddress: participant.walletAddress,
+      conversationId: getMeetingChannel(meeting),
+      type: local?.videoEnabled ? "video" : "audio",
+      audioEnabled: local?.audioEnabled,
+      videoEnabled: local?.videoEnabled,
+    });
+    if (result.success && result.callId) {
+      callIds.push(result.callId);
+    } else {
+      logger.warn("Failed to call meeting participant", {
+        meetingId: meeting.id,
+        participant: participant.walletAddress,
+        error: result.error,
+      });
+    }
+  }
+  meetingCalls.set(meeting.id, callIds);
+}
+
+async function disconnectFromMeeting(meetingId: string): Promise<void> {
+  for (const callId of meetingCalls.get(meetingId) || []) {
+    await endCall(callId);
+  }
+  meetingCalls.delete(meetingId);
+}
+
+// ============================================================================
+// Meetings
+// ============================================================================
+
+async function createMeeting(
+  request: CreateMeetingRequest,
+): Promise<CreateMeetingResult> {
+  try {
+    const identity = await requireIdentity();
+    await loadMeetings();
+
+    const meeting = buildMeeting(request, toProfile(identity));
+    await writeMeeting(meeting);
+    await subscribeToConversation(getMeetingChannel(meeting));
+
+    // Invitees may not share a conversation with us yet
+    await broadcastMeeting(meeting);
+    if (meeting.participants.length > 1) {
+      await publishToConversation("global", "meeting:update", {
+        meeting: withoutPassword(meeting),
+      });
+    }
+
+    logger.info("Created meeting", {
+      meetingId: meeting.id,
+      type: meeting.type,
+    });
+    return {
+      success: true,
+      meeting: withoutPassword(meeting),
+      inviteLink: meeting.inviteLink,
+    };
+  } catch (error) {
+    logger.error("Failed to create meeting:", error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+async function getMeeting(meetingId: string): Promise<Meeting | null> {
+  await loadMeetings();
+  const meeting = meetings.get(meetingId);
+  return meeting ? withoutPassword(meeting) : null;
+}
+
+async function listMeetings(): Promise<Meeting[]> {
+  await loadMeetings();
+  return Array.from(meetings.values())
+    .map(withoutPassword)
+    .sort(
+      (a, b) =>
+        new Date(b.scheduledStart || b.createdAt).getTime() -
+        new Date(a.scheduledStart || a.createdAt).getTime(),
+    );
+}
+
+async function joinMeeting(
+  request: JoinMeetingRequest,
+): Promise<JoinMeetingResult> {
+  try {
+    const identity = await requireIdentity();
+    await loadMeetings();
+    const current = meetings.get(request.meetingId);
+    if (!current) {
+      return { success: false, error: "Meeting not found" };
+    }
+
+    const meeting = structuredClone(current);
+    const isHost = meeting.hostWallet === identity.walletAddress;
+    const status = applyJoin(meeting, toProfile(identity), request);
+    await writeMeeting(meeting);
+    await subscribeToConversation(getMeetingChannel(meeting));
+
+    if (isHost) {
+      await broadcastMeeting(meeting);
+    } else {
+      // The host checks the request against its own copy, including the password
+      await publishToConversation(getMeetingChannel(meeting), "meeting:join", {
+        meetingId: meeting.id,
+        profile: toProfile(identity),
+        passwordProof: request.password
+          ? meetingPasswordProof(
+              hashMeetingPassword(request.password),
+              identity.walletAddress,
+            )
+          : undefined,
+        audioEnabled: request.audioEnabled,
+        videoEnabled: request.videoEnabled,
+      });
+    }
+
+    const admitted = status === "joined";
+    if (admitted) {
+      await connectToParticipants(meeting, identity.walletAddress);
+    }
+
+    logger.info("Joined meeting", { meetingId: meeting.id, status });
+    return {
+      success: true,
+      meeting: withoutPassword(meeting),
+      admitted,
+      webrtcConfig: admitted ? getWebRTCConfig(meeting) : undefined,
+    };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+async function leaveMeeting(meetingId: string): Promise<MeetingActionResult> {
+  try {
+    const identity = await requireIdentity();
+    await loadMeetings();
+    const current = meetings.get(meetingId);
+    if (!current) {
+      return { success: false, error: "Meeting not found" };
+    }
+
+    const meeting = structuredClone(current);
+    applyLeave(meeting, identity.walletAddress);
+    await writeMeeting(meeting);
+    await disconnectFromMeeting(meetingId);
+
+    if (meeting.hostWallet === identity.walletAddress) {
+      await broadcastMeeting(meeting);
+    } else {
+      await publishToConversation(getMeetingChannel(meeting), "meeting:leave", {
+        meetingId,
+      });
+    }
+    return { success: true, meeting: withoutPassword(meeting) };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+async function updateMedia(
+  meetingId: string,
+  update: MediaStateUpdate,
+): Promise<MeetingActionResult> {
+  try {
+    const identity = await requireIdentity();
+    await loadMeetings();
+    const current = meetings.get(meetingId);
+    if (!current) {
+      return { success: false, error: "Meeting not found" };
+    }
+
+    const meeting = structuredClone(current);
+    updateParticipantMedia(meeting, identity.walletAddress, update);
+    await writeMeeting(meeting);
+
+    if (meeting.hostWallet === identity.walletAddress) {
+      await broadcastMeeting(meeting);
+    } else {
+      await publishToConversation(
+        getMeetingChannel(meeting),
+        "meeting:update",
+        { meetingId, media: update },
+      );
+    }
+    return { success: true, meeting: withoutPassword(meeting) };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+// ============================================================================
+// Incoming PubSub
+// ============================================================================
+
+async function handleMeetingUpdate(message: ChatPubSubMessage): Promise<void> {
+  const identity = await getLocalChatIdentity();
+  if (!identity) return;
+  await loadMeetings();
+
+  // Participant media change, applied by the host
+  if (message.payload?.media) {
+    const current = meetings.get(message.payload.meetingId);
+    if (!current || current.hostWallet !== identity.walletAddress) return;
+    const meeting = structuredClone(current);
+    try {
+      updateParticipantMedia(meeting, message.senderId, message.payload.media);
+    } catch (error) {
+      logger.debug("Ignoring media update", {
+        meetingId: meeting.id,
+        reason: (error as Error).message,
+      });
+      return;
+    }
+    await writeMeeting(meeting);
+    await broadcastMeeting(meeting);
+    return;
+  }
+
+  const incoming = message.payload?.meeting as Meeting | undefined;
+  if (!incoming?.id) return;
+  const existing = meetings.get(incoming.id);
+
+  if (existing) {
+    if (existing.hostWallet === identity.walletAddress) return;
+    if (new Date(incoming.updatedAt) <= new Date(existing.updatedAt)) return;
+    if (!isMeetingModerator(existing, message.senderId)) return;
+  } else if (
+    incoming.hostWallet !== message.senderId ||
+    !findParticipant(incoming, identity.walletAddress)
+  ) {
+    return;
+  }
+
+  await writeMeeting(incoming);
+  await subscribeToConversation(getMeetingChannel(incoming));
+
+  const local = findParticipant(incoming, identity.walletAddress);
+  const wasActive =
+    existing &&
+    getActiveParticipants(existing).some(
+      (p) => p.walletAddress === identity.walletAddress,
+    );
+  const isActive = !!local && getActiveParticipants(incoming).includes(local);
+  if (isActive && !wasActive && existing) {
+    // Admitted from the waiting room
+    await connectToParticipants(incoming, identity.walletAddress);
+  } else if (wasActive && !isActive) {
+    // Removed, or the meeting ended
+    await disconnectFromMeeting(incoming.id);
+  }
+}
+
+async function handleMeetingJoin(message: ChatPubSubMessage): Promise<void> {
+  const { meetingId, profile, passwordProof, audioEnabled, videoEnabled } =
+    message.payload || {};
+  const identity = await getLocalChatIdentity();
+  if (!identity) return;
+  await loadMeetings();
+
+  const current = meetings.get(meetingId);
+  if (!current || current.hostWallet !== identity.walletAddress) return;
+
+  const meeting = structuredClone(current);
+  try {
+    applyJoin(
+      meeting,
+      { ...profile, walletAddress: message.senderId },
+      { passwordProof, audioEnabled, videoEnabled },
+    );
+  } catch (error) {
+    logger.info("Rejected meeting join", {
+      meetingId,
+      participant: message.senderId,
+      reason: (error as Error).message,
+    });
+    return;
+  }
+  await writeMeeting(meeting);
+  await broadcastMeeting(meeting);
+}
+
+async function handleMeetingLeave(message: ChatPubSubMessage): Promise<void> {
+  const identity = await getLocalChatIdentity();
+  if (!identity) return;
+  await loadMeetings();
+
+  const current = meetings.get(message.payload?.meetingId);
+  if (!current || current.hostWallet !== identity.walletAddress) return;
+
+  const meeting = structuredClone(current);
+  applyLeave(meeting, message.senderId);
+  await writeMeeting(meeting);
+  await broadcastMeeting(meeting);
+}
+
+// ============================================================================
+// Register IPC Handlers
+// ============================================================================
+
+export function registerDecentralizedChatMeetingHandlers(): void {
+  loadMeetings().catch((err) => logger.warn("Failed to load meetings:", err));
+
+  onChatPubSubMessage("meeting:update", handleMeetingUpdate);
+  onChatPubSubMessage("meeting:join", handleMeetingJoin);
+  onChatPubSubMessage("meeting:leave", handleMeetingLeave);
+
+  ipcMain.handle(
+    "dchat:meeting:create",
+    async (_, request: CreateMeetingRequest) => {
+      return createMeeting(request);
+    },
+  );
+
+  ipcMain.handle("dchat:meeting:get", async (_, meetingId: string) => {
+    return getMeeting(meetingId);
+  });
+
+  ipcMain.handle("dchat:meeting:list", async () => {
+    return listMeetings();
+  });
+
+  ipcMain.handle("dchat:meeting:start", async (_, meetingId: string) => {
+    return changeMeeting(meetingId, (meeting, actor) =>
+      startMeeting(meeting, actor),
+    );
+  });
+
+  ipcMain.handle(
+    "dchat:meeting:join",
+    async (_, request: JoinMeetingRequest) => {
+      return joinMeeting(request);
+    },
+  );
+
+  ipcMain.handle("dchat:meeting:leave", async (_, meetingId: string) => {
+    return leaveMeeting(meetingId);
+  });
+
+  ipcMain.handle(
+    "dchat:meeting:admit",
+    async (_, meetingId: string, walletAddress: string) => {
+      return changeMeeting(meetingId, (meeting, actor) => {
+        admitParticipant(meeting, actor, walletAddress);
+      });
+    },
+  );
+
+  ipcMain.handle(
+    "dchat:meeting:remove",
+    async (_, meetingId: string, walletAddress: string) => {
+      return changeMeeting(meetingId, (meeting, actor) =>
+        removeParticipant(meeting, actor, walletAddress),
+      );
+    },
+  );
+
+  ipcMain.handle(
+    "dchat:meeting:set-role",
+    async (
+      _,
+      meetingId: string,
+      walletAddress: string,
+      role: Exclude<MeetingRole, "host">,
+    ) => {
+      return changeMeeting(meetingId, (meeting, actor) =>
+        setParticipantRole(meeting, actor, walletAddress, role),
+      );
+    },
+  );
+
+  ipcMain.handle(
+    "dchat:meeting:update-media",
+    async (_, meetingId: string, update: MediaStateUpdate) => {
+      return updateMedia(meetingId, update);
+    },
+  );
+
+  ipcMain.handle("dchat:meeting:end", async (_, meetingId: string) => {
+    const result = await changeMeeting(meetingId, (meeting, actor) =>
+      endMeeting(meeting, actor),
+    );
+    if (result.success) {
+      await disconnectFromMeeting(meetingId);
+    }
+    return result;
+  });
+
+  ipcMain.handle("dchat:meeting:cancel", async (_, meetingId: string) => {
+    return changeMeeting(meetingId, (meeting, actor) =>
+      cancelMeeting(meeting, actor),
+    );
+  });
+
+  logger.info("Decentralized chat meeting handlers registered");
+}
@@ -12,6 +12,10 @@ import { getDyadAppPath } from "@/paths/paths";
 import { db } from "../../db";
 import { apps } from "../../db/schema";
 import { eq } from "drizzle-orm";
+import { createCar, isSameCid } from "@/lib/ipfs_car";
+import { heliaVerificationService } from "@/lib/helia_verification_service";
+import { LocalIpfsGateway } from "@/lib/local_ipfs_gateway";
+import { announceAppDeployment } from "./federation_handlers";
 import type {
   DecentralizedPlatform,
   PlatformCredentials,
@@ -47,6 +51,25 @@ const API_ENDPOINTS = {
   "filebase": "https://api.filebase.io",
 };
 
+// Platforms that put the build output on IPFS; their reported CID is checked
+// against the one computed locally
+const IPFS_PLATFORMS: DecentralizedPlatform[] = ["4everland", "ipfs-pinata", "ipfs-web3storage", "spheron", "local-helia"];
+
+// Platforms that deploy without stored credentials
+const CREDENTIAL_FREE_PLATFORMS: DecentralizedPlatform[] = ["arweave", "skynet", "local-helia"];
+
+// Serves content pinned in the embedded Helia node for local previews
+const localGateway = new LocalIpfsGateway({
+  stat: (cid, entryPath) => heliaVerificationService.statPath(cid, entryPath),
+  cat: (cid, entryPath) => heliaVerificationService.catPath(cid, entryPath),
+});
+
+interface CarFile {
+  root: string;
+  car: Uint8Array;
+  size: number;
+}
+
 // ============================================================================
 // Initialization
 // ============================================================================
@@ -316,6 +339,8 @@ async function deployToPinata(
       keyvalues: metadata,
     })
   );
+  // CIDv1 (with raw leaves) is what the local CID is computed as
+  formData.append("pinataOptions", JSON.stringify({ cidVersion: 1 }));
 
   try {
     const response = await fetch(`${API_ENDPOINTS["ipfs-pinata"]}/pinning/pinFileToIPFS`, {
@@ -362,22 +387,19 @@ async function deployToPinata(
 
 // web3.storage Deployment
 async function deployToWeb3Storage(
-  outputPath: string,
+  carFile: CarFile,
   credentials: PlatformCredentials,
   metadata?: any
 ): Promise<DecentralizedDeployResult> {
   try {
     // Use the web3.storage HTTP API
-    const files = await getAllFiles(outputPath);
-    const carFile = await createCarFile(outputPath, files);
-
     const response = await fetch(`${API_ENDPOINTS["ipfs-web3storage"]}/upload`, {
       method: "POST",
       headers: {
         Authorization: `Bearer ${credentials.apiKey}`,
         "Content-Type": "application/car",
       },
-      body: carFile as unknown as BodyInit,
+      body: carFile.car as unknown as BodyInit,
     });
 
     if (!response.ok) {
@@ -527,6 +549,70 @@ async function deployToSpheron(
   }
 }
 
+// Local Helia Deployment
+async function deployToLocalHelia(
+  outputPath: string,
+  request: DecentralizedDeployRequest
+): Promise<DecentralizedDeployResult> {
+  try {
+    await heliaVerificationService.start();
+
+    const files = await getAllFiles(outputPath);
+    const entries = [];
+    for (const file of files) {
+      const relativePath = path.relative(outputPath, file).split(path.sep).join("/");
+      entries.push({ path: relativePath, content: await fs.readFile(file) });
+    }
+    const { cid, bytes } = await heliaVerificationService.storeDirectory(entries);
+    const url = await getLocalPreviewUrl(cid);
+
+    if (request.federationAnnounce) {
+      try {
+        await announceAppDeployment({
+          cid,
+          name: request.metadata?.name || `app-${request.appId}`,
+          bytes,
+          privateKey: request.federationAnnounce.privateKey,
+        });
+      } catch (error) {
+        // The app is published either way; peers just won't hear about it
+        logger.warn(`Failed to announce ${cid} to federation peers:`, error);
+      }
+    }
+
+    return {
+      success: true,
+      platform: "local-helia",
+      deploymentId: `local-helia-${Date.now()}`,
+      cid,
+      url,
+      gatewayUrls: [url, `http://127.0.0.1:${localGateway.port}/ipfs/${cid}/`],
+      timestamp: Date.now(),
+      size: bytes,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      platform: "local-helia",
+      deploymentId: "",
+      url: "",
+      gatewayUrls: [],
+      timestamp: Date.now(),
+      error: String(error),
+    };
+  }
+}
+
+/**
+ * Preview URL for content pinned locally, starting Helia and the gateway
+ * if needed (e.g. after a restart).
+ */
+async function getLocalPreviewUrl(cid: string): Promise<string> {
+  await heliaVerificationService.start();
+  await localGateway.start();
+  return localGateway.urlFor(cid);
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -547,21 +633,35 @@ async function getAllFiles(dir: string): Promise<string[]> {
   return files;
 }
 
-async function createCarFile(basePath: string, files: string[]): Promise<Uint8Array> {
-  // Simplified CAR file creation
-  // In production, use @ipld/car library
-  const fileContents: { path: string; content: Buffer }[] = [];
-  
+async function createCarFile(basePath: string, files: string[]): Promise<CarFile> {
+  const entries = [];
   for (const file of files) {
-    const relativePath = path.relative(basePath, file);
-    const content = await fs.readFile(file);
-    fileContents.push({ path: relativePath, content });
+    const relativePath = path.relative(basePath, file).split(path.sep).join("/");
+    entries.push({ path: relativePath, content: await fs.readFile(file) });
   }
 
-  // For now, return a tar-like buffer
-  // Full implementation would create proper CAR format
-  const jsonStr = JSON.stringify(fileContents.map(f => ({ path: f.path, size: f.content.length })));
-  return new Uint8Array(Buffer.from(jsonStr));
+  const { root, car, size } = await createCar(entries);
+  return { root: root.toString(), car, size };
+}
+
+/**
+ * Records the locally computed root CID on a result and checks it against
+ * the CID the platform reported. A mismatch fails the deploy when we
+ * uploaded the CAR ourselves; services that import the files with their
+ * own settings only get a warning.
+ */
+function verifyDeployedCid(result: DecentralizedDeployResult, localCid: string, strict: boolean): void {
+  result.localCid = localCid;
+  result.cidVerified = !!result.cid && isSameCid(result.cid, localCid);
+  if (result.cidVerified) return;
+
+  const message = `${result.platform} reported CID ${result.cid ?? "(none)"}, expected ${localCid}`;
+  if (strict) {
+    result.success = false;
+    result.error = message;
+  } else {
+    logger.warn(message);
+  }
 }
 
 function createArweaveManifest(
@@ -592,7 +692,7 @@ async function deployToPlatform(
 ): Promise<DecentralizedDeployResult> {
   const credentials = await getCredentials(request.platform);
   
-  if (!credentials && request.platform !== "arweave" && request.platform !== "skynet") {
+  if (!credentials && !CREDENTIAL_FREE_PLATFORMS.includes(request.platform)) {
     return {
       success: false,
       platform: request.platform,
@@ -642,6 +742,25 @@ async function deployToPlatform(
     }
   }
 
+  // Compute the root CID before anything leaves the machine
+  let carFile: CarFile | undefined;
+  if (IPFS_PLATFORMS.includes(request.platform)) {
+    try {
+      carFile = await createCarFile(outputPath, await getAllFiles(outputPath));
+      logger.info(`Local root CID for app ${request.appId}: ${carFile.root}`);
+    } catch (error) {
+      return {
+        success: false,
+        platform: request.platform,
+        deploymentId: "",
+        url: "",
+        gatewayUrls: [],
+        timestamp: Date.now(),
+        error: `Failed to pack ${outputPath}: ${error}`,
+      };
+    }
+  }
+
   // Deploy to platform
   let result: DecentralizedDeployResult;
   
@@ -656,7 +775,7 @@ async function deployToPlatform(
       result = await deployToPinata(outputPath, credentials!, request.metadata);
       break;
     case "ipfs-web3storage":
-      result = await deployToWeb3Storage(outputPath, credentials!, request.metadata);
+      result = await deployToWeb3Storage(carFile!, credentials!, request.metadata);
       break;
     case "arweave":
       result = await deployToArweave(outputPath, credentials || {} as any, request.metadata);
@@ -664,6 +783,9 @@ async function deployToPlatform(
     case "spheron":
       result = await deployToSpheron(outputPath, credentials!, request.metadata);
       break;
+    case "local-helia":
+      result = await deployToLocalHelia(outputPath, request);
+      break;
     default:
       result = {
         success: false,
@@ -676,6 +798,11 @@ async function deployToPlatform(
       };
   }
 
+  if (result.success && carFile) {
+    verifyDeployedCid(result, carFile.root, request.platform === "ipfs-web3storage");
+    result.size ??= carFile.size;
+  }
+
   // Save deployment record
   if (result.success) {
     await addDeployment({
@@ -684,6 +811,8 @@ async function deployToPlatform(
       platform: request.platform,
       status: "live",
       cid: result.cid,
+      localCid: result.localCid,
+      cidVerified: result.cidVerified,
       txId: result.txId,
       url: result.url,
       gatewayUrls: result.gatewayUrls,
@@ -811,6 +940,11 @@ export function registerDecentralizedDeployHandlers(): void {
     }
   );
 
+  // Preview URL for a locally published CID
+  ipcMain.handle("decentralized:local-preview-url", async (_, cid: string) => {
+    return getLocalPreviewUrl(cid);
+  });
+
   // Get supported platforms
   ipcMain.handle("decentralized:get-platforms", async () => {
     const { PLATFORM_CONFIGS } = await import("../../types/decentralized_deploy");
@@ -11,6 +11,21 @@ import log from "electron-log";
 import { heliaVerificationService } from "@/lib/helia_verification_service";
 import { trustlessInferenceService } from "@/lib/trustless_inference_service";
 import { ipldReceiptService } from "@/lib/ipld_receipt_service";
+import { rankInferencePeers, type PeerHeartbeatInfo } from "@/lib/federated_routing";
+import {
+  checkReplicatedRecord,
+  didFromPublicKey,
+  isRecordExpired,
+} from "@/lib/federation_dht";
+import { DEFAULT_COMPUTE_NETWORK_CONFIG } from "@/types/compute_network_types";
+import { readSettings } from "@/main/settings";
+import {
+  createLibp2pNode,
+  dialPeer,
+  getComputePeer,
+  getLibp2pNode,
+  loadDependencies,
+} from "./compute_network_handlers";
 import type {
   DecentralizedIdentity,
   Peer,
@@ -27,8 +42,10 @@ import type {
   AssetDiscoveryRecord,
   DHTRecord,
   ModelChunkAnnouncement,
+  AppDeploymentAnnouncement,
   FederatedInferenceRequest,
   FederatedInferenceRoute,
+  FederatedRouteAttempt,
   IpldReceiptRef,
   FederatedInferenceExecutionRequest,
   FederatedInferenceExecutionResult,
@@ -36,6 +53,7 @@ import type {
   ModelChunkPurchase,
   BootstrapPeerEntry,
   FederationStats,
+  FederationNetworkStatus,
   LocalNodeConfig,
   TransactionStatus,
   P2PCurrency,
@@ -174,9 +192,8 @@ async function getLocalIdentity(): Promise<DecentralizedIdentity | null> {
  * Sign data with private key
  */
 function signData(data: string, privateKey: string): string {
-  const sign = crypto.createSign("SHA256");
-  sign.update(data);
-  return sign.sign(privateKey, "base64");
+  // Ed25519 hashes internally, so no digest is passed
+  return crypto.sign(null, Buffer.from(data), privateKey).toString("base64");
 }
 
 /**
@@ -184,9 +201,7 @@ function signData(data: string, privateKey: string): string {
  */
 function verifySignature(data: string, signature: string, publicKey: string): boolean {
   try {
-    const verify = crypto.createVerify("SHA256");
-    verify.update(data);
-    return verify.verify(publicKey, signature, "base64");
+    return crypto.verify(null, Buffer.from(data), publicKey, Buffer.from(signature, "base64"));
   } catch {
     return false;
   }
@@ -199,7 +214,7 @@ function hashString(data: string): string {
 // ============= Peer Management =============
 
 /**
- * In-memory peer list (would be replaced by libp2p in production)
+ * Peers we know about, and those with an open libp2p connection
  */
 const connectedPeers = new Map<string, Peer>();
 const knownPeers = new Map<string, Peer>();
@@ -334,17 +349,44 @@ function getConnectedPeers(): Peer[] {
 }
 
 /**
- * Simulate connecting to a peer
+ * Connect to a peer over libp2p
  */
 async function connectToPeer(peerId: string): Promise<Peer | null> {
-  const peer = knownPeers.get(peerId);
+  const peer = knownPeers.get(peerId)
+    ?? (await getKnownPeers()).find((p) => p.id === peerId);
   if (!peer) return null;
-  
-  peer.connected = true;
-  peer.status = "online";
-  peer.last_seen = new Date().toISOString();
-  connectedPeers.set(peerId, peer);
-  
+
+  const { libp2p } = await startFederationNetwork();
+
+  // Prefer addresses the peer gave us; fall back to ones libp2p discovered
+  const targets = [
+    ...peer.addresses.filter((a) => a.address.startsWith("/")).map((a) => a.address),
+    peerId,
+  ];
+  const startedAt = Date.now();
+  let lastError: unknown;
+  for (const target of targets) {
+    try {
+      await dialPeer(libp2p, target);
+      lastError = undefined;
+      break;
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  if (lastError) {
+    peer.connected = false;
+    peer.status = "offline";
+    throw new Error(
+      `Failed to connect to peer ${peerId}: ${lastError instanceof Error ? lastError.message : String(lastError)}`
+    );
+  }
+
+  peer.latency_ms = Date.now() - startedAt;
+  updatePeerConnection(peerId);
+  await addPeer(peer);
+  await announceLocalPeer();
+
   return peer;
 }
 
@@ -352,6 +394,13 @@ async function connectToPeer(peerId: string): Promise<Peer | null> {
  * Disconnect from peer
  */
 async function disconnectPeer(peerId: string): Promise<void> {
+  if (network) {
+    const connections = network.libp2p
+      .getConnections()
+      .filter((connection: any) => connection.remotePeer.toString() === peerId);
+    await Promise.all(connections.map((connection: any) => connection.close()));
+  }
+
   const peer = connectedPeers.get(peerId);
   if (peer) {
     peer.connected = false;
@@ -362,6 +411,10 @@ async function disconnectPeer(peerId: string): Promise<void> {
 
 // ============= DHT Operations =============
 
+function getDHTRecordPath(key: string): string {
+  return path.join(getDHTDir(), `${crypto.createHash("sha256").update(key).digest("hex")}.json`);
+}
+
 /**
  * Put a record in the DHT
  */
@@ -372,10 +425,20 @@ async function dhtPut(
   privateKey: string,
   ttlSeconds: number = 86400
 ): Promise<DHTRecord> {
+  const recordPath = getDHTRecordPath(key);
+  const existing: DHTRecord | null = (await fs.pathExists(recordPath))
+    ? await fs.readJson(recordPath)
+    : null;
+  if (existing && existing.publisher !== publisherDid) {
+    throw new Error(`DHT key ${key} is owned by ${existing.publisher}`);
+  }
+
+  const identity = await getLocalIdentity();
   const record: DHTRecord = {
     key,
     value,
     publisher: publisherDid,
+    publisher_key: identity?.did === publisherDid ? identity.public_key : undefined,
     signature: signData(JSON.stringify({ key, value }), privateKey),
     timestamp: new Date().toISOString(),
     ttl_seconds: ttlSeconds,
@@ -383,10 +446,10 @@ async function dhtPut(
   };
   
   // Store locally
-  const recordPath = path.join(getDHTDir(), `${crypto.createHash("sha256").update(key).digest("hex")}.json`);
   await fs.writeJson(recordPath, record, { spaces: 2 });
   
-  // In production, would broadcast to peers
+  // Replicate to peers; they acknowledge and get added to `replicas`
+  await publishFederationMessage(FEDERATION_TOPICS.dht, { type: "dht:put", record });
   
   return record;
 }
@@ -395,14 +458,454 @@ async function dhtPut(
  * Get a record from the DHT
  */
 async function dhtGet(key: string): Promise<DHTRecord | null> {
-  const recordPath = path.join(getDHTDir(), `${crypto.createHash("sha256").update(key).digest("hex")}.json`);
+  const recordPath = getDHTRecordPath(key);
   if (await fs.pathExists(recordPath)) {
-    return fs.readJson(recordPath);
+    const record: DHTRecord = await fs.readJson(recordPath);
+    if (!isRecordExpired(record)) {
+      return record;
+    }
   }
   
-  // In production, would query peers
-  
-  return null;
+  return queryPeersForRecord(key);
+}
+
+/**
+ * Ask connected peers for a record, caching the first valid answer
+ */
+async function queryPeersForRecord(key: string): Promise<DHTRecord | null> {
+  if (!network || network.libp2p.services.pubsub.getSubscribers(FEDERATION_TOPICS.dht).length === 0) {
+    return null;
+  }
+
+  const queryId = crypto.randomUUID();
+  const record = await new Promise<DHTRecord | null>((resolve) => {
+    const timer = setTimeout(() => {
+      pendingDhtQueries.delete(queryId);
+      resolve(null);
+    }, DHT_QUERY_TIMEOUT_MS);
+
+    pendingDhtQueries.set(queryId, (candidate) => {
+      if (candidate?.key !== key || !checkReplicatedRecord(candidate, null).accept) {
+        return;
+      }
+      clearTimeout(timer);
+      pendingDhtQueries.delete(queryId);
+      resolve(candidate);
+    });
+
+    publishFederationMessage(FEDERATION_TOPICS.dht, { type: "dht:get", query_id: queryId, key }).catch(
+      (error) => logger.warn(`Failed to query peers for ${key}:`, error)
+    );
+  });
+
+  if (record) {
+    await storeReplicatedRecord(record, false);
+  }
+  return record;
+}
+
+async function answerDhtQuery(queryId: string, key: string): Promise<void> {
+  const recordPath = getDHTRecordPath(key);
+  if (!(await fs.pathExists(recordPath))) return;
+
+  const record: DHTRecord = await fs.readJson(recordPath);
+  if (isRecordExpired(record)) return;
+  await publishFederationMessage(FEDERATION_TOPICS.dht, { type: "dht:record", query_id: queryId, record });
+}
+
+/**
+ * Store a record received from a peer, keeping whichever version is newest
+ * as long as it comes from the key's owner
+ */
+async function storeReplicatedRecord(record: DHTRecord, acknowledge: boolean): Promise<void> {
+  if (!record?.key) return;
+
+  const recordPath = getDHTRecordPath(record.key);
+  const existing: DHTRecord | null = (await fs.pathExists(recordPath))
+    ? await fs.readJson(recordPath)
+    : null;
+  const check = checkReplicatedRecord(record, existing);
+  if (!check.accept) {
+    logger.warn(`Ignoring DHT record ${record.key}: ${check.reason}`);
+    return;
+  }
+
+  if (check.changed) {
+    const localPeerId = network?.peerId;
+    await fs.writeJson(
+      recordPath,
+      {
+        ...record,
+        replicas: localPeerId
+          ? Array.from(new Set([...record.replicas, localPeerId]))
+          : record.replicas,
+      },
+      { spaces: 2 }
+    );
+    await indexReplicatedRecord(record);
+  }
+
+  if (acknowledge) {
+    await publishFederationMessage(FEDERATION_TOPICS.dht, {
+      type: "dht:ack",
+      key: record.key,
+      timestamp: record.timestamp,
+    });
+  }
+}
+
+/**
+ * Record that a peer now holds a replica of one of our records
+ */
+async function addRecordReplica(key: string, timestamp: string, peerId: string): Promise<void> {
+  const recordPath = getDHTRecordPath(key);
+  if (!(await fs.pathExists(recordPath))) return;
+
+  const record: DHTRecord = await fs.readJson(recordPath);
+  if (record.timestamp !== timestamp || record.replicas.includes(peerId)) return;
+
+  record.replicas.push(peerId);
+  await fs.writeJson(recordPath, record, { spaces: 2 });
+}
+
+/**
+ * Resend the records we published so newly joined peers receive them
+ */
+async function republishLocalRecords(): Promise<void> {
+  const identity = await getLocalIdentity();
+  if (!identity) return;
+
+  const files = (await fs.readdir(getDHTDir())).filter(
+    (file) => file.endsWith(".json") && file !== path.basename(getModelChunksIndexPath())
+  );
+  for (const file of files) {
+    try {
+      const record: DHTRecord = await fs.readJson(path.join(getDHTDir(), file));
+      if (record.publisher === identity.did && record.publisher_key && !isRecordExpired(record)) {
+        await publishFederationMessage(FEDERATION_TOPICS.dht, { type: "dht:put", record });
+      }
+    } catch (error) {
+      logger.warn(`Failed to republish DHT record ${file}:`, error);
+    }
+  }
+}
+
+/**
+ * Make replicated listings and model chunk announcements visible locally.
+ * Only called with records `checkReplicatedRecord` accepted, so the payload
+ * is the object the key names and belongs to the publisher.
+ */
+async function indexReplicatedRecord(record: DHTRecord): Promise<void> {
+  if (record.key.startsWith("listing:")) {
+    const listing: P2PListing = record.value;
+    if (!isSafeRecordId(listing.id)) return;
+    await fs.writeJson(path.join(getListingsDir(), `${listing.id}.json`), listing, { spaces: 2 });
+  } else if (record.key.startsWith("model-chunk:")) {
+    await addModelChunkToIndex(record.value as ModelChunkAnnouncement);
+  }
+}
+
+// ============= libp2p Network =============
+
+const FEDERATION_TOPICS = {
+  peers: "/joycreate/federation/peers/1.0.0",
+  dht: "/joycreate/federation/dht/1.0.0",
+  messages: "/joycreate/federation/messages/1.0.0",
+  inference: "/joycreate/federation/inference/1.0.0",
+} as const;
+
+/** How long a remote DHT lookup waits for a peer to answer */
+const DHT_QUERY_TIMEOUT_MS = 5000;
+
+interface FederationNetwork {
+  libp2p: any;
+  peerId: string;
+  /** False when sharing the compute network's node */
+  ownsNode: boolean;
+  /** Per-session X25519 keys that peers use to seal inference requests */
+  encryptionKeys: { publicKey: crypto.KeyObject; privateKey: crypto.KeyObject };
+  listeners: Array<{ target: any; event: string; handler: (event: any) => void }>;
+}
+
+let network: FederationNetwork | null = null;
+let networkStarting: Promise<FederationNetwork> | null = null;
+const pendingDhtQueries = new Map<string, (record: DHTRecord) => void>();
+
+/**
+ * Start the federation network, sharing the compute network's libp2p node
+ * when it is running and creating one with the same stack otherwise.
+ */
+async function startFederationNetwork(): Promise<FederationNetwork> {
+  if (network && network.libp2p.status === "started") {
+    return network;
+  }
+  if (!networkStarting) {
+    networkStarting = createFederationNetwork().finally(() => {
+      networkStarting = null;
+    });
+  }
+  return networkStarting;
+}
+
+async function createFederationNetwork(): Promise<FederationNetwork> {
+  let libp2p = getLibp2pNode();
+  const ownsNode = !libp2p;
+  if (!libp2p) {
+    await loadDependencies();
+    libp2p = await createLibp2pNode(DEFAULT_COMPUTE_NETWORK_CONFIG);
+  }
+
+  const next: FederationNetwork = {
+    libp2p,
+    peerId: libp2p.peerId.toString(),
+    ownsNode,
+    encryptionKeys: crypto.generateKeyPairSync("x25519"),
+    listeners: [],
+  };
+  const listen = (target: any, event: string, handler: (event: any) => void) => {
+    target.addEventListener(event, handler);
+    next.listeners.push({ target, event, handler });
+  };
+
+  listen(libp2p.services.pubsub, "message", (event) => {
+    handleFederationMessage(event.detail).catch((error) =>
+      logger.warn("Failed to handle federation message:", error)
+    );
+  });
+  // Introduce ourselves and share our records with peers as they join
+  listen(libp2p.services.pubsub, "subscription-change", (event) => {
+    const subscriptions: { topic: string; subscribe: boolean }[] = event.detail.subscriptions || [];
+    if (subscriptions.some((s) => s.subscribe && s.topic === FEDERATION_TOPICS.peers)) {
+      announceLocalPeer().catch((error) => logger.warn("Failed to announce peer:", error));
+    }
+    if (subscriptions.some((s) => s.subscribe && s.topic === FEDERATION_TOPICS.dht)) {
+      republishLocalRecords().catch((error) => logger.warn("Failed to republish records:", error));
+    }
+  });
+  listen(libp2p, "connection:open", (event) => {
+    updatePeerConnection(event.detail.remotePeer.toString());
+  });
+  listen(libp2p, "connection:close", (event) => {
+    updatePeerConnection(event.detail.remotePeer.toString());
+  });
+
+  for (const topic of Object.values(FEDERATION_TOPICS)) {
+    libp2p.services.pubsub.subscribe(topic);
+  }
+
+  network = next;
+  logger.info(`Federation network started as ${next.peerId}${ownsNode ? "" : " (shared with compute network)"}`);
+
+  await announceLocalPeer();
+  return next;
+}
+
+/**
+ * Stop the federation network. A node shared with the compute network is
+ * left running.
+ */
+async function stopFederationNetwork(): Promise<void> {
+  const current = network;
+  if (!current) return;
+  network = null;
+
+  for (const { target, event, handler } of current.listeners) {
+    target.removeEventListener(event, handler);
+  }
+  for (const topic of Object.values(FEDERATION_TOPICS)) {
+    current.libp2p.services.pubsub.unsubscribe(topic);
+  }
+  if (current.ownsNode) {
+    await current.libp2p.stop();
+  }
+
+  for (const peer of connectedPeers.values()) {
+    peer.connected = false;
+    peer.status = "offline";
+  }
+  connectedPeers.clear();
+  for (const [requestId, pending] of pendingInferenceRequests) {
+    pendingInferenceRequests.delete(requestId);
+    pending.reject(new Error("Federation network stopped"));
+  }
+  logger.info("Federation network stopped");
+}
+
+function getFederationNetworkStatus(): FederationNetworkStatus {
+  const running = !!network && network.libp2p.status === "started";
+  return {
+    running,
+    peer_id: running ? network!.peerId : undefined,
+    shared_with_compute: running ? !network!.ownsNode : false,
+    addresses: running
+      ? network!.libp2p.getMultiaddrs().map((ma: any) => ma.toString())
+      : [],
+    connected_peers: connectedPeers.size,
+  };
+}
+
+async function publishFederationMessage(
+  topic: string,
+  payload: Record<string, unknown>
+): Promise<void> {
+  if (!network) return;
+  await network.libp2p.services.pubsub.publish(
+    topic,
+    new TextEncoder().encode(JSON.stringify(payload))
+  );
+}
+
+async function handleFederationMessage(message: any): Promise<void> {
+  const topics: string[] = Object.values(FEDERATION_TOPICS);
+  if (!topics.includes(message.topic)) return;
+
+  // Gossipsub signs messages, so `from` is the authenticated sender
+  const from = message.from?.toString();
+  if (!from || from === network?.peerId) return;
+
+  const payload = JSON.parse(new TextDecoder().decode(message.data));
+  switch (payload.type) {
+    case "peer:announce":
+      await handlePeerAnnouncement(from, payload);
+      break;
+    case "dht:put":
+      await storeReplicatedRecord(payload.record, true);
+      break;
+    case "dht:ack":
+      await addRecordReplica(payload.key, payload.timestamp, from);
+      break;
+    case "dht:get":
+      await answerDhtQuery(payload.query_id, payload.key);
+      break;
+    case "dht:record":
+      pendingDhtQueries.get(payload.query_id)?.(payload.record);
+      break;
+    case "message":
+      await receiveMessage(payload.message);
+      break;
+    case "message:ack":
+      await markMessageDelivered(payload.message_id);
+      break;
+    case "inference:request":
+      if (payload.target === network?.peerId) {
+        await serveRemoteInference(from, payload.request_id, payload.envelope);
+      }
+      break;
+    case "inference:response":
+      resolveRemoteInference(from, payload.request_id, payload.envelope);
+      break;
+  }
+}
+
+/**
+ * Capabilities this node offers under the given identity. Serving
+ * inference for peers is opt-in, so compute is only offered while the
+ * federated compute setting is on.
+ */
+function getOfferedCapabilities(identity: DecentralizedIdentity): PeerCapability[] {
+  const capabilities = identity.capabilities.filter((capability) => capability !== "compute");
+  return readSettings().enableFederatedCompute ? [...capabilities, "compute"] : capabilities;
+}
+
+/**
+ * Tell peers which identity this node belongs to
+ */
+async function announceLocalPeer(): Promise<void> {
+  const identity = await getLocalIdentity();
+  if (!network || !identity) return;
+
+  await publishFederationMessage(FEDERATION_TOPICS.peers, {
+    type: "peer:announce",
+    identity: { ...identity, capabilities: getOfferedCapabilities(identity) },
+    addresses: network.libp2p.getMultiaddrs().map((ma: any) => ma.toString()),
+    agent_version: `joycreate/${app.getVersion()}`,
+    encryption_key: exportX25519Key(network.encryptionKeys.publicKey),
+  });
+}
+
+async function handlePeerAnnouncement(
+  peerId: string,
+  payload: {
+    identity: DecentralizedIdentity;
+    addresses?: string[];
+    agent_version?: string;
+    encryption_key?: string;
+  }
+): Promise<void> {
+  const { identity } = payload;
+  if (!identity?.did || !identity.public_key || didFromPublicKey(identity.public_key) !== identity.did) {
+    logger.warn(`Ignoring peer announcement with mismatched DID from ${peerId}`);
+    return;
+  }
+
+  const existing = knownPeers.get(peerId);
+  const peer: Peer = {
+    ...(existing ?? createPeerRecord(peerId)),
+    did: identity,
+    addresses: (payload.addresses || []).map((address) => ({
+      protocol: "libp2p" as const,
+      address: address.includes("/p2p/") ? address : `${address}/p2p/${peerId}`,
+    })),
+    protocols: ["libp2p"],
+    agent_version: payload.agent_version || "unknown",
+    capabilities: identity.capabilities,
+    encryption_key: payload.encryption_key,
+    last_seen: new Date().toISOString(),
+  };
+  await addPeer(peer);
+  updatePeerConnection(peerId);
+}
+
+function createPeerRecord(peerId: string): Peer {
+  return {
+    id: peerId,
+    did: {
+      did: `did:joy:${peerId}`,
+      public_key: "",
+      display_name: peerId.slice(0, 12),
+      created_at: new Date().toISOString(),
+      capabilities: [],
+    },
+    addresses: [],
+    protocols: ["libp2p"],
+    agent_version: "unknown",
+    status: "offline",
+    last_seen: new Date().toISOString(),
+    capabilities: [],
+    reputation: {
+      score: 50,
+      total_transactions: 0,
+      successful_transactions: 0,
+      disputes: 0,
+      disputes_won: 0,
+      uptime_percentage: 0,
+      avg_response_time_ms: 0,
+      reviews: [],
+      badges: [],
+    },
+    connected: false,
+  };
+}
+
+/**
+ * Sync a known peer's connection state with the libp2p node
+ */
+function updatePeerConnection(peerId: string): void {
+  const peer = knownPeers.get(peerId);
+  if (!peer || !network) return;
+
+  const connected = network.libp2p
+    .getConnections()
+    .some((connection: any) => connection.remotePeer.toString() === peerId);
+  peer.connected = connected;
+  if (connected) {
+    peer.status = "online";
+    peer.last_seen = new Date().toISOString();
+    connectedPeers.set(peerId, peer);
+  } else {
+    peer.status = "offline";
+    connectedPeers.delete(peerId);
+  }
 }
 
 // ============= Model Chunk DHT =============
@@ -451,13 +954,49 @@ async function announceModelChunk(params: {
 
   const key = `model-chunk:${params.modelId}:${params.chunkCid}`;
   await dhtPut(key, announcement, identity.did, params.privateKey);
+  await addModelChunkToIndex(announcement);
+
+  return announcement;
+}
 
+async function addModelChunkToIndex(announcement: ModelChunkAnnouncement): Promise<void> {
   const index = await loadModelChunkIndex();
-  const existing = index[params.modelId] || [];
-  const deduped = existing.filter((item) => item.chunk_cid !== params.chunkCid);
-  index[params.modelId] = [...deduped, announcement];
+  const existing = index[announcement.model_id] || [];
+  // Several peers may serve the same chunk; keep one entry per provider
+  const deduped = existing.filter(
+    (item) => item.chunk_cid !== announcement.chunk_cid || item.publisher_did !== announcement.publisher_did
+  );
+  index[announcement.model_id] = [...deduped, announcement];
   await saveModelChunkIndex(index);
+}
 
+/**
+ * Announce an app published from the local Helia node. Peers store the
+ * record like any other DHT record; it is republished once the network is up.
+ */
+export async function announceAppDeployment(params: {
+  cid: string;
+  name: string;
+  bytes?: number;
+  privateKey: string;
+}): Promise<AppDeploymentAnnouncement> {
+  const identity = await getLocalIdentity();
+  if (!identity) {
+    throw new Error("No local identity");
+  }
+
+  const heliaStatus = await heliaVerificationService.getStatus();
+  const announcement: AppDeploymentAnnouncement = {
+    cid: params.cid,
+    name: params.name,
+    bytes: params.bytes,
+    peer_id: heliaStatus.peerId ?? identity.did.replace("did:joy:", ""),
+    providers: heliaStatus.multiaddrs ?? [],
+    publisher_did: identity.did,
+    created_at: new Date().toISOString(),
+  };
+
+  await dhtPut(`app-deployment:${params.cid}`, announcement, identity.did, params.privateKey);
   return announcement;
 }
 
@@ -632,6 +1171,323 @@ async function createModelChunkEscrow(transactionId: string): Promise<P2PEscrow>
   return escrow;
 }
 
+// ============= Federated Inference Routing =============
+
+/** How long a peer gets to answer a routed inference request */
+const REMOTE_INFERENCE_TIMEOUT_MS = 120_000;
+
+/** Candidates tried before falling back to local execution */
+const MAX_ROUTE_ATTEMPTS = 3;
+
+/** Requests this node runs for peers at once */
+const MAX_CONCURRENT_REMOTE_INFERENCES = 2;
+
+const ROUTE_SUCCESS_REWARD = 1;
+const ROUTE_FAILURE_PENALTY = 5;
+
+/** AES-256-GCM payload, sealed to a peer's X25519 key */
+interface SealedEnvelope {
+  /** Sender's one-off X25519 key; omitted on replies, which reuse the request key */
+  ephemeral_key?: string;
+  iv: string;
+  ciphertext: string;
+  tag: string;
+}
+
+type RemoteInferencePayload = Pick<
+  FederatedInferenceExecutionRequest,
+  "provider" | "model_id" | "prompt" | "system_prompt" | "messages" | "config"
+>;
+
+interface RemoteInferenceResult {
+  output: string;
+  record_id?: string;
+  proof_cid?: string;
+}
+
+interface PendingInferenceRequest {
+  peerId: string;
+  key: Buffer;
+  resolve: (result: RemoteInferenceResult) => void;
+  reject: (error: Error) => void;
+}
+
+class RemoteInferenceTimeoutError extends Error {}
+
+const pendingInferenceRequests = new Map<string, PendingInferenceRequest>();
+let activeRemoteInferences = 0;
+
+function exportX25519Key(key: crypto.KeyObject): string {
+  return key.export({ type: "spki", format: "der" }).toString("base64");
+}
+
+function deriveInferenceKey(privateKey: crypto.KeyObject, publicKey: string): Buffer {
+  const peerKey = crypto.createPublicKey({
+    key: Buffer.from(publicKey, "base64"),
+    type: "spki",
+    format: "der",
+  });
+  const secret = crypto.diffieHellman({ privateKey, publicKey: peerKey });
+  return Buffer.from(crypto.hkdfSync("sha256", secret, Buffer.alloc(0), "joycreate-federated-inference", 32));
+}
+
+function sealWithKey(key: Buffer, payload: unknown): SealedEnvelope {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(payload), "utf8"), cipher.final()]);
+  return {
+    iv: iv.toString("base64"),
+    ciphertext: ciphertext.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+  };
+}
+
+function openWithKey<T>(key: Buffer, envelope: SealedEnvelope): T {
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(envelope.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(envelope.ciphertext, "base64")),
+    decipher.final(),
+  ]);
+  return JSON.parse(plaintext.toString("utf8"));
+}
+
+/**
+ * Ask a peer to run an inference. The request is sealed to the peer's
+ * announced key, so only that peer can read the prompt.
+ */
+async function requestRemoteInference(
+  peer: Peer,
+  request: FederatedInferenceExecutionRequest
+): Promise<RemoteInferenceResult> {
+  if (!network) {
+    throw new Error("Federation network is not running");
+  }
+  if (!peer.encryption_key) {
+    throw new Error(`Peer ${peer.id} has not announced an encryption key`);
+  }
+
+  const ephemeral = crypto.generateKeyPairSync("x25519");
+  const key = deriveInferenceKey(ephemeral.privateKey, peer.encryption_key);
+  const payload: RemoteInferencePayload = {
+    provider: request.provider,
+    model_id: request.model_id,
+    prompt: request.prompt,
+    system_prompt: request.system_prompt,
+    messages: request.messages,
+    config: request.config,
+  };
+  const envelope: SealedEnvelope = {
+    ...sealWithKey(key, payload),
+    ephemeral_key: exportX25519Key(ephemeral.publicKey),
+  };
+  const requestId = crypto.randomUUID();
+
+  return new Promise<RemoteInferenceResult>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      pendingInferenceRequests.delete(requestId);
+      reject(new RemoteInferenceTimeoutError(`Peer ${peer.id} did not answer within ${REMOTE_INFERENCE_TIMEOUT_MS}ms`));
+    }, REMOTE_INFERENCE_TIMEOUT_MS);
+
+    pendingInferenceRequests.set(requestId, {
+      peerId: peer.id,
+      key,
+      resolve: (result) => {
+        clearTimeout(timer);
+        resolve(result);
+      },
+      reject: (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    });
+
+    publishFederationMessage(FEDERATION_TOPICS.inference, {
+      type: "inference:request",
+      request_id: requestId,
+      target: peer.id,
+      envelope,
+    }).catch((error) => {
+      pendingInferenceRequests.delete(requestId);
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+
+function resolveRemoteInference(from: string, requestId: string, envelope: SealedEnvelope): void {
+  const pending = pendingInferenceRequests.get(requestId);
+  if (!pending || pending.peerId !== from) return;
+  pendingInferenceRequests.delete(requestId);
+
+  let result: Partial<RemoteInferenceResult> & { error?: string };
+  try {
+    result = openWithKey(pending.key, envelope);
+  } catch {
+    pending.reject(new Error(`Could not decrypt inference response from ${from}`));
+    return;
+  }
+  if (result.error || typeof result.output !== "string") {
+    pending.reject(new Error(result.error || `Peer ${from} returned no output`));
+    return;
+  }
+  pending.resolve({ output: result.output, record_id: result.record_id, proof_cid: result.proof_cid });
+}
+
+/**
+ * Run an inference a peer routed to us and seal the result back to it
+ */
+async function serveRemoteInference(from: string, requestId: string, envelope: SealedEnvelope): Promise<void> {
+  if (!network || typeof requestId !== "string" || !envelope?.ephemeral_key) return;
+
+  let key: Buffer;
+  let request: RemoteInferencePayload;
+  try {
+    key = deriveInferenceKey(network.encryptionKeys.privateKey, envelope.ephemeral_key);
+    request = openWithKey(key, envelope);
+  } catch (error) {
+    logger.warn(`Could not open inference request from ${from}:`, error);
+    return;
+  }
+
+  const reply = (result: RemoteInferenceResult | { error: string }) =>
+    publishFederationMessage(FEDERATION_TOPICS.inference, {
+      type: "inference:response",
+      request_id: requestId,
+      target: from,
+      envelope: sealWithKey(key, result),
+    });
+
+  const identity = await getLocalIdentity();
+  if (!identity || !getOfferedCapabilities(identity).includes("compute")) {
+    await reply({ error: "Peer does not offer compute" });
+    return;
+  }
+  if (activeRemoteInferences >= MAX_CONCURRENT_REMOTE_INFERENCES) {
+    await reply({ error: "Peer is busy" });
+    return;
+  }
+
+  activeRemoteInferences++;
+  try {
+    const result = await trustlessInferenceService.runVerifiedInference(
+      request.provider,
+      request.model_id,
+      request.prompt,
+      {
+        systemPrompt: request.system_prompt,
+        messages: request.messages,
+        config: request.config ? { options: request.config } : undefined,
+      }
+    );
+    await reply({
+      output: result.response.output,
+      record_id: result.record?.id,
+      proof_cid: result.record?.cid,
+    });
+  } catch (error) {
+    await reply({ error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    activeRemoteInferences--;
+  }
+}
+
+/**
+ * Liveness from the compute network's heartbeats, keyed by peer ID
+ */
+function getPeerHeartbeats(peers: Peer[]): Map<string, PeerHeartbeatInfo> {
+  const heartbeats = new Map<string, PeerHeartbeatInfo>();
+  for (const peer of peers) {
+    const info = getComputePeer(peer.id);
+    if (info) {
+      heartbeats.set(peer.id, { status: info.status, lastSeen: info.lastSeen, activeJobs: info.activeJobs });
+    }
+  }
+  return heartbeats;
+}
+
+/**
+ * Fold a routed request's outcome into the peer's reputation so later
+ * routes favour peers that answer quickly and reliably
+ */
+async function recordRouteOutcome(peer: Peer, succeeded: boolean, latencyMs: number): Promise<void> {
+  const { reputation } = peer;
+  reputation.total_transactions++;
+  if (succeeded) {
+    reputation.successful_transactions++;
+    reputation.avg_response_time_ms = reputation.avg_response_time_ms
+      ? Math.round(reputation.avg_response_time_ms * 0.8 + latencyMs * 0.2)
+      : latencyMs;
+  }
+  const delta = succeeded ? ROUTE_SUCCESS_REWARD : -ROUTE_FAILURE_PENALTY;
+  reputation.score = Math.max(0, Math.min(100, reputation.score + delta));
+  await addPeer(peer);
+}
+
+function getLocalRouteTarget(identity: DecentralizedIdentity): FederatedInferenceRoute["target"] {
+  return {
+    did: identity.did,
+    display_name: identity.display_name,
+    capability: "local",
+  };
+}
+
+/**
+ * Try the route's candidates best-first until one returns a result,
+ * recording every attempt on the route. Returns null when all fail.
+ */
+async function executeWithFailover(
+  route: FederatedInferenceRoute,
+  request: FederatedInferenceExecutionRequest
+): Promise<RemoteInferenceResult | null> {
+  for (const candidate of route.candidates.slice(0, MAX_ROUTE_ATTEMPTS)) {
+    const peer = connectedPeers.get(candidate.peer_id);
+    if (!peer) continue;
+
+    route.target = {
+      peer_id: peer.id,
+      did: peer.did.did,
+      display_name: peer.did.display_name,
+      capability: "compute",
+    };
+    const attempt: FederatedRouteAttempt = {
+      peer_id: peer.id,
+      did: peer.did.did,
+      capability: "compute",
+      status: "succeeded",
+      latency_ms: 0,
+      started_at: new Date().toISOString(),
+    };
+    const startedAt = Date.now();
+
+    try {
+      const result = await requestRemoteInference(peer, request);
+      attempt.latency_ms = Date.now() - startedAt;
+      route.attempts.push(attempt);
+      await recordRouteOutcome(peer, true, attempt.latency_ms);
+      return result;
+    } catch (error) {
+      attempt.latency_ms = Date.now() - startedAt;
+      attempt.status = error instanceof RemoteInferenceTimeoutError ? "timeout" : "failed";
+      attempt.error = error instanceof Error ? error.message : String(error);
+      route.attempts.push(attempt);
+      await recordRouteOutcome(peer, false, attempt.latency_ms);
+      logger.warn(`Routed inference on ${peer.id} ${attempt.status}: ${attempt.error}`);
+    }
+  }
+  return null;
+}
+
+function describeFailedRoute(route: FederatedInferenceRoute): string {
+  if (route.attempts.length === 0) {
+    return "No compute peers available for remote-only inference";
+  }
+  const chain = route.attempts
+    .map((attempt) => `${attempt.peer_id ?? attempt.did}: ${attempt.status}${attempt.error ? ` (${attempt.error})` : ""}`)
+    .join("; ");
+  return `All compute peers failed: ${chain}`;
+}
+
 async function routeInference(
   request: FederatedInferenceRequest
 ): Promise<FederatedInferenceRoute> {
@@ -640,15 +1496,14 @@ async function routeInference(
     throw new Error("No local identity");
   }
 
-  const computePeers = Array.from(connectedPeers.values()).filter((peer) =>
-    peer.capabilities.includes("compute")
-  );
-
-  const preferredPeer = request.preferred_peer_id
-    ? computePeers.find((peer) => peer.id === request.preferred_peer_id)
-    : undefined;
-  const targetPeer = preferredPeer || computePeers[0];
+  // Peers that haven't announced an encryption key can't receive requests
+  const reachablePeers = Array.from(connectedPeers.values()).filter((peer) => !!peer.encryption_key);
   const requiredChunks = await findModelChunks(request.model_id);
+  const candidates = rankInferencePeers(reachablePeers, {
+    chunks: requiredChunks,
+    heartbeats: getPeerHeartbeats(reachablePeers),
+    preferredPeerId: request.preferred_peer_id,
+  });
 
   let receiptRef: IpldReceiptRef | undefined;
   if (request.create_receipt) {
@@ -672,28 +1527,19 @@ async function routeInference(
     };
   }
 
-  if (targetPeer) {
-    return {
-      route_id: `route-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-      target: {
-        peer_id: targetPeer.id,
-        did: targetPeer.did.did,
-        display_name: targetPeer.did.display_name,
-        capability: "compute",
-      },
-      required_chunks: requiredChunks,
-      receipt: receiptRef,
-      created_at: new Date().toISOString(),
-    };
-  }
-
+  const best = candidates[0];
   return {
     route_id: `route-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-    target: {
-      did: identity.did,
-      display_name: identity.display_name,
-      capability: "local",
-    },
+    target: best
+      ? {
+          peer_id: best.peer_id,
+          did: best.did,
+          display_name: best.display_name,
+          capability: "compute",
+        }
+      : getLocalRouteTarget(identity),
+    candidates,
+    attempts: [],
     required_chunks: requiredChunks,
     receipt: receiptRef,
     created_at: new Date().toISOString(),
@@ -763,35 +1609,8 @@ async function executeFederatedInference(
     create_receipt: false,
   });
 
-  if (route.target.capability === "compute") {
-    if (request.require_remote && !request.private_key) {
-      throw new Error("private_key is required to dispatch to remote compute");
-    }
-    let dispatchMessageId: string | undefined;
-    if (request.private_key) {
-      const payload = {
-        type: "federated-inference-request",
-        model_id: request.model_id,
-        model_hash: request.model_hash,
-        prompt: request.prompt,
-        system_prompt: request.system_prompt,
-        messages: request.messages,
-        config: request.config,
-        data_hash: dataHash,
-        payer_did: request.payer_did,
-        payment_tx_hash: request.payment_tx_hash,
-        payment_amount: request.payment_amount,
-      };
-      const msg = await sendMessage(
-        route.target.did,
-        JSON.stringify(payload),
-        identity,
-        request.private_key,
-        { type: "system" }
-      );
-      dispatchMessageId = msg.id;
-    }
-
+  const remote = await executeWithFailover(route, request);
+  if (remote) {
     const receiptRef = request.create_receipt
       ? await createReceiptRef({
           issuerDid: request.issuer_did || identity.did,
@@ -802,23 +1621,28 @@ async function executeFederatedInference(
           creatorId: identity.creator_id,
           dataHash: dataHash || promptHash,
           promptHash,
+          outputHash: hashString(remote.output),
           paymentTxHash: request.payment_tx_hash,
           paymentAmount: request.payment_amount,
         })
       : undefined;
 
     return {
-      status: "dispatched",
+      status: "remote",
       route,
+      output: remote.output,
+      record_id: remote.record_id,
+      proof_cid: remote.proof_cid,
       receipt: receiptRef,
-      dispatch_message_id: dispatchMessageId,
     };
   }
 
   if (request.require_remote) {
-    throw new Error("No compute peers available for remote-only inference");
+    throw new Error(describeFailedRoute(route));
   }
 
+  route.target = getLocalRouteTarget(identity);
+  const startedAt = Date.now();
   const result = await trustlessInferenceService.runVerifiedInference(
     request.provider,
     request.model_id,
@@ -830,6 +1654,14 @@ async function executeFederatedInference(
     }
   );
 
+  route.attempts.push({
+    did: identity.did,
+    capability: "local",
+    status: "succeeded",
+    latency_ms: Date.now() - startedAt,
+    started_at: new Date(startedAt).toISOString(),
+  });
+
   const outputHash = hashString(result.response.output);
   const receiptRef = request.create_receipt
     ? await createReceiptRef({
@@ -1217,9 +2049,50 @@ async function sendMessage(
   const msgPath = path.join(getMessagesDir(), `${messageId}.json`);
   await fs.writeJson(msgPath, message, { spaces: 2 });
   
+  // Deliver to the recipient; it acknowledges and we mark the message delivered
+  await publishFederationMessage(FEDERATION_TOPICS.messages, { type: "message", message });
+  
   return message;
 }
 
+/**
+ * Store a message addressed to us that arrived from a peer
+ */
+async function receiveMessage(message: P2PMessage): Promise<void> {
+  const identity = await getLocalIdentity();
+  if (!identity || message?.recipient !== identity.did || !isSafeRecordId(message.id)) return;
+
+  const sender = Array.from(knownPeers.values()).find((peer) => peer.did.did === message.sender);
+  if (sender?.did.public_key && !verifySignature(message.encrypted_content, message.signature, sender.did.public_key)) {
+    logger.warn(`Ignoring message ${message.id} with invalid signature from ${message.sender}`);
+    return;
+  }
+
+  const msgPath = path.join(getMessagesDir(), `${message.id}.json`);
+  if (!(await fs.pathExists(msgPath))) {
+    await fs.writeJson(msgPath, { ...message, delivered: true, read: false }, { spaces: 2 });
+  }
+  await publishFederationMessage(FEDERATION_TOPICS.messages, { type: "message:ack", message_id: message.id });
+}
+
+async function markMessageDelivered(messageId: string): Promise<void> {
+  if (!isSafeRecordId(messageId)) return;
+  const msgPath = path.join(getMessagesDir(), `${messageId}.json`);
+  if (!(await fs.pathExists(msgPath))) return;
+
+  const message: P2PMessage = await fs.readJson(msgPath);
+  if (!message.delivered) {
+    await fs.writeJson(msgPath, { ...message, delivered: true }, { spaces: 2 });
+  }
+}
+
+/**
+ * Ids from peers become file names, so only allow plain identifiers
+ */
+function isSafeRecordId(id: unknown): id is string {
+  return typeof id === "string" && /^[\w-]+$/.test(id);
+}
+
 /**
  * Get conversations
  */
@@ -1328,6 +2201,21 @@ export function registerFederationHandlers() {
     return getLocalIdentity();
   });
 
+  // Network
+  ipcMain.handle("federation:network:start", async () => {
+    await startFederationNetwork();
+    return getFederationNetworkStatus();
+  });
+
+  ipcMain.handle("federation:network:stop", async () => {
+    await stopFederationNetwork();
+    return getFederationNetworkStatus();
+  });
+
+  ipcMain.handle("federation:network:status", async () => {
+    return getFederationNetworkStatus();
+  });
+
   // Peers
   ipcMain.handle("federation:get-peers", async () => {
     return getKnownPeers();
@@ -1435,19 +2323,48 @@ export function registerFederationHandlers() {
           create_receipt: false,
         });
 
-        if (route.target.capability === "compute") {
+        const remote = await executeWithFailover(route, request);
+        if (remote) {
+          event.sender.send("federation:inference:chunk", {
+            streamId,
+            content: remote.output,
+          });
+
+          let receiptRef: IpldReceiptRef | undefined;
+          if (request.create_receipt && request.data_hash) {
+            receiptRef = await createReceiptRef({
+              issuerDid: request.issuer_did || identity.did,
+              payerDid: request.payer_did,
+              modelId: request.model_id,
+              modelHash: request.model_hash,
+              storeName: identity.store_name,
+              creatorId: identity.creator_id,
+              dataHash: request.data_hash,
+              promptHash: hashString(request.prompt),
+              outputHash: hashString(remote.output),
+              paymentTxHash: request.payment_tx_hash,
+              paymentAmount: request.payment_amount,
+            });
+          }
+
           event.sender.send("federation:inference:done", {
             streamId,
-            status: "dispatched",
+            status: "remote",
             route,
+            recordId: remote.record_id,
+            cid: remote.proof_cid,
+            receipt: receiptRef,
           });
           return;
         }
 
         if (request.require_remote) {
-          throw new Error("No compute peers available for remote-only inference");
+          throw new Error(describeFailedRoute(route));
         }
 
+        route.target = getLocalRouteTarget(identity);
+        const startedAt = Date.now();
+
         const stream = trustlessInferenceService.streamVerifiedInference(
           request.provider,
           request.model_id,
@@ -1467,6 +2384,14 @@ export function registerFederationHandlers() {
               content: chunk.content,
             });
           } else if (chunk.type === "done") {
+            route.attempts.push({
+              did: identity.did,
+              capability: "local",
+              status: "succeeded",
+              latency_ms: Date.now() - startedAt,
+              started_at: new Date(startedAt).toISOString(),
+            });
+
             let receiptRef: IpldReceiptRef | undefined;
             if (request.create_receipt && request.data_hash) {
               receiptRef = await createReceiptRef({
@@ -1623,3 +2548,5 @@ export function registerFederationHandlers() {
 
   logger.info("Federation P2P handlers registered");
 }
+
+export { stopFederationNetwork };
@@ -16,6 +16,7 @@ import {
   isN8nRunning,
   configureN8nDatabase,
 } from "./n8n_handlers";
+import { CloudRecordClient, HybridSyncEngine, SyncStore } from "@/lib/hybrid_sync_engine";
 
 import type {
   HybridBridgeConfig,
@@ -28,6 +29,9 @@ import type {
   SyncBatch,
   SyncConflict,
   SyncError,
+  SyncMode,
+  SyncRecord,
+  ConflictChoice,
   HybridBridgeEvent,
   HybridBridgeStatus,
   StartBridgeResult,
@@ -52,6 +56,7 @@ let healthCheckInterval: NodeJS.Timeout | null = null;
 let syncInterval: NodeJS.Timeout | null = null;
 let restartAttempts = 0;
 let mainWindow: BrowserWindow | null = null;
+let syncStore: SyncStore | null = null;
 
 function getDefaultConfig(): HybridBridgeConfig {
   return {
@@ -237,7 +242,7 @@ async function connectService(endpoint: ServiceEndpoint): Promise<ServiceBridge>
     id: endpoint.id,
     name: endpoint.name,
     description: `Bridge to ${endpoint.name}`,
-    type: "custom",
+    type: endpoint.bridgeType ?? "custom",
     config: {
       endpoint,
     },
@@ -308,9 +313,92 @@ async function reconnectService(serviceId: string): Promise<boolean> {
 // Sync Operations
 // ============================================================================
 
+function getSyncStore(): SyncStore {
+  if (!syncStore) {
+    syncStore = new SyncStore(path.join(getUserDataPath(), "hybrid-bridge", "sync-store.json"));
+  }
+  return syncStore;
+}
+
+function getRoutingRule(dataType: string) {
+  return bridgeConfig.routing.rules
+    .filter(rule => rule.dataType === dataType)
+    .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))[0];
+}
+
+function getSyncMode(dataType: string): SyncMode {
+  return getRoutingRule(dataType)?.syncStrategy ?? bridgeConfig.sync.mode;
+}
+
+// Only an explicit "local" rule keeps a data type out of sync
+function isLocalOnly(dataType: string): boolean {
+  return getRoutingRule(dataType)?.route === "local" || getSyncMode(dataType) === "offline-only";
+}
+
+/**
+ * Engine bound to the first connected storage/database service, or null
+ * when there is nothing to sync with.
+ */
+function getSyncEngine(dataType?: string): HybridSyncEngine | null {
+  const service = Array.from(services.values()).find(
+    s => (s.type === "storage" || s.type === "database") && s.status.state === "connected"
+  );
+  if (!service) return null;
+
+  return new HybridSyncEngine({
+    store: getSyncStore(),
+    cloud: new CloudRecordClient(service),
+    mode: dataType ? getSyncMode(dataType) : bridgeConfig.sync.mode,
+    conflictResolution: bridgeConfig.sync.conflictResolution,
+    onConflict: conflict => {
+      syncState.conflicts.push(conflict);
+      emitEvent({ type: "sync:conflict", conflict });
+    },
+  });
+}
+
+async function refreshSyncCounts(): Promise<void> {
+  const store = getSyncStore();
+  syncState.pendingLocal = await store.getQueueLength();
+  syncState.conflicts = (await store.listConflicts()).filter(c => !c.resolved);
+}
+
+async function pullAllChanges(batch: SyncBatch): Promise<void> {
+  for (const dataType of await getSyncedDataTypes()) {
+    const engine = getSyncEngine(dataType);
+    if (!engine) return;
+    try {
+      const { applied } = await engine.pullChanges(dataType);
+      batch.successCount += applied;
+    } catch (error) {
+      batch.failureCount++;
+      const syncError: SyncError = {
+        id: `error-${Date.now()}`,
+        timestamp: new Date().toISOString(),
+        operation: "pull",
+        dataType,
+        dataId: "*",
+        error: error instanceof Error ? error.message : String(error),
+        retryCount: 0,
+        resolved: false,
+      };
+      syncState.errors.push(syncError);
+      emitEvent({ type: "sync:error", error: syncError });
+    }
+  }
+}
+
+async function getSyncedDataTypes(): Promise<string[]> {
+  const dataTypes = new Set([
+    ...(await getSyncStore().listDataTypes()),
+    ...bridgeConfig.routing.rules.map(rule => rule.dataType),
+  ]);
+  return Array.from(dataTypes).filter(dataType => !isLocalOnly(dataType));
+}
+
 async function runSyncCycle(): Promise<SyncBatch> {
-  if (syncState.inProgress) {
-    logger.debug("Sync already in progress, skipping");
+  if (syncState.inProgress || bridgeConfig.sync.mode === "offline-only") {
+    logger.debug("Sync already in progress or offline-only, skipping");
     return {
       id: `skip-${Date.now()}`,
       operations: [],
@@ -334,6 +422,16 @@ async function runSyncCycle(): Promise<SyncBatch> {
   };
 
   try {
+    if (!getSyncEngine()) {
+      // Leave the queue alone until a storage/database service is reachable
+      throw new Error("No cloud service available for sync");
+    }
+
+    // Cloud-first takes the cloud's changes before sending local ones
+    if (bridgeConfig.sync.mode === "cloud-first") {
+      await pullAllChanges(batch);
+    }
+
     // Get pending operations from local queue
     const pendingOps = await getPendingSyncOperations();
     batch.operations = pendingOps;
@@ -370,6 +468,10 @@ async function runSyncCycle(): Promise<SyncBatch> {
       }
     }
 
+    if (bridgeConfig.sync.mode !== "cloud-first") {
+      await pullAllChanges(batch);
+    }
+
     batch.completedAt = new Date().toISOString();
     batch.status = batch.failureCount === 0 ? "completed" : "partial";
     syncState.lastSync = batch.completedAt;
@@ -377,6 +479,7 @@ async function runSyncCycle(): Promise<SyncBatch> {
     batch.status = "failed";
     logger.error("Sync cycle failed:", error);
   } finally {
+    await refreshSyncCounts().catch(error => logger.error("Failed to read sync store:", error));
     syncState.inProgress = false;
     emitEvent({ type: "sync:completed", batchId, stats: batch });
   }
@@ -385,60 +488,156 @@ async function runSyncCycle(): Promise<SyncBatch> {
 }
 
 async function getPendingSyncOperations(): Promise<SyncOperation[]> {
-  // TODO: Get from local sync queue (database or file)
-  // For now, return empty array
-  return [];
+  const ops = await getSyncStore().takeQueued(bridgeConfig.sync.batchSize);
+  return ops.map(op => ({ ...op, status: "in-progress" }));
 }
 
 async function queueSyncOperation(op: SyncOperation): Promise<void> {
-  // TODO: Save to local sync queue
+  await getSyncStore().enqueue({ ...op, status: "pending" });
   logger.debug("Queued sync operation:", op.id);
 }
 
+function createSyncOperation(type: SyncOperation["type"], dataType: string, dataId: string): SyncOperation {
+  return {
+    id: `op-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    dataType,
+    dataId,
+    timestamp: new Date().toISOString(),
+    status: "pending",
+    retries: 0,
+  };
+}
+
 async function executeSyncOperation(op: SyncOperation): Promise<void> {
   logger.debug(`Executing sync operation: ${op.type} for ${op.dataType}/${op.dataId}`);
   
+  const engine = getSyncEngine(op.dataType);
+  if (!engine) {
+    throw new Error("No cloud service available for sync");
+  }
+
   // Route based on operation type and config
   switch (op.type) {
     case "push":
-      await pushToCloud(op);
+      await pushToCloud(engine, op);
       break;
     case "pull":
-      await pullFromCloud(op);
+      await pullFromCloud(engine, op);
       break;
     case "delete":
-      await syncDelete(op);
+      await syncDelete(engine, op);
       break;
     case "merge":
-      await mergeData(op);
+      await mergeData(engine, op);
       break;
   }
 }
 
-async function pushToCloud(op: SyncOperation): Promise<void> {
-  // Find appropriate service bridge
-  const service = Array.from(services.values()).find(
-    s => s.type === "storage" || s.type === "database"
-  );
-  
-  if (!service) {
-    throw new Error("No cloud service available for push");
+// Every operation reconciles the record on both sides; the engine decides
+// which way it moves from what changed since the last sync.
+
+async function pushToCloud(engine: HybridSyncEngine, op: SyncOperation): Promise<void> {
+  await engine.reconcile(op.dataType, op.dataId);
+}
+
+async function pullFromCloud(engine: HybridSyncEngine, op: SyncOperation): Promise<void> {
+  await engine.reconcile(op.dataType, op.dataId);
+}
+
+async function syncDelete(engine: HybridSyncEngine, op: SyncOperation): Promise<void> {
+  // The local tombstone is removed once the cloud delete succeeds
+  await engine.reconcile(op.dataType, op.dataId);
+}
+
+async function mergeData(engine: HybridSyncEngine, op: SyncOperation): Promise<void> {
+  await engine.reconcile(op.dataType, op.dataId, undefined, "merge");
+}
+
+/**
+ * Cloud-first and realtime modes sync a change right away; otherwise, or if
+ * that fails, the change waits in the queue for the next sync cycle.
+ */
+async function syncChange(op: SyncOperation): Promise<void> {
+  const mode = getSyncMode(op.dataType);
+  if (mode === "cloud-first" || mode === "realtime") {
+    try {
+      await executeSyncOperation(op);
+      return;
+    } catch (error) {
+      logger.warn(`Immediate sync of ${op.dataType}/${op.dataId} failed, queueing:`, error);
+    }
+  }
+  await queueSyncOperation(op);
+  syncState.pendingLocal = await getSyncStore().getQueueLength();
+}
+
+// ============================================================================
+// Synced Data Access
+// ============================================================================
+
+async function putData(dataType: string, id: string, data: any): Promise<SyncRecord> {
+  const store = getSyncStore();
+  const existing = await store.getRecord(dataType, id);
+  const record: SyncRecord = { id, dataType, data, updatedAt: new Date().toISOString() };
+  await store.putRecord({ ...existing, ...record, deleted: undefined, dirty: true });
+
+  if (!isLocalOnly(dataType)) {
+    await syncChange(createSyncOperation("push", dataType, id));
   }
+  return record;
+}
 
-  // Execute push via n8n workflow or direct API
-  // TODO: Implement actual push logic
+async function getData(dataType: string, id: string): Promise<SyncRecord | null> {
+  const store = getSyncStore();
+  const engine = getSyncEngine(dataType);
+  if (engine && getSyncMode(dataType) === "cloud-first" && !isLocalOnly(dataType)) {
+    try {
+      await engine.reconcile(dataType, id);
+    } catch (error) {
+      // Serve the cached copy while the cloud is unreachable
+      logger.warn(`Cloud read of ${dataType}/${id} failed, using local copy:`, error);
+    }
+  }
+  const record = await store.getRecord(dataType, id);
+  return record && !record.deleted ? toSyncRecord(record) : null;
 }
 
-async function pullFromCloud(op: SyncOperation): Promise<void> {
-  // TODO: Implement pull logic
+async function deleteData(dataType: string, id: string): Promise<void> {
+  const store = getSyncStore();
+  const existing = await store.getRecord(dataType, id);
+  if (!existing) return;
+
+  // Never-synced records have nothing to delete in the cloud
+  if (!existing.cloudUpdatedAt || isLocalOnly(dataType)) {
+    await store.removeRecord(dataType, id);
+    return;
+  }
+  await store.putRecord({ ...existing, deleted: true, dirty: true, updatedAt: new Date().toISOString() });
+  await syncChange(createSyncOperation("delete", dataType, id));
 }
 
-async function syncDelete(op: SyncOperation): Promise<void> {
-  // TODO: Implement delete sync logic
+async function listData(dataType: string): Promise<SyncRecord[]> {
+  const records = await getSyncStore().listRecords(dataType);
+  return records.filter(record => !record.deleted).map(toSyncRecord);
 }
 
-async function mergeData(op: SyncOperation): Promise<void> {
-  // TODO: Implement merge logic with conflict resolution
+function toSyncRecord({ id, dataType, data, updatedAt }: SyncRecord): SyncRecord {
+  return { id, dataType, data, updatedAt };
+}
+
+async function resolveSyncConflict(conflictId: string, choice: ConflictChoice): Promise<SyncConflict> {
+  const conflict = await getSyncStore().getConflict(conflictId);
+  if (!conflict) {
+    throw new Error(`Conflict ${conflictId} not found`);
+  }
+  const engine = getSyncEngine(conflict.dataType);
+  if (!engine) {
+    throw new Error("No cloud service available to resolve the conflict");
+  }
+  const resolved = await engine.resolveManually(conflictId, choice);
+  await refreshSyncCounts();
+  return resolved;
 }
 
 function startSyncInterval(): void {
@@ -761,6 +960,23 @@ export function registerHybridBridgeHandlers(): void {
     syncState.errors = [];
     return { success: true };
   });
+  ipcMain.handle("hybrid-bridge:sync:conflicts", async () => getSyncStore().listConflicts());
+  ipcMain.handle("hybrid-bridge:sync:resolve", async (_event, params: { conflictId: string; choice: ConflictChoice }) => {
+    return resolveSyncConflict(params.conflictId, params.choice);
+  });
+
+  // Synced Data
+  ipcMain.handle("hybrid-bridge:data:put", async (_event, params: { dataType: string; id: string; data: any }) => {
+    return putData(params.dataType, params.id, params.data);
+  });
+  ipcMain.handle("hybrid-bridge:data:get", async (_event, params: { dataType: string; id: string }) => {
+    return getData(params.dataType, params.id);
+  });
+  ipcMain.handle("hybrid-bridge:data:delete", async (_event, params: { dataType: string; id: string }) => {
+    await deleteData(params.dataType, params.id);
+    return { success: true };
+  });
+  ipcMain.handle("hybrid-bridge:data:list", async (_event, dataType: string) => listData(dataType));
 
   // Bridge Request Execution
   ipcMain.handle("hybrid-bridge:request", async (_event, request: BridgeRequest) => {
@@ -1,16 +1,35 @@
 /**
  * LibreOffice Headless Integration Handlers
- * Handles document creation, editing, and export via LibreOffice
+ * Handles document creation, editing, and export. Office, HTML and text
+ * exports are written natively; LibreOffice is only needed for PDF and the
+ * legacy/ODF conversions.
  */
 
-import { ipcMain, app } from "electron";
+import { ipcMain, app, shell, type WebContents } from "electron";
 import { spawn, exec } from "child_process";
 import * as fs from "fs/promises";
 import * as path from "path";
 import { promisify } from "util";
+import { jsonSchema, streamObject } from "ai";
 import { getDb } from "@/db";
 import { documents, documentTemplates } from "@/db/schema";
-import { eq, desc, like, and, or } from "drizzle-orm";
+import { eq, desc, like, and, or, sql } from "drizzle-orm";
+import {
+  generateDocumentContent,
+  getGenerationModelId,
+  getRevisableSections,
+  reviseDocumentSection,
+  type StructuredGenerator,
+} from "@/lib/document_generator";
+import { writeDocx, writePptx, writeXlsx } from "@/lib/office_writers";
+import {
+  renderCsv,
+  renderHtml,
+  renderMarkdown,
+  renderPlainText,
+} from "@/lib/document_markup";
+import { getAgentModelClient } from "../utils/agent_model_client";
+import { safeSend } from "../utils/safe_sender";
 import type {
   DocumentType,
   DocumentFormat,
@@ -25,6 +44,9 @@ import type {
   DocumentOperationResult,
   BaseDocument,
   AIGenerationOptions,
+  DocumentContentResult,
+  GenerationProgress,
+  ReviseDocumentRequest,
 } from "@/types/libreoffice_types";
 
 const execAsync = promisify(exec);
@@ -55,9 +77,9 @@ const FORMAT_EXTENSIONS: Record<DocumentType, DocumentFormat> = {
   presentation: "odp",
 };
 
-const EXPORT_FILTERS: Record<ExportFormat, string> = {
-  pdf: "writer_pdf_Export",
+const EXPORT_FILTERS: Partial<Record<ExportFormat, string>> = {
   docx: "MS Word 2007 XML",
+  doc: "MS Word 97",
   xlsx: "Calc MS Excel 2007 XML",
   pptx: "Impress MS PowerPoint 2007 XML",
   odt: "writer8",
@@ -68,6 +90,96 @@ const EXPORT_FILTERS: Record<ExportFormat, string> = {
   csv: "Text - txt - csv (StarCalc)",
 };
 
+const PDF_FILTERS: Record<DocumentType, string> = {
+  document: "writer_pdf_Export",
+  spreadsheet: "calc_pdf_Export",
+  presentation: "impress_pdf_Export",
+};
+
+// Formats written straight from a document's stored content
+const NATIVE_EXPORT_FORMATS: Record<DocumentType, ExportFormat[]> = {
+  document: ["docx", "html", "md", "txt"],
+  spreadsheet: ["xlsx", "csv", "html", "md", "txt"],
+  presentation: ["pptx", "html", "md", "txt"],
+};
+
+type AnyDocumentContent = DocumentContent | SpreadsheetContent | PresentationContent;
+
+/**
+ * Streams structured output from the model chosen in the generation options
+ */
+function createStructuredGenerator(
+  options: Pick<AIGenerationOptions, "provider" | "model">
+): StructuredGenerator {
+  return async (request, onPartial) => {
+    const { modelClient } = await getAgentModelClient(getGenerationModelId(options));
+    const result = streamObject({
+      model: modelClient.model,
+      schema: jsonSchema(request.schema),
+      system: request.system,
+      prompt: request.prompt,
+    });
+    for await (const partial of result.partialObjectStream) {
+      onPartial(partial);
+    }
+    return result.object;
+  };
+}
+
+async function writeNativeExport(
+  type: DocumentType,
+  content: AnyDocumentContent,
+  format: ExportFormat,
+  outputPath: string,
+  title: string
+): Promise<void> {
+  switch (format) {
+    case "docx":
+      return writeDocx(content as DocumentContent, outputPath);
+    case "xlsx":
+      return writeXlsx(content as SpreadsheetContent, outputPath);
+    case "pptx":
+      return writePptx(content as PresentationContent, outputPath);
+    case "html":
+      return fs.writeFile(outputPath, renderHtml(type, content, title), "utf8");
+    case "md":
+      return fs.writeFile(outputPath, renderMarkdown(type, content), "utf8");
+    case "txt":
+      return fs.writeFile(outputPath, renderPlainText(type, content), "utf8");
+    case "csv":
+      return fs.writeFile(outputPath, renderCsv(content as SpreadsheetContent), "utf8");
+    default:
+      throw new Error(`${format.toUpperCase()} export requires LibreOffice`);
+  }
+}
+
+// Converts an A1-style formula (=SUM(B2:E2)) to OpenFormula (of:=SUM([.B2:.E2]))
+function toOdfFormula(formula: string): string {
+  const body = formula.replace(/^=/, "").replace(
+    /\$?([A-Z]{1,3})\$?(\d+)(?::\$?([A-Z]{1,3})\$?(\d+))?/g,
+    (_, c1, r1, c2, r2) => (c2 ? `[.${c1}${r1}:.${c2}${r2}]` : `[.${c1}${r1}]`)
+  );
+  return `of:=${body}`;
+}
+
+function columnNumber(col: string): number {
+  let n = 0;
+  for (const char of col.toUpperCase()) {
+    n = n * 26 + (char.charCodeAt(0) - 64);
+  }
+  return n;
+}
+
+function columnLetters(n: number): string {
+  let name = "";
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    name = String.fromCharCode(65 + rem) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+}
+
 class LibreOfficeManager {
   private static instance: LibreOfficeManager;
   private libreOfficePath: string | null = null;
@@ -164,36 +276,22 @@ class LibreOfficeManager {
   }
 
   async createDocument(
-    request: CreateDocumentRequest
+    request: CreateDocumentRequest,
+    sender?: WebContents
   ): Promise<DocumentOperationResult> {
-    const db = getDb();
-    const loPath = await this.findLibreOffice();
-
-    if (!loPath) {
-      return {
-        success: false,
-        error: "LibreOffice is not installed. Please install LibreOffice to create documents.",
-      };
+    if (request.aiGenerate && !request.content) {
+      return this.generateDocument(request, sender);
     }
 
+    const db = getDb();
+
     try {
       const format = request.format || FORMAT_EXTENSIONS[request.type];
       const fileName = `${request.name.replace(/[^a-zA-Z0-9-_]/g, "_")}_${Date.now()}.${format}`;
       const filePath = path.join(this.documentsDir, fileName);
 
-      // Create the document based on type
-      let content: string;
-      
-      if (request.type === "document") {
-        content = this.generateDocumentXML(request.content);
-      } else if (request.type === "spreadsheet") {
-        content = this.generateSpreadsheetXML(request.content as SpreadsheetContent);
-      } else {
-        content = this.generatePresentationXML(request.content as PresentationContent);
-      }
-
       // Write the initial content
-      await this.writeDocumentContent(filePath, request.type, content);
+      await this.writeContentFile(filePath, request.type, request.content);
 
       // Insert into database
       const [doc] = await db
@@ -205,22 +303,13 @@ class LibreOfficeManager {
           status: "ready",
           filePath: filePath,
           description: request.content?.metadata?.description || null,
+          content: request.content ?? null,
         })
         .returning();
 
       return {
         success: true,
-        document: {
-          id: doc.id,
-          name: doc.name,
-          type: doc.type as DocumentType,
-          format: doc.format as DocumentFormat,
-          status: doc.status as any,
-          filePath: doc.filePath,
-          createdAt: doc.createdAt,
-          updatedAt: doc.updatedAt,
-          description: doc.description || undefined,
-        },
+        document: this.toBaseDocument(doc),
         filePath,
       };
     } catch (error) {
@@ -232,6 +321,202 @@ class LibreOfficeManager {
     }
   }
 
+  /**
+   * Create a document from an AI generation request, streaming progress to
+   * the renderer while the model writes it
+   */
+  async generateDocument(
+    request: CreateDocumentRequest,
+    sender?: WebContents
+  ): Promise<DocumentOperationResult> {
+    const db = getDb();
+    const options = request.aiGenerate!;
+
+    const format = request.format || FORMAT_EXTENSIONS[request.type];
+    const fileName = `${request.name.replace(/[^a-zA-Z0-9-_]/g, "_")}_${Date.now()}.${format}`;
+    const filePath = path.join(this.documentsDir, fileName);
+
+    // The document is listed as "generating" while the model runs
+    const [doc] = await db
+      .insert(documents)
+      .values({
+        name: request.name,
+        type: request.type,
+        format,
+        status: "generating",
+        filePath,
+        aiPrompt: options.prompt,
+        aiModel: options.model || null,
+        aiProvider: options.provider || null,
+      })
+      .returning();
+
+    const onProgress = (progress: GenerationProgress) =>
+      safeSend(sender, "libreoffice:generation:progress", { documentId: doc.id, ...progress });
+
+    const result = await generateDocumentContent(
+      request.type,
+      options,
+      createStructuredGenerator(options),
+      onProgress
+    );
+
+    if (!result.success || !result.content) {
+      await db
+        .update(documents)
+        .set({ status: "error", description: result.error || null, updatedAt: sql`(datetime('now'))` })
+        .where(eq(documents.id, doc.id));
+      return { success: false, error: result.error || "Failed to generate content" };
+    }
+
+    try {
+      onProgress({ stage: "saving", progress: 95, message: "Saving the document" });
+      await this.writeContentFile(filePath, request.type, result.content);
+      const stats = await fs.stat(filePath);
+
+      const [saved] = await db
+        .update(documents)
+        .set({
+          status: "ready",
+          content: result.content,
+          size: stats.size,
+          updatedAt: sql`(datetime('now'))`,
+        })
+        .where(eq(documents.id, doc.id))
+        .returning();
+
+      onProgress({ stage: "complete", progress: 100, message: "Document ready" });
+      return { success: true, document: this.toBaseDocument(saved), filePath };
+    } catch (error) {
+      console.error("Failed to save generated document:", error);
+      await db
+        .update(documents)
+        .set({ status: "error", updatedAt: sql`(datetime('now'))` })
+        .where(eq(documents.id, doc.id));
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to save document",
+      };
+    }
+  }
+
+  /**
+   * Get the structured content of a document and the sections that can be
+   * revised. Documents created before content was stored return null.
+   */
+  async getDocumentContent(id: number): Promise<DocumentContentResult | null> {
+    const db = getDb();
+    const [doc] = await db.select().from(documents).where(eq(documents.id, id)).limit(1);
+    if (!doc?.content) return null;
+
+    const type = doc.type as DocumentType;
+    const content = doc.content as AnyDocumentContent;
+    return { type, content, sections: getRevisableSections(type, content) };
+  }
+
+  /**
+   * Rewrite one section of a document with AI and save the result
+   */
+  async reviseDocument(
+    request: ReviseDocumentRequest,
+    sender?: WebContents
+  ): Promise<DocumentOperationResult> {
+    const db = getDb();
+    const [doc] = await db
+      .select()
+      .from(documents)
+      .where(eq(documents.id, request.documentId))
+      .limit(1);
+
+    if (!doc) {
+      return { success: false, error: "Document not found" };
+    }
+    if (!doc.content) {
+      return { success: false, error: "This document has no stored content to revise" };
+    }
+    if (doc.status === "generating") {
+      return { success: false, error: "Document is still being generated" };
+    }
+
+    const onProgress = (progress: GenerationProgress) =>
+      safeSend(sender, "libreoffice:generation:progress", { documentId: doc.id, ...progress });
+    const type = doc.type as DocumentType;
+
+    try {
+      await db
+        .update(documents)
+        .set({ status: "generating" })
+        .where(eq(documents.id, doc.id));
+
+      const content = await reviseDocumentSection(
+        type,
+        doc.content as AnyDocumentContent,
+        request.sectionIndex,
+        request.instruction,
+        createStructuredGenerator({
+          provider: request.provider ?? doc.aiProvider ?? undefined,
+          model: request.model ?? doc.aiModel ?? undefined,
+        }),
+        onProgress
+      );
+
+      onProgress({ stage: "saving", progress: 95, message: "Saving the document" });
+      await this.writeContentFile(doc.filePath, type, content);
+      const stats = await fs.stat(doc.filePath);
+
+      const [saved] = await db
+        .update(documents)
+        .set({ status: "ready", content, size: stats.size, updatedAt: sql`(datetime('now'))` })
+        .where(eq(documents.id, doc.id))
+        .returning();
+
+      onProgress({ stage: "complete", progress: 100, message: "Section revised" });
+      return { success: true, document: this.toBaseDocument(saved), filePath: doc.filePath };
+    } catch (error) {
+      console.error("Failed to revise document:", error);
+      // The file was not touched, so the document is still usable
+      await db
+        .update(documents)
+        .set({ status: "ready" })
+        .where(eq(documents.id, doc.id));
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to revise document",
+      };
+    }
+  }
+
+  private toBaseDocument(doc: typeof documents.$inferSelect): BaseDocument {
+    return {
+      id: doc.id,
+      name: doc.name,
+      type: doc.type as DocumentType,
+      format: doc.format as DocumentFormat,
+      status: doc.status as any,
+      filePath: doc.filePath,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+      size: doc.size ?? undefined,
+      description: doc.description || undefined,
+    };
+  }
+
+  private async writeContentFile(
+    filePath: string,
+    type: DocumentType,
+    content?: AnyDocumentContent
+  ): Promise<void> {
+    let xml: string;
+    if (type === "document") {
+      xml = this.generateDocumentXML(content as DocumentContent | undefined);
+    } else if (type === "spreadsheet") {
+      xml = this.generateSpreadsheetXML(content as SpreadsheetContent | undefined);
+    } else {
+      xml = this.generatePresentationXML(content as PresentationContent | undefined);
+    }
+    await this.writeDocumentContent(filePath, type, xml);
+  }
+
   private generateDocumentXML(content?: DocumentContent): string {
     const title = content?.title || "Untitled Document";
     const sections = content?.sections || [];
@@ -250,6 +535,20 @@ class LibreOfficeManager {
           body += `  <text:list-item><text:p>${this.escapeXML(item)}</text:p></text:list-item>\n`;
         }
         body += `</text:list>\n`;
+      } else if (section.type === "code" || section.type === "quote") {
+        body += `<text:p text:style-name="Text_20_body">${this.escapeXML(section.content as string)}</text:p>\n`;
+      } else if (section.type === "table") {
+        const table = section.content as { headers: string[]; rows: string[][] };
+        const columns = Math.max(table.headers.length, ...table.rows.map((r) => r.length), 1);
+        body += `<table:table>\n  <table:table-column table:number-columns-repeated="${columns}"/>\n`;
+        for (const row of [table.headers, ...table.rows].filter((r) => r.length > 0)) {
+          body += `  <table:table-row>`;
+          for (let c = 0; c < columns; c++) {
+            body += `<table:table-cell office:value-type="string"><text:p>${this.escapeXML(row[c] ?? "")}</text:p></table:table-cell>`;
+          }
+          body += `</table:table-row>\n`;
+        }
+        body += `</table:table>\n`;
       }
     }
 
@@ -265,6 +564,7 @@ class LibreOfficeManager {
 <office:document-content xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"
   xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"
   xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"
+  xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"
   office:version="1.2">
   <office:body>
     <office:text>
@@ -291,19 +591,21 @@ class LibreOfficeManager {
       }
 
       const maxRow = Math.max(...Array.from(rowMap.keys()), 1);
+      const maxCol = Math.max(...sheet.cells.map((cell) => columnNumber(cell.col)), 1);
       for (let r = 1; r <= maxRow; r++) {
         sheetContent += `  <table:table-row>\n`;
         const rowCells = rowMap.get(r) || new Map();
-        // Simplified: just output cells A-Z for now
-        const cols = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
-        for (const col of cols) {
-          const cell = rowCells.get(col);
+        for (let c = 1; c <= maxCol; c++) {
+          const cell = rowCells.get(columnLetters(c));
           if (cell) {
             const valueType = typeof cell.value === "number" ? "float" : "string";
             sheetContent += `    <table:table-cell office:value-type="${valueType}"`;
             if (valueType === "float") {
               sheetContent += ` office:value="${cell.value}"`;
             }
+            if (cell.formula) {
+              sheetContent += ` table:formula="${this.escapeXML(toOdfFormula(cell.formula))}"`;
+            }
             sheetContent += `><text:p>${this.escapeXML(String(cell.value))}</text:p></table:table-cell>\n`;
           } else {
             sheetContent += `    <table:table-cell/>\n`;
@@ -355,12 +657,17 @@ class LibreOfficeManager {
       if (slide.content) {
         let yPos = slide.subtitle ? 7 : 5;
         for (const section of slide.content) {
-          slideContent += `  <draw:frame draw:style-name="gr3" draw:layer="layout" svg:width="25.4cm" svg:height="2cm" svg:x="1.4cm" svg:y="${yPos}cm">
+          const lines =
+            section.type === "list"
+              ? (section.content as { items: string[] }).items.map((item) => `• ${item}`)
+              : [String(section.content)];
+          const height = Math.max(2, lines.length * 1.2);
+          slideContent += `  <draw:frame draw:style-name="gr3" draw:layer="layout" svg:width="25.4cm" svg:height="${height}cm" svg:x="1.4cm" svg:y="${yPos}cm">
     <draw:text-box>
-      <text:p>${this.escapeXML(section.content as string)}</text:p>
+      ${lines.map((line) => `<text:p>${this.escapeXML(line)}</text:p>`).join("\n      ")}
     </draw:text-box>
   </draw:frame>\n`;
-          yPos += 2.5;
+          yPos += height + 0.5;
         }
       }
 
@@ -468,14 +775,6 @@ class LibreOfficeManager {
 
   async exportDocument(request: ExportDocumentRequest): Promise<DocumentOperationResult> {
     const db = getDb();
-    const loPath = await this.findLibreOffice();
-
-    if (!loPath) {
-      return {
-        success: false,
-        error: "LibreOffice is not installed",
-      };
-    }
 
     try {
       const [doc] = await db
@@ -488,12 +787,32 @@ class LibreOfficeManager {
         return { success: false, error: "Document not found" };
       }
 
+      const type = doc.type as DocumentType;
       const outputDir = request.outputPath || path.join(this.documentsDir, "exports");
       const outputFileName = `${path.basename(doc.filePath, path.extname(doc.filePath))}.${request.format}`;
       const outputPath = path.join(outputDir, outputFileName);
+      await fs.mkdir(outputDir, { recursive: true });
+
+      if (doc.content && NATIVE_EXPORT_FORMATS[type].includes(request.format)) {
+        await writeNativeExport(type, doc.content as AnyDocumentContent, request.format, outputPath, doc.name);
+        return { success: true, filePath: outputPath };
+      }
 
-      // Use LibreOffice headless to convert
-      const filter = EXPORT_FILTERS[request.format] || "writer_pdf_Export";
+      // Everything else is converted from the ODF file by LibreOffice headless
+      const loPath = await this.findLibreOffice();
+      if (!loPath) {
+        return {
+          success: false,
+          error: `LibreOffice is required to export ${request.format.toUpperCase()}`,
+        };
+      }
+      const filter = request.format === "pdf" ? PDF_FILTERS[type] : EXPORT_FILTERS[request.format];
+      if (!filter) {
+        return {
+          success: false,
+          error: `This document has no stored content to export as ${request.format.toUpperCase()}`,
+        };
+      }
       
       await new Promise<void>((resolve, reject) => {
         const args = [
@@ -633,10 +952,6 @@ class LibreOfficeManager {
     const db = getDb();
     const loPath = await this.findLibreOffice();
 
-    if (!loPath) {
-      return { success: false, error: "LibreOffice is not installed" };
-    }
-
     try {
       const [doc] = await db
         .select()
@@ -648,8 +963,13 @@ class LibreOfficeManager {
         return { success: false, error: "Document not found" };
       }
 
-      // Open in LibreOffice
-      spawn(loPath, [doc.filePath], { detached: true, stdio: "ignore" }).unref();
+      // Open in LibreOffice, or the system's default app for the format
+      if (loPath) {
+        spawn(loPath, [doc.filePath], { detached: true, stdio: "ignore" }).unref();
+      } else {
+        const error = await shell.openPath(doc.filePath);
+        if (error) return { success: false, error };
+      }
 
       return { success: true };
     } catch (error) {
@@ -675,8 +995,18 @@ export function registerLibreOfficeHandlers() {
   });
 
   // Create document
-  ipcMain.handle("libreoffice:create", async (_, request: CreateDocumentRequest) => {
-    return manager.createDocument(request);
+  ipcMain.handle("libreoffice:create", async (event, request: CreateDocumentRequest) => {
+    return manager.createDocument(request, event.sender);
+  });
+
+  // Get structured content and revisable sections
+  ipcMain.handle("libreoffice:content", async (_, id: number) => {
+    return manager.getDocumentContent(id);
+  });
+
+  // Revise one section with AI
+  ipcMain.handle("libreoffice:revise", async (event, request: ReviseDocumentRequest) => {
+    return manager.reviseDocument(request, event.sender);
   });
 
   // List documents
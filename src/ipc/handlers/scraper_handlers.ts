@@ -6,21 +6,55 @@
 import { ipcMain, app } from "electron";
 import * as fs from "fs-extra";
 import * as path from "path";
+import * as zlib from "zlib";
 import log from "electron-log";
+import { generateObject, jsonSchema } from "ai";
 import { db } from "@/db";
+import { runPipeline, validateTransformations } from "@/lib/data_pipeline";
+import {
+  DATASET_FORMAT_EXTENSIONS,
+  exportDatasetRows,
+  inferColumns,
+  inferFieldType,
+  readDatasetRows,
+} from "@/lib/dataset_export";
+import {
+  AI_EXTRACTION_SYSTEM_PROMPT,
+  DEFAULT_EXTRACTION_MAX_TOKENS,
+  DEFAULT_MIN_FIELD_CONFIDENCE,
+  buildExtractionPrompt,
+  buildExtractionSchema,
+  mergeWithSelectorFallback,
+  normalizeAIExtraction,
+  prepareHtmlForExtraction,
+} from "@/lib/scraper_ai_extraction";
+import {
+  CrawlFrontier,
+  extractLinks,
+  getRobotsRulesForResponse,
+  isAllowedByRobots,
+  normalizeUrl,
+  parseSitemap,
+  passesUrlFilters,
+  type RobotsRules,
+} from "@/lib/scraper_crawler";
 import type {
   ScrapingConfig,
   ScrapingJob,
+  ScrapingError,
   ScrapingStatus,
   Dataset,
   DatasetPreview,
   DatasetField,
+  DatasetLineage,
+  DataPipeline,
   ScrapingField,
   ScraperStatus,
   DatasetExportOptions,
   AIExtractionResult,
   ScrapingTemplate,
 } from "@/types/scraper_types";
+import { getAgentModelClient } from "../utils/agent_model_client";
 
 const logger = log.scope("scraper_handlers");
 
@@ -31,6 +65,11 @@ const jobQueue: string[] = [];
 // Chromium/Puppeteer status
 let chromiumPath: string | null = null;
 
+const DEFAULT_USER_AGENT = "JoyCreate-Scraper/1.0";
+
+// Upper bound on sitemap documents read for one job, including nested indexes
+const MAX_SITEMAPS = 50;
+
 /**
  * Get the data directory for scraper
  */
@@ -59,6 +98,13 @@ function getJobsDir(): string {
   return path.join(getScraperDataDir(), "jobs");
 }
 
+/**
+ * Get pipelines directory
+ */
+function getPipelinesDir(): string {
+  return path.join(getScraperDataDir(), "pipelines");
+}
+
 /**
  * Initialize scraper directories
  */
@@ -67,6 +113,7 @@ async function initScraperDirs() {
   await fs.ensureDir(getDatasetsDir());
   await fs.ensureDir(getConfigsDir());
   await fs.ensureDir(getJobsDir());
+  await fs.ensureDir(getPipelinesDir());
 }
 
 /**
@@ -83,7 +130,7 @@ async function fetchPage(url: string, options: {
   timeout?: number;
   userAgent?: string;
   headers?: Record<string, string>;
-} = {}): Promise<{ html: string; status: number; headers: Record<string, string> }> {
+} = {}): Promise<{ html: string; status: number; headers: Record<string, string>; url: string }> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), options.timeout || 30000);
   
@@ -91,7 +138,7 @@ async function fetchPage(url: string, options: {
     const response = await fetch(url, {
       signal: controller.signal,
       headers: {
-        "User-Agent": options.userAgent || "JoyCreate-Scraper/1.0",
+        "User-Agent": options.userAgent || DEFAULT_USER_AGENT,
         ...options.headers,
       },
     });
@@ -106,6 +153,8 @@ async function fetchPage(url: string, options: {
       html,
       status: response.status,
       headers,
+      // Where the page was served from after redirects
+      url: response.url || url,
     };
   } finally {
     clearTimeout(timeoutId);
@@ -161,13 +210,19 @@ function extractFields(html: string, fields: ScrapingField[]): Record<string, an
   const data: Record<string, any> = {};
   
   for (const field of fields) {
+    // The selector of an AI field is a description, not a selector
+    if (field.selectorType === "ai-extract") {
+      data[field.name] = field.defaultValue ?? null;
+      continue;
+    }
+    
     try {
       const values = extractWithSelector(html, field.selector, field.attribute);
       
       if (field.type === "array") {
         data[field.name] = values;
       } else {
-        data[field.name] = values[0] || field.defaultValue || null;
+        data[field.name] = values[0] || (field.defaultValue ?? null);
       }
       
       // Type conversion
@@ -178,7 +233,7 @@ function extractFields(html: string, fields: ScrapingField[]): Record<string, an
       }
     } catch (error) {
       logger.warn(`Failed to extract field ${field.name}:`, error);
-      data[field.name] = field.defaultValue || null;
+      data[field.name] = field.defaultValue ?? null;
     }
   }
   
@@ -186,69 +241,261 @@ function extractFields(html: string, fields: ScrapingField[]): Record<string, an
 }
 
 /**
- * AI-powered extraction using local or API model
+ * AI-powered extraction using the configured local or cloud model, with
+ * the fields as a typed output schema
  */
 async function aiExtract(
   html: string,
+  pageUrl: string,
   fields: ScrapingField[],
   config: ScrapingConfig["aiExtraction"]
 ): Promise<AIExtractionResult> {
-  // This would integrate with the existing language model system
-  // For now, return a placeholder
-  logger.info("AI extraction requested - using fallback to selector-based extraction");
+  const modelId = config?.model
+    ? config.provider ? `${config.provider}:${config.model}` : config.model
+    : undefined;
+  
+  try {
+    const { modelClient } = await getAgentModelClient(modelId);
+    const result = await generateObject({
+      model: modelClient.model,
+      schema: jsonSchema(buildExtractionSchema(fields)),
+      system: AI_EXTRACTION_SYSTEM_PROMPT,
+      prompt: buildExtractionPrompt(fields, pageUrl, prepareHtmlForExtraction(html), config?.prompt),
+      temperature: 0,
+      maxOutputTokens: config?.maxTokens ?? DEFAULT_EXTRACTION_MAX_TOKENS,
+    });
+    const { data, fieldConfidence, confidence } = normalizeAIExtraction(result.object, fields);
+    
+    return {
+      success: true,
+      data,
+      confidence,
+      fieldConfidence,
+      tokens: {
+        input: result.usage.inputTokens ?? 0,
+        output: result.usage.outputTokens ?? 0,
+      },
+    };
+  } catch (error) {
+    logger.warn(`AI extraction failed for ${pageUrl}, using selectors:`, error);
+    return {
+      success: false,
+      data: {},
+      confidence: 0,
+    };
+  }
+}
+
+/**
+ * Extract a page's fields. Fields with an "ai-extract" selector (or all
+ * fields when AI extraction is enabled) go through the model; any it is
+ * unsure about fall back to their CSS/XPath selector.
+ */
+async function extractPageData(
+  html: string,
+  pageUrl: string,
+  fields: ScrapingField[],
+  aiExtraction?: ScrapingConfig["aiExtraction"]
+): Promise<Record<string, any>> {
+  const data = extractFields(html, fields);
+  const aiFields = aiExtraction?.enabled
+    ? fields
+    : fields.filter(f => f.selectorType === "ai-extract");
+  if (aiFields.length === 0) {
+    return data;
+  }
+  
+  const aiResult = await aiExtract(html, pageUrl, aiFields, aiExtraction);
+  if (!aiResult.success) {
+    return data;
+  }
+  
+  const merged = mergeWithSelectorFallback(
+    { data: aiResult.data, fieldConfidence: aiResult.fieldConfidence || {} },
+    data,
+    aiFields,
+    aiExtraction?.minConfidence ?? DEFAULT_MIN_FIELD_CONFIDENCE
+  );
   
   return {
-    success: false,
-    data: {},
-    confidence: 0,
+    ...data,
+    ...merged.data,
+    _confidence: aiResult.fieldConfidence,
+    ...(merged.fallbackFields.length > 0 && { _selectorFallback: merged.fallbackFields }),
   };
 }
 
 /**
- * Run a scraping job
+ * Read robots.txt for a URL's origin, cached per job. Sites without one
+ * are crawled without restrictions; sites that fail to serve it are not
+ * crawled at all.
+ */
+async function getRobotsRules(
+  url: string,
+  config: ScrapingConfig,
+  cache: Map<string, RobotsRules>
+): Promise<RobotsRules> {
+  const origin = new URL(url).origin;
+  let rules = cache.get(origin);
+  if (!rules) {
+    let response: { status: number; body: string } | null = null;
+    try {
+      const { html, status } = await fetchPage(`${origin}/robots.txt`, {
+        timeout: config.timeout,
+        userAgent: config.userAgent,
+      });
+      response = { status, body: html };
+    } catch (error) {
+      logger.warn(`Failed to read robots.txt for ${origin}:`, error);
+    }
+    rules = getRobotsRulesForResponse(response, config.userAgent || DEFAULT_USER_AGENT);
+    if (response === null || response.status >= 500) {
+      logger.warn(`robots.txt for ${origin} is unavailable; not crawling it`);
+    }
+    cache.set(origin, rules);
+  }
+  return rules;
+}
+
+/**
+ * Fetch a sitemap document, decompressing gzipped sitemaps
+ */
+async function fetchSitemap(url: string, config: ScrapingConfig): Promise<string> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), config.timeout || 30000);
+  
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      headers: { "User-Agent": config.userAgent || DEFAULT_USER_AGENT },
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const bytes = Buffer.from(await response.arrayBuffer());
+    const isGzip = bytes[0] === 0x1f && bytes[1] === 0x8b;
+    return (isGzip ? zlib.gunzipSync(bytes) : bytes).toString("utf-8");
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Expand sitemaps into page URLs, following sitemap indexes
+ */
+async function expandSitemaps(sitemapUrls: string[], config: ScrapingConfig): Promise<string[]> {
+  const queue = [...sitemapUrls];
+  const read = new Set<string>();
+  const urls: string[] = [];
+  const limit = config.maxPages ?? Infinity;
+  
+  while (queue.length > 0 && read.size < MAX_SITEMAPS && urls.length < limit) {
+    const url = queue.shift()!;
+    if (read.has(url)) continue;
+    read.add(url);
+    
+    try {
+      const sitemap = parseSitemap(await fetchSitemap(url, config));
+      urls.push(...sitemap.urls);
+      queue.push(...sitemap.sitemaps);
+    } catch (error) {
+      logger.warn(`Failed to read sitemap ${url}:`, error);
+    }
+  }
+  
+  return urls;
+}
+
+/**
+ * Get the URLs a job starts from. A `sitemapUrl` adds the sitemap's pages;
+ * for a "sitemap" source without one, the source URLs are the sitemaps.
+ */
+async function getSeedUrls(config: ScrapingConfig): Promise<string[]> {
+  const sourceUrls = config.sourceUrl ? [config.sourceUrl] : config.sourceUrls || [];
+  
+  if (config.sitemapUrl) {
+    return [...sourceUrls, ...await expandSitemaps([config.sitemapUrl], config)];
+  }
+  if (config.sourceType === "sitemap") {
+    return expandSitemaps(sourceUrls, config);
+  }
+  return sourceUrls;
+}
+
+/**
+ * Hosts a crawl may follow links to
+ */
+function getCrawlHosts(config: ScrapingConfig): Set<string> {
+  const hosts = new Set<string>();
+  for (const url of [config.sourceUrl, config.sitemapUrl, ...(config.sourceUrls || [])]) {
+    const normalized = url && normalizeUrl(url);
+    if (normalized) hosts.add(new URL(normalized).hostname);
+  }
+  return hosts;
+}
+
+/**
+ * Run a scraping job. Seed URLs come from the config (and its sitemaps);
+ * with `maxDepth` set, in-domain links are followed breadth-first. A job
+ * that already has a frontier picks up where it stopped.
  */
 async function runScrapingJob(job: ScrapingJob, config: ScrapingConfig): Promise<void> {
   logger.info(`Starting scraping job ${job.id} for config ${config.name}`);
   
   job.status = "running";
-  job.stats.startedAt = new Date().toISOString();
+  job.stats.startedAt = job.stats.startedAt || new Date().toISOString();
   activeJobs.set(job.id, job);
   
   const results: Record<string, any>[] = [];
-  const errors: { url: string; message: string; timestamp: string }[] = [];
-  
-  // Get URLs to scrape
-  let urls: string[] = [];
-  if (config.sourceUrl) {
-    urls = [config.sourceUrl];
-  } else if (config.sourceUrls) {
-    urls = config.sourceUrls;
-  }
+  const errors: ScrapingError[] = [...(job.errors || [])];
   
-  // Apply max pages limit
-  if (config.maxPages && urls.length > config.maxPages) {
-    urls = urls.slice(0, config.maxPages);
+  const frontier = new CrawlFrontier(job.frontier);
+  if (!job.frontier) {
+    for (const url of await getSeedUrls(config)) {
+      frontier.add(url, 0);
+    }
   }
+  job.frontier = undefined;
   
-  job.progress.total = urls.length;
+  const maxDepth = config.maxDepth ?? 0;
+  const maxPages = config.maxPages ?? Infinity;
+  const crawlHosts = getCrawlHosts(config);
+  const robotsCache = new Map<string, RobotsRules>();
+  let stoppedStatus: ScrapingStatus | null = null;
+  let requestCount = 0;
   
-  for (let i = 0; i < urls.length; i++) {
-    const url = urls[i];
-    
+  const updateTotal = () => {
+    const { completed, failed, skipped } = job.progress;
+    job.progress.total = Math.min(completed + failed + skipped + frontier.size, maxPages + skipped);
+  };
+  updateTotal();
+  
+  while (frontier.size > 0 && job.progress.completed + job.progress.failed < maxPages) {
     // Check if job was cancelled (re-check from map to get latest status)
     const currentJob = activeJobs.get(job.id);
     if (currentJob && (currentJob.status === "cancelled" || currentJob.status === "paused")) {
+      stoppedStatus = currentJob.status;
       break;
     }
     
+    const { url, depth } = frontier.next()!;
+    
     try {
-      // Add delay between requests
-      if (i > 0 && config.delay) {
-        await new Promise(resolve => setTimeout(resolve, config.delay));
+      const robots = config.respectRobotsTxt ? await getRobotsRules(url, config, robotsCache) : null;
+      if (robots && !isAllowedByRobots(robots, url)) {
+        job.progress.skipped++;
+        continue;
       }
       
+      // Add delay between requests, honouring the site's Crawl-delay
+      const delay = Math.max(config.delay || 0, (robots?.crawlDelay || 0) * 1000);
+      if (requestCount > 0 && delay) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+      requestCount++;
+      
       // Fetch page
-      const { html, status } = await fetchPage(url, {
+      const { html, status, url: responseUrl } = await fetchPage(url, {
         timeout: config.timeout,
         userAgent: config.userAgent,
       });
@@ -257,28 +504,41 @@ async function runScrapingJob(job: ScrapingJob, config: ScrapingConfig): Promise
         throw new Error(`HTTP ${status}`);
       }
       
-      // Extract data
-      let data: Record<string, any>;
+      // A redirect must land somewhere this crawl may scrape too
+      const pageUrl = normalizeUrl(responseUrl) ?? url;
+      if (pageUrl !== url) {
+        const pageHost = new URL(pageUrl).hostname;
+        const inScope = pageHost === new URL(url).hostname || crawlHosts.has(pageHost);
+        if (!inScope || !passesUrlFilters(pageUrl, config.urlFilters)) {
+          throw new Error(`Redirected outside the crawl to ${pageUrl}`);
+        }
+        if (config.respectRobotsTxt && !isAllowedByRobots(await getRobotsRules(pageUrl, config, robotsCache), pageUrl)) {
+          job.progress.skipped++;
+          continue;
+        }
+      }
       
-      if (config.aiExtraction?.enabled) {
-        const aiResult = await aiExtract(html, config.fields, config.aiExtraction);
-        if (aiResult.success) {
-          data = aiResult.data;
-        } else {
-          data = extractFields(html, config.fields);
+      // Queue in-domain links for the next level
+      if (depth < maxDepth) {
+        for (const link of extractLinks(html, pageUrl)) {
+          if (crawlHosts.has(new URL(link).hostname) && passesUrlFilters(link, config.urlFilters)) {
+            frontier.add(link, depth + 1);
+          }
         }
-      } else {
-        data = extractFields(html, config.fields);
       }
       
+      // Extract data
+      const data = await extractPageData(html, pageUrl, config.fields, config.aiExtraction);
+      
       // Add source URL
       data._sourceUrl = url;
+      data._depth = depth;
       data._scrapedAt = new Date().toISOString();
       
       results.push(data);
       job.progress.completed++;
       job.stats.pagesScraped = (job.stats.pagesScraped || 0) + 1;
-      job.stats.itemsExtracted = results.length;
+      job.stats.itemsExtracted = (job.stats.itemsExtracted || 0) + 1;
       
     } catch (error) {
       logger.error(`Failed to scrape ${url}:`, error);
@@ -289,23 +549,45 @@ async function runScrapingJob(job: ScrapingJob, config: ScrapingConfig): Promise
       });
       job.progress.failed++;
       job.stats.errorsCount = (job.stats.errorsCount || 0) + 1;
+    } finally {
+      updateTotal();
+      // Update job in memory
+      activeJobs.set(job.id, { ...job });
     }
-    
-    // Update job in memory
-    activeJobs.set(job.id, { ...job });
   }
   
-  // Save results as dataset
+  // Save results as dataset, adding to the one a resumed job already wrote
   if (results.length > 0) {
-    const dataset = await createDatasetFromResults(job, config, results);
-    job.outputDatasetId = dataset.id;
+    const existing = job.outputDatasetId
+      ? await appendResultsToDataset(job.outputDatasetId, results)
+      : null;
+    job.outputDatasetId = (existing || await createDatasetFromResults(job, config, results)).id;
+    
+    // Clean the output with the config's pipeline; a failure keeps the raw dataset
+    if (config.pipelineId) {
+      try {
+        const pipeline = await readPipeline(config.pipelineId);
+        const outputs = await runDataPipeline(pipeline, [job.outputDatasetId]);
+        job.pipelineDatasetIds = outputs.map(d => d.id);
+        job.pipelineError = undefined;
+      } catch (error) {
+        logger.error(`Pipeline for job ${job.id} failed:`, error);
+        job.pipelineError = error instanceof Error ? error.message : "Unknown error";
+      }
+    }
   }
   
   // Update job status
-  job.status = job.progress.failed === job.progress.total ? "failed" : "completed";
+  if (stoppedStatus) {
+    job.status = stoppedStatus;
+    job.frontier = frontier.size > 0 ? frontier.toJSON() : undefined;
+  } else {
+    job.status = job.progress.failed === job.progress.total ? "failed" : "completed";
+  }
   job.stats.completedAt = new Date().toISOString();
   job.stats.duration = Date.now() - new Date(job.stats.startedAt!).getTime();
   job.errors = errors.length > 0 ? errors : undefined;
+  job.updatedAt = new Date().toISOString();
   
   // Save job to disk
   const jobPath = path.join(getJobsDir(), `${job.id}.json`);
@@ -314,7 +596,34 @@ async function runScrapingJob(job: ScrapingJob, config: ScrapingConfig): Promise
   // Remove from active jobs
   activeJobs.delete(job.id);
   
-  logger.info(`Completed scraping job ${job.id}: ${results.length} items extracted`);
+  logger.info(`${stoppedStatus ? "Stopped" : "Completed"} scraping job ${job.id}: ${results.length} items extracted`);
+}
+
+/**
+ * Append rows to an existing dataset. Returns null if it no longer exists.
+ */
+async function appendResultsToDataset(
+  datasetId: string,
+  results: Record<string, any>[]
+): Promise<Dataset | null> {
+  const metaPath = path.join(getDatasetsDir(), `${datasetId}.meta.json`);
+  if (!await fs.pathExists(metaPath)) {
+    return null;
+  }
+  
+  const dataset: Dataset = await fs.readJson(metaPath);
+  const rows: Record<string, any>[] = await fs.readJson(dataset.filePath);
+  rows.push(...results);
+  await fs.writeJson(dataset.filePath, rows, { spaces: 2 });
+  const stats = await fs.stat(dataset.filePath);
+  
+  dataset.stats.rowCount = rows.length;
+  dataset.stats.sizeBytes = stats.size;
+  dataset.stats.updatedAt = new Date().toISOString();
+  dataset.updatedAt = new Date().toISOString();
+  await fs.writeJson(metaPath, dataset, { spaces: 2 });
+  
+  return dataset;
 }
 
 /**
@@ -376,54 +685,154 @@ async function createDatasetFromResults(
 }
 
 /**
- * Infer field type from value
+ * List dataset metadata from disk
  */
-function inferFieldType(value: any): "text" | "number" | "url" | "image" | "date" | "boolean" | "array" | "object" {
-  if (value === null || value === undefined) return "text";
-  if (Array.isArray(value)) return "array";
-  if (typeof value === "object") return "object";
-  if (typeof value === "boolean") return "boolean";
-  if (typeof value === "number") return "number";
-  
-  const str = String(value);
-  if (/^https?:\/\//.test(str)) {
-    if (/\.(jpg|jpeg|png|gif|webp|svg)(\?|$)/i.test(str)) return "image";
-    return "url";
+async function listDatasets(): Promise<Dataset[]> {
+  const datasetDir = getDatasetsDir();
+  await fs.ensureDir(datasetDir);
+  
+  const files = await fs.readdir(datasetDir);
+  const datasets: Dataset[] = [];
+  
+  for (const file of files) {
+    if (file.endsWith(".meta.json")) {
+      try {
+        const dataset = await fs.readJson(path.join(datasetDir, file));
+        datasets.push(dataset);
+      } catch (error) {
+        logger.warn(`Failed to read dataset ${file}:`, error);
+      }
+    }
   }
-  if (/^\d{4}-\d{2}-\d{2}/.test(str)) return "date";
-  if (/^-?\d+\.?\d*$/.test(str)) return "number";
   
-  return "text";
+  return datasets;
 }
 
 /**
- * Convert dataset to different format
+ * Load every row of a dataset into memory
  */
-async function convertDataset(
-  data: Record<string, any>[],
-  format: "csv" | "jsonl"
-): Promise<string> {
-  if (format === "csv") {
-    if (data.length === 0) return "";
-    const headers = Object.keys(data[0]);
-    const rows = data.map(row => 
-      headers.map(h => {
-        const val = row[h];
-        if (val === null || val === undefined) return "";
-        if (typeof val === "string" && (val.includes(",") || val.includes("\n") || val.includes('"'))) {
-          return `"${val.replace(/"/g, '""')}"`;
-        }
-        return String(val);
-      }).join(",")
-    );
-    return [headers.join(","), ...rows].join("\n");
+async function loadDatasetRows(datasetId: string): Promise<Record<string, any>[]> {
+  const metaPath = path.join(getDatasetsDir(), `${datasetId}.meta.json`);
+  if (!await fs.pathExists(metaPath)) {
+    throw new Error(`Dataset ${datasetId} not found`);
   }
   
-  if (format === "jsonl") {
-    return data.map(row => JSON.stringify(row)).join("\n");
+  const dataset: Dataset = await fs.readJson(metaPath);
+  const rows: Record<string, any>[] = [];
+  for await (const row of readDatasetRows(dataset.filePath)) {
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Read a saved pipeline
+ */
+async function readPipeline(pipelineId: string): Promise<DataPipeline> {
+  const pipelinePath = path.join(getPipelinesDir(), `${pipelineId}.json`);
+  if (!await fs.pathExists(pipelinePath)) {
+    throw new Error("Pipeline not found");
   }
+  return fs.readJson(pipelinePath);
+}
+
+/**
+ * Run a pipeline over its source datasets (or the given ones) and save each
+ * output as a new version with lineage back to the sources
+ */
+async function runDataPipeline(
+  pipeline: DataPipeline,
+  sourceDatasetIds: string[] = pipeline.sources
+): Promise<Dataset[]> {
+  if (sourceDatasetIds.length === 0) {
+    throw new Error("Pipeline has no source datasets");
+  }
+  
+  // Multiple sources are concatenated before the first step
+  const rows: Record<string, any>[] = [];
+  for (const sourceId of sourceDatasetIds) {
+    rows.push(...await loadDatasetRows(sourceId));
+  }
+  
+  const result = await runPipeline(rows, pipeline.transformations, {
+    loadDataset: loadDatasetRows,
+  });
+  
+  // Each run is the next version of the pipeline's output
+  const previous = (await listDatasets()).filter(d => d.lineage?.pipelineId === pipeline.id);
+  const version = previous.reduce((max, d) => Math.max(max, d.version), 0) + 1;
+  const runAt = new Date().toISOString();
+  
+  const datasets: Dataset[] = [];
+  for (const output of result.outputs) {
+    datasets.push(await createPipelineDataset(pipeline, output.rows, version, {
+      pipelineId: pipeline.id,
+      pipelineName: pipeline.name,
+      sourceDatasetIds,
+      joinedDatasetIds: result.joinedDatasetIds.length > 0 ? result.joinedDatasetIds : undefined,
+      split: output.split,
+      steps: result.steps,
+      runAt,
+    }));
+  }
+  
+  logger.info(`Pipeline ${pipeline.id} produced ${datasets.length} dataset(s) at version ${version}`);
+  return datasets;
+}
+
+/**
+ * Save pipeline output rows as a dataset
+ */
+async function createPipelineDataset(
+  pipeline: DataPipeline,
+  rows: Record<string, any>[],
+  version: number,
+  lineage: DatasetLineage
+): Promise<Dataset> {
+  const datasetId = generateId();
+  const datasetDir = getDatasetsDir();
+  const filePath = path.join(datasetDir, `${datasetId}.json`);
+  
+  // Pipelines can rename and cast fields, so infer the schema from every row
+  const columns = await inferColumns((async function* () { yield* rows; })());
+  const schema: DatasetField[] = columns.map(column => ({
+    name: column.name,
+    type: column.type,
+    nullable: true,
+    sampleValues: rows.slice(0, 5).map(r => r[column.name]),
+  }));
   
-  return JSON.stringify(data, null, 2);
+  await fs.writeJson(filePath, rows, { spaces: 2 });
+  const stats = await fs.stat(filePath);
+  
+  const baseName = pipeline.outputName || pipeline.name;
+  const dataset: Dataset = {
+    id: datasetId,
+    name: `${baseName} v${version}${lineage.split ? ` (${lineage.split})` : ""}`,
+    description: pipeline.description || `Output of pipeline ${pipeline.name}`,
+    sourceType: "generated",
+    schema,
+    stats: {
+      rowCount: rows.length,
+      columnCount: schema.length,
+      sizeBytes: stats.size,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    },
+    format: "json",
+    filePath,
+    version,
+    parentId: lineage.sourceDatasetIds[0],
+    lineage,
+    tags: lineage.split ? [lineage.split] : undefined,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+  
+  const metaPath = path.join(datasetDir, `${datasetId}.meta.json`);
+  await fs.writeJson(metaPath, dataset, { spaces: 2 });
+  
+  return dataset;
 }
 
 // Built-in scraping templates
@@ -630,6 +1039,36 @@ export function registerScraperHandlers() {
     return job;
   });
 
+  // Resume a cancelled crawl from its saved frontier
+  ipcMain.handle("scraper:job:resume", async (_, jobId: string): Promise<ScrapingJob> => {
+    if (activeJobs.has(jobId)) {
+      throw new Error("Job is already running");
+    }
+    
+    const jobPath = path.join(getJobsDir(), `${jobId}.json`);
+    if (!await fs.pathExists(jobPath)) {
+      throw new Error("Scraping job not found");
+    }
+    const job: ScrapingJob = await fs.readJson(jobPath);
+    if (!job.frontier || job.frontier.pending.length === 0) {
+      throw new Error("Job has no pages left to crawl");
+    }
+    
+    const configPath = path.join(getConfigsDir(), `${job.configId}.json`);
+    if (!await fs.pathExists(configPath)) {
+      throw new Error("Scraping config not found");
+    }
+    const config: ScrapingConfig = await fs.readJson(configPath);
+    
+    job.status = "pending";
+    runScrapingJob(job, config).catch(error => {
+      logger.error(`Job ${job.id} failed:`, error);
+      job.status = "failed";
+    });
+    
+    return job;
+  });
+
   // Get job status
   ipcMain.handle("scraper:job:status", async (_, jobId: string): Promise<ScrapingJob | null> => {
     // Check active jobs
@@ -687,23 +1126,7 @@ export function registerScraperHandlers() {
 
   // List datasets
   ipcMain.handle("scraper:dataset:list", async (): Promise<Dataset[]> => {
-    const datasetDir = getDatasetsDir();
-    await fs.ensureDir(datasetDir);
-    
-    const files = await fs.readdir(datasetDir);
-    const datasets: Dataset[] = [];
-    
-    for (const file of files) {
-      if (file.endsWith(".meta.json")) {
-        try {
-          const dataset = await fs.readJson(path.join(datasetDir, file));
-          datasets.push(dataset);
-        } catch (error) {
-          logger.warn(`Failed to read dataset ${file}:`, error);
-        }
-      }
-    }
-    
+    const datasets = await listDatasets();
     return datasets.sort((a, b) => 
       new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
     );
@@ -726,19 +1149,21 @@ export function registerScraperHandlers() {
     }
     
     const dataset: Dataset = await fs.readJson(metaPath);
-    const data: Record<string, any>[] = await fs.readJson(dataset.filePath);
-    
-    const rows = data.slice(0, limit);
+    const rows: Record<string, any>[] = [];
+    for await (const row of readDatasetRows(dataset.filePath)) {
+      if (rows.length >= limit) break;
+      rows.push(row);
+    }
     const columns = dataset.schema.map(f => f.name);
     
     return {
       columns,
       rows,
-      totalRows: data.length,
+      totalRows: dataset.stats.rowCount,
     };
   });
 
-  // Export dataset
+  // Export dataset, streaming rows from disk
   ipcMain.handle("scraper:dataset:export", async (_, datasetId: string, options: DatasetExportOptions): Promise<string> => {
     const metaPath = path.join(getDatasetsDir(), `${datasetId}.meta.json`);
     if (!await fs.pathExists(metaPath)) {
@@ -746,31 +1171,20 @@ export function registerScraperHandlers() {
     }
     
     const dataset: Dataset = await fs.readJson(metaPath);
-    let data: Record<string, any>[] = await fs.readJson(dataset.filePath);
-    
-    // Apply filters
-    if (options.columns) {
-      data = data.map(row => {
-        const filtered: Record<string, any> = {};
-        for (const col of options.columns!) {
-          if (col in row) filtered[col] = row[col];
-        }
-        return filtered;
-      });
+    const extension = DATASET_FORMAT_EXTENSIONS[options.format];
+    if (!extension) {
+      throw new Error(`Unsupported export format: ${options.format}`);
     }
+    const isText = ["json", "jsonl", "csv"].includes(options.format);
     
-    if (options.limit) {
-      data = data.slice(0, options.limit);
-    }
-    
-    // Convert format
-    const exported = await convertDataset(data, options.format as "csv" | "jsonl");
-    
-    // Save to temp file
     const tempDir = path.join(app.getPath("temp"), "joycreate-exports");
     await fs.ensureDir(tempDir);
-    const exportPath = path.join(tempDir, `${dataset.name.replace(/[^a-zA-Z0-9]/g, "-")}.${options.format}`);
-    await fs.writeFile(exportPath, exported, "utf-8");
+    const exportPath = path.join(
+      tempDir,
+      `${dataset.name.replace(/[^a-zA-Z0-9]/g, "-")}.${extension}${isText && options.compression === "gzip" ? ".gz" : ""}`
+    );
+    
+    await exportDatasetRows(() => readDatasetRows(dataset.filePath), exportPath, options, dataset);
     
     return exportPath;
   });
@@ -888,10 +1302,72 @@ export function registerScraperHandlers() {
     }) as any;
   });
 
-  // Quick scrape single URL
-  ipcMain.handle("scraper:quick-scrape", async (_, url: string, fields: ScrapingField[]): Promise<Record<string, any>> => {
+  // List pipelines
+  ipcMain.handle("scraper:pipeline:list", async (): Promise<DataPipeline[]> => {
+    const pipelineDir = getPipelinesDir();
+    await fs.ensureDir(pipelineDir);
+    
+    const files = await fs.readdir(pipelineDir);
+    const pipelines: DataPipeline[] = [];
+    
+    for (const file of files) {
+      if (file.endsWith(".json")) {
+        try {
+          pipelines.push(await fs.readJson(path.join(pipelineDir, file)));
+        } catch (error) {
+          logger.warn(`Failed to read pipeline ${file}:`, error);
+        }
+      }
+    }
+    
+    return pipelines.sort((a, b) => 
+      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+    );
+  });
+
+  // Create/save pipeline
+  ipcMain.handle("scraper:pipeline:save", async (_, pipeline: DataPipeline): Promise<DataPipeline> => {
+    validateTransformations(pipeline.transformations || []);
+    const pipelineDir = getPipelinesDir();
+    await fs.ensureDir(pipelineDir);
+    
+    if (!pipeline.id) {
+      pipeline.id = generateId();
+      pipeline.createdAt = new Date().toISOString();
+    }
+    pipeline.sources = pipeline.sources || [];
+    pipeline.transformations = pipeline.transformations || [];
+    pipeline.outputFormat = pipeline.outputFormat || "json";
+    pipeline.updatedAt = new Date().toISOString();
+    
+    await fs.writeJson(path.join(pipelineDir, `${pipeline.id}.json`), pipeline, { spaces: 2 });
+    
+    return pipeline;
+  });
+
+  // Delete pipeline
+  ipcMain.handle("scraper:pipeline:delete", async (_, pipelineId: string): Promise<void> => {
+    const filePath = path.join(getPipelinesDir(), `${pipelineId}.json`);
+    if (await fs.pathExists(filePath)) {
+      await fs.remove(filePath);
+    }
+  });
+
+  // Run pipeline, optionally over other source datasets
+  ipcMain.handle("scraper:pipeline:run", async (_, pipelineId: string, sourceDatasetIds?: string[]): Promise<Dataset[]> => {
+    const pipeline = await readPipeline(pipelineId);
+    return runDataPipeline(pipeline, sourceDatasetIds?.length ? sourceDatasetIds : pipeline.sources);
+  });
+
+  // Quick scrape single URL; AI fields use the caller's model settings
+  ipcMain.handle("scraper:quick-scrape", async (
+    _,
+    url: string,
+    fields: ScrapingField[],
+    aiExtraction?: ScrapingConfig["aiExtraction"]
+  ): Promise<Record<string, any>> => {
     const { html } = await fetchPage(url);
-    return extractFields(html, fields);
+    return extractPageData(html, url, fields, aiExtraction);
   });
 
   logger.info("Scraper IPC handlers registered");
@@ -17,6 +17,10 @@ import { getSupabaseContext } from "../../supabase_admin/supabase_context";
 import { TokenCountParams } from "../ipc_types";
 import { TokenCountResult } from "../ipc_types";
 import { estimateTokens, getContextWindow } from "../utils/token_utils";
+import {
+  formatSmartContextCodebase,
+  selectLocalSmartContext,
+} from "../utils/local_smart_context";
 import { createLoggedHandler } from "./safe_handle";
 import { validateChatContext } from "../utils/context_paths_utils";
 import { readSettings } from "@/main/settings";
@@ -107,6 +111,16 @@ export function registerTokenCountHandlers() {
               )
               .join("\n\n"),
           );
+        } else if (settings.enableLocalSmartContext) {
+          const { files: selectedFiles } = await selectLocalSmartContext({
+            files,
+            prompt: req.input,
+            settings,
+            useEmbeddings: false,
+          });
+          codebaseTokens = estimateTokens(
+            formatSmartContextCodebase(selectedFiles, files),
+          );
         } else {
           codebaseTokens = estimateTokens(codebaseInfo);
         }
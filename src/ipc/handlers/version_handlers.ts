@@ -4,8 +4,12 @@ import { desc, eq, and, gt, gte } from "drizzle-orm";
 import type {
   Version,
   BranchResult,
+  GetProposalDiffParams,
+  GetVersionDiffParams,
+  RevertFileParams,
   RevertVersionParams,
   RevertVersionResponse,
+  VersionDiffFile,
 } from "../ipc_types";
 import type { GitCommit } from "../git_types";
 import fs from "node:fs";
@@ -17,8 +21,11 @@ import { createLoggedHandler } from "./safe_handle";
 
 import { deployAllSupabaseFunctions } from "../../supabase_admin/supabase_utils";
 import {
+  getFileAtCommit,
+  gitAdd,
   gitCheckout,
   gitCommit,
+  gitRemove,
   gitStageToRevert,
   getCurrentCommitHash,
   gitCurrentBranch,
@@ -36,11 +43,37 @@ import {
 } from "../utils/app_env_var_utils";
 import { storeDbTimestampAtCurrentVersion } from "../utils/neon_timestamp_utils";
 import { retryOnLocked } from "../utils/retryOnLocked";
+import { isChatBranch } from "../../lib/chat_branches";
+import { getProposalDiff, getVersionDiff } from "../utils/version_diff_utils";
+import { safeJoin } from "../utils/path_utils";
 
 const logger = log.scope("version_handlers");
 
 const handle = createLoggedHandler(logger);
 
+/**
+ * Reverts are committed on the given branch, otherwise on the current chat
+ * branch when the chat runs on its own branch, otherwise on main.
+ */
+async function resolveRevertBranch(
+  appPath: string,
+  branch: string | undefined,
+): Promise<string> {
+  if (branch) return branch;
+  const currentBranch = await gitCurrentBranch({ path: appPath });
+  return isChatBranch(currentBranch) ? currentBranch! : "main";
+}
+
+async function getAppPath(appId: number): Promise<string> {
+  const app = await db.query.apps.findFirst({
+    where: eq(apps.id, appId),
+  });
+  if (!app) {
+    throw new Error("App not found");
+  }
+  return getDyadAppPath(app.path);
+}
+
 async function restoreBranchForPreview({
   appId,
   dbTimestamp,
@@ -157,7 +190,12 @@ export function registerVersionHandlers() {
     "revert-version",
     async (
       _,
-      { appId, previousVersionId, currentChatMessageId }: RevertVersionParams,
+      {
+        appId,
+        previousVersionId,
+        currentChatMessageId,
+        branch,
+      }: RevertVersionParams,
     ): Promise<RevertVersionResponse> => {
       return withLock(appId, async () => {
         let successMessage = "Restored version";
@@ -171,15 +209,16 @@ export function registerVersionHandlers() {
         }
 
         const appPath = getDyadAppPath(app.path);
+        const targetBranch = await resolveRevertBranch(appPath, branch);
         // Get the current commit hash before reverting
         const currentCommitHash = await getCurrentCommitHash({
           path: appPath,
-          ref: "main",
+          ref: targetBranch,
         });
 
         await gitCheckout({
           path: appPath,
-          ref: "main",
+          ref: targetBranch,
         });
 
         if (app.neonProjectId && app.neonDevelopmentBranchId) {
@@ -398,7 +437,7 @@ export function registerVersionHandlers() {
           app.neonDevelopmentBranchId &&
           app.neonPreviewBranchId
         ) {
-          if (gitRef === "main") {
+          if (gitRef === "main" || isChatBranch(gitRef)) {
             logger.info(
               `Switching Postgres to development branch for app ${appId}`,
             );
@@ -464,6 +503,82 @@ export function registerVersionHandlers() {
       });
     },
   );
+
+  handle(
+    "get-version-diff",
+    async (
+      _,
+      { appId, fromCommit, toCommit }: GetVersionDiffParams,
+    ): Promise<VersionDiffFile[]> => {
+      return getVersionDiff({
+        appPath: await getAppPath(appId),
+        fromCommit,
+        toCommit,
+      });
+    },
+  );
+
+  handle(
+    "get-proposal-diff",
+    async (
+      _,
+      { appId, chatId, messageId }: GetProposalDiffParams,
+    ): Promise<VersionDiffFile[]> => {
+      const message = await db.query.messages.findFirst({
+        where: and(eq(messages.id, messageId), eq(messages.chatId, chatId)),
+        columns: { content: true },
+      });
+      if (!message) {
+        throw new Error("Proposal message not found");
+      }
+      return getProposalDiff({
+        appPath: await getAppPath(appId),
+        messageContent: message.content,
+      });
+    },
+  );
+
+  handle(
+    "revert-file",
+    async (
+      _,
+      { appId, filePath, commitHash, branch }: RevertFileParams,
+    ): Promise<void> => {
+      return withLock(appId, async () => {
+        const appPath = await getAppPath(appId);
+        const targetBranch = await resolveRevertBranch(appPath, branch);
+        const oid = await getCurrentCommitHash({
+          path: appPath,
+          ref: commitHash,
+        });
+        const content = await getFileAtCommit({
+          path: appPath,
+          filePath,
+          commitHash: oid,
+        });
+
+        await gitCheckout({ path: appPath, ref: targetBranch });
+        const fullFilePath = safeJoin(appPath, filePath);
+        if (content === null) {
+          if (fs.existsSync(fullFilePath)) {
+            fs.unlinkSync(fullFilePath);
+            await gitRemove({ path: appPath, filepath: filePath });
+          }
+        } else {
+          fs.mkdirSync(path.dirname(fullFilePath), { recursive: true });
+          fs.writeFileSync(fullFilePath, content);
+          await gitAdd({ path: appPath, filepath: filePath });
+        }
+
+        if (!(await isGitStatusClean({ path: appPath }))) {
+          await gitCommit({
+            path: appPath,
+            message: `Reverted ${filePath} to version ${oid}`,
+          });
+        }
+      });
+    },
+  );
 }
 
 async function switchPostgresToDevelopmentBranch({
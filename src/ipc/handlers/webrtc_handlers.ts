@@ -179,7 +179,7 @@ async function saveCommunityIceServers(): Promise<void> {
   }
 }
 
-function getIceServers(): IceServer[] {
+export function getIceServers(): IceServer[] {
   // Prioritize community servers with good reputation
   const community = Array.from(communityIceServers.values())
     .filter(s => s.reputation > 50 && Date.now() - new Date(s.lastSeen).getTime() < 3600000)
@@ -470,7 +470,7 @@ async function sendSignalingMessage(message: SignalingMessage): Promise<void> {
 // Call Management (Voice/Video)
 // ============================================================================
 
-async function startCall(request: StartCallRequest): Promise<StartCallResult> {
+export async function startCall(request: StartCallRequest): Promise<StartCallResult> {
   if (!initialized || !localWalletAddress) {
     return { success: false, error: "WebRTC not initialized" };
   }
@@ -574,7 +574,7 @@ async function answerCall(request: AnswerCallRequest): Promise<boolean> {
   }
 }
 
-async function endCall(callId: string): Promise<void> {
+export async function endCall(callId: string): Promise<void> {
   const call = activeCalls.get(callId);
   if (!call) return;
   
@@ -10,6 +10,9 @@ import type {
   ServiceBridge,
   SyncState,
   SyncBatch,
+  SyncConflict,
+  SyncRecord,
+  ConflictChoice,
   HybridBridgeStatus,
   StartBridgeResult,
   StopBridgeResult,
@@ -207,6 +210,52 @@ class HybridBridgeClient {
     return this.ipcRenderer.invoke("hybrid-bridge:sync:clear-errors");
   }
 
+  /**
+   * List sync conflicts, including resolved ones
+   */
+  async listSyncConflicts(): Promise<SyncConflict[]> {
+    return this.ipcRenderer.invoke("hybrid-bridge:sync:conflicts");
+  }
+
+  /**
+   * Resolve a conflict that was left for manual resolution
+   */
+  async resolveSyncConflict(conflictId: string, choice: ConflictChoice): Promise<SyncConflict> {
+    return this.ipcRenderer.invoke("hybrid-bridge:sync:resolve", { conflictId, choice });
+  }
+
+  // ============================================================================
+  // Synced Data
+  // ============================================================================
+
+  /**
+   * Save a record; it syncs according to the sync mode
+   */
+  async putData(dataType: string, id: string, data: any): Promise<SyncRecord> {
+    return this.ipcRenderer.invoke("hybrid-bridge:data:put", { dataType, id, data });
+  }
+
+  /**
+   * Read a record (from the cloud first in cloud-first mode)
+   */
+  async getData(dataType: string, id: string): Promise<SyncRecord | null> {
+    return this.ipcRenderer.invoke("hybrid-bridge:data:get", { dataType, id });
+  }
+
+  /**
+   * Delete a record locally and in the cloud
+   */
+  async deleteData(dataType: string, id: string): Promise<{ success: boolean }> {
+    return this.ipcRenderer.invoke("hybrid-bridge:data:delete", { dataType, id });
+  }
+
+  /**
+   * List the local records of a data type
+   */
+  async listData(dataType: string): Promise<SyncRecord[]> {
+    return this.ipcRenderer.invoke("hybrid-bridge:data:list", dataType);
+  }
+
   // ============================================================================
   // Request Execution
   // ============================================================================
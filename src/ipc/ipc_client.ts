@@ -24,6 +24,14 @@ import type {
   TokenCountResult,
   ChatLogsData,
   BranchResult,
+  ChatBranchesResult,
+  GetProposalDiffParams,
+  GetVersionDiffParams,
+  RevertFileParams,
+  VersionDiffFile,
+  CheckoutChatBranchParams,
+  MergeChatBranchParams,
+  MergeChatBranchResult,
   LanguageModelProvider,
   LanguageModel,
   CreateCustomLanguageModelProviderParams,
@@ -642,12 +650,44 @@ export class IpcClient {
   }
 
   // Get the current branch of an app
+  public async getVersionDiff(
+    params: GetVersionDiffParams,
+  ): Promise<VersionDiffFile[]> {
+    return this.ipcRenderer.invoke("get-version-diff", params);
+  }
+
+  public async getProposalDiff(
+    params: GetProposalDiffParams,
+  ): Promise<VersionDiffFile[]> {
+    return this.ipcRenderer.invoke("get-proposal-diff", params);
+  }
+
+  public async revertFile(params: RevertFileParams): Promise<void> {
+    await this.ipcRenderer.invoke("revert-file", params);
+  }
+
   public async getCurrentBranch(appId: number): Promise<BranchResult> {
     return this.ipcRenderer.invoke("get-current-branch", {
       appId,
     });
   }
 
+  public async listChatBranches(appId: number): Promise<ChatBranchesResult> {
+    return this.ipcRenderer.invoke("chat-branch:list", { appId });
+  }
+
+  public async checkoutChatBranch(
+    params: CheckoutChatBranchParams,
+  ): Promise<void> {
+    await this.ipcRenderer.invoke("chat-branch:checkout", params);
+  }
+
+  public async mergeChatBranch(
+    params: MergeChatBranchParams,
+  ): Promise<MergeChatBranchResult> {
+    return this.ipcRenderer.invoke("chat-branch:merge", params);
+  }
+
   // Get user settings
   public async getUserSettings(): Promise<UserSettings> {
     try {
@@ -1549,11 +1589,14 @@ export class IpcClient {
     ensName?: string;
     customDomain?: string;
     metadata?: Record<string, unknown>;
+    federationAnnounce?: { privateKey: string };
   }): Promise<{
     success: boolean;
     platform: string;
     deploymentId: string;
     cid?: string;
+    localCid?: string;
+    cidVerified?: boolean;
     txId?: string;
     url: string;
     gatewayUrls: string[];
@@ -1633,6 +1676,10 @@ export class IpcClient {
     return this.ipcRenderer.invoke("decentralized:get-platforms");
   }
 
+  public async getLocalIpfsPreviewUrl(cid: string): Promise<string> {
+    return this.ipcRenderer.invoke("decentralized:local-preview-url", cid);
+  }
+
   // Project Methods
   public async createProject(
     params: import("../types/project_types").CreateProjectParams
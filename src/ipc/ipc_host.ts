@@ -16,6 +16,7 @@ import { registerTokenCountHandlers } from "./handlers/token_count_handlers";
 import { registerWindowHandlers } from "./handlers/window_handlers";
 import { registerUploadHandlers } from "./handlers/upload_handlers";
 import { registerVersionHandlers } from "./handlers/version_handlers";
+import { registerChatBranchHandlers } from "./handlers/chat_branch_handlers";
 import { registerLanguageModelHandlers } from "./handlers/language_model_handlers";
 import { registerReleaseNoteHandlers } from "./handlers/release_note_handlers";
 import { registerImportHandlers } from "./handlers/import_handlers";
@@ -51,6 +52,9 @@ import { registerDecentralizedDeployHandlers } from "./handlers/decentralized_de
 import { registerProjectHandlers } from "./handlers/project_handlers";
 import { registerHybridBridgeHandlers } from "./handlers/hybrid_bridge_handlers";
 import { registerDecentralizedChatHandlers } from "./handlers/decentralized_chat_handlers";
+import { registerDecentralizedChatGroupHandlers } from "./handlers/decentralized_chat_group_handlers";
+import { registerDecentralizedChatMeetingHandlers } from "./handlers/decentralized_chat_meeting_handlers";
+import { registerDecentralizedChatAppointmentHandlers } from "./handlers/decentralized_chat_appointment_handlers";
 import { registerComputeNetworkHandlers } from "./handlers/compute_network_handlers";
 import { registerWebRTCHandlers } from "./handlers/webrtc_handlers";
 
@@ -75,6 +79,7 @@ export function registerIpcHandlers() {
   registerWindowHandlers();
   registerUploadHandlers();
   registerVersionHandlers();
+  registerChatBranchHandlers();
   registerLanguageModelHandlers();
   registerReleaseNoteHandlers();
   registerImportHandlers();
@@ -109,6 +114,9 @@ export function registerIpcHandlers() {
   registerProjectHandlers();
   registerHybridBridgeHandlers();
   registerDecentralizedChatHandlers();
+  registerDecentralizedChatGroupHandlers();
+  registerDecentralizedChatMeetingHandlers();
+  registerDecentralizedChatAppointmentHandlers();
   registerComputeNetworkHandlers();
   registerWebRTCHandlers();
 }
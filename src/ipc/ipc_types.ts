@@ -1,5 +1,6 @@
 import { z } from "zod";
 import type { ProblemReport, Problem } from "../../shared/tsc_types";
+import type { DiffHunk } from "../lib/line_diff";
 export type { ProblemReport, Problem };
 
 export interface AppOutput {
@@ -132,6 +133,76 @@ export interface Version {
 
 export type BranchResult = { branch: string };
 
+export interface ChatBranch {
+  name: string;
+  chatId: number;
+  chatTitle: string | null;
+  isCurrent: boolean;
+  // True when the branch has no commits that aren't on main yet
+  merged: boolean;
+}
+
+export interface ChatBranchesResult {
+  currentBranch: string | null;
+  branches: ChatBranch[];
+}
+
+export interface CheckoutChatBranchParams {
+  appId: number;
+  branch: string;
+}
+
+export interface MergeChatBranchParams {
+  appId: number;
+  chatId: number;
+}
+
+export interface MergeConflictFile {
+  path: string;
+  // null when the file doesn't exist on that side
+  base: string | null;
+  main: string | null;
+  branch: string | null;
+}
+
+export interface VersionDiffFile {
+  path: string;
+  status: "added" | "modified" | "deleted";
+  // null on the side where the file doesn't exist, or for binary files
+  oldContent: string | null;
+  newContent: string | null;
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+export interface GetVersionDiffParams {
+  appId: number;
+  fromCommit: string;
+  toCommit: string;
+}
+
+export interface GetProposalDiffParams {
+  appId: number;
+  chatId: number;
+  messageId: number;
+}
+
+export interface RevertFileParams {
+  appId: number;
+  filePath: string;
+  // Version to restore the file from; the file is deleted if it didn't exist
+  commitHash: string;
+  branch?: string;
+}
+
+export interface MergeChatBranchResult {
+  status: "up-to-date" | "fast-forward" | "merged" | "conflicts";
+  commitHash?: string;
+  conflicts: MergeConflictFile[];
+}
+
 export interface SandboxConfig {
   files: Record<string, string>;
   dependencies: Record<string, string>;
@@ -445,6 +516,8 @@ export interface GetNeonProjectResponse {
 export interface RevertVersionParams {
   appId: number;
   previousVersionId: string;
+  // Branch to commit the revert on, defaults to the current chat branch or main
+  branch?: string;
   currentChatMessageId?: {
     chatId: number;
     messageId: number;
@@ -651,11 +724,14 @@ export interface AgentTool {
   description: string;
   isAllowedByDefault: boolean;
   consent: AgentToolConsent;
+  // Inputs that run without asking, for tools whose consent is scoped
+  allowedScopes?: string[];
 }
 
 export interface SetAgentToolConsentParams {
   toolName: string;
   consent: AgentToolConsent;
+  scope?: string;
 }
 
 export interface AgentToolConsentRequestPayload {
@@ -664,6 +740,7 @@ export interface AgentToolConsentRequestPayload {
   toolName: string;
   toolDescription?: string | null;
   inputPreview?: string | null;
+  consentScope?: string | null;
 }
 
 export type AgentToolConsentDecision =
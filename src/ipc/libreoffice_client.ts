@@ -18,6 +18,9 @@ import type {
   DocumentContent,
   SpreadsheetContent,
   PresentationContent,
+  DocumentContentResult,
+  GenerationProgressEvent,
+  ReviseDocumentRequest,
 } from "@/types/libreoffice_types";
 
 class LibreOfficeClient {
@@ -189,6 +192,22 @@ class LibreOfficeClient {
     });
   }
 
+  async getDocumentContent(id: number): Promise<DocumentContentResult | null> {
+    return this.ipcRenderer.invoke("libreoffice:content", id);
+  }
+
+  async reviseDocument(request: ReviseDocumentRequest): Promise<DocumentOperationResult> {
+    return this.ipcRenderer.invoke("libreoffice:revise", request);
+  }
+
+  onGenerationProgress(callback: (event: GenerationProgressEvent) => void): () => void {
+    const listener = (data: any) => {
+      callback(data as GenerationProgressEvent);
+    };
+    // The preload bridge wraps listeners and returns its own unsubscribe
+    return this.ipcRenderer.on("libreoffice:generation:progress", listener) as unknown as () => void;
+  }
+
   async generateReport(
     name: string,
     prompt: string,
@@ -28,6 +28,7 @@ import {
   getGitUncommittedFiles,
 } from "../utils/git_utils";
 import { readSettings } from "@/main/settings";
+import { withChatBranch } from "../utils/chat_branch_utils";
 import { writeMigrationFile } from "../utils/file_utils";
 import {
   getDyadWriteTags,
@@ -94,22 +95,53 @@ export async function dryRunSearchReplace({
   return issues;
 }
 
-export async function processFullResponseActions(
-  fullResponse: string,
-  chatId: number,
-  {
-    chatSummary,
-    messageId,
-  }: {
-    chatSummary: string | undefined;
-    messageId: number;
-  },
-): Promise<{
+interface ProcessResponseOptions {
+  chatSummary: string | undefined;
+  messageId: number;
+}
+
+interface ProcessResponseResult {
   updatedFiles?: boolean;
   error?: string;
   extraFiles?: string[];
   extraFilesError?: string;
-}> {
+}
+
+export async function processFullResponseActions(
+  fullResponse: string,
+  chatId: number,
+  options: ProcessResponseOptions,
+): Promise<ProcessResponseResult> {
+  if (!readSettings().enableChatBranches) {
+    return applyResponseActions(fullResponse, chatId, options);
+  }
+
+  // Another chat may have checked out its own branch since this response
+  // started streaming, so commit only once this chat's branch is checked out
+  // again, and hold the app lock until the commit is done
+  const chat = await db.query.chats.findFirst({
+    where: eq(chats.id, chatId),
+    with: { app: true },
+  });
+  if (!chat?.app) {
+    return applyResponseActions(fullResponse, chatId, options);
+  }
+  return withChatBranch(
+    {
+      appId: chat.app.id,
+      appPath: getDyadAppPath(chat.app.path),
+      chatId,
+      initialCommitHash: chat.initialCommitHash,
+    },
+    () => applyResponseActions(fullResponse, chatId, options),
+  );
+}
+
+async function applyResponseActions(
+  fullResponse: string,
+  chatId: number,
+  { chatSummary, messageId }: ProcessResponseOptions,
+): Promise<ProcessResponseResult> {
   const fileUploadsState = FileUploadsState.getInstance();
   const fileUploadsMap = fileUploadsState.getFileUploadsForChat(chatId);
   fileUploadsState.clear(chatId);
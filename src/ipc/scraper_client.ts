@@ -13,6 +13,7 @@ import type {
   DatasetExportOptions,
   ScrapingTemplate,
   ScrapingField,
+  DataPipeline,
 } from "@/types/scraper_types";
 
 let ipcRenderer: IpcRenderer | null = null;
@@ -111,6 +112,13 @@ export class ScraperClient {
     return getIpcRenderer().invoke("scraper:job:cancel", jobId);
   }
 
+  /**
+   * Resume a cancelled crawl from where it stopped
+   */
+  async resumeJob(jobId: string): Promise<ScrapingJob> {
+    return getIpcRenderer().invoke("scraper:job:resume", jobId);
+  }
+
   // ============= Datasets =============
 
   /**
@@ -167,13 +175,48 @@ export class ScraperClient {
     return getIpcRenderer().invoke("scraper:dataset:import", filePath);
   }
 
+  // ============= Pipelines =============
+
+  /**
+   * List all data pipelines
+   */
+  async listPipelines(): Promise<DataPipeline[]> {
+    return getIpcRenderer().invoke("scraper:pipeline:list");
+  }
+
+  /**
+   * Save a data pipeline
+   */
+  async savePipeline(pipeline: Partial<DataPipeline>): Promise<DataPipeline> {
+    return getIpcRenderer().invoke("scraper:pipeline:save", pipeline);
+  }
+
+  /**
+   * Delete a data pipeline
+   */
+  async deletePipeline(pipelineId: string): Promise<void> {
+    return getIpcRenderer().invoke("scraper:pipeline:delete", pipelineId);
+  }
+
+  /**
+   * Run a pipeline over its sources, or over the given datasets instead
+   */
+  async runPipeline(pipelineId: string, sourceDatasetIds?: string[]): Promise<Dataset[]> {
+    return getIpcRenderer().invoke("scraper:pipeline:run", pipelineId, sourceDatasetIds);
+  }
+
   // ============= Quick Scrape =============
 
   /**
-   * Quick scrape a single URL
+   * Quick scrape a single URL. `aiExtraction` picks the model (and its
+   * limits) for AI fields.
    */
-  async quickScrape(url: string, fields: ScrapingField[]): Promise<Record<string, any>> {
-    return getIpcRenderer().invoke("scraper:quick-scrape", url, fields);
+  async quickScrape(
+    url: string,
+    fields: ScrapingField[],
+    aiExtraction?: ScrapingConfig["aiExtraction"]
+  ): Promise<Record<string, any>> {
+    return getIpcRenderer().invoke("scraper:quick-scrape", url, fields, aiExtraction);
   }
 }
 
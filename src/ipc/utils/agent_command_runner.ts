@@ -0,0 +1,160 @@
+import { spawn } from "node:child_process";
+import treeKill from "tree-kill";
+import log from "electron-log";
+
+const logger = log.scope("agent_command_runner");
+
+export const DEFAULT_COMMAND_TIMEOUT_MS = 120_000;
+export const MAX_COMMAND_TIMEOUT_MS = 600_000;
+export const DEFAULT_MAX_OUTPUT_CHARS = 20_000;
+
+export interface AgentCommandOptions {
+  command: string;
+  cwd: string;
+  timeoutMs?: number;
+  // Applies to stdout and stderr separately
+  maxOutputChars?: number;
+  env?: Record<string, string>;
+}
+
+export interface AgentCommandResult {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  truncated: boolean;
+  durationMs: number;
+}
+
+/**
+ * Collapse whitespace so the same command always maps to the same consent
+ * entry, however the model happened to space it.
+ */
+export function normalizeCommand(command: string): string {
+  return command.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Keeps the first and last part of a stream and drops the middle, so a
+ * long build log still shows how it started and how it ended without
+ * holding the whole thing in memory.
+ */
+export class OutputBuffer {
+  private head = "";
+  private tail = "";
+  private dropped = 0;
+
+  constructor(private readonly maxChars: number) {}
+
+  append(chunk: string) {
+    const headRoom = Math.floor(this.maxChars / 2) - this.head.length;
+    if (headRoom > 0) {
+      this.head += chunk.slice(0, headRoom);
+      chunk = chunk.slice(headRoom);
+    }
+    if (!chunk) return;
+
+    this.tail += chunk;
+    const tailLimit = this.maxChars - Math.floor(this.maxChars / 2);
+    if (this.tail.length > tailLimit) {
+      this.dropped += this.tail.length - tailLimit;
+      this.tail = this.tail.slice(this.tail.length - tailLimit);
+    }
+  }
+
+  get truncated(): boolean {
+    return this.dropped > 0;
+  }
+
+  toString(): string {
+    if (!this.truncated) return this.head + this.tail;
+    return `${this.head}\n\n... [${this.dropped} characters truncated] ...\n\n${this.tail}`;
+  }
+}
+
+/**
+ * Run a shell command in the app directory on behalf of the agent.
+ * Never rejects for a failing command: the exit code and output are the
+ * result. The whole process tree is killed once the timeout passes.
+ */
+export function runAgentCommand(
+  options: AgentCommandOptions,
+): Promise<AgentCommandResult> {
+  const timeoutMs = Math.min(
+    options.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS,
+    MAX_COMMAND_TIMEOUT_MS,
+  );
+  const maxOutputChars = options.maxOutputChars ?? DEFAULT_MAX_OUTPUT_CHARS;
+  const stdout = new OutputBuffer(maxOutputChars);
+  const stderr = new OutputBuffer(maxOutputChars);
+  const startedAt = Date.now();
+
+  logger.log(`Running agent command in ${options.cwd}: ${options.command}`);
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(options.command, {
+      cwd: options.cwd,
+      shell: true,
+      stdio: ["ignore", "pipe", "pipe"],
+      env: {
+        ...process.env,
+        // Keep tools non-interactive and their output free of ANSI codes
+        CI: "1",
+        FORCE_COLOR: "0",
+        NO_COLOR: "1",
+        ...options.env,
+      },
+    });
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      logger.warn(
+        `Agent command timed out after ${timeoutMs}ms: ${options.command}`,
+      );
+      if (child.pid) {
+        treeKill(child.pid, "SIGKILL");
+      }
+    }, timeoutMs);
+
+    child.stdout?.on("data", (data) => stdout.append(data.toString()));
+    child.stderr?.on("data", (data) => stderr.append(data.toString()));
+
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(new Error(`Failed to run "${options.command}": ${error.message}`));
+    });
+
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      resolve({
+        exitCode: code,
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
+        timedOut,
+        truncated: stdout.truncated || stderr.truncated,
+        durationMs: Date.now() - startedAt,
+      });
+    });
+  });
+}
+
+export function formatAgentCommandResult(
+  command: string,
+  result: AgentCommandResult,
+): string {
+  const status = result.timedOut
+    ? `timed out after ${Math.round(result.durationMs / 1000)}s and was killed`
+    : `exited with code ${result.exitCode}`;
+  const out = [`$ ${command}`, `Command ${status}.`];
+  if (result.stdout.trim()) {
+    out.push("", "STDOUT:", result.stdout.trimEnd());
+  }
+  if (result.stderr.trim()) {
+    out.push("", "STDERR:", result.stderr.trimEnd());
+  }
+  if (!result.stdout.trim() && !result.stderr.trim()) {
+    out.push("(no output)");
+  }
+  return out.join("\n");
+}
@@ -0,0 +1,262 @@
+import { ChildProcess, spawn } from "node:child_process";
+import log from "electron-log";
+import { killProcess } from "./process_manager";
+import { findAvailablePort } from "./port_utils";
+import { simpleSpawn } from "./simpleSpawn";
+
+const logger = log.scope("agent_deployment");
+
+const AGENT_PORT_RANGE: [number, number] = [32100, 32999];
+const CONTAINER_PORT = 3000;
+const HEALTH_TIMEOUT_MS = 60_000;
+const HEALTH_POLL_MS = 500;
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export interface RunningAgentDeployment {
+  deploymentId: number;
+  target: "local" | "docker";
+  endpoint: string;
+  process?: ChildProcess;
+  containerName?: string;
+}
+
+// Deployments started by this app instance
+export const runningAgentDeployments = new Map<
+  number,
+  RunningAgentDeployment
+>();
+
+export function getAgentContainerName(deploymentId: number): string {
+  return `joycreate-agent-${deploymentId}`;
+}
+
+export function getAgentImageName(agentId: number): string {
+  return `joycreate-agent-${agentId}`;
+}
+
+/**
+ * Installs dependencies and compiles an exported agent bundle in place.
+ */
+export async function buildAgentBundle(
+  bundleDir: string,
+  env: Record<string, string>,
+): Promise<void> {
+  const processEnv = { ...(process.env as Record<string, string>), ...env };
+  await simpleSpawn({
+    command: "npm install",
+    cwd: bundleDir,
+    successMessage: "Agent dependencies installed",
+    errorPrefix: "Failed to install agent dependencies",
+    env: processEnv,
+  });
+  await simpleSpawn({
+    command: "npm run build",
+    cwd: bundleDir,
+    successMessage: "Agent built",
+    errorPrefix: "Failed to build agent",
+    env: processEnv,
+  });
+}
+
+/**
+ * Runs a built agent bundle as a managed Node process on a free local port.
+ * `onExit` fires if the process dies without `stopAgentDeployment`.
+ */
+export async function startLocalAgent({
+  deploymentId,
+  bundleDir,
+  env,
+  onExit,
+}: {
+  deploymentId: number;
+  bundleDir: string;
+  env: Record<string, string>;
+  onExit: (code: number | null) => void;
+}): Promise<RunningAgentDeployment> {
+  const port = await findAvailablePort(...AGENT_PORT_RANGE);
+  const endpoint = `http://127.0.0.1:${port}`;
+
+  const child = spawn(process.execPath, ["dist/server.js"], {
+    cwd: bundleDir,
+    stdio: "pipe",
+    env: {
+      ...process.env,
+      ...env,
+      // Run Electron's bundled Node as plain Node
+      ELECTRON_RUN_AS_NODE: "1",
+      PORT: String(port),
+      HOST: "127.0.0.1",
+    },
+  });
+
+  child.stdout?.on("data", (data) =>
+    logger.info(`[agent ${deploymentId}] ${data.toString().trim()}`),
+  );
+  child.stderr?.on("data", (data) =>
+    logger.warn(`[agent ${deploymentId}] ${data.toString().trim()}`),
+  );
+
+  const deployment: RunningAgentDeployment = {
+    deploymentId,
+    target: "local",
+    endpoint,
+    process: child,
+  };
+  runningAgentDeployments.set(deploymentId, deployment);
+
+  child.on("exit", (code) => {
+    // Only report exits we didn't ask for
+    if (runningAgentDeployments.get(deploymentId) === deployment) {
+      runningAgentDeployments.delete(deploymentId);
+      onExit(code);
+    }
+  });
+
+  try {
+    await waitForAgentHealth(endpoint, () => child.exitCode !== null);
+  } catch (error) {
+    await stopAgentDeployment(deploymentId);
+    throw error;
+  }
+  return deployment;
+}
+
+/**
+ * Builds a Docker image from an exported agent bundle and runs it as a
+ * detached container, replacing any previous container for the deployment.
+ */
+export async function startDockerAgent({
+  deploymentId,
+  agentId,
+  bundleDir,
+  env,
+  ports,
+}: {
+  deploymentId: number;
+  agentId: number;
+  bundleDir: string;
+  env: Record<string, string>;
+  ports?: number[];
+}): Promise<RunningAgentDeployment> {
+  const image = getAgentImageName(agentId);
+  const containerName = getAgentContainerName(deploymentId);
+  const hostPort = ports?.[0] ?? (await findAvailablePort(...AGENT_PORT_RANGE));
+  const endpoint = `http://127.0.0.1:${hostPort}`;
+
+  // Both end up in a shell command line
+  if (!Number.isInteger(hostPort) || hostPort < 1 || hostPort > 65535) {
+    throw new Error(`Invalid host port: ${hostPort}`);
+  }
+  const invalidNames = Object.keys(env).filter(
+    (key) => !ENV_NAME_PATTERN.test(key),
+  );
+  if (invalidNames.length > 0) {
+    throw new Error(
+      `Invalid environment variable name(s): ${invalidNames.join(", ")}`,
+    );
+  }
+
+  await simpleSpawn({
+    command: `docker build -t ${image} .`,
+    cwd: bundleDir,
+    successMessage: `Built image ${image}`,
+    errorPrefix: "Failed to build agent image",
+  });
+
+  await removeContainer(containerName);
+
+  const envArgs = Object.keys(env)
+    .map((key) => `-e ${key}`)
+    .join(" ");
+  await simpleSpawn({
+    // Published on loopback only, like local deployments
+    command: `docker run -d --name ${containerName} -p 127.0.0.1:${hostPort}:${CONTAINER_PORT} ${envArgs} ${image}`,
+    cwd: bundleDir,
+    successMessage: `Started container ${containerName}`,
+    errorPrefix: "Failed to start agent container",
+    // Values are passed through the environment so they never hit the command line
+    env: { ...(process.env as Record<string, string>), ...env },
+  });
+
+  const deployment: RunningAgentDeployment = {
+    deploymentId,
+    target: "docker",
+    endpoint,
+    containerName,
+  };
+  runningAgentDeployments.set(deploymentId, deployment);
+
+  try {
+    await waitForAgentHealth(endpoint);
+  } catch (error) {
+    await stopAgentDeployment(deploymentId, "docker");
+    throw error;
+  }
+  return deployment;
+}
+
+/**
+ * Stops a deployment's process or container. Containers are looked up by
+ * name so deployments started before an app restart can still be removed.
+ */
+export async function stopAgentDeployment(
+  deploymentId: number,
+  target?: string,
+): Promise<void> {
+  const running = runningAgentDeployments.get(deploymentId);
+  runningAgentDeployments.delete(deploymentId);
+
+  if (running?.process) {
+    await killProcess(running.process);
+    return;
+  }
+
+  if (running?.target === "docker" || target === "docker") {
+    await removeContainer(
+      running?.containerName ?? getAgentContainerName(deploymentId),
+    );
+  }
+}
+
+async function waitForAgentHealth(
+  endpoint: string,
+  hasExited: () => boolean = () => false,
+): Promise<void> {
+  const deadline = Date.now() + HEALTH_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (hasExited()) {
+      throw new Error("Agent process exited before becoming healthy");
+    }
+    try {
+      const response = await fetch(`${endpoint}/health`);
+      if (response.ok) return;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, HEALTH_POLL_MS));
+  }
+  throw new Error(
+    `Agent did not become healthy within ${HEALTH_TIMEOUT_MS / 1000}s`,
+  );
+}
+
+function removeContainer(containerName: string): Promise<void> {
+  return new Promise<void>((resolve) => {
+    const rm = spawn("docker", ["rm", "-f", containerName], { stdio: "pipe" });
+    rm.on("close", () => resolve());
+    rm.on("error", () => resolve());
+  });
+}
+
+/**
+ * Kills local agent processes on app shutdown. Docker containers are left
+ * running on purpose; they outlive the app like any other container.
+ */
+export function stopLocalAgentDeployments(): void {
+  for (const [deploymentId, running] of runningAgentDeployments) {
+    if (running.process) {
+      runningAgentDeployments.delete(deploymentId);
+      running.process.kill();
+    }
+  }
+}
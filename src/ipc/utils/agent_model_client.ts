@@ -0,0 +1,60 @@
+import log from "electron-log";
+import type { LargeLanguageModel } from "@/lib/schemas";
+import { readSettings } from "../../main/settings";
+import { getLanguageModelsByProviders } from "../shared/language_model_helpers";
+import { getModelClient, type ModelClient } from "./get_model_client";
+
+const logger = log.scope("agent_model_client");
+
+/**
+ * Resolves an agent's `modelId` to a concrete provider/model pair.
+ *
+ * Agents store a bare model id (e.g. "gpt-4o") or a provider-qualified one
+ * (e.g. "ollama:llama3.1"). Bare ids are matched against the known cloud
+ * models; if nothing matches we fall back to the user's selected model.
+ */
+export async function resolveAgentModel(
+  modelId: string | undefined | null,
+): Promise<LargeLanguageModel> {
+  const settings = readSettings();
+  if (!modelId) {
+    return settings.selectedModel;
+  }
+
+  const separatorIndex = modelId.indexOf(":");
+  if (separatorIndex > 0) {
+    return {
+      provider: modelId.slice(0, separatorIndex),
+      name: modelId.slice(separatorIndex + 1),
+    };
+  }
+
+  const modelsByProvider = await getLanguageModelsByProviders();
+  for (const [provider, models] of Object.entries(modelsByProvider)) {
+    const match = models.find((m) => m.apiName === modelId);
+    if (match) {
+      return {
+        provider,
+        name: match.apiName,
+        customModelId: match.type === "custom" ? match.id : undefined,
+      };
+    }
+  }
+
+  logger.warn(
+    `Unknown agent model "${modelId}", falling back to the selected model`,
+  );
+  return settings.selectedModel;
+}
+
+/**
+ * Returns a model client for an agent's `modelId`, using the same provider
+ * pipeline as the chat.
+ */
+export async function getAgentModelClient(
+  modelId: string | undefined | null,
+): Promise<{ modelClient: ModelClient; model: LargeLanguageModel }> {
+  const model = await resolveAgentModel(modelId);
+  const { modelClient } = await getModelClient(model, readSettings());
+  return { modelClient, model };
+}
@@ -0,0 +1,276 @@
+import { Worker } from "node:worker_threads";
+import log from "electron-log";
+import type {
+  ToolExecutionResult,
+  ToolSandboxPermissions,
+} from "@/types/agent_builder";
+
+const logger = log.scope("agent_tool_sandbox");
+
+export const DEFAULT_SANDBOX_TIMEOUT_MS = 10_000;
+export const DEFAULT_SANDBOX_MEMORY_MB = 64;
+
+export interface SandboxOptions {
+  source: string;
+  // Globals available to the code; must be JSON-serializable
+  scope: Record<string, unknown>;
+  permissions?: ToolSandboxPermissions | null;
+  timeoutMs?: number;
+  memoryLimitMb?: number;
+}
+
+interface SandboxWorkerMessage {
+  success: boolean;
+  outputJson?: string;
+  error?: string;
+  logs: string[];
+}
+
+/**
+ * Source of the sandbox worker. It is evaluated as a CommonJS worker so it
+ * needs no separate build entry.
+ *
+ * User code runs in a fresh V8 context with no `require`, `process` or host
+ * objects. Console, `fetch` and the optional `fs` API are bridged through a
+ * single host callback captured in a closure, and every value crossing the
+ * bridge is a JSON string, so no host-realm object (and thus no host
+ * `Function` constructor) is ever reachable from the code.
+ */
+const SANDBOX_WORKER_SOURCE = String.raw`
+const { parentPort, workerData } = require("node:worker_threads");
+const vm = require("node:vm");
+const fs = require("node:fs/promises");
+const path = require("node:path");
+
+const { source, scopeJson, timeoutMs, permissions } = workerData;
+const MAX_LOGS = 200;
+const logs = [];
+
+async function resolveGrantedPath(target, write) {
+  const grant = permissions.filesystem;
+  if (!grant || !grant.paths || grant.paths.length === 0) {
+    throw new Error("Filesystem access is not granted to this code");
+  }
+  if (write && !grant.write) {
+    throw new Error("Write access is not granted to this code");
+  }
+  const resolved = path.resolve(String(target));
+  const parent = await fs.realpath(path.dirname(resolved)).catch(() => path.dirname(resolved));
+  const real = await fs.realpath(resolved).catch(() => path.join(parent, path.basename(resolved)));
+  for (const root of grant.paths) {
+    const realRoot = await fs.realpath(root).catch(() => path.resolve(root));
+    const relative = path.relative(realRoot, real);
+    if (relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative))) {
+      return real;
+    }
+  }
+  throw new Error("Access denied: " + resolved + " is outside the granted paths");
+}
+
+const operations = {
+  log: async (args) => {
+    if (logs.length < MAX_LOGS) logs.push(args.join(" "));
+  },
+  readFile: async ([target]) => fs.readFile(await resolveGrantedPath(target, false), "utf8"),
+  writeFile: async ([target, data]) => {
+    await fs.writeFile(await resolveGrantedPath(target, true), String(data));
+  },
+  readdir: async ([target]) => fs.readdir(await resolveGrantedPath(target, false)),
+  fetch: async ([url, init]) => {
+    if (permissions.network !== true) {
+      throw new Error("Network access is not granted to this code");
+    }
+    const response = await fetch(url, init);
+    return {
+      status: response.status,
+      ok: response.ok,
+      headers: Object.fromEntries(response.headers),
+      body: await response.text(),
+    };
+  },
+};
+
+function call(operation, argsJson, resolve, reject) {
+  const handler = operations[operation];
+  if (!handler) {
+    reject("Unknown operation: " + operation);
+    return;
+  }
+  Promise.resolve()
+    .then(() => handler(JSON.parse(argsJson)))
+    .then(
+      (result) => resolve(result === undefined ? undefined : JSON.stringify(result)),
+      (error) => reject(String((error && error.message) || error)),
+    );
+}
+
+const context = vm.createContext(Object.create(null), {
+  codeGeneration: { strings: false, wasm: false },
+});
+const install = vm.runInContext(
+  "(" +
+    function (call, scopeJson) {
+      "use strict";
+      const invoke = (operation, args) =>
+        new Promise((resolve, reject) =>
+          call(
+            operation,
+            JSON.stringify(args),
+            (result) => resolve(result === undefined ? undefined : JSON.parse(result)),
+            (message) => reject(new Error(message)),
+          ),
+        );
+      const format = (value) => {
+        if (typeof value === "string") return value;
+        try {
+          return JSON.stringify(value);
+        } catch {
+          return String(value);
+        }
+      };
+      const logLine = (...args) => {
+        invoke("log", args.map(format));
+      };
+      globalThis.console = { log: logLine, info: logLine, warn: logLine, error: logLine, debug: logLine };
+      globalThis.fs = {
+        readFile: (target) => invoke("readFile", [target]),
+        writeFile: (target, data) => invoke("writeFile", [target, data]),
+        readdir: (target) => invoke("readdir", [target]),
+      };
+      globalThis.fetch = async (url, init) => {
+        const response = await invoke("fetch", [
+          String(url),
+          init && { method: init.method, headers: init.headers, body: init.body },
+        ]);
+        return {
+          status: response.status,
+          ok: response.ok,
+          headers: response.headers,
+          text: async () => response.body,
+          json: async () => JSON.parse(response.body),
+        };
+      };
+      Object.assign(globalThis, JSON.parse(scopeJson));
+      return (value) => (value === undefined ? undefined : JSON.stringify(value));
+    } +
+    ")",
+  context,
+);
+const serialize = install(call, scopeJson);
+
+(async () => {
+  try {
+    const script = new vm.Script("(async () => {\n" + source + "\n})()", {
+      filename: "sandbox.js",
+    });
+    const result = await script.runInContext(context, { timeout: timeoutMs });
+    parentPort.postMessage({ success: true, outputJson: serialize(result), logs });
+  } catch (error) {
+    parentPort.postMessage({
+      success: false,
+      error: String((error && error.message) || error),
+      logs,
+    });
+  }
+})();
+`;
+
+/**
+ * Runs untrusted JavaScript (agent tool implementations and workflow
+ * code/transform nodes) in a worker thread with a heap limit and a
+ * wall-clock timeout. The code is the body of an async function; its
+ * return value is the output.
+ */
+export function runInSandbox(
+  options: SandboxOptions,
+): Promise<ToolExecutionResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_SANDBOX_TIMEOUT_MS;
+  const memoryLimitMb = options.memoryLimitMb ?? DEFAULT_SANDBOX_MEMORY_MB;
+  const startedAt = performance.now();
+  const elapsed = () => Math.round(performance.now() - startedAt);
+
+  let scopeJson: string;
+  try {
+    scopeJson = JSON.stringify(options.scope);
+  } catch (error) {
+    return Promise.resolve({
+      success: false,
+      error: `Sandbox input is not serializable: ${(error as Error).message}`,
+      executionTimeMs: 0,
+    });
+  }
+
+  return new Promise((resolve) => {
+    let settled = false;
+    const finish = (result: Omit<ToolExecutionResult, "executionTimeMs">) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      void worker.terminate();
+      resolve({ ...result, executionTimeMs: elapsed() });
+    };
+
+    const worker = new Worker(SANDBOX_WORKER_SOURCE, {
+      eval: true,
+      workerData: {
+        source: options.source,
+        scopeJson,
+        timeoutMs,
+        permissions: options.permissions ?? {},
+      },
+      env: {},
+      stdout: true,
+      stderr: true,
+      resourceLimits: {
+        maxOldGenerationSizeMb: memoryLimitMb,
+        maxYoungGenerationSizeMb: Math.max(4, Math.floor(memoryLimitMb / 4)),
+        stackSizeMb: 4,
+      },
+    });
+
+    const timer = setTimeout(() => {
+      finish({
+        success: false,
+        error: `Code timed out after ${timeoutMs}ms`,
+      });
+    }, timeoutMs);
+
+    worker.on("message", (message: SandboxWorkerMessage) => {
+      if (!message.success) {
+        finish({ success: false, error: message.error, logs: message.logs });
+        return;
+      }
+      try {
+        finish({
+          success: true,
+          output:
+            message.outputJson === undefined
+              ? undefined
+              : JSON.parse(message.outputJson),
+          logs: message.logs,
+        });
+      } catch (error) {
+        finish({ success: false, error: (error as Error).message });
+      }
+    });
+
+    worker.on("error", (error: NodeJS.ErrnoException) => {
+      if (error.code === "ERR_WORKER_OUT_OF_MEMORY") {
+        finish({
+          success: false,
+          error: `Code exceeded the ${memoryLimitMb}MB memory limit`,
+        });
+        return;
+      }
+      logger.warn("Sandbox worker error:", error);
+      finish({ success: false, error: error.message });
+    });
+
+    worker.on("exit", (code) => {
+      finish({
+        success: false,
+        error: `Sandbox exited unexpectedly with code ${code}`,
+      });
+    });
+  });
+}
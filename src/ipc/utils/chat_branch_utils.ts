@@ -0,0 +1,214 @@
+import log from "electron-log";
+import {
+  chatBranchName,
+  chatIdFromBranch,
+  MAIN_BRANCH,
+} from "../../lib/chat_branches";
+import type { MergeChatBranchResult, MergeConflictFile } from "../ipc_types";
+import {
+  getCurrentCommitHash,
+  getFileAtCommit,
+  gitCheckout,
+  gitCreateBranch,
+  gitCurrentBranch,
+  gitIsAncestor,
+  gitListBranches,
+  gitMerge,
+  gitMergeBase,
+  isGitStatusClean,
+} from "./git_utils";
+import { withLock } from "./lock_utils";
+
+const logger = log.scope("chat_branch_utils");
+
+export interface ChatBranchStatus {
+  name: string;
+  chatId: number;
+  isCurrent: boolean;
+  merged: boolean;
+}
+
+async function assertCleanWorkingTree(appPath: string, branch: string) {
+  if (!(await isGitStatusClean({ path: appPath }))) {
+    throw new Error(
+      `Cannot switch to branch '${branch}' because the app has uncommitted changes.`,
+    );
+  }
+}
+
+/**
+ * Check out the chat's branch, creating it from the commit the chat started
+ * at (or main, for chats created before we recorded it) the first time.
+ */
+export async function ensureChatBranch({
+  appPath,
+  chatId,
+  initialCommitHash,
+}: {
+  appPath: string;
+  chatId: number;
+  initialCommitHash: string | null;
+}): Promise<string> {
+  const branch = chatBranchName(chatId);
+  if ((await gitCurrentBranch({ path: appPath })) === branch) {
+    return branch;
+  }
+
+  await assertCleanWorkingTree(appPath, branch);
+  const branches = await gitListBranches({ path: appPath });
+  if (!branches.includes(branch)) {
+    const startPoint = initialCommitHash ?? MAIN_BRANCH;
+    logger.info(`Creating branch ${branch} from ${startPoint}`);
+    await gitCreateBranch({ path: appPath, branch, startPoint });
+  }
+  await gitCheckout({ path: appPath, ref: branch });
+  return branch;
+}
+
+/**
+ * Run `fn` with the chat's branch checked out, holding the app lock so that
+ * no other chat or branch switch can move HEAD until it's done. Anything that
+ * commits on behalf of a chat should go through this.
+ */
+export async function withChatBranch<T>(
+  {
+    appId,
+    appPath,
+    chatId,
+    initialCommitHash,
+  }: {
+    appId: number;
+    appPath: string;
+    chatId: number;
+    initialCommitHash: string | null;
+  },
+  fn: () => Promise<T>,
+): Promise<T> {
+  return withLock(appId, async () => {
+    await ensureChatBranch({ appPath, chatId, initialCommitHash });
+    return fn();
+  });
+}
+
+export async function checkoutBranch({
+  appPath,
+  branch,
+}: {
+  appPath: string;
+  branch: string;
+}): Promise<void> {
+  if ((await gitCurrentBranch({ path: appPath })) === branch) {
+    return;
+  }
+  await assertCleanWorkingTree(appPath, branch);
+  await gitCheckout({ path: appPath, ref: branch });
+}
+
+export async function listChatBranches(
+  appPath: string,
+): Promise<ChatBranchStatus[]> {
+  const [branches, currentBranch] = await Promise.all([
+    gitListBranches({ path: appPath }),
+    gitCurrentBranch({ path: appPath }),
+  ]);
+
+  const result: ChatBranchStatus[] = [];
+  for (const name of branches) {
+    const chatId = chatIdFromBranch(name);
+    if (chatId === null) continue;
+    result.push({
+      name,
+      chatId,
+      isCurrent: name === currentBranch,
+      merged: await gitIsAncestor({
+        path: appPath,
+        ancestor: name,
+        ref: MAIN_BRANCH,
+      }),
+    });
+  }
+  return result.sort((a, b) => b.chatId - a.chatId);
+}
+
+async function getConflictDetails(
+  appPath: string,
+  branch: string,
+  files: string[],
+): Promise<MergeConflictFile[]> {
+  const [mainHash, branchHash, baseHash] = await Promise.all([
+    getCurrentCommitHash({ path: appPath, ref: MAIN_BRANCH }),
+    getCurrentCommitHash({ path: appPath, ref: branch }),
+    gitMergeBase({ path: appPath, refs: [MAIN_BRANCH, branch] }),
+  ]);
+  const readAt = (commitHash: string | null, filePath: string) =>
+    commitHash
+      ? getFileAtCommit({ path: appPath, filePath, commitHash })
+      : Promise.resolve(null);
+
+  return Promise.all(
+    files.map(async (filePath) => ({
+      path: filePath,
+      base: await readAt(baseHash, filePath),
+      main: await readAt(mainHash, filePath),
+      branch: await readAt(branchHash, filePath),
+    })),
+  );
+}
+
+/**
+ * Merge a chat's branch into main. On success main stays checked out and the
+ * chat branch is moved up to it, so the chat continues from the merged code.
+ * On conflicts nothing is merged, the chat branch is checked out again and the
+ * three versions of each conflicted file are returned for display.
+ */
+export async function mergeChatBranch({
+  appPath,
+  chatId,
+}: {
+  appPath: string;
+  chatId: number;
+}): Promise<MergeChatBranchResult> {
+  const branch = chatBranchName(chatId);
+  const branches = await gitListBranches({ path: appPath });
+  if (!branches.includes(branch)) {
+    throw new Error(`Chat #${chatId} doesn't have a branch to merge.`);
+  }
+  await assertCleanWorkingTree(appPath, MAIN_BRANCH);
+
+  const result = await gitMerge({
+    path: appPath,
+    ours: MAIN_BRANCH,
+    theirs: branch,
+    message: `Merge chat #${chatId} into ${MAIN_BRANCH}`,
+  });
+
+  if (result.status === "conflicts") {
+    logger.warn(
+      `Merging ${branch} into ${MAIN_BRANCH} conflicts in: ${result.conflicts?.join(", ")}`,
+    );
+    await gitCheckout({ path: appPath, ref: branch });
+    return {
+      status: "conflicts",
+      conflicts: await getConflictDetails(
+        appPath,
+        branch,
+        result.conflicts ?? [],
+      ),
+    };
+  }
+
+  if (result.status === "merged") {
+    await gitCreateBranch({
+      path: appPath,
+      branch,
+      startPoint: MAIN_BRANCH,
+      force: true,
+    });
+  }
+  logger.info(`Merged ${branch} into ${MAIN_BRANCH} (${result.status})`);
+  return {
+    status: result.status,
+    commitHash: result.commitHash,
+    conflicts: [],
+  };
+}
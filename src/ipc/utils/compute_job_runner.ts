@@ -0,0 +1,319 @@
+import crypto from "node:crypto";
+import log from "electron-log";
+import { localModelService } from "@/lib/local_model_service";
+import type {
+  ExecutionMetrics,
+  InferenceJob,
+  JobType,
+} from "@/types/compute_network_types";
+import type {
+  InferenceMessage,
+  InferenceResponse,
+  LocalModelConfig,
+  LocalModelInfo,
+} from "@/types/trustless_inference";
+
+const logger = log.scope("compute-job-runner");
+
+/** Job types the local backends can execute. */
+export const SUPPORTED_JOB_TYPES: ReadonlySet<JobType> = new Set<JobType>([
+  "text-generation",
+  "text-embedding",
+  "vision",
+  "multi-modal",
+]);
+
+// Embeddings are rounded so that tiny float differences between runs don't
+// change the output hash.
+const EMBEDDING_PRECISION = 6;
+
+/**
+ * Job input as stored at `inputCid`: either plain text (used as the prompt)
+ * or a JSON object with any of these fields.
+ */
+export interface ComputeJobInput {
+  prompt?: string;
+  systemPrompt?: string;
+  messages?: InferenceMessage[];
+  // For text-embedding jobs
+  texts?: string[];
+  // Base64-encoded images for vision jobs
+  images?: string[];
+}
+
+export interface ComputeJobRun {
+  output: unknown;
+  metrics: Partial<ExecutionMetrics>;
+}
+
+export function parseJobInput(data: Uint8Array): ComputeJobInput {
+  const text = new TextDecoder().decode(data);
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed as ComputeJobInput;
+    }
+  } catch {
+    // Not JSON; treat as a prompt
+  }
+  return { prompt: text };
+}
+
+/**
+ * Seed used for a job. Every executor and validator derives the same seed
+ * from the job definition, so re-executions of a job sample identically.
+ */
+export function deriveJobSeed(job: InferenceJob): number {
+  if (job.params.seed !== undefined) {
+    return job.params.seed;
+  }
+  const digest = crypto
+    .createHash("sha256")
+    .update(`${job.modelCid}:${job.inputCid}:${JSON.stringify(job.params)}`)
+    .digest();
+  return digest.readUInt32BE(0) & 0x7fffffff;
+}
+
+// Validators re-run at most this much of a job when sampling
+const SAMPLE_MAX_TOKENS = 32;
+const SAMPLE_MAX_TEXTS = 3;
+
+export interface ValidationSample {
+  /** The job to re-run, limited to the sampled portion */
+  job: InferenceJob;
+  inputData: Uint8Array;
+  /** For embedding jobs, which of the original texts were sampled */
+  sampledIndices?: number[];
+  /** Fraction of the original job covered by the sample (0-1) */
+  coverage: number;
+}
+
+/**
+ * Builds a cheaper version of a job for sampling validation: a random subset
+ * of the texts for embedding jobs, or only the leading tokens for
+ * generation. The seed is pinned so the sample decodes like the original.
+ */
+export function createValidationSample(
+  job: InferenceJob,
+  inputData: Uint8Array,
+  random: () => number = Math.random,
+): ValidationSample {
+  const input = parseJobInput(inputData);
+
+  if (job.type === "text-embedding" && input.texts) {
+    const texts = input.texts;
+    const indices = texts.map((_, index) => index);
+    // Partial Fisher-Yates shuffle to pick the sample
+    const count = Math.min(SAMPLE_MAX_TEXTS, texts.length);
+    for (let i = 0; i < count; i++) {
+      const j = i + Math.floor(random() * (indices.length - i));
+      [indices[i], indices[j]] = [indices[j], indices[i]];
+    }
+    const sampledIndices = indices.slice(0, count).sort((a, b) => a - b);
+    return {
+      job,
+      inputData: new TextEncoder().encode(
+        JSON.stringify({
+          ...input,
+          texts: sampledIndices.map((index) => texts[index]),
+        }),
+      ),
+      sampledIndices,
+      coverage: texts.length > 0 ? count / texts.length : 1,
+    };
+  }
+
+  if (job.type === "text-embedding") {
+    return { job, inputData, coverage: 1 };
+  }
+
+  const maxTokens = Math.min(
+    job.params.maxTokens ?? SAMPLE_MAX_TOKENS,
+    SAMPLE_MAX_TOKENS,
+  );
+  return {
+    job: {
+      ...job,
+      params: { ...job.params, seed: deriveJobSeed(job), maxTokens },
+    },
+    inputData,
+    coverage: job.params.maxTokens ? maxTokens / job.params.maxTokens : 0,
+  };
+}
+
+/**
+ * Finds the local model for a job. `modelCid` may be an Ollama digest, which
+ * pins exact weights; otherwise the model is matched by name.
+ */
+export async function findLocalModel(
+  job: InferenceJob,
+): Promise<LocalModelInfo | null> {
+  const models = await localModelService.listAllModels();
+  const digest = job.modelCid.replace(/^sha256:/, "");
+  return (
+    models.find(
+      (m) => m.digest && m.digest.replace(/^sha256:/, "") === digest,
+    ) ??
+    models.find((m) =>
+      [job.modelCid, job.modelName].some(
+        (name) => name && (m.id === name || m.id === `${name}:latest`),
+      ),
+    ) ??
+    null
+  );
+}
+
+export async function canRunComputeJob(job: InferenceJob): Promise<boolean> {
+  if (!SUPPORTED_JOB_TYPES.has(job.type)) {
+    return false;
+  }
+  try {
+    return (await findLocalModel(job)) !== null;
+  } catch (error) {
+    logger.warn("Failed to list local models:", error);
+    return false;
+  }
+}
+
+/**
+ * Runs an inference job on the local backend and reports backend timings.
+ * Generation defaults to temperature 0 with a job-derived seed so outputs
+ * are reproducible across executors.
+ */
+export async function runComputeJob(
+  job: InferenceJob,
+  inputData: Uint8Array,
+): Promise<ComputeJobRun> {
+  if (!SUPPORTED_JOB_TYPES.has(job.type)) {
+    throw new Error(
+      `Job type "${job.type}" is not supported by local backends`,
+    );
+  }
+
+  const model = await findLocalModel(job);
+  if (!model) {
+    throw new Error(`Model "${job.modelName}" is not available locally`);
+  }
+
+  const inputStart = Date.now();
+  const input = parseJobInput(inputData);
+  const inputProcessTimeMs = Date.now() - inputStart;
+
+  if (job.type === "text-embedding") {
+    return runEmbeddingJob(job, model, input, inputProcessTimeMs);
+  }
+
+  const seed = deriveJobSeed(job);
+  const modelConfig: LocalModelConfig = {
+    provider: model.provider,
+    baseUrl: "",
+    modelId: model.id,
+    options: {
+      temperature: job.params.temperature ?? 0,
+      topP: job.params.topP,
+      topK: job.params.topK,
+      repeatPenalty: job.params.repetitionPenalty,
+      numPredict: job.params.maxTokens,
+      stop: job.params.stopSequences,
+      seed,
+    },
+  };
+
+  const prompt = job.params.prompt ?? input.prompt ?? "";
+  const systemPrompt = job.params.systemPrompt ?? input.systemPrompt;
+  const images = input.images ?? [];
+  if ((job.type === "vision" || job.type === "multi-modal") && !images.length) {
+    throw new Error(`${job.type} jobs require input images`);
+  }
+  const messages =
+    input.messages ??
+    (images.length > 0
+      ? [{ role: "user" as const, content: prompt, images }]
+      : undefined);
+
+  const request = {
+    id: job.id,
+    modelConfig,
+    prompt,
+    systemPrompt,
+    messages,
+    timestamp: Date.now(),
+  };
+  const response: InferenceResponse = messages
+    ? await localModelService.chat(request)
+    : await localModelService.generate(request);
+
+  return {
+    output: {
+      type: job.type,
+      model: model.digest ?? model.id,
+      seed,
+      text: response.output,
+      finishReason: response.finishReason,
+    },
+    metrics: {
+      ...(await getBackendMetrics(model, response)),
+      inputProcessTimeMs:
+        inputProcessTimeMs + (response.timings?.promptEvalMs ?? 0),
+      tokensProcessed: response.totalTokens,
+      tokensPerSecond: getTokensPerSecond(response),
+    },
+  };
+}
+
+async function runEmbeddingJob(
+  job: InferenceJob,
+  model: LocalModelInfo,
+  input: ComputeJobInput,
+  inputProcessTimeMs: number,
+): Promise<ComputeJobRun> {
+  const texts = input.texts ?? [job.params.prompt ?? input.prompt ?? ""];
+  const start = Date.now();
+  const embeddings = await localModelService.embed(
+    model.provider,
+    model.id,
+    texts,
+  );
+  const inferenceTimeMs = Date.now() - start;
+
+  const factor = 10 ** EMBEDDING_PRECISION;
+  const dimensions = job.params.embeddingDimensions;
+  return {
+    output: {
+      type: job.type,
+      model: model.digest ?? model.id,
+      embeddings: embeddings.map((embedding) =>
+        (dimensions ? embedding.slice(0, dimensions) : embedding).map(
+          (value) => Math.round(value * factor) / factor,
+        ),
+      ),
+    },
+    metrics: {
+      ...(await getBackendMetrics(model)),
+      inputProcessTimeMs,
+      inferenceTimeMs,
+    },
+  };
+}
+
+async function getBackendMetrics(
+  model: LocalModelInfo,
+  response?: InferenceResponse,
+): Promise<Partial<ExecutionMetrics>> {
+  const memory = await localModelService
+    .getLoadedModelMemory(model.provider, model.id)
+    .catch(() => null);
+  return {
+    modelLoadTimeMs: response?.timings?.loadMs ?? 0,
+    inferenceTimeMs:
+      response?.timings?.evalMs ?? response?.generationTimeMs ?? 0,
+    peakMemoryMb: memory?.sizeMb ?? 0,
+    peakVramMb: memory?.vramMb ?? 0,
+  };
+}
+
+function getTokensPerSecond(response: InferenceResponse): number | undefined {
+  const evalMs = response.timings?.evalMs ?? response.generationTimeMs;
+  if (!evalMs || !response.completionTokens) return undefined;
+  return Math.round((response.completionTokens / evalMs) * 1000 * 100) / 100;
+}
@@ -22,6 +22,13 @@ import type {
   GitInitParams,
   GitPushParams,
   GitCommit,
+  GitCreateBranchParams,
+  GitIsAncestorParams,
+  GitMergeBaseParams,
+  GitMergeParams,
+  GitMergeResult,
+  GitChangedFilesParams,
+  GitChangedFile,
 } from "../git_types";
 
 /**
@@ -422,6 +429,241 @@ export async function gitRenameBranch({
   }
 }
 
+export async function gitCreateBranch({
+  path,
+  branch,
+  startPoint,
+  force,
+}: GitCreateBranchParams): Promise<void> {
+  const settings = readSettings();
+
+  if (settings.enableNativeGit) {
+    await execOrThrow(
+      ["branch", ...(force ? ["--force"] : []), branch, startPoint],
+      path,
+      `Failed to create branch '${branch}'`,
+    );
+  } else {
+    await git.branch({
+      fs,
+      dir: path,
+      ref: branch,
+      object: startPoint,
+      force,
+    });
+  }
+}
+
+export async function gitIsAncestor({
+  path,
+  ancestor,
+  ref,
+}: GitIsAncestorParams): Promise<boolean> {
+  const settings = readSettings();
+
+  if (settings.enableNativeGit) {
+    const result = await exec(
+      ["merge-base", "--is-ancestor", ancestor, ref],
+      path,
+    );
+    // Exit code 1 means "not an ancestor", anything else is an error
+    if (result.exitCode === 0) return true;
+    if (result.exitCode === 1) return false;
+    throw new Error(result.stderr.toString());
+  } else {
+    const [ancestorOid, oid] = await Promise.all([
+      git.resolveRef({ fs, dir: path, ref: ancestor }),
+      git.resolveRef({ fs, dir: path, ref }),
+    ]);
+    if (ancestorOid === oid) return true;
+    return git.isDescendent({
+      fs,
+      dir: path,
+      oid,
+      ancestor: ancestorOid,
+      depth: -1,
+    });
+  }
+}
+
+export async function gitMergeBase({
+  path,
+  refs,
+}: GitMergeBaseParams): Promise<string | null> {
+  const settings = readSettings();
+
+  if (settings.enableNativeGit) {
+    const result = await exec(["merge-base", ...refs], path);
+    // Exit code 1 means the refs have no common ancestor
+    if (result.exitCode === 1) return null;
+    if (result.exitCode !== 0) {
+      throw new Error(result.stderr.toString());
+    }
+    return result.stdout.trim();
+  } else {
+    const oids = await Promise.all(
+      refs.map((ref) => git.resolveRef({ fs, dir: path, ref })),
+    );
+    const [base] = await git.findMergeBase({ fs, dir: path, oids });
+    return base ?? null;
+  }
+}
+
+/**
+ * Merge `theirs` into `ours`, fast-forwarding when possible and creating a
+ * merge commit otherwise. `ours` is checked out first. A merge that runs into
+ * conflicts is aborted, leaving `ours` untouched, and the conflicted files
+ * are returned instead.
+ */
+export async function gitMerge({
+  path,
+  ours,
+  theirs,
+  message,
+}: GitMergeParams): Promise<GitMergeResult> {
+  const settings = readSettings();
+  await gitCheckout({ path, ref: ours });
+
+  if (settings.enableNativeGit) {
+    const [oursHash, theirsHash] = await Promise.all([
+      getCurrentCommitHash({ path, ref: ours }),
+      getCurrentCommitHash({ path, ref: theirs }),
+    ]);
+    if (await gitIsAncestor({ path, ancestor: theirsHash, ref: oursHash })) {
+      return { status: "up-to-date", commitHash: oursHash };
+    }
+    const fastForward = await gitIsAncestor({
+      path,
+      ancestor: oursHash,
+      ref: theirsHash,
+    });
+
+    // git merge has no --author flag, so set the identity for this command
+    const author = await getGitAuthor();
+    const result = await exec(
+      [
+        "-c",
+        `user.name=${author.name}`,
+        "-c",
+        `user.email=${author.email}`,
+        "merge",
+        "--no-edit",
+        "-m",
+        message,
+        theirs,
+      ],
+      path,
+    );
+    if (result.exitCode !== 0) {
+      const unmerged = await exec(
+        ["diff", "--name-only", "--diff-filter=U"],
+        path,
+      );
+      const conflicts = unmerged.stdout
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0);
+      await exec(["merge", "--abort"], path);
+      if (conflicts.length === 0) {
+        throw new Error(
+          `Failed to merge '${theirs}' into '${ours}'. ${result.stderr.trim() || result.stdout.trim()}`,
+        );
+      }
+      return { status: "conflicts", conflicts };
+    }
+    return {
+      status: fastForward ? "fast-forward" : "merged",
+      commitHash: await getCurrentCommitHash({ path }),
+    };
+  } else {
+    try {
+      const result = await git.merge({
+        fs,
+        dir: path,
+        ours,
+        theirs,
+        message,
+        author: await getGitAuthor(),
+      });
+      if (result.alreadyMerged) {
+        return { status: "up-to-date", commitHash: result.oid };
+      }
+      // isomorphic-git only moves the branch, so bring the working tree along
+      await git.checkout({ fs, dir: path, ref: ours });
+      return {
+        status: result.fastForward ? "fast-forward" : "merged",
+        commitHash: result.oid,
+      };
+    } catch (error) {
+      if (error instanceof git.Errors.MergeConflictError) {
+        return { status: "conflicts", conflicts: error.data.filepaths };
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * List the files that differ between two commits. Renames show up as a
+ * deletion plus an addition.
+ */
+export async function gitChangedFiles({
+  path,
+  from,
+  to,
+}: GitChangedFilesParams): Promise<GitChangedFile[]> {
+  const settings = readSettings();
+
+  if (settings.enableNativeGit) {
+    const result = await exec(
+      ["diff", "--name-status", "--no-renames", "-z", from, to],
+      path,
+    );
+    if (result.exitCode !== 0) {
+      throw new Error(
+        `Failed to diff '${from}' and '${to}': ${result.stderr.trim() || result.stdout.trim()}`,
+      );
+    }
+    // -z output alternates status and path: "M\0src/a.ts\0A\0src/b.ts\0"
+    const parts = result.stdout.split("\0").filter(Boolean);
+    const files: GitChangedFile[] = [];
+    for (let i = 0; i + 1 < parts.length; i += 2) {
+      const status = parts[i].charAt(0);
+      files.push({
+        path: parts[i + 1],
+        status:
+          status === "A" ? "added" : status === "D" ? "deleted" : "modified",
+      });
+    }
+    return files;
+  } else {
+    const files: GitChangedFile[] = await git.walk({
+      fs,
+      dir: path,
+      trees: [git.TREE({ ref: from }), git.TREE({ ref: to })],
+      map: async (filepath, [before, after]) => {
+        if (filepath === ".") return;
+        const [beforeOid, afterOid] = await Promise.all([
+          before?.oid(),
+          after?.oid(),
+        ]);
+        // Unchanged directories don't need to be walked at all
+        if (beforeOid === afterOid) return null;
+        const [beforeType, afterType] = await Promise.all([
+          before?.type(),
+          after?.type(),
+        ]);
+        if (beforeType === "tree" || afterType === "tree") return;
+        return {
+          path: filepath,
+          status: !before ? "added" : !after ? "deleted" : "modified",
+        };
+      },
+    });
+    return files;
+  }
+}
+
 export async function gitClone({
   path,
   url,
@@ -0,0 +1,578 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import Database from "better-sqlite3";
+import log from "electron-log";
+import { getUserDataPath } from "../../paths/paths";
+import { localModelService } from "@/lib/local_model_service";
+import {
+  chunkText,
+  htmlToText,
+  searchIndex,
+  type KnowledgeIndexFile,
+} from "@/lib/knowledge_base_index";
+import type { LocalModelProvider } from "@/types/trustless_inference";
+import type {
+  KnowledgeBaseConfig,
+  KnowledgeDocument,
+  KnowledgeSearchResult,
+  KnowledgeSourceType,
+} from "@/types/agent_builder";
+
+const logger = log.scope("knowledge_base_indexer");
+
+export const DEFAULT_EMBEDDING_MODEL = "nomic-embed-text";
+
+const EMBED_BATCH_SIZE = 32;
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+const MAX_CRAWL_PAGES = 100;
+const MAX_GITHUB_FILES = 500;
+const SKIPPED_DIRECTORIES = new Set(["node_modules", ".git", "dist", "build"]);
+const TEXT_EXTENSIONS = new Set([
+  ".txt",
+  ".md",
+  ".mdx",
+  ".markdown",
+  ".rst",
+  ".html",
+  ".htm",
+  ".json",
+  ".csv",
+  ".tsv",
+  ".xml",
+  ".yaml",
+  ".yml",
+  ".toml",
+  ".js",
+  ".jsx",
+  ".ts",
+  ".tsx",
+  ".py",
+  ".go",
+  ".rs",
+  ".java",
+  ".rb",
+  ".php",
+  ".c",
+  ".h",
+  ".cpp",
+  ".cs",
+  ".css",
+  ".sql",
+  ".sh",
+]);
+
+/** A source document before chunking. */
+interface SourceDocument {
+  sourceId: string;
+  content: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface KnowledgeBaseIndexInput {
+  id: number;
+  sourceType: KnowledgeSourceType;
+  sourceConfig?: KnowledgeBaseConfig | null;
+  embeddingModel?: string | null;
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+export interface KnowledgeBaseIndexResult {
+  documentCount: number;
+  chunkCount: number;
+}
+
+const indexCache = new Map<number, KnowledgeIndexFile>();
+
+export function getKnowledgeIndexPath(knowledgeBaseId: number): string {
+  return path.join(
+    getUserDataPath(),
+    "knowledge-bases",
+    `${knowledgeBaseId}.json`,
+  );
+}
+
+/**
+ * Ingests every source of a knowledge base, chunks and embeds it, and
+ * replaces the on-disk index.
+ */
+export async function indexKnowledgeBase(
+  kb: KnowledgeBaseIndexInput,
+): Promise<KnowledgeBaseIndexResult> {
+  const embeddingModel = kb.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+  const documents = await ingestKnowledgeSource(
+    kb.sourceType,
+    kb.sourceConfig ?? {},
+  );
+  if (documents.length === 0) {
+    throw new Error("No documents found for this knowledge base");
+  }
+
+  const chunks: KnowledgeDocument[] = [];
+  for (const document of documents) {
+    chunkText(document.content, kb.chunkSize, kb.chunkOverlap).forEach(
+      (content, chunkIndex) => {
+        chunks.push({
+          id: `${document.sourceId}#${chunkIndex}`,
+          sourceId: document.sourceId,
+          content,
+          chunkIndex,
+          metadata: document.metadata,
+        });
+      },
+    );
+  }
+
+  logger.info(
+    `Embedding ${chunks.length} chunks from ${documents.length} documents for knowledge base ${kb.id}`,
+  );
+  for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+    const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
+    const embeddings = await embedTexts(
+      embeddingModel,
+      batch.map((c) => c.content),
+    );
+    batch.forEach((chunk, j) => {
+      chunk.embedding = embeddings[j];
+    });
+  }
+
+  const index: KnowledgeIndexFile = {
+    version: 1,
+    knowledgeBaseId: kb.id,
+    embeddingModel,
+    dimensions: chunks[0]?.embedding?.length ?? 0,
+    chunks,
+    indexedAt: Date.now(),
+  };
+  const indexPath = getKnowledgeIndexPath(kb.id);
+  await fs.mkdir(path.dirname(indexPath), { recursive: true });
+  await fs.writeFile(`${indexPath}.tmp`, JSON.stringify(index));
+  await fs.rename(`${indexPath}.tmp`, indexPath);
+  indexCache.set(kb.id, index);
+
+  return { documentCount: documents.length, chunkCount: chunks.length };
+}
+
+/**
+ * Returns the chunks most relevant to `query` across the given knowledge
+ * bases. Knowledge bases that have not been indexed yet are skipped.
+ */
+export async function searchKnowledgeBases(
+  knowledgeBaseIds: number[],
+  query: string,
+  topK = 5,
+): Promise<KnowledgeSearchResult[]> {
+  const indexes: KnowledgeIndexFile[] = [];
+  for (const id of knowledgeBaseIds) {
+    const index = await loadKnowledgeIndex(id);
+    if (index && index.chunks.length > 0) {
+      indexes.push(index);
+    }
+  }
+
+  // Query embeddings are shared between indexes built with the same model
+  const queryEmbeddings = new Map<string, number[]>();
+  const results: KnowledgeSearchResult[] = [];
+  for (const index of indexes) {
+    let embedding = queryEmbeddings.get(index.embeddingModel);
+    if (!embedding) {
+      [embedding] = await embedTexts(index.embeddingModel, [query]);
+      queryEmbeddings.set(index.embeddingModel, embedding);
+    }
+    results.push(...searchIndex(index, embedding, topK));
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, topK);
+}
+
+export async function deleteKnowledgeIndex(
+  knowledgeBaseId: number,
+): Promise<void> {
+  indexCache.delete(knowledgeBaseId);
+  await fs.rm(getKnowledgeIndexPath(knowledgeBaseId), { force: true });
+}
+
+async function loadKnowledgeIndex(
+  knowledgeBaseId: number,
+): Promise<KnowledgeIndexFile | null> {
+  const cached = indexCache.get(knowledgeBaseId);
+  if (cached) return cached;
+
+  try {
+    const raw = await fs.readFile(
+      getKnowledgeIndexPath(knowledgeBaseId),
+      "utf8",
+    );
+    const index = JSON.parse(raw) as KnowledgeIndexFile;
+    indexCache.set(knowledgeBaseId, index);
+    return index;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Embeds texts with a local model. `model` is either a bare Ollama model
+ * name or "provider:model" (e.g. "lmstudio:text-embedding-nomic").
+ */
+async function embedTexts(model: string, texts: string[]): Promise<number[][]> {
+  let provider: LocalModelProvider = "ollama";
+  let modelId = model;
+  const separatorIndex = model.indexOf(":");
+  if (separatorIndex > 0 && model.slice(0, separatorIndex) === "lmstudio") {
+    provider = "lmstudio";
+    modelId = model.slice(separatorIndex + 1);
+  }
+
+  try {
+    const embeddings = await localModelService.embed(provider, modelId, texts);
+    if (embeddings.length !== texts.length) {
+      throw new Error(
+        `Expected ${texts.length} embeddings, received ${embeddings.length}`,
+      );
+    }
+    return embeddings;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Failed to embed with ${provider} model "${modelId}": ${message}`,
+    );
+  }
+}
+
+// ============================================================================
+// Source Ingestion
+// ============================================================================
+
+async function ingestKnowledgeSource(
+  sourceType: KnowledgeSourceType,
+  config: KnowledgeBaseConfig,
+): Promise<SourceDocument[]> {
+  switch (sourceType) {
+    case "files":
+      return ingestFiles(config);
+    case "urls":
+      return ingestUrls(config);
+    case "api":
+      return ingestApi(config);
+    case "database":
+      return ingestDatabase(config);
+    case "github":
+      return ingestGithub(config);
+    case "notion":
+      return ingestNotion(config);
+    default:
+      throw new Error(`Unsupported knowledge source type: ${sourceType}`);
+  }
+}
+
+async function ingestFiles(
+  config: KnowledgeBaseConfig,
+): Promise<SourceDocument[]> {
+  const documents: SourceDocument[] = [];
+  for (const file of config.files ?? []) {
+    const stat = await fs.stat(file.path);
+    const filePaths = stat.isDirectory()
+      ? await listTextFiles(file.path)
+      : [file.path];
+    for (const filePath of filePaths) {
+      const document = await readTextDocument(filePath);
+      if (document) documents.push(document);
+    }
+  }
+  return documents;
+}
+
+async function listTextFiles(directory: string): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  for (const entry of entries) {
+    if (entry.name.startsWith(".") || SKIPPED_DIRECTORIES.has(entry.name)) {
+      continue;
+    }
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listTextFiles(fullPath)));
+    } else if (TEXT_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+async function readTextDocument(
+  filePath: string,
+): Promise<SourceDocument | null> {
+  const stat = await fs.stat(filePath);
+  if (stat.size > MAX_FILE_BYTES) {
+    logger.warn(`Skipping large file ${filePath} (${stat.size} bytes)`);
+    return null;
+  }
+  const buffer = await fs.readFile(filePath);
+  if (buffer.includes(0)) {
+    logger.warn(`Skipping binary file ${filePath}`);
+    return null;
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  const raw = buffer.toString("utf8");
+  return {
+    sourceId: filePath,
+    content:
+      extension === ".html" || extension === ".htm" ? htmlToText(raw) : raw,
+    metadata: { type: "file", path: filePath, name: path.basename(filePath) },
+  };
+}
+
+/**
+ * Fetches each configured URL. With `crawlDepth` > 0, same-origin links are
+ * followed breadth-first up to that depth.
+ */
+async function ingestUrls(
+  config: KnowledgeBaseConfig,
+): Promise<SourceDocument[]> {
+  const documents: SourceDocument[] = [];
+  const maxDepth = config.crawlDepth ?? 0;
+  const visited = new Set<string>();
+  let frontier = (config.urls ?? []).map((url) => new URL(url).toString());
+
+  for (let depth = 0; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next: string[] = [];
+    for (const url of frontier) {
+      if (visited.has(url) || visited.size >= MAX_CRAWL_PAGES) continue;
+      visited.add(url);
+
+      const response = await fetch(url);
+      if (!response.ok) {
+        logger.warn(
+          `Skipping ${url}: ${response.status} ${response.statusText}`,
+        );
+        continue;
+      }
+      const contentType = response.headers.get("content-type") ?? "";
+      const body = await response.text();
+      const isHtml = contentType.includes("html");
+      documents.push({
+        sourceId: url,
+        content: isHtml ? htmlToText(body) : body,
+        metadata: { type: "url", url, contentType },
+      });
+
+      if (isHtml && depth < maxDepth) {
+        next.push(...extractSameOriginLinks(body, url));
+      }
+    }
+    frontier = next;
+  }
+  return documents;
+}
+
+function extractSameOriginLinks(html: string, baseUrl: string): string[] {
+  const base = new URL(baseUrl);
+  const links: string[] = [];
+  for (const match of html.matchAll(/<a\s[^>]*href=["']([^"'#]+)/gi)) {
+    try {
+      const url = new URL(match[1], base);
+      if (url.origin === base.origin) {
+        url.hash = "";
+        links.push(url.toString());
+      }
+    } catch {
+      // Ignore malformed links
+    }
+  }
+  return links;
+}
+
+async function ingestApi(
+  config: KnowledgeBaseConfig,
+): Promise<SourceDocument[]> {
+  if (!config.apiEndpoint) {
+    throw new Error("API knowledge source requires an apiEndpoint");
+  }
+  const response = await fetch(config.apiEndpoint, {
+    headers: config.apiHeaders,
+  });
+  if (!response.ok) {
+    throw new Error(
+      `API source returned ${response.status} ${response.statusText}`,
+    );
+  }
+
+  const contentType = response.headers.get("content-type") ?? "";
+  if (!contentType.includes("json")) {
+    return [
+      {
+        sourceId: config.apiEndpoint,
+        content: await response.text(),
+        metadata: { type: "api", url: config.apiEndpoint },
+      },
+    ];
+  }
+
+  // JSON arrays become one document per item
+  const data = await response.json();
+  const items: unknown[] = Array.isArray(data) ? data : [data];
+  return items.map((item, i) => ({
+    sourceId: Array.isArray(data)
+      ? `${config.apiEndpoint}[${i}]`
+      : config.apiEndpoint!,
+    content: JSON.stringify(item, null, 2),
+    metadata: { type: "api", url: config.apiEndpoint },
+  }));
+}
+
+/**
+ * Runs the configured query against a SQLite database file, one document per
+ * row. Other databases are not supported yet.
+ */
+async function ingestDatabase(
+  config: KnowledgeBaseConfig,
+): Promise<SourceDocument[]> {
+  if (!config.connectionString || !config.query) {
+    throw new Error(
+      "Database knowledge source requires a connectionString and query",
+    );
+  }
+  const match = config.connectionString.match(/^(?:sqlite:|file:)?(.+)$/);
+  const filePath = match![1].replace(/^\/\/(?=\/)/, "");
+  if (/^[a-z]+:\/\//i.test(filePath)) {
+    throw new Error("Only SQLite database files are supported");
+  }
+
+  const database = new Database(filePath, {
+    readonly: true,
+    fileMustExist: true,
+  });
+  try {
+    const rows = database.prepare(config.query).all() as Record<
+      string,
+      unknown
+    >[];
+    return rows.map((row, i) => ({
+      sourceId: `${path.basename(filePath)}#${i}`,
+      content: Object.entries(row)
+        .map(([column, value]) => `${column}: ${value ?? ""}`)
+        .join("\n"),
+      metadata: { type: "database", database: filePath, row: i },
+    }));
+  } finally {
+    database.close();
+  }
+}
+
+async function ingestGithub(
+  config: KnowledgeBaseConfig,
+): Promise<SourceDocument[]> {
+  if (!config.githubRepo) {
+    throw new Error("GitHub knowledge source requires a githubRepo");
+  }
+  const repo = config.githubRepo
+    .replace(/^https:\/\/github\.com\//, "")
+    .replace(/\.git$/, "");
+  const branch = config.githubBranch || "main";
+
+  const treeResponse = await fetch(
+    `https://api.github.com/repos/${repo}/git/trees/${encodeURIComponent(branch)}?recursive=1`,
+    { headers: { Accept: "application/vnd.github+json" } },
+  );
+  if (!treeResponse.ok) {
+    throw new Error(
+      `Failed to list ${repo}@${branch}: ${treeResponse.status} ${treeResponse.statusText}`,
+    );
+  }
+  const tree = (await treeResponse.json()) as {
+    tree: { path: string; type: string; size?: number }[];
+  };
+
+  const includePaths = config.includePaths ?? [];
+  const excludePaths = config.excludePaths ?? [];
+  const files = tree.tree
+    .filter(
+      (entry) =>
+        entry.type === "blob" &&
+        (entry.size ?? 0) <= MAX_FILE_BYTES &&
+        TEXT_EXTENSIONS.has(path.extname(entry.path).toLowerCase()) &&
+        (includePaths.length === 0 ||
+          includePaths.some((p) => entry.path.startsWith(p))) &&
+        !excludePaths.some((p) => entry.path.startsWith(p)),
+    )
+    .slice(0, MAX_GITHUB_FILES);
+
+  const documents: SourceDocument[] = [];
+  for (const file of files) {
+    const response = await fetch(
+      `https://raw.githubusercontent.com/${repo}/${encodeURIComponent(branch)}/${file.path}`,
+    );
+    if (!response.ok) {
+      logger.warn(`Skipping ${file.path}: ${response.status}`);
+      continue;
+    }
+    documents.push({
+      sourceId: `${repo}/${file.path}`,
+      content: await response.text(),
+      metadata: { type: "github", repo, branch, path: file.path },
+    });
+  }
+  return documents;
+}
+
+async function ingestNotion(
+  config: KnowledgeBaseConfig,
+): Promise<SourceDocument[]> {
+  if (!config.notionToken || !config.notionPageIds?.length) {
+    throw new Error(
+      "Notion knowledge source requires a notionToken and notionPageIds",
+    );
+  }
+
+  const documents: SourceDocument[] = [];
+  for (const pageId of config.notionPageIds) {
+    const lines: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const url = new URL(
+        `https://api.notion.com/v1/blocks/${pageId}/children`,
+      );
+      url.searchParams.set("page_size", "100");
+      if (cursor) url.searchParams.set("start_cursor", cursor);
+
+      const response = await fetch(url, {
+        headers: {
+          Authorization: `Bearer ${config.notionToken}`,
+          "Notion-Version": "2022-06-28",
+        },
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Failed to read Notion page ${pageId}: ${response.status} ${response.statusText}`,
+        );
+      }
+      const data = (await response.json()) as {
+        results: Record<string, any>[];
+        has_more: boolean;
+        next_cursor: string | null;
+      };
+      for (const block of data.results) {
+        const richText = block[block.type]?.rich_text as
+          | { plain_text: string }[]
+          | undefined;
+        if (richText?.length) {
+          lines.push(richText.map((t) => t.plain_text).join(""));
+        }
+      }
+      cursor = data.has_more ? (data.next_cursor ?? undefined) : undefined;
+    } while (cursor);
+
+    documents.push({
+      sourceId: `notion:${pageId}`,
+      content: lines.join("\n"),
+      metadata: { type: "notion", pageId },
+    });
+  }
+  return documents;
+}
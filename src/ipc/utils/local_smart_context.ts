@@ -0,0 +1,162 @@
+import crypto from "node:crypto";
+import log from "electron-log";
+import { localModelService } from "@/lib/local_model_service";
+import { cosineSimilarity } from "@/lib/knowledge_base_index";
+import {
+  selectSmartContextFiles,
+  type SmartContextSelection,
+} from "@/lib/smart_context_selection";
+import type { UserSettings } from "@/lib/schemas";
+import { OMITTED_FILE_CONTENT, type CodebaseFile } from "@/utils/codebase";
+import { estimateTokens, getContextWindow } from "./token_utils";
+
+const logger = log.scope("local_smart_context");
+
+// The rest of the context window is left for the system prompt, chat
+// history and the response
+const CODEBASE_CONTEXT_SHARE = 0.5;
+const EMBED_BATCH_SIZE = 32;
+const MAX_EMBED_CHARS = 4_000;
+const MAX_CACHED_EMBEDDINGS = 5_000;
+
+// File embeddings keyed by model and content hash, so unchanged files are
+// only embedded once per session
+const embeddingCache = new Map<string, number[]>();
+
+function embeddingText(file: CodebaseFile): string {
+  return `${file.path}\n${file.content.slice(0, MAX_EMBED_CHARS)}`;
+}
+
+async function computeSimilarities(
+  model: string,
+  files: CodebaseFile[],
+  prompt: string,
+): Promise<Map<string, number>> {
+  const keys = files.map(
+    (file) =>
+      `${model}:${crypto.createHash("sha1").update(embeddingText(file)).digest("hex")}`,
+  );
+  const missing = files
+    .map((file, i) => ({ file, key: keys[i] }))
+    .filter(({ key }) => !embeddingCache.has(key));
+
+  if (embeddingCache.size + missing.length > MAX_CACHED_EMBEDDINGS) {
+    embeddingCache.clear();
+  }
+  for (let i = 0; i < missing.length; i += EMBED_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EMBED_BATCH_SIZE);
+    const embeddings = await localModelService.embed(
+      "ollama",
+      model,
+      batch.map(({ file }) => embeddingText(file)),
+    );
+    batch.forEach(({ key }, j) => embeddingCache.set(key, embeddings[j]));
+  }
+
+  const [promptEmbedding] = await localModelService.embed("ollama", model, [
+    prompt,
+  ]);
+  const similarities = new Map<string, number>();
+  files.forEach((file, i) => {
+    const embedding = embeddingCache.get(keys[i]);
+    if (embedding) {
+      similarities.set(file.path, cosineSimilarity(promptEmbedding, embedding));
+    }
+  });
+  return similarities;
+}
+
+/**
+ * Pick the files relevant to `prompt` within the selected model's context
+ * budget. Embeddings are optional: when the model isn't available the
+ * selection falls back to keyword and import-graph ranking.
+ */
+export async function selectLocalSmartContext({
+  files,
+  prompt,
+  settings,
+  useEmbeddings = true,
+}: {
+  files: CodebaseFile[];
+  prompt: string;
+  settings: UserSettings;
+  // Token estimates skip them to stay cheap
+  useEmbeddings?: boolean;
+}): Promise<{ selection: SmartContextSelection; files: CodebaseFile[] }> {
+  const readableFiles = files.filter(
+    (file) => file.content !== OMITTED_FILE_CONTENT,
+  );
+  const budgetTokens = Math.floor(
+    (await getContextWindow()) * CODEBASE_CONTEXT_SHARE,
+  );
+
+  let similarities: Map<string, number> | undefined;
+  const embeddingModel = settings.localSmartContextEmbeddingModel?.trim();
+  if (embeddingModel && useEmbeddings) {
+    try {
+      similarities = await computeSimilarities(
+        embeddingModel,
+        readableFiles,
+        prompt,
+      );
+    } catch (error) {
+      logger.warn(
+        `Embedding with "${embeddingModel}" failed, ranking without it:`,
+        error,
+      );
+    }
+  }
+
+  const selection = selectSmartContextFiles(readableFiles, {
+    prompt,
+    budgetTokens,
+    estimateTokens,
+    similarities,
+  });
+  logger.log(
+    `Selected ${selection.files.length} of ${files.length} files (${selection.usedTokens}/${budgetTokens} tokens)`,
+  );
+
+  const selectedPaths = new Set(selection.files.map((file) => file.path));
+  return {
+    selection,
+    files: files.filter((file) => selectedPaths.has(file.path)),
+  };
+}
+
+/**
+ * Format the selected files the way `extractCodebase` does, followed by the
+ * paths of the files that were left out so the model knows they exist.
+ */
+export function formatSmartContextCodebase(
+  selectedFiles: CodebaseFile[],
+  allFiles: CodebaseFile[],
+): string {
+  const selectedPaths = new Set(selectedFiles.map((file) => file.path));
+  const formatted = selectedFiles
+    .map(
+      (file) =>
+        `<dyad-file path="${file.path}">\n${file.content}\n</dyad-file>\n\n`,
+    )
+    .join("");
+  const otherPaths = allFiles
+    .map((file) => file.path)
+    .filter((filePath) => !selectedPaths.has(filePath));
+  if (otherPaths.length === 0) {
+    return formatted;
+  }
+  return `${formatted}Other files in the codebase (contents not included):\n${otherPaths.map((p) => `- ${p}`).join("\n")}\n`;
+}
+
+/**
+ * Tag shown at the top of the response listing the files that were sent
+ * and why each one was picked.
+ */
+export function buildCodebaseContextTag(
+  selection: SmartContextSelection,
+): string {
+  const reasons = selection.files
+    .map((file) => `${file.path}: ${file.reason}`)
+    .join("\n");
+  return `<dyad-codebase-context files="${selection.files.map((file) => file.path).join(",")}">\n${reasons}\n</dyad-codebase-context>\n`;
+}
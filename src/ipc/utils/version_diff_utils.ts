@@ -0,0 +1,154 @@
+import log from "electron-log";
+import { buildHunks, diffLines, getDiffStats } from "../../lib/line_diff";
+import type { VersionDiffFile } from "../ipc_types";
+import {
+  getCurrentCommitHash,
+  getFileAtCommit,
+  gitChangedFiles,
+} from "./git_utils";
+import {
+  getDyadDeleteTags,
+  getDyadRenameTags,
+  getDyadSearchReplaceTags,
+  getDyadWriteTags,
+} from "./dyad_tag_parser";
+import { applySearchReplace } from "../../pro/main/ipc/processors/search_replace_processor";
+
+const logger = log.scope("version_diff_utils");
+
+function isBinary(content: string | null): boolean {
+  return content !== null && content.includes("\0");
+}
+
+export function buildVersionDiffFile(
+  path: string,
+  oldContent: string | null,
+  newContent: string | null,
+): VersionDiffFile {
+  const status =
+    oldContent === null
+      ? "added"
+      : newContent === null
+        ? "deleted"
+        : "modified";
+  if (isBinary(oldContent) || isBinary(newContent)) {
+    return {
+      path,
+      status,
+      oldContent: null,
+      newContent: null,
+      binary: true,
+      additions: 0,
+      deletions: 0,
+      hunks: [],
+    };
+  }
+
+  const lines = diffLines(oldContent ?? "", newContent ?? "");
+  return {
+    path,
+    status,
+    oldContent,
+    newContent,
+    binary: false,
+    ...getDiffStats(lines),
+    hunks: buildHunks(lines),
+  };
+}
+
+export async function getVersionDiff({
+  appPath,
+  fromCommit,
+  toCommit,
+}: {
+  appPath: string;
+  fromCommit: string;
+  toCommit: string;
+}): Promise<VersionDiffFile[]> {
+  // Either side can be a branch name, which reads need resolved to a commit
+  const [fromHash, toHash] = await Promise.all(
+    [fromCommit, toCommit].map((ref) =>
+      getCurrentCommitHash({ path: appPath, ref }),
+    ),
+  );
+  const changed = await gitChangedFiles({
+    path: appPath,
+    from: fromHash,
+    to: toHash,
+  });
+  const readAt = (commitHash: string, filePath: string) =>
+    getFileAtCommit({ path: appPath, filePath, commitHash });
+
+  const files = await Promise.all(
+    changed.map(async (file) =>
+      buildVersionDiffFile(
+        file.path,
+        file.status === "added" ? null : await readAt(fromHash, file.path),
+        file.status === "deleted" ? null : await readAt(toHash, file.path),
+      ),
+    ),
+  );
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Work out what each file would look like if the proposal in `messageContent`
+ * were approved, applying its tags in the same order the response processor
+ * does: deletes, renames, search-replace edits, then writes.
+ */
+export async function getProposalDiff({
+  appPath,
+  messageContent,
+}: {
+  appPath: string;
+  messageContent: string;
+}): Promise<VersionDiffFile[]> {
+  const headCommit = await getCurrentCommitHash({ path: appPath });
+  const original = new Map<string, string | null>();
+  const proposed = new Map<string, string | null>();
+
+  const read = async (filePath: string) => {
+    if (!proposed.has(filePath)) {
+      const content = await getFileAtCommit({
+        path: appPath,
+        filePath,
+        commitHash: headCommit,
+      });
+      original.set(filePath, content);
+      proposed.set(filePath, content);
+    }
+    return proposed.get(filePath) ?? null;
+  };
+
+  for (const filePath of getDyadDeleteTags(messageContent)) {
+    await read(filePath);
+    proposed.set(filePath, null);
+  }
+  for (const tag of getDyadRenameTags(messageContent)) {
+    const content = await read(tag.from);
+    await read(tag.to);
+    proposed.set(tag.from, null);
+    proposed.set(tag.to, content);
+  }
+  for (const tag of getDyadSearchReplaceTags(messageContent)) {
+    const content = await read(tag.path);
+    if (content === null) continue;
+    const result = applySearchReplace(content, tag.content);
+    if (result.success && result.content !== undefined) {
+      proposed.set(tag.path, result.content);
+    } else {
+      logger.warn(`Search-replace for ${tag.path} doesn't apply to HEAD`);
+    }
+  }
+  for (const tag of getDyadWriteTags(messageContent)) {
+    await read(tag.path);
+    proposed.set(tag.path, tag.content);
+  }
+
+  return [...proposed]
+    .filter(([filePath, content]) => original.get(filePath) !== content)
+    .map(([filePath, content]) =>
+      buildVersionDiffFile(filePath, original.get(filePath) ?? null, content),
+    )
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,100 @@
+/**
+ * Agent Test Metrics
+ * Scores agent test sessions and lines a replay up against the session it
+ * replays. Kept free of Electron and database dependencies so the handlers
+ * and tests share the same logic.
+ */
+
+import type {
+  AgentTestMessage,
+  TestMetrics,
+  TestReplayComparison,
+  TokenUsage,
+} from "@/types/agent_builder";
+
+export interface ReplayTurn {
+  input: string;
+  /** The assistant's reply in the original session, if it got one */
+  originalResponse?: AgentTestMessage;
+}
+
+export function describeTestResponse(message: AgentTestMessage): string {
+  return message.error ? `Error: ${message.error}` : message.content;
+}
+
+/** A failed response counts once, plus once per failed tool call */
+export function countMessageErrors(message: AgentTestMessage): number {
+  return (
+    (message.error ? 1 : 0) +
+    (message.toolCalls?.filter((c) => c.status === "failed").length ?? 0)
+  );
+}
+
+export function computeTestMetrics(messages: AgentTestMessage[]): TestMetrics {
+  const responses = messages.filter((m) => m.role === "assistant");
+  const timed = responses.filter((m) => m.latencyMs !== undefined);
+  const tokenUsage = responses.reduce<TokenUsage>(
+    (acc, m) => ({
+      prompt: acc.prompt + (m.tokenUsage?.prompt ?? 0),
+      completion: acc.completion + (m.tokenUsage?.completion ?? 0),
+      total: acc.total + (m.tokenUsage?.total ?? 0),
+    }),
+    { prompt: 0, completion: 0, total: 0 },
+  );
+
+  return {
+    totalMessages: messages.length,
+    averageResponseTime:
+      timed.length > 0
+        ? Math.round(
+            timed.reduce((acc, m) => acc + (m.latencyMs ?? 0), 0) /
+              timed.length,
+          )
+        : undefined,
+    toolCallCount: responses.reduce(
+      (acc, m) => acc + (m.toolCalls?.length ?? 0),
+      0,
+    ),
+    errorCount: responses.reduce((acc, m) => acc + countMessageErrors(m), 0),
+    tokenUsage,
+  };
+}
+
+/**
+ * The user inputs of a session in the order they were sent, each with the
+ * reply it got. System messages in between are skipped; a user message
+ * followed directly by another one had no reply.
+ */
+export function getReplayTurns(messages: AgentTestMessage[]): ReplayTurn[] {
+  const turns: ReplayTurn[] = [];
+  for (const [index, message] of messages.entries()) {
+    if (message.role !== "user") continue;
+
+    const reply = messages.slice(index + 1).find((m) => m.role !== "system");
+    turns.push({
+      input: message.content,
+      originalResponse: reply?.role === "assistant" ? reply : undefined,
+    });
+  }
+  return turns;
+}
+
+export function compareReplayTurn(
+  turn: ReplayTurn,
+  replayResponse: AgentTestMessage,
+): TestReplayComparison {
+  const { input, originalResponse } = turn;
+  return {
+    input,
+    originalResponse:
+      originalResponse && describeTestResponse(originalResponse),
+    replayResponse: describeTestResponse(replayResponse),
+    originalToolCalls: originalResponse?.toolCalls?.map((c) => c.name) ?? [],
+    replayToolCalls: replayResponse.toolCalls?.map((c) => c.name) ?? [],
+    latencyDeltaMs:
+      originalResponse?.latencyMs !== undefined &&
+      replayResponse.latencyMs !== undefined
+        ? replayResponse.latencyMs - originalResponse.latencyMs
+        : undefined,
+  };
+}
@@ -0,0 +1,580 @@
+/**
+ * Agent Workflow Executor
+ * Walks a WorkflowDefinition graph from its entry node, running each node and
+ * following edges until the graph is exhausted, a human node pauses the run,
+ * or a node fails.
+ *
+ * The executor is deliberately free of Electron and database dependencies:
+ * model calls, tool calls, code execution and persistence are injected so the
+ * same engine can be driven from IPC handlers or tests.
+ */
+
+import vm from "node:vm";
+import type {
+  WorkflowDefinition,
+  WorkflowEdge,
+  WorkflowExecution,
+  WorkflowExecutionEventType,
+  WorkflowExecutionStep,
+  WorkflowNode,
+} from "@/types/agent_builder";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WorkflowQueueItem {
+  nodeId: string;
+  input?: unknown;
+}
+
+/** Scheduler state that has to survive a pause so the run can be resumed. */
+export interface WorkflowRunState {
+  queue: WorkflowQueueItem[];
+  loopCounters: Record<string, number>;
+  stepCount: number;
+  /** Input the paused human node was reached with. */
+  pausedInput?: unknown;
+}
+
+export interface WorkflowNodeRunners {
+  llm(
+    node: WorkflowNode,
+    request: { prompt: string; modelId?: string; temperature?: number },
+  ): Promise<unknown>;
+  tool(node: WorkflowNode, input: Record<string, unknown>): Promise<unknown>;
+  subagent(node: WorkflowNode, input: unknown): Promise<unknown>;
+  code(
+    node: WorkflowNode,
+    request: {
+      source: string;
+      language: "javascript" | "python";
+      scope: Record<string, unknown>;
+    },
+  ): Promise<unknown>;
+  fetch?: typeof fetch;
+}
+
+export interface WorkflowExecutorOptions {
+  runners: WorkflowNodeRunners;
+  onEvent?: (
+    type: WorkflowExecutionEventType,
+    execution: WorkflowExecution,
+    step?: WorkflowExecutionStep,
+  ) => void;
+  persist?: (
+    execution: WorkflowExecution,
+    state: WorkflowRunState,
+  ) => Promise<void>;
+  maxSteps?: number;
+}
+
+const DEFAULT_MAX_STEPS = 500;
+const DEFAULT_LOOP_ITERATIONS = 10;
+const EXPRESSION_TIMEOUT_MS = 100;
+const SCOPE_JSON_GLOBAL = "__workflowScopeJson";
+
+const NODE_OUTPUTS_KEY = "nodes";
+const TRUE_HANDLES = ["true", "yes"];
+const FALSE_HANDLES = ["false", "no", "else"];
+const LOOP_BODY_HANDLES = ["body", "loop"];
+
+// ============================================================================
+// Expressions & Templates
+// ============================================================================
+
+/**
+ * Evaluates a JavaScript expression (edge conditions, loop break conditions)
+ * against the given scope in an isolated VM context.
+ *
+ * The context has a null-prototype global and string code generation
+ * disabled, and the scope crosses in and the result crosses out as JSON, so
+ * the expression never holds a host-realm object whose `constructor` chain
+ * could reach the main process. The result is serialized in the same timed
+ * run as the expression, and only a primitive string is accepted back, so
+ * no sandbox code (a `toJSON`, getter or `toString`) runs without the timeout.
+ */
+export function evaluateExpression(
+  expression: string,
+  scope: Record<string, unknown>,
+): unknown {
+  const context = vm.createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false },
+  });
+  context[SCOPE_JSON_GLOBAL] = JSON.stringify(scope);
+  vm.runInContext(
+    `Object.assign(globalThis, JSON.parse(globalThis.${SCOPE_JSON_GLOBAL}));` +
+      `delete globalThis.${SCOPE_JSON_GLOBAL};`,
+    context,
+    { timeout: EXPRESSION_TIMEOUT_MS },
+  );
+  // `JSON.stringify` is looked up before the expression runs, so the
+  // expression can't swap it out first
+  const resultJson: unknown = vm.runInContext(
+    `JSON.stringify((${expression}\n))`,
+    context,
+    { timeout: EXPRESSION_TIMEOUT_MS },
+  );
+  if (resultJson === undefined) return undefined;
+  if (typeof resultJson !== "string") {
+    throw new Error("Expression result could not be serialized");
+  }
+  return JSON.parse(resultJson);
+}
+
+/**
+ * Replaces `{{ expression }}` placeholders in a template. A template that is a
+ * single placeholder returns the raw value so objects survive input mappings.
+ */
+export function interpolateTemplate(
+  template: string,
+  scope: Record<string, unknown>,
+): unknown {
+  const single = template.match(/^\s*\{\{([^}]+)\}\}\s*$/);
+  if (single) {
+    return evaluateExpression(single[1].trim(), scope);
+  }
+  return template.replace(/\{\{([^}]+)\}\}/g, (_match, expr: string) => {
+    const value = evaluateExpression(expr.trim(), scope);
+    if (value === undefined || value === null) return "";
+    return typeof value === "string" ? value : JSON.stringify(value);
+  });
+}
+
+function matchesHandle(edge: WorkflowEdge, handles: string[]): boolean {
+  return [edge.sourceHandle, edge.label, edge.condition].some(
+    (value) => value !== undefined && handles.includes(value.toLowerCase()),
+  );
+}
+
+// ============================================================================
+// Executor
+// ============================================================================
+
+export function createInitialRunState(
+  definition: WorkflowDefinition,
+): WorkflowRunState {
+  return {
+    queue: definition.entryNodeId ? [{ nodeId: definition.entryNodeId }] : [],
+    loopCounters: {},
+    stepCount: 0,
+  };
+}
+
+export function createInitialVariables(
+  definition: WorkflowDefinition,
+  overrides: Record<string, unknown> = {},
+): Record<string, unknown> {
+  const variables: Record<string, unknown> = {};
+  for (const [name, variable] of Object.entries(definition.variables ?? {})) {
+    variables[name] = variable.defaultValue;
+  }
+  return { ...variables, ...overrides, [NODE_OUTPUTS_KEY]: {} };
+}
+
+export class WorkflowExecutor {
+  private cancelled = false;
+  private readonly nodes: Map<string, WorkflowNode>;
+
+  constructor(
+    private readonly definition: WorkflowDefinition,
+    readonly execution: WorkflowExecution,
+    private state: WorkflowRunState,
+    private readonly options: WorkflowExecutorOptions,
+  ) {
+    this.nodes = new Map(definition.nodes.map((node) => [node.id, node]));
+  }
+
+  getState(): WorkflowRunState {
+    return this.state;
+  }
+
+  cancel(): void {
+    this.cancelled = true;
+  }
+
+  /**
+   * Processes queued nodes until the queue drains, a human node pauses the
+   * run, a node fails, or the run is cancelled.
+   */
+  async run(): Promise<WorkflowExecution> {
+    const maxSteps = this.options.maxSteps ?? DEFAULT_MAX_STEPS;
+    this.execution.status = "running";
+
+    if (this.state.queue.length === 0 && this.state.stepCount === 0) {
+      return this.fail(new Error("Workflow has no entry node"));
+    }
+
+    while (this.state.queue.length > 0) {
+      if (this.cancelled) {
+        return this.finish("cancelled");
+      }
+      if (this.state.stepCount >= maxSteps) {
+        return this.fail(
+          new Error(`Workflow exceeded the maximum of ${maxSteps} steps`),
+        );
+      }
+
+      const item = this.state.queue.shift()!;
+      const node = this.nodes.get(item.nodeId);
+      if (!node) {
+        return this.fail(new Error(`Node not found: ${item.nodeId}`));
+      }
+
+      this.state.stepCount++;
+      this.execution.currentNodeId = node.id;
+
+      if (node.type === "human") {
+        return this.pause(node, item.input);
+      }
+
+      const step: WorkflowExecutionStep = {
+        nodeId: node.id,
+        nodeName: node.name,
+        status: "running",
+        input: item.input,
+        startedAt: new Date(),
+      };
+      this.execution.history.push(step);
+      this.emit("step:started", step);
+
+      try {
+        const next = await this.executeNode(node, item.input, step);
+        step.status = "completed";
+        step.completedAt = new Date();
+        this.state.queue.push(...next);
+        this.emit("step:completed", step);
+        await this.persist();
+      } catch (error) {
+        step.status = "failed";
+        step.error = error instanceof Error ? error.message : String(error);
+        step.completedAt = new Date();
+        this.emit("step:failed", step);
+        return this.fail(error);
+      }
+    }
+
+    return this.finish("completed");
+  }
+
+  /**
+   * Completes the pending human node with the provided input and continues
+   * the run from its successors.
+   */
+  async resume(input: unknown): Promise<WorkflowExecution> {
+    if (this.execution.status !== "paused" || !this.execution.currentNodeId) {
+      throw new Error(`Execution ${this.execution.id} is not paused`);
+    }
+
+    const node = this.nodes.get(this.execution.currentNodeId);
+    if (!node) {
+      throw new Error(`Node not found: ${this.execution.currentNodeId}`);
+    }
+
+    const step = [...this.execution.history]
+      .reverse()
+      .find((s) => s.nodeId === node.id && s.status === "pending");
+    if (step) {
+      step.status = "completed";
+      step.output = input;
+      step.completedAt = new Date();
+      this.emit("step:completed", step);
+    }
+
+    this.setNodeOutput(node, input);
+    this.state.queue.push(...this.nextFromEdges(node, input));
+    this.state.pausedInput = undefined;
+    return this.run();
+  }
+
+  // --------------------------------------------------------------------------
+  // Node execution
+  // --------------------------------------------------------------------------
+
+  private async executeNode(
+    node: WorkflowNode,
+    input: unknown,
+    step: WorkflowExecutionStep,
+  ): Promise<WorkflowQueueItem[]> {
+    const { config } = node;
+    const { runners } = this.options;
+
+    switch (node.type) {
+      case "condition": {
+        const result = Boolean(
+          evaluateExpression(config.condition ?? "false", this.scope(input)),
+        );
+        step.output = result;
+        return this.conditionTargets(node, result).map((edge) => ({
+          nodeId: edge.targetId,
+          input,
+        }));
+      }
+
+      case "loop": {
+        const iteration = this.state.loopCounters[node.id] ?? 0;
+        step.iteration = iteration;
+        const maxIterations = config.maxIterations ?? DEFAULT_LOOP_ITERATIONS;
+        const shouldBreak =
+          iteration >= maxIterations ||
+          (!!config.breakCondition &&
+            Boolean(
+              evaluateExpression(config.breakCondition, {
+                ...this.scope(input),
+                iteration,
+              }),
+            ));
+
+        const { body, exit } = this.loopEdges(node);
+        if (shouldBreak) {
+          delete this.state.loopCounters[node.id];
+          step.output = { iterations: iteration, done: true };
+          return exit.map((edge) => ({ nodeId: edge.targetId, input }));
+        }
+
+        this.state.loopCounters[node.id] = iteration + 1;
+        step.output = { iteration, done: false };
+        return body.map((edge) => ({ nodeId: edge.targetId, input }));
+      }
+
+      case "llm": {
+        const prompt = String(
+          interpolateTemplate(config.prompt ?? "{{input}}", this.scope(input)),
+        );
+        step.input = { prompt };
+        const output = await runners.llm(node, {
+          prompt,
+          modelId: config.modelId,
+          temperature: config.temperature,
+        });
+        return this.complete(node, step, output);
+      }
+
+      case "tool": {
+        const toolInput = this.mapInput(config.inputMapping, input);
+        step.input = toolInput;
+        const output = await runners.tool(node, toolInput);
+        return this.complete(node, step, output);
+      }
+
+      case "subagent": {
+        const output = await runners.subagent(node, input);
+        return this.complete(node, step, output);
+      }
+
+      case "transform": {
+        const output = await runners.code(node, {
+          source: config.transformCode ?? "return input;",
+          language: "javascript",
+          scope: this.scope(input),
+        });
+        return this.complete(node, step, output);
+      }
+
+      case "code": {
+        const output = await runners.code(node, {
+          source: config.code ?? "",
+          language: config.language ?? "javascript",
+          scope: this.scope(input),
+        });
+        return this.complete(node, step, output);
+      }
+
+      case "api": {
+        const output = await this.callApi(node, input);
+        return this.complete(node, step, output);
+      }
+
+      default:
+        throw new Error(`Unsupported node type: ${node.type}`);
+    }
+  }
+
+  private complete(
+    node: WorkflowNode,
+    step: WorkflowExecutionStep,
+    output: unknown,
+  ): WorkflowQueueItem[] {
+    step.output = output;
+    this.setNodeOutput(node, output);
+    return this.nextFromEdges(node, output);
+  }
+
+  private async callApi(node: WorkflowNode, input: unknown): Promise<unknown> {
+    const { config } = node;
+    if (!config.endpoint) {
+      throw new Error(`API node "${node.name}" has no endpoint`);
+    }
+
+    const scope = this.scope(input);
+    const url = String(interpolateTemplate(config.endpoint, scope));
+    const headers: Record<string, string> = {};
+    for (const [key, value] of Object.entries(config.headers ?? {})) {
+      headers[key] = String(interpolateTemplate(value, scope));
+    }
+    const method = config.method ?? "GET";
+    let body: string | undefined;
+    if (config.body && method !== "GET") {
+      const rendered = interpolateTemplate(config.body, scope);
+      body = typeof rendered === "string" ? rendered : JSON.stringify(rendered);
+      headers["Content-Type"] ??= "application/json";
+    }
+
+    const doFetch = this.options.runners.fetch ?? fetch;
+    const response = await doFetch(url, { method, headers, body });
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(
+        `API request failed with ${response.status}: ${text.slice(0, 200)}`,
+      );
+    }
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Routing
+  // --------------------------------------------------------------------------
+
+  private outgoing(node: WorkflowNode): WorkflowEdge[] {
+    return this.definition.edges.filter((edge) => edge.sourceId === node.id);
+  }
+
+  private nextFromEdges(
+    node: WorkflowNode,
+    output: unknown,
+  ): WorkflowQueueItem[] {
+    return this.outgoing(node)
+      .filter(
+        (edge) =>
+          !edge.condition ||
+          Boolean(
+            evaluateExpression(edge.condition, {
+              ...this.scope(output),
+              output,
+            }),
+          ),
+      )
+      .map((edge) => ({ nodeId: edge.targetId, input: output }));
+  }
+
+  private conditionTargets(
+    node: WorkflowNode,
+    result: boolean,
+  ): WorkflowEdge[] {
+    const edges = this.outgoing(node);
+    const explicitId = result
+      ? node.config.trueEdgeId
+      : node.config.falseEdgeId;
+    if (explicitId) {
+      return edges.filter((edge) => edge.id === explicitId);
+    }
+    return edges.filter((edge) =>
+      matchesHandle(edge, result ? TRUE_HANDLES : FALSE_HANDLES),
+    );
+  }
+
+  private loopEdges(node: WorkflowNode): {
+    body: WorkflowEdge[];
+    exit: WorkflowEdge[];
+  } {
+    const edges = this.outgoing(node);
+    let body = edges.filter((edge) => matchesHandle(edge, LOOP_BODY_HANDLES));
+    if (body.length === 0 && edges.length > 0) {
+      body = [edges[0]];
+    }
+    return { body, exit: edges.filter((edge) => !body.includes(edge)) };
+  }
+
+  // --------------------------------------------------------------------------
+  // State helpers
+  // --------------------------------------------------------------------------
+
+  private scope(input: unknown): Record<string, unknown> {
+    const { [NODE_OUTPUTS_KEY]: nodes, ...variables } =
+      this.execution.variables;
+    return { input, variables, nodes: nodes ?? {} };
+  }
+
+  private setNodeOutput(node: WorkflowNode, output: unknown): void {
+    const outputs =
+      (this.execution.variables[NODE_OUTPUTS_KEY] as Record<string, unknown>) ??
+      {};
+    outputs[node.id] = output;
+    this.execution.variables[NODE_OUTPUTS_KEY] = outputs;
+  }
+
+  private mapInput(
+    mapping: Record<string, string> | undefined,
+    input: unknown,
+  ): Record<string, unknown> {
+    if (!mapping || Object.keys(mapping).length === 0) {
+      return input && typeof input === "object" && !Array.isArray(input)
+        ? (input as Record<string, unknown>)
+        : { input };
+    }
+    const scope = this.scope(input);
+    const mapped: Record<string, unknown> = {};
+    for (const [key, template] of Object.entries(mapping)) {
+      mapped[key] = interpolateTemplate(template, scope);
+    }
+    return mapped;
+  }
+
+  private emit(
+    type: WorkflowExecutionEventType,
+    step?: WorkflowExecutionStep,
+  ): void {
+    this.options.onEvent?.(type, this.execution, step);
+  }
+
+  private async persist(): Promise<void> {
+    await this.options.persist?.(this.execution, this.state);
+  }
+
+  private async pause(
+    node: WorkflowNode,
+    input: unknown,
+  ): Promise<WorkflowExecution> {
+    const step: WorkflowExecutionStep = {
+      nodeId: node.id,
+      nodeName: node.name,
+      status: "pending",
+      input: { message: node.config.message, input },
+      startedAt: new Date(),
+    };
+    this.execution.history.push(step);
+    this.execution.status = "paused";
+    this.state.pausedInput = input;
+    this.emit("step:started", step);
+    this.emit("execution:paused", step);
+    await this.persist();
+    return this.execution;
+  }
+
+  private async finish(
+    status: "completed" | "cancelled",
+  ): Promise<WorkflowExecution> {
+    this.execution.status = status;
+    this.execution.currentNodeId = undefined;
+    this.execution.completedAt = new Date();
+    this.emit(
+      status === "completed" ? "execution:completed" : "execution:cancelled",
+    );
+    await this.persist();
+    return this.execution;
+  }
+
+  private async fail(error: unknown): Promise<WorkflowExecution> {
+    this.execution.status = "failed";
+    this.execution.error =
+      error instanceof Error ? error.message : String(error);
+    this.execution.completedAt = new Date();
+    this.emit("execution:failed");
+    await this.persist();
+    return this.execution;
+  }
+}
@@ -0,0 +1,516 @@
+/**
+ * Chart Renderer
+ * Draws ChartContent as SVG (for HTML exports) or as a PNG image (for
+ * DOCX/PPTX exports, which embed charts as pictures). Both outputs share
+ * the same layout; the PNG rasterizer has no font, so it leaves out text
+ * and callers are expected to caption the image themselves.
+ */
+
+import * as zlib from "zlib";
+import { crc32 } from "./zip_writer";
+import type { ChartContent } from "@/types/libreoffice_types";
+
+export interface ChartSize {
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_CHART_SIZE: ChartSize = { width: 800, height: 450 };
+
+export const CHART_PALETTE = [
+  "4E79A7",
+  "F28E2B",
+  "E15759",
+  "76B7B2",
+  "59A14F",
+  "EDC948",
+  "B07AA1",
+  "FF9DA7",
+];
+
+/**
+ * Normalizes "#abc", "#aabbcc" or "rgb(r, g, b)" to an upper-case "AABBCC"
+ * hex string, or returns undefined for anything else.
+ */
+export function parseHexColor(value?: string): string | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  const hex = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(trimmed);
+  if (hex) {
+    const digits =
+      hex[1].length === 3
+        ? hex[1]
+            .split("")
+            .map((d) => d + d)
+            .join("")
+        : hex[1];
+    return digits.toUpperCase();
+  }
+  const rgb = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i.exec(trimmed);
+  if (rgb) {
+    return rgb
+      .slice(1, 4)
+      .map((c) => Math.min(255, Number(c)).toString(16).padStart(2, "0"))
+      .join("")
+      .toUpperCase();
+  }
+  return undefined;
+}
+
+/** The color of a dataset, or of one pie slice when `index` is given. */
+export function getSeriesColor(
+  chart: ChartContent,
+  datasetIndex: number,
+  index?: number,
+): string {
+  const dataset = chart.data.datasets[datasetIndex];
+  const background = dataset?.backgroundColor;
+  if (index !== undefined) {
+    const slice = Array.isArray(background) ? background[index] : undefined;
+    return parseHexColor(slice) ?? CHART_PALETTE[index % CHART_PALETTE.length];
+  }
+  const color = Array.isArray(background) ? background[0] : background;
+  return (
+    parseHexColor(dataset?.borderColor) ??
+    parseHexColor(color) ??
+    CHART_PALETTE[datasetIndex % CHART_PALETTE.length]
+  );
+}
+
+// ============= Layout =============
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/** Drawing operations shared by the SVG and raster backends */
+interface ChartSurface {
+  /** Surfaces without text skip the legend, which would be swatches only */
+  readonly drawsText: boolean;
+  rect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    color: string,
+    opacity?: number,
+  ): void;
+  polygon(points: Point[], color: string, opacity?: number): void;
+  line(points: Point[], color: string, width: number): void;
+  circle(center: Point, radius: number, color: string): void;
+  text(position: Point, value: string, options: TextOptions): void;
+}
+
+interface TextOptions {
+  size: number;
+  anchor?: "start" | "middle" | "end";
+  bold?: boolean;
+}
+
+const AXIS_COLOR = "9CA3AF";
+const GRID_COLOR = "E5E7EB";
+const TEXT_COLOR = "374151";
+
+function formatTick(value: number): string {
+  if (Math.abs(value) >= 1_000_000)
+    return `${+(value / 1_000_000).toFixed(1)}M`;
+  if (Math.abs(value) >= 1_000) return `${+(value / 1_000).toFixed(1)}k`;
+  return String(+value.toFixed(2));
+}
+
+/** Rounds the axis maximum up to a 1/2/5 step so ticks land on tidy values */
+function niceStep(range: number, ticks: number): number {
+  const raw = range / ticks || 1;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const normalized = raw / magnitude;
+  const step =
+    normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+  return step * magnitude;
+}
+
+function drawChart(
+  chart: ChartContent,
+  surface: ChartSurface,
+  size: ChartSize,
+): void {
+  const { width, height } = size;
+  const title = chart.title ?? chart.options?.title;
+  const datasets = chart.data.datasets;
+  const labels = chart.data.labels;
+  const showLegend =
+    surface.drawsText &&
+    chart.options?.legend !== false &&
+    (datasets.length > 1 || chart.type === "pie");
+
+  surface.rect(0, 0, width, height, "FFFFFF");
+  const top = title ? 48 : 20;
+  if (title) {
+    surface.text({ x: width / 2, y: 30 }, title, {
+      size: 18,
+      anchor: "middle",
+      bold: true,
+    });
+  }
+  const bottom = height - (showLegend ? 64 : 40);
+
+  if (showLegend) {
+    const entries =
+      chart.type === "pie"
+        ? labels.map((label, i) => ({
+            label,
+            color: getSeriesColor(chart, 0, i),
+          }))
+        : datasets.map((d, i) => ({
+            label: d.label,
+            color: getSeriesColor(chart, i),
+          }));
+    let x = 20;
+    for (const entry of entries) {
+      surface.rect(x, height - 26, 12, 12, entry.color);
+      surface.text({ x: x + 18, y: height - 16 }, entry.label, { size: 12 });
+      x += 30 + entry.label.length * 7;
+    }
+  }
+
+  if (chart.type === "pie") {
+    const values = (datasets[0]?.data ?? []).map((v) => Math.max(0, v));
+    const total = values.reduce((sum, v) => sum + v, 0);
+    const center = { x: width / 2, y: (top + bottom) / 2 };
+    const radius = Math.max(10, Math.min(width, bottom - top) / 2 - 10);
+    let angle = -Math.PI / 2;
+    values.forEach((value, i) => {
+      if (!total || !value) return;
+      const sweep = (value / total) * Math.PI * 2;
+      const steps = Math.max(2, Math.ceil(sweep / 0.05));
+      const points = [center];
+      for (let s = 0; s <= steps; s++) {
+        const a = angle + (sweep * s) / steps;
+        points.push({
+          x: center.x + radius * Math.cos(a),
+          y: center.y + radius * Math.sin(a),
+        });
+      }
+      surface.polygon(points, getSeriesColor(chart, 0, i));
+      angle += sweep;
+    });
+    return;
+  }
+
+  const values = datasets.flatMap((d) => d.data).filter(Number.isFinite);
+  const min = Math.min(0, ...values);
+  const step = niceStep(Math.max(...values, 0) - min, 4);
+  const axisMin = Math.floor(min / step) * step;
+  const axisMax = Math.max(
+    axisMin + step,
+    Math.ceil(Math.max(...values, 0) / step) * step,
+  );
+  const left = 64;
+  const right = width - 20;
+  const plotHeight = bottom - top;
+  const scaleY = (value: number) =>
+    bottom - ((value - axisMin) / (axisMax - axisMin)) * plotHeight;
+  const slot = (right - left) / Math.max(labels.length, 1);
+  const slotCenter = (i: number) => left + slot * (i + 0.5);
+
+  for (let tick = axisMin; tick <= axisMax + step / 2; tick += step) {
+    const y = scaleY(tick);
+    surface.rect(left, y, right - left, 1, GRID_COLOR);
+    surface.text({ x: left - 8, y: y + 4 }, formatTick(tick), {
+      size: 11,
+      anchor: "end",
+    });
+  }
+  surface.rect(left, top, 1, plotHeight, AXIS_COLOR);
+  surface.rect(left, scaleY(Math.max(0, axisMin)), right - left, 1, AXIS_COLOR);
+  labels.forEach((label, i) => {
+    surface.text({ x: slotCenter(i), y: bottom + 18 }, label, {
+      size: 11,
+      anchor: "middle",
+    });
+  });
+  if (chart.options?.xAxisLabel) {
+    surface.text(
+      { x: (left + right) / 2, y: bottom + 34 },
+      chart.options.xAxisLabel,
+      { size: 12, anchor: "middle" },
+    );
+  }
+  if (chart.options?.yAxisLabel) {
+    surface.text({ x: 12, y: top - 8 }, chart.options.yAxisLabel, { size: 12 });
+  }
+
+  const baseline = scaleY(Math.max(0, axisMin));
+  datasets.forEach((dataset, d) => {
+    const color = getSeriesColor(chart, d);
+    const points = dataset.data.slice(0, labels.length).map((value, i) => ({
+      x: slotCenter(i),
+      y: scaleY(Number.isFinite(value) ? value : 0),
+    }));
+
+    if (chart.type === "bar") {
+      const barWidth = (slot * 0.8) / datasets.length;
+      points.forEach((point, i) => {
+        const x = left + slot * i + slot * 0.1 + barWidth * d;
+        surface.rect(
+          x,
+          Math.min(point.y, baseline),
+          Math.max(1, barWidth - 2),
+          Math.abs(baseline - point.y),
+          color,
+        );
+      });
+    } else if (chart.type === "scatter") {
+      points.forEach((point) => surface.circle(point, 5, color));
+    } else {
+      if (chart.type === "area" && points.length > 1) {
+        surface.polygon(
+          [
+            { x: points[0].x, y: baseline },
+            ...points,
+            { x: points[points.length - 1].x, y: baseline },
+          ],
+          color,
+          0.35,
+        );
+      }
+      surface.line(points, color, 3);
+      points.forEach((point) => surface.circle(point, 3.5, color));
+    }
+  });
+}
+
+// ============= SVG =============
+
+function escapeSvg(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Renders a chart as a standalone SVG element.
+ */
+export function renderChartSvg(
+  chart: ChartContent,
+  size: ChartSize = DEFAULT_CHART_SIZE,
+): string {
+  const parts: string[] = [];
+  const opacityAttr = (opacity?: number) =>
+    opacity !== undefined ? ` fill-opacity="${opacity}"` : "";
+  drawChart(
+    chart,
+    {
+      drawsText: true,
+      rect: (x, y, w, h, color, opacity) =>
+        parts.push(
+          `<rect x="${round(x)}" y="${round(y)}" width="${round(w)}" height="${round(h)}" fill="#${color}"${opacityAttr(opacity)}/>`,
+        ),
+      polygon: (points, color, opacity) =>
+        parts.push(
+          `<polygon points="${points.map((p) => `${round(p.x)},${round(p.y)}`).join(" ")}" fill="#${color}"${opacityAttr(opacity)}/>`,
+        ),
+      line: (points, color, width) =>
+        parts.push(
+          `<polyline points="${points.map((p) => `${round(p.x)},${round(p.y)}`).join(" ")}" fill="none" stroke="#${color}" stroke-width="${width}" stroke-linejoin="round"/>`,
+        ),
+      circle: (center, radius, color) =>
+        parts.push(
+          `<circle cx="${round(center.x)}" cy="${round(center.y)}" r="${radius}" fill="#${color}"/>`,
+        ),
+      text: (position, value, options) =>
+        parts.push(
+          `<text x="${round(position.x)}" y="${round(position.y)}" font-size="${options.size}" text-anchor="${options.anchor ?? "start"}"${options.bold ? ' font-weight="bold"' : ""} fill="#${TEXT_COLOR}">${escapeSvg(value)}</text>`,
+        ),
+    },
+    size,
+  );
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size.width}" height="${size.height}" viewBox="0 0 ${size.width} ${size.height}" font-family="Helvetica, Arial, sans-serif">${parts.join("")}</svg>`;
+}
+
+// ============= PNG =============
+
+class RasterSurface implements ChartSurface {
+  readonly drawsText = false;
+  readonly pixels: Uint8Array;
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+  ) {
+    this.pixels = new Uint8Array(width * height * 4);
+  }
+
+  private blend(x: number, y: number, color: number[], opacity: number) {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) return;
+    const offset = (y * this.width + x) * 4;
+    for (let c = 0; c < 3; c++) {
+      this.pixels[offset + c] = Math.round(
+        color[c] * opacity + this.pixels[offset + c] * (1 - opacity),
+      );
+    }
+    this.pixels[offset + 3] = 255;
+  }
+
+  rect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    color: string,
+    opacity = 1,
+  ) {
+    const rgb = toRgb(color);
+    const x1 = Math.min(this.width, Math.round(x + width));
+    const y1 = Math.min(this.height, Math.round(y + height));
+    for (let py = Math.max(0, Math.round(y)); py < y1; py++) {
+      for (let px = Math.max(0, Math.round(x)); px < x1; px++) {
+        this.blend(px, py, rgb, opacity);
+      }
+    }
+  }
+
+  /** Even-odd scanline fill, sampling at pixel centers */
+  polygon(points: Point[], color: string, opacity = 1) {
+    if (points.length < 3) return;
+    const rgb = toRgb(color);
+    const ys = points.map((p) => p.y);
+    const yStart = Math.max(0, Math.floor(Math.min(...ys)));
+    const yEnd = Math.min(this.height - 1, Math.ceil(Math.max(...ys)));
+    for (let py = yStart; py <= yEnd; py++) {
+      const sy = py + 0.5;
+      const crossings: number[] = [];
+      for (let i = 0; i < points.length; i++) {
+        const a = points[i];
+        const b = points[(i + 1) % points.length];
+        if ((a.y <= sy && b.y > sy) || (b.y <= sy && a.y > sy)) {
+          crossings.push(a.x + ((sy - a.y) / (b.y - a.y)) * (b.x - a.x));
+        }
+      }
+      crossings.sort((a, b) => a - b);
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const xEnd = Math.min(
+          this.width - 1,
+          Math.round(crossings[i + 1] - 0.5),
+        );
+        for (
+          let px = Math.max(0, Math.round(crossings[i] - 0.5));
+          px <= xEnd;
+          px++
+        ) {
+          this.blend(px, py, rgb, opacity);
+        }
+      }
+    }
+  }
+
+  line(points: Point[], color: string, width: number) {
+    const half = width / 2;
+    for (let i = 0; i + 1 < points.length; i++) {
+      const a = points[i];
+      const b = points[i + 1];
+      const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+      const nx = (-(b.y - a.y) / length) * half;
+      const ny = ((b.x - a.x) / length) * half;
+      this.polygon(
+        [
+          { x: a.x + nx, y: a.y + ny },
+          { x: b.x + nx, y: b.y + ny },
+          { x: b.x - nx, y: b.y - ny },
+          { x: a.x - nx, y: a.y - ny },
+        ],
+        color,
+      );
+      this.circle(b, half, color);
+    }
+  }
+
+  circle(center: Point, radius: number, color: string) {
+    const points: Point[] = [];
+    for (let i = 0; i < 24; i++) {
+      const a = (i / 24) * Math.PI * 2;
+      points.push({
+        x: center.x + radius * Math.cos(a),
+        y: center.y + radius * Math.sin(a),
+      });
+    }
+    this.polygon(points, color);
+  }
+
+  text() {
+    // No font available; callers caption the image instead
+  }
+}
+
+function toRgb(hex: string): number[] {
+  return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16));
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, "ascii");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(data, crc32(header.subarray(4))), 0);
+  return Buffer.concat([header, data, crc]);
+}
+
+/**
+ * Encodes RGBA pixels as a PNG (8-bit, no filtering).
+ */
+export function encodePng(
+  width: number,
+  height: number,
+  rgba: Uint8Array,
+): Buffer {
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0;
+    raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // RGBA
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", ihdr),
+    pngChunk("IDAT", zlib.deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Renders a chart as a PNG image. Titles, labels and legend text are not
+ * drawn; see `describeChart` for a caption to place alongside.
+ */
+export function renderChartPng(
+  chart: ChartContent,
+  size: ChartSize = DEFAULT_CHART_SIZE,
+): Buffer {
+  const surface = new RasterSurface(size.width, size.height);
+  drawChart(chart, surface, size);
+  return encodePng(size.width, size.height, surface.pixels);
+}
+
+/**
+ * A one-line caption for a chart image: its title and the series legend.
+ */
+export function describeChart(chart: ChartContent): string {
+  const title = chart.title ?? chart.options?.title ?? "Chart";
+  const series =
+    chart.type === "pie"
+      ? chart.data.labels.map(
+          (label, i) => `${label}: ${chart.data.datasets[0]?.data[i] ?? 0}`,
+        )
+      : chart.data.datasets.map((d) => d.label).filter(Boolean);
+  return series.length > 0 ? `${title} (${series.join(", ")})` : title;
+}
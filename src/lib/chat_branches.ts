@@ -0,0 +1,24 @@
+/**
+ * Naming for per-chat git branches. Each chat gets its own branch, derived
+ * from the chat id, so the branch can always be found again without storing
+ * it anywhere.
+ */
+
+export const MAIN_BRANCH = "main";
+export const CHAT_BRANCH_PREFIX = "chat/";
+
+export function chatBranchName(chatId: number): string {
+  return `${CHAT_BRANCH_PREFIX}${chatId}`;
+}
+
+export function chatIdFromBranch(
+  branch: string | null | undefined,
+): number | null {
+  if (!branch?.startsWith(CHAT_BRANCH_PREFIX)) return null;
+  const id = branch.slice(CHAT_BRANCH_PREFIX.length);
+  return /^\d+$/.test(id) ? Number(id) : null;
+}
+
+export function isChatBranch(branch: string | null | undefined): boolean {
+  return chatIdFromBranch(branch) !== null;
+}
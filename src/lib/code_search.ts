@@ -0,0 +1,471 @@
+/**
+ * Code search over an app's files for the local agent: regex grep with
+ * context lines, and TypeScript/JavaScript symbol lookup through the
+ * TypeScript language service.
+ *
+ * Both work on in-memory file contents so they see the same files the agent
+ * does, including anything it has written during the current turn.
+ */
+
+import path from "node:path";
+import { Worker } from "node:worker_threads";
+import type * as TS from "typescript";
+
+export interface SearchableFile {
+  path: string;
+  content: string;
+}
+
+// ============================================================================
+// Grep
+// ============================================================================
+
+export const MAX_GREP_MATCHES = 200;
+export const MAX_CONTEXT_LINES = 10;
+const MAX_LINE_LENGTH = 300;
+export const GREP_TIMEOUT_MS = 5_000;
+
+export interface GrepOptions {
+  pattern: string;
+  caseSensitive?: boolean;
+  contextLines?: number;
+  maxMatches?: number;
+  timeoutMs?: number;
+}
+
+export interface GrepMatch {
+  path: string;
+  line: number;
+  text: string;
+  before: string[];
+  after: string[];
+}
+
+export interface GrepResult {
+  matches: GrepMatch[];
+  files: string[];
+  truncated: boolean;
+}
+
+function clipLine(line: string): string {
+  return line.length > MAX_LINE_LENGTH
+    ? `${line.slice(0, MAX_LINE_LENGTH)}…`
+    : line;
+}
+
+/**
+ * Source of the worker that runs the regex. It is evaluated as a CommonJS
+ * worker so it needs no separate build entry. It posts `[fileIndex,
+ * lineIndex]` pairs for up to `limit` matching lines.
+ */
+const GREP_WORKER_SOURCE = String.raw`
+const { parentPort, workerData } = require("node:worker_threads");
+const { pattern, flags, contents, limit } = workerData;
+const regex = new RegExp(pattern, flags);
+const found = [];
+search: for (let f = 0; f < contents.length; f++) {
+  const lines = contents[f].split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    if (!regex.test(lines[i])) continue;
+    found.push([f, i]);
+    if (found.length >= limit) break search;
+  }
+}
+parentPort.postMessage(found);
+`;
+
+/**
+ * Patterns come from the model, and one that backtracks catastrophically
+ * would block the main process, so matching runs in a worker that is
+ * terminated once it runs past the timeout.
+ */
+function findMatchingLines(
+  contents: string[],
+  regex: RegExp,
+  limit: number,
+  timeoutMs: number,
+): Promise<[number, number][]> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(GREP_WORKER_SOURCE, {
+      eval: true,
+      workerData: {
+        pattern: regex.source,
+        flags: regex.flags,
+        contents,
+        limit,
+      },
+      env: {},
+    });
+    const timer = setTimeout(() => {
+      void worker.terminate();
+      reject(
+        new Error(
+          `Search timed out after ${timeoutMs / 1000}s; try a simpler pattern`,
+        ),
+      );
+    }, timeoutMs);
+
+    worker.once("message", (found: [number, number][]) => {
+      clearTimeout(timer);
+      void worker.terminate();
+      resolve(found);
+    });
+    worker.once("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+
+export async function grepFiles(
+  files: SearchableFile[],
+  options: GrepOptions,
+): Promise<GrepResult> {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(options.pattern, options.caseSensitive ? "" : "i");
+  } catch (error) {
+    throw new Error(`Invalid regular expression: ${(error as Error).message}`);
+  }
+
+  const contextLines = Math.min(
+    Math.max(options.contextLines ?? 0, 0),
+    MAX_CONTEXT_LINES,
+  );
+  const maxMatches = options.maxMatches ?? MAX_GREP_MATCHES;
+  const sorted = [...files].sort((a, b) => a.path.localeCompare(b.path));
+  // One match past the limit tells us the result was truncated
+  const found = await findMatchingLines(
+    sorted.map((file) => file.content),
+    regex,
+    maxMatches + 1,
+    options.timeoutMs ?? GREP_TIMEOUT_MS,
+  );
+
+  const matches: GrepMatch[] = [];
+  const matchedFiles: string[] = [];
+  let lines: string[] = [];
+
+  for (const [fileIndex, i] of found.slice(0, maxMatches)) {
+    const file = sorted[fileIndex];
+    // Matches arrive in file order, so each file is split once
+    if (matchedFiles[matchedFiles.length - 1] !== file.path) {
+      lines = file.content.split(/\r?\n/);
+      matchedFiles.push(file.path);
+    }
+
+    matches.push({
+      path: file.path,
+      line: i + 1,
+      text: clipLine(lines[i]),
+      before: lines.slice(Math.max(0, i - contextLines), i).map(clipLine),
+      after: lines.slice(i + 1, i + 1 + contextLines).map(clipLine),
+    });
+  }
+
+  return {
+    matches,
+    files: matchedFiles,
+    truncated: found.length > maxMatches,
+  };
+}
+
+/**
+ * Render matches the way `grep -n` does: `path:line:text` for matches and
+ * `path-line-text` for context, with `--` between separate hunks
+ */
+export function formatGrepResult(result: GrepResult): string {
+  if (result.matches.length === 0) {
+    return "No matches found.";
+  }
+
+  const out: string[] = [];
+  let last: { path: string; line: number } | null = null;
+
+  for (const match of result.matches) {
+    const firstLine = match.line - match.before.length;
+    const adjacent =
+      last && last.path === match.path && firstLine <= last.line + 1;
+    if (last && !adjacent && (match.before.length || match.after.length)) {
+      out.push("--");
+    }
+
+    match.before.forEach((text, i) => {
+      const line = firstLine + i;
+      if (!adjacent || line > last!.line) {
+        out.push(`${match.path}-${line}-${text}`);
+      }
+    });
+    out.push(`${match.path}:${match.line}:${match.text}`);
+    match.after.forEach((text, i) => {
+      out.push(`${match.path}-${match.line + 1 + i}-${text}`);
+    });
+    last = { path: match.path, line: match.line + match.after.length };
+  }
+
+  if (result.truncated) {
+    out.push(
+      `\n(Stopped after ${result.matches.length} matches. Narrow the pattern or the file filter to see more.)`,
+    );
+  }
+  return out.join("\n");
+}
+
+// ============================================================================
+// Find Symbol
+// ============================================================================
+
+export const MAX_SYMBOL_REFERENCES = 100;
+
+const SCRIPT_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+];
+
+export function isScriptFile(filePath: string): boolean {
+  return SCRIPT_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+export interface SymbolLocation {
+  path: string;
+  line: number;
+  column: number;
+  kind: string;
+  text: string;
+}
+
+export interface SymbolSearchResult {
+  definitions: SymbolLocation[];
+  references: SymbolLocation[];
+  truncated: boolean;
+}
+
+/**
+ * Build a language service over in-memory files. Paths are resolved against
+ * `rootDir` so module resolution (including tsconfig `paths`) works as it
+ * would on disk, without touching it.
+ */
+function createLanguageService(
+  ts: typeof TS,
+  files: SearchableFile[],
+  rootDir: string,
+  compilerOptions: TS.CompilerOptions,
+): TS.LanguageService {
+  const contents = new Map(
+    files.map((file) => [path.resolve(rootDir, file.path), file.content]),
+  );
+  const directories = new Set<string>();
+  for (const fileName of contents.keys()) {
+    for (let dir = path.dirname(fileName); ; dir = path.dirname(dir)) {
+      directories.add(dir);
+      if (path.dirname(dir) === dir) break;
+    }
+  }
+
+  const host: TS.LanguageServiceHost = {
+    getCompilationSettings: () => ({
+      ...compilerOptions,
+      allowJs: true,
+      noEmit: true,
+      // Without the lib files we still resolve everything defined in the app
+      noLib: true,
+      types: [],
+    }),
+    getScriptFileNames: () => [...contents.keys()],
+    getScriptVersion: () => "1",
+    getScriptSnapshot: (fileName) => {
+      const content = contents.get(path.resolve(fileName));
+      return content === undefined
+        ? undefined
+        : ts.ScriptSnapshot.fromString(content);
+    },
+    getCurrentDirectory: () => rootDir,
+    getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+    fileExists: (fileName) => contents.has(path.resolve(fileName)),
+    readFile: (fileName) => contents.get(path.resolve(fileName)),
+    directoryExists: (dirName) => directories.has(path.resolve(dirName)),
+    getDirectories: () => [],
+  };
+  return ts.createLanguageService(host, ts.createDocumentRegistry());
+}
+
+function declarationKind(ts: typeof TS, node: TS.Node): string | null {
+  switch (node.kind) {
+    case ts.SyntaxKind.FunctionDeclaration:
+      return "function";
+    case ts.SyntaxKind.ClassDeclaration:
+      return "class";
+    case ts.SyntaxKind.InterfaceDeclaration:
+      return "interface";
+    case ts.SyntaxKind.TypeAliasDeclaration:
+      return "type";
+    case ts.SyntaxKind.EnumDeclaration:
+      return "enum";
+    case ts.SyntaxKind.VariableDeclaration:
+      return "variable";
+    case ts.SyntaxKind.MethodDeclaration:
+    case ts.SyntaxKind.MethodSignature:
+      return "method";
+    case ts.SyntaxKind.PropertyDeclaration:
+    case ts.SyntaxKind.PropertySignature:
+      return "property";
+    case ts.SyntaxKind.ModuleDeclaration:
+      return "namespace";
+    default:
+      return null;
+  }
+}
+
+function toLocation(
+  sourceFile: TS.SourceFile,
+  position: number,
+  relativePath: string,
+  kind: string,
+): SymbolLocation {
+  const { line, character } =
+    sourceFile.getLineAndCharacterOfPosition(position);
+  const lineStart = sourceFile.getPositionOfLineAndCharacter(line, 0);
+  const lineEnd = sourceFile.text.indexOf("\n", lineStart);
+  return {
+    path: relativePath,
+    line: line + 1,
+    column: character + 1,
+    kind,
+    text: clipLine(
+      sourceFile.text
+        .slice(lineStart, lineEnd === -1 ? undefined : lineEnd)
+        .trim(),
+    ),
+  };
+}
+
+/**
+ * Find where a symbol is declared and everywhere it's used.
+ * Declarations are found syntactically by name; references come from the
+ * language service so they follow imports, re-exports and renames.
+ */
+export function findSymbolInFiles(
+  ts: typeof TS,
+  files: SearchableFile[],
+  options: {
+    name: string;
+    rootDir: string;
+    compilerOptions?: TS.CompilerOptions;
+    includeReferences?: boolean;
+    maxReferences?: number;
+  },
+): SymbolSearchResult {
+  const scripts = files.filter((file) => isScriptFile(file.path));
+  const service = createLanguageService(
+    ts,
+    scripts,
+    options.rootDir,
+    options.compilerOptions ?? {},
+  );
+  const program = service.getProgram();
+  if (!program) {
+    throw new Error("Failed to create TypeScript program");
+  }
+
+  const toRelative = (fileName: string) =>
+    path.relative(options.rootDir, fileName).split(path.sep).join("/");
+
+  const definitions: (SymbolLocation & { fileName: string; pos: number })[] =
+    [];
+  for (const file of scripts) {
+    const fileName = path.resolve(options.rootDir, file.path);
+    const sourceFile = program.getSourceFile(fileName);
+    if (!sourceFile) continue;
+
+    const visit = (node: TS.Node) => {
+      const kind = declarationKind(ts, node);
+      const name = (node as TS.NamedDeclaration).name;
+      if (kind && name && ts.isIdentifier(name) && name.text === options.name) {
+        const pos = name.getStart(sourceFile);
+        definitions.push({
+          ...toLocation(sourceFile, pos, file.path, kind),
+          fileName,
+          pos,
+        });
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  const references: SymbolLocation[] = [];
+  let truncated = false;
+  if (options.includeReferences !== false) {
+    const maxReferences = options.maxReferences ?? MAX_SYMBOL_REFERENCES;
+    const seen = new Set<string>();
+    const isDefinition = (relativePath: string, pos: number) =>
+      definitions.some((d) => d.path === relativePath && d.pos === pos);
+
+    for (const definition of definitions) {
+      const referenced =
+        service.findReferences(definition.fileName, definition.pos) ?? [];
+      for (const symbol of referenced) {
+        for (const ref of symbol.references) {
+          const relativePath = toRelative(ref.fileName);
+          const key = `${relativePath}:${ref.textSpan.start}`;
+          if (seen.has(key) || isDefinition(relativePath, ref.textSpan.start)) {
+            continue;
+          }
+          seen.add(key);
+          if (references.length >= maxReferences) {
+            truncated = true;
+            continue;
+          }
+          const sourceFile = program.getSourceFile(ref.fileName)!;
+          references.push(
+            toLocation(
+              sourceFile,
+              ref.textSpan.start,
+              relativePath,
+              "reference",
+            ),
+          );
+        }
+      }
+    }
+    references.sort((a, b) => a.path.localeCompare(b.path) || a.line - b.line);
+  }
+
+  return {
+    definitions: definitions.map(
+      ({ fileName: _f, pos: _p, ...location }) => location,
+    ),
+    references,
+    truncated,
+  };
+}
+
+export function formatSymbolSearchResult(
+  name: string,
+  result: SymbolSearchResult,
+): string {
+  if (result.definitions.length === 0) {
+    return `No TypeScript/JavaScript definition found for "${name}".`;
+  }
+
+  const out = [`Definitions of "${name}":`];
+  for (const d of result.definitions) {
+    out.push(`${d.path}:${d.line}:${d.column} (${d.kind}) ${d.text}`);
+  }
+  if (result.references.length > 0) {
+    out.push("", `References (${result.references.length}):`);
+    for (const r of result.references) {
+      out.push(`${r.path}:${r.line}:${r.column} ${r.text}`);
+    }
+  }
+  if (result.truncated) {
+    out.push(`\n(Showing the first ${result.references.length} references.)`);
+  }
+  return out.join("\n");
+}
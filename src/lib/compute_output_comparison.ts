@@ -0,0 +1,378 @@
+/**
+ * Compute Output Comparison
+ * Compares inference outputs produced by different peers so validators can
+ * score how closely an executor's result matches an independent re-run.
+ */
+
+import type {
+  Discrepancy,
+  ExecutionMetrics,
+} from "@/types/compute_network_types";
+
+/** Minimum match score for a result to be considered valid */
+export const OUTPUT_MATCH_THRESHOLD = 0.95;
+
+/** Cosine similarity at which two embeddings are treated as identical */
+const EMBEDDING_MATCH_SIMILARITY = 0.999;
+
+/** Throughput above this is not achievable by any local backend */
+const MAX_PLAUSIBLE_TOKENS_PER_SECOND = 5000;
+
+export interface OutputComparison {
+  /** Similarity between the two outputs (0-1) */
+  matchScore: number;
+  discrepancies: Discrepancy[];
+}
+
+interface ComputeOutput {
+  type?: string;
+  model?: string;
+  text?: string;
+  finishReason?: string;
+  embeddings?: number[][];
+}
+
+/**
+ * Compares a validator's re-run output against the executor's output.
+ * Text is scored by token-level edit distance and embeddings by cosine
+ * similarity, so small numeric drift between backends doesn't fail a job.
+ */
+export function compareJobOutputs(
+  expected: unknown,
+  actual: unknown,
+): OutputComparison {
+  if (!isComputeOutput(expected) || !isComputeOutput(actual)) {
+    const matches = JSON.stringify(expected) === JSON.stringify(actual);
+    return {
+      matchScore: matches ? 1 : 0,
+      discrepancies: matches
+        ? []
+        : [mismatch("Outputs differ", 0, { expected, actual })],
+    };
+  }
+
+  if (expected.type !== actual.type) {
+    return {
+      matchScore: 0,
+      discrepancies: [
+        {
+          type: "output-mismatch",
+          description: `Output type "${actual.type}" does not match "${expected.type}"`,
+          severity: "critical",
+        },
+      ],
+    };
+  }
+
+  const discrepancies: Discrepancy[] = [];
+  if (expected.model && actual.model && expected.model !== actual.model) {
+    discrepancies.push({
+      type: "output-mismatch",
+      description: `Output was produced by model "${actual.model}" instead of "${expected.model}"`,
+      severity: "high",
+      evidence: { expected: expected.model, actual: actual.model },
+    });
+  }
+
+  const comparison =
+    expected.embeddings || actual.embeddings
+      ? compareEmbeddings(expected.embeddings ?? [], actual.embeddings ?? [])
+      : compareText(expected.text ?? "", actual.text ?? "");
+
+  return {
+    matchScore: comparison.matchScore,
+    discrepancies: [...discrepancies, ...comparison.discrepancies],
+  };
+}
+
+/**
+ * Compares a validator's sampled re-run against the matching part of the
+ * executor's output: the sampled texts for embeddings, or the leading
+ * tokens for generation.
+ */
+export function compareSampledOutputs(
+  sampleOutput: unknown,
+  executorOutput: unknown,
+  sampledIndices?: number[],
+): OutputComparison {
+  if (!isComputeOutput(sampleOutput) || !isComputeOutput(executorOutput)) {
+    return compareJobOutputs(sampleOutput, executorOutput);
+  }
+
+  if (sampleOutput.embeddings && executorOutput.embeddings && sampledIndices) {
+    const embeddings = executorOutput.embeddings;
+    return compareJobOutputs(sampleOutput, {
+      ...executorOutput,
+      embeddings: sampledIndices.map((index) => embeddings[index] ?? []),
+    });
+  }
+
+  // A sample that finished on its own must match the whole output
+  if (
+    sampleOutput.finishReason === "stop" ||
+    sampleOutput.text === undefined ||
+    executorOutput.text === undefined ||
+    sampleOutput.type !== executorOutput.type
+  ) {
+    return compareJobOutputs(sampleOutput, executorOutput);
+  }
+
+  const sampleText = sampleOutput.text;
+  const prefixLength = commonPrefixLength(sampleText, executorOutput.text);
+  const matchScore =
+    sampleText.length === 0 ? 1 : prefixLength / sampleText.length;
+  return {
+    matchScore,
+    discrepancies:
+      matchScore < 1
+        ? [
+            mismatch(
+              `Output diverges from the sampled re-run after ${prefixLength} characters`,
+              matchScore,
+              {
+                sample: sampleText,
+                executorPrefix: executorOutput.text.slice(0, sampleText.length),
+              },
+            ),
+          ]
+        : [],
+  };
+}
+
+/**
+ * Flags execution metrics that are internally inconsistent or physically
+ * implausible.
+ */
+export function checkExecutionMetrics(
+  metrics: ExecutionMetrics,
+): Discrepancy[] {
+  const discrepancies: Discrepancy[] = [];
+  const components = [
+    metrics.modelLoadTimeMs,
+    metrics.inputProcessTimeMs,
+    metrics.inferenceTimeMs,
+    metrics.outputProcessTimeMs,
+  ];
+
+  if ([metrics.executionTimeMs, ...components].some((value) => value < 0)) {
+    discrepancies.push({
+      type: "metric-mismatch",
+      description: "Execution metrics contain negative timings",
+      severity: "high",
+      evidence: metrics,
+    });
+  }
+
+  const componentTotal = components.reduce((sum, value) => sum + value, 0);
+  // Allow for rounding between the backend's clock and ours
+  if (componentTotal > metrics.executionTimeMs * 1.05 + 50) {
+    discrepancies.push({
+      type: "metric-mismatch",
+      description: `Component timings (${componentTotal}ms) exceed the total execution time (${metrics.executionTimeMs}ms)`,
+      severity: "medium",
+      evidence: { componentTotal, executionTimeMs: metrics.executionTimeMs },
+    });
+  }
+
+  if (
+    metrics.tokensPerSecond !== undefined &&
+    metrics.tokensPerSecond > MAX_PLAUSIBLE_TOKENS_PER_SECOND
+  ) {
+    discrepancies.push({
+      type: "timing-anomaly",
+      description: `Reported throughput of ${metrics.tokensPerSecond} tokens/s is implausible`,
+      severity: "medium",
+      evidence: { tokensPerSecond: metrics.tokensPerSecond },
+    });
+  }
+
+  return discrepancies;
+}
+
+/**
+ * Whether a comparison is close enough to accept the executor's result.
+ */
+export function isAcceptableMatch(comparison: OutputComparison): boolean {
+  return (
+    comparison.matchScore >= OUTPUT_MATCH_THRESHOLD &&
+    !comparison.discrepancies.some(
+      (d) => d.severity === "high" || d.severity === "critical",
+    )
+  );
+}
+
+export interface ConsensusCandidate<T> {
+  result: T;
+  outputHash: string;
+  /** Parsed output, when it could be loaded */
+  output?: unknown;
+}
+
+/**
+ * Groups results whose outputs agree. A result joins the first group whose
+ * every member it matches, either byte-for-byte or by an acceptable
+ * comparison, so nondeterminism between backends doesn't split an honest
+ * majority. Results without a loaded output only match by hash.
+ */
+export function groupAgreeingOutputs<T>(
+  candidates: ConsensusCandidate<T>[],
+): T[][] {
+  const agrees = (a: ConsensusCandidate<T>, b: ConsensusCandidate<T>) =>
+    a.outputHash === b.outputHash ||
+    (a.output !== undefined &&
+      b.output !== undefined &&
+      isAcceptableMatch(compareJobOutputs(a.output, b.output)));
+
+  const groups: ConsensusCandidate<T>[][] = [];
+  for (const candidate of candidates) {
+    const group = groups.find((members) =>
+      members.every((member) => agrees(member, candidate)),
+    );
+    if (group) {
+      group.push(candidate);
+    } else {
+      groups.push([candidate]);
+    }
+  }
+  return groups.map((members) => members.map((member) => member.result));
+}
+
+/**
+ * Similarity of two texts by word-level edit distance (1 = identical).
+ */
+export function textSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const aTokens = a.split(/\s+/).filter(Boolean);
+  const bTokens = b.split(/\s+/).filter(Boolean);
+  const longest = Math.max(aTokens.length, bTokens.length);
+  if (longest === 0) return 1;
+
+  let previous = Array.from({ length: bTokens.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= aTokens.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= bTokens.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (aTokens[i - 1] === bTokens[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[bTokens.length] / longest;
+}
+
+function compareText(expected: string, actual: string): OutputComparison {
+  const matchScore = textSimilarity(expected, actual);
+  return {
+    matchScore,
+    discrepancies:
+      matchScore < 1
+        ? [
+            mismatch("Generated text differs from the re-run", matchScore, {
+              expectedLength: expected.length,
+              actualLength: actual.length,
+            }),
+          ]
+        : [],
+  };
+}
+
+function compareEmbeddings(
+  expected: number[][],
+  actual: number[][],
+): OutputComparison {
+  if (expected.length !== actual.length) {
+    return {
+      matchScore: 0,
+      discrepancies: [
+        {
+          type: "output-mismatch",
+          description: `Expected ${expected.length} embeddings but got ${actual.length}`,
+          severity: "critical",
+        },
+      ],
+    };
+  }
+  if (expected.length === 0) {
+    return { matchScore: 1, discrepancies: [] };
+  }
+
+  const similarities = expected.map((vector, index) =>
+    vector.length === actual[index].length
+      ? Math.max(0, cosineSimilarity(vector, actual[index]))
+      : 0,
+  );
+  const matchScore =
+    similarities.reduce((sum, value) => sum + value, 0) / similarities.length;
+  const divergent = similarities
+    .map((similarity, index) => ({ index, similarity }))
+    .filter(({ similarity }) => similarity < EMBEDDING_MATCH_SIMILARITY);
+
+  return {
+    matchScore,
+    discrepancies:
+      divergent.length > 0
+        ? [
+            mismatch(
+              `${divergent.length} of ${expected.length} embeddings diverge from the re-run`,
+              Math.min(...divergent.map((d) => d.similarity)),
+              { divergent },
+            ),
+          ]
+        : [],
+  };
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return normA === normB ? 1 : 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+}
+
+function mismatch(
+  description: string,
+  score: number,
+  evidence?: unknown,
+): Discrepancy {
+  return {
+    type: "output-mismatch",
+    description,
+    severity:
+      score >= OUTPUT_MATCH_THRESHOLD
+        ? "low"
+        : score >= 0.8
+          ? "medium"
+          : score >= 0.5
+            ? "high"
+            : "critical",
+    evidence,
+  };
+}
+
+function isComputeOutput(value: unknown): value is ComputeOutput {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    ("text" in value || "embeddings" in value)
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * Compute Validation Assignment
+ * Decides which peers validate a job result and which of their answers count.
+ *
+ * Validators are assigned by the requesting node, one request per validator,
+ * and only the assigned validator may answer a request. A validator gets one
+ * verdict per job, so made-up validator IDs or repeated answers can't outvote
+ * the honest ones.
+ */
+
+import type {
+  PeerInfo,
+  ValidationRequest,
+  ValidationResult,
+} from "@/types/compute_network_types";
+
+/** Validators assigned to each result when the job doesn't name its own */
+export const VALIDATORS_PER_RESULT = 3;
+
+export type ValidationResultCheck =
+  | { accept: true }
+  | { accept: false; reason: string };
+
+/**
+ * Picks up to `count` validators for a result: online peers that can
+ * validate, whose signing key we know, and that aren't excluded (the
+ * executor, ourselves, validators already assigned to the job). Peers with
+ * the best reputation go first.
+ */
+export function selectValidators(
+  peers: PeerInfo[],
+  { exclude, count }: { exclude: string[]; count: number },
+): string[] {
+  return peers
+    .filter(
+      (peer) =>
+        peer.capabilities.canValidate &&
+        peer.id.publicKey &&
+        peer.status !== "offline" &&
+        !exclude.includes(peer.id.peerId),
+    )
+    .sort((a, b) => b.reputation - a.reputation)
+    .slice(0, count)
+    .map((peer) => peer.id.peerId);
+}
+
+/**
+ * Decide whether a validation result counts toward a job's consensus.
+ * `isSigned` must only be true for a signature made with the validator's
+ * known key.
+ */
+export function checkValidationResult(
+  result: ValidationResult,
+  request: ValidationRequest | undefined,
+  recorded: ValidationResult[],
+  isSigned: boolean,
+): ValidationResultCheck {
+  if (!request || request.jobId !== result.jobId) {
+    return { accept: false, reason: "not an answer to one of our requests" };
+  }
+  if (!request.validator || request.validator !== result.validator) {
+    return { accept: false, reason: "validator was not assigned" };
+  }
+  if (!isSigned) {
+    return { accept: false, reason: "invalid signature" };
+  }
+  if (recorded.some((v) => v.validator === result.validator)) {
+    return { accept: false, reason: "validator already gave a verdict" };
+  }
+  return { accept: true };
+}
+
+/**
+ * Whether consensus should keep waiting: some assigned validator hasn't
+ * answered and its request hasn't timed out yet.
+ */
+export function hasPendingValidations(
+  requests: ValidationRequest[],
+  validations: ValidationResult[],
+  now = Date.now(),
+): boolean {
+  return requests.some(
+    (r) =>
+      now < r.requestedAt + r.timeoutMs &&
+      !validations.some(
+        (v) => v.requestId === r.id && v.validator === r.validator,
+      ),
+  );
+}
@@ -0,0 +1,461 @@
+/**
+ * Data Pipeline
+ * Applies ordered transformations (filter, rename/cast, regex clean, dedupe,
+ * sort, join, train/test split) to dataset rows.
+ */
+
+import type {
+  CleanTransformConfig,
+  DataTransformation,
+  DatasetLineage,
+  DedupeTransformConfig,
+  FieldType,
+  FilterCondition,
+  FilterTransformConfig,
+  JoinTransformConfig,
+  MapTransformConfig,
+  SortTransformConfig,
+  SplitTransformConfig,
+} from "@/types/scraper_types";
+
+type Row = Record<string, any>;
+
+export interface PipelineContext {
+  /** Loads the rows of another dataset, used by join steps */
+  loadDataset(datasetId: string): Promise<Row[]>;
+}
+
+export interface PipelineOutput {
+  /** Partition name when the pipeline ends with a split */
+  split?: string;
+  rows: Row[];
+}
+
+export interface PipelineResult {
+  outputs: PipelineOutput[];
+  steps: DatasetLineage["steps"];
+  joinedDatasetIds: string[];
+}
+
+const DEFAULT_SPLIT_SEED = 42;
+const DEFAULT_JOIN_PREFIX = "right_";
+
+/**
+ * Checks that a pipeline's steps have the config they need. Throws with the
+ * first problem found.
+ */
+export function validateTransformations(
+  transformations: DataTransformation[],
+): void {
+  transformations.forEach((step, index) => {
+    const label = `Step ${index + 1} (${step.name || step.type})`;
+    const config = step.config || {};
+    switch (step.type) {
+      case "filter":
+        if (!Array.isArray(config.conditions) || !config.conditions.length) {
+          throw new Error(`${label}: filter needs at least one condition`);
+        }
+        break;
+      case "join":
+        if (!config.datasetId || !config.leftKey) {
+          throw new Error(`${label}: join needs a dataset and a key`);
+        }
+        break;
+      case "sort":
+        if (!config.field) {
+          throw new Error(`${label}: sort needs a field`);
+        }
+        break;
+      case "split": {
+        const ratios = Object.values(config.ratios || {});
+        if (
+          ratios.length < 2 ||
+          ratios.some((r) => typeof r !== "number" || !(r > 0))
+        ) {
+          throw new Error(`${label}: split needs at least two positive ratios`);
+        }
+        if (index !== transformations.length - 1) {
+          throw new Error(`${label}: split must be the last step`);
+        }
+        break;
+      }
+      case "map":
+      case "dedupe":
+      case "clean":
+        break;
+      default:
+        throw new Error(
+          `${label}: "${step.type}" transformations are not supported`,
+        );
+    }
+  });
+}
+
+/**
+ * Runs the transformations in order. A trailing split step produces one
+ * output per partition; otherwise there is a single output.
+ */
+export async function runPipeline(
+  rows: Row[],
+  transformations: DataTransformation[],
+  context: PipelineContext,
+): Promise<PipelineResult> {
+  validateTransformations(transformations);
+
+  const steps: DatasetLineage["steps"] = [];
+  const joinedDatasetIds: string[] = [];
+  let current = rows;
+
+  for (const step of transformations) {
+    const rowsIn = current.length;
+    const config = step.config || {};
+
+    if (step.type === "split") {
+      const partitions = splitRows(current, config as SplitTransformConfig);
+      steps.push({
+        transformationId: step.id,
+        name: step.name,
+        type: step.type,
+        rowsIn,
+        rowsOut: rowsIn,
+      });
+      return {
+        outputs: Object.entries(partitions).map(([split, partRows]) => ({
+          split,
+          rows: partRows,
+        })),
+        steps,
+        joinedDatasetIds,
+      };
+    }
+
+    switch (step.type) {
+      case "filter":
+        current = filterRows(current, config as FilterTransformConfig);
+        break;
+      case "map":
+        current = mapRows(current, config as MapTransformConfig);
+        break;
+      case "clean":
+        current = cleanRows(current, config as CleanTransformConfig);
+        break;
+      case "dedupe":
+        current = dedupeRows(current, config as DedupeTransformConfig);
+        break;
+      case "sort":
+        current = sortRows(current, config as SortTransformConfig);
+        break;
+      case "join": {
+        const joinConfig = config as JoinTransformConfig;
+        const right = await context.loadDataset(joinConfig.datasetId);
+        current = joinRows(current, right, joinConfig);
+        joinedDatasetIds.push(joinConfig.datasetId);
+        break;
+      }
+    }
+
+    steps.push({
+      transformationId: step.id,
+      name: step.name,
+      type: step.type,
+      rowsIn,
+      rowsOut: current.length,
+    });
+  }
+
+  return { outputs: [{ rows: current }], steps, joinedDatasetIds };
+}
+
+// ============= Filter =============
+
+function toComparable(value: any): number | string {
+  if (typeof value === "number") return value;
+  const numeric = Number(value);
+  return value !== "" && value !== null && !isNaN(numeric)
+    ? numeric
+    : String(value);
+}
+
+function matchesCondition(row: Row, condition: FilterCondition): boolean {
+  const value = row[condition.field];
+  const isMissing = value === undefined || value === null || value === "";
+
+  switch (condition.operator) {
+    case "exists":
+      return !isMissing;
+    case "not-exists":
+      return isMissing;
+    case "equals":
+      return !isMissing && String(value) === String(condition.value);
+    case "not-equals":
+      return isMissing || String(value) !== String(condition.value);
+    case "contains":
+      return (
+        !isMissing &&
+        String(value)
+          .toLowerCase()
+          .includes(String(condition.value).toLowerCase())
+      );
+    case "not-contains":
+      return (
+        isMissing ||
+        !String(value)
+          .toLowerCase()
+          .includes(String(condition.value).toLowerCase())
+      );
+    case "matches":
+      return !isMissing && new RegExp(condition.value).test(String(value));
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte": {
+      if (isMissing) return false;
+      const a = toComparable(value);
+      const b = toComparable(condition.value);
+      if (typeof a !== typeof b) return false;
+      if (condition.operator === "gt") return a > b;
+      if (condition.operator === "gte") return a >= b;
+      if (condition.operator === "lt") return a < b;
+      return a <= b;
+    }
+  }
+}
+
+export function filterRows(rows: Row[], config: FilterTransformConfig): Row[] {
+  const matchAny = config.match === "any";
+  return rows.filter((row) =>
+    matchAny
+      ? config.conditions.some((c) => matchesCondition(row, c))
+      : config.conditions.every((c) => matchesCondition(row, c)),
+  );
+}
+
+// ============= Rename / cast =============
+
+/**
+ * Converts a scraped value to a field type. Values that cannot be converted
+ * become null rather than failing the pipeline.
+ */
+export function castValue(value: any, type: FieldType): any {
+  if (value === undefined || value === null) return null;
+
+  switch (type) {
+    case "number": {
+      if (typeof value === "number") return value;
+      const cleaned = String(value).replace(/[^0-9.eE+-]/g, "");
+      const parsed = cleaned ? Number(cleaned) : NaN;
+      return isNaN(parsed) ? null : parsed;
+    }
+    case "boolean": {
+      if (typeof value === "boolean") return value;
+      const text = String(value).trim().toLowerCase();
+      if (["true", "yes", "y", "1", "on"].includes(text)) return true;
+      if (["false", "no", "n", "0", "off", ""].includes(text)) return false;
+      return null;
+    }
+    case "date": {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? null : date.toISOString();
+    }
+    case "array":
+      if (Array.isArray(value)) return value;
+      if (typeof value === "string" && value.trim().startsWith("[")) {
+        try {
+          const parsed = JSON.parse(value);
+          if (Array.isArray(parsed)) return parsed;
+        } catch {
+          // Not JSON, keep as a single item
+        }
+      }
+      return [value];
+    case "object":
+      if (typeof value === "object") return value;
+      try {
+        const parsed = JSON.parse(String(value));
+        return parsed && typeof parsed === "object" ? parsed : null;
+      } catch {
+        return null;
+      }
+    default:
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+  }
+}
+
+export function mapRows(rows: Row[], config: MapTransformConfig): Row[] {
+  const rename = config.rename || {};
+  const cast = config.cast || {};
+  const drop = new Set(config.drop || []);
+
+  return rows.map((row) => {
+    const mapped: Row = {};
+    for (const [key, value] of Object.entries(row)) {
+      if (drop.has(key)) continue;
+      mapped[rename[key] || key] = value;
+    }
+    for (const [field, type] of Object.entries(cast)) {
+      if (field in mapped) {
+        mapped[field] = castValue(mapped[field], type);
+      }
+    }
+    return mapped;
+  });
+}
+
+// ============= Clean =============
+
+export function cleanRows(rows: Row[], config: CleanTransformConfig): Row[] {
+  const pattern = config.pattern
+    ? new RegExp(config.pattern, config.flags ?? "g")
+    : null;
+  const fields = config.fields ? new Set(config.fields) : null;
+  const trim = config.trim ?? true;
+
+  const clean = (value: string) => {
+    let result = pattern
+      ? value.replace(pattern, config.replacement ?? "")
+      : value;
+    if (config.collapseWhitespace) result = result.replace(/\s+/g, " ");
+    return trim ? result.trim() : result;
+  };
+
+  return rows.map((row) => {
+    const cleaned: Row = { ...row };
+    for (const [key, value] of Object.entries(row)) {
+      if (typeof value !== "string") continue;
+      if (fields && !fields.has(key)) continue;
+      cleaned[key] = clean(value);
+    }
+    return cleaned;
+  });
+}
+
+// ============= Dedupe / sort =============
+
+export function dedupeRows(rows: Row[], config: DedupeTransformConfig): Row[] {
+  const keyOf = (row: Row) => {
+    const values = (config.fields?.length ? config.fields : Object.keys(row))
+      .slice()
+      .sort()
+      .map((field) => {
+        const value = row[field];
+        return config.ignoreCase && typeof value === "string"
+          ? value.toLowerCase()
+          : value;
+      });
+    return JSON.stringify(values);
+  };
+
+  const unique = new Map<string, Row>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    if (config.keep === "last") {
+      unique.delete(key);
+      unique.set(key, row);
+    } else if (!unique.has(key)) {
+      unique.set(key, row);
+    }
+  }
+  return [...unique.values()];
+}
+
+export function sortRows(rows: Row[], config: SortTransformConfig): Row[] {
+  const direction = config.direction === "desc" ? -1 : 1;
+  return rows.slice().sort((a, b) => {
+    const left = a[config.field];
+    const right = b[config.field];
+    const leftMissing = left === undefined || left === null;
+    const rightMissing = right === undefined || right === null;
+    // Missing values always go last
+    if (leftMissing || rightMissing) {
+      return Number(leftMissing) - Number(rightMissing);
+    }
+    const x = toComparable(left);
+    const y = toComparable(right);
+    if (typeof x === "number" && typeof y === "number") {
+      return (x - y) * direction;
+    }
+    return String(x).localeCompare(String(y)) * direction;
+  });
+}
+
+// ============= Join =============
+
+export function joinRows(
+  left: Row[],
+  right: Row[],
+  config: JoinTransformConfig,
+): Row[] {
+  const rightKey = config.rightKey || config.leftKey;
+  const prefix = config.prefix ?? DEFAULT_JOIN_PREFIX;
+
+  const index = new Map<string, Row[]>();
+  for (const row of right) {
+    const key = row[rightKey];
+    if (key === undefined || key === null) continue;
+    const matches = index.get(String(key));
+    if (matches) matches.push(row);
+    else index.set(String(key), [row]);
+  }
+
+  const joined: Row[] = [];
+  for (const row of left) {
+    const key = row[config.leftKey];
+    const matches =
+      key === undefined || key === null ? undefined : index.get(String(key));
+    if (!matches) {
+      if (config.type === "left") joined.push({ ...row });
+      continue;
+    }
+    for (const match of matches) {
+      const merged: Row = { ...row };
+      for (const [field, value] of Object.entries(match)) {
+        if (field === rightKey) continue;
+        merged[field in row ? `${prefix}${field}` : field] = value;
+      }
+      joined.push(merged);
+    }
+  }
+  return joined;
+}
+
+// ============= Split =============
+
+/** Small deterministic PRNG so splits are reproducible for a seed */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function splitRows(
+  rows: Row[],
+  config: SplitTransformConfig,
+): Record<string, Row[]> {
+  const random = mulberry32(config.seed ?? DEFAULT_SPLIT_SEED);
+  const shuffled = rows.slice();
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  const entries = Object.entries(config.ratios);
+  const total = entries.reduce((sum, [, ratio]) => sum + ratio, 0);
+  const partitions: Record<string, Row[]> = {};
+  let start = 0;
+  let cumulative = 0;
+  entries.forEach(([name, ratio], index) => {
+    cumulative += ratio;
+    const end =
+      index === entries.length - 1
+        ? shuffled.length
+        : Math.round((cumulative / total) * shuffled.length);
+    partitions[name] = shuffled.slice(start, end);
+    start = end;
+  });
+  return partitions;
+}
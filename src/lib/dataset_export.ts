@@ -0,0 +1,652 @@
+/**
+ * Dataset Export
+ * Streams dataset rows from disk into JSON, JSONL, CSV, Parquet, XLSX and
+ * SQLite files without loading the whole dataset into memory.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as zlib from "zlib";
+import { once } from "events";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import Database from "better-sqlite3";
+import { ParquetWriter } from "./parquet_writer";
+import { ZipWriter } from "./zip_writer";
+import type {
+  Dataset,
+  DatasetExportOptions,
+  DatasetFormat,
+  FieldType,
+} from "@/types/scraper_types";
+
+export interface ExportColumn {
+  name: string;
+  type: FieldType;
+}
+
+export type DatasetRowSource = () => AsyncIterable<Record<string, any>>;
+
+export const DATASET_FORMAT_EXTENSIONS: Record<DatasetFormat, string> = {
+  json: "json",
+  jsonl: "jsonl",
+  csv: "csv",
+  parquet: "parquet",
+  xlsx: "xlsx",
+  sqlite: "sqlite",
+};
+
+/** Excel's row limit, less the header row */
+const XLSX_MAX_DATA_ROWS = 1_048_575;
+/** Excel's cell text limit */
+const XLSX_MAX_CELL_CHARS = 32_767;
+const SQLITE_BATCH_SIZE = 1000;
+
+/**
+ * Infer field type from value
+ */
+export function inferFieldType(value: any): FieldType {
+  if (value === null || value === undefined) return "text";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "object") return "object";
+  if (typeof value === "boolean") return "boolean";
+  if (typeof value === "number") return "number";
+
+  const str = String(value);
+  if (/^https?:\/\//.test(str)) {
+    if (/\.(jpg|jpeg|png|gif|webp|svg)(\?|$)/i.test(str)) return "image";
+    return "url";
+  }
+  if (/^\d{4}-\d{2}-\d{2}/.test(str)) return "date";
+  if (/^-?\d+\.?\d*$/.test(str)) return "number";
+
+  return "text";
+}
+
+/**
+ * Widens two inferred types to one that holds both values
+ */
+function mergeFieldTypes(a: FieldType, b: FieldType): FieldType {
+  if (a === b) return a;
+  if ((a === "url" && b === "image") || (a === "image" && b === "url"))
+    return "url";
+  return "text";
+}
+
+/**
+ * Infers each column's type across every row. Columns keep the order they
+ * first appear in, or the order of `columns` when given.
+ */
+export async function inferColumns(
+  rows: AsyncIterable<Record<string, any>>,
+  columns?: string[],
+): Promise<ExportColumn[]> {
+  const types = new Map<string, FieldType | null>(
+    columns?.map((name) => [name, null]),
+  );
+  for await (const row of rows) {
+    for (const [name, value] of Object.entries(row)) {
+      if (!types.has(name) && columns) continue;
+      const current = types.get(name) ?? null;
+      if (value === null || value === undefined) {
+        types.set(name, current);
+        continue;
+      }
+      const type = inferFieldType(value);
+      types.set(name, current ? mergeFieldTypes(current, type) : type);
+    }
+  }
+  return Array.from(types, ([name, type]) => ({ name, type: type ?? "text" }));
+}
+
+/**
+ * Reads the rows of a dataset's JSON array file one at a time.
+ */
+export async function* readDatasetRows(
+  filePath: string,
+): AsyncGenerator<Record<string, any>> {
+  const stream = fs.createReadStream(filePath, {
+    encoding: "utf8",
+    highWaterMark: 64 * 1024,
+  });
+  let started = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let pending = "";
+
+  for await (const chunk of stream as AsyncIterable<string>) {
+    let start = 0;
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i];
+      if (!started) {
+        if (ch === "[") {
+          started = true;
+          start = i + 1;
+        }
+        continue;
+      }
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === "\\") escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+      if (ch === '"') {
+        inString = true;
+      } else if (ch === "{" || ch === "[") {
+        depth++;
+      } else if ((ch === "}" || ch === "]") && depth > 0) {
+        depth--;
+      } else if ((ch === "," || ch === "]") && depth === 0) {
+        const text = (pending + chunk.slice(start, i)).trim();
+        pending = "";
+        start = i + 1;
+        if (text) yield JSON.parse(text);
+        if (ch === "]") return;
+      }
+    }
+    if (started) pending += chunk.slice(start);
+  }
+}
+
+async function* selectRows(
+  rows: AsyncIterable<Record<string, any>>,
+  options: Pick<DatasetExportOptions, "columns" | "limit" | "filters">,
+): AsyncGenerator<Record<string, any>> {
+  let count = 0;
+  for await (const row of rows) {
+    if (options.limit !== undefined && count >= options.limit) return;
+    if (
+      options.filters &&
+      Object.entries(options.filters).some(([key, value]) => row[key] !== value)
+    ) {
+      continue;
+    }
+    count++;
+    if (!options.columns) {
+      yield row;
+      continue;
+    }
+    const selected: Record<string, any> = {};
+    for (const column of options.columns) {
+      if (column in row) selected[column] = row[column];
+    }
+    yield selected;
+  }
+}
+
+function toText(value: any): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function escapeCsv(value: any, delimiter: string): string {
+  const text = toText(value);
+  return text.includes(delimiter) || /["\r\n]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+async function writeTextFile(
+  outputPath: string,
+  lines: AsyncIterable<string>,
+  compression: DatasetExportOptions["compression"],
+): Promise<void> {
+  const source = Readable.from(lines);
+  const output = fs.createWriteStream(outputPath);
+  if (compression === "gzip") {
+    await pipeline(source, zlib.createGzip(), output);
+  } else {
+    await pipeline(source, output);
+  }
+}
+
+async function* jsonLines(
+  rows: AsyncIterable<Record<string, any>>,
+): AsyncGenerator<string> {
+  let first = true;
+  yield "[";
+  for await (const row of rows) {
+    yield `${first ? "" : ","}\n  ${JSON.stringify(row)}`;
+    first = false;
+  }
+  yield first ? "]\n" : "\n]\n";
+}
+
+async function* jsonlLines(
+  rows: AsyncIterable<Record<string, any>>,
+): AsyncGenerator<string> {
+  for await (const row of rows) {
+    yield `${JSON.stringify(row)}\n`;
+  }
+}
+
+async function* csvLines(
+  rows: AsyncIterable<Record<string, any>>,
+  columns: ExportColumn[],
+  options: DatasetExportOptions,
+): AsyncGenerator<string> {
+  const delimiter = options.delimiter || ",";
+  if (options.includeHeaders !== false) {
+    yield `${columns.map((c) => escapeCsv(c.name, delimiter)).join(delimiter)}\n`;
+  }
+  for await (const row of rows) {
+    yield `${columns.map((c) => escapeCsv(row[c.name], delimiter)).join(delimiter)}\n`;
+  }
+}
+
+// ============= XLSX =============
+
+/** Drops control characters that are not allowed in XML 1.0 documents. */
+function stripInvalidXmlChars(value: string): string {
+  let result = "";
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d) {
+      result += char;
+    }
+  }
+  return result;
+}
+
+function escapeXml(value: string): string {
+  return stripInvalidXmlChars(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function columnLetter(index: number): string {
+  let letters = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+const XLSX_STYLE_HEADER = 1;
+const XLSX_STYLE_DATE = 2;
+
+function xlsxCell(
+  ref: string,
+  value: any,
+  type: FieldType,
+  style?: number,
+): string {
+  if (value === null || value === undefined) return "";
+  const s = style ? ` s="${style}"` : "";
+  if (type === "number" && Number.isFinite(Number(value))) {
+    return `<c r="${ref}"${s}><v>${Number(value)}</v></c>`;
+  }
+  if (type === "boolean" && typeof value === "boolean") {
+    return `<c r="${ref}"${s} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  if (type === "date") {
+    const time = new Date(value).getTime();
+    if (Number.isFinite(time)) {
+      // Excel serial date: days since 1899-12-30
+      return `<c r="${ref}" s="${XLSX_STYLE_DATE}"><v>${time / 86_400_000 + 25_569}</v></c>`;
+    }
+  }
+  const text = escapeXml(toText(value).slice(0, XLSX_MAX_CELL_CHARS));
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+}
+
+function xlsxRow(rowNumber: number, cells: string[]): string {
+  return `<row r="${rowNumber}">${cells.join("")}</row>`;
+}
+
+const SHEET_START =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>';
+const SHEET_END = "</sheetData></worksheet>";
+
+function buildSheet(rows: any[][]): string {
+  const body = rows.map((values, r) =>
+    xlsxRow(
+      r + 1,
+      values.map((value, c) =>
+        xlsxCell(
+          `${columnLetter(c)}${r + 1}`,
+          value,
+          typeof value === "number" ? "number" : "text",
+          r === 0 ? XLSX_STYLE_HEADER : undefined,
+        ),
+      ),
+    ),
+  );
+  return SHEET_START + body.join("") + SHEET_END;
+}
+
+class SheetFileWriter {
+  private readonly output: fs.WriteStream;
+
+  constructor(readonly filePath: string) {
+    this.output = fs.createWriteStream(filePath);
+  }
+
+  async write(text: string): Promise<void> {
+    if (!this.output.write(text)) {
+      await once(this.output, "drain");
+    }
+  }
+
+  async close(): Promise<void> {
+    this.output.end();
+    await once(this.output, "finish");
+  }
+}
+
+/**
+ * Writes a workbook with the rows on "Data" sheets (continuing on
+ * "Data 2", ... past Excel's row limit), plus "Schema" and "Info" sheets.
+ */
+async function writeXlsx(
+  outputPath: string,
+  rows: AsyncIterable<Record<string, any>>,
+  columns: ExportColumn[],
+  dataset?: Dataset,
+): Promise<void> {
+  const tempDir = await fs.promises.mkdtemp(
+    path.join(os.tmpdir(), "joycreate-xlsx-"),
+  );
+  try {
+    const header = xlsxRow(
+      1,
+      columns.map((c, i) =>
+        xlsxCell(`${columnLetter(i)}1`, c.name, "text", XLSX_STYLE_HEADER),
+      ),
+    );
+    const dataSheets: SheetFileWriter[] = [];
+    let sheet: SheetFileWriter | null = null;
+    let rowNumber = 0;
+    let rowCount = 0;
+
+    for await (const row of rows) {
+      if (!sheet || rowNumber > XLSX_MAX_DATA_ROWS) {
+        await sheet?.write(SHEET_END);
+        sheet = new SheetFileWriter(
+          path.join(tempDir, `data${dataSheets.length + 1}.xml`),
+        );
+        dataSheets.push(sheet);
+        await sheet.write(SHEET_START + header);
+        rowNumber = 1;
+      }
+      rowNumber++;
+      rowCount++;
+      await sheet.write(
+        xlsxRow(
+          rowNumber,
+          columns.map((c, i) =>
+            xlsxCell(`${columnLetter(i)}${rowNumber}`, row[c.name], c.type),
+          ),
+        ),
+      );
+    }
+    if (!sheet) {
+      sheet = new SheetFileWriter(path.join(tempDir, "data1.xml"));
+      dataSheets.push(sheet);
+      await sheet.write(SHEET_START + header);
+    }
+    await sheet.write(SHEET_END);
+    for (const dataSheet of dataSheets) {
+      await dataSheet.close();
+    }
+
+    const sheetNames = [
+      ...dataSheets.map((_, i) => (i === 0 ? "Data" : `Data ${i + 1}`)),
+      "Schema",
+      "Info",
+    ];
+    const schemaDescriptions = new Map(
+      dataset?.schema.map((f) => [f.name, f.description]),
+    );
+
+    const zip = new ZipWriter(outputPath);
+    await zip.addBuffer(
+      "[Content_Types].xml",
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheetNames
+          .map(
+            (_, i) =>
+              `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+          )
+          .join("") +
+        "</Types>",
+    );
+    await zip.addBuffer(
+      "_rels/.rels",
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        "</Relationships>",
+    );
+    await zip.addBuffer(
+      "xl/workbook.xml",
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+        sheetNames
+          .map(
+            (name, i) =>
+              `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`,
+          )
+          .join("") +
+        "</sheets></workbook>",
+    );
+    await zip.addBuffer(
+      "xl/_rels/workbook.xml.rels",
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheetNames
+          .map(
+            (_, i) =>
+              `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`,
+          )
+          .join("") +
+        `<Relationship Id="rId${sheetNames.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        "</Relationships>",
+    );
+    await zip.addBuffer(
+      "xl/styles.xml",
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>' +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+        '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+        '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>' +
+        '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+        "</styleSheet>",
+    );
+    for (let i = 0; i < dataSheets.length; i++) {
+      await zip.addFile(
+        `xl/worksheets/sheet${i + 1}.xml`,
+        dataSheets[i].filePath,
+      );
+    }
+    await zip.addBuffer(
+      `xl/worksheets/sheet${dataSheets.length + 1}.xml`,
+      buildSheet([
+        ["Column", "Type", "Description"],
+        ...columns.map((c) => [
+          c.name,
+          c.type,
+          schemaDescriptions.get(c.name) ?? "",
+        ]),
+      ]),
+    );
+    await zip.addBuffer(
+      `xl/worksheets/sheet${dataSheets.length + 2}.xml`,
+      buildSheet([
+        ["Property", "Value"],
+        ["Name", dataset?.name ?? ""],
+        ["Description", dataset?.description ?? ""],
+        ["Rows", rowCount],
+        ["Columns", columns.length],
+        ["Exported At", new Date().toISOString()],
+      ]),
+    );
+    await zip.finish();
+  } finally {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+// ============= Parquet =============
+
+async function writeParquet(
+  outputPath: string,
+  rows: AsyncIterable<Record<string, any>>,
+  columns: ExportColumn[],
+): Promise<void> {
+  const writer = await ParquetWriter.open(outputPath, columns);
+  try {
+    for await (const row of rows) {
+      await writer.appendRow(row);
+    }
+  } finally {
+    await writer.close();
+  }
+}
+
+// ============= SQLite =============
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+const SQLITE_TYPES: Record<FieldType, string> = {
+  text: "TEXT",
+  url: "TEXT",
+  image: "TEXT",
+  date: "TEXT",
+  number: "REAL",
+  boolean: "INTEGER",
+  array: "TEXT",
+  object: "TEXT",
+};
+
+function toSqliteValue(value: any, type: FieldType): string | number | null {
+  if (value === null || value === undefined) return null;
+  if (type === "number") {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+  }
+  if (type === "boolean") {
+    return value === true ||
+      ["true", "1", "yes"].includes(String(value).toLowerCase())
+      ? 1
+      : 0;
+  }
+  return toText(value);
+}
+
+/**
+ * Writes the rows into a typed table named after the dataset.
+ */
+async function writeSqlite(
+  outputPath: string,
+  rows: AsyncIterable<Record<string, any>>,
+  columns: ExportColumn[],
+  tableName: string,
+): Promise<void> {
+  await fs.promises.rm(outputPath, { force: true });
+  const db = new Database(outputPath);
+  try {
+    const table = quoteIdentifier(tableName);
+    db.exec(
+      `CREATE TABLE ${table} (${columns
+        .map((c) => `${quoteIdentifier(c.name)} ${SQLITE_TYPES[c.type]}`)
+        .join(", ")})`,
+    );
+    const insert = db.prepare(
+      `INSERT INTO ${table} (${columns.map((c) => quoteIdentifier(c.name)).join(", ")}) VALUES (${columns
+        .map(() => "?")
+        .join(", ")})`,
+    );
+    const insertBatch = db.transaction((batch: Record<string, any>[]) => {
+      for (const row of batch) {
+        insert.run(columns.map((c) => toSqliteValue(row[c.name], c.type)));
+      }
+    });
+
+    let batch: Record<string, any>[] = [];
+    for await (const row of rows) {
+      batch.push(row);
+      if (batch.length >= SQLITE_BATCH_SIZE) {
+        insertBatch(batch);
+        batch = [];
+      }
+    }
+    insertBatch(batch);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Table name for a dataset's SQLite export. Names that would start with a
+ * digit keep it behind a `data_` prefix rather than losing the name.
+ */
+export function getSqliteTableName(name?: string): string {
+  const table = (name ?? "")
+    .replace(/[^a-zA-Z0-9_]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toLowerCase();
+  if (!table) return "data";
+  return /^\d/.test(table) ? `data_${table}` : table;
+}
+
+/**
+ * Export a dataset. Rows are streamed from `source`; typed formats read
+ * the rows twice, first to infer column types.
+ */
+export async function exportDatasetRows(
+  source: DatasetRowSource,
+  outputPath: string,
+  options: DatasetExportOptions,
+  dataset?: Dataset,
+): Promise<void> {
+  const rows = () => selectRows(source(), options);
+
+  switch (options.format) {
+    case "json":
+      return writeTextFile(outputPath, jsonLines(rows()), options.compression);
+    case "jsonl":
+      return writeTextFile(outputPath, jsonlLines(rows()), options.compression);
+  }
+
+  const columns = await inferColumns(rows(), options.columns);
+  switch (options.format) {
+    case "csv":
+      return writeTextFile(
+        outputPath,
+        csvLines(rows(), columns, options),
+        options.compression,
+      );
+    case "parquet":
+      return writeParquet(outputPath, rows(), columns);
+    case "xlsx":
+      return writeXlsx(outputPath, rows(), columns, dataset);
+    case "sqlite":
+      return writeSqlite(
+        outputPath,
+        rows(),
+        columns,
+        getSqliteTableName(dataset?.name),
+      );
+    default:
+      throw new Error(`Unsupported export format: ${options.format}`);
+  }
+}
@@ -0,0 +1,768 @@
+/**
+ * Decentralized Chat Groups
+ * Membership, roles, invites, join requests, bans and polls for group chats.
+ *
+ * Every function works on plain `ChatGroup`/`Poll` objects, mutating them in
+ * place, and throws when the acting wallet isn't allowed to do something.
+ * Persisting and broadcasting the result is up to the caller.
+ */
+
+import { randomBytes, randomUUID } from "node:crypto";
+import type {
+  BannedUser,
+  ChatGroup,
+  CreatePollRequest,
+  GroupInvite,
+  GroupMember,
+  GroupPermissions,
+  GroupRole,
+  GroupSettings,
+  JoinRequest,
+  Poll,
+  UpdateGroupRequest,
+} from "@/types/decentralized_chat_types";
+
+const INVITE_TTL_DAYS = 7;
+
+export const GROUP_ROLE_RANK: Record<GroupRole, number> = {
+  owner: 4,
+  admin: 3,
+  moderator: 2,
+  member: 1,
+  guest: 0,
+};
+
+const ALL_PERMISSIONS: GroupPermissions = {
+  canSendMessages: true,
+  canSendMedia: true,
+  canAddMembers: true,
+  canRemoveMembers: true,
+  canChangeSettings: true,
+  canPinMessages: true,
+  canDeleteMessages: true,
+  canStartMeetings: true,
+  canCreatePolls: true,
+  canManageTopics: true,
+};
+
+export const DEFAULT_GROUP_PERMISSIONS: Record<GroupRole, GroupPermissions> = {
+  owner: ALL_PERMISSIONS,
+  admin: ALL_PERMISSIONS,
+  moderator: {
+    ...ALL_PERMISSIONS,
+    canAddMembers: false,
+    canChangeSettings: false,
+    canManageTopics: false,
+  },
+  member: {
+    canSendMessages: true,
+    canSendMedia: true,
+    canAddMembers: false,
+    canRemoveMembers: false,
+    canChangeSettings: false,
+    canPinMessages: false,
+    canDeleteMessages: false,
+    canStartMeetings: true,
+    canCreatePolls: true,
+    canManageTopics: false,
+  },
+  guest: {
+    canSendMessages: true,
+    canSendMedia: false,
+    canAddMembers: false,
+    canRemoveMembers: false,
+    canChangeSettings: false,
+    canPinMessages: false,
+    canDeleteMessages: false,
+    canStartMeetings: false,
+    canCreatePolls: false,
+    canManageTopics: false,
+  },
+};
+
+export const DEFAULT_GROUP_SETTINGS: GroupSettings = {
+  isPublic: true,
+  joinMethod: "open",
+  requireApproval: false,
+  maxMembers: 256,
+  slowMode: false,
+  allowLinks: true,
+  allowMedia: true,
+  allowPolls: true,
+  autoMod: false,
+  defaultMuted: false,
+  announcementsOnly: false,
+};
+
+export interface GroupMemberProfile {
+  walletAddress: string;
+  publicKey?: string;
+  signingKey?: string;
+  displayName?: string;
+  avatar?: string;
+}
+
+function normalizeWallet(walletAddress: string): string {
+  return walletAddress.toLowerCase();
+}
+
+function touch(group: ChatGroup, now: Date): void {
+  group.updatedAt = now.toISOString();
+  group.lastActivityAt = group.updatedAt;
+}
+
+/** Keeps the denormalized `admins`, `memberCount` and `isPrivate` in step */
+function syncDerivedFields(group: ChatGroup): void {
+  group.admins = group.members
+    .filter((member) => member.role === "owner" || member.role === "admin")
+    .map((member) => member.walletAddress);
+  group.memberCount = group.members.length;
+  group.isPrivate = !group.settings.isPublic;
+  group.inviteCode = group.settings.inviteCode;
+}
+
+function generateInviteCode(): string {
+  return randomBytes(6).toString("base64url");
+}
+
+export function createGroup(options: {
+  id: string;
+  conversationId: string;
+  name: string;
+  description?: string;
+  avatar?: string;
+  owner: GroupMemberProfile;
+  settings?: Partial<GroupSettings>;
+  now?: Date;
+}): ChatGroup {
+  const now = (options.now ?? new Date()).toISOString();
+  const settings: GroupSettings = {
+    ...DEFAULT_GROUP_SETTINGS,
+    ...options.settings,
+  };
+  settings.inviteCode ??= generateInviteCode();
+
+  const group: ChatGroup = {
+    id: options.id,
+    conversationId: options.conversationId,
+    name: options.name,
+    description: options.description,
+    avatar: options.avatar,
+    isPrivate: !settings.isPublic,
+    ownerWallet: normalizeWallet(options.owner.walletAddress),
+    admins: [],
+    members: [
+      createMember(
+        options.owner,
+        "owner",
+        undefined,
+        options.now ?? new Date(),
+      ),
+    ],
+    pendingInvites: [],
+    pendingRequests: [],
+    bannedUsers: [],
+    settings,
+    memberCount: 1,
+    messageCount: 0,
+    lastActivityAt: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+  syncDerivedFields(group);
+  return group;
+}
+
+function createMember(
+  profile: GroupMemberProfile,
+  role: GroupRole,
+  invitedBy: string | undefined,
+  now: Date,
+): GroupMember {
+  return {
+    walletAddress: normalizeWallet(profile.walletAddress),
+    publicKey: profile.publicKey,
+    signingKey: profile.signingKey,
+    displayName: profile.displayName,
+    avatar: profile.avatar,
+    role,
+    permissions: { ...DEFAULT_GROUP_PERMISSIONS[role] },
+    joinedAt: now.toISOString(),
+    invitedBy,
+  };
+}
+
+export function findMember(
+  group: ChatGroup,
+  walletAddress: string,
+): GroupMember | undefined {
+  const wallet = normalizeWallet(walletAddress);
+  return group.members.find((member) => member.walletAddress === wallet);
+}
+
+function requireMember(group: ChatGroup, walletAddress: string): GroupMember {
+  const member = findMember(group, walletAddress);
+  if (!member) {
+    throw new Error(`${walletAddress} is not a member of ${group.name}`);
+  }
+  return member;
+}
+
+export function hasGroupPermission(
+  group: ChatGroup,
+  walletAddress: string,
+  permission: keyof GroupPermissions,
+): boolean {
+  return findMember(group, walletAddress)?.permissions[permission] ?? false;
+}
+
+function requirePermission(
+  group: ChatGroup,
+  walletAddress: string,
+  permission: keyof GroupPermissions,
+): GroupMember {
+  const member = requireMember(group, walletAddress);
+  if (!member.permissions[permission]) {
+    throw new Error(`Missing permission ${permission} in ${group.name}`);
+  }
+  return member;
+}
+
+/** Moderation only works downwards: admins can't act on other admins */
+function requireOutranks(actor: GroupMember, targetRole: GroupRole): void {
+  if (GROUP_ROLE_RANK[actor.role] <= GROUP_ROLE_RANK[targetRole]) {
+    throw new Error(`A ${actor.role} cannot manage a ${targetRole}`);
+  }
+}
+
+export function isBanned(
+  group: ChatGroup,
+  walletAddress: string,
+  now = new Date(),
+): boolean {
+  const wallet = normalizeWallet(walletAddress);
+  return group.bannedUsers.some(
+    (ban) =>
+      ban.walletAddress === wallet &&
+      (!ban.expiresAt || new Date(ban.expiresAt) > now),
+  );
+}
+
+// ============================================================================
+// Membership
+// ============================================================================
+
+export function addMember(
+  group: ChatGroup,
+  profile: GroupMemberProfile,
+  options: { role?: GroupRole; invitedBy?: string; now?: Date } = {},
+): GroupMember {
+  const now = options.now ?? new Date();
+  const existing = findMember(group, profile.walletAddress);
+  if (existing) return existing;
+
+  if (isBanned(group, profile.walletAddress, now)) {
+    throw new Error(`${profile.walletAddress} is banned from ${group.name}`);
+  }
+  if (group.members.length >= group.settings.maxMembers) {
+    throw new Error(`${group.name} is full`);
+  }
+
+  const member = createMember(
+    profile,
+    options.role ?? "member",
+    options.invitedBy,
+    now,
+  );
+  group.members.push(member);
+  syncDerivedFields(group);
+  touch(group, now);
+  return member;
+}
+
+/**
+ * Removes a member. Members may always remove themselves, except the owner,
+ * who has to transfer ownership first.
+ */
+export function removeMember(
+  group: ChatGroup,
+  actorWallet: string,
+  targetWallet: string,
+  now = new Date(),
+): void {
+  const target = requireMember(group, targetWallet);
+  if (target.walletAddress === normalizeWallet(actorWallet)) {
+    if (target.role === "owner") {
+      throw new Error("Transfer ownership before leaving the group");
+    }
+  } else {
+    const actor = requirePermission(group, actorWallet, "canRemoveMembers");
+    requireOutranks(actor, target.role);
+  }
+
+  group.members = group.members.filter((member) => member !== target);
+  syncDerivedFields(group);
+  touch(group, now);
+}
+
+export function setMemberRole(
+  group: ChatGroup,
+  actorWallet: string,
+  targetWallet: string,
+  role: GroupRole,
+  now = new Date(),
+): GroupMember {
+  if (role === "owner") {
+    throw new Error("Use transferOwnership to change the owner");
+  }
+  const actor = requireMember(group, actorWallet);
+  const target = requireMember(group, targetWallet);
+  requireOutranks(actor, target.role);
+  requireOutranks(actor, role);
+
+  target.role = role;
+  target.permissions = { ...DEFAULT_GROUP_PERMISSIONS[role] };
+  syncDerivedFields(group);
+  touch(group, now);
+  return target;
+}
+
+export function setMemberPermissions(
+  group: ChatGroup,
+  actorWallet: string,
+  targetWallet: string,
+  permissions: Partial<GroupPermissions>,
+  now = new Date(),
+): GroupMember {
+  const actor = requirePermission(group, actorWallet, "canChangeSettings");
+  const target = requireMember(group, targetWallet);
+  requireOutranks(actor, target.role);
+
+  target.permissions = { ...target.permissions, ...permissions };
+  touch(group, now);
+  return target;
+}
+
+export function transferOwnership(
+  group: ChatGroup,
+  actorWallet: string,
+  targetWallet: string,
+  now = new Date(),
+): void {
+  const actor = requireMember(group, actorWallet);
+  if (actor.role !== "owner") {
+    throw new Error("Only the owner can transfer ownership");
+  }
+  const target = requireMember(group, targetWallet);
+
+  actor.role = "admin";
+  actor.permissions = { ...DEFAULT_GROUP_PERMISSIONS.admin };
+  target.role = "owner";
+  target.permissions = { ...DEFAULT_GROUP_PERMISSIONS.owner };
+  group.ownerWallet = target.walletAddress;
+  syncDerivedFields(group);
+  touch(group, now);
+}
+
+export function updateGroupDetails(
+  group: ChatGroup,
+  actorWallet: string,
+  updates: UpdateGroupRequest,
+  now = new Date(),
+): void {
+  requirePermission(group, actorWallet, "canChangeSettings");
+
+  if (updates.name !== undefined) {
+    if (!updates.name.trim()) throw new Error("Group name is required");
+    group.name = updates.name.trim();
+  }
+  if (updates.description !== undefined)
+    group.description = updates.description;
+  if (updates.avatar !== undefined) group.avatar = updates.avatar;
+  if (updates.coverImage !== undefined) group.coverImage = updates.coverImage;
+  if (updates.settings) {
+    group.settings = { ...group.settings, ...updates.settings };
+    if (group.settings.maxMembers < group.members.length) {
+      throw new Error(
+        `maxMembers can't be below the current ${group.members.length} members`,
+      );
+    }
+  }
+  syncDerivedFields(group);
+  touch(group, now);
+}
+
+export function regenerateInviteCode(
+  group: ChatGroup,
+  actorWallet: string,
+  now = new Date(),
+): string {
+  requirePermission(group, actorWallet, "canAddMembers");
+  group.settings.inviteCode = generateInviteCode();
+  syncDerivedFields(group);
+  touch(group, now);
+  return group.settings.inviteCode;
+}
+
+// ============================================================================
+// Invites & Join Requests
+// ============================================================================
+
+function expireInvites(group: ChatGroup, now: Date): void {
+  for (const invite of group.pendingInvites) {
+    if (invite.status === "pending" && new Date(invite.expiresAt) <= now) {
+      invite.status = "expired";
+    }
+  }
+}
+
+export function createInvite(
+  group: ChatGroup,
+  actorWallet: string,
+  inviteeWallet: string,
+  options: { message?: string; now?: Date } = {},
+): GroupInvite {
+  const now = options.now ?? new Date();
+  const actor = requirePermission(group, actorWallet, "canAddMembers");
+  const invitee = normalizeWallet(inviteeWallet);
+  if (findMember(group, invitee)) {
+    throw new Error(`${inviteeWallet} is already a member`);
+  }
+  if (isBanned(group, invitee, now)) {
+    throw new Error(`${inviteeWallet} is banned from ${group.name}`);
+  }
+
+  expireInvites(group, now);
+  // A new invite replaces any pending one for the same wallet
+  group.pendingInvites = group.pendingInvites.filter(
+    (invite) =>
+      !(invite.inviteeWallet === invitee && invite.status === "pending"),
+  );
+
+  const invite: GroupInvite = {
+    id: randomUUID(),
+    groupId: group.id,
+    inviterWallet: actor.walletAddress,
+    inviteeWallet: invitee,
+    message: options.message,
+    status: "pending",
+    expiresAt: new Date(
+      now.getTime() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000,
+    ).toISOString(),
+    createdAt: now.toISOString(),
+  };
+  group.pendingInvites.push(invite);
+  touch(group, now);
+  return invite;
+}
+
+/**
+ * Handles a wallet asking to join: accepts a valid invite or invite code,
+ * admits directly into open groups, and otherwise files a join request for
+ * an admin to review.
+ */
+export function processJoinRequest(
+  group: ChatGroup,
+  requester: GroupMemberProfile,
+  request: { inviteId?: string; inviteCode?: string; message?: string },
+  now = new Date(),
+): "joined" | "pending" {
+  const wallet = normalizeWallet(requester.walletAddress);
+  if (findMember(group, wallet)) return "joined";
+  if (isBanned(group, wallet, now)) {
+    throw new Error(`${requester.walletAddress} is banned from ${group.name}`);
+  }
+
+  expireInvites(group, now);
+  const invite = group.pendingInvites.find(
+    (candidate) =>
+      candidate.id === request.inviteId &&
+      candidate.inviteeWallet === wallet &&
+      candidate.status === "pending",
+  );
+  if (invite) {
+    addMember(group, requester, { invitedBy: invite.inviterWallet, now });
+    invite.status = "accepted";
+    return "joined";
+  }
+
+  const { joinMethod, requireApproval, inviteCode } = group.settings;
+  const codeMatches = !!request.inviteCode && request.inviteCode === inviteCode;
+  if (
+    (joinMethod === "open" && !requireApproval) ||
+    (joinMethod === "code" && codeMatches && !requireApproval)
+  ) {
+    addMember(group, requester, { now });
+    return "joined";
+  }
+  if (joinMethod === "invite") {
+    throw new Error(`${group.name} is invite-only`);
+  }
+  if (joinMethod === "code" && !codeMatches) {
+    throw new Error("Invalid invite code");
+  }
+
+  const alreadyRequested = group.pendingRequests.some(
+    (pending) =>
+      pending.requesterWallet === wallet && pending.status === "pending",
+  );
+  if (!alreadyRequested) {
+    group.pendingRequests.push({
+      id: randomUUID(),
+      groupId: group.id,
+      requesterWallet: wallet,
+      message: request.message,
+      status: "pending",
+      createdAt: now.toISOString(),
+    });
+    touch(group, now);
+  }
+  return "pending";
+}
+
+export function reviewJoinRequest(
+  group: ChatGroup,
+  actorWallet: string,
+  requestId: string,
+  approve: boolean,
+  now = new Date(),
+): JoinRequest {
+  const actor = requirePermission(group, actorWallet, "canAddMembers");
+  const request = group.pendingRequests.find(
+    (pending) => pending.id === requestId,
+  );
+  if (!request || request.status !== "pending") {
+    throw new Error("Join request not found");
+  }
+
+  if (approve) {
+    addMember(group, { walletAddress: request.requesterWallet }, { now });
+  }
+  request.status = approve ? "approved" : "rejected";
+  request.reviewedBy = actor.walletAddress;
+  request.reviewedAt = now.toISOString();
+  touch(group, now);
+  return request;
+}
+
+// ============================================================================
+// Bans
+// ============================================================================
+
+export function banMember(
+  group: ChatGroup,
+  actorWallet: string,
+  targetWallet: string,
+  options: { reason?: string; durationMinutes?: number; now?: Date } = {},
+): BannedUser {
+  const now = options.now ?? new Date();
+  const actor = requirePermission(group, actorWallet, "canRemoveMembers");
+  const wallet = normalizeWallet(targetWallet);
+  if (wallet === actor.walletAddress) {
+    throw new Error("You can't ban yourself");
+  }
+  const target = findMember(group, wallet);
+  if (target) {
+    requireOutranks(actor, target.role);
+    group.members = group.members.filter((member) => member !== target);
+  }
+
+  const ban: BannedUser = {
+    walletAddress: wallet,
+    bannedBy: actor.walletAddress,
+    reason: options.reason,
+    bannedAt: now.toISOString(),
+    expiresAt: options.durationMinutes
+      ? new Date(now.getTime() + options.durationMinutes * 60_000).toISOString()
+      : undefined,
+  };
+  group.bannedUsers = [
+    ...group.bannedUsers.filter(
+      (existing) => existing.walletAddress !== wallet,
+    ),
+    ban,
+  ];
+  for (const invite of group.pendingInvites) {
+    if (invite.inviteeWallet === wallet && invite.status === "pending") {
+      invite.status = "expired";
+    }
+  }
+  for (const request of group.pendingRequests) {
+    if (request.requesterWallet === wallet && request.status === "pending") {
+      request.status = "rejected";
+    }
+  }
+  syncDerivedFields(group);
+  touch(group, now);
+  return ban;
+}
+
+export function unbanMember(
+  group: ChatGroup,
+  actorWallet: string,
+  targetWallet: string,
+  now = new Date(),
+): void {
+  requirePermission(group, actorWallet, "canRemoveMembers");
+  const wallet = normalizeWallet(targetWallet);
+  group.bannedUsers = group.bannedUsers.filter(
+    (ban) => ban.walletAddress !== wallet,
+  );
+  touch(group, now);
+}
+
+// ============================================================================
+// Polls
+// ============================================================================
+
+export function createPoll(
+  group: ChatGroup,
+  actorWallet: string,
+  request: CreatePollRequest,
+  now = new Date(),
+): Poll {
+  const actor = requirePermission(group, actorWallet, "canCreatePolls");
+  if (!group.settings.allowPolls) {
+    throw new Error(`Polls are disabled in ${group.name}`);
+  }
+  const options = [
+    ...new Set(request.options.map((text) => text.trim())),
+  ].filter(Boolean);
+  if (!request.question.trim()) throw new Error("Poll question is required");
+  if (options.length < 2) throw new Error("A poll needs at least two options");
+  if (request.endsAt && new Date(request.endsAt) <= now) {
+    throw new Error("Poll end time must be in the future");
+  }
+
+  return {
+    id: randomUUID(),
+    conversationId: group.conversationId,
+    creatorWallet: actor.walletAddress,
+    question: request.question.trim(),
+    options: options.map((text) => ({
+      id: randomUUID(),
+      text,
+      votes: 0,
+      voters: [],
+    })),
+    type: request.type ?? "single",
+    anonymous: request.anonymous ?? false,
+    showResults: request.showResults ?? "always",
+    allowAddOptions: request.allowAddOptions ?? false,
+    endsAt: request.endsAt,
+    totalVotes: 0,
+    status: "active",
+    createdAt: now.toISOString(),
+  };
+}
+
+/** Ends polls whose deadline has passed; returns true if it changed */
+export function expirePoll(poll: Poll, now = new Date()): boolean {
+  if (poll.status === "active" && poll.endsAt && new Date(poll.endsAt) <= now) {
+    poll.status = "ended";
+    poll.endedAt = poll.endsAt;
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Records a member's vote, replacing any earlier vote of theirs. Voters are
+ * always tracked so votes stay one-per-member; `toPublicPoll` hides them for
+ * anonymous polls.
+ */
+export function votePoll(
+  poll: Poll,
+  group: ChatGroup,
+  voterWallet: string,
+  optionIds: string[],
+  now = new Date(),
+): void {
+  expirePoll(poll, now);
+  if (poll.status !== "active") throw new Error("This poll has ended");
+  const voter = requireMember(group, voterWallet).walletAddress;
+
+  const choices = [...new Set(optionIds)];
+  if (poll.type === "single" && choices.length !== 1) {
+    throw new Error("Pick exactly one option");
+  }
+  if (choices.some((id) => !poll.options.some((option) => option.id === id))) {
+    throw new Error("Unknown poll option");
+  }
+
+  for (const option of poll.options) {
+    const voters = (option.voters ?? []).filter((wallet) => wallet !== voter);
+    if (choices.includes(option.id)) voters.push(voter);
+    option.voters = voters;
+    option.votes = voters.length;
+  }
+  poll.totalVotes = new Set(
+    poll.options.flatMap((option) => option.voters ?? []),
+  ).size;
+}
+
+export function addPollOption(
+  poll: Poll,
+  group: ChatGroup,
+  actorWallet: string,
+  text: string,
+): void {
+  requireMember(group, actorWallet);
+  if (poll.status !== "active") throw new Error("This poll has ended");
+  if (!poll.allowAddOptions)
+    throw new Error("This poll doesn't allow new options");
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("Option text is required");
+  if (poll.options.some((option) => option.text === trimmed)) {
+    throw new Error("That option already exists");
+  }
+  poll.options.push({ id: randomUUID(), text: trimmed, votes: 0, voters: [] });
+}
+
+export function closePoll(
+  poll: Poll,
+  group: ChatGroup,
+  actorWallet: string,
+  now = new Date(),
+): void {
+  const actor = requireMember(group, actorWallet);
+  if (
+    actor.walletAddress !== poll.creatorWallet &&
+    GROUP_ROLE_RANK[actor.role] < GROUP_ROLE_RANK.moderator
+  ) {
+    throw new Error("Only the creator or a moderator can end this poll");
+  }
+  if (poll.status !== "active") return;
+  poll.status = "ended";
+  poll.endedAt = now.toISOString();
+}
+
+/**
+ * The view of a poll a given member may see: anonymous polls only reveal
+ * the viewer's own vote, and results stay hidden until the poll's
+ * `showResults` condition is met.
+ */
+export function toPublicPoll(poll: Poll, viewerWallet: string): Poll {
+  const viewer = normalizeWallet(viewerWallet);
+  const hasVoted = poll.options.some((option) =>
+    option.voters?.includes(viewer),
+  );
+  const resultsVisible =
+    poll.showResults === "always" ||
+    (poll.showResults === "after-vote" &&
+      (hasVoted || poll.status !== "active")) ||
+    (poll.showResults === "after-end" && poll.status !== "active");
+
+  return {
+    ...poll,
+    totalVotes: resultsVisible ? poll.totalVotes : 0,
+    options: poll.options.map((option) => ({
+      ...option,
+      votes: resultsVisible ? option.votes : 0,
+      voters:
+        poll.anonymous || !resultsVisible
+          ? option.voters?.filter((wallet) => wallet === viewer)
+          : option.voters,
+    })),
+  };
+}
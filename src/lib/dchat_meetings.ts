@@ -0,0 +1,507 @@
+/**
+ * Decentralized Chat Meetings
+ * Meeting lifecycle: scheduling, starting, joining through the waiting room,
+ * moderation and ending. Media itself flows over WebRTC; this module only
+ * tracks who is in the meeting and in what state.
+ *
+ * Like the group helpers, these functions mutate the `Meeting` in place and
+ * throw when an action isn't allowed.
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import type {
+  CreateMeetingRequest,
+  MediaStateUpdate,
+  Meeting,
+  MeetingParticipant,
+  MeetingRole,
+  MeetingSettings,
+} from "@/types/decentralized_chat_types";
+
+export const DEFAULT_MEETING_SETTINGS: MeetingSettings = {
+  startWithAudioMuted: false,
+  startWithVideoOff: false,
+  allowParticipantVideo: true,
+  allowParticipantAudio: true,
+  allowScreenShare: true,
+  muteOnEntry: false,
+  lockMeeting: false,
+  allowChat: true,
+  allowReactions: true,
+  allowHandRaise: true,
+  allowRecording: true,
+  notifyOnRecording: true,
+  endToEndEncryption: true,
+  enableWaitingRoom: false,
+  autoAdmit: true,
+  defaultLayout: "gallery",
+  maxVideoTiles: 25,
+  preferredVideoQuality: "auto",
+  preferredAudioCodec: "opus",
+};
+
+const DEFAULT_MAX_PARTICIPANTS = 50;
+
+/** Participants currently in the call (or on their way in) */
+const ACTIVE_STATUSES: MeetingParticipant["status"][] = [
+  "joining",
+  "connecting",
+  "connected",
+  "reconnecting",
+];
+
+export interface MeetingParticipantProfile {
+  walletAddress: string;
+  displayName?: string;
+  avatar?: string;
+  peerId?: string;
+}
+
+function normalizeWallet(walletAddress: string): string {
+  return walletAddress.toLowerCase();
+}
+
+export function hashMeetingPassword(password: string): string {
+  return createHash("sha256").update(password).digest("hex");
+}
+
+/**
+ * Proves knowledge of the meeting password to the host without sending it,
+ * bound to the joining wallet so it can't be reused by someone else.
+ */
+export function meetingPasswordProof(
+  passwordHash: string,
+  walletAddress: string,
+): string {
+  return createHash("sha256")
+    .update(`${passwordHash}:${normalizeWallet(walletAddress)}`)
+    .digest("hex");
+}
+
+function touch(meeting: Meeting, now: Date): void {
+  meeting.updatedAt = now.toISOString();
+}
+
+export function createMeeting(
+  request: CreateMeetingRequest,
+  host: MeetingParticipantProfile,
+  now = new Date(),
+): Meeting {
+  if (!request.title.trim()) throw new Error("Meeting title is required");
+  const scheduled =
+    request.type === "scheduled" || request.type === "recurring";
+  if (scheduled && !request.scheduledStart) {
+    throw new Error("Scheduled meetings need a start time");
+  }
+  if (
+    request.scheduledStart &&
+    request.scheduledEnd &&
+    new Date(request.scheduledEnd) <= new Date(request.scheduledStart)
+  ) {
+    throw new Error("Meeting must end after it starts");
+  }
+
+  const id = randomUUID();
+  const settings = { ...DEFAULT_MEETING_SETTINGS, ...request.settings };
+  const hostWallet = normalizeWallet(host.walletAddress);
+  const invitees = (request.invitees ?? [])
+    .map(normalizeWallet)
+    .filter((wallet) => wallet !== hostWallet);
+
+  return {
+    id,
+    conversationId: request.conversationId ?? "",
+    title: request.title.trim(),
+    description: request.description,
+    type: request.type,
+    status: scheduled ? "scheduled" : "waiting",
+    scheduledStart: request.scheduledStart,
+    scheduledEnd: request.scheduledEnd,
+    duration:
+      request.scheduledStart && request.scheduledEnd
+        ? Math.round(
+            (new Date(request.scheduledEnd).getTime() -
+              new Date(request.scheduledStart).getTime()) /
+              60_000,
+          )
+        : undefined,
+    hostWallet,
+    participants: [
+      createParticipant(host, "host", "invited", settings),
+      ...invitees.map((walletAddress) =>
+        createParticipant(
+          { walletAddress },
+          "participant",
+          "invited",
+          settings,
+        ),
+      ),
+    ],
+    maxParticipants: request.maxParticipants ?? DEFAULT_MAX_PARTICIPANTS,
+    waitingRoom: [],
+    isPublic: false,
+    requiresApproval: request.requiresApproval ?? settings.enableWaitingRoom,
+    password: request.password
+      ? hashMeetingPassword(request.password)
+      : undefined,
+    inviteLink: `joycreate://meeting/${id}`,
+    isRecording: false,
+    allowRecording: settings.allowRecording,
+    autoRecord: false,
+    settings,
+    webrtcRoomId: randomUUID(),
+    signalingTopic: `/joycreate/meeting/v1/${id}`,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+}
+
+function createParticipant(
+  profile: MeetingParticipantProfile,
+  role: MeetingRole,
+  status: MeetingParticipant["status"],
+  settings: MeetingSettings,
+): MeetingParticipant {
+  const audioMuted = settings.muteOnEntry || settings.startWithAudioMuted;
+  return {
+    walletAddress: normalizeWallet(profile.walletAddress),
+    displayName: profile.displayName,
+    avatar: profile.avatar,
+    peerId: profile.peerId,
+    role,
+    status,
+    audioEnabled: role === "host" || !audioMuted,
+    videoEnabled: !settings.startWithVideoOff,
+    screenSharing: false,
+    handRaised: false,
+  };
+}
+
+export function findParticipant(
+  meeting: Meeting,
+  walletAddress: string,
+): MeetingParticipant | undefined {
+  const wallet = normalizeWallet(walletAddress);
+  return meeting.participants.find(
+    (participant) => participant.walletAddress === wallet,
+  );
+}
+
+export function getActiveParticipants(meeting: Meeting): MeetingParticipant[] {
+  return meeting.participants.filter((participant) =>
+    ACTIVE_STATUSES.includes(participant.status),
+  );
+}
+
+export function isMeetingModerator(
+  meeting: Meeting,
+  walletAddress: string,
+): boolean {
+  const participant = findParticipant(meeting, walletAddress);
+  return (
+    normalizeWallet(walletAddress) === meeting.hostWallet ||
+    participant?.role === "co-host"
+  );
+}
+
+function requireModerator(meeting: Meeting, walletAddress: string): void {
+  if (!isMeetingModerator(meeting, walletAddress)) {
+    throw new Error("Only the host or a co-host can do that");
+  }
+}
+
+function requireOpen(meeting: Meeting): void {
+  if (meeting.status === "ended" || meeting.status === "cancelled") {
+    throw new Error(`This meeting has ${meeting.status}`);
+  }
+}
+
+export function startMeeting(
+  meeting: Meeting,
+  actorWallet: string,
+  now = new Date(),
+): void {
+  requireOpen(meeting);
+  requireModerator(meeting, actorWallet);
+  if (meeting.status === "scheduled") {
+    meeting.status = "waiting";
+    touch(meeting, now);
+  }
+}
+
+/**
+ * Adds a participant to the meeting, or to the waiting room when approval
+ * is required. The host joining a scheduled meeting starts it.
+ */
+export function joinMeeting(
+  meeting: Meeting,
+  profile: MeetingParticipantProfile,
+  options: {
+    password?: string;
+    passwordProof?: string;
+    audioEnabled?: boolean;
+    videoEnabled?: boolean;
+    now?: Date;
+  } = {},
+): "joined" | "waiting" {
+  const now = options.now ?? new Date();
+  requireOpen(meeting);
+  const wallet = normalizeWallet(profile.walletAddress);
+  const isHost = wallet === meeting.hostWallet;
+  const existing = findParticipant(meeting, wallet);
+
+  if (existing?.status === "kicked") {
+    throw new Error("You were removed from this meeting");
+  }
+  if (!isHost) {
+    if (meeting.status === "scheduled") {
+      throw new Error("The host hasn't started this meeting yet");
+    }
+    if (meeting.settings.lockMeeting) throw new Error("This meeting is locked");
+    const passwordAccepted =
+      !meeting.password ||
+      (!!options.password &&
+        hashMeetingPassword(options.password) === meeting.password) ||
+      options.passwordProof === meetingPasswordProof(meeting.password, wallet);
+    if (!passwordAccepted) {
+      throw new Error("Incorrect meeting password");
+    }
+    if (!existing || !ACTIVE_STATUSES.includes(existing.status)) {
+      if (getActiveParticipants(meeting).length >= meeting.maxParticipants) {
+        throw new Error("This meeting is full");
+      }
+    }
+  }
+  if (isHost && meeting.status === "scheduled") {
+    meeting.status = "waiting";
+  }
+
+  const participant =
+    existing ??
+    createParticipant(
+      profile,
+      isHost ? "host" : "participant",
+      "invited",
+      meeting.settings,
+    );
+  if (!existing) meeting.participants.push(participant);
+  participant.displayName = profile.displayName ?? participant.displayName;
+  participant.avatar = profile.avatar ?? participant.avatar;
+  participant.peerId = profile.peerId ?? participant.peerId;
+  participant.leftAt = undefined;
+
+  const needsApproval =
+    !isHost &&
+    participant.role !== "co-host" &&
+    (meeting.requiresApproval ||
+      (meeting.settings.enableWaitingRoom && !meeting.settings.autoAdmit));
+  if (needsApproval) {
+    participant.status = "waiting";
+    if (!meeting.waitingRoom.includes(wallet)) meeting.waitingRoom.push(wallet);
+    touch(meeting, now);
+    return "waiting";
+  }
+
+  admit(meeting, participant, options, now);
+  return "joined";
+}
+
+function admit(
+  meeting: Meeting,
+  participant: MeetingParticipant,
+  media: { audioEnabled?: boolean; videoEnabled?: boolean },
+  now: Date,
+): void {
+  const { settings } = meeting;
+  const isModeratorRole =
+    participant.role === "host" || participant.role === "co-host";
+  participant.status = "connecting";
+  participant.joinedAt = now.toISOString();
+  participant.audioEnabled =
+    (media.audioEnabled ?? participant.audioEnabled) &&
+    (isModeratorRole ||
+      (settings.allowParticipantAudio && !settings.muteOnEntry));
+  participant.videoEnabled =
+    (media.videoEnabled ?? participant.videoEnabled) &&
+    (isModeratorRole || settings.allowParticipantVideo);
+  meeting.waitingRoom = meeting.waitingRoom.filter(
+    (wallet) => wallet !== participant.walletAddress,
+  );
+
+  if (getActiveParticipants(meeting).length >= 2 && meeting.status !== "live") {
+    meeting.status = "live";
+    meeting.actualStart ??= now.toISOString();
+  }
+  touch(meeting, now);
+}
+
+export function admitParticipant(
+  meeting: Meeting,
+  actorWallet: string,
+  targetWallet: string,
+  now = new Date(),
+): MeetingParticipant {
+  requireOpen(meeting);
+  requireModerator(meeting, actorWallet);
+  const participant = findParticipant(meeting, targetWallet);
+  if (!participant || participant.status !== "waiting") {
+    throw new Error(`${targetWallet} is not in the waiting room`);
+  }
+  admit(meeting, participant, {}, now);
+  return participant;
+}
+
+/**
+ * Marks a participant as gone. When the last participant leaves a started
+ * meeting, the meeting ends.
+ */
+export function leaveMeeting(
+  meeting: Meeting,
+  walletAddress: string,
+  now = new Date(),
+): void {
+  const participant = findParticipant(meeting, walletAddress);
+  if (!participant) return;
+  participant.status = "left";
+  participant.leftAt = now.toISOString();
+  participant.screenSharing = false;
+  participant.handRaised = false;
+  meeting.waitingRoom = meeting.waitingRoom.filter(
+    (wallet) => wallet !== participant.walletAddress,
+  );
+
+  if (
+    (meeting.status === "live" ||
+      meeting.status === "waiting" ||
+      meeting.status === "paused") &&
+    getActiveParticipants(meeting).length === 0
+  ) {
+    finish(meeting, now);
+  }
+  touch(meeting, now);
+}
+
+export function removeParticipant(
+  meeting: Meeting,
+  actorWallet: string,
+  targetWallet: string,
+  now = new Date(),
+): void {
+  requireModerator(meeting, actorWallet);
+  const participant = findParticipant(meeting, targetWallet);
+  if (!participant) throw new Error(`${targetWallet} is not in this meeting`);
+  if (participant.walletAddress === meeting.hostWallet) {
+    throw new Error("The host can't be removed");
+  }
+  participant.status = "kicked";
+  participant.leftAt = now.toISOString();
+  meeting.waitingRoom = meeting.waitingRoom.filter(
+    (wallet) => wallet !== participant.walletAddress,
+  );
+  touch(meeting, now);
+}
+
+export function setParticipantRole(
+  meeting: Meeting,
+  actorWallet: string,
+  targetWallet: string,
+  role: Exclude<MeetingRole, "host">,
+  now = new Date(),
+): void {
+  if (normalizeWallet(actorWallet) !== meeting.hostWallet) {
+    throw new Error("Only the host can change roles");
+  }
+  const participant = findParticipant(meeting, targetWallet);
+  if (!participant) throw new Error(`${targetWallet} is not in this meeting`);
+  if (participant.walletAddress === meeting.hostWallet) {
+    throw new Error("The host's role can't be changed");
+  }
+  participant.role = role;
+  touch(meeting, now);
+}
+
+/**
+ * Applies a participant's own media or connection state change, within what
+ * the meeting settings allow.
+ */
+export function updateParticipantMedia(
+  meeting: Meeting,
+  walletAddress: string,
+  update: MediaStateUpdate,
+  now = new Date(),
+): MeetingParticipant {
+  const participant = findParticipant(meeting, walletAddress);
+  if (!participant) throw new Error(`${walletAddress} is not in this meeting`);
+  const { settings } = meeting;
+  const privileged = isMeetingModerator(meeting, walletAddress);
+
+  if (update.audioEnabled && !privileged && !settings.allowParticipantAudio) {
+    throw new Error("Participant audio is disabled in this meeting");
+  }
+  if (update.videoEnabled && !privileged && !settings.allowParticipantVideo) {
+    throw new Error("Participant video is disabled in this meeting");
+  }
+  if (update.screenSharing && !privileged && !settings.allowScreenShare) {
+    throw new Error("Screen sharing is disabled in this meeting");
+  }
+  if (update.handRaised && !settings.allowHandRaise) {
+    throw new Error("Hand raising is disabled in this meeting");
+  }
+  if (update.status === "kicked") {
+    throw new Error("Use removeParticipant to remove someone");
+  }
+
+  Object.assign(
+    participant,
+    Object.fromEntries(
+      Object.entries(update).filter(([, value]) => value !== undefined),
+    ),
+  );
+  touch(meeting, now);
+  return participant;
+}
+
+function finish(meeting: Meeting, now: Date): void {
+  meeting.status = "ended";
+  meeting.actualEnd = now.toISOString();
+  if (meeting.actualStart) {
+    meeting.duration = Math.round(
+      (now.getTime() - new Date(meeting.actualStart).getTime()) / 60_000,
+    );
+  }
+  meeting.isRecording = false;
+}
+
+export function endMeeting(
+  meeting: Meeting,
+  actorWallet: string,
+  now = new Date(),
+): void {
+  requireOpen(meeting);
+  requireModerator(meeting, actorWallet);
+  for (const participant of meeting.participants) {
+    if (
+      ACTIVE_STATUSES.includes(participant.status) ||
+      participant.status === "waiting"
+    ) {
+      participant.status = "left";
+      participant.leftAt = now.toISOString();
+    }
+  }
+  meeting.waitingRoom = [];
+  finish(meeting, now);
+  touch(meeting, now);
+}
+
+export function cancelMeeting(
+  meeting: Meeting,
+  actorWallet: string,
+  now = new Date(),
+): void {
+  requireModerator(meeting, actorWallet);
+  if (meeting.status !== "scheduled") {
+    throw new Error("Only meetings that haven't started can be cancelled");
+  }
+  meeting.status = "cancelled";
+  touch(meeting, now);
+}
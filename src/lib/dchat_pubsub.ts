@@ -0,0 +1,85 @@
+/**
+ * Decentralized Chat PubSub Authentication
+ * Signing and verification of PubSub envelopes.
+ *
+ * A `senderId` is only as good as the signature behind it: before anything
+ * acts on a received envelope, its signature has to verify against the
+ * signing key we already know for that wallet. A wallet we've never seen can
+ * introduce its key with the envelope, and that key is pinned from then on.
+ */
+
+import { createHash } from "node:crypto";
+import nacl from "tweetnacl";
+import type { ChatPubSubMessage } from "@/types/decentralized_chat_types";
+
+type SignedFields = Pick<
+  ChatPubSubMessage,
+  "type" | "conversationId" | "payload" | "timestamp"
+>;
+
+export interface AuthenticatedSender {
+  signingKey: string;
+  /** The key came with the envelope rather than from what we already knew */
+  introduced: boolean;
+}
+
+/** Hex digest of the signed fields; the signature covers this string */
+export function pubSubDigest(message: SignedFields): string {
+  const { type, conversationId, payload, timestamp } = message;
+  return createHash("sha256")
+    .update(JSON.stringify({ type, conversationId, payload, timestamp }))
+    .digest("hex");
+}
+
+export function signPubSubMessage(
+  message: SignedFields,
+  signingSecret: string,
+): string {
+  const signature = nacl.sign.detached(
+    Buffer.from(pubSubDigest(message), "utf8"),
+    Buffer.from(signingSecret, "base64"),
+  );
+  return Buffer.from(signature).toString("base64");
+}
+
+export function verifyPubSubMessage(
+  message: ChatPubSubMessage,
+  signingKey: string,
+): boolean {
+  try {
+    return nacl.sign.detached.verify(
+      Buffer.from(pubSubDigest(message), "utf8"),
+      Buffer.from(message.signature, "base64"),
+      Buffer.from(signingKey, "base64"),
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decide whether an envelope really comes from its `senderId`.
+ * With a known key the envelope must verify against it (and may not claim a
+ * different one); otherwise it must verify against the key it introduces.
+ * Returns null when the envelope should be dropped.
+ */
+export function authenticatePubSubMessage(
+  message: ChatPubSubMessage,
+  knownSigningKey: string | undefined,
+): AuthenticatedSender | null {
+  if (!message.signature) return null;
+
+  if (knownSigningKey) {
+    if (message.signingKey && message.signingKey !== knownSigningKey) {
+      return null;
+    }
+    return verifyPubSubMessage(message, knownSigningKey)
+      ? { signingKey: knownSigningKey, introduced: false }
+      : null;
+  }
+
+  if (!message.signingKey) return null;
+  return verifyPubSubMessage(message, message.signingKey)
+    ? { signingKey: message.signingKey, introduced: true }
+    : null;
+}
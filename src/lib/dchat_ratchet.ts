@@ -0,0 +1,604 @@
+/**
+ * Decentralized Chat Ratchet
+ * Forward-secret message encryption: X3DH session setup from a published
+ * pre-key bundle, a double ratchet per pairwise session, and sender keys for
+ * group fan-out.
+ *
+ * All key material is base64 so session state can be written to disk as-is.
+ * Like the other chat helpers, these functions mutate the state they're given
+ * and throw when an operation isn't possible. Decryption is the exception: a
+ * message that fails to authenticate leaves the state untouched.
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  hkdfSync,
+  randomBytes,
+} from "node:crypto";
+import nacl from "tweetnacl";
+import type {
+  KeyBundle,
+  LocalPreKeys,
+  OwnSenderKey,
+  PreKeyMessage,
+  PreKeyPair,
+  RatchetEnvelope,
+  RatchetHeader,
+  SenderKeyHeader,
+  SenderKeyState,
+  SessionKeys,
+} from "@/types/decentralized_chat_types";
+
+export const ONE_TIME_PREKEY_COUNT = 20;
+export const ONE_TIME_PREKEY_REFILL_THRESHOLD = 5;
+export const SIGNED_PREKEY_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+export const BUNDLE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Most message keys we'll derive ahead of a gap in one chain */
+export const MAX_SKIP = 1000;
+const MAX_STORED_SKIPPED_KEYS = 2000;
+
+const X3DH_INFO = "JoyCreateX3DH";
+const RATCHET_INFO = "JoyCreateRatchet";
+const AES_ALGORITHM = "aes-256-gcm";
+const AUTH_TAG_LENGTH = 16;
+
+export interface IdentityKeys {
+  publicKey: string;
+  secretKey: string;
+}
+
+// ============================================================================
+// Primitives
+// ============================================================================
+
+const b64 = (bytes: Uint8Array) => Buffer.from(bytes).toString("base64");
+const unb64 = (value: string) => new Uint8Array(Buffer.from(value, "base64"));
+
+export function generateKeyPair(): PreKeyPair {
+  const pair = nacl.box.keyPair();
+  return { publicKey: b64(pair.publicKey), secretKey: b64(pair.secretKey) };
+}
+
+function dh(secretKey: string, publicKey: string): Buffer {
+  const shared = nacl.scalarMult(unb64(secretKey), unb64(publicKey));
+  // A low-order public key yields an all-zero secret
+  if (shared.every((byte) => byte === 0)) {
+    throw new Error("Invalid public key");
+  }
+  return Buffer.from(shared);
+}
+
+function hkdf(ikm: Buffer, salt: Buffer, info: string, length: number): Buffer {
+  return Buffer.from(hkdfSync("sha256", ikm, salt, info, length));
+}
+
+/** KDF_RK: mix a DH output into the root key, returning the new root and chain keys */
+function kdfRootKey(rootKey: string, dhOutput: Buffer): [string, string] {
+  const out = hkdf(dhOutput, Buffer.from(rootKey, "base64"), RATCHET_INFO, 64);
+  return [
+    out.subarray(0, 32).toString("base64"),
+    out.subarray(32).toString("base64"),
+  ];
+}
+
+/** KDF_CK: step a chain key, returning the next chain key and this step's message key */
+function kdfChainKey(chainKey: string): [string, string] {
+  const key = Buffer.from(chainKey, "base64");
+  const next = createHmac("sha256", key)
+    .update(Buffer.from([0x02]))
+    .digest();
+  const messageKey = createHmac("sha256", key)
+    .update(Buffer.from([0x01]))
+    .digest();
+  return [next.toString("base64"), messageKey.toString("base64")];
+}
+
+function seal(
+  messageKey: string,
+  plaintext: string,
+  associatedData: string,
+): { ciphertext: string; nonce: string } {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(
+    AES_ALGORITHM,
+    Buffer.from(messageKey, "base64"),
+    iv,
+  );
+  cipher.setAAD(Buffer.from(associatedData, "utf8"));
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+  return {
+    ciphertext: ciphertext.toString("base64"),
+    nonce: iv.toString("base64"),
+  };
+}
+
+function open(
+  messageKey: string,
+  ciphertext: string,
+  nonce: string,
+  associatedData: string,
+): string {
+  const data = Buffer.from(ciphertext, "base64");
+  if (data.length < AUTH_TAG_LENGTH) {
+    throw new Error("Ciphertext too short");
+  }
+  const decipher = createDecipheriv(
+    AES_ALGORITHM,
+    Buffer.from(messageKey, "base64"),
+    Buffer.from(nonce, "base64"),
+  );
+  decipher.setAAD(Buffer.from(associatedData, "utf8"));
+  decipher.setAuthTag(data.subarray(data.length - AUTH_TAG_LENGTH));
+  try {
+    return Buffer.concat([
+      decipher.update(data.subarray(0, data.length - AUTH_TAG_LENGTH)),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    throw new Error("Failed to decrypt message");
+  }
+}
+
+/**
+ * Run a state change on a copy and only keep it if it succeeds
+ */
+function transactional<S extends object, T>(
+  state: S,
+  change: (draft: S) => T,
+): T {
+  const draft = structuredClone(state);
+  const result = change(draft);
+  for (const key of Object.keys(state)) {
+    if (!(key in draft)) delete (state as Record<string, unknown>)[key];
+  }
+  Object.assign(state, draft);
+  return result;
+}
+
+function pruneSkippedKeys(skippedKeys: Record<string, string>): void {
+  const keys = Object.keys(skippedKeys);
+  for (const key of keys.slice(
+    0,
+    Math.max(0, keys.length - MAX_STORED_SKIPPED_KEYS),
+  )) {
+    delete skippedKeys[key];
+  }
+}
+
+// ============================================================================
+// Pre-keys
+// ============================================================================
+
+function signPreKey(publicKey: string, signingSecretKey: string): string {
+  return b64(nacl.sign.detached(unb64(publicKey), unb64(signingSecretKey)));
+}
+
+export function createPreKeys(
+  signingSecretKey: string,
+  now = new Date(),
+): LocalPreKeys {
+  const signed = generateKeyPair();
+  return {
+    signedPreKey: {
+      ...signed,
+      signature: signPreKey(signed.publicKey, signingSecretKey),
+      createdAt: now.toISOString(),
+    },
+    oneTimePreKeys: Array.from({ length: ONE_TIME_PREKEY_COUNT }, () =>
+      generateKeyPair(),
+    ),
+  };
+}
+
+/**
+ * Rotate an old signed pre-key and top up one-time pre-keys.
+ * Returns whether anything changed, i.e. whether the bundle needs republishing.
+ */
+export function refreshPreKeys(
+  preKeys: LocalPreKeys,
+  signingSecretKey: string,
+  now = new Date(),
+): boolean {
+  let changed = false;
+
+  const age =
+    now.getTime() - new Date(preKeys.signedPreKey.createdAt).getTime();
+  if (age > SIGNED_PREKEY_MAX_AGE_MS) {
+    const { publicKey, secretKey } = preKeys.signedPreKey;
+    preKeys.previousSignedPreKey = { publicKey, secretKey };
+    const signed = generateKeyPair();
+    preKeys.signedPreKey = {
+      ...signed,
+      signature: signPreKey(signed.publicKey, signingSecretKey),
+      createdAt: now.toISOString(),
+    };
+    changed = true;
+  }
+
+  if (preKeys.oneTimePreKeys.length < ONE_TIME_PREKEY_REFILL_THRESHOLD) {
+    while (preKeys.oneTimePreKeys.length < ONE_TIME_PREKEY_COUNT) {
+      preKeys.oneTimePreKeys.push(generateKeyPair());
+    }
+    changed = true;
+  }
+
+  return changed;
+}
+
+export function toKeyBundle(
+  preKeys: LocalPreKeys,
+  identity: { walletAddress: string; publicKey: string; signingKey: string },
+  now = new Date(),
+): KeyBundle {
+  return {
+    identityKey: identity.publicKey,
+    identitySigningKey: identity.signingKey,
+    signedPreKey: preKeys.signedPreKey.publicKey,
+    preKeySignature: preKeys.signedPreKey.signature,
+    oneTimePreKeys: preKeys.oneTimePreKeys.map((key) => key.publicKey),
+    walletAddress: identity.walletAddress,
+    uploadedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + BUNDLE_TTL_MS).toISOString(),
+  };
+}
+
+export function verifyKeyBundle(bundle: KeyBundle, now = new Date()): boolean {
+  try {
+    if (new Date(bundle.expiresAt) <= now) return false;
+    return nacl.sign.detached.verify(
+      unb64(bundle.signedPreKey),
+      unb64(bundle.preKeySignature),
+      unb64(bundle.identitySigningKey),
+    );
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// X3DH
+// ============================================================================
+
+function x3dhSecret(parts: Buffer[]): Buffer {
+  // 32 0xFF bytes domain-separate X25519 from other uses of the curve
+  const ikm = Buffer.concat([Buffer.alloc(32, 0xff), ...parts]);
+  return hkdf(ikm, Buffer.alloc(32), X3DH_INFO, 32);
+}
+
+function sessionIdFor(ephemeralKey: string): string {
+  return createHash("sha256")
+    .update(ephemeralKey)
+    .digest("hex")
+    .substring(0, 32);
+}
+
+/**
+ * Start a session with a peer from their published bundle. The first
+ * one-time pre-key is used, so callers should drop it from their copy.
+ */
+export function initiateSession(
+  identity: IdentityKeys,
+  bundle: KeyBundle,
+  now = new Date(),
+): SessionKeys {
+  if (!verifyKeyBundle(bundle, now)) {
+    throw new Error("Invalid pre-key bundle");
+  }
+
+  const ephemeral = generateKeyPair();
+  const oneTimePreKey = bundle.oneTimePreKeys[0];
+  const parts = [
+    dh(identity.secretKey, bundle.signedPreKey),
+    dh(ephemeral.secretKey, bundle.identityKey),
+    dh(ephemeral.secretKey, bundle.signedPreKey),
+  ];
+  if (oneTimePreKey) {
+    parts.push(dh(ephemeral.secretKey, oneTimePreKey));
+  }
+  const sharedSecret = x3dhSecret(parts).toString("base64");
+
+  const ourRatchetKey = generateKeyPair();
+  const [rootKey, sendingChainKey] = kdfRootKey(
+    sharedSecret,
+    dh(ourRatchetKey.secretKey, bundle.signedPreKey),
+  );
+
+  const preKey: PreKeyMessage = {
+    identityKey: identity.publicKey,
+    ephemeralKey: ephemeral.publicKey,
+    signedPreKey: bundle.signedPreKey,
+    oneTimePreKey,
+  };
+
+  return {
+    sessionId: sessionIdFor(ephemeral.publicKey),
+    peerWallet: bundle.walletAddress,
+    associatedData: identity.publicKey + bundle.identityKey,
+    rootKey,
+    sendingChainKey,
+    sendingMessageNumber: 0,
+    receivingMessageNumber: 0,
+    previousChainLength: 0,
+    ourRatchetKey,
+    theirRatchetKey: bundle.signedPreKey,
+    skippedKeys: {},
+    pendingPreKey: preKey,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Accept a session a peer started against our bundle. Consumes the one-time
+ * pre-key it used; the first message itself still has to be decrypted with
+ * `ratchetDecrypt`. The pre-key message has to carry the identity key we
+ * already know the peer by, or anyone could start a session in their name.
+ */
+export function acceptSession(
+  identity: IdentityKeys,
+  preKeys: LocalPreKeys,
+  peer: { walletAddress: string; publicKey: string },
+  preKey: PreKeyMessage,
+  now = new Date(),
+): SessionKeys {
+  if (!peer.publicKey || preKey.identityKey !== peer.publicKey) {
+    throw new Error("Pre-key message identity key doesn't match the sender");
+  }
+  const signed = [preKeys.signedPreKey, preKeys.previousSignedPreKey].find(
+    (key) => key?.publicKey === preKey.signedPreKey,
+  );
+  if (!signed) {
+    throw new Error("Unknown signed pre-key");
+  }
+
+  const parts = [
+    dh(signed.secretKey, preKey.identityKey),
+    dh(identity.secretKey, preKey.ephemeralKey),
+    dh(signed.secretKey, preKey.ephemeralKey),
+  ];
+  if (preKey.oneTimePreKey) {
+    const index = preKeys.oneTimePreKeys.findIndex(
+      (key) => key.publicKey === preKey.oneTimePreKey,
+    );
+    if (index === -1) {
+      throw new Error("One-time pre-key already used");
+    }
+    parts.push(
+      dh(preKeys.oneTimePreKeys[index].secretKey, preKey.ephemeralKey),
+    );
+    preKeys.oneTimePreKeys.splice(index, 1);
+  }
+
+  return {
+    sessionId: sessionIdFor(preKey.ephemeralKey),
+    peerWallet: peer.walletAddress,
+    associatedData: preKey.identityKey + identity.publicKey,
+    rootKey: x3dhSecret(parts).toString("base64"),
+    sendingMessageNumber: 0,
+    receivingMessageNumber: 0,
+    previousChainLength: 0,
+    ourRatchetKey: { publicKey: signed.publicKey, secretKey: signed.secretKey },
+    skippedKeys: {},
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+}
+
+// ============================================================================
+// Double Ratchet
+// ============================================================================
+
+function headerAssociatedData(session: SessionKeys, header: RatchetHeader) {
+  return `${session.associatedData}|${header.sessionId}|${header.dh}|${header.pn}|${header.n}`;
+}
+
+export function ratchetEncrypt(
+  session: SessionKeys,
+  plaintext: string,
+  now = new Date(),
+): RatchetEnvelope {
+  if (!session.sendingChainKey) {
+    throw new Error("Session has no sending chain yet");
+  }
+
+  const [chainKey, messageKey] = kdfChainKey(session.sendingChainKey);
+  const header: RatchetHeader = {
+    sessionId: session.sessionId,
+    dh: session.ourRatchetKey.publicKey,
+    pn: session.previousChainLength,
+    n: session.sendingMessageNumber,
+  };
+  if (session.pendingPreKey) {
+    header.preKey = session.pendingPreKey;
+  }
+
+  session.sendingChainKey = chainKey;
+  session.sendingMessageNumber += 1;
+  session.updatedAt = now.toISOString();
+
+  return {
+    header,
+    ...seal(messageKey, plaintext, headerAssociatedData(session, header)),
+  };
+}
+
+function skipMessageKeys(session: SessionKeys, until: number): void {
+  if (session.receivingMessageNumber + MAX_SKIP < until) {
+    throw new Error("Too many skipped messages");
+  }
+  if (!session.receivingChainKey) return;
+
+  while (session.receivingMessageNumber < until) {
+    const [chainKey, messageKey] = kdfChainKey(session.receivingChainKey);
+    session.skippedKeys[
+      `${session.theirRatchetKey}:${session.receivingMessageNumber}`
+    ] = messageKey;
+    session.receivingChainKey = chainKey;
+    session.receivingMessageNumber += 1;
+  }
+  pruneSkippedKeys(session.skippedKeys);
+}
+
+function dhRatchetStep(session: SessionKeys, theirRatchetKey: string): void {
+  session.previousChainLength = session.sendingMessageNumber;
+  session.sendingMessageNumber = 0;
+  session.receivingMessageNumber = 0;
+  session.theirRatchetKey = theirRatchetKey;
+
+  [session.rootKey, session.receivingChainKey] = kdfRootKey(
+    session.rootKey,
+    dh(session.ourRatchetKey.secretKey, theirRatchetKey),
+  );
+  session.ourRatchetKey = generateKeyPair();
+  [session.rootKey, session.sendingChainKey] = kdfRootKey(
+    session.rootKey,
+    dh(session.ourRatchetKey.secretKey, theirRatchetKey),
+  );
+}
+
+export function ratchetDecrypt(
+  session: SessionKeys,
+  envelope: RatchetEnvelope,
+  now = new Date(),
+): string {
+  const { header } = envelope;
+  if (header.sessionId !== session.sessionId) {
+    throw new Error("Message belongs to another session");
+  }
+
+  return transactional(session, (draft) => {
+    const ad = headerAssociatedData(draft, header);
+    const skippedId = `${header.dh}:${header.n}`;
+    const skipped = draft.skippedKeys[skippedId];
+
+    let plaintext: string;
+    if (skipped) {
+      delete draft.skippedKeys[skippedId];
+      plaintext = open(skipped, envelope.ciphertext, envelope.nonce, ad);
+    } else {
+      if (header.dh !== draft.theirRatchetKey) {
+        skipMessageKeys(draft, header.pn);
+        dhRatchetStep(draft, header.dh);
+      }
+      skipMessageKeys(draft, header.n);
+      const [chainKey, messageKey] = kdfChainKey(draft.receivingChainKey!);
+      draft.receivingChainKey = chainKey;
+      draft.receivingMessageNumber += 1;
+      plaintext = open(messageKey, envelope.ciphertext, envelope.nonce, ad);
+    }
+
+    // Anything arriving on the session means the peer has set it up
+    delete draft.pendingPreKey;
+    draft.updatedAt = now.toISOString();
+    return plaintext;
+  });
+}
+
+// ============================================================================
+// Sender Keys
+// ============================================================================
+
+export function createSenderKey(
+  members: string[],
+  now = new Date(),
+): OwnSenderKey {
+  return {
+    keyId: randomBytes(8).toString("hex"),
+    chainKey: randomBytes(32).toString("base64"),
+    iteration: 0,
+    skippedKeys: {},
+    members: [...members],
+    distributedTo: [],
+    createdAt: now.toISOString(),
+  };
+}
+
+/**
+ * A removed member must not be able to read anything sent after they left
+ */
+export function needsSenderKeyRotation(
+  senderKey: OwnSenderKey,
+  members: string[],
+): boolean {
+  return senderKey.members.some((member) => !members.includes(member));
+}
+
+/**
+ * The part of our sender key a new recipient needs, starting from the
+ * current iteration so they can't read earlier messages
+ */
+export function exportSenderKey(senderKey: SenderKeyState): SenderKeyState {
+  return {
+    keyId: senderKey.keyId,
+    chainKey: senderKey.chainKey,
+    iteration: senderKey.iteration,
+    skippedKeys: {},
+  };
+}
+
+export function senderKeyEncrypt(
+  senderKey: SenderKeyState,
+  plaintext: string,
+  associatedData: string,
+): { header: SenderKeyHeader; ciphertext: string; nonce: string } {
+  const [chainKey, messageKey] = kdfChainKey(senderKey.chainKey);
+  const header = { keyId: senderKey.keyId, iteration: senderKey.iteration };
+  senderKey.chainKey = chainKey;
+  senderKey.iteration += 1;
+  return {
+    header,
+    ...seal(
+      messageKey,
+      plaintext,
+      `${associatedData}|${header.keyId}|${header.iteration}`,
+    ),
+  };
+}
+
+export function senderKeyDecrypt(
+  senderKey: SenderKeyState,
+  header: SenderKeyHeader,
+  ciphertext: string,
+  nonce: string,
+  associatedData: string,
+): string {
+  if (header.keyId !== senderKey.keyId) {
+    throw new Error("Unknown sender key");
+  }
+
+  return transactional(senderKey, (draft) => {
+    const ad = `${associatedData}|${header.keyId}|${header.iteration}`;
+    const skipped = draft.skippedKeys[header.iteration];
+    if (skipped) {
+      delete draft.skippedKeys[header.iteration];
+      return open(skipped, ciphertext, nonce, ad);
+    }
+    if (header.iteration < draft.iteration) {
+      throw new Error("Message key already used");
+    }
+    if (draft.iteration + MAX_SKIP < header.iteration) {
+      throw new Error("Too many skipped messages");
+    }
+
+    while (draft.iteration < header.iteration) {
+      const [chainKey, messageKey] = kdfChainKey(draft.chainKey);
+      draft.skippedKeys[draft.iteration] = messageKey;
+      draft.chainKey = chainKey;
+      draft.iteration += 1;
+    }
+    pruneSkippedKeys(draft.skippedKeys);
+
+    const [chainKey, messageKey] = kdfChainKey(draft.chainKey);
+    draft.chainKey = chainKey;
+    draft.iteration += 1;
+    return open(messageKey, ciphertext, nonce, ad);
+  });
+}
@@ -0,0 +1,537 @@
+/**
+ * Decentralized Chat Scheduling
+ * Appointments, recurrence expansion and reminder timing.
+ *
+ * Recurrence is expanded in the appointment's own timezone, so a weekly
+ * 10:00 meeting stays at 10:00 local time across DST changes.
+ * `monthOfYear` is 1-12 and `daysOfWeek` is 0-6 (Sunday-Saturday).
+ * Exceptions are either dates ("2025-03-14", in the appointment's
+ * timezone) or the exact ISO start time of the occurrence to skip.
+ */
+
+import { randomUUID } from "node:crypto";
+import type {
+  Appointment,
+  AppointmentAttendee,
+  AppointmentReminder,
+  AppointmentStatus,
+  CreateAppointmentRequest,
+  RecurrenceRule,
+  UpdateAppointmentRequest,
+} from "@/types/decentralized_chat_types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Guards against rules that can never produce an occurrence (e.g. Feb 30)
+const MAX_ITERATIONS = 10_000;
+
+export interface Occurrence {
+  start: Date;
+  end: Date;
+}
+
+export interface DueReminder {
+  reminder: AppointmentReminder;
+  occurrenceStart: Date;
+}
+
+interface WallTime {
+  year: number;
+  month: number; // 0-11
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+// ============================================================================
+// Timezone Conversion
+// ============================================================================
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toWallTime(date: Date, timeZone: string): WallTime {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, Number(part.value)]),
+  );
+  return {
+    year: parts.year,
+    month: parts.month - 1,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond: date.getUTCMilliseconds(),
+  };
+}
+
+function wallTimeAsUtc(wall: WallTime): number {
+  return Date.UTC(
+    wall.year,
+    wall.month,
+    wall.day,
+    wall.hour,
+    wall.minute,
+    wall.second,
+    wall.millisecond,
+  );
+}
+
+/**
+ * Converts a wall-clock time in `timeZone` to an instant. Times skipped by a
+ * DST jump resolve to the equivalent time after the jump.
+ */
+function fromWallTime(wall: WallTime, timeZone: string): Date {
+  const asUtc = wallTimeAsUtc(wall);
+  const offsetAt = (instant: number) =>
+    wallTimeAsUtc(toWallTime(new Date(instant), timeZone)) - instant;
+  // Two passes settle on the right offset next to a DST transition
+  const firstGuess = asUtc - offsetAt(asUtc);
+  return new Date(asUtc - offsetAt(firstGuess));
+}
+
+function addDays(wall: WallTime, days: number): WallTime {
+  const date = new Date(Date.UTC(wall.year, wall.month, wall.day + days));
+  return {
+    ...wall,
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth(),
+    day: date.getUTCDate(),
+  };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function formatDate(wall: WallTime): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${wall.year}-${pad(wall.month + 1)}-${pad(wall.day)}`;
+}
+
+// ============================================================================
+// Recurrence Expansion
+// ============================================================================
+
+/**
+ * Yields the wall-clock start of every candidate occurrence a rule
+ * produces, in order, beginning at the series start. `null` stands for a
+ * period without a valid date (e.g. February 30th), which RFC 5545 skips.
+ */
+function* generateWallTimes(
+  start: WallTime,
+  rule: RecurrenceRule,
+): Generator<WallTime | null> {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  const weekdays = [...new Set(rule.daysOfWeek ?? [])]
+    .filter((day) => day >= 0 && day <= 6)
+    .sort((a, b) => a - b);
+
+  for (let k = 0; ; k++) {
+    const step = k * interval;
+    if (rule.frequency === "daily") {
+      yield addDays(start, step);
+    } else if (rule.frequency === "weekly" && weekdays.length === 0) {
+      yield addDays(start, step * 7);
+    } else if (rule.frequency === "weekly") {
+      const startWeekday = new Date(wallTimeAsUtc(start)).getUTCDay();
+      for (const day of weekdays) {
+        const offset = step * 7 + day - startWeekday;
+        if (offset >= 0) yield addDays(start, offset);
+      }
+    } else {
+      const monthly = rule.frequency === "monthly";
+      const first = new Date(
+        Date.UTC(
+          monthly ? start.year : start.year + step,
+          monthly
+            ? start.month + step
+            : (rule.monthOfYear ?? start.month + 1) - 1,
+          1,
+        ),
+      );
+      const year = first.getUTCFullYear();
+      const month = first.getUTCMonth();
+      const day = rule.dayOfMonth ?? start.day;
+      yield day <= daysInMonth(year, month)
+        ? { ...start, year, month, day }
+        : null;
+    }
+  }
+}
+
+function isException(
+  rule: RecurrenceRule,
+  wall: WallTime,
+  start: Date,
+): boolean {
+  return (rule.exceptions ?? []).some((exception) =>
+    exception.length <= 10
+      ? exception === formatDate(wall)
+      : new Date(exception).getTime() === start.getTime(),
+  );
+}
+
+/**
+ * Lists the occurrences of an appointment that overlap `[from, to)`.
+ */
+export function expandOccurrences(
+  appointment: Pick<
+    Appointment,
+    "startTime" | "endTime" | "timezone" | "recurrence"
+  >,
+  from: Date,
+  to: Date,
+): Occurrence[] {
+  const seriesStart = new Date(appointment.startTime);
+  const duration =
+    new Date(appointment.endTime).getTime() - seriesStart.getTime();
+  const overlaps = (start: Date) =>
+    start.getTime() < to.getTime() &&
+    start.getTime() + duration > from.getTime();
+
+  const rule = appointment.recurrence;
+  if (!rule) {
+    return overlaps(seriesStart)
+      ? [
+          {
+            start: seriesStart,
+            end: new Date(seriesStart.getTime() + duration),
+          },
+        ]
+      : [];
+  }
+
+  const timeZone = isValidTimeZone(appointment.timezone)
+    ? appointment.timezone
+    : "UTC";
+  const endDate = rule.endDate ? new Date(rule.endDate) : null;
+  const occurrences: Occurrence[] = [];
+  let count = 0;
+  let iterations = 0;
+
+  for (const wall of generateWallTimes(
+    toWallTime(seriesStart, timeZone),
+    rule,
+  )) {
+    if (++iterations > MAX_ITERATIONS) break;
+    if (!wall) continue;
+
+    const start = fromWallTime(wall, timeZone);
+    if (start < seriesStart) continue;
+    if (endDate && start > endDate) break;
+    if (rule.occurrences !== undefined && count >= rule.occurrences) break;
+    if (start >= to) break;
+    // Skipped dates still count towards `occurrences`, as in RFC 5545
+    count++;
+
+    if (overlaps(start) && !isException(rule, wall, start)) {
+      occurrences.push({ start, end: new Date(start.getTime() + duration) });
+    }
+  }
+  return occurrences;
+}
+
+// ============================================================================
+// Appointments
+// ============================================================================
+
+export function createAppointment(
+  request: CreateAppointmentRequest,
+  organizerWallet: string,
+  now = new Date(),
+): Appointment {
+  if (!request.title.trim()) throw new Error("Title is required");
+  const { start, end } = validateTiming(request);
+
+  const organizer = organizerWallet.toLowerCase();
+  const attendees: AppointmentAttendee[] = [
+    ...new Set(request.attendees.map((wallet) => wallet.toLowerCase())),
+  ]
+    .filter((wallet) => wallet !== organizer)
+    .map((walletAddress) => ({
+      walletAddress,
+      responseStatus: "pending",
+      isOptional: false,
+    }));
+
+  const appointment: Appointment = {
+    id: randomUUID(),
+    conversationId: request.conversationId,
+    title: request.title.trim(),
+    description: request.description,
+    type: request.type,
+    status: "pending",
+    startTime: start.toISOString(),
+    endTime: end.toISOString(),
+    timezone: request.timezone,
+    recurrence: request.recurrence,
+    organizerWallet: organizer,
+    attendees,
+    locationType: request.locationType,
+    meetingLink: request.meetingLink,
+    physicalLocation: request.physicalLocation,
+    reminders: (request.reminders ?? []).map((reminder) => ({
+      id: randomUUID(),
+      type: reminder.type,
+      minutesBefore: reminder.minutesBefore,
+      sent: false,
+    })),
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+  appointment.status = deriveAppointmentStatus(appointment);
+  return appointment;
+}
+
+/**
+ * Applies the organizer's changes. Moving the appointment asks attendees to
+ * respond again and re-arms its reminders.
+ */
+export function updateAppointment(
+  appointment: Appointment,
+  actorWallet: string,
+  updates: UpdateAppointmentRequest,
+  now = new Date(),
+): void {
+  requireOrganizer(appointment, actorWallet);
+  if (appointment.status === "cancelled") {
+    throw new Error("This appointment was cancelled");
+  }
+  if (updates.title !== undefined && !updates.title.trim()) {
+    throw new Error("Title is required");
+  }
+
+  const next = { ...appointment, ...updates };
+  const { start, end } = validateTiming(next);
+  const rescheduled =
+    start.toISOString() !== appointment.startTime ||
+    end.toISOString() !== appointment.endTime ||
+    next.timezone !== appointment.timezone ||
+    JSON.stringify(next.recurrence) !== JSON.stringify(appointment.recurrence);
+
+  Object.assign(appointment, updates, {
+    title: next.title.trim(),
+    startTime: start.toISOString(),
+    endTime: end.toISOString(),
+    updatedAt: now.toISOString(),
+  });
+  if (rescheduled) {
+    for (const attendee of appointment.attendees) {
+      attendee.responseStatus = "pending";
+      attendee.responseAt = undefined;
+    }
+    for (const reminder of appointment.reminders) {
+      reminder.sent = false;
+      reminder.sentAt = undefined;
+    }
+    appointment.status = deriveAppointmentStatus(appointment);
+  }
+}
+
+export function cancelAppointment(
+  appointment: Appointment,
+  actorWallet: string,
+  now = new Date(),
+): void {
+  requireOrganizer(appointment, actorWallet);
+  appointment.status = "cancelled";
+  appointment.updatedAt = now.toISOString();
+}
+
+function requireOrganizer(appointment: Appointment, walletAddress: string) {
+  if (walletAddress.toLowerCase() !== appointment.organizerWallet) {
+    throw new Error("Only the organizer can change this appointment");
+  }
+}
+
+function validateTiming(
+  timing: Pick<
+    Appointment,
+    "startTime" | "endTime" | "timezone" | "recurrence"
+  >,
+): { start: Date; end: Date } {
+  const start = new Date(timing.startTime);
+  const end = new Date(timing.endTime);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    throw new Error("Invalid start or end time");
+  }
+  if (end <= start) throw new Error("Appointment must end after it starts");
+  if (!isValidTimeZone(timing.timezone)) {
+    throw new Error(`Unknown timezone ${timing.timezone}`);
+  }
+  validateRecurrence(timing.recurrence, start);
+  return { start, end };
+}
+
+export function validateRecurrence(
+  rule: RecurrenceRule | undefined,
+  start: Date,
+): void {
+  if (!rule) return;
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+    throw new Error("Recurrence interval must be a positive whole number");
+  }
+  if (rule.endDate && new Date(rule.endDate) < start) {
+    throw new Error("Recurrence must end after the first occurrence");
+  }
+  if (rule.occurrences !== undefined && rule.occurrences < 1) {
+    throw new Error("Recurrence needs at least one occurrence");
+  }
+  if (
+    rule.dayOfMonth !== undefined &&
+    (rule.dayOfMonth < 1 || rule.dayOfMonth > 31)
+  ) {
+    throw new Error("dayOfMonth must be between 1 and 31");
+  }
+  if (
+    rule.monthOfYear !== undefined &&
+    (rule.monthOfYear < 1 || rule.monthOfYear > 12)
+  ) {
+    throw new Error("monthOfYear must be between 1 and 12");
+  }
+}
+
+/**
+ * Status implied by attendee responses: confirmed once every required
+ * attendee who hasn't declined has accepted.
+ */
+export function deriveAppointmentStatus(
+  appointment: Appointment,
+): AppointmentStatus {
+  if (["cancelled", "completed", "no-show"].includes(appointment.status)) {
+    return appointment.status;
+  }
+  const required = appointment.attendees.filter(
+    (attendee) =>
+      !attendee.isOptional && attendee.responseStatus !== "declined",
+  );
+  if (required.some((attendee) => attendee.responseStatus === "pending")) {
+    return "pending";
+  }
+  if (required.some((attendee) => attendee.responseStatus === "tentative")) {
+    return "tentative";
+  }
+  if (required.length === 0 && appointment.attendees.length > 0) {
+    // Everyone required declined
+    return "pending";
+  }
+  return "confirmed";
+}
+
+export function respondToAppointment(
+  appointment: Appointment,
+  walletAddress: string,
+  response: Exclude<AppointmentAttendee["responseStatus"], "pending">,
+  options: { comment?: string; now?: Date } = {},
+): AppointmentAttendee {
+  const now = options.now ?? new Date();
+  const attendee = appointment.attendees.find(
+    (candidate) => candidate.walletAddress === walletAddress.toLowerCase(),
+  );
+  if (!attendee) throw new Error(`${walletAddress} is not invited`);
+  if (appointment.status === "cancelled") {
+    throw new Error("This appointment was cancelled");
+  }
+  attendee.responseStatus = response;
+  attendee.responseAt = now.toISOString();
+  attendee.comment = options.comment;
+  appointment.status = deriveAppointmentStatus(appointment);
+  appointment.updatedAt = now.toISOString();
+  return attendee;
+}
+
+// ============================================================================
+// Reminders
+// ============================================================================
+
+/**
+ * Reminders that should fire now: the next occurrence starts within the
+ * reminder's lead time and the reminder hasn't fired for that occurrence.
+ * A reminder's `sentAt` marks the occurrence it last fired for, which lets
+ * one reminder serve every occurrence of a recurring appointment.
+ */
+export function getDueReminders(
+  appointment: Appointment,
+  now = new Date(),
+): DueReminder[] {
+  if (
+    appointment.status === "cancelled" ||
+    appointment.reminders.length === 0
+  ) {
+    return [];
+  }
+  const maxLead = Math.max(
+    ...appointment.reminders.map((reminder) => reminder.minutesBefore),
+  );
+  const upcoming = expandOccurrences(
+    appointment,
+    now,
+    new Date(now.getTime() + maxLead * 60_000 + 1),
+  ).filter((occurrence) => occurrence.start > now);
+
+  const due: DueReminder[] = [];
+  for (const reminder of appointment.reminders) {
+    const lead = reminder.minutesBefore * 60_000;
+    const occurrence = upcoming.find((candidate) => {
+      const fireAt = candidate.start.getTime() - lead;
+      const sentAt = reminder.sentAt ? new Date(reminder.sentAt).getTime() : -1;
+      return fireAt <= now.getTime() && sentAt < fireAt;
+    });
+    if (occurrence) {
+      due.push({ reminder, occurrenceStart: occurrence.start });
+    }
+  }
+  return due;
+}
+
+export function markReminderSent(
+  reminder: AppointmentReminder,
+  now = new Date(),
+): void {
+  reminder.sent = true;
+  reminder.sentAt = now.toISOString();
+}
+
+/** Next occurrence starting after `now`, looking up to a year ahead */
+export function getNextOccurrence(
+  appointment: Appointment,
+  now = new Date(),
+): Occurrence | null {
+  return (
+    expandOccurrences(
+      appointment,
+      now,
+      new Date(now.getTime() + 366 * DAY_MS),
+    ).find((occurrence) => occurrence.start > now) ?? null
+  );
+}
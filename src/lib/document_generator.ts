@@ -3,35 +3,204 @@
  * Uses AI models (local or API) to generate document content
  */
 
+import type { JSONSchema7 } from "ai";
 import type {
   DocumentType,
   DocumentContent,
   SpreadsheetContent,
+  SpreadsheetSheet,
+  SpreadsheetCell,
   PresentationContent,
+  PresentationSlide,
   AIGenerationOptions,
   DocumentSection,
+  GenerationProgress,
+  ListContent,
+  RevisableSection,
+  TableContent,
 } from "@/types/libreoffice_types";
 
-interface GenerationResult {
+type GeneratedContent = DocumentContent | SpreadsheetContent | PresentationContent;
+
+export interface GenerationResult {
   success: boolean;
-  content?: DocumentContent | SpreadsheetContent | PresentationContent;
+  content?: GeneratedContent;
   error?: string;
 }
 
+export interface StructuredRequest {
+  system: string;
+  prompt: string;
+  schema: JSONSchema7;
+}
+
+/**
+ * Calls a model with a structured output schema. `onPartial` receives the
+ * partially parsed object while the response streams in.
+ */
+export type StructuredGenerator = (
+  request: StructuredRequest,
+  onPartial: (partial: unknown) => void
+) => Promise<unknown>;
+
+export type ProgressCallback = (progress: GenerationProgress) => void;
+
+// ============================================================================
+// Output Schemas
+// ============================================================================
+
+// Sections are flattened for the model; `toSection` turns them back into
+// `DocumentSection`s
+const SECTION_SCHEMA: JSONSchema7 = {
+  type: "object",
+  properties: {
+    type: {
+      type: "string",
+      enum: ["heading", "paragraph", "list", "table", "code", "quote"],
+    },
+    level: { type: "integer", minimum: 1, maximum: 6, description: "Heading level" },
+    text: { type: "string", description: "Text of a heading, paragraph, code or quote block" },
+    items: { type: "array", items: { type: "string" }, description: "List items" },
+    ordered: { type: "boolean" },
+    headers: { type: "array", items: { type: "string" }, description: "Table headers" },
+    rows: {
+      type: "array",
+      items: { type: "array", items: { type: "string" } },
+      description: "Table rows",
+    },
+  },
+  required: ["type"],
+};
+
+const SHEET_SCHEMA: JSONSchema7 = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    rows: {
+      type: "array",
+      items: { type: "array", items: { type: "string" } },
+      description: "Cell values row by row; the first row holds the column headers",
+    },
+    formulas: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          cell: { type: "string", description: "Cell reference such as F2" },
+          formula: { type: "string", description: "Formula such as =SUM(B2:E2)" },
+        },
+        required: ["cell", "formula"],
+      },
+    },
+  },
+  required: ["name", "rows"],
+};
+
+const SLIDE_SCHEMA: JSONSchema7 = {
+  type: "object",
+  properties: {
+    layout: { type: "string", enum: ["title", "content", "two-column", "section"] },
+    title: { type: "string" },
+    subtitle: { type: "string" },
+    bullets: { type: "array", items: { type: "string" } },
+    paragraph: { type: "string" },
+    notes: { type: "string", description: "Speaker notes" },
+  },
+  required: ["layout", "title"],
+};
+
+const CONTENT_SCHEMAS: Record<DocumentType, JSONSchema7> = {
+  document: {
+    type: "object",
+    properties: {
+      title: { type: "string" },
+      subtitle: { type: "string" },
+      sections: { type: "array", items: SECTION_SCHEMA },
+    },
+    required: ["title", "sections"],
+  },
+  spreadsheet: {
+    type: "object",
+    properties: {
+      sheets: { type: "array", items: SHEET_SCHEMA },
+    },
+    required: ["sheets"],
+  },
+  presentation: {
+    type: "object",
+    properties: {
+      title: { type: "string" },
+      slides: { type: "array", items: SLIDE_SCHEMA },
+    },
+    required: ["slides"],
+  },
+};
+
+const REVISION_SCHEMAS: Record<DocumentType, JSONSchema7> = {
+  document: {
+    type: "object",
+    properties: { sections: { type: "array", items: SECTION_SCHEMA } },
+    required: ["sections"],
+  },
+  spreadsheet: SHEET_SCHEMA,
+  presentation: SLIDE_SCHEMA,
+};
+
+export function getContentSchema(type: DocumentType): JSONSchema7 {
+  return CONTENT_SCHEMAS[type];
+}
+
+// ============================================================================
+// Generation
+// ============================================================================
+
+// Rough number of sections, rows or slides per length, used for progress
+const EXPECTED_UNITS: Record<DocumentType, Record<NonNullable<AIGenerationOptions["length"]>, number>> = {
+  document: { short: 8, medium: 16, long: 30, detailed: 45 },
+  spreadsheet: { short: 10, medium: 25, long: 50, detailed: 100 },
+  presentation: { short: 6, medium: 10, long: 17, detailed: 25 },
+};
+
+/**
+ * Returns the model id for `getAgentModelClient`, or undefined to use the
+ * selected model
+ */
+export function getGenerationModelId(options: Pick<AIGenerationOptions, "provider" | "model">): string | undefined {
+  if (!options.model) return undefined;
+  if (!options.provider || options.provider === "local") return options.model;
+  return `${options.provider}:${options.model}`;
+}
+
 /**
  * Generate document content using AI
  */
 export async function generateDocumentContent(
   type: DocumentType,
-  options: AIGenerationOptions
+  options: AIGenerationOptions,
+  generate: StructuredGenerator,
+  onProgress: ProgressCallback = () => {}
 ): Promise<GenerationResult> {
   try {
+    onProgress({ stage: "analyzing", progress: 5, message: "Preparing the prompt" });
     const systemPrompt = getSystemPrompt(type, options);
     const userPrompt = buildUserPrompt(type, options);
 
-    // For now, generate structured content locally
-    // In production, this would call the AI model via IPC
-    const content = await generateStructuredContent(type, options);
+    const expected = EXPECTED_UNITS[type][options.length || "medium"];
+    let lastProgress = 0;
+    const raw = await generate(
+      { system: systemPrompt, prompt: userPrompt, schema: getContentSchema(type) },
+      (partial) => {
+        const units = countGeneratedUnits(type, partial);
+        const progress = 10 + Math.round(75 * Math.min(1, units / expected));
+        if (progress > lastProgress) {
+          lastProgress = progress;
+          onProgress({ stage: "generating", progress, message: describeUnits(type, units) });
+        }
+      }
+    );
+
+    onProgress({ stage: "formatting", progress: 90, message: "Formatting the content" });
+    const content = toGeneratedContent(type, raw, options);
 
     return {
       success: true,
@@ -45,6 +214,18 @@ export async function generateDocumentContent(
   }
 }
 
+function countGeneratedUnits(type: DocumentType, partial: unknown): number {
+  const value = (partial ?? {}) as Record<string, any>;
+  if (type === "document") return asArray(value.sections).length;
+  if (type === "presentation") return asArray(value.slides).length;
+  return asArray(value.sheets).reduce((sum: number, sheet: any) => sum + asArray(sheet?.rows).length, 0);
+}
+
+function describeUnits(type: DocumentType, units: number): string {
+  const noun = { document: "section", spreadsheet: "row", presentation: "slide" }[type];
+  return `Generated ${units} ${noun}${units === 1 ? "" : "s"}`;
+}
+
 function getSystemPrompt(type: DocumentType, options: AIGenerationOptions): string {
   const toneInstructions = {
     formal: "Use formal language, proper titles, and structured formatting.",
@@ -61,7 +242,7 @@ function getSystemPrompt(type: DocumentType, options: AIGenerationOptions): stri
     presentation: `You are creating a presentation. ${tone} Create slides with concise bullet points, one main idea per slide, and engaging titles.`,
   };
 
-  return typeInstructions[type];
+  return `${typeInstructions[type]} Write real, specific content rather than placeholders.`;
 }
 
 function buildUserPrompt(type: DocumentType, options: AIGenerationOptions): string {
@@ -89,61 +270,81 @@ function buildUserPrompt(type: DocumentType, options: AIGenerationOptions): stri
   return prompt;
 }
 
-async function generateStructuredContent(
-  type: DocumentType,
-  options: AIGenerationOptions
-): Promise<DocumentContent | SpreadsheetContent | PresentationContent> {
-  // This is a placeholder that generates example content
-  // In production, this would parse AI model responses
+// ============================================================================
+// Conversion from Model Output
+// ============================================================================
 
-  if (type === "document") {
-    return generateDocumentStructure(options);
-  } else if (type === "spreadsheet") {
-    return generateSpreadsheetStructure(options);
-  } else {
-    return generatePresentationStructure(options);
-  }
+function asArray(value: unknown): any[] {
+  return Array.isArray(value) ? value : [];
 }
 
-function generateDocumentStructure(options: AIGenerationOptions): DocumentContent {
-  const sections: DocumentSection[] = [];
-  
-  // Title
-  sections.push({
-    type: "heading",
-    level: 1,
-    content: extractTitle(options.prompt),
-  });
+function asText(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
 
-  // Introduction
-  sections.push({
-    type: "paragraph",
-    content: `This document was generated based on: "${options.prompt}"`,
-  });
+function asStrings(value: unknown): string[] {
+  return asArray(value).map((v) => (v === null || v === undefined ? "" : String(v)));
+}
 
-  // Main sections based on common document structures
-  const defaultSections = options.sections || [
-    "Executive Summary",
-    "Background",
-    "Key Findings",
-    "Recommendations",
-    "Conclusion",
-  ];
-
-  for (const sectionTitle of defaultSections) {
-    sections.push({
-      type: "heading",
-      level: 2,
-      content: sectionTitle,
-    });
-    sections.push({
-      type: "paragraph",
-      content: `[Content for ${sectionTitle} will be generated here based on your requirements]`,
-    });
+function toGeneratedContent(type: DocumentType, raw: unknown, options: AIGenerationOptions): GeneratedContent {
+  if (type === "document") return toDocumentContent(raw, options);
+  if (type === "spreadsheet") return toSpreadsheetContent(raw);
+  return toPresentationContent(raw);
+}
+
+function toSection(block: any): DocumentSection | null {
+  const type = block?.type;
+  if (type === "heading") {
+    const text = asText(block.text);
+    if (!text) return null;
+    const level = Math.min(6, Math.max(1, Math.round(Number(block.level) || 2)));
+    return { type, level, content: text };
+  }
+  if (type === "paragraph" || type === "code" || type === "quote") {
+    const text = asText(block.text);
+    return text ? { type, content: text } : null;
+  }
+  if (type === "list") {
+    const items = asStrings(block.items).filter(Boolean);
+    if (!items.length) return null;
+    const content: ListContent = { items, ordered: block.ordered === true };
+    return { type, content };
+  }
+  if (type === "table") {
+    const headers = asStrings(block.headers);
+    const rows = asArray(block.rows).map(asStrings);
+    if (!headers.length && !rows.length) return null;
+    const content: TableContent = { headers, rows };
+    return { type, content };
   }
+  return null;
+}
 
+function fromSection(section: DocumentSection): Record<string, any> {
+  if (section.type === "list") {
+    const list = section.content as ListContent;
+    return { type: "list", items: list.items, ordered: list.ordered ?? false };
+  }
+  if (section.type === "table") {
+    const table = section.content as TableContent;
+    return { type: "table", headers: table.headers, rows: table.rows };
+  }
   return {
-    title: extractTitle(options.prompt),
+    type: section.type,
+    level: section.level,
+    text: typeof section.content === "string" ? section.content : JSON.stringify(section.content),
+  };
+}
+
+export function toDocumentContent(raw: unknown, options: AIGenerationOptions): DocumentContent {
+  const value = (raw ?? {}) as Record<string, any>;
+  const sections = asArray(value.sections)
+    .map(toSection)
+    .filter((s): s is DocumentSection => s !== null);
+
+  return {
+    title: asText(value.title) || extractTitle(options.prompt),
+    subtitle: asText(value.subtitle) || undefined,
     author: "JoyCreate AI",
     sections,
     metadata: {
@@ -154,112 +355,117 @@ function generateDocumentStructure(options: AIGenerationOptions): DocumentConten
   };
 }
 
-function generateSpreadsheetStructure(options: AIGenerationOptions): SpreadsheetContent {
-  // Generate example spreadsheet based on prompt keywords
-  const isFinancial = /budget|finance|revenue|cost|expense|sales/i.test(options.prompt);
-  const isData = /data|analysis|statistics|metrics/i.test(options.prompt);
-  const isSchedule = /schedule|timeline|calendar|plan/i.test(options.prompt);
+/** Converts a 0-based column index to a spreadsheet column name (0 -> A, 26 -> AA) */
+export function columnName(index: number): string {
+  let name = "";
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    name = String.fromCharCode(65 + rem) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+}
 
-  if (isFinancial) {
-    return {
-      sheets: [{
-        name: "Financial Data",
-        cells: [
-          { row: 1, col: "A", value: "Category" },
-          { row: 1, col: "B", value: "Q1" },
-          { row: 1, col: "C", value: "Q2" },
-          { row: 1, col: "D", value: "Q3" },
-          { row: 1, col: "E", value: "Q4" },
-          { row: 1, col: "F", value: "Total" },
-          { row: 2, col: "A", value: "Revenue" },
-          { row: 2, col: "B", value: 100000 },
-          { row: 2, col: "C", value: 120000 },
-          { row: 2, col: "D", value: 115000 },
-          { row: 2, col: "E", value: 140000 },
-          { row: 3, col: "A", value: "Expenses" },
-          { row: 3, col: "B", value: 75000 },
-          { row: 3, col: "C", value: 80000 },
-          { row: 3, col: "D", value: 78000 },
-          { row: 3, col: "E", value: 85000 },
-          { row: 4, col: "A", value: "Profit" },
-          { row: 4, col: "B", value: 25000 },
-          { row: 4, col: "C", value: 40000 },
-          { row: 4, col: "D", value: 37000 },
-          { row: 4, col: "E", value: 55000 },
-        ],
-      }],
-    };
+function columnIndex(name: string): number {
+  let index = 0;
+  for (const char of name.toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function toCellValue(value: string): string | number {
+  const trimmed = value.trim();
+  return /^-?\d+(\.\d+)?$/.test(trimmed) ? Number(trimmed) : value;
+}
+
+function toSheet(raw: any, index: number): SpreadsheetSheet {
+  const cells: SpreadsheetCell[] = [];
+  const rows = asArray(raw?.rows).map(asStrings);
+
+  rows.forEach((row, r) => {
+    row.forEach((value, c) => {
+      if (value === "") return;
+      cells.push({
+        row: r + 1,
+        col: columnName(c),
+        value: toCellValue(value),
+        format: r === 0 ? { bold: true } : undefined,
+      });
+    });
+  });
+
+  for (const entry of asArray(raw?.formulas)) {
+    const match = asText(entry?.cell).toUpperCase().match(/^([A-Z]+)(\d+)$/);
+    const formula = asText(entry?.formula);
+    if (!match || !formula) continue;
+    const row = Number(match[2]);
+    const col = match[1];
+    const existing = cells.find((c) => c.row === row && c.col === col);
+    const normalized = formula.startsWith("=") ? formula : `=${formula}`;
+    if (existing) {
+      existing.formula = normalized;
+    } else {
+      cells.push({ row, col, value: "", formula: normalized });
+    }
+  }
+
+  return { name: asText(raw?.name) || `Sheet${index + 1}`, cells };
+}
+
+function fromSheet(sheet: SpreadsheetSheet): Record<string, any> {
+  const rows: string[][] = [];
+  const formulas: { cell: string; formula: string }[] = [];
+  for (const cell of sheet.cells) {
+    const r = cell.row - 1;
+    const c = columnIndex(cell.col);
+    while (rows.length <= r) rows.push([]);
+    while (rows[r].length <= c) rows[r].push("");
+    rows[r][c] = String(cell.value ?? "");
+    if (cell.formula) formulas.push({ cell: `${cell.col}${cell.row}`, formula: cell.formula });
   }
+  return { name: sheet.name, rows, formulas };
+}
+
+export function toSpreadsheetContent(raw: unknown): SpreadsheetContent {
+  const sheets = asArray((raw as any)?.sheets).map(toSheet);
+  return { sheets: sheets.length ? sheets : [{ name: "Sheet1", cells: [] }] };
+}
+
+function toSlide(raw: any): PresentationSlide {
+  const layouts = ["title", "content", "two-column", "section"];
+  const content: DocumentSection[] = [];
+  const paragraph = asText(raw?.paragraph);
+  if (paragraph) content.push({ type: "paragraph", content: paragraph });
+  const bullets = asStrings(raw?.bullets).filter(Boolean);
+  if (bullets.length) content.push({ type: "list", content: { items: bullets } });
 
-  // Default data structure
   return {
-    sheets: [{
-      name: "Data",
-      cells: [
-        { row: 1, col: "A", value: "Item" },
-        { row: 1, col: "B", value: "Value" },
-        { row: 1, col: "C", value: "Notes" },
-        { row: 2, col: "A", value: "Item 1" },
-        { row: 2, col: "B", value: 100 },
-        { row: 2, col: "C", value: "First item" },
-        { row: 3, col: "A", value: "Item 2" },
-        { row: 3, col: "B", value: 200 },
-        { row: 3, col: "C", value: "Second item" },
-        { row: 4, col: "A", value: "Item 3" },
-        { row: 4, col: "B", value: 300 },
-        { row: 4, col: "C", value: "Third item" },
-      ],
-    }],
+    layout: layouts.includes(raw?.layout) ? raw.layout : "content",
+    title: asText(raw?.title) || undefined,
+    subtitle: asText(raw?.subtitle) || undefined,
+    content,
+    notes: asText(raw?.notes) || undefined,
   };
 }
 
-function generatePresentationStructure(options: AIGenerationOptions): PresentationContent {
-  const title = extractTitle(options.prompt);
-  
+function fromSlide(slide: PresentationSlide): Record<string, any> {
+  const paragraph = slide.content?.find((s) => s.type === "paragraph");
+  const list = slide.content?.find((s) => s.type === "list");
   return {
-    slides: [
-      {
-        layout: "title",
-        title: title,
-        subtitle: `Generated by JoyCreate AI`,
-      },
-      {
-        layout: "content",
-        title: "Agenda",
-        content: [
-          { type: "list", content: { items: ["Introduction", "Key Points", "Details", "Summary", "Q&A"], ordered: true } },
-        ],
-      },
-      {
-        layout: "content",
-        title: "Introduction",
-        content: [
-          { type: "paragraph", content: `Overview of ${title}` },
-          { type: "list", content: { items: ["Background context", "Purpose and goals", "Scope of presentation"] } },
-        ],
-      },
-      {
-        layout: "content",
-        title: "Key Points",
-        content: [
-          { type: "list", content: { items: ["Main point 1: Core concept", "Main point 2: Supporting evidence", "Main point 3: Implications"] } },
-        ],
-      },
-      {
-        layout: "content",
-        title: "Summary",
-        content: [
-          { type: "paragraph", content: "Key takeaways from this presentation" },
-          { type: "list", content: { items: ["Conclusion 1", "Conclusion 2", "Next steps"] } },
-        ],
-      },
-      {
-        layout: "content",
-        title: "Questions?",
-        subtitle: "Thank you for your attention",
-        content: [],
-      },
-    ],
+    layout: slide.layout,
+    title: slide.title,
+    subtitle: slide.subtitle,
+    paragraph: typeof paragraph?.content === "string" ? paragraph.content : undefined,
+    bullets: list ? (list.content as ListContent).items : undefined,
+    notes: slide.notes,
+  };
+}
+
+export function toPresentationContent(raw: unknown): PresentationContent {
+  return {
+    slides: asArray((raw as any)?.slides).map(toSlide),
     theme: {
       name: "Professional",
       primaryColor: "#2563eb",
@@ -268,10 +474,121 @@ function generatePresentationStructure(options: AIGenerationOptions): Presentati
   };
 }
 
+// ============================================================================
+// Section Revision
+// ============================================================================
+
+/**
+ * Splits a document's sections into ranges that start at each level 1-2
+ * heading. Anything before the first heading is its own range.
+ */
+function getDocumentRanges(content: DocumentContent): { title: string; start: number; end: number }[] {
+  const sections = content.sections || [];
+  const ranges: { title: string; start: number; end: number }[] = [];
+  sections.forEach((section, index) => {
+    const startsRange = section.type === "heading" && (section.level || 1) <= 2;
+    if (startsRange || ranges.length === 0) {
+      ranges.push({
+        title: startsRange ? String(section.content) : content.title || "Introduction",
+        start: index,
+        end: index + 1,
+      });
+    } else {
+      ranges[ranges.length - 1].end = index + 1;
+    }
+  });
+  return ranges;
+}
+
+/**
+ * Lists the parts of a document that can be revised individually: heading
+ * sections for documents, slides for presentations, sheets for spreadsheets
+ */
+export function getRevisableSections(type: DocumentType, content: GeneratedContent): RevisableSection[] {
+  if (type === "document") {
+    return getDocumentRanges(content as DocumentContent).map((range, index) => ({ index, title: range.title }));
+  }
+  if (type === "presentation") {
+    return (content as PresentationContent).slides.map((slide, index) => ({
+      index,
+      title: slide.title || `Slide ${index + 1}`,
+    }));
+  }
+  return (content as SpreadsheetContent).sheets.map((sheet, index) => ({ index, title: sheet.name }));
+}
+
+function describeOutline(type: DocumentType, content: GeneratedContent, sectionIndex: number): string {
+  return getRevisableSections(type, content)
+    .map((s) => `${s.index === sectionIndex ? "-> " : "   "}${s.index + 1}. ${s.title}`)
+    .join("\n");
+}
+
+/**
+ * Rewrites one section of an existing document following the user's
+ * instruction and returns the updated content
+ */
+export async function reviseDocumentSection(
+  type: DocumentType,
+  content: GeneratedContent,
+  sectionIndex: number,
+  instruction: string,
+  generate: StructuredGenerator,
+  onProgress: ProgressCallback = () => {}
+): Promise<GeneratedContent> {
+  const sections = getRevisableSections(type, content);
+  const target = sections[sectionIndex];
+  if (!target) {
+    throw new Error(`Section ${sectionIndex + 1} does not exist`);
+  }
+
+  let current: unknown;
+  if (type === "document") {
+    const range = getDocumentRanges(content as DocumentContent)[sectionIndex];
+    current = { sections: (content as DocumentContent).sections!.slice(range.start, range.end).map(fromSection) };
+  } else if (type === "presentation") {
+    current = fromSlide((content as PresentationContent).slides[sectionIndex]);
+  } else {
+    current = fromSheet((content as SpreadsheetContent).sheets[sectionIndex]);
+  }
+
+  onProgress({ stage: "analyzing", progress: 5, message: `Revising "${target.title}"` });
+  const raw = await generate(
+    {
+      system: `You are revising one part of an existing ${type}. Return only the revised part in the same structure, keeping anything the instruction does not ask to change.`,
+      prompt: `Outline (the part to revise is marked with ->):\n${describeOutline(type, content, sectionIndex)}\n\nCurrent part:\n${JSON.stringify(current, null, 2)}\n\nInstruction: ${instruction}`,
+      schema: REVISION_SCHEMAS[type],
+    },
+    () => onProgress({ stage: "generating", progress: 50, message: `Revising "${target.title}"` })
+  );
+  onProgress({ stage: "formatting", progress: 90, message: "Formatting the revision" });
+
+  if (type === "document") {
+    const document = content as DocumentContent;
+    const range = getDocumentRanges(document)[sectionIndex];
+    const revised = asArray((raw as any)?.sections)
+      .map(toSection)
+      .filter((s): s is DocumentSection => s !== null);
+    if (!revised.length) {
+      throw new Error("The model returned an empty section");
+    }
+    const updated = document.sections!.slice();
+    updated.splice(range.start, range.end - range.start, ...revised);
+    return { ...document, sections: updated };
+  }
+  if (type === "presentation") {
+    const presentation = content as PresentationContent;
+    const slides = presentation.slides.slice();
+    slides[sectionIndex] = toSlide(raw);
+    return { ...presentation, slides };
+  }
+  const spreadsheet = content as SpreadsheetContent;
+  const sheets = spreadsheet.sheets.slice();
+  sheets[sectionIndex] = toSheet(raw, sectionIndex);
+  return { ...spreadsheet, sheets };
+}
+
 function extractTitle(prompt: string): string {
   // Extract a suitable title from the prompt
   const words = prompt.split(" ").slice(0, 6);
   return words.map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase()).join(" ");
 }
-
-export { generateStructuredContent, generateDocumentStructure, generateSpreadsheetStructure, generatePresentationStructure };
@@ -0,0 +1,441 @@
+/**
+ * Document Markup
+ * Renders the structured document models as HTML, Markdown, plain text and
+ * CSV. HTML exports are self-contained: charts are inlined as SVG and the
+ * presentation theme becomes CSS.
+ */
+
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { parseHexColor, renderChartSvg } from "./chart_renderer";
+import type {
+  ChartContent,
+  DocumentContent,
+  DocumentSection,
+  DocumentType,
+  ListContent,
+  PresentationContent,
+  SectionStyle,
+  SpreadsheetContent,
+  SpreadsheetSheet,
+  TableContent,
+} from "@/types/libreoffice_types";
+
+type AnyDocumentContent =
+  | DocumentContent
+  | SpreadsheetContent
+  | PresentationContent;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function columnIndex(col: string): number {
+  let n = 0;
+  for (const char of col.toUpperCase()) {
+    n = n * 26 + (char.charCodeAt(0) - 64);
+  }
+  return n;
+}
+
+/**
+ * Lays a sheet's cells out as a dense grid of display strings.
+ */
+export function getSheetGrid(sheet: SpreadsheetSheet): string[][] {
+  const rows = Math.max(0, ...sheet.cells.map((cell) => cell.row));
+  const columns = Math.max(
+    0,
+    ...sheet.cells.map((cell) => columnIndex(cell.col)),
+  );
+  const grid = Array.from({ length: rows }, () =>
+    Array<string>(columns).fill(""),
+  );
+  for (const cell of sheet.cells) {
+    if (cell.row < 1) continue;
+    grid[cell.row - 1][columnIndex(cell.col) - 1] = String(cell.value ?? "");
+  }
+  return grid;
+}
+
+/** Image sources that a browser can load: URLs as-is, local paths as file:// */
+function toImageSrc(source: string): string {
+  return /^(data:|https?:|file:)/i.test(source) || !path.isAbsolute(source)
+    ? source
+    : pathToFileURL(source).href;
+}
+
+// ============= HTML =============
+
+function styleAttribute(style?: SectionStyle): string {
+  if (!style) return "";
+  const rules: string[] = [];
+  if (style.bold) rules.push("font-weight:bold");
+  if (style.italic) rules.push("font-style:italic");
+  if (style.underline) rules.push("text-decoration:underline");
+  if (style.fontSize) rules.push(`font-size:${style.fontSize}pt`);
+  const color = parseHexColor(style.fontColor);
+  if (color) rules.push(`color:#${color}`);
+  const background = parseHexColor(style.backgroundColor);
+  if (background) rules.push(`background:#${background}`);
+  if (style.alignment) rules.push(`text-align:${style.alignment}`);
+  return rules.length > 0 ? ` style="${rules.join(";")}"` : "";
+}
+
+function tableHtml(table: TableContent): string {
+  const headerColor = parseHexColor(table.style?.headerBackground);
+  const head =
+    table.headers.length > 0
+      ? `<thead><tr>${table.headers
+          .map(
+            (h) =>
+              `<th${headerColor ? ` style="background:#${headerColor}"` : ""}>${escapeHtml(h)}</th>`,
+          )
+          .join("")}</tr></thead>`
+      : "";
+  const body = table.rows
+    .map(
+      (row) =>
+        `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`,
+    )
+    .join("");
+  return `<table${table.style?.alternateRowColors ? ' class="striped"' : ""}>${head}<tbody>${body}</tbody></table>`;
+}
+
+function sectionHtml(section: DocumentSection): string {
+  const style = styleAttribute(section.style);
+  switch (section.type) {
+    case "heading": {
+      const level = Math.min(6, Math.max(1, section.level ?? 1));
+      return `<h${level}${style}>${escapeHtml(String(section.content))}</h${level}>`;
+    }
+    case "list": {
+      const list = section.content as ListContent;
+      const tag = list.ordered ? "ol" : "ul";
+      return `<${tag}${style}>${list.items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</${tag}>`;
+    }
+    case "table":
+      return tableHtml(section.content as TableContent);
+    case "chart":
+      return `<figure class="chart">${renderChartSvg(section.content as ChartContent)}</figure>`;
+    case "image":
+      return `<figure><img src="${escapeHtml(toImageSrc(String(section.content)))}" alt=""/></figure>`;
+    case "code":
+      return `<pre><code>${escapeHtml(String(section.content))}</code></pre>`;
+    case "quote":
+      return `<blockquote${style}>${escapeHtml(String(section.content))}</blockquote>`;
+    default:
+      return `<p${style}>${escapeHtml(String(section.content))}</p>`;
+  }
+}
+
+const BASE_CSS = `
+body { font-family: Calibri, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2937; line-height: 1.5; margin: 0; }
+main { max-width: 860px; margin: 0 auto; padding: 40px 24px; }
+table { border-collapse: collapse; margin: 16px 0; width: 100%; }
+th, td { border: 1px solid #d1d5db; padding: 6px 10px; text-align: left; }
+th { background: #e5e7eb; }
+table.striped tbody tr:nth-child(even) { background: #f3f4f6; }
+pre { background: #f3f4f6; padding: 12px; overflow-x: auto; }
+blockquote { border-left: 4px solid #d1d5db; margin: 16px 0; padding-left: 16px; font-style: italic; }
+figure { margin: 16px 0; text-align: center; }
+figure svg, figure img { max-width: 100%; height: auto; }
+.subtitle { color: #6b7280; font-size: 1.3em; margin-top: -8px; }
+`;
+
+function htmlPage(title: string, css: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8"/>
+<meta name="viewport" content="width=device-width, initial-scale=1"/>
+<title>${escapeHtml(title)}</title>
+<style>${BASE_CSS}${css}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function presentationHtml(content: PresentationContent): string {
+  const theme = content.theme;
+  const primary = parseHexColor(theme?.primaryColor) ?? "1F4E79";
+  const secondary = parseHexColor(theme?.secondaryColor) ?? "2E75B6";
+  const css = `
+body { background: #e5e7eb; }
+.slide { box-sizing: border-box; width: 960px; min-height: 540px; margin: 24px auto; padding: 48px 56px; background: #fff; box-shadow: 0 2px 8px rgba(0,0,0,.15); }
+.slide h1, .slide h2 { color: #${primary}; }
+.slide li::marker { color: #${secondary}; }
+.slide.title, .slide.section { display: flex; flex-direction: column; justify-content: center; text-align: center; }
+.slide.section { background: #${primary}; color: #fff; }
+.slide.section h1 { color: #fff; }
+.slide .columns { display: grid; grid-template-columns: 1fr 1fr; gap: 32px; }
+.notes { color: #6b7280; font-size: .9em; border-top: 1px solid #e5e7eb; margin-top: 24px; padding-top: 8px; }
+${theme?.fontFamily ? `body { font-family: ${JSON.stringify(theme.fontFamily)}, Calibri, sans-serif; }` : ""}
+`;
+
+  const slides = content.slides.map((slide) => {
+    const background = slide.background;
+    let backgroundCss = "";
+    if (background?.type === "image") {
+      backgroundCss = `background: url(${JSON.stringify(toImageSrc(background.value))}) center/cover`;
+    } else if (background) {
+      backgroundCss = `background: ${background.value}`;
+    }
+    const sections = slide.content ?? [];
+    const split = Math.ceil(sections.length / 2);
+    const body =
+      slide.layout === "two-column" && sections.length > 1
+        ? `<div class="columns"><div>${sections.slice(0, split).map(sectionHtml).join("")}</div><div>${sections
+            .slice(split)
+            .map(sectionHtml)
+            .join("")}</div></div>`
+        : sections.map(sectionHtml).join("");
+    const isTitle = slide.layout === "title" || slide.layout === "section";
+    return (
+      `<section class="slide ${slide.layout}"${backgroundCss ? ` style="${escapeHtml(backgroundCss)}"` : ""}>` +
+      (slide.title
+        ? `<${isTitle ? "h1" : "h2"}>${escapeHtml(slide.title)}</${isTitle ? "h1" : "h2"}>`
+        : "") +
+      (slide.subtitle
+        ? `<p class="subtitle">${escapeHtml(slide.subtitle)}</p>`
+        : "") +
+      body +
+      (slide.notes
+        ? `<aside class="notes">${escapeHtml(slide.notes)}</aside>`
+        : "") +
+      "</section>"
+    );
+  });
+
+  return htmlPage(
+    content.slides[0]?.title ?? "Presentation",
+    css,
+    slides.join("\n"),
+  );
+}
+
+/**
+ * Renders any document model as a standalone HTML page.
+ */
+export function renderHtml(
+  type: DocumentType,
+  content: AnyDocumentContent,
+  title: string,
+): string {
+  if (type === "presentation") {
+    return presentationHtml(content as PresentationContent);
+  }
+  if (type === "spreadsheet") {
+    const sheets = (content as SpreadsheetContent).sheets.map(
+      (sheet) =>
+        `<h2>${escapeHtml(sheet.name)}</h2>${tableHtml({ headers: [], rows: getSheetGrid(sheet) })}`,
+    );
+    return htmlPage(
+      title,
+      "",
+      `<main><h1>${escapeHtml(title)}</h1>${sheets.join("\n")}</main>`,
+    );
+  }
+  const doc = content as DocumentContent;
+  const header =
+    (doc.title ? `<h1>${escapeHtml(doc.title)}</h1>` : "") +
+    (doc.subtitle
+      ? `<p class="subtitle">${escapeHtml(doc.subtitle)}</p>`
+      : "") +
+    (doc.author ? `<p><em>${escapeHtml(doc.author)}</em></p>` : "");
+  return htmlPage(
+    doc.title ?? title,
+    "",
+    `<main>${header}${(doc.sections ?? []).map(sectionHtml).join("\n")}</main>`,
+  );
+}
+
+// ============= Markdown =============
+
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function markdownTable(headers: string[], rows: string[][]): string {
+  const columns = Math.max(headers.length, ...rows.map((row) => row.length), 1);
+  const pad = (row: string[]) =>
+    Array.from({ length: columns }, (_, i) => escapeMarkdownCell(row[i] ?? ""));
+  // Markdown tables need a header row; sheets without one use their first row
+  const [head, ...body] =
+    headers.length > 0 ? [headers, ...rows] : rows.length > 0 ? rows : [[]];
+  return [
+    `| ${pad(head).join(" | ")} |`,
+    `| ${Array(columns).fill("---").join(" | ")} |`,
+    ...body.map((row) => `| ${pad(row).join(" | ")} |`),
+  ].join("\n");
+}
+
+function chartMarkdown(chart: ChartContent): string {
+  const title = chart.title ?? chart.options?.title;
+  const table = markdownTable(
+    ["", ...chart.data.datasets.map((d) => d.label)],
+    chart.data.labels.map((label, i) => [
+      label,
+      ...chart.data.datasets.map((d) => String(d.data[i] ?? "")),
+    ]),
+  );
+  return `${title ? `**${title}** (${chart.type} chart)\n\n` : ""}${table}`;
+}
+
+function sectionMarkdown(section: DocumentSection): string {
+  switch (section.type) {
+    case "heading":
+      return `${"#".repeat(Math.min(6, Math.max(1, section.level ?? 1)))} ${section.content}`;
+    case "list": {
+      const list = section.content as ListContent;
+      return list.items
+        .map((item, i) => (list.ordered ? `${i + 1}. ${item}` : `- ${item}`))
+        .join("\n");
+    }
+    case "table": {
+      const table = section.content as TableContent;
+      return markdownTable(table.headers, table.rows);
+    }
+    case "chart":
+      return chartMarkdown(section.content as ChartContent);
+    case "image":
+      return `![](${toImageSrc(String(section.content))})`;
+    case "code":
+      return `\`\`\`\n${section.content}\n\`\`\``;
+    case "quote":
+      return String(section.content)
+        .split("\n")
+        .map((line) => `> ${line}`)
+        .join("\n");
+    default: {
+      const text = String(section.content);
+      if (section.style?.bold && section.style?.italic) return `***${text}***`;
+      if (section.style?.bold) return `**${text}**`;
+      if (section.style?.italic) return `*${text}*`;
+      return text;
+    }
+  }
+}
+
+/**
+ * Renders any document model as Markdown. Charts become data tables.
+ */
+export function renderMarkdown(
+  type: DocumentType,
+  content: AnyDocumentContent,
+): string {
+  const blocks: string[] = [];
+  if (type === "presentation") {
+    for (const [i, slide] of (
+      content as PresentationContent
+    ).slides.entries()) {
+      if (i > 0) blocks.push("---");
+      if (slide.title) blocks.push(`## ${slide.title}`);
+      if (slide.subtitle) blocks.push(`*${slide.subtitle}*`);
+      blocks.push(...(slide.content ?? []).map(sectionMarkdown));
+      if (slide.notes)
+        blocks.push(`> **Notes:** ${slide.notes.replace(/\n/g, " ")}`);
+    }
+  } else if (type === "spreadsheet") {
+    for (const sheet of (content as SpreadsheetContent).sheets) {
+      blocks.push(`## ${sheet.name}`, markdownTable([], getSheetGrid(sheet)));
+    }
+  } else {
+    const doc = content as DocumentContent;
+    if (doc.title) blocks.push(`# ${doc.title}`);
+    if (doc.subtitle) blocks.push(`*${doc.subtitle}*`);
+    blocks.push(...(doc.sections ?? []).map(sectionMarkdown));
+  }
+  return blocks.join("\n\n") + "\n";
+}
+
+// ============= Plain text / CSV =============
+
+function sectionText(section: DocumentSection): string {
+  switch (section.type) {
+    case "list": {
+      const list = section.content as ListContent;
+      return list.items
+        .map((item, i) => (list.ordered ? `${i + 1}. ${item}` : `• ${item}`))
+        .join("\n");
+    }
+    case "table": {
+      const table = section.content as TableContent;
+      return [table.headers, ...table.rows]
+        .filter((row) => row.length > 0)
+        .map((row) => row.join("\t"))
+        .join("\n");
+    }
+    case "chart": {
+      const chart = section.content as ChartContent;
+      return [
+        chart.title ?? chart.options?.title ?? "Chart",
+        ...chart.data.datasets.map(
+          (d) =>
+            `${d.label}: ${chart.data.labels.map((label, i) => `${label} ${d.data[i] ?? ""}`).join(", ")}`,
+        ),
+      ].join("\n");
+    }
+    default:
+      return String(section.content);
+  }
+}
+
+/**
+ * Renders any document model as plain text.
+ */
+export function renderPlainText(
+  type: DocumentType,
+  content: AnyDocumentContent,
+): string {
+  const blocks: string[] = [];
+  if (type === "presentation") {
+    for (const [i, slide] of (
+      content as PresentationContent
+    ).slides.entries()) {
+      blocks.push(`Slide ${i + 1}${slide.title ? `: ${slide.title}` : ""}`);
+      if (slide.subtitle) blocks.push(slide.subtitle);
+      blocks.push(...(slide.content ?? []).map(sectionText));
+    }
+  } else if (type === "spreadsheet") {
+    for (const sheet of (content as SpreadsheetContent).sheets) {
+      blocks.push(
+        sheet.name,
+        getSheetGrid(sheet)
+          .map((row) => row.join("\t"))
+          .join("\n"),
+      );
+    }
+  } else {
+    const doc = content as DocumentContent;
+    if (doc.title) blocks.push(doc.title);
+    if (doc.subtitle) blocks.push(doc.subtitle);
+    blocks.push(...(doc.sections ?? []).map(sectionText));
+  }
+  return blocks.join("\n\n") + "\n";
+}
+
+/**
+ * Renders one sheet (the first by default) as RFC 4180 CSV.
+ */
+export function renderCsv(content: SpreadsheetContent, sheetIndex = 0): string {
+  const sheet = content.sheets[sheetIndex];
+  if (!sheet) return "";
+  return (
+    getSheetGrid(sheet)
+      .map((row) =>
+        row
+          .map((value) =>
+            /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value,
+          )
+          .join(","),
+      )
+      .join("\r\n") + "\r\n"
+  );
+}
@@ -0,0 +1,170 @@
+/**
+ * Federated Inference Routing
+ * Scores federation peers for an inference request so the router can try
+ * the best candidate first and fall back down the list.
+ */
+
+import type {
+  FederatedRouteCandidate,
+  ModelChunkAnnouncement,
+  Peer,
+} from "@/types/federation_types";
+
+/** Liveness reported by a peer's compute network heartbeats */
+export interface PeerHeartbeatInfo {
+  status: "online" | "busy" | "idle" | "offline" | "syncing" | "error";
+  lastSeen: number;
+  activeJobs: number;
+}
+
+export interface RankPeersOptions {
+  /** Chunk announcements for the requested model */
+  chunks: ModelChunkAnnouncement[];
+  /** Latest heartbeat per peer ID */
+  heartbeats: Map<string, PeerHeartbeatInfo>;
+  /** Peer to try first when it is eligible */
+  preferredPeerId?: string;
+  now?: number;
+}
+
+const WEIGHTS = {
+  reputation: 0.35,
+  chunks: 0.25,
+  liveness: 0.2,
+  load: 0.1,
+  latency: 0.1,
+};
+
+/** Heartbeats older than this no longer count as liveness */
+const HEARTBEAT_STALE_MS = 90_000;
+
+/** Latency at which a peer gets no credit for responsiveness */
+const MAX_USEFUL_LATENCY_MS = 2000;
+
+/**
+ * Fraction of a model's chunks that a peer has announced (0-1).
+ */
+export function getChunkCoverage(
+  peer: Peer,
+  chunks: ModelChunkAnnouncement[],
+): number {
+  if (chunks.length === 0) return 0;
+  const total = Math.max(
+    new Set(chunks.map((c) => c.chunk_cid)).size,
+    ...chunks.map((c) => c.total_chunks ?? 0),
+  );
+  const held = new Set(
+    chunks
+      .filter((c) => c.publisher_did === peer.did.did)
+      .map((c) => c.chunk_cid),
+  ).size;
+  return held / total;
+}
+
+/**
+ * Scores a peer for running an inference, or returns null when the peer
+ * can't take the request at all.
+ */
+export function scoreInferencePeer(
+  peer: Peer,
+  options: Omit<RankPeersOptions, "preferredPeerId">,
+): FederatedRouteCandidate | null {
+  if (!peer.connected || !peer.capabilities.includes("compute")) {
+    return null;
+  }
+
+  const heartbeat = options.heartbeats.get(peer.id);
+  if (
+    heartbeat &&
+    (heartbeat.status === "offline" || heartbeat.status === "error")
+  ) {
+    return null;
+  }
+
+  const now = options.now ?? Date.now();
+  const reasons: string[] = [];
+  const { reputation } = peer;
+
+  let reputationScore = reputation.score / 100;
+  if (reputation.total_transactions > 0) {
+    const successRate =
+      reputation.successful_transactions / reputation.total_transactions;
+    reputationScore = 0.7 * reputationScore + 0.3 * successRate;
+    reasons.push(
+      `reputation ${reputation.score} (${reputation.successful_transactions}/${reputation.total_transactions} successful)`,
+    );
+  } else {
+    reasons.push(`reputation ${reputation.score}`);
+  }
+
+  const coverage = getChunkCoverage(peer, options.chunks);
+  if (coverage > 0) {
+    reasons.push(`holds ${Math.round(coverage * 100)}% of model chunks`);
+  }
+
+  let liveness = 0.5;
+  let load = 0.5;
+  if (heartbeat) {
+    const age = Math.max(0, now - heartbeat.lastSeen);
+    liveness = Math.max(0, 1 - age / HEARTBEAT_STALE_MS);
+    load =
+      (1 / (1 + heartbeat.activeJobs)) *
+      (heartbeat.status === "busy" ? 0.5 : 1);
+    reasons.push(
+      `heartbeat ${Math.round(age / 1000)}s ago, ${heartbeat.activeJobs} active jobs`,
+    );
+  }
+
+  const latencyMs = peer.latency_ms ?? reputation.avg_response_time_ms;
+  let latency = 0.5;
+  if (latencyMs > 0) {
+    latency = Math.max(0, 1 - latencyMs / MAX_USEFUL_LATENCY_MS);
+    reasons.push(`latency ${latencyMs}ms`);
+  }
+
+  const score =
+    WEIGHTS.reputation * reputationScore +
+    WEIGHTS.chunks * coverage +
+    WEIGHTS.liveness * liveness +
+    WEIGHTS.load * load +
+    WEIGHTS.latency * latency;
+
+  return {
+    peer_id: peer.id,
+    did: peer.did.did,
+    display_name: peer.did.display_name,
+    score: Math.round(score * 1000) / 1000,
+    reasons,
+  };
+}
+
+/**
+ * Ranks eligible peers best-first. The preferred peer, when eligible, is
+ * always tried first.
+ */
+export function rankInferencePeers(
+  peers: Peer[],
+  options: RankPeersOptions,
+): FederatedRouteCandidate[] {
+  const ranked = peers
+    .map((peer) => scoreInferencePeer(peer, options))
+    .filter((candidate): candidate is FederatedRouteCandidate => !!candidate)
+    .sort((a, b) => b.score - a.score);
+
+  const preferredIndex = ranked.findIndex(
+    (candidate) => candidate.peer_id === options.preferredPeerId,
+  );
+  if (preferredIndex > 0) {
+    const [preferred] = ranked.splice(preferredIndex, 1);
+    ranked.unshift({
+      ...preferred,
+      reasons: ["preferred peer", ...preferred.reasons],
+    });
+  } else if (preferredIndex === 0) {
+    ranked[0] = {
+      ...ranked[0],
+      reasons: ["preferred peer", ...ranked[0].reasons],
+    };
+  }
+  return ranked;
+}
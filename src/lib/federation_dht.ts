@@ -0,0 +1,105 @@
+/**
+ * Federation DHT Records
+ * Rules for accepting DHT records replicated from peers.
+ *
+ * A record is only as trustworthy as its signature, and a valid signature
+ * only proves who published it. Peers must also not be able to take over a
+ * key someone else already owns, or publish a payload under a key that names
+ * a different object (e.g. `listing:<victim>` carrying their own listing).
+ */
+
+import { createHash, verify } from "node:crypto";
+import type { DHTRecord } from "@/types/federation_types";
+
+export type ReplicatedRecordCheck =
+  | { accept: true; changed: boolean }
+  | { accept: false; reason: string };
+
+export function didFromPublicKey(publicKey: string): string {
+  return `did:joy:${createHash("sha256").update(publicKey).digest("hex").slice(0, 32)}`;
+}
+
+export function isRecordExpired(record: DHTRecord, now = new Date()): boolean {
+  return (
+    new Date(record.timestamp).getTime() + record.ttl_seconds * 1000 <
+    now.getTime()
+  );
+}
+
+/**
+ * Check that a record was signed by the identity it claims as publisher
+ */
+export function verifyDHTRecord(record: DHTRecord): boolean {
+  if (!record?.key || !record.publisher_key) return false;
+  if (didFromPublicKey(record.publisher_key) !== record.publisher) return false;
+  try {
+    return verify(
+      null,
+      Buffer.from(JSON.stringify({ key: record.key, value: record.value })),
+      record.publisher_key,
+      Buffer.from(record.signature, "base64"),
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that a record's payload is the object its key names, published by
+ * the record's publisher. Keys without a known prefix carry arbitrary values.
+ */
+export function recordPayloadMatchesKey(record: DHTRecord): boolean {
+  const { key, value, publisher } = record;
+  const [prefix] = key.split(":", 1);
+  const id = key.slice(prefix.length + 1);
+
+  switch (prefix) {
+    case "listing":
+    case "model-chunk-listing":
+      return value?.id === id && value?.seller?.did === publisher;
+    case "app-deployment":
+      return value?.cid === id && value?.publisher_did === publisher;
+    case "model-chunk": {
+      const separator = id.lastIndexOf(":");
+      return (
+        separator > 0 &&
+        value?.model_id === id.slice(0, separator) &&
+        value?.chunk_cid === id.slice(separator + 1) &&
+        value?.publisher_did === publisher
+      );
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * Decide whether to store a record received from a peer in place of the one
+ * we hold for its key. The first publisher of a key owns it; later versions
+ * must come from the same publisher and must not be older.
+ */
+export function checkReplicatedRecord(
+  record: DHTRecord,
+  existing: DHTRecord | null,
+  now = new Date(),
+): ReplicatedRecordCheck {
+  if (!verifyDHTRecord(record)) {
+    return { accept: false, reason: "invalid signature" };
+  }
+  if (isRecordExpired(record, now)) {
+    return { accept: false, reason: "expired" };
+  }
+  if (!recordPayloadMatchesKey(record)) {
+    return { accept: false, reason: "payload does not match its key" };
+  }
+  if (!existing) {
+    return { accept: true, changed: true };
+  }
+  if (existing.publisher !== record.publisher) {
+    return { accept: false, reason: `key is owned by ${existing.publisher}` };
+  }
+  if (new Date(existing.timestamp) > new Date(record.timestamp)) {
+    return { accept: false, reason: "older than the stored record" };
+  }
+  return { accept: true, changed: existing.timestamp !== record.timestamp };
+}
@@ -582,6 +582,66 @@ class HeliaVerificationService {
     await fs.writeFile(outputPath, data);
     return { bytes: data.length };
   }
+
+  // ========================================================================
+  // Site Publishing (UnixFS Directories)
+  // ========================================================================
+
+  /**
+   * Imports files as a UnixFS directory and pins its root, returning the
+   * root CID.
+   */
+  async storeDirectory(
+    entries: Array<{ path: string; content: Uint8Array }>
+  ): Promise<{ cid: string; bytes: number }> {
+    if (!this.helia || !this.fsCodec) {
+      throw new Error("Helia node not running");
+    }
+
+    let root: any = null;
+    for await (const entry of this.fsCodec.addAll(entries, { wrapWithDirectory: true })) {
+      root = entry;
+    }
+    if (!root) {
+      throw new Error("Nothing to import");
+    }
+
+    if (!(await this.helia.pins.isPinned(root.cid))) {
+      // pins.add yields each block as it is pinned
+      for await (const pinnedCid of this.helia.pins.add(root.cid)) {
+        logger.debug("Pinned block", pinnedCid.toString());
+      }
+    }
+
+    const bytes = entries.reduce((sum, entry) => sum + entry.content.length, 0);
+    logger.info("Stored directory", { cid: root.cid.toString(), files: entries.length, bytes });
+    return { cid: root.cid.toString(), bytes };
+  }
+
+  /**
+   * Type of the entry at a path inside a CID, from local blocks only.
+   */
+  async statPath(cid: string, entryPath: string): Promise<"file" | "directory" | null> {
+    if (!this.fsCodec) return null;
+    await loadEsmModules();
+    try {
+      const stat = await this.fsCodec.stat(CID.parse(cid), { path: entryPath || undefined, offline: true });
+      return stat.type === "directory" ? "directory" : "file";
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Streams a file inside a CID, from local blocks only.
+   */
+  async *catPath(cid: string, entryPath: string): AsyncIterable<Uint8Array> {
+    if (!this.fsCodec) {
+      throw new Error("Helia node not running");
+    }
+    await loadEsmModules();
+    yield* this.fsCodec.cat(CID.parse(cid), { path: entryPath || undefined, offline: true });
+  }
 }
 
 // Export singleton
@@ -0,0 +1,556 @@
+/**
+ * Hybrid Sync Engine
+ * Moves records between the local sync store and a storage/database
+ * service bridge, applying the configured conflict resolution.
+ *
+ * Services speak a small REST contract relative to their endpoint URL:
+ *   GET    /records/:dataType/:id          -> SyncRecord (404 if missing)
+ *   PUT    /records/:dataType/:id          <- { data, updatedAt } -> SyncRecord
+ *   DELETE /records/:dataType/:id
+ *   GET    /records/:dataType?since=<iso>  -> { records: SyncRecord[] }
+ * Listings include tombstones (`deleted: true`) so deletes propagate.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import type {
+  ConflictChoice,
+  ConflictResolution,
+  ServiceBridge,
+  SyncConflict,
+  SyncMode,
+  SyncOperation,
+  SyncRecord,
+} from "@/types/hybrid_bridge_types";
+
+/**
+ * A record in the local store, with the bookkeeping needed to tell which
+ * side changed since the last sync.
+ */
+export interface LocalSyncRecord extends SyncRecord {
+  /** The cloud `updatedAt` this record was last reconciled with */
+  cloudUpdatedAt?: string;
+  /** Changed locally since the last successful sync */
+  dirty: boolean;
+  /** Set while a manual conflict for this record is open */
+  conflictId?: string;
+}
+
+interface SyncStoreFile {
+  records: Record<string, Record<string, LocalSyncRecord>>;
+  queue: SyncOperation[];
+  conflicts: SyncConflict[];
+  /** Latest cloud `updatedAt` pulled, per data type */
+  cursors: Record<string, string>;
+}
+
+/** Resolved conflicts are kept for the history view, up to this many */
+const MAX_RESOLVED_CONFLICTS = 100;
+
+// ============================================================================
+// Local Store
+// ============================================================================
+
+/**
+ * Local records, the pending operation queue and conflicts, persisted as
+ * one JSON file. Writes are serialized and replace the file atomically.
+ */
+export class SyncStore {
+  private state: SyncStoreFile | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private async load(): Promise<SyncStoreFile> {
+    if (!this.state) {
+      try {
+        this.state = JSON.parse(await fs.readFile(this.filePath, "utf8"));
+      } catch {
+        this.state = { records: {}, queue: [], conflicts: [], cursors: {} };
+      }
+    }
+    return this.state!;
+  }
+
+  private async save(): Promise<void> {
+    const state = this.state;
+    this.writeChain = this.writeChain.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(state));
+      await fs.rename(tempPath, this.filePath);
+    });
+    await this.writeChain;
+  }
+
+  async getRecord(
+    dataType: string,
+    id: string,
+  ): Promise<LocalSyncRecord | null> {
+    const state = await this.load();
+    return state.records[dataType]?.[id] ?? null;
+  }
+
+  async listRecords(dataType: string): Promise<LocalSyncRecord[]> {
+    const state = await this.load();
+    return Object.values(state.records[dataType] ?? {});
+  }
+
+  async listDataTypes(): Promise<string[]> {
+    const state = await this.load();
+    return Object.keys(state.records);
+  }
+
+  async putRecord(record: LocalSyncRecord): Promise<void> {
+    const state = await this.load();
+    state.records[record.dataType] ??= {};
+    state.records[record.dataType][record.id] = record;
+    await this.save();
+  }
+
+  async removeRecord(dataType: string, id: string): Promise<void> {
+    const state = await this.load();
+    if (state.records[dataType]) {
+      delete state.records[dataType][id];
+      if (Object.keys(state.records[dataType]).length === 0) {
+        delete state.records[dataType];
+      }
+    }
+    await this.save();
+  }
+
+  /**
+   * Queue an operation, replacing any queued operation for the same record.
+   */
+  async enqueue(op: SyncOperation): Promise<void> {
+    const state = await this.load();
+    state.queue = state.queue.filter(
+      (queued) =>
+        queued.dataType !== op.dataType || queued.dataId !== op.dataId,
+    );
+    state.queue.push(op);
+    await this.save();
+  }
+
+  /**
+   * Remove and return up to `limit` operations from the front of the queue.
+   */
+  async takeQueued(limit: number): Promise<SyncOperation[]> {
+    const state = await this.load();
+    const taken = state.queue.splice(0, limit);
+    await this.save();
+    return taken;
+  }
+
+  async getQueueLength(): Promise<number> {
+    return (await this.load()).queue.length;
+  }
+
+  async getCursor(dataType: string): Promise<string | undefined> {
+    return (await this.load()).cursors[dataType];
+  }
+
+  async setCursor(dataType: string, cursor: string): Promise<void> {
+    const state = await this.load();
+    state.cursors[dataType] = cursor;
+    await this.save();
+  }
+
+  async listConflicts(): Promise<SyncConflict[]> {
+    return [...(await this.load()).conflicts];
+  }
+
+  async getConflict(id: string): Promise<SyncConflict | null> {
+    return (await this.load()).conflicts.find((c) => c.id === id) ?? null;
+  }
+
+  async saveConflict(conflict: SyncConflict): Promise<void> {
+    const state = await this.load();
+    const others = state.conflicts.filter((c) => c.id !== conflict.id);
+    const resolved = others.filter((c) => c.resolved);
+    const dropped = new Set(
+      resolved
+        .slice(0, Math.max(0, resolved.length - MAX_RESOLVED_CONFLICTS + 1))
+        .map((c) => c.id),
+    );
+    state.conflicts = [...others.filter((c) => !dropped.has(c.id)), conflict];
+    await this.save();
+  }
+}
+
+// ============================================================================
+// Cloud Client
+// ============================================================================
+
+/**
+ * HTTP client for a storage/database service bridge.
+ */
+export class CloudRecordClient {
+  constructor(
+    private readonly bridge: ServiceBridge,
+    private readonly fetchImpl: typeof fetch = fetch,
+  ) {}
+
+  private async request(
+    method: string,
+    resource: string,
+    body?: unknown,
+  ): Promise<Response> {
+    const endpoint = this.bridge.config.endpoint;
+    const headers: Record<string, string> = { ...endpoint.headers };
+    if (endpoint.apiKey) {
+      headers["Authorization"] = `Bearer ${endpoint.apiKey}`;
+    }
+    if (body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(
+      () => controller.abort(),
+      endpoint.timeout || 10000,
+    );
+    try {
+      const response = await this.fetchImpl(
+        `${endpoint.url.replace(/\/+$/, "")}/records/${resource}`,
+        {
+          method,
+          headers,
+          body: body === undefined ? undefined : JSON.stringify(body),
+          signal: controller.signal,
+        },
+      );
+      if (!response.ok && response.status !== 404) {
+        throw new Error(
+          `${this.bridge.name} returned ${response.status} for ${method} ${resource}`,
+        );
+      }
+      return response;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private resource(dataType: string, id?: string): string {
+    return id === undefined
+      ? encodeURIComponent(dataType)
+      : `${encodeURIComponent(dataType)}/${encodeURIComponent(id)}`;
+  }
+
+  async get(dataType: string, id: string): Promise<SyncRecord | null> {
+    const response = await this.request("GET", this.resource(dataType, id));
+    return response.status === 404
+      ? null
+      : ((await response.json()) as SyncRecord);
+  }
+
+  async put(record: SyncRecord): Promise<SyncRecord> {
+    const response = await this.request(
+      "PUT",
+      this.resource(record.dataType, record.id),
+      {
+        data: record.data,
+        updatedAt: record.updatedAt,
+      },
+    );
+    if (response.status === 404) {
+      throw new Error(
+        `${this.bridge.name} rejected ${record.dataType}/${record.id}`,
+      );
+    }
+    return (await response.json()) as SyncRecord;
+  }
+
+  async delete(dataType: string, id: string): Promise<void> {
+    await this.request("DELETE", this.resource(dataType, id));
+  }
+
+  async listChanges(dataType: string, since?: string): Promise<SyncRecord[]> {
+    const query = since ? `?since=${encodeURIComponent(since)}` : "";
+    const response = await this.request(
+      "GET",
+      `${this.resource(dataType)}${query}`,
+    );
+    if (response.status === 404) return [];
+    const body = (await response.json()) as { records?: SyncRecord[] };
+    return body.records ?? [];
+  }
+}
+
+// ============================================================================
+// Conflict Resolution
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function sameContent(a: SyncRecord, b: SyncRecord): boolean {
+  return (
+    !!a.deleted === !!b.deleted &&
+    JSON.stringify(a.data) === JSON.stringify(b.data)
+  );
+}
+
+/**
+ * Picks the version to keep when both sides changed, or null when the
+ * conflict has to be resolved by the user. Ties, and field collisions when
+ * merging, go to the side the sync mode prefers: the cloud for cloud-first,
+ * local otherwise.
+ */
+export function resolveConflict(
+  local: SyncRecord,
+  cloud: SyncRecord,
+  resolution: ConflictResolution,
+  mode: SyncMode,
+): SyncRecord | null {
+  const preferCloud = mode === "cloud-first";
+  const newest = () => {
+    const localTime = Date.parse(local.updatedAt);
+    const cloudTime = Date.parse(cloud.updatedAt);
+    if (localTime === cloudTime) return preferCloud ? cloud : local;
+    return localTime > cloudTime ? local : cloud;
+  };
+
+  switch (resolution) {
+    case "local-wins":
+      return local;
+    case "cloud-wins":
+      return cloud;
+    case "newest-wins":
+      return newest();
+    case "merge": {
+      // A delete can't be merged with an edit; fall back to the newest
+      if (
+        local.deleted ||
+        cloud.deleted ||
+        !isPlainObject(local.data) ||
+        !isPlainObject(cloud.data)
+      ) {
+        return newest();
+      }
+      const [base, preferred] = preferCloud
+        ? [local.data, cloud.data]
+        : [cloud.data, local.data];
+      return {
+        id: local.id,
+        dataType: local.dataType,
+        data: { ...base, ...preferred },
+        updatedAt: new Date().toISOString(),
+      };
+    }
+    case "manual":
+      return null;
+  }
+}
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+export interface SyncEngineOptions {
+  store: SyncStore;
+  cloud: CloudRecordClient;
+  mode: SyncMode;
+  conflictResolution: ConflictResolution;
+  /** Called after a conflict has been stored for manual resolution */
+  onConflict?: (conflict: SyncConflict) => void;
+}
+
+export type ReconcileOutcome =
+  | "in-sync"
+  | "pushed"
+  | "pulled"
+  | "deleted-cloud"
+  | "deleted-local"
+  | "resolved"
+  | "conflict";
+
+export class HybridSyncEngine {
+  constructor(private readonly options: SyncEngineOptions) {}
+
+  /**
+   * Brings one record in line on both sides. `knownCloud` skips the fetch
+   * when the caller already has the cloud version (e.g. from a listing);
+   * `resolution` overrides the configured conflict resolution.
+   */
+  async reconcile(
+    dataType: string,
+    id: string,
+    knownCloud?: SyncRecord | null,
+    resolution: ConflictResolution = this.options.conflictResolution,
+  ): Promise<ReconcileOutcome> {
+    const { store, cloud: client } = this.options;
+    const local = await store.getRecord(dataType, id);
+    if (local?.conflictId) {
+      return "conflict";
+    }
+    const cloud =
+      knownCloud !== undefined ? knownCloud : await client.get(dataType, id);
+
+    if (!local) {
+      return cloud ? this.download(cloud) : "in-sync";
+    }
+    if (!cloud) {
+      // Gone from the cloud: upload local changes, otherwise follow the delete
+      if (local.dirty || !local.cloudUpdatedAt) return this.upload(local);
+      await store.removeRecord(dataType, id);
+      return "deleted-local";
+    }
+
+    const cloudChanged = cloud.updatedAt !== local.cloudUpdatedAt;
+    if (local.dirty && cloudChanged) {
+      if (sameContent(local, cloud)) {
+        return this.download(cloud);
+      }
+      return this.resolve(local, cloud, resolution);
+    }
+    if (local.dirty) return this.upload(local);
+    if (cloudChanged) return this.download(cloud);
+    return "in-sync";
+  }
+
+  /**
+   * Pulls every cloud change for a data type since the last pull.
+   */
+  async pullChanges(
+    dataType: string,
+  ): Promise<{ applied: number; conflicts: number }> {
+    const { store, cloud } = this.options;
+    const records = await cloud.listChanges(
+      dataType,
+      await store.getCursor(dataType),
+    );
+    let applied = 0;
+    let conflicts = 0;
+    let cursor = await store.getCursor(dataType);
+
+    for (const record of records) {
+      const outcome = await this.reconcile(dataType, record.id, record);
+      if (outcome === "conflict") conflicts++;
+      else if (outcome !== "in-sync") applied++;
+      if (!cursor || Date.parse(record.updatedAt) > Date.parse(cursor)) {
+        cursor = record.updatedAt;
+      }
+    }
+    if (cursor) {
+      await store.setCursor(dataType, cursor);
+    }
+    return { applied, conflicts };
+  }
+
+  /**
+   * Settles a manual conflict with the user's choice and writes the result
+   * to both sides.
+   */
+  async resolveManually(
+    conflictId: string,
+    choice: ConflictChoice,
+  ): Promise<SyncConflict> {
+    const { store, cloud: client } = this.options;
+    const conflict = await store.getConflict(conflictId);
+    if (!conflict) {
+      throw new Error(`Conflict ${conflictId} not found`);
+    }
+    if (conflict.resolved) {
+      return conflict;
+    }
+
+    const local = await store.getRecord(conflict.dataType, conflict.dataId);
+    const cloud = await client.get(conflict.dataType, conflict.dataId);
+    if (local && cloud) {
+      const winner = resolveConflict(local, cloud, choice, this.options.mode)!;
+      await this.apply(winner, cloud);
+    } else if (local) {
+      await this.upload({ ...local, conflictId: undefined });
+    } else if (cloud) {
+      await this.download(cloud);
+    }
+
+    const resolved: SyncConflict = {
+      ...conflict,
+      resolution: choice,
+      resolved: true,
+      resolvedAt: new Date().toISOString(),
+    };
+    await store.saveConflict(resolved);
+    return resolved;
+  }
+
+  private async resolve(
+    local: LocalSyncRecord,
+    cloud: SyncRecord,
+    resolution: ConflictResolution,
+  ): Promise<ReconcileOutcome> {
+    const { store, mode } = this.options;
+    const winner = resolveConflict(local, cloud, resolution, mode);
+    if (winner) {
+      await this.apply(winner, cloud);
+      return "resolved";
+    }
+
+    const conflict: SyncConflict = {
+      id: `conflict-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      dataType: local.dataType,
+      dataId: local.id,
+      localVersion: local.deleted ? null : local.data,
+      cloudVersion: cloud.deleted ? null : cloud.data,
+      localTimestamp: local.updatedAt,
+      cloudTimestamp: cloud.updatedAt,
+      resolved: false,
+      createdAt: new Date().toISOString(),
+    };
+    await store.saveConflict(conflict);
+    await store.putRecord({ ...local, conflictId: conflict.id });
+    this.options.onConflict?.(conflict);
+    return "conflict";
+  }
+
+  /** Writes the winning version to whichever side doesn't have it yet */
+  private async apply(winner: SyncRecord, cloud: SyncRecord): Promise<void> {
+    if (winner === cloud) {
+      await this.download(cloud);
+    } else {
+      await this.upload({ ...winner, dirty: true });
+    }
+  }
+
+  private async upload(local: LocalSyncRecord): Promise<ReconcileOutcome> {
+    const { store, cloud, mode } = this.options;
+    if (local.deleted) {
+      await cloud.delete(local.dataType, local.id);
+      await store.removeRecord(local.dataType, local.id);
+      return "deleted-cloud";
+    }
+    const saved = await cloud.put(local);
+    // Cloud-first keeps the service's view of the record (e.g. server timestamps)
+    const synced =
+      mode === "cloud-first"
+        ? { ...local, data: saved.data, updatedAt: saved.updatedAt }
+        : local;
+    await store.putRecord({
+      ...synced,
+      dirty: false,
+      conflictId: undefined,
+      cloudUpdatedAt: saved.updatedAt,
+    });
+    return "pushed";
+  }
+
+  private async download(cloud: SyncRecord): Promise<ReconcileOutcome> {
+    const { store } = this.options;
+    if (cloud.deleted) {
+      await store.removeRecord(cloud.dataType, cloud.id);
+      return "deleted-local";
+    }
+    await store.putRecord({
+      id: cloud.id,
+      dataType: cloud.dataType,
+      data: cloud.data,
+      updatedAt: cloud.updatedAt,
+      cloudUpdatedAt: cloud.updatedAt,
+      dirty: false,
+    });
+    return "pulled";
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * IPFS CAR Builder
+ * Packs a set of files into a UnixFS directory DAG and serializes it as a
+ * CARv1 archive, so the root CID is known before anything is uploaded.
+ *
+ * The DAG mirrors the defaults of the reference UnixFS importer used by
+ * kubo, Helia and web3.storage (CIDv1, raw leaves, 256 KiB chunks, balanced
+ * layout with 174 links per node), so a pinning service importing the same
+ * files arrives at the same root CID. Directories are never HAMT-sharded;
+ * those with thousands of entries will get a different CID than the
+ * importer's sharded form.
+ */
+
+import { CID } from "multiformats/cid";
+import { sha256 } from "multiformats/hashes/sha2";
+import * as dagCbor from "@ipld/dag-cbor";
+
+const RAW_CODEC = 0x55;
+const DAG_PB_CODEC = 0x70;
+const CHUNK_SIZE = 262_144;
+const MAX_CHILDREN_PER_NODE = 174;
+
+// UnixFS Data.DataType values
+const UNIXFS_DIRECTORY = 1;
+const UNIXFS_FILE = 2;
+
+export interface CarEntry {
+  /** Path inside the root directory, using "/" separators */
+  path: string;
+  content: Uint8Array;
+}
+
+export interface CarBlock {
+  cid: CID;
+  bytes: Uint8Array;
+}
+
+export interface UnixFsDag {
+  root: CID;
+  blocks: CarBlock[];
+  /** Cumulative size of the DAG, as reported by `ipfs object stat` */
+  size: number;
+}
+
+interface DagLink {
+  name: string;
+  cid: CID;
+  tsize: number;
+}
+
+interface DagNode {
+  cid: CID;
+  /** Block size plus the Tsize of every link below it */
+  tsize: number;
+  /** Bytes of file content under this node */
+  fileSize: number;
+}
+
+// ============================================================================
+// Protobuf Encoding
+// ============================================================================
+
+function encodeVarint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push(value % 0x80 | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+class ProtoWriter {
+  private parts: number[] = [];
+
+  varint(field: number, value: number): this {
+    this.parts.push(...encodeVarint(field << 3), ...encodeVarint(value));
+    return this;
+  }
+
+  bytes(field: number, value: Uint8Array): this {
+    this.parts.push(
+      ...encodeVarint((field << 3) | 2),
+      ...encodeVarint(value.length),
+    );
+    for (const byte of value) this.parts.push(byte);
+    return this;
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.parts);
+  }
+}
+
+/**
+ * Encodes a UnixFS `Data` message.
+ */
+function encodeUnixFsData(
+  type: number,
+  fileSize?: number,
+  blockSizes: number[] = [],
+): Uint8Array {
+  const writer = new ProtoWriter().varint(1, type);
+  if (fileSize !== undefined) writer.varint(3, fileSize);
+  for (const size of blockSizes) writer.varint(4, size);
+  return writer.finish();
+}
+
+/**
+ * Encodes a dag-pb `PBNode`. Links come before Data, as the dag-pb spec
+ * requires for a canonical encoding.
+ */
+function encodeDagPbNode(data: Uint8Array, links: DagLink[]): Uint8Array {
+  const writer = new ProtoWriter();
+  for (const link of links) {
+    const encodedLink = new ProtoWriter()
+      .bytes(1, link.cid.bytes)
+      .bytes(2, new TextEncoder().encode(link.name))
+      .varint(3, link.tsize)
+      .finish();
+    writer.bytes(2, encodedLink);
+  }
+  return writer.bytes(1, data).finish();
+}
+
+// ============================================================================
+// DAG Building
+// ============================================================================
+
+class DagBuilder {
+  readonly blocks: CarBlock[] = [];
+  private readonly seen = new Set<string>();
+
+  private async addBlock(codec: number, bytes: Uint8Array): Promise<CID> {
+    const cid = CID.createV1(codec, await sha256.digest(bytes));
+    // Identical chunks (e.g. duplicate files) are stored once
+    const key = cid.toString();
+    if (!this.seen.has(key)) {
+      this.seen.add(key);
+      this.blocks.push({ cid, bytes });
+    }
+    return cid;
+  }
+
+  async addFile(content: Uint8Array): Promise<DagNode> {
+    const chunks: Uint8Array[] = [];
+    for (let offset = 0; offset < content.length; offset += CHUNK_SIZE) {
+      chunks.push(content.subarray(offset, offset + CHUNK_SIZE));
+    }
+    if (chunks.length === 0) {
+      // An empty file is a single empty leaf
+      chunks.push(content);
+    }
+
+    let level: DagNode[] = [];
+    for (const chunk of chunks) {
+      const cid = await this.addBlock(RAW_CODEC, chunk);
+      level.push({ cid, tsize: chunk.length, fileSize: chunk.length });
+    }
+
+    // A single leaf is the file itself; otherwise build the balanced tree
+    while (level.length > 1) {
+      const parents: DagNode[] = [];
+      for (let i = 0; i < level.length; i += MAX_CHILDREN_PER_NODE) {
+        parents.push(
+          await this.addFileNode(level.slice(i, i + MAX_CHILDREN_PER_NODE)),
+        );
+      }
+      level = parents;
+    }
+    return level[0];
+  }
+
+  private async addFileNode(children: DagNode[]): Promise<DagNode> {
+    const fileSize = children.reduce((sum, child) => sum + child.fileSize, 0);
+    const data = encodeUnixFsData(
+      UNIXFS_FILE,
+      fileSize,
+      children.map((child) => child.fileSize),
+    );
+    const links = children.map((child) => ({
+      name: "",
+      cid: child.cid,
+      tsize: child.tsize,
+    }));
+    return this.addDagPbNode(data, links, fileSize);
+  }
+
+  async addDirectory(entries: Map<string, DagNode>): Promise<DagNode> {
+    const links = [...entries.entries()]
+      .map(([name, node]) => ({ name, cid: node.cid, tsize: node.tsize }))
+      .sort((a, b) => compareBytes(a.name, b.name));
+    const fileSize = [...entries.values()].reduce(
+      (sum, node) => sum + node.fileSize,
+      0,
+    );
+    return this.addDagPbNode(
+      encodeUnixFsData(UNIXFS_DIRECTORY),
+      links,
+      fileSize,
+    );
+  }
+
+  private async addDagPbNode(
+    data: Uint8Array,
+    links: DagLink[],
+    fileSize: number,
+  ): Promise<DagNode> {
+    const bytes = encodeDagPbNode(data, links);
+    const cid = await this.addBlock(DAG_PB_CODEC, bytes);
+    const tsize = links.reduce((sum, link) => sum + link.tsize, bytes.length);
+    return { cid, tsize, fileSize };
+  }
+}
+
+/** Directory links are sorted by the UTF-8 bytes of their names */
+function compareBytes(a: string, b: string): number {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return left.length - right.length;
+}
+
+interface DirectoryTree {
+  files: Map<string, Uint8Array>;
+  dirs: Map<string, DirectoryTree>;
+}
+
+function buildTree(entries: CarEntry[]): DirectoryTree {
+  const root: DirectoryTree = { files: new Map(), dirs: new Map() };
+  for (const entry of entries) {
+    const segments = entry.path
+      .split(/[\\/]+/)
+      .filter((segment) => segment && segment !== ".");
+    if (segments.length === 0 || segments.includes("..")) {
+      throw new Error(`Invalid path in CAR entry: ${entry.path}`);
+    }
+    let dir = root;
+    for (const segment of segments.slice(0, -1)) {
+      if (!dir.dirs.has(segment)) {
+        dir.dirs.set(segment, { files: new Map(), dirs: new Map() });
+      }
+      dir = dir.dirs.get(segment)!;
+    }
+    dir.files.set(segments[segments.length - 1], entry.content);
+  }
+  return root;
+}
+
+async function addTree(
+  builder: DagBuilder,
+  tree: DirectoryTree,
+): Promise<DagNode> {
+  const entries = new Map<string, DagNode>();
+  for (const [name, content] of tree.files) {
+    entries.set(name, await builder.addFile(content));
+  }
+  for (const [name, subtree] of tree.dirs) {
+    if (entries.has(name)) {
+      throw new Error(`"${name}" is both a file and a directory`);
+    }
+    entries.set(name, await addTree(builder, subtree));
+  }
+  return builder.addDirectory(entries);
+}
+
+/**
+ * Builds the UnixFS directory DAG for a set of files.
+ */
+export async function buildUnixFsDirectory(
+  entries: CarEntry[],
+): Promise<UnixFsDag> {
+  const builder = new DagBuilder();
+  const root = await addTree(builder, buildTree(entries));
+  return { root: root.cid, blocks: builder.blocks, size: root.tsize };
+}
+
+// ============================================================================
+// CAR Serialization
+// ============================================================================
+
+/**
+ * Serializes blocks as a CARv1 archive: a varint-prefixed dag-cbor header
+ * followed by varint-prefixed (CID, block) sections.
+ */
+export function encodeCarV1(roots: CID[], blocks: CarBlock[]): Uint8Array {
+  const header = dagCbor.encode({ roots, version: 1 });
+  const parts: Uint8Array[] = [
+    Uint8Array.from(encodeVarint(header.length)),
+    header,
+  ];
+  for (const block of blocks) {
+    parts.push(
+      Uint8Array.from(
+        encodeVarint(block.cid.bytes.length + block.bytes.length),
+      ),
+    );
+    parts.push(block.cid.bytes, block.bytes);
+  }
+
+  const car = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    car.set(part, offset);
+    offset += part.length;
+  }
+  return car;
+}
+
+/**
+ * Packs files into a CARv1 archive rooted at their UnixFS directory.
+ */
+export async function createCar(
+  entries: CarEntry[],
+): Promise<{ root: CID; car: Uint8Array; size: number }> {
+  const dag = await buildUnixFsDirectory(entries);
+  // Root block first lets gateways start serving before the whole CAR is read
+  const blocks = [
+    ...dag.blocks.filter((block) => block.cid.equals(dag.root)),
+    ...dag.blocks.filter((block) => !block.cid.equals(dag.root)),
+  ];
+  return {
+    root: dag.root,
+    car: encodeCarV1([dag.root], blocks),
+    size: dag.size,
+  };
+}
+
+/**
+ * Compares two CID strings, treating CIDv0 and its CIDv1 dag-pb form as
+ * equal since pinning services report either.
+ */
+export function isSameCid(a: string, b: string): boolean {
+  try {
+    return CID.parse(a).toV1().equals(CID.parse(b).toV1());
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Knowledge Base Index
+ * Chunking and vector search helpers for RAG knowledge bases
+ */
+
+import type {
+  KnowledgeDocument,
+  KnowledgeSearchResult,
+} from "@/types/agent_builder";
+
+/**
+ * On-disk representation of an indexed knowledge base. Every chunk carries
+ * its embedding so search is a linear scan; knowledge bases are expected to
+ * stay in the tens of thousands of chunks at most.
+ */
+export interface KnowledgeIndexFile {
+  version: 1;
+  knowledgeBaseId: number;
+  embeddingModel: string;
+  dimensions: number;
+  chunks: KnowledgeDocument[];
+  indexedAt: number;
+}
+
+/**
+ * Splits text into chunks of at most `chunkSize` characters, with
+ * `chunkOverlap` characters shared between neighbouring chunks. Chunk ends
+ * are pulled back to the nearest paragraph, line or sentence break when one
+ * falls in the second half of the window so chunks don't cut words.
+ */
+export function chunkText(
+  text: string,
+  chunkSize: number,
+  chunkOverlap: number,
+): string[] {
+  if (chunkSize <= 0) {
+    throw new Error("chunkSize must be positive");
+  }
+  const overlap = Math.max(0, Math.min(chunkOverlap, chunkSize - 1));
+  const normalized = text.replace(/\r\n/g, "\n").trim();
+  const chunks: string[] = [];
+
+  let start = 0;
+  while (start < normalized.length) {
+    let end = Math.min(start + chunkSize, normalized.length);
+    if (end < normalized.length) {
+      end = findBreak(normalized, start + Math.floor(chunkSize / 2), end);
+    }
+
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) {
+      chunks.push(chunk);
+    }
+    if (end >= normalized.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+
+  return chunks;
+}
+
+function findBreak(text: string, min: number, max: number): number {
+  const window = text.slice(min, max);
+  for (const separator of ["\n\n", "\n", ". ", " "]) {
+    const index = window.lastIndexOf(separator);
+    if (index !== -1) {
+      return min + index + separator.length;
+    }
+  }
+  return max;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Embedding dimensions differ: ${a.length} vs ${b.length}`);
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Returns the `topK` chunks most similar to the query embedding, highest
+ * score first. Chunks scoring below `minScore` are dropped.
+ */
+export function searchIndex(
+  index: KnowledgeIndexFile,
+  queryEmbedding: number[],
+  topK: number,
+  minScore = 0,
+): KnowledgeSearchResult[] {
+  const results: KnowledgeSearchResult[] = [];
+  for (const chunk of index.chunks) {
+    if (!chunk.embedding) continue;
+    const score = cosineSimilarity(queryEmbedding, chunk.embedding);
+    if (score < minScore) continue;
+    results.push({
+      knowledgeBaseId: index.knowledgeBaseId,
+      documentId: chunk.id,
+      sourceId: chunk.sourceId,
+      content: chunk.content,
+      metadata: chunk.metadata,
+      score,
+    });
+  }
+  return results.sort((a, b) => b.score - a.score).slice(0, topK);
+}
+
+/**
+ * Reduces an HTML page to readable text: drops scripts, styles and markup,
+ * keeps block boundaries as line breaks and decodes common entities.
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|template)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(
+      /<\/?(p|div|br|li|ul|ol|h[1-6]|tr|table|section|article|header|footer|pre|blockquote)[^>]*>/gi,
+      "\n",
+    )
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n+/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Formats retrieved chunks as a context block to append to an agent's system
+ * prompt.
+ */
+export function formatRetrievedContext(
+  results: KnowledgeSearchResult[],
+): string {
+  if (results.length === 0) return "";
+  const sections = results.map(
+    (result, i) => `[${i + 1}] (source: ${result.sourceId})\n${result.content}`,
+  );
+  return [
+    "Use the following excerpts from the knowledge base to answer. Cite them by number when relevant. If they don't contain the answer, say so.",
+    "",
+    ...sections,
+  ].join("\n\n");
+}
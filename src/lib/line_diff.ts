@@ -0,0 +1,209 @@
+/**
+ * Line-based diff (Myers' algorithm) for the version diff view. Monaco draws
+ * the side-by-side view itself; this gives us the change counts for the file
+ * list and the hunks to navigate between.
+ */
+
+export type DiffLineType = "context" | "add" | "remove";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  // 1-based line numbers on each side, absent on the side the line isn't on
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface FileDiffStats {
+  additions: number;
+  deletions: number;
+}
+
+export const DEFAULT_CONTEXT_LINES = 3;
+// Past this many edits the files are effectively rewritten, so stop searching
+// for the shortest edit script and show a full replacement instead
+const MAX_EDIT_DISTANCE = 2_000;
+
+export function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+type Edit = { type: DiffLineType; oldIndex: number; newIndex: number };
+
+/**
+ * Shortest edit script between `a` and `b`. Each step of the search keeps a
+ * copy of the furthest-reaching paths so the script can be walked back.
+ */
+function myers(a: string[], b: string[]): Edit[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m);
+      }
+    }
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): Edit[] {
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    // trace[d] holds the paths after d - 1 edits, indexed from k = -d
+    const v = trace[d];
+    const at = (k: number) => v[k + d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      edits.push({ type: "context", oldIndex: x, newIndex: y });
+    }
+    if (prevK === k + 1) {
+      y--;
+      edits.push({ type: "add", oldIndex: x, newIndex: y });
+    } else {
+      x--;
+      edits.push({ type: "remove", oldIndex: x, newIndex: y });
+    }
+  }
+  while (x > 0 && y > 0) {
+    x--;
+    y--;
+    edits.push({ type: "context", oldIndex: x, newIndex: y });
+  }
+  return edits.reverse();
+}
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  const edits = myers(a, b) ?? [
+    ...a.map((_, i) => ({ type: "remove" as const, oldIndex: i, newIndex: 0 })),
+    ...b.map((_, i) => ({ type: "add" as const, oldIndex: 0, newIndex: i })),
+  ];
+
+  return edits.map((edit) => {
+    switch (edit.type) {
+      case "context":
+        return {
+          type: "context",
+          text: a[edit.oldIndex],
+          oldLine: edit.oldIndex + 1,
+          newLine: edit.newIndex + 1,
+        };
+      case "remove":
+        return {
+          type: "remove",
+          text: a[edit.oldIndex],
+          oldLine: edit.oldIndex + 1,
+        };
+      case "add":
+        return {
+          type: "add",
+          text: b[edit.newIndex],
+          newLine: edit.newIndex + 1,
+        };
+    }
+  });
+}
+
+export function getDiffStats(lines: DiffLine[]): FileDiffStats {
+  let additions = 0;
+  let deletions = 0;
+  for (const line of lines) {
+    if (line.type === "add") additions++;
+    if (line.type === "remove") deletions++;
+  }
+  return { additions, deletions };
+}
+
+/**
+ * Group changes into hunks with `contextLines` unchanged lines around them,
+ * merging changes that are close enough for their context to touch.
+ */
+export function buildHunks(
+  lines: DiffLine[],
+  contextLines = DEFAULT_CONTEXT_LINES,
+): DiffHunk[] {
+  const changed = lines
+    .map((line, index) => (line.type === "context" ? -1 : index))
+    .filter((index) => index !== -1);
+  if (changed.length === 0) return [];
+
+  const ranges: [number, number][] = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - contextLines);
+    const end = Math.min(lines.length - 1, index + contextLines);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  // Line numbers just before index `i`, for hunks that start with an insertion
+  // or deletion and so have no number on one side
+  const linesBefore = (i: number) => {
+    let oldLine = 0;
+    let newLine = 0;
+    for (let j = 0; j < i; j++) {
+      if (lines[j].type !== "add") oldLine++;
+      if (lines[j].type !== "remove") newLine++;
+    }
+    return { oldLine, newLine };
+  };
+
+  return ranges.map(([start, end]) => {
+    const hunkLines = lines.slice(start, end + 1);
+    const before = linesBefore(start);
+    const oldLines = hunkLines.filter((l) => l.type !== "add").length;
+    const newLines = hunkLines.filter((l) => l.type !== "remove").length;
+    return {
+      // Like unified diffs, an empty side starts at the line before the hunk
+      oldStart: oldLines > 0 ? before.oldLine + 1 : before.oldLine,
+      oldLines,
+      newStart: newLines > 0 ? before.newLine + 1 : before.newLine,
+      newLines,
+      lines: hunkLines,
+    };
+  });
+}
+
+export function formatHunkHeader(hunk: DiffHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
@@ -0,0 +1,216 @@
+/**
+ * Local IPFS Gateway
+ * Serves UnixFS content from the embedded Helia node over HTTP so apps
+ * published locally can be previewed in a browser.
+ *
+ * Content is served subdomain-style (http://<cid>.ipfs.localhost:<port>/),
+ * which gives each app its own origin and keeps root-relative asset paths
+ * working. Path-style URLs (/ipfs/<cid>/...) are accepted as well.
+ */
+
+import http from "node:http";
+import path from "node:path";
+import log from "electron-log";
+
+const logger = log.scope("local_ipfs_gateway");
+
+export const DEFAULT_GATEWAY_PORT = 48084;
+
+/** Read access to UnixFS content, implemented by the Helia service */
+export interface UnixFsReader {
+  /** Type of the entry at `path` inside `cid`, or null if it doesn't exist */
+  stat(cid: string, path: string): Promise<"file" | "directory" | null>;
+  cat(cid: string, path: string): AsyncIterable<Uint8Array>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".htm": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".mjs": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json",
+  ".map": "application/json",
+  ".txt": "text/plain; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".ico": "image/x-icon",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".wasm": "application/wasm",
+};
+
+export function getContentType(filePath: string): string {
+  return (
+    CONTENT_TYPES[path.extname(filePath).toLowerCase()] ??
+    "application/octet-stream"
+  );
+}
+
+/**
+ * Extracts the CID and the path inside it from a gateway request.
+ */
+export function parseGatewayRequest(
+  host: string | undefined,
+  url: string,
+): { cid: string; path: string } | null {
+  const pathname = decodeURIComponent(
+    new URL(url, "http://localhost").pathname,
+  );
+  const subdomain = host?.match(/^([a-z0-9]+)\.ipfs\.localhost(:\d+)?$/i);
+  if (subdomain) {
+    return { cid: subdomain[1], path: trimSlashes(pathname) };
+  }
+
+  const pathStyle = pathname.match(/^\/ipfs\/([^/]+)\/?(.*)$/);
+  if (pathStyle) {
+    return { cid: pathStyle[1], path: trimSlashes(pathStyle[2]) };
+  }
+  return null;
+}
+
+function trimSlashes(value: string): string {
+  return value.replace(/^\/+|\/+$/g, "");
+}
+
+/**
+ * Finds the file to serve for a request path: the file itself, a
+ * directory's index.html, or the root index.html for client-side routes.
+ */
+export async function resolveGatewayFile(
+  reader: UnixFsReader,
+  cid: string,
+  requestPath: string,
+): Promise<string | null> {
+  const candidates = [requestPath, path.posix.join(requestPath, "index.html")];
+  // Extension-less paths are usually routes of a single-page app
+  if (!path.posix.extname(requestPath)) {
+    candidates.push("index.html");
+  }
+
+  for (const candidate of candidates) {
+    if (candidate.split("/").includes("..")) continue;
+    const normalized = trimSlashes(candidate);
+    if ((await reader.stat(cid, normalized)) === "file") {
+      return normalized;
+    }
+  }
+  return null;
+}
+
+export class LocalIpfsGateway {
+  private server: http.Server | null = null;
+  private listeningPort: number | null = null;
+
+  constructor(private readonly reader: UnixFsReader) {}
+
+  get port(): number | null {
+    return this.listeningPort;
+  }
+
+  /**
+   * Starts listening on `preferredPort`, or any free port if it is taken.
+   * Calling it again while running returns the current port.
+   */
+  async start(preferredPort = DEFAULT_GATEWAY_PORT): Promise<number> {
+    if (this.server && this.listeningPort !== null) {
+      return this.listeningPort;
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        logger.error("Gateway request failed:", error);
+        if (!res.headersSent) {
+          res.writeHead(500, { "Content-Type": "text/plain" });
+        }
+        res.end("Internal gateway error");
+      });
+    });
+
+    const listen = (port: number) =>
+      new Promise<number>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, "127.0.0.1", () => {
+          server.off("error", reject);
+          resolve((server.address() as { port: number }).port);
+        });
+      });
+
+    try {
+      this.listeningPort = await listen(preferredPort);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EADDRINUSE") throw error;
+      this.listeningPort = await listen(0);
+    }
+    this.server = server;
+    logger.info(`Local IPFS gateway listening on port ${this.listeningPort}`);
+    return this.listeningPort;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    this.listeningPort = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Preview URL for a CID; the gateway must be running.
+   */
+  urlFor(cid: string): string {
+    if (this.listeningPort === null) {
+      throw new Error("Local IPFS gateway is not running");
+    }
+    return `http://${cid}.ipfs.localhost:${this.listeningPort}/`;
+  }
+
+  private async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      res.writeHead(405, { Allow: "GET, HEAD" });
+      res.end();
+      return;
+    }
+
+    const target = parseGatewayRequest(req.headers.host, req.url ?? "/");
+    if (!target) {
+      res.writeHead(404, { "Content-Type": "text/plain" });
+      res.end("Not an IPFS path");
+      return;
+    }
+
+    const filePath = await resolveGatewayFile(
+      this.reader,
+      target.cid,
+      target.path,
+    );
+    if (!filePath) {
+      res.writeHead(404, { "Content-Type": "text/plain" });
+      res.end(`${target.path || "/"} not found in ${target.cid}`);
+      return;
+    }
+
+    res.writeHead(200, {
+      "Content-Type": getContentType(filePath),
+      // Content under a CID never changes
+      "Cache-Control": "public, max-age=29030400, immutable",
+      "X-Ipfs-Path": `/ipfs/${target.cid}/${filePath}`,
+    });
+    if (req.method === "HEAD") {
+      res.end();
+      return;
+    }
+    for await (const chunk of this.reader.cat(target.cid, filePath)) {
+      res.write(chunk);
+    }
+    res.end();
+  }
+}
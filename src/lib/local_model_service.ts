@@ -12,6 +12,8 @@ import type {
   InferenceRequest,
   InferenceResponse,
   InferenceMessage,
+  InferenceTimings,
+  LoadedModelMemory,
 } from "@/types/trustless_inference";
 
 const logger = log.scope("local_models");
@@ -147,6 +149,7 @@ export class OllamaProvider {
       generationTimeMs: endTime - startTime,
       timestamp: endTime,
       finishReason: data.done ? "stop" : "length",
+      timings: this.extractTimings(data),
     };
   }
 
@@ -177,6 +180,7 @@ export class OllamaProvider {
         seed: request.modelConfig.options?.seed,
         num_predict: request.modelConfig.options?.numPredict ?? 2048,
         num_ctx: request.modelConfig.options?.numCtx ?? 4096,
+        stop: request.modelConfig.options?.stop,
       },
     };
 
@@ -210,6 +214,7 @@ export class OllamaProvider {
       generationTimeMs: endTime - startTime,
       timestamp: endTime,
       finishReason: data.done ? "stop" : "length",
+      timings: this.extractTimings(data),
     };
   }
 
@@ -325,6 +330,45 @@ export class OllamaProvider {
     }
   }
 
+  async embed(modelId: string, input: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/api/embed`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: modelId, input }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama embed error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.embeddings;
+  }
+
+  async getLoadedModelMemory(modelId: string): Promise<LoadedModelMemory | null> {
+    const response = await fetch(`${this.baseUrl}/api/ps`);
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    const model = (data.models || []).find((m: any) => m.name === modelId || m.model === modelId);
+    if (!model) return null;
+
+    return {
+      sizeMb: Math.round((model.size || 0) / (1024 * 1024)),
+      vramMb: Math.round((model.size_vram || 0) / (1024 * 1024)),
+    };
+  }
+
+  // Ollama reports durations in nanoseconds
+  private extractTimings(data: any): InferenceTimings | undefined {
+    if (data.total_duration === undefined) return undefined;
+    return {
+      loadMs: Math.round((data.load_duration || 0) / 1e6),
+      promptEvalMs: Math.round((data.prompt_eval_duration || 0) / 1e6),
+      evalMs: Math.round((data.eval_duration || 0) / 1e6),
+    };
+  }
+
   private extractQuantization(modelName: string): string | undefined {
     const match = modelName.match(/:([^:]+)$/);
     if (match) {
@@ -395,6 +439,7 @@ export class LMStudioProvider {
         top_p: request.modelConfig.options?.topP ?? 0.9,
         max_tokens: request.modelConfig.options?.numPredict ?? 2048,
         stop: request.modelConfig.options?.stop,
+        seed: request.modelConfig.options?.seed,
         stream: false,
       }),
     });
@@ -424,6 +469,21 @@ export class LMStudioProvider {
     };
   }
 
+  async embed(modelId: string, input: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/v1/embeddings`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: modelId, input }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`LM Studio embed error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.data.map((item: { embedding: number[] }) => item.embedding);
+  }
+
   async streamChat(
     request: InferenceRequest,
     onChunk: (chunk: string) => void
@@ -598,6 +658,31 @@ export class LocalModelService {
     return this.chat(request);
   }
 
+  async embed(
+    provider: LocalModelProvider,
+    modelId: string,
+    input: string[]
+  ): Promise<number[][]> {
+    switch (provider) {
+      case "ollama":
+        return this.ollama.embed(modelId, input);
+      case "lmstudio":
+        return this.lmstudio.embed(modelId, input);
+      default:
+        throw new Error(`Embeddings not supported for provider: ${provider}`);
+    }
+  }
+
+  async getLoadedModelMemory(
+    provider: LocalModelProvider,
+    modelId: string
+  ): Promise<LoadedModelMemory | null> {
+    if (provider === "ollama") {
+      return this.ollama.getLoadedModelMemory(modelId);
+    }
+    return null;
+  }
+
   async pullModel(
     provider: LocalModelProvider,
     modelId: string,
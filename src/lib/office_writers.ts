@@ -0,0 +1,1694 @@
+/**
+ * Office Writers
+ * Writes DOCX, XLSX and PPTX files straight from the structured document
+ * models, so exporting to Office formats doesn't need LibreOffice. Charts
+ * are embedded as PNG images with a text caption.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ZipWriter } from "./zip_writer";
+import {
+  DEFAULT_CHART_SIZE,
+  describeChart,
+  parseHexColor,
+  renderChartPng,
+} from "./chart_renderer";
+import type {
+  CellFormat,
+  ChartContent,
+  DocumentContent,
+  DocumentSection,
+  ListContent,
+  PresentationContent,
+  PresentationSlide,
+  PresentationTheme,
+  SectionStyle,
+  SpreadsheetCell,
+  SpreadsheetContent,
+  TableContent,
+} from "@/types/libreoffice_types";
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const REL_BASE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const NS_A = "http://schemas.openxmlformats.org/drawingml/2006/main";
+const NS_P = "http://schemas.openxmlformats.org/presentationml/2006/main";
+const NS_W = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+/** English Metric Units per inch and per pixel at 96 dpi */
+const EMU_PER_INCH = 914_400;
+const EMU_PER_PIXEL = 9_525;
+
+// ============= Shared =============
+
+/** Drops control characters that are not allowed in XML 1.0 documents. */
+function stripInvalidXmlChars(value: string): string {
+  let result = "";
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d) {
+      result += char;
+    }
+  }
+  return result;
+}
+
+function escapeXml(value: string): string {
+  return stripInvalidXmlChars(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function relationships(
+  rels: { id: string; type: string; target: string }[],
+): string {
+  return (
+    XML_HEADER +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    rels
+      .map(
+        (rel) =>
+          `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${escapeXml(rel.target)}"/>`,
+      )
+      .join("") +
+    "</Relationships>"
+  );
+}
+
+function contentTypes(overrides: Record<string, string>): string {
+  return (
+    XML_HEADER +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Default Extension="png" ContentType="image/png"/>' +
+    '<Default Extension="jpeg" ContentType="image/jpeg"/>' +
+    '<Default Extension="gif" ContentType="image/gif"/>' +
+    Object.entries(overrides)
+      .map(
+        ([part, type]) =>
+          `<Override PartName="${part}" ContentType="${type}"/>`,
+      )
+      .join("") +
+    "</Types>"
+  );
+}
+
+function coreProperties(title?: string, author?: string): string {
+  const now = new Date().toISOString().replace(/\.\d+Z$/, "Z");
+  return (
+    XML_HEADER +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    (title ? `<dc:title>${escapeXml(title)}</dc:title>` : "") +
+    `<dc:creator>${escapeXml(author || "JoyCreate")}</dc:creator>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>` +
+    `<dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>` +
+    "</cp:coreProperties>"
+  );
+}
+
+const CORE_PROPERTIES_TYPE =
+  "application/vnd.openxmlformats-package.core-properties+xml";
+const CORE_PROPERTIES_REL =
+  "http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties";
+
+export interface EmbeddedImage {
+  data: Buffer;
+  extension: "png" | "jpeg" | "gif";
+  width: number;
+  height: number;
+}
+
+/**
+ * Reads the pixel size from a PNG, GIF or JPEG header.
+ */
+export function getImageSize(
+  data: Buffer,
+  extension: EmbeddedImage["extension"],
+): { width: number; height: number } | null {
+  if (extension === "png" && data.length >= 24) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  if (extension === "gif" && data.length >= 10) {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+  if (extension === "jpeg") {
+    let offset = 2;
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      const length = data.readUInt16BE(offset + 2);
+      // Start-of-frame markers, excluding DHT (C4), JPG (C8) and DAC (CC)
+      if (
+        marker >= 0xc0 &&
+        marker <= 0xcf &&
+        marker !== 0xc4 &&
+        marker !== 0xc8 &&
+        marker !== 0xcc
+      ) {
+        return {
+          width: data.readUInt16BE(offset + 7),
+          height: data.readUInt16BE(offset + 5),
+        };
+      }
+      offset += 2 + length;
+    }
+  }
+  return null;
+}
+
+/**
+ * Loads an image section's source: a base64 data URL or a local file path.
+ * Remote URLs are not fetched during export and return null.
+ */
+export async function loadSectionImage(
+  source: string,
+): Promise<EmbeddedImage | null> {
+  let data: Buffer;
+  let extension: EmbeddedImage["extension"];
+
+  const dataUrl = /^data:image\/(png|jpe?g|gif);base64,(.+)$/i.exec(
+    source.trim(),
+  );
+  if (dataUrl) {
+    data = Buffer.from(dataUrl[2], "base64");
+    extension =
+      dataUrl[1].toLowerCase() === "png"
+        ? "png"
+        : dataUrl[1].toLowerCase() === "gif"
+          ? "gif"
+          : "jpeg";
+  } else {
+    const filePath = source.startsWith("file://")
+      ? new URL(source).pathname
+      : source;
+    const ext = path.extname(filePath).toLowerCase();
+    if (
+      !path.isAbsolute(filePath) ||
+      ![".png", ".jpg", ".jpeg", ".gif"].includes(ext)
+    ) {
+      return null;
+    }
+    try {
+      data = await fs.promises.readFile(filePath);
+    } catch {
+      return null;
+    }
+    extension = ext === ".png" ? "png" : ext === ".gif" ? "gif" : "jpeg";
+  }
+
+  const size = getImageSize(data, extension) ?? { width: 640, height: 480 };
+  return { data, extension, ...size };
+}
+
+/** An image or chart section resolved to embeddable pixels */
+interface SectionMedia {
+  image: EmbeddedImage;
+  caption?: string;
+}
+
+async function resolveSectionMedia(
+  section: DocumentSection,
+): Promise<SectionMedia | null> {
+  if (section.type === "chart") {
+    const chart = section.content as ChartContent;
+    return {
+      image: {
+        data: renderChartPng(chart),
+        extension: "png",
+        ...DEFAULT_CHART_SIZE,
+      },
+      caption: describeChart(chart),
+    };
+  }
+  if (section.type === "image" && typeof section.content === "string") {
+    const image = await loadSectionImage(section.content);
+    return image ? { image } : null;
+  }
+  return null;
+}
+
+/**
+ * Collects media for one package and hands out file names, so the same
+ * numbering is used for the zip entry and the relationship target.
+ */
+class MediaStore {
+  readonly files: { name: string; data: Buffer }[] = [];
+
+  add(image: EmbeddedImage): string {
+    const name = `image${this.files.length + 1}.${image.extension}`;
+    this.files.push({ name, data: image.data });
+    return name;
+  }
+}
+
+/** Fits an image into a box (in EMU), keeping its aspect ratio */
+function fitImage(
+  image: EmbeddedImage,
+  maxWidth: number,
+  maxHeight: number,
+): { cx: number; cy: number } {
+  const width = image.width * EMU_PER_PIXEL;
+  const height = image.height * EMU_PER_PIXEL;
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return { cx: Math.round(width * scale), cy: Math.round(height * scale) };
+}
+
+function getTableColumnCount(table: TableContent): number {
+  return Math.max(
+    table.headers.length,
+    ...table.rows.map((row) => row.length),
+    1,
+  );
+}
+
+// ============= DOCX =============
+
+const DOCX_ALIGNMENT: Record<NonNullable<SectionStyle["alignment"]>, string> = {
+  left: "left",
+  center: "center",
+  right: "right",
+  justify: "both",
+};
+
+/** Page content width for US Letter with 1" margins, in twentieths of a point */
+const DOCX_CONTENT_WIDTH = 9360;
+
+function docxRunProperties(style?: SectionStyle): string {
+  if (!style) return "";
+  let props = "";
+  if (style.bold) props += "<w:b/>";
+  if (style.italic) props += "<w:i/>";
+  const color = parseHexColor(style.fontColor);
+  if (color) props += `<w:color w:val="${color}"/>`;
+  if (style.fontSize)
+    props += `<w:sz w:val="${Math.round(style.fontSize * 2)}"/>`;
+  if (style.underline) props += '<w:u w:val="single"/>';
+  const background = parseHexColor(style.backgroundColor);
+  if (background)
+    props += `<w:shd w:val="clear" w:color="auto" w:fill="${background}"/>`;
+  return props ? `<w:rPr>${props}</w:rPr>` : "";
+}
+
+function docxRun(text: string, runProperties = ""): string {
+  const lines = text.split("\n");
+  return `<w:r>${runProperties}${lines
+    .map((line) => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join("<w:br/>")}</w:r>`;
+}
+
+function docxParagraph(
+  text: string,
+  options: { styleId?: string; style?: SectionStyle; numId?: number } = {},
+): string {
+  let props = "";
+  if (options.styleId) props += `<w:pStyle w:val="${options.styleId}"/>`;
+  if (options.numId)
+    props += `<w:numPr><w:ilvl w:val="0"/><w:numId w:val="${options.numId}"/></w:numPr>`;
+  if (options.style?.alignment)
+    props += `<w:jc w:val="${DOCX_ALIGNMENT[options.style.alignment]}"/>`;
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ""}${text ? docxRun(text, docxRunProperties(options.style)) : ""}</w:p>`;
+}
+
+function docxTable(table: TableContent): string {
+  const columns = getTableColumnCount(table);
+  const cellWidth = Math.floor(DOCX_CONTENT_WIDTH / columns);
+  const borderColor = parseHexColor(table.style?.borderColor) ?? "BFBFBF";
+  const borderSize = Math.max(
+    2,
+    Math.round((table.style?.borderWidth ?? 0.5) * 8),
+  );
+  const headerFill = parseHexColor(table.style?.headerBackground) ?? "D9E2F3";
+  const border = (side: string) =>
+    `<w:${side} w:val="single" w:sz="${borderSize}" w:space="0" w:color="${borderColor}"/>`;
+
+  const row = (cells: string[], options: { header?: boolean; fill?: string }) =>
+    `<w:tr>${options.header ? "<w:trPr><w:tblHeader/></w:trPr>" : ""}${Array.from(
+      { length: columns },
+      (_, c) => {
+        const shading = options.fill
+          ? `<w:shd w:val="clear" w:color="auto" w:fill="${options.fill}"/>`
+          : "";
+        const runProperties = options.header ? "<w:rPr><w:b/></w:rPr>" : "";
+        return `<w:tc><w:tcPr><w:tcW w:w="${cellWidth}" w:type="dxa"/>${shading}</w:tcPr><w:p>${docxRun(cells[c] ?? "", runProperties)}</w:p></w:tc>`;
+      },
+    ).join("")}</w:tr>`;
+
+  return (
+    `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblBorders>` +
+    ["top", "left", "bottom", "right", "insideH", "insideV"]
+      .map(border)
+      .join("") +
+    `</w:tblBorders><w:tblLook w:val="04A0" w:firstRow="1" w:lastRow="0" w:firstColumn="0" w:lastColumn="0" w:noHBand="0" w:noVBand="1"/></w:tblPr>` +
+    `<w:tblGrid>${`<w:gridCol w:w="${cellWidth}"/>`.repeat(columns)}</w:tblGrid>` +
+    (table.headers.length > 0
+      ? row(table.headers, { header: true, fill: headerFill })
+      : "") +
+    table.rows
+      .map((cells, r) =>
+        row(cells, {
+          fill:
+            table.style?.alternateRowColors && r % 2 === 1
+              ? "F2F2F2"
+              : undefined,
+        }),
+      )
+      .join("") +
+    "</w:tbl>" +
+    // Word merges adjacent tables unless a paragraph separates them
+    "<w:p/>"
+  );
+}
+
+function docxImage(
+  relId: string,
+  docPrId: number,
+  name: string,
+  size: { cx: number; cy: number },
+): string {
+  return (
+    `<w:p><w:pPr><w:jc w:val="center"/></w:pPr><w:r><w:drawing>` +
+    `<wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${size.cx}" cy="${size.cy}"/>` +
+    `<wp:docPr id="${docPrId}" name="${escapeXml(name)}"/>` +
+    `<a:graphic xmlns:a="${NS_A}"><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">` +
+    `<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">` +
+    `<pic:nvPicPr><pic:cNvPr id="${docPrId}" name="${escapeXml(name)}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${size.cx}" cy="${size.cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+    `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r></w:p>`
+  );
+}
+
+const DOCX_STYLES =
+  XML_HEADER +
+  `<w:styles xmlns:w="${NS_W}">` +
+  '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>' +
+  '<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="259" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:jc w:val="center"/></w:pPr><w:rPr><w:b/><w:sz w:val="52"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:jc w:val="center"/></w:pPr><w:rPr><w:color w:val="666666"/><w:sz w:val="32"/></w:rPr></w:style>' +
+  [40, 32, 28, 26, 24, 22]
+    .map(
+      (size, i) =>
+        `<w:style w:type="paragraph" w:styleId="Heading${i + 1}"><w:name w:val="heading ${i + 1}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${i}"/></w:pPr><w:rPr><w:b/><w:color w:val="1F3864"/><w:sz w:val="${size}"/></w:rPr></w:style>`,
+    )
+    .join("") +
+  '<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/><w:spacing w:after="0"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="20"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="720" w:right="720"/></w:pPr><w:rPr><w:i/><w:color w:val="404040"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Caption"><w:name w:val="caption"/><w:basedOn w:val="Normal"/><w:pPr><w:jc w:val="center"/></w:pPr><w:rPr><w:i/><w:color w:val="595959"/><w:sz w:val="18"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/></w:pPr></w:style>' +
+  "</w:styles>";
+
+function docxNumbering(orderedListCount: number): string {
+  const level = (format: string, text: string) =>
+    `<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl>`;
+  let nums = '<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>';
+  // Each ordered list gets its own num so numbering restarts at 1
+  for (let i = 0; i < orderedListCount; i++) {
+    nums += `<w:num w:numId="${i + 2}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`;
+  }
+  return (
+    XML_HEADER +
+    `<w:numbering xmlns:w="${NS_W}">` +
+    `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/>${level("bullet", "•")}</w:abstractNum>` +
+    `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="singleLevel"/>${level("decimal", "%1.")}</w:abstractNum>` +
+    nums +
+    "</w:numbering>"
+  );
+}
+
+/**
+ * Writes a Word document. Headings, lists, tables, code and quotes map to
+ * Word styles; charts and local or data-URL images are embedded as pictures.
+ */
+export async function writeDocx(
+  content: DocumentContent,
+  outputPath: string,
+): Promise<void> {
+  const media = new MediaStore();
+  const imageRels: { id: string; target: string }[] = [];
+  let orderedLists = 0;
+  let body = "";
+
+  if (content.title) body += docxParagraph(content.title, { styleId: "Title" });
+  if (content.subtitle)
+    body += docxParagraph(content.subtitle, { styleId: "Subtitle" });
+
+  for (const section of content.sections ?? []) {
+    switch (section.type) {
+      case "heading": {
+        const level = Math.min(6, Math.max(1, section.level ?? 1));
+        body += docxParagraph(String(section.content), {
+          styleId: `Heading${level}`,
+          style: section.style,
+        });
+        break;
+      }
+      case "list": {
+        const list = section.content as ListContent;
+        const numId = list.ordered ? 2 + orderedLists++ : 1;
+        for (const item of list.items) {
+          body += docxParagraph(item, {
+            styleId: "ListParagraph",
+            numId,
+            style: section.style,
+          });
+        }
+        break;
+      }
+      case "table":
+        body += docxTable(section.content as TableContent);
+        break;
+      case "code":
+        body +=
+          docxParagraph(String(section.content), { styleId: "Code" }) +
+          "<w:p/>";
+        break;
+      case "quote":
+        body += docxParagraph(String(section.content), {
+          styleId: "Quote",
+          style: section.style,
+        });
+        break;
+      case "image":
+      case "chart": {
+        const resolved = await resolveSectionMedia(section);
+        if (!resolved) {
+          body += docxParagraph(String(section.content), {
+            styleId: "Caption",
+          });
+          break;
+        }
+        const name = media.add(resolved.image);
+        const relId = `rIdImage${imageRels.length + 1}`;
+        imageRels.push({ id: relId, target: `media/${name}` });
+        body += docxImage(
+          relId,
+          imageRels.length,
+          name,
+          fitImage(resolved.image, 6 * EMU_PER_INCH, 8 * EMU_PER_INCH),
+        );
+        if (resolved.caption)
+          body += docxParagraph(resolved.caption, { styleId: "Caption" });
+        break;
+      }
+      default:
+        body += docxParagraph(String(section.content), {
+          style: section.style,
+        });
+    }
+  }
+
+  const document =
+    XML_HEADER +
+    `<w:document xmlns:w="${NS_W}" xmlns:r="${REL_BASE}" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"><w:body>` +
+    (body || "<w:p/>") +
+    '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>' +
+    "</w:body></w:document>";
+
+  const zip = new ZipWriter(outputPath);
+  await zip.addBuffer(
+    "[Content_Types].xml",
+    contentTypes({
+      "/word/document.xml":
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml",
+      "/word/styles.xml":
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml",
+      "/word/numbering.xml":
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml",
+      "/docProps/core.xml": CORE_PROPERTIES_TYPE,
+    }),
+  );
+  await zip.addBuffer(
+    "_rels/.rels",
+    relationships([
+      {
+        id: "rId1",
+        type: `${REL_BASE}/officeDocument`,
+        target: "word/document.xml",
+      },
+      { id: "rId2", type: CORE_PROPERTIES_REL, target: "docProps/core.xml" },
+    ]),
+  );
+  await zip.addBuffer(
+    "docProps/core.xml",
+    coreProperties(content.title, content.author),
+  );
+  await zip.addBuffer("word/document.xml", document);
+  await zip.addBuffer("word/styles.xml", DOCX_STYLES);
+  await zip.addBuffer("word/numbering.xml", docxNumbering(orderedLists));
+  await zip.addBuffer(
+    "word/_rels/document.xml.rels",
+    relationships([
+      { id: "rId1", type: `${REL_BASE}/styles`, target: "styles.xml" },
+      { id: "rId2", type: `${REL_BASE}/numbering`, target: "numbering.xml" },
+      ...imageRels.map((rel) => ({ ...rel, type: `${REL_BASE}/image` })),
+    ]),
+  );
+  for (const file of media.files) {
+    await zip.addBuffer(`word/media/${file.name}`, file.data);
+  }
+  await zip.finish();
+}
+
+// ============= XLSX =============
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: "$",
+  EUR: "€",
+  GBP: "£",
+  JPY: "¥",
+  CNY: "¥",
+  INR: "₹",
+};
+
+function getNumberFormatCode(format: CellFormat): string | undefined {
+  const decimals = format.decimals ?? 2;
+  const fraction = decimals > 0 ? `.${"0".repeat(decimals)}` : "";
+  switch (format.type) {
+    case "number":
+      return `#,##0${fraction}`;
+    case "currency": {
+      const code = (format.currency ?? "USD").toUpperCase();
+      return `[$${CURRENCY_SYMBOLS[code] ?? `${code} `}]#,##0${fraction}`;
+    }
+    case "percentage":
+      return `0${fraction}%`;
+    case "date":
+      return format.dateFormat ?? "yyyy-mm-dd";
+    case "text":
+      return "@";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Builds the workbook stylesheet on demand, reusing one cell style per
+ * distinct CellFormat.
+ */
+class XlsxStyles {
+  private readonly numFmts: string[] = [];
+  private readonly fonts = ['<font><sz val="11"/><name val="Calibri"/></font>'];
+  private readonly fills = [
+    '<fill><patternFill patternType="none"/></fill>',
+    '<fill><patternFill patternType="gray125"/></fill>',
+  ];
+  private readonly xfs = [
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>',
+  ];
+  private readonly byKey = new Map<string, number>();
+
+  private indexOf(list: string[], entry: string): number {
+    const index = list.indexOf(entry);
+    if (index >= 0) return index;
+    list.push(entry);
+    return list.length - 1;
+  }
+
+  styleFor(format?: CellFormat): number {
+    if (!format) return 0;
+    const key = JSON.stringify(format);
+    const existing = this.byKey.get(key);
+    if (existing !== undefined) return existing;
+
+    const code = getNumberFormatCode(format);
+    const numFmtId =
+      code === undefined
+        ? 0
+        : code === "@"
+          ? 49
+          : 164 + this.indexOf(this.numFmts, code);
+    const color = parseHexColor(format.textColor);
+    const fontId =
+      format.bold || format.italic || color
+        ? this.indexOf(
+            this.fonts,
+            `<font>${format.bold ? "<b/>" : ""}${format.italic ? "<i/>" : ""}<sz val="11"/>${color ? `<color rgb="FF${color}"/>` : ""}<name val="Calibri"/></font>`,
+          )
+        : 0;
+    const background = parseHexColor(format.backgroundColor);
+    const fillId = background
+      ? this.indexOf(
+          this.fills,
+          `<fill><patternFill patternType="solid"><fgColor rgb="FF${background}"/><bgColor indexed="64"/></patternFill></fill>`,
+        )
+      : 0;
+
+    let xf = `<xf numFmtId="${numFmtId}" fontId="${fontId}" fillId="${fillId}" borderId="0" xfId="0"`;
+    if (numFmtId) xf += ' applyNumberFormat="1"';
+    if (fontId) xf += ' applyFont="1"';
+    if (fillId) xf += ' applyFill="1"';
+    xf += format.alignment
+      ? ` applyAlignment="1"><alignment horizontal="${format.alignment}"/></xf>`
+      : "/>";
+
+    this.xfs.push(xf);
+    this.byKey.set(key, this.xfs.length - 1);
+    return this.xfs.length - 1;
+  }
+
+  toXml(): string {
+    return (
+      XML_HEADER +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      (this.numFmts.length > 0
+        ? `<numFmts count="${this.numFmts.length}">${this.numFmts
+            .map(
+              (code, i) =>
+                `<numFmt numFmtId="${164 + i}" formatCode="${escapeXml(code)}"/>`,
+            )
+            .join("")}</numFmts>`
+        : "") +
+      `<fonts count="${this.fonts.length}">${this.fonts.join("")}</fonts>` +
+      `<fills count="${this.fills.length}">${this.fills.join("")}</fills>` +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      `<cellXfs count="${this.xfs.length}">${this.xfs.join("")}</cellXfs>` +
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+      "</styleSheet>"
+    );
+  }
+}
+
+function xlsxCellXml(cell: SpreadsheetCell, style: number): string {
+  const ref = `${cell.col.toUpperCase()}${cell.row}`;
+  const s = style ? ` s="${style}"` : "";
+  let value = cell.value;
+
+  // Date cells with a parseable string become Excel serial dates
+  if (cell.format?.type === "date" && typeof value === "string") {
+    const time = Date.parse(value);
+    if (Number.isFinite(time)) value = time / 86_400_000 + 25_569;
+  }
+
+  if (cell.formula) {
+    const formula = `<f>${escapeXml(cell.formula.replace(/^=/, ""))}</f>`;
+    return typeof value === "number"
+      ? `<c r="${ref}"${s}>${formula}<v>${value}</v></c>`
+      : `<c r="${ref}"${s} t="str">${formula}<v>${escapeXml(String(value ?? ""))}</v></c>`;
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c r="${ref}"${s}><v>${value}</v></c>`;
+  }
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value ?? ""))}</t></is></c>`;
+}
+
+function columnIndex(col: string): number {
+  let n = 0;
+  for (const char of col.toUpperCase()) {
+    n = n * 26 + (char.charCodeAt(0) - 64);
+  }
+  return n;
+}
+
+/** Excel sheet names: at most 31 chars, no []:*?/\ and unique per workbook */
+function getSheetNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name, i) => {
+    const base = (
+      name.replace(/[[\]:*?/\\]/g, "_").trim() || `Sheet${i + 1}`
+    ).slice(0, 31);
+    let candidate = base;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      candidate = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
+
+/**
+ * Writes an Excel workbook with one worksheet per sheet. Formulas are kept
+ * (with their value cached) and cell formats become Excel number formats,
+ * fonts and fills.
+ */
+export async function writeXlsx(
+  content: SpreadsheetContent,
+  outputPath: string,
+): Promise<void> {
+  const sheets =
+    content.sheets.length > 0
+      ? content.sheets
+      : [{ name: "Sheet1", cells: [] }];
+  const names = getSheetNames(sheets.map((sheet) => sheet.name));
+  const styles = new XlsxStyles();
+
+  const worksheets = sheets.map((sheet) => {
+    const rows = new Map<number, SpreadsheetCell[]>();
+    for (const cell of sheet.cells) {
+      if (!rows.has(cell.row)) rows.set(cell.row, []);
+      rows.get(cell.row)!.push(cell);
+    }
+    for (const row of Object.keys(sheet.rowHeights ?? {})) {
+      if (!rows.has(Number(row))) rows.set(Number(row), []);
+    }
+
+    const columns = Object.entries(sheet.columnWidths ?? {})
+      .map(([col, width]) => ({ index: columnIndex(col), width }))
+      .sort((a, b) => a.index - b.index);
+    const cols =
+      columns.length > 0
+        ? `<cols>${columns
+            .map(
+              (c) =>
+                `<col min="${c.index}" max="${c.index}" width="${c.width}" customWidth="1"/>`,
+            )
+            .join("")}</cols>`
+        : "";
+
+    const sheetData = [...rows.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([row, cells]) => {
+        const height = sheet.rowHeights?.[row];
+        const cellXml = cells
+          .sort((a, b) => columnIndex(a.col) - columnIndex(b.col))
+          .map((cell) => xlsxCellXml(cell, styles.styleFor(cell.format)))
+          .join("");
+        return `<row r="${row}"${height ? ` ht="${height}" customHeight="1"` : ""}>${cellXml}</row>`;
+      })
+      .join("");
+
+    return (
+      XML_HEADER +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      `${cols}<sheetData>${sheetData}</sheetData></worksheet>`
+    );
+  });
+
+  const zip = new ZipWriter(outputPath);
+  await zip.addBuffer(
+    "[Content_Types].xml",
+    contentTypes({
+      "/xl/workbook.xml":
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml",
+      "/xl/styles.xml":
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml",
+      "/docProps/core.xml": CORE_PROPERTIES_TYPE,
+      ...Object.fromEntries(
+        worksheets.map((_, i) => [
+          `/xl/worksheets/sheet${i + 1}.xml`,
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml",
+        ]),
+      ),
+    }),
+  );
+  await zip.addBuffer(
+    "_rels/.rels",
+    relationships([
+      {
+        id: "rId1",
+        type: `${REL_BASE}/officeDocument`,
+        target: "xl/workbook.xml",
+      },
+      { id: "rId2", type: CORE_PROPERTIES_REL, target: "docProps/core.xml" },
+    ]),
+  );
+  await zip.addBuffer("docProps/core.xml", coreProperties());
+  await zip.addBuffer(
+    "xl/workbook.xml",
+    XML_HEADER +
+      `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="${REL_BASE}"><sheets>` +
+      names
+        .map(
+          (name, i) =>
+            `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`,
+        )
+        .join("") +
+      // Formulas are written with cached values; ask Excel to recalculate on open
+      '</sheets><calcPr calcId="191029" fullCalcOnLoad="1"/></workbook>',
+  );
+  await zip.addBuffer(
+    "xl/_rels/workbook.xml.rels",
+    relationships([
+      ...worksheets.map((_, i) => ({
+        id: `rId${i + 1}`,
+        type: `${REL_BASE}/worksheet`,
+        target: `worksheets/sheet${i + 1}.xml`,
+      })),
+      {
+        id: `rId${worksheets.length + 1}`,
+        type: `${REL_BASE}/styles`,
+        target: "styles.xml",
+      },
+    ]),
+  );
+  await zip.addBuffer("xl/styles.xml", styles.toXml());
+  for (const [i, worksheet] of worksheets.entries()) {
+    await zip.addBuffer(`xl/worksheets/sheet${i + 1}.xml`, worksheet);
+  }
+  await zip.finish();
+}
+
+// ============= PPTX =============
+
+/** 16:9 slide size */
+const SLIDE_WIDTH = 12_192_000;
+const SLIDE_HEIGHT = 6_858_000;
+const SLIDE_MARGIN = Math.round(0.5 * EMU_PER_INCH);
+const SPTREE_HEADER =
+  '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+const CLR_MAP =
+  '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>';
+const PML_NAMESPACES = `xmlns:a="${NS_A}" xmlns:r="${REL_BASE}" xmlns:p="${NS_P}"`;
+
+interface PptxColors {
+  primary: string;
+  secondary: string;
+  fontFamily: string;
+}
+
+function getThemeColors(theme?: PresentationTheme): PptxColors {
+  return {
+    primary: parseHexColor(theme?.primaryColor) ?? "1F4E79",
+    secondary: parseHexColor(theme?.secondaryColor) ?? "2E75B6",
+    fontFamily: theme?.fontFamily || "Calibri",
+  };
+}
+
+/** Builds theme1.xml from a PresentationTheme; the primary and secondary colors become accents 1 and 2 */
+function pptxTheme(
+  theme: PresentationTheme | undefined,
+  colors: PptxColors,
+): string {
+  const scheme = (name: string, value: string) =>
+    `<a:${name}><a:srgbClr val="${value}"/></a:${name}>`;
+  const font = `<a:latin typeface="${escapeXml(colors.fontFamily)}"/><a:ea typeface=""/><a:cs typeface=""/>`;
+  const fill = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>';
+  const line = (w: number) =>
+    `<a:ln w="${w}"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>`;
+  return (
+    XML_HEADER +
+    `<a:theme xmlns:a="${NS_A}" name="${escapeXml(theme?.name || "JoyCreate")}"><a:themeElements>` +
+    `<a:clrScheme name="${escapeXml(theme?.name || "JoyCreate")}">` +
+    scheme("dk1", "1F2937") +
+    scheme("lt1", "FFFFFF") +
+    scheme("dk2", colors.primary) +
+    scheme("lt2", "F3F4F6") +
+    scheme("accent1", colors.primary) +
+    scheme("accent2", colors.secondary) +
+    ["F28E2B", "59A14F", "B07AA1", "EDC948"]
+      .map((c, i) => scheme(`accent${i + 3}`, c))
+      .join("") +
+    scheme("hlink", "0563C1") +
+    scheme("folHlink", "954F72") +
+    "</a:clrScheme>" +
+    `<a:fontScheme name="${escapeXml(colors.fontFamily)}"><a:majorFont>${font}</a:majorFont><a:minorFont>${font}</a:minorFont></a:fontScheme>` +
+    '<a:fmtScheme name="Office">' +
+    `<a:fillStyleLst>${fill.repeat(3)}</a:fillStyleLst>` +
+    `<a:lnStyleLst>${line(6350)}${line(12700)}${line(19050)}</a:lnStyleLst>` +
+    `<a:effectStyleLst>${"<a:effectStyle><a:effectLst/></a:effectStyle>".repeat(3)}</a:effectStyleLst>` +
+    `<a:bgFillStyleLst>${fill.repeat(3)}</a:bgFillStyleLst>` +
+    "</a:fmtScheme></a:themeElements></a:theme>"
+  );
+}
+
+function isDarkColor(hex: string): boolean {
+  const [r, g, b] = [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  return 0.299 * r + 0.587 * g + 0.114 * b < 140;
+}
+
+function extractColors(value: string): string[] {
+  const matches =
+    value.match(/#[0-9a-f]{6}\b|#[0-9a-f]{3}\b|rgba?\([^)]*\)/gi) ?? [];
+  return matches.map((m) => parseHexColor(m)).filter((c): c is string => !!c);
+}
+
+/** Everything one slide needs while its shapes are being laid out */
+class SlideBuilder {
+  readonly shapes: string[] = [];
+  readonly imageRels: { id: string; target: string }[] = [];
+  background = "";
+  private nextShapeId = 2;
+
+  constructor(
+    private readonly media: MediaStore,
+    readonly colors: PptxColors,
+    readonly textColor: string,
+    readonly titleColor: string,
+  ) {}
+
+  shapeId(): number {
+    return this.nextShapeId++;
+  }
+
+  addImage(image: EmbeddedImage): string {
+    const id = `rId${this.imageRels.length + 2}`;
+    this.imageRels.push({ id, target: `../media/${this.media.add(image)}` });
+    return id;
+  }
+}
+
+interface Box {
+  x: number;
+  y: number;
+  cx: number;
+  cy: number;
+}
+
+interface PptxRun {
+  text: string;
+  size: number;
+  bold?: boolean;
+  italic?: boolean;
+  color: string;
+  font?: "major" | "minor" | "code";
+}
+
+function pptxParagraph(
+  runs: PptxRun[],
+  options: {
+    align?: string;
+    bullet?: "char" | "number";
+    bulletColor?: string;
+  } = {},
+): string {
+  const attrs =
+    (options.bullet ? ' marL="342900" indent="-342900"' : "") +
+    (options.align ? ` algn="${options.align}"` : "");
+  const bullet =
+    options.bullet === "char"
+      ? `${options.bulletColor ? `<a:buClr><a:srgbClr val="${options.bulletColor}"/></a:buClr>` : ""}<a:buFont typeface="Arial"/><a:buChar char="•"/>`
+      : options.bullet === "number"
+        ? '<a:buFont typeface="+mj-lt"/><a:buAutoNum type="arabicPeriod"/>'
+        : "<a:buNone/>";
+  return (
+    `<a:p><a:pPr${attrs}>${bullet}</a:pPr>` +
+    runs
+      .map((run) => {
+        const typeface =
+          run.font === "code"
+            ? "Consolas"
+            : run.font === "major"
+              ? "+mj-lt"
+              : "+mn-lt";
+        return (
+          `<a:r><a:rPr lang="en-US" sz="${Math.round(run.size * 100)}"${run.bold ? ' b="1"' : ""}${run.italic ? ' i="1"' : ""} dirty="0">` +
+          `<a:solidFill><a:srgbClr val="${run.color}"/></a:solidFill><a:latin typeface="${typeface}"/></a:rPr>` +
+          `<a:t>${escapeXml(run.text)}</a:t></a:r>`
+        );
+      })
+      .join("") +
+    "</a:p>"
+  );
+}
+
+function pptxTextBox(
+  slide: SlideBuilder,
+  box: Box,
+  paragraphs: string[],
+  anchor: "t" | "ctr" = "t",
+): string {
+  const id = slide.shapeId();
+  return (
+    `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="TextBox ${id}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>` +
+    `<p:spPr><a:xfrm><a:off x="${box.x}" y="${box.y}"/><a:ext cx="${box.cx}" cy="${box.cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/></p:spPr>` +
+    `<p:txBody><a:bodyPr wrap="square" rtlCol="0" anchor="${anchor}"><a:normAutofit/></a:bodyPr><a:lstStyle/>${paragraphs.join("")}</p:txBody></p:sp>`
+  );
+}
+
+function pptxPicture(
+  slide: SlideBuilder,
+  relId: string,
+  box: Box,
+  description?: string,
+): string {
+  const id = slide.shapeId();
+  return (
+    `<p:pic><p:nvPicPr><p:cNvPr id="${id}" name="Picture ${id}"${description ? ` descr="${escapeXml(description)}"` : ""}/>` +
+    '<p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr>' +
+    `<p:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></p:blipFill>` +
+    `<p:spPr><a:xfrm><a:off x="${box.x}" y="${box.y}"/><a:ext cx="${box.cx}" cy="${box.cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>`
+  );
+}
+
+function pptxTable(slide: SlideBuilder, table: TableContent, box: Box): string {
+  const id = slide.shapeId();
+  const columns = getTableColumnCount(table);
+  const columnWidth = Math.floor(box.cx / columns);
+  const rowHeight = Math.round(0.4 * EMU_PER_INCH);
+  const headerFill =
+    parseHexColor(table.style?.headerBackground) ?? slide.colors.primary;
+  const rows = [
+    ...(table.headers.length > 0 ? [table.headers] : []),
+    ...table.rows,
+  ];
+  const hasHeader = table.headers.length > 0;
+
+  const rowXml = rows
+    .map((cells, r) => {
+      const header = hasHeader && r === 0;
+      const fill = header
+        ? headerFill
+        : (r - (hasHeader ? 1 : 0)) % 2 === 1
+          ? "F2F2F2"
+          : "FFFFFF";
+      const color = header
+        ? isDarkColor(headerFill)
+          ? "FFFFFF"
+          : "1F2937"
+        : "1F2937";
+      return (
+        `<a:tr h="${rowHeight}">` +
+        Array.from(
+          { length: columns },
+          (_, c) =>
+            `<a:tc><a:txBody><a:bodyPr/><a:lstStyle/>${pptxParagraph([{ text: cells[c] ?? "", size: 14, bold: header, color }])}</a:txBody>` +
+            `<a:tcPr><a:solidFill><a:srgbClr val="${fill}"/></a:solidFill></a:tcPr></a:tc>`,
+        ).join("") +
+        "</a:tr>"
+      );
+    })
+    .join("");
+
+  return (
+    `<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="${id}" name="Table ${id}"/><p:cNvGraphicFramePr><a:graphicFrameLocks noGrp="1"/></p:cNvGraphicFramePr><p:nvPr/></p:nvGraphicFramePr>` +
+    `<p:xfrm><a:off x="${box.x}" y="${box.y}"/><a:ext cx="${columnWidth * columns}" cy="${rowHeight * rows.length}"/></p:xfrm>` +
+    `<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table"><a:tbl><a:tblPr firstRow="${hasHeader ? 1 : 0}" bandRow="1"/>` +
+    `<a:tblGrid>${`<a:gridCol w="${columnWidth}"/>`.repeat(columns)}</a:tblGrid>${rowXml}</a:tbl></a:graphicData></a:graphic></p:graphicFrame>`
+  );
+}
+
+function sectionParagraphs(
+  section: DocumentSection,
+  slide: SlideBuilder,
+): string[] {
+  const color = parseHexColor(section.style?.fontColor) ?? slide.textColor;
+  const align = section.style?.alignment
+    ? { left: "l", center: "ctr", right: "r", justify: "just" }[
+        section.style.alignment
+      ]
+    : undefined;
+  const run = (text: string, overrides: Partial<PptxRun> = {}): PptxRun => ({
+    text,
+    size: section.style?.fontSize ?? 20,
+    bold: section.style?.bold,
+    italic: section.style?.italic,
+    color,
+    ...overrides,
+  });
+
+  switch (section.type) {
+    case "heading":
+      return [
+        pptxParagraph(
+          [
+            run(String(section.content), {
+              size: 24,
+              bold: true,
+              color: slide.titleColor,
+              font: "major",
+            }),
+          ],
+          { align },
+        ),
+      ];
+    case "list": {
+      const list = section.content as ListContent;
+      return list.items.map((item) =>
+        pptxParagraph([run(item)], {
+          align,
+          bullet: list.ordered ? "number" : "char",
+          bulletColor: slide.colors.secondary,
+        }),
+      );
+    }
+    case "code":
+      return String(section.content)
+        .split("\n")
+        .map((line) => pptxParagraph([run(line, { size: 14, font: "code" })]));
+    case "quote":
+      return [
+        pptxParagraph([run(String(section.content), { italic: true })], {
+          align,
+        }),
+      ];
+    default:
+      return [pptxParagraph([run(String(section.content))], { align })];
+  }
+}
+
+/** Rough height of text sections, assuming ~0.55em average glyph width */
+function estimateTextHeight(
+  sections: DocumentSection[],
+  width: number,
+): number {
+  const charsPerLine = Math.max(10, (width / EMU_PER_INCH) * 7);
+  const lines = sections.reduce((total, section) => {
+    const texts =
+      section.type === "list"
+        ? (section.content as ListContent).items
+        : section.type === "code"
+          ? String(section.content).split("\n")
+          : [String(section.content)];
+    return (
+      total +
+      texts.reduce(
+        (sum, text) => sum + Math.max(1, Math.ceil(text.length / charsPerLine)),
+        0,
+      )
+    );
+  }, 0);
+  return Math.round(lines * 0.42 * EMU_PER_INCH + 0.2 * EMU_PER_INCH);
+}
+
+/**
+ * Lays sections out top to bottom inside a box. Consecutive text sections
+ * share a text box; tables, charts and images get their own frames.
+ */
+async function layoutSections(
+  slide: SlideBuilder,
+  sections: DocumentSection[],
+  box: Box,
+): Promise<void> {
+  const gap = Math.round(0.15 * EMU_PER_INCH);
+  let y = box.y;
+  const bottom = box.y + box.cy;
+  let textRun: DocumentSection[] = [];
+
+  const flushText = (isLast: boolean) => {
+    if (textRun.length === 0) return;
+    const height = isLast
+      ? bottom - y
+      : Math.min(bottom - y, estimateTextHeight(textRun, box.cx));
+    slide.shapes.push(
+      pptxTextBox(
+        slide,
+        {
+          x: box.x,
+          y,
+          cx: box.cx,
+          cy: Math.max(height, Math.round(0.5 * EMU_PER_INCH)),
+        },
+        textRun.flatMap((section) => sectionParagraphs(section, slide)),
+      ),
+    );
+    y += height + gap;
+    textRun = [];
+  };
+
+  for (const [i, section] of sections.entries()) {
+    if (section.type === "table") {
+      flushText(false);
+      const table = section.content as TableContent;
+      slide.shapes.push(pptxTable(slide, table, { ...box, y }));
+      y +=
+        Math.round(0.4 * EMU_PER_INCH) *
+          (table.rows.length + (table.headers.length > 0 ? 1 : 0)) +
+        gap;
+    } else if (section.type === "chart" || section.type === "image") {
+      const resolved = await resolveSectionMedia(section);
+      if (!resolved) {
+        textRun.push({ type: "paragraph", content: String(section.content) });
+        continue;
+      }
+      flushText(false);
+      // Leave room for text that follows the picture
+      const remaining = sections
+        .slice(i + 1)
+        .filter(
+          (s) => s.type !== "table" && s.type !== "chart" && s.type !== "image",
+        );
+      const reserved =
+        remaining.length > 0 ? estimateTextHeight(remaining, box.cx) : 0;
+      const size = fitImage(
+        resolved.image,
+        box.cx,
+        Math.max(bottom - y - reserved, EMU_PER_INCH),
+      );
+      const relId = slide.addImage(resolved.image);
+      slide.shapes.push(
+        pptxPicture(
+          slide,
+          relId,
+          { x: box.x + Math.round((box.cx - size.cx) / 2), y, ...size },
+          resolved.caption,
+        ),
+      );
+      y += size.cy + gap;
+    } else {
+      textRun.push(section);
+    }
+  }
+  flushText(true);
+}
+
+interface SlideBackground {
+  /** DrawingML fill; image backgrounds leave this empty and set `image` */
+  fill: string;
+  image?: EmbeddedImage;
+  opacity?: number;
+  /** Whether text on this background should be light */
+  dark: boolean;
+}
+
+/**
+ * Resolves a slide's background. The slide's own background wins over the
+ * theme's backgroundStyle.
+ */
+async function resolveSlideBackground(
+  slide: PresentationSlide,
+  theme: PresentationTheme | undefined,
+  colors: PptxColors,
+): Promise<SlideBackground> {
+  const solid = (hex: string) => ({
+    fill: `<a:solidFill><a:srgbClr val="${hex}"/></a:solidFill>`,
+    dark: isDarkColor(hex),
+  });
+  const gradient = (stops: string[]) => ({
+    fill: `<a:gradFill rotWithShape="1"><a:gsLst>${stops
+      .map(
+        (hex, i) =>
+          `<a:gs pos="${Math.round((i / (stops.length - 1)) * 100000)}"><a:srgbClr val="${hex}"/></a:gs>`,
+      )
+      .join("")}</a:gsLst><a:lin ang="5400000" scaled="0"/></a:gradFill>`,
+    dark: stops.every(isDarkColor),
+  });
+
+  const background = slide.background;
+  if (background?.type === "image") {
+    const image = await loadSectionImage(background.value);
+    if (image)
+      return { fill: "", image, opacity: background.opacity, dark: false };
+  } else if (background) {
+    const stops = extractColors(background.value);
+    if (background.type === "gradient" && stops.length >= 2)
+      return gradient(stops);
+    if (stops[0] || parseHexColor(background.value))
+      return solid(stops[0] ?? parseHexColor(background.value)!);
+  }
+
+  if (slide.layout === "section") return solid(colors.primary);
+
+  const style = theme?.backgroundStyle?.toLowerCase();
+  if (style === "dark") return solid("1F2937");
+  if (style === "gradient") return gradient([colors.primary, colors.secondary]);
+  const themeColor = parseHexColor(theme?.backgroundStyle);
+  if (themeColor) return solid(themeColor);
+  return { fill: "", dark: false };
+}
+
+async function buildSlide(
+  slide: PresentationSlide,
+  content: PresentationContent,
+  colors: PptxColors,
+  media: MediaStore,
+): Promise<SlideBuilder> {
+  const background = await resolveSlideBackground(slide, content.theme, colors);
+  const builder = new SlideBuilder(
+    media,
+    colors,
+    background.dark ? "FFFFFF" : "374151",
+    background.dark ? "FFFFFF" : colors.primary,
+  );
+  let fill = background.fill;
+  if (background.image) {
+    const alpha =
+      background.opacity !== undefined
+        ? `<a:alphaModFix amt="${Math.round(background.opacity * 100000)}"/>`
+        : "";
+    fill = `<a:blipFill dpi="0" rotWithShape="1"><a:blip r:embed="${builder.addImage(background.image)}">${alpha}</a:blip><a:stretch><a:fillRect/></a:stretch></a:blipFill>`;
+  }
+  if (fill)
+    builder.background = `<p:bg><p:bgPr>${fill}<a:effectLst/></p:bgPr></p:bg>`;
+
+  const width = SLIDE_WIDTH - SLIDE_MARGIN * 2;
+  const titleRun = (text: string, size: number): PptxRun => ({
+    text,
+    size,
+    bold: true,
+    color: builder.titleColor,
+    font: "major",
+  });
+  const subtitleRun = (text: string, size: number): PptxRun => ({
+    text,
+    size,
+    color: background.dark ? "E5E7EB" : colors.secondary,
+  });
+  const sections = slide.content ?? [];
+
+  if (slide.layout === "title" || slide.layout === "section") {
+    const titleTop = Math.round(
+      SLIDE_HEIGHT * (sections.length > 0 ? 0.18 : 0.3),
+    );
+    const titleHeight = Math.round(1.5 * EMU_PER_INCH);
+    if (slide.title) {
+      builder.shapes.push(
+        pptxTextBox(
+          builder,
+          { x: SLIDE_MARGIN, y: titleTop, cx: width, cy: titleHeight },
+          [pptxParagraph([titleRun(slide.title, 44)], { align: "ctr" })],
+          "ctr",
+        ),
+      );
+    }
+    let y = titleTop + titleHeight;
+    if (slide.subtitle) {
+      builder.shapes.push(
+        pptxTextBox(
+          builder,
+          { x: SLIDE_MARGIN, y, cx: width, cy: Math.round(0.9 * EMU_PER_INCH) },
+          [pptxParagraph([subtitleRun(slide.subtitle, 24)], { align: "ctr" })],
+        ),
+      );
+      y += Math.round(1.1 * EMU_PER_INCH);
+    }
+    if (sections.length > 0) {
+      await layoutSections(builder, sections, {
+        x: SLIDE_MARGIN,
+        y,
+        cx: width,
+        cy: SLIDE_HEIGHT - SLIDE_MARGIN - y,
+      });
+    }
+    return builder;
+  }
+
+  let y = SLIDE_MARGIN;
+  if (slide.title && slide.layout !== "blank") {
+    builder.shapes.push(
+      pptxTextBox(
+        builder,
+        { x: SLIDE_MARGIN, y, cx: width, cy: Math.round(1.0 * EMU_PER_INCH) },
+        [pptxParagraph([titleRun(slide.title, 32)])],
+        "ctr",
+      ),
+    );
+    y += Math.round(1.1 * EMU_PER_INCH);
+  }
+  if (slide.subtitle && slide.layout !== "blank") {
+    builder.shapes.push(
+      pptxTextBox(
+        builder,
+        { x: SLIDE_MARGIN, y, cx: width, cy: Math.round(0.6 * EMU_PER_INCH) },
+        [pptxParagraph([subtitleRun(slide.subtitle, 20)])],
+      ),
+    );
+    y += Math.round(0.7 * EMU_PER_INCH);
+  }
+
+  const height = SLIDE_HEIGHT - SLIDE_MARGIN - y;
+  if (slide.layout === "two-column" && sections.length > 1) {
+    const gap = Math.round(0.4 * EMU_PER_INCH);
+    const columnWidth = Math.round((width - gap) / 2);
+    const split = Math.ceil(sections.length / 2);
+    await layoutSections(builder, sections.slice(0, split), {
+      x: SLIDE_MARGIN,
+      y,
+      cx: columnWidth,
+      cy: height,
+    });
+    await layoutSections(builder, sections.slice(split), {
+      x: SLIDE_MARGIN + columnWidth + gap,
+      y,
+      cx: columnWidth,
+      cy: height,
+    });
+  } else {
+    await layoutSections(builder, sections, {
+      x: SLIDE_MARGIN,
+      y,
+      cx: width,
+      cy: height,
+    });
+  }
+  return builder;
+}
+
+function pptxNotes(notes: string): string {
+  return (
+    XML_HEADER +
+    `<p:notes ${PML_NAMESPACES}><p:cSld><p:spTree>${SPTREE_HEADER}` +
+    '<p:sp><p:nvSpPr><p:cNvPr id="2" name="Notes Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr>' +
+    '<p:spPr><a:xfrm><a:off x="685800" y="4400550"/><a:ext cx="5486400" cy="3600450"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr>' +
+    `<p:txBody><a:bodyPr/><a:lstStyle/>${notes
+      .split("\n")
+      .map(
+        (line) =>
+          `<a:p><a:r><a:rPr lang="en-US" dirty="0"/><a:t>${escapeXml(line)}</a:t></a:r></a:p>`,
+      )
+      .join("")}</p:txBody></p:sp>` +
+    "</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:notes>"
+  );
+}
+
+/**
+ * Writes a PowerPoint deck. The theme's colors and font go into the deck's
+ * theme part and drive title, bullet and table colors; slide backgrounds
+ * support solid colors, gradients and local images.
+ */
+export async function writePptx(
+  content: PresentationContent,
+  outputPath: string,
+): Promise<void> {
+  const slides: PresentationSlide[] =
+    content.slides.length > 0
+      ? content.slides
+      : [{ layout: "title", title: "Untitled Presentation" }];
+  const colors = getThemeColors(content.theme);
+  const media = new MediaStore();
+  const built: SlideBuilder[] = [];
+  for (const slide of slides) {
+    built.push(await buildSlide(slide, content, colors, media));
+  }
+  const hasNotes = slides.some((slide) => slide.notes);
+  const themeXml = pptxTheme(content.theme, colors);
+  const presentationRels = [
+    {
+      id: "rId1",
+      type: `${REL_BASE}/slideMaster`,
+      target: "slideMasters/slideMaster1.xml",
+    },
+    ...slides.map((_, i) => ({
+      id: `rId${i + 2}`,
+      type: `${REL_BASE}/slide`,
+      target: `slides/slide${i + 1}.xml`,
+    })),
+    {
+      id: `rId${slides.length + 2}`,
+      type: `${REL_BASE}/theme`,
+      target: "theme/theme1.xml",
+    },
+    {
+      id: `rId${slides.length + 3}`,
+      type: `${REL_BASE}/presProps`,
+      target: "presProps.xml",
+    },
+    {
+      id: `rId${slides.length + 4}`,
+      type: `${REL_BASE}/viewProps`,
+      target: "viewProps.xml",
+    },
+    {
+      id: `rId${slides.length + 5}`,
+      type: `${REL_BASE}/tableStyles`,
+      target: "tableStyles.xml",
+    },
+    ...(hasNotes
+      ? [
+          {
+            id: `rId${slides.length + 6}`,
+            type: `${REL_BASE}/notesMaster`,
+            target: "notesMasters/notesMaster1.xml",
+          },
+        ]
+      : []),
+  ];
+
+  const overrides: Record<string, string> = {
+    "/ppt/presentation.xml":
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml",
+    "/ppt/slideMasters/slideMaster1.xml":
+      "application/vnd.openxmlformats-officedocument.presentationml.slideMaster+xml",
+    "/ppt/slideLayouts/slideLayout1.xml":
+      "application/vnd.openxmlformats-officedocument.presentationml.slideLayout+xml",
+    "/ppt/theme/theme1.xml":
+      "application/vnd.openxmlformats-officedocument.theme+xml",
+    "/ppt/presProps.xml":
+      "application/vnd.openxmlformats-officedocument.presentationml.presProps+xml",
+    "/ppt/viewProps.xml":
+      "application/vnd.openxmlformats-officedocument.presentationml.viewProps+xml",
+    "/ppt/tableStyles.xml":
+      "application/vnd.openxmlformats-officedocument.presentationml.tableStyles+xml",
+    "/docProps/core.xml": CORE_PROPERTIES_TYPE,
+  };
+  slides.forEach((slide, i) => {
+    overrides[`/ppt/slides/slide${i + 1}.xml`] =
+      "application/vnd.openxmlformats-officedocument.presentationml.slide+xml";
+    if (slide.notes) {
+      overrides[`/ppt/notesSlides/notesSlide${i + 1}.xml`] =
+        "application/vnd.openxmlformats-officedocument.presentationml.notesSlide+xml";
+    }
+  });
+  if (hasNotes) {
+    overrides["/ppt/notesMasters/notesMaster1.xml"] =
+      "application/vnd.openxmlformats-officedocument.presentationml.notesMaster+xml";
+    overrides["/ppt/theme/theme2.xml"] =
+      "application/vnd.openxmlformats-officedocument.theme+xml";
+  }
+
+  const zip = new ZipWriter(outputPath);
+  await zip.addBuffer("[Content_Types].xml", contentTypes(overrides));
+  await zip.addBuffer(
+    "_rels/.rels",
+    relationships([
+      {
+        id: "rId1",
+        type: `${REL_BASE}/officeDocument`,
+        target: "ppt/presentation.xml",
+      },
+      { id: "rId2", type: CORE_PROPERTIES_REL, target: "docProps/core.xml" },
+    ]),
+  );
+  await zip.addBuffer("docProps/core.xml", coreProperties(slides[0].title));
+  await zip.addBuffer(
+    "ppt/presentation.xml",
+    XML_HEADER +
+      `<p:presentation ${PML_NAMESPACES} saveSubsetFonts="1">` +
+      '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>' +
+      (hasNotes
+        ? `<p:notesMasterIdLst><p:notesMasterId r:id="rId${slides.length + 6}"/></p:notesMasterIdLst>`
+        : "") +
+      `<p:sldIdLst>${slides.map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 2}"/>`).join("")}</p:sldIdLst>` +
+      `<p:sldSz cx="${SLIDE_WIDTH}" cy="${SLIDE_HEIGHT}"/><p:notesSz cx="6858000" cy="9144000"/>` +
+      "</p:presentation>",
+  );
+  await zip.addBuffer(
+    "ppt/_rels/presentation.xml.rels",
+    relationships(presentationRels),
+  );
+  await zip.addBuffer(
+    "ppt/presProps.xml",
+    XML_HEADER + `<p:presentationPr ${PML_NAMESPACES}/>`,
+  );
+  await zip.addBuffer(
+    "ppt/viewProps.xml",
+    XML_HEADER + `<p:viewPr ${PML_NAMESPACES}/>`,
+  );
+  await zip.addBuffer(
+    "ppt/tableStyles.xml",
+    XML_HEADER +
+      `<a:tblStyleLst xmlns:a="${NS_A}" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>`,
+  );
+  await zip.addBuffer("ppt/theme/theme1.xml", themeXml);
+  await zip.addBuffer(
+    "ppt/slideMasters/slideMaster1.xml",
+    XML_HEADER +
+      `<p:sldMaster ${PML_NAMESPACES}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${SPTREE_HEADER}</p:spTree></p:cSld>` +
+      CLR_MAP +
+      '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst>' +
+      "<p:txStyles>" +
+      '<p:titleStyle><a:lvl1pPr><a:defRPr sz="4400"><a:solidFill><a:schemeClr val="tx2"/></a:solidFill><a:latin typeface="+mj-lt"/></a:defRPr></a:lvl1pPr></p:titleStyle>' +
+      '<p:bodyStyle><a:lvl1pPr><a:defRPr sz="2000"><a:solidFill><a:schemeClr val="tx1"/></a:solidFill><a:latin typeface="+mn-lt"/></a:defRPr></a:lvl1pPr></p:bodyStyle>' +
+      '<p:otherStyle><a:lvl1pPr><a:defRPr sz="1800"><a:latin typeface="+mn-lt"/></a:defRPr></a:lvl1pPr></p:otherStyle>' +
+      "</p:txStyles></p:sldMaster>",
+  );
+  await zip.addBuffer(
+    "ppt/slideMasters/_rels/slideMaster1.xml.rels",
+    relationships([
+      {
+        id: "rId1",
+        type: `${REL_BASE}/slideLayout`,
+        target: "../slideLayouts/slideLayout1.xml",
+      },
+      { id: "rId2", type: `${REL_BASE}/theme`, target: "../theme/theme1.xml" },
+    ]),
+  );
+  await zip.addBuffer(
+    "ppt/slideLayouts/slideLayout1.xml",
+    XML_HEADER +
+      `<p:sldLayout ${PML_NAMESPACES} type="blank" preserve="1"><p:cSld name="Blank"><p:spTree>${SPTREE_HEADER}</p:spTree></p:cSld>` +
+      "<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>",
+  );
+  await zip.addBuffer(
+    "ppt/slideLayouts/_rels/slideLayout1.xml.rels",
+    relationships([
+      {
+        id: "rId1",
+        type: `${REL_BASE}/slideMaster`,
+        target: "../slideMasters/slideMaster1.xml",
+      },
+    ]),
+  );
+
+  for (const [i, builder] of built.entries()) {
+    await zip.addBuffer(
+      `ppt/slides/slide${i + 1}.xml`,
+      XML_HEADER +
+        `<p:sld ${PML_NAMESPACES}><p:cSld>${builder.background}<p:spTree>${SPTREE_HEADER}${builder.shapes.join("")}</p:spTree></p:cSld>` +
+        "<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>",
+    );
+    const notes = slides[i].notes;
+    await zip.addBuffer(
+      `ppt/slides/_rels/slide${i + 1}.xml.rels`,
+      relationships([
+        {
+          id: "rId1",
+          type: `${REL_BASE}/slideLayout`,
+          target: "../slideLayouts/slideLayout1.xml",
+        },
+        ...builder.imageRels.map((rel) => ({
+          ...rel,
+          type: `${REL_BASE}/image`,
+        })),
+        ...(notes
+          ? [
+              {
+                id: `rId${builder.imageRels.length + 2}`,
+                type: `${REL_BASE}/notesSlide`,
+                target: `../notesSlides/notesSlide${i + 1}.xml`,
+              },
+            ]
+          : []),
+      ]),
+    );
+    if (notes) {
+      await zip.addBuffer(
+        `ppt/notesSlides/notesSlide${i + 1}.xml`,
+        pptxNotes(notes),
+      );
+      await zip.addBuffer(
+        `ppt/notesSlides/_rels/notesSlide${i + 1}.xml.rels`,
+        relationships([
+          {
+            id: "rId1",
+            type: `${REL_BASE}/notesMaster`,
+            target: "../notesMasters/notesMaster1.xml",
+          },
+          {
+            id: "rId2",
+            type: `${REL_BASE}/slide`,
+            target: `../slides/slide${i + 1}.xml`,
+          },
+        ]),
+      );
+    }
+  }
+
+  if (hasNotes) {
+    await zip.addBuffer(
+      "ppt/notesMasters/notesMaster1.xml",
+      XML_HEADER +
+        `<p:notesMaster ${PML_NAMESPACES}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${SPTREE_HEADER}</p:spTree></p:cSld>${CLR_MAP}</p:notesMaster>`,
+    );
+    await zip.addBuffer(
+      "ppt/notesMasters/_rels/notesMaster1.xml.rels",
+      relationships([
+        {
+          id: "rId1",
+          type: `${REL_BASE}/theme`,
+          target: "../theme/theme2.xml",
+        },
+      ]),
+    );
+    await zip.addBuffer("ppt/theme/theme2.xml", themeXml);
+  }
+
+  for (const file of media.files) {
+    await zip.addBuffer(`ppt/media/${file.name}`, file.data);
+  }
+  await zip.finish();
+}
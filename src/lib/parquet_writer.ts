@@ -0,0 +1,438 @@
+/**
+ * Parquet Writer
+ * Writes flat, nullable columns to a Parquet file one row group at a time,
+ * using PLAIN encoding and GZIP-compressed data pages.
+ */
+
+import * as fs from "fs";
+import * as zlib from "zlib";
+import type { FieldType } from "@/types/scraper_types";
+
+const MAGIC = Buffer.from("PAR1", "ascii");
+
+const ParquetType = { BOOLEAN: 0, INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6 } as const;
+const ConvertedType = { UTF8: 0, TIMESTAMP_MILLIS: 9, JSON: 19 } as const;
+const Encoding = { PLAIN: 0, RLE: 3 } as const;
+const CODEC_GZIP = 2;
+const REPETITION_OPTIONAL = 1;
+const PAGE_TYPE_DATA = 0;
+
+export interface ParquetColumn {
+  name: string;
+  type: FieldType;
+}
+
+interface PhysicalColumn {
+  name: string;
+  type: number;
+  convertedType?: number;
+  /** Converts a non-null value; returns null when it can't be represented */
+  toValue: (value: any) => any;
+}
+
+interface ColumnChunkInfo {
+  offset: number;
+  numValues: number;
+  uncompressedSize: number;
+  compressedSize: number;
+}
+
+interface RowGroupInfo {
+  numRows: number;
+  totalByteSize: number;
+  columns: ColumnChunkInfo[];
+}
+
+// ============= Thrift compact protocol =============
+
+const CompactType = { I32: 5, I64: 6, BINARY: 8, LIST: 9, STRUCT: 12 } as const;
+
+type ThriftField =
+  | { id: number; type: "i32" | "i64"; value: number }
+  | { id: number; type: "string"; value: string }
+  | { id: number; type: "struct"; value: ThriftField[] }
+  | { id: number; type: "list<i32>"; value: number[] }
+  | { id: number; type: "list<string>"; value: string[] }
+  | { id: number; type: "list<struct>"; value: ThriftField[][] };
+
+class ThriftWriter {
+  private readonly bytes: number[] = [];
+
+  varint(value: number): void {
+    let n = value;
+    while (n >= 0x80) {
+      this.bytes.push(n % 0x80 | 0x80);
+      n = Math.floor(n / 0x80);
+    }
+    this.bytes.push(n);
+  }
+
+  zigzag(value: number): void {
+    this.varint(value >= 0 ? value * 2 : -value * 2 - 1);
+  }
+
+  binary(value: string): void {
+    const encoded = Buffer.from(value, "utf8");
+    this.varint(encoded.length);
+    this.bytes.push(...encoded);
+  }
+
+  listHeader(size: number, elementType: number): void {
+    if (size < 15) {
+      this.bytes.push((size << 4) | elementType);
+    } else {
+      this.bytes.push(0xf0 | elementType);
+      this.varint(size);
+    }
+  }
+
+  struct(fields: ThriftField[]): void {
+    let lastId = 0;
+    for (const field of fields) {
+      const compactType = {
+        i32: CompactType.I32,
+        i64: CompactType.I64,
+        string: CompactType.BINARY,
+        struct: CompactType.STRUCT,
+        "list<i32>": CompactType.LIST,
+        "list<string>": CompactType.LIST,
+        "list<struct>": CompactType.LIST,
+      }[field.type];
+      const delta = field.id - lastId;
+      if (delta > 0 && delta <= 15) {
+        this.bytes.push((delta << 4) | compactType);
+      } else {
+        this.bytes.push(compactType);
+        this.zigzag(field.id);
+      }
+      lastId = field.id;
+
+      switch (field.type) {
+        case "i32":
+        case "i64":
+          this.zigzag(field.value);
+          break;
+        case "string":
+          this.binary(field.value);
+          break;
+        case "struct":
+          this.struct(field.value);
+          break;
+        case "list<i32>":
+          this.listHeader(field.value.length, CompactType.I32);
+          field.value.forEach((value) => this.zigzag(value));
+          break;
+        case "list<string>":
+          this.listHeader(field.value.length, CompactType.BINARY);
+          field.value.forEach((value) => this.binary(value));
+          break;
+        case "list<struct>":
+          this.listHeader(field.value.length, CompactType.STRUCT);
+          field.value.forEach((value) => this.struct(value));
+          break;
+      }
+    }
+    this.bytes.push(0);
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.from(this.bytes);
+  }
+}
+
+function encodeStruct(fields: ThriftField[]): Buffer {
+  const writer = new ThriftWriter();
+  writer.struct(fields);
+  return writer.toBuffer();
+}
+
+// ============= Column encoding =============
+
+function toPhysicalColumn(column: ParquetColumn): PhysicalColumn {
+  switch (column.type) {
+    case "number":
+      return {
+        name: column.name,
+        type: ParquetType.DOUBLE,
+        toValue: (value) => {
+          const number =
+            typeof value === "number" ? value : parseFloat(String(value));
+          return Number.isFinite(number) ? number : null;
+        },
+      };
+    case "boolean":
+      return {
+        name: column.name,
+        type: ParquetType.BOOLEAN,
+        toValue: (value) =>
+          typeof value === "boolean"
+            ? value
+            : ["true", "1", "yes"].includes(String(value).toLowerCase()),
+      };
+    case "date":
+      return {
+        name: column.name,
+        type: ParquetType.INT64,
+        convertedType: ConvertedType.TIMESTAMP_MILLIS,
+        toValue: (value) => {
+          const time = new Date(value).getTime();
+          return Number.isFinite(time) ? time : null;
+        },
+      };
+    case "array":
+    case "object":
+      return {
+        name: column.name,
+        type: ParquetType.BYTE_ARRAY,
+        convertedType: ConvertedType.JSON,
+        toValue: (value) => Buffer.from(JSON.stringify(value), "utf8"),
+      };
+    default:
+      return {
+        name: column.name,
+        type: ParquetType.BYTE_ARRAY,
+        convertedType: ConvertedType.UTF8,
+        toValue: (value) =>
+          Buffer.from(
+            typeof value === "object" ? JSON.stringify(value) : String(value),
+            "utf8",
+          ),
+      };
+  }
+}
+
+/**
+ * Definition levels (bit width 1) as a single bit-packed RLE/hybrid run,
+ * prefixed with its byte length
+ */
+function encodeDefinitionLevels(defined: boolean[]): Buffer {
+  const groups = Math.ceil(defined.length / 8);
+  const header = new ThriftWriter();
+  header.varint((groups << 1) | 1);
+  const packed = Buffer.alloc(groups);
+  defined.forEach((isDefined, i) => {
+    if (isDefined) packed[i >> 3] |= 1 << (i & 7);
+  });
+  const body = Buffer.concat([header.toBuffer(), packed]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(body.length, 0);
+  return Buffer.concat([length, body]);
+}
+
+function encodePlainValues(type: number, values: any[]): Buffer {
+  switch (type) {
+    case ParquetType.BOOLEAN: {
+      const packed = Buffer.alloc(Math.ceil(values.length / 8));
+      values.forEach((value, i) => {
+        if (value) packed[i >> 3] |= 1 << (i & 7);
+      });
+      return packed;
+    }
+    case ParquetType.DOUBLE: {
+      const buffer = Buffer.alloc(values.length * 8);
+      values.forEach((value, i) => buffer.writeDoubleLE(value, i * 8));
+      return buffer;
+    }
+    case ParquetType.INT64: {
+      const buffer = Buffer.alloc(values.length * 8);
+      values.forEach((value, i) =>
+        buffer.writeBigInt64LE(BigInt(value), i * 8),
+      );
+      return buffer;
+    }
+    default: {
+      const parts: Buffer[] = [];
+      for (const value of values as Buffer[]) {
+        const length = Buffer.alloc(4);
+        length.writeUInt32LE(value.length, 0);
+        parts.push(length, value);
+      }
+      return Buffer.concat(parts);
+    }
+  }
+}
+
+// ============= Writer =============
+
+export class ParquetWriter {
+  private readonly columns: PhysicalColumn[];
+  private readonly rowGroups: RowGroupInfo[] = [];
+  private buffered: any[][];
+  private bufferedRows = 0;
+  private offset = 0;
+
+  private constructor(
+    private readonly fd: fs.promises.FileHandle,
+    columns: ParquetColumn[],
+    private readonly rowGroupSize: number,
+  ) {
+    this.columns = columns.map(toPhysicalColumn);
+    this.buffered = this.columns.map(() => []);
+  }
+
+  static async open(
+    filePath: string,
+    columns: ParquetColumn[],
+    rowGroupSize = 10_000,
+  ): Promise<ParquetWriter> {
+    if (columns.length === 0) {
+      throw new Error("Parquet files need at least one column");
+    }
+    const writer = new ParquetWriter(
+      await fs.promises.open(filePath, "w"),
+      columns,
+      rowGroupSize,
+    );
+    await writer.write(MAGIC);
+    return writer;
+  }
+
+  async appendRow(row: Record<string, any>): Promise<void> {
+    this.columns.forEach((column, i) => {
+      const value = row[column.name];
+      this.buffered[i].push(
+        value === null || value === undefined ? null : column.toValue(value),
+      );
+    });
+    this.bufferedRows++;
+    if (this.bufferedRows >= this.rowGroupSize) {
+      await this.flushRowGroup();
+    }
+  }
+
+  async close(): Promise<void> {
+    try {
+      await this.flushRowGroup();
+      const footer = encodeStruct([
+        { id: 1, type: "i32", value: 1 },
+        {
+          id: 2,
+          type: "list<struct>",
+          value: [
+            [
+              { id: 4, type: "string", value: "schema" },
+              { id: 5, type: "i32", value: this.columns.length },
+            ],
+            ...this.columns.map((column): ThriftField[] => [
+              { id: 1, type: "i32", value: column.type },
+              { id: 3, type: "i32", value: REPETITION_OPTIONAL },
+              { id: 4, type: "string", value: column.name },
+              ...(column.convertedType !== undefined
+                ? [
+                    {
+                      id: 6,
+                      type: "i32",
+                      value: column.convertedType,
+                    } as ThriftField,
+                  ]
+                : []),
+            ]),
+          ],
+        },
+        {
+          id: 3,
+          type: "i64",
+          value: this.rowGroups.reduce((sum, group) => sum + group.numRows, 0),
+        },
+        {
+          id: 4,
+          type: "list<struct>",
+          value: this.rowGroups.map((group): ThriftField[] => [
+            {
+              id: 1,
+              type: "list<struct>",
+              value: group.columns.map((chunk, i): ThriftField[] => [
+                { id: 2, type: "i64", value: chunk.offset },
+                {
+                  id: 3,
+                  type: "struct",
+                  value: [
+                    { id: 1, type: "i32", value: this.columns[i].type },
+                    {
+                      id: 2,
+                      type: "list<i32>",
+                      value: [Encoding.PLAIN, Encoding.RLE],
+                    },
+                    {
+                      id: 3,
+                      type: "list<string>",
+                      value: [this.columns[i].name],
+                    },
+                    { id: 4, type: "i32", value: CODEC_GZIP },
+                    { id: 5, type: "i64", value: chunk.numValues },
+                    { id: 6, type: "i64", value: chunk.uncompressedSize },
+                    { id: 7, type: "i64", value: chunk.compressedSize },
+                    { id: 9, type: "i64", value: chunk.offset },
+                  ],
+                },
+              ]),
+            },
+            { id: 2, type: "i64", value: group.totalByteSize },
+            { id: 3, type: "i64", value: group.numRows },
+          ]),
+        },
+        { id: 6, type: "string", value: "joycreate" },
+      ]);
+      const length = Buffer.alloc(4);
+      length.writeUInt32LE(footer.length, 0);
+      await this.write(Buffer.concat([footer, length, MAGIC]));
+    } finally {
+      await this.fd.close();
+    }
+  }
+
+  private async flushRowGroup(): Promise<void> {
+    if (this.bufferedRows === 0) return;
+
+    const group: RowGroupInfo = {
+      numRows: this.bufferedRows,
+      totalByteSize: 0,
+      columns: [],
+    };
+    for (let i = 0; i < this.columns.length; i++) {
+      const values = this.buffered[i];
+      const page = Buffer.concat([
+        encodeDefinitionLevels(values.map((value) => value !== null)),
+        encodePlainValues(
+          this.columns[i].type,
+          values.filter((value) => value !== null),
+        ),
+      ]);
+      const compressed = zlib.gzipSync(page);
+      const header = encodeStruct([
+        { id: 1, type: "i32", value: PAGE_TYPE_DATA },
+        { id: 2, type: "i32", value: page.length },
+        { id: 3, type: "i32", value: compressed.length },
+        {
+          id: 5,
+          type: "struct",
+          value: [
+            { id: 1, type: "i32", value: values.length },
+            { id: 2, type: "i32", value: Encoding.PLAIN },
+            { id: 3, type: "i32", value: Encoding.RLE },
+            { id: 4, type: "i32", value: Encoding.RLE },
+          ],
+        },
+      ]);
+
+      const offset = this.offset;
+      await this.write(Buffer.concat([header, compressed]));
+      group.columns.push({
+        offset,
+        numValues: values.length,
+        uncompressedSize: header.length + page.length,
+        compressedSize: header.length + compressed.length,
+      });
+      group.totalByteSize += header.length + page.length;
+    }
+
+    this.rowGroups.push(group);
+    this.buffered = this.columns.map(() => []);
+    this.bufferedRows = 0;
+  }
+
+  private async write(data: Buffer): Promise<void> {
+    await this.fd.write(data, 0, data.length, this.offset);
+    this.offset += data.length;
+  }
+}
@@ -271,6 +271,9 @@ export const UserSettingsSchema = z.object({
   enableProSmartFilesContextMode: z.boolean().optional(),
   enableProWebSearch: z.boolean().optional(),
   proSmartContextOption: SmartContextModeSchema.optional(),
+  enableLocalSmartContext: z.boolean().optional(),
+  // Ollama model for ranking files by similarity; keyword and import-graph ranking only when unset
+  localSmartContextEmbeddingModel: z.string().optional(),
   selectedTemplateId: z.string(),
   enableSupabaseWriteSqlMigration: z.boolean().optional(),
   selectedChatMode: ChatModeSchema.optional(),
@@ -278,6 +281,9 @@ export const UserSettingsSchema = z.object({
   zoomLevel: ZoomLevelSchema.optional(),
 
   enableAutoFixProblems: z.boolean().optional(),
+  enableChatBranches: z.boolean().optional(),
+  // Serve inference routed from federation peers; off unless the user opts in
+  enableFederatedCompute: z.boolean().optional(),
   enableNativeGit: z.boolean().optional(),
   enableAutoUpdate: z.boolean(),
   releaseChannel: ReleaseChannelSchema,
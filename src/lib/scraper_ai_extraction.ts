@@ -0,0 +1,259 @@
+/**
+ * Scraper AI Extraction
+ * Builds the typed output schema and prompt for LLM extraction of
+ * `ScrapingField`s, and merges model output with selector results.
+ */
+
+import type { JSONSchema7 } from "ai";
+import type { ScrapingField } from "@/types/scraper_types";
+
+/** Fields below this confidence fall back to their selector */
+export const DEFAULT_MIN_FIELD_CONFIDENCE = 0.6;
+
+/** Page text sent to the model is cut to this many characters */
+const MAX_PAGE_CHARS = 24_000;
+
+/** Output budget for one page's extraction unless the config sets one */
+export const DEFAULT_EXTRACTION_MAX_TOKENS = 2_000;
+
+export const AI_EXTRACTION_SYSTEM_PROMPT =
+  "You extract structured data from web pages. Only report values that appear on the page. " +
+  "For every field return the value (or null when it is missing) and a confidence between 0 and 1 " +
+  "that the value is correct.";
+
+export interface NormalizedAIExtraction {
+  data: Record<string, any>;
+  fieldConfidence: Record<string, number>;
+  /** Mean confidence across fields */
+  confidence: number;
+}
+
+export interface MergedExtraction {
+  data: Record<string, any>;
+  /** Fields whose selector value replaced a low-confidence AI value */
+  fallbackFields: string[];
+}
+
+function valueSchema(field: ScrapingField): JSONSchema7 {
+  switch (field.type) {
+    case "number":
+      return { type: ["number", "null"] };
+    case "boolean":
+      return { type: ["boolean", "null"] };
+    case "array":
+      return {
+        type: ["array", "null"],
+        items: field.nested?.length
+          ? objectSchema(field.nested)
+          : { type: "string" },
+      };
+    case "object":
+      return field.nested?.length
+        ? { anyOf: [objectSchema(field.nested), { type: "null" }] }
+        : { type: ["object", "null"] };
+    case "url":
+    case "image":
+      return { type: ["string", "null"], description: "Absolute URL" };
+    case "date":
+      return { type: ["string", "null"], description: "ISO 8601 date" };
+    default:
+      return { type: ["string", "null"] };
+  }
+}
+
+function objectSchema(fields: ScrapingField[]): JSONSchema7 {
+  return {
+    type: "object",
+    properties: Object.fromEntries(
+      fields.map((field) => [field.name, valueSchema(field)]),
+    ),
+    required: fields.map((field) => field.name),
+    additionalProperties: false,
+  };
+}
+
+/**
+ * JSON schema for the model's output: one `{ value, confidence }` entry
+ * per field.
+ */
+export function buildExtractionSchema(fields: ScrapingField[]): JSONSchema7 {
+  return {
+    type: "object",
+    properties: Object.fromEntries(
+      fields.map((field) => [
+        field.name,
+        {
+          type: "object",
+          properties: {
+            value: valueSchema(field),
+            confidence: { type: "number", minimum: 0, maximum: 1 },
+          },
+          required: ["value", "confidence"],
+          additionalProperties: false,
+        },
+      ]),
+    ),
+    required: fields.map((field) => field.name),
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Reduces a page to the markup the model needs: scripts, styles and
+ * comments are dropped and only link, image and date attributes are kept.
+ */
+export function prepareHtmlForExtraction(
+  html: string,
+  maxChars = MAX_PAGE_CHARS,
+): string {
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  const cleaned = body
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(
+      /<(script|style|noscript|svg|iframe|template)\b[\s\S]*?<\/\1>/gi,
+      "",
+    )
+    .replace(
+      /<(\/?)([a-z][a-z0-9-]*)\b([^>]*)>/gi,
+      (_, slash: string, tag: string, attrs: string) => {
+        const kept = Array.from(
+          attrs.matchAll(
+            /\b(href|src|alt|title|datetime|content)\s*=\s*("[^"]*"|'[^']*')/gi,
+          ),
+        )
+          .map((m) => ` ${m[1].toLowerCase()}=${m[2]}`)
+          .join("");
+        return `<${slash}${tag.toLowerCase()}${kept}>`;
+      },
+    )
+    .replace(/\s+/g, " ")
+    .trim();
+  return cleaned.length > maxChars ? cleaned.slice(0, maxChars) : cleaned;
+}
+
+function describeField(field: ScrapingField, indent = ""): string {
+  const hint =
+    field.selectorType === "ai-extract" ? field.selector : field.transform;
+  const lines = [
+    `${indent}- ${field.name} (${field.type}${field.required ? ", required" : ""})${hint ? `: ${hint}` : ""}`,
+  ];
+  for (const nested of field.nested ?? []) {
+    lines.push(describeField(nested, `${indent}  `));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Prompt describing the fields to extract. For `ai-extract` fields the
+ * selector holds a natural-language description.
+ */
+export function buildExtractionPrompt(
+  fields: ScrapingField[],
+  pageUrl: string,
+  pageHtml: string,
+  instructions?: string,
+): string {
+  return [
+    instructions?.trim(),
+    `Extract these fields from the page at ${pageUrl}:`,
+    fields.map((field) => describeField(field)).join("\n"),
+    "Resolve relative URLs against the page URL.",
+    "Page:",
+    pageHtml,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+function coerceValue(value: unknown, field: ScrapingField): any {
+  if (value === null || value === undefined || value === "") return null;
+  switch (field.type) {
+    case "number": {
+      const number =
+        typeof value === "number"
+          ? value
+          : parseFloat(String(value).replace(/[^0-9.-]/g, ""));
+      return Number.isFinite(number) ? number : null;
+    }
+    case "boolean":
+      return typeof value === "boolean"
+        ? value
+        : ["true", "1", "yes"].includes(String(value).toLowerCase());
+    case "array":
+      return Array.isArray(value) ? value : [value];
+    case "object":
+      return typeof value === "object" ? value : null;
+    default:
+      return typeof value === "string" ? value.trim() : String(value);
+  }
+}
+
+/**
+ * Coerces model output to the field types, clamping confidences. Missing
+ * fields, and required fields without a value, get zero confidence.
+ */
+export function normalizeAIExtraction(
+  output: unknown,
+  fields: ScrapingField[],
+): NormalizedAIExtraction {
+  const raw = (output && typeof output === "object" ? output : {}) as Record<
+    string,
+    any
+  >;
+  const data: Record<string, any> = {};
+  const fieldConfidence: Record<string, number> = {};
+
+  for (const field of fields) {
+    const entry = raw[field.name];
+    const value = coerceValue(entry?.value, field);
+    const confidence = Number(entry?.confidence);
+    data[field.name] = value ?? field.defaultValue ?? null;
+    fieldConfidence[field.name] =
+      value === null || !Number.isFinite(confidence)
+        ? 0
+        : Math.min(1, Math.max(0, confidence));
+  }
+
+  const scores = Object.values(fieldConfidence);
+  return {
+    data,
+    fieldConfidence,
+    confidence:
+      scores.length > 0
+        ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+        : 0,
+  };
+}
+
+/**
+ * Takes each field from the model when it is confident enough and from
+ * the field's CSS/XPath selector otherwise. `ai-extract` fields have no
+ * selector, so they keep the model's value.
+ */
+export function mergeWithSelectorFallback(
+  ai: Pick<NormalizedAIExtraction, "data" | "fieldConfidence">,
+  selectorData: Record<string, any>,
+  fields: ScrapingField[],
+  minConfidence = DEFAULT_MIN_FIELD_CONFIDENCE,
+): MergedExtraction {
+  const data: Record<string, any> = {};
+  const fallbackFields: string[] = [];
+
+  for (const field of fields) {
+    const aiValue = ai.data[field.name];
+    const confident = (ai.fieldConfidence[field.name] ?? 0) >= minConfidence;
+    const selectorValue = selectorData[field.name];
+    if (
+      (!confident || aiValue === null) &&
+      field.selectorType !== "ai-extract" &&
+      selectorValue != null
+    ) {
+      data[field.name] = selectorValue;
+      fallbackFields.push(field.name);
+    } else {
+      data[field.name] = aiValue ?? null;
+    }
+  }
+
+  return { data, fallbackFields };
+}
@@ -0,0 +1,290 @@
+/**
+ * Scraper Crawler
+ * URL frontier, link discovery, sitemap parsing and robots.txt rules for
+ * crawl-mode scraping jobs.
+ */
+
+import type { CrawlFrontierState, ScrapingConfig } from "@/types/scraper_types";
+
+export interface CrawlTarget {
+  url: string;
+  depth: number;
+}
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  /** Seconds between requests requested by the site */
+  crawlDelay?: number;
+  sitemaps: string[];
+}
+
+export interface ParsedSitemap {
+  /** Page URLs from a `<urlset>` */
+  urls: string[];
+  /** Child sitemaps from a `<sitemapindex>` */
+  sitemaps: string[];
+}
+
+/**
+ * Resolves a URL against a base and normalizes it for deduplication:
+ * fragments are dropped and only http(s) URLs are kept.
+ */
+export function normalizeUrl(url: string, base?: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim(), base);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return null;
+  }
+  parsed.hash = "";
+  return parsed.toString();
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'");
+}
+
+/**
+ * Extracts the links from anchor tags, honouring `<base href>` and
+ * `rel="nofollow"`.
+ */
+export function extractLinks(html: string, pageUrl: string): string[] {
+  const baseMatch = html.match(/<base\s[^>]*href\s*=\s*["']([^"']+)["']/i);
+  const base =
+    (baseMatch && normalizeUrl(decodeEntities(baseMatch[1]), pageUrl)) ||
+    pageUrl;
+
+  const links: string[] = [];
+  const anchorRegex = /<a\s[^>]*>/gi;
+  let match;
+  while ((match = anchorRegex.exec(html)) !== null) {
+    const tag = match[0];
+    if (/\brel\s*=\s*["'][^"']*\bnofollow\b/i.test(tag)) continue;
+    const hrefMatch = tag.match(
+      /\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i,
+    );
+    const href = hrefMatch && (hrefMatch[1] ?? hrefMatch[2] ?? hrefMatch[3]);
+    if (!href) continue;
+    const url = normalizeUrl(decodeEntities(href), base);
+    if (url) links.push(url);
+  }
+  return links;
+}
+
+/**
+ * Parses a sitemap or sitemap index document.
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  const locs = (block: string) =>
+    Array.from(
+      block.matchAll(
+        /<loc>\s*(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?\s*<\/loc>/gi,
+      ),
+    )
+      .map((m) => normalizeUrl(decodeEntities(m[1])))
+      .filter((url): url is string => !!url);
+
+  const sitemaps = Array.from(
+    xml.matchAll(/<sitemap>([\s\S]*?)<\/sitemap>/gi),
+  ).flatMap((m) => locs(m[1]));
+  const urls = Array.from(xml.matchAll(/<url>([\s\S]*?)<\/url>/gi)).flatMap(
+    (m) => locs(m[1]),
+  );
+  return { urls, sitemaps };
+}
+
+/**
+ * Parses robots.txt, keeping the group that best matches the user agent
+ * (falling back to `*`).
+ */
+export function parseRobotsTxt(
+  content: string,
+  userAgent: string,
+): RobotsRules {
+  const agent = userAgent.toLowerCase();
+  const groups: Array<{ agents: string[]; rules: RobotsRules }> = [];
+  const sitemaps: string[] = [];
+  let current: { agents: string[]; rules: RobotsRules } | null = null;
+  let readingAgents = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator <= 0) continue;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === "sitemap") {
+      const url = normalizeUrl(value);
+      if (url) sitemaps.push(url);
+      continue;
+    }
+    if (key === "user-agent") {
+      if (!current || !readingAgents) {
+        current = {
+          agents: [],
+          rules: { allow: [], disallow: [], sitemaps: [] },
+        };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      readingAgents = true;
+      continue;
+    }
+    readingAgents = false;
+    if (!current) continue;
+
+    if (key === "allow" && value) {
+      current.rules.allow.push(value);
+    } else if (key === "disallow" && value) {
+      current.rules.disallow.push(value);
+    } else if (key === "crawl-delay") {
+      const delay = parseFloat(value);
+      if (!isNaN(delay)) current.rules.crawlDelay = delay;
+    }
+  }
+
+  // The longest product token contained in our user agent wins
+  let best: { agents: string[]; rules: RobotsRules } | undefined;
+  let bestLength = -1;
+  for (const group of groups) {
+    for (const name of group.agents) {
+      const length = name === "*" ? 0 : agent.includes(name) ? name.length : -1;
+      if (length > bestLength) {
+        best = group;
+        bestLength = length;
+      }
+    }
+  }
+
+  return { ...(best?.rules ?? { allow: [], disallow: [] }), sitemaps };
+}
+
+function robotsPatternLength(pattern: string, target: string): number {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`).test(target)
+    ? pattern.length
+    : -1;
+}
+
+/**
+ * Rules for a robots.txt fetch, following RFC 9309: a 2xx body is parsed,
+ * a missing file (4xx) allows everything, and a server error (5xx) or no
+ * response at all means the whole site is disallowed.
+ */
+export function getRobotsRulesForResponse(
+  response: { status: number; body: string } | null,
+  userAgent: string,
+): RobotsRules {
+  if (!response || response.status >= 500) {
+    return { allow: [], disallow: ["/"], sitemaps: [] };
+  }
+  if (response.status >= 200 && response.status < 300) {
+    return parseRobotsTxt(response.body, userAgent);
+  }
+  return { allow: [], disallow: [], sitemaps: [] };
+}
+
+/**
+ * Checks a URL against robots rules. The most specific matching rule
+ * wins, and `Allow` wins ties.
+ */
+export function isAllowedByRobots(rules: RobotsRules, url: string): boolean {
+  const parsed = new URL(url);
+  const target = `${parsed.pathname}${parsed.search}`;
+  const longest = (patterns: string[]) =>
+    Math.max(
+      -1,
+      ...patterns.map((pattern) => robotsPatternLength(pattern, target)),
+    );
+  return longest(rules.allow) >= longest(rules.disallow);
+}
+
+function matchesUrlPattern(url: string, pattern: string): boolean {
+  if (!pattern.includes("*")) return url.includes(pattern);
+  const regex = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(regex).test(url);
+}
+
+/**
+ * Whether a URL passes the config's include/exclude filters. Patterns
+ * match as substrings, with `*` as a wildcard.
+ */
+export function passesUrlFilters(
+  url: string,
+  filters: ScrapingConfig["urlFilters"],
+): boolean {
+  if (filters?.exclude?.some((pattern) => matchesUrlPattern(url, pattern))) {
+    return false;
+  }
+  if (filters?.include?.length) {
+    return filters.include.some((pattern) => matchesUrlPattern(url, pattern));
+  }
+  return true;
+}
+
+/**
+ * Breadth-first queue of URLs to crawl. Every URL is queued at most once,
+ * and the state can be saved to resume an interrupted crawl.
+ */
+export class CrawlFrontier {
+  private readonly queue: CrawlTarget[] = [];
+  private readonly seen = new Set<string>();
+
+  constructor(state?: CrawlFrontierState) {
+    for (const url of state?.visited ?? []) {
+      this.seen.add(url);
+    }
+    for (const target of state?.pending ?? []) {
+      this.add(target.url, target.depth);
+    }
+  }
+
+  /**
+   * Queue a URL unless it was already seen. Returns whether it was added.
+   */
+  add(url: string, depth: number): boolean {
+    const normalized = normalizeUrl(url);
+    if (!normalized || this.seen.has(normalized)) return false;
+    this.seen.add(normalized);
+    this.queue.push({ url: normalized, depth });
+    return true;
+  }
+
+  next(): CrawlTarget | undefined {
+    return this.queue.shift();
+  }
+
+  get size(): number {
+    return this.queue.length;
+  }
+
+  /** URLs seen so far, queued or not */
+  get seenCount(): number {
+    return this.seen.size;
+  }
+
+  toJSON(): CrawlFrontierState {
+    const pending = new Set(this.queue.map((target) => target.url));
+    return {
+      pending: [...this.queue],
+      visited: Array.from(this.seen).filter((url) => !pending.has(url)),
+    };
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * Local smart context: picks the files relevant to a prompt so models that
+ * don't go through the Pro engine still get a focused codebase extract.
+ *
+ * Files are scored on what the prompt mentions (paths, names and words that
+ * appear in them), optionally on embedding similarity, and then on their
+ * neighbours in the import graph. The highest scoring files are taken until
+ * the token budget runs out.
+ */
+
+import path from "node:path";
+
+export interface SmartContextFile {
+  path: string;
+  content: string;
+  // Auto-includes from the chat context
+  force?: boolean;
+  // Files of components selected in the preview
+  focused?: boolean;
+}
+
+export interface SelectedContextFile {
+  path: string;
+  reason: string;
+  tokens: number;
+}
+
+export interface SmartContextSelection {
+  files: SelectedContextFile[];
+  // Relevant files that didn't fit in the budget
+  skippedForBudget: string[];
+  usedTokens: number;
+  budgetTokens: number;
+}
+
+export const DEFAULT_PATH_ALIASES: Record<string, string> = { "@/": "src/" };
+
+const RESOLVE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
+const ENTRY_POINTS = ["src/App.tsx", "src/main.tsx", "src/App.jsx"];
+
+const MENTION_SCORE = 10;
+const PATH_TERM_SCORE = 3;
+const CONTENT_TERM_SCORE = 1;
+const ENTRY_POINT_SCORE = 2;
+const SIMILARITY_SCORE = 8;
+const MIN_SIMILARITY = 0.3;
+// Share of a file's own score passed to the files it imports or is imported by
+const NEIGHBOR_SHARE = 0.4;
+
+const STOP_WORDS = new Set([
+  "the",
+  "and",
+  "for",
+  "with",
+  "this",
+  "that",
+  "from",
+  "into",
+  "make",
+  "add",
+  "fix",
+  "change",
+  "update",
+  "please",
+  "should",
+  "can",
+  "could",
+  "would",
+  "when",
+  "what",
+  "how",
+  "not",
+  "but",
+  "are",
+  "use",
+  "using",
+  "app",
+  "new",
+  "all",
+  "some",
+  "there",
+  "have",
+  "has",
+  "its",
+  "it's",
+  "also",
+  "want",
+  "need",
+]);
+
+const IMPORT_PATTERNS = [
+  /\b(?:import|export)\s+(?:type\s+)?(?:[^'"`;]*?\s+from\s+)?["']([^"']+)["']/g,
+  /\bimport\(\s*["']([^"']+)["']\s*\)/g,
+  /\brequire\(\s*["']([^"']+)["']\s*\)/g,
+];
+
+export function extractImportSpecifiers(content: string): string[] {
+  const specifiers = new Set<string>();
+  for (const pattern of IMPORT_PATTERNS) {
+    for (const match of content.matchAll(pattern)) {
+      specifiers.add(match[1]);
+    }
+  }
+  return [...specifiers];
+}
+
+function resolveSpecifier(
+  specifier: string,
+  fromPath: string,
+  paths: Set<string>,
+  aliases: Record<string, string>,
+): string | null {
+  let base: string | null = null;
+  if (specifier.startsWith(".")) {
+    base = path.posix.join(path.posix.dirname(fromPath), specifier);
+  } else {
+    for (const [alias, target] of Object.entries(aliases)) {
+      if (specifier.startsWith(alias)) {
+        base = path.posix.join(target, specifier.slice(alias.length));
+        break;
+      }
+    }
+  }
+  if (base === null) return null;
+
+  const candidates = [
+    base,
+    ...RESOLVE_EXTENSIONS.map((ext) => `${base}${ext}`),
+    ...RESOLVE_EXTENSIONS.map((ext) => `${base}/index${ext}`),
+  ];
+  return candidates.find((candidate) => paths.has(candidate)) ?? null;
+}
+
+/**
+ * Map each file to the app files it imports. Packages and anything that
+ * doesn't resolve to a file in the list are ignored.
+ */
+export function buildImportGraph(
+  files: SmartContextFile[],
+  aliases: Record<string, string> = DEFAULT_PATH_ALIASES,
+): Map<string, Set<string>> {
+  const paths = new Set(files.map((file) => file.path));
+  const graph = new Map<string, Set<string>>();
+  for (const file of files) {
+    const imports = new Set<string>();
+    for (const specifier of extractImportSpecifiers(file.content)) {
+      const resolved = resolveSpecifier(specifier, file.path, paths, aliases);
+      if (resolved && resolved !== file.path) {
+        imports.add(resolved);
+      }
+    }
+    graph.set(file.path, imports);
+  }
+  return graph;
+}
+
+export function extractPromptTerms(prompt: string): string[] {
+  const words = prompt
+    // Split camelCase so "CheckoutButton" also matches "checkout"
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9']+/);
+  return [
+    ...new Set(
+      words.filter((word) => word.length >= 3 && !STOP_WORDS.has(word)),
+    ),
+  ];
+}
+
+function isMentioned(filePath: string, prompt: string): boolean {
+  const lowerPrompt = prompt.toLowerCase();
+  if (lowerPrompt.includes(filePath.toLowerCase())) return true;
+
+  const name = path.posix.basename(filePath, path.posix.extname(filePath));
+  if (name.length < 4 || name.toLowerCase() === "index") return false;
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`\\b${escaped}\\b`, "i").test(prompt);
+}
+
+interface Contribution {
+  score: number;
+  reason: string;
+}
+
+function addContribution(
+  scores: Map<string, Contribution[]>,
+  filePath: string,
+  contribution: Contribution,
+) {
+  if (contribution.score <= 0) return;
+  const list = scores.get(filePath) ?? [];
+  list.push(contribution);
+  scores.set(filePath, list);
+}
+
+function total(contributions: Contribution[] | undefined): number {
+  return (contributions ?? []).reduce((sum, c) => sum + c.score, 0);
+}
+
+export function selectSmartContextFiles(
+  files: SmartContextFile[],
+  options: {
+    prompt: string;
+    budgetTokens: number;
+    estimateTokens: (text: string) => number;
+    // Embedding similarity of each file to the prompt, from 0 to 1
+    similarities?: Map<string, number>;
+    aliases?: Record<string, string>;
+  },
+): SmartContextSelection {
+  const terms = extractPromptTerms(options.prompt);
+  const scores = new Map<string, Contribution[]>();
+
+  for (const file of files) {
+    if (isMentioned(file.path, options.prompt)) {
+      addContribution(scores, file.path, {
+        score: MENTION_SCORE,
+        reason: "mentioned in the prompt",
+      });
+    }
+
+    const lowerPath = file.path.toLowerCase();
+    const pathTerms = terms.filter((term) => lowerPath.includes(term));
+    addContribution(scores, file.path, {
+      score: pathTerms.length * PATH_TERM_SCORE,
+      reason: `path matches ${pathTerms.map((t) => `"${t}"`).join(", ")}`,
+    });
+
+    const lowerContent = file.content.toLowerCase();
+    const contentTerms = terms.filter(
+      (term) => !pathTerms.includes(term) && lowerContent.includes(term),
+    );
+    addContribution(scores, file.path, {
+      score: contentTerms.length * CONTENT_TERM_SCORE,
+      reason: `contains ${contentTerms
+        .slice(0, 3)
+        .map((t) => `"${t}"`)
+        .join(", ")}`,
+    });
+
+    const similarity = options.similarities?.get(file.path) ?? 0;
+    if (similarity >= MIN_SIMILARITY) {
+      addContribution(scores, file.path, {
+        score: similarity * SIMILARITY_SCORE,
+        reason: `similar to the prompt (${similarity.toFixed(2)})`,
+      });
+    }
+
+    if (ENTRY_POINTS.includes(file.path)) {
+      addContribution(scores, file.path, {
+        score: ENTRY_POINT_SCORE,
+        reason: "app entry point",
+      });
+    }
+  }
+
+  // Spread one hop through the import graph, based on the direct scores only
+  const graph = buildImportGraph(files, options.aliases);
+  const directScores = new Map(
+    [...scores].map(([filePath, list]) => [filePath, total(list)]),
+  );
+  for (const [filePath, score] of directScores) {
+    for (const imported of graph.get(filePath) ?? []) {
+      addContribution(scores, imported, {
+        score: score * NEIGHBOR_SHARE,
+        reason: `imported by ${filePath}`,
+      });
+    }
+  }
+  for (const [importer, imports] of graph) {
+    for (const imported of imports) {
+      const score = directScores.get(imported);
+      if (score) {
+        addContribution(scores, importer, {
+          score: score * NEIGHBOR_SHARE,
+          reason: `imports ${imported}`,
+        });
+      }
+    }
+  }
+
+  const pinnedReason = (file: SmartContextFile) =>
+    file.focused ? "selected component" : file.force ? "auto-include" : null;
+  const candidates = files
+    .filter((file) => pinnedReason(file) || total(scores.get(file.path)) > 0)
+    .map((file) => {
+      const contributions = scores.get(file.path) ?? [];
+      const strongest = [...contributions].sort((a, b) => b.score - a.score)[0];
+      return {
+        file,
+        pinned: pinnedReason(file) !== null,
+        score: total(contributions),
+        reason: pinnedReason(file) ?? strongest.reason,
+      };
+    })
+    .sort(
+      (a, b) =>
+        Number(b.pinned) - Number(a.pinned) ||
+        b.score - a.score ||
+        a.file.path.localeCompare(b.file.path),
+    );
+
+  const selected: SelectedContextFile[] = [];
+  const skippedForBudget: string[] = [];
+  let usedTokens = 0;
+  for (const { file, pinned, reason } of candidates) {
+    const tokens = options.estimateTokens(file.content);
+    // Pinned files are always sent; everything else has to fit
+    if (!pinned && usedTokens + tokens > options.budgetTokens) {
+      skippedForBudget.push(file.path);
+      continue;
+    }
+    selected.push({ path: file.path, reason, tokens });
+    usedTokens += tokens;
+  }
+
+  return {
+    files: selected,
+    skippedForBudget,
+    usedTokens,
+    budgetTokens: options.budgetTokens,
+  };
+}
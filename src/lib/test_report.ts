@@ -0,0 +1,233 @@
+/**
+ * Test runner detection and report parsing for the local agent's run_tests
+ * tool. Vitest and Jest both write the same JSON report shape
+ * (`--reporter=json` / `--json`), so one parser covers both.
+ */
+
+import path from "node:path";
+
+export type TestRunner = "vitest" | "jest";
+
+export const MAX_REPORTED_FAILURES = 20;
+const MAX_FAILURE_MESSAGE_CHARS = 2_000;
+const MAX_FAILURE_MESSAGE_LINES = 30;
+
+const ANSI_PATTERN = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, "g");
+
+interface PackageJsonLike {
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+/**
+ * Pick the test runner an app uses. Installed packages win over the test
+ * script, since scripts often wrap the runner in other tooling.
+ */
+export function detectTestRunner(
+  packageJson: PackageJsonLike,
+): TestRunner | null {
+  const deps = {
+    ...packageJson.dependencies,
+    ...packageJson.devDependencies,
+  };
+  if (deps.vitest) return "vitest";
+  if (deps.jest) return "jest";
+
+  const testScript = packageJson.scripts?.test ?? "";
+  if (/\bvitest\b/.test(testScript)) return "vitest";
+  if (/\bjest\b/.test(testScript)) return "jest";
+  return null;
+}
+
+export function quoteShellArg(arg: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(arg)) return arg;
+  if (process.platform === "win32") {
+    return `"${arg.replace(/"/g, '""')}"`;
+  }
+  return `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Build a single run (never watch mode) that writes a JSON report to
+ * `outputFile`.
+ */
+export function buildTestCommand(
+  runner: TestRunner,
+  options: { outputFile: string; files?: string[]; testNamePattern?: string },
+): string {
+  const args =
+    runner === "vitest"
+      ? [
+          "vitest",
+          "run",
+          "--reporter=json",
+          `--outputFile=${options.outputFile}`,
+        ]
+      : ["jest", "--json", `--outputFile=${options.outputFile}`];
+  args.push(...(options.files ?? []));
+  if (options.testNamePattern) {
+    args.push("-t", options.testNamePattern);
+  }
+  return ["npx", ...args.map(quoteShellArg)].join(" ");
+}
+
+export interface TestFailure {
+  file: string;
+  testName: string | null;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface TestReport {
+  runner: TestRunner;
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  failures: TestFailure[];
+}
+
+interface JsonAssertionResult {
+  ancestorTitles?: string[];
+  title?: string;
+  fullName?: string;
+  status?: string;
+  failureMessages?: string[] | null;
+  location?: { line: number; column: number } | null;
+}
+
+interface JsonTestFileResult {
+  name: string;
+  status?: string;
+  message?: string;
+  assertionResults?: JsonAssertionResult[];
+}
+
+interface JsonTestReport {
+  numTotalTests?: number;
+  numPassedTests?: number;
+  numFailedTests?: number;
+  numPendingTests?: number;
+  numTodoTests?: number;
+  testResults?: JsonTestFileResult[];
+}
+
+function cleanFailureMessage(message: string): string {
+  const lines = message
+    .replace(ANSI_PATTERN, "")
+    .split(/\r?\n/)
+    // Runner internals add nothing the agent can act on
+    .filter((line) => !/^\s*at .*node_modules/.test(line));
+  let cleaned = lines.slice(0, MAX_FAILURE_MESSAGE_LINES).join("\n").trim();
+  if (cleaned.length > MAX_FAILURE_MESSAGE_CHARS) {
+    cleaned = `${cleaned.slice(0, MAX_FAILURE_MESSAGE_CHARS)}…`;
+  }
+  return cleaned;
+}
+
+/**
+ * Jest doesn't report where a test failed, but the stack trace does: take
+ * the first frame that points into the test file itself.
+ */
+function findLocationInStack(
+  message: string,
+  absolutePath: string,
+): { line: number; column: number } | undefined {
+  const escaped = absolutePath.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = new RegExp(`${escaped}:(\\d+):(\\d+)`).exec(
+    message.replace(ANSI_PATTERN, ""),
+  );
+  return match
+    ? { line: Number(match[1]), column: Number(match[2]) }
+    : undefined;
+}
+
+export function parseTestReport(
+  runner: TestRunner,
+  json: string,
+  rootDir: string,
+): TestReport {
+  const report = JSON.parse(json) as JsonTestReport;
+  const failures: TestFailure[] = [];
+
+  for (const file of report.testResults ?? []) {
+    const relative = path
+      .relative(rootDir, file.name)
+      .split(path.sep)
+      .join("/");
+    const failedAssertions = (file.assertionResults ?? []).filter(
+      (a) => a.status === "failed",
+    );
+
+    // The file failed without any test failing: it didn't compile or import
+    if (failedAssertions.length === 0 && file.status === "failed") {
+      failures.push({
+        file: relative,
+        testName: null,
+        message: cleanFailureMessage(file.message || "Test file failed to run"),
+      });
+      continue;
+    }
+
+    for (const assertion of failedAssertions) {
+      const rawMessage = (assertion.failureMessages ?? []).join("\n");
+      const location =
+        assertion.location ?? findLocationInStack(rawMessage, file.name);
+      failures.push({
+        file: relative,
+        testName:
+          assertion.fullName ||
+          [...(assertion.ancestorTitles ?? []), assertion.title ?? ""]
+            .filter(Boolean)
+            .join(" > "),
+        message: cleanFailureMessage(rawMessage),
+        ...(location ? { line: location.line, column: location.column } : {}),
+      });
+    }
+  }
+
+  return {
+    runner,
+    total: report.numTotalTests ?? 0,
+    passed: report.numPassedTests ?? 0,
+    failed: report.numFailedTests ?? 0,
+    skipped: (report.numPendingTests ?? 0) + (report.numTodoTests ?? 0),
+    failures,
+  };
+}
+
+export function formatTestReport(report: TestReport): string {
+  const counts = [
+    report.failed && `${report.failed} failed`,
+    `${report.passed} passed`,
+    report.skipped && `${report.skipped} skipped`,
+  ].filter(Boolean);
+  const out = [
+    `${report.runner}: ${counts.join(", ")} (${report.total} total)`,
+  ];
+
+  if (report.failures.length === 0) {
+    out.push(report.total === 0 ? "No tests were found." : "All tests passed.");
+    return out.join("\n");
+  }
+
+  for (const failure of report.failures.slice(0, MAX_REPORTED_FAILURES)) {
+    const location =
+      failure.line !== undefined
+        ? `${failure.file}:${failure.line}:${failure.column ?? 1}`
+        : failure.file;
+    const title = failure.testName
+      ? `FAIL ${failure.testName} (${location})`
+      : `FAIL ${location} (test file failed to run)`;
+    out.push("", title, failure.message);
+  }
+  if (report.failures.length > MAX_REPORTED_FAILURES) {
+    out.push(
+      "",
+      `(Showing the first ${MAX_REPORTED_FAILURES} of ${report.failures.length} failures.)`,
+    );
+  }
+  return out.join("\n");
+}
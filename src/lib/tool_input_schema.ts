@@ -0,0 +1,85 @@
+/**
+ * Tool Input Schema
+ * Validation of agent tool inputs against their ToolInputSchema
+ */
+
+import type {
+  ToolInputSchema,
+  ToolParameterSchema,
+} from "@/types/agent_builder";
+
+export interface ToolInputValidationResult {
+  valid: boolean;
+  errors: string[];
+  // Input with schema defaults applied
+  value: Record<string, unknown>;
+}
+
+/**
+ * Validates `input` against a tool's schema and fills in declared defaults.
+ * Tools without a schema accept any object.
+ */
+export function validateToolInput(
+  schema: ToolInputSchema | null | undefined,
+  input: unknown,
+): ToolInputValidationResult {
+  if (!isPlainObject(input)) {
+    return {
+      valid: false,
+      errors: ["Input must be an object"],
+      value: {},
+    };
+  }
+  if (!schema) {
+    return { valid: true, errors: [], value: input };
+  }
+
+  const errors: string[] = [];
+  const value: Record<string, unknown> = { ...input };
+
+  for (const [name, parameter] of Object.entries(schema.properties ?? {})) {
+    if (value[name] === undefined && parameter.default !== undefined) {
+      value[name] = parameter.default;
+    }
+  }
+  for (const name of schema.required ?? []) {
+    if (value[name] === undefined || value[name] === null) {
+      errors.push(`Missing required parameter "${name}"`);
+    }
+  }
+  for (const [name, parameter] of Object.entries(schema.properties ?? {})) {
+    if (value[name] !== undefined && value[name] !== null) {
+      validateParameter(parameter, value[name], name, errors);
+    }
+  }
+
+  return { valid: errors.length === 0, errors, value };
+}
+
+function validateParameter(
+  schema: ToolParameterSchema,
+  value: unknown,
+  path: string,
+  errors: string[],
+): void {
+  const actual = Array.isArray(value) ? "array" : typeof value;
+  if (actual !== schema.type) {
+    errors.push(`"${path}" must be of type ${schema.type}, got ${actual}`);
+    return;
+  }
+  if (schema.type === "number" && !Number.isFinite(value)) {
+    errors.push(`"${path}" must be a finite number`);
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    errors.push(`"${path}" must be one of: ${schema.enum.join(", ")}`);
+  }
+  if (schema.type === "array" && schema.items) {
+    (value as unknown[]).forEach((item, i) =>
+      validateParameter(schema.items!, item, `${path}[${i}]`, errors),
+    );
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,176 @@
+/**
+ * Zip Writer
+ * Streams a ZIP archive to disk. Entries are deflated as they are added,
+ * so large files never have to be held in memory.
+ */
+
+import * as fs from "fs";
+import * as zlib from "zlib";
+import { once } from "events";
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Continues a CRC-32 over another chunk. Start with `crc = 0`.
+ */
+export function crc32(data: Uint8Array, crc = 0): number {
+  let c = (crc ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  dosTime: number;
+  dosDate: number;
+}
+
+/** Archives beyond this size need ZIP64, which the writer doesn't emit */
+const MAX_ZIP_SIZE = 0xffffffff;
+
+export class ZipWriter {
+  private readonly output: fs.WriteStream;
+  private readonly entries: ZipEntry[] = [];
+  private offset = 0;
+
+  constructor(outputPath: string) {
+    this.output = fs.createWriteStream(outputPath);
+  }
+
+  /**
+   * Add an entry from memory.
+   */
+  async addBuffer(name: string, data: Buffer | string): Promise<void> {
+    const bytes = typeof data === "string" ? Buffer.from(data, "utf8") : data;
+    await this.addStream(name, [bytes]);
+  }
+
+  /**
+   * Add an entry by streaming a file from disk.
+   */
+  async addFile(name: string, filePath: string): Promise<void> {
+    await this.addStream(name, fs.createReadStream(filePath));
+  }
+
+  private async addStream(
+    name: string,
+    source: AsyncIterable<Buffer> | Iterable<Buffer>,
+  ): Promise<void> {
+    const now = new Date();
+    const entry: ZipEntry = {
+      name: Buffer.from(name, "utf8"),
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset: this.offset,
+      dosTime:
+        (now.getHours() << 11) |
+        (now.getMinutes() << 5) |
+        Math.floor(now.getSeconds() / 2),
+      dosDate:
+        ((now.getFullYear() - 1980) << 9) |
+        ((now.getMonth() + 1) << 5) |
+        now.getDate(),
+    };
+
+    // Sizes and CRC follow the data in a descriptor (flag bit 3)
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(0x0808, 6); // data descriptor + UTF-8 names
+    header.writeUInt16LE(8, 8); // deflate
+    header.writeUInt16LE(entry.dosTime, 10);
+    header.writeUInt16LE(entry.dosDate, 12);
+    header.writeUInt16LE(entry.name.length, 26);
+    await this.write(header);
+    await this.write(entry.name);
+
+    const deflate = zlib.createDeflateRaw();
+    const compressed = (async () => {
+      for await (const chunk of deflate) {
+        entry.compressedSize += chunk.length;
+        await this.write(chunk);
+      }
+    })();
+    for await (const chunk of source) {
+      entry.crc = crc32(chunk, entry.crc);
+      entry.size += chunk.length;
+      if (!deflate.write(chunk)) {
+        await once(deflate, "drain");
+      }
+    }
+    deflate.end();
+    await compressed;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.write(descriptor);
+
+    this.entries.push(entry);
+  }
+
+  /**
+   * Write the central directory and close the file.
+   */
+  async finish(): Promise<void> {
+    const directoryOffset = this.offset;
+    for (const entry of this.entries) {
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(0x02014b50, 0);
+      record.writeUInt16LE(20, 4);
+      record.writeUInt16LE(20, 6);
+      record.writeUInt16LE(0x0808, 8);
+      record.writeUInt16LE(8, 10);
+      record.writeUInt16LE(entry.dosTime, 12);
+      record.writeUInt16LE(entry.dosDate, 14);
+      record.writeUInt32LE(entry.crc, 16);
+      record.writeUInt32LE(entry.compressedSize, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(entry.name.length, 28);
+      record.writeUInt32LE(entry.offset, 42);
+      await this.write(record);
+      await this.write(entry.name);
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await this.write(end);
+
+    this.output.end();
+    await once(this.output, "finish");
+  }
+
+  private async write(data: Buffer): Promise<void> {
+    if (this.offset + data.length > MAX_ZIP_SIZE) {
+      this.output.destroy();
+      throw new Error("Archive exceeds the 4 GB ZIP limit");
+    }
+    this.offset += data.length;
+    if (!this.output.write(data)) {
+      await once(this.output, "drain");
+    }
+  }
+}
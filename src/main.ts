@@ -16,6 +16,8 @@ import { handleDyadProReturn } from "./main/pro";
 import { IS_TEST_BUILD } from "./ipc/utils/test_utils";
 import { BackupManager } from "./backup_manager";
 import { getDatabasePath, initializeDatabase } from "./db";
+import { stopLocalAgentDeployments } from "./ipc/utils/agent_deployment_utils";
+import { stopFederationNetwork } from "./ipc/handlers/federation_handlers";
 import { UserSettings } from "./lib/schemas";
 import { handleNeonOAuthReturn } from "./neon_admin/neon_return_handler";
 import {
@@ -461,6 +463,12 @@ app.on("will-quit", () => {
   // Stop performance monitoring and capture final metrics
   stopPerformanceMonitoring();
 
+  // Local agent deployments are child processes of the app
+  stopLocalAgentDeployments();
+  stopFederationNetwork().catch((error) =>
+    logger.warn("Failed to stop federation network:", error),
+  );
+
   writeSettings({ isRunning: false });
 });
 
@@ -22,6 +22,7 @@ import {
   Code,
   FileText,
   ChevronRight,
+  RefreshCw,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -62,6 +63,10 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 
+import { WorkflowRunPanel } from "@/components/agent-builder/WorkflowRunPanel";
+import { KnowledgeSourceDialog } from "@/components/agent-builder/KnowledgeSourceDialog";
+import { ToolApprovalDialog } from "@/components/agent-builder/ToolApprovalDialog";
+import { ToolTestPanel } from "@/components/agent-builder/ToolTestPanel";
 import { agentBuilderClient } from "@/ipc/agent_builder_client";
 import { showError, showSuccess } from "@/lib/toast";
 
@@ -73,6 +78,8 @@ import type {
   AgentUIComponent,
   UpdateAgentRequest,
   CreateAgentToolRequest,
+  UpdateAgentToolRequest,
+  DeploymentTarget,
 } from "@/types/agent_builder";
 
 export default function AgentEditorPage() {
@@ -95,6 +102,8 @@ export default function AgentEditorPage() {
   const [newToolName, setNewToolName] = useState("");
   const [newToolDescription, setNewToolDescription] = useState("");
   const [newToolCode, setNewToolCode] = useState("");
+  const [newToolRequiresApproval, setNewToolRequiresApproval] = useState(false);
+  const [testingToolId, setTestingToolId] = useState<number | null>(null);
 
   // Fetch agent data
   const { data: agent, isLoading: agentLoading } = useQuery({
@@ -122,6 +131,8 @@ export default function AgentEditorPage() {
     queryKey: ["agent-knowledge-bases", agentId],
     queryFn: () => agentBuilderClient.getKnowledgeBases(Number(agentId)),
     enabled: !!agentId,
+    refetchInterval: (query) =>
+      query.state.data?.some((kb) => kb.indexStatus === "indexing") ? 2000 : false,
   });
 
   // Fetch UI components
@@ -131,6 +142,19 @@ export default function AgentEditorPage() {
     enabled: !!agentId,
   });
 
+  // Fetch deployments, polling while any is in progress
+  const { data: deployments = [] } = useQuery({
+    queryKey: ["agent-deployments", agentId],
+    queryFn: () => agentBuilderClient.getAgentDeployments(Number(agentId)),
+    enabled: !!agentId,
+    refetchInterval: (query) =>
+      query.state.data?.some((d) =>
+        ["pending", "building", "deploying"].includes(d.status)
+      )
+        ? 2000
+        : false,
+  });
+
   // Update form when agent loads
   useEffect(() => {
     if (agent) {
@@ -166,12 +190,24 @@ export default function AgentEditorPage() {
       setNewToolName("");
       setNewToolDescription("");
       setNewToolCode("");
+      setNewToolRequiresApproval(false);
     },
     onError: (error) => {
       showError(`Failed to create tool: ${error.message}`);
     },
   });
 
+  // Update tool mutation
+  const updateToolMutation = useMutation({
+    mutationFn: (request: UpdateAgentToolRequest) => agentBuilderClient.updateAgentTool(request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["agent-tools", agentId] });
+    },
+    onError: (error) => {
+      showError(`Failed to update tool: ${error.message}`);
+    },
+  });
+
   // Delete tool mutation
   const deleteToolMutation = useMutation({
     mutationFn: (toolId: number) => agentBuilderClient.deleteAgentTool(toolId),
@@ -184,6 +220,52 @@ export default function AgentEditorPage() {
     },
   });
 
+  // Knowledge base mutations
+  const reindexKnowledgeBaseMutation = useMutation({
+    mutationFn: (kbId: number) => agentBuilderClient.indexKnowledgeBase(kbId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["agent-knowledge-bases", agentId] });
+    },
+    onError: (error) => {
+      showError(`Failed to index knowledge base: ${error.message}`);
+    },
+  });
+
+  const deleteKnowledgeBaseMutation = useMutation({
+    mutationFn: (kbId: number) => agentBuilderClient.deleteKnowledgeBase(kbId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["agent-knowledge-bases", agentId] });
+      showSuccess("Knowledge base deleted");
+    },
+    onError: (error) => {
+      showError(`Failed to delete knowledge base: ${error.message}`);
+    },
+  });
+
+  // Deploy mutations
+  const deployMutation = useMutation({
+    mutationFn: (target: DeploymentTarget) =>
+      agentBuilderClient.deployAgent({ agentId: Number(agentId), target }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["agent-deployments", agentId] });
+      showSuccess("Deployment started");
+    },
+    onError: (error) => {
+      showError(`Failed to deploy agent: ${error.message}`);
+    },
+  });
+
+  const stopDeploymentMutation = useMutation({
+    mutationFn: (deploymentId: number) => agentBuilderClient.stopDeployment(deploymentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["agent-deployments", agentId] });
+      showSuccess("Deployment stopped");
+    },
+    onError: (error) => {
+      showError(`Failed to stop deployment: ${error.message}`);
+    },
+  });
+
   const handleSave = () => {
     updateAgentMutation.mutate({
       id: Number(agentId),
@@ -202,6 +284,7 @@ export default function AgentEditorPage() {
       name: newToolName,
       description: newToolDescription,
       implementationCode: newToolCode,
+      requiresApproval: newToolRequiresApproval,
     });
   };
 
@@ -230,6 +313,7 @@ export default function AgentEditorPage() {
 
   return (
     <div className="flex flex-col h-full">
+      <ToolApprovalDialog agentId={Number(agentId)} />
       {/* Header */}
       <div className="border-b p-4">
         <div className="flex items-center justify-between">
@@ -466,6 +550,18 @@ export default function AgentEditorPage() {
                           className="mt-1 font-mono text-sm"
                           rows={10}
                         />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Runs as the body of an async function in a sandbox. The tool
+                          arguments are available as <code>input</code>; return the result.
+                        </p>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="tool-requires-approval">Require approval before running</Label>
+                        <Switch
+                          id="tool-requires-approval"
+                          checked={newToolRequiresApproval}
+                          onCheckedChange={setNewToolRequiresApproval}
+                        />
                       </div>
                     </div>
                     <DialogFooter>
@@ -504,7 +600,25 @@ export default function AgentEditorPage() {
                             <CardDescription>{tool.description}</CardDescription>
                           </div>
                           <div className="flex items-center gap-2">
-                            <Switch checked={tool.enabled} />
+                            {tool.requiresApproval && (
+                              <Badge variant="secondary">Approval</Badge>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() =>
+                                setTestingToolId(testingToolId === tool.id ? null : tool.id)
+                              }
+                            >
+                              <Play className="h-4 w-4 mr-1" />
+                              Test
+                            </Button>
+                            <Switch
+                              checked={tool.enabled}
+                              onCheckedChange={(enabled) =>
+                                updateToolMutation.mutate({ id: tool.id, enabled })
+                              }
+                            />
                             <Button
                               variant="ghost"
                               size="icon"
@@ -516,6 +630,11 @@ export default function AgentEditorPage() {
                           </div>
                         </div>
                       </CardHeader>
+                      {testingToolId === tool.id && (
+                        <CardContent className="pt-0">
+                          <ToolTestPanel tool={tool} />
+                        </CardContent>
+                      )}
                     </Card>
                   ))}
                 </div>
@@ -552,7 +671,7 @@ export default function AgentEditorPage() {
               ) : (
                 <div className="space-y-2">
                   {workflows.map((workflow) => (
-                    <Card key={workflow.id} className="cursor-pointer hover:shadow-md transition-shadow">
+                    <Card key={workflow.id} className="hover:shadow-md transition-shadow">
                       <CardHeader className="py-3">
                         <div className="flex items-center justify-between">
                           <div>
@@ -562,6 +681,9 @@ export default function AgentEditorPage() {
                           <ChevronRight className="h-4 w-4 text-muted-foreground" />
                         </div>
                       </CardHeader>
+                      <CardContent className="pt-0">
+                        <WorkflowRunPanel workflow={workflow} />
+                      </CardContent>
                     </Card>
                   ))}
                 </div>
@@ -579,10 +701,7 @@ export default function AgentEditorPage() {
                     Add documents and data for RAG capabilities
                   </p>
                 </div>
-                <Button>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Source
-                </Button>
+                <KnowledgeSourceDialog agentId={Number(agentId)} />
               </div>
 
               {knowledgeBases.length === 0 ? (
@@ -600,8 +719,32 @@ export default function AgentEditorPage() {
                   {knowledgeBases.map((kb) => (
                     <Card key={kb.id}>
                       <CardHeader>
-                        <CardTitle className="text-base">{kb.name}</CardTitle>
-                        <CardDescription>{kb.description}</CardDescription>
+                        <div className="flex items-start justify-between">
+                          <div>
+                            <CardTitle className="text-base">{kb.name}</CardTitle>
+                            <CardDescription>{kb.description ?? kb.sourceType}</CardDescription>
+                          </div>
+                          <div className="flex gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Re-index"
+                              disabled={kb.indexStatus === "indexing"}
+                              onClick={() => reindexKnowledgeBaseMutation.mutate(kb.id)}
+                            >
+                              <RefreshCw
+                                className={`h-4 w-4 ${kb.indexStatus === "indexing" ? "animate-spin" : ""}`}
+                              />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => deleteKnowledgeBaseMutation.mutate(kb.id)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
                       </CardHeader>
                       <CardContent>
                         <div className="flex items-center justify-between text-sm">
@@ -609,11 +752,20 @@ export default function AgentEditorPage() {
                             {kb.documentCount} documents
                           </span>
                           <Badge
-                            variant={kb.indexStatus === "indexed" ? "default" : "secondary"}
+                            variant={
+                              kb.indexStatus === "indexed"
+                                ? "default"
+                                : kb.indexStatus === "failed"
+                                  ? "destructive"
+                                  : "secondary"
+                            }
                           >
                             {kb.indexStatus}
                           </Badge>
                         </div>
+                        {kb.indexError && (
+                          <p className="text-sm text-destructive mt-2">{kb.indexError}</p>
+                        )}
                       </CardContent>
                     </Card>
                   ))}
@@ -692,30 +844,94 @@ export default function AgentEditorPage() {
                     title: "Vercel",
                     description: "Deploy to Vercel Edge Functions",
                     icon: "▲",
+                    comingSoon: true,
                   },
                   {
                     id: "aws",
                     title: "AWS Lambda",
                     description: "Deploy to AWS Lambda",
                     icon: "☁️",
+                    comingSoon: true,
                   },
                 ].map((option) => (
                   <Card
                     key={option.id}
-                    className="cursor-pointer hover:shadow-md transition-shadow"
+                    className={
+                      option.comingSoon
+                        ? "opacity-60"
+                        : "cursor-pointer hover:shadow-md transition-shadow"
+                    }
+                    onClick={() => {
+                      if (!option.comingSoon && !deployMutation.isPending) {
+                        deployMutation.mutate(option.id as DeploymentTarget);
+                      }
+                    }}
                   >
                     <CardHeader>
                       <div className="flex items-center gap-4">
                         <span className="text-2xl">{option.icon}</span>
-                        <div>
+                        <div className="flex-1">
                           <CardTitle className="text-base">{option.title}</CardTitle>
                           <CardDescription>{option.description}</CardDescription>
                         </div>
+                        {option.comingSoon ? (
+                          <Badge variant="secondary">Coming soon</Badge>
+                        ) : (
+                          <Rocket className="h-4 w-4 text-muted-foreground" />
+                        )}
                       </div>
                     </CardHeader>
                   </Card>
                 ))}
               </div>
+
+              {deployments.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="font-medium">Deployments</h3>
+                  {deployments.map((deployment) => (
+                    <Card key={deployment.id}>
+                      <CardContent className="flex items-center justify-between py-3">
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium capitalize">{deployment.target}</span>
+                            <Badge
+                              variant={
+                                deployment.status === "deployed"
+                                  ? "default"
+                                  : deployment.status === "failed"
+                                    ? "destructive"
+                                    : "secondary"
+                              }
+                            >
+                              {deployment.status}
+                            </Badge>
+                          </div>
+                          {deployment.endpoint && deployment.status === "deployed" && (
+                            <p className="text-sm text-muted-foreground font-mono">
+                              {deployment.endpoint}
+                            </p>
+                          )}
+                          {deployment.error && (
+                            <p className="text-sm text-destructive truncate">
+                              {deployment.error}
+                            </p>
+                          )}
+                        </div>
+                        {["building", "deploying", "deployed"].includes(deployment.status) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => stopDeploymentMutation.mutate(deployment.id)}
+                            disabled={stopDeploymentMutation.isPending}
+                          >
+                            Stop
+                          </Button>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
             </div>
           )}
         </div>
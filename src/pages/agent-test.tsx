@@ -22,6 +22,8 @@ import {
   XCircle,
   ChevronDown,
   ChevronRight,
+  History,
+  Repeat,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -43,11 +45,17 @@ import {
 } from "@/components/ui/collapsible";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 
+import { ToolApprovalDialog } from "@/components/agent-builder/ToolApprovalDialog";
 import { agentBuilderClient } from "@/ipc/agent_builder_client";
 import { showError, showSuccess } from "@/lib/toast";
 import { cn } from "@/lib/utils";
 
-import type { AgentTestMessage, AgentToolCall } from "@/types/agent_builder";
+import type {
+  AgentTestMessage,
+  AgentToolCall,
+  ReplayTestSessionResult,
+  TokenUsage,
+} from "@/types/agent_builder";
 
 interface Message {
   id: string;
@@ -56,6 +64,13 @@ interface Message {
   timestamp: Date;
   toolCalls?: AgentToolCall[];
   isStreaming?: boolean;
+  latencyMs?: number;
+  tokenUsage?: TokenUsage;
+  error?: string;
+}
+
+function toMessage(message: AgentTestMessage): Message {
+  return { ...message, timestamp: new Date(message.timestamp) };
 }
 
 export default function AgentTestPage() {
@@ -66,6 +81,8 @@ export default function AgentTestPage() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [sessionId, setSessionId] = useState<number | undefined>();
+  const [replayResult, setReplayResult] = useState<ReplayTestSessionResult | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
@@ -83,6 +100,26 @@ export default function AgentTestPage() {
     enabled: !!agentId,
   });
 
+  // Fetch saved test sessions
+  const { data: sessions = [] } = useQuery({
+    queryKey: ["agent-test-sessions", agentId],
+    queryFn: () => agentBuilderClient.getTestSessions(Number(agentId)),
+    enabled: !!agentId,
+  });
+  const currentSession = sessions.find((s) => s.id === sessionId);
+
+  const replayMutation = useMutation({
+    mutationFn: (id: number) => agentBuilderClient.replayTestSession(id),
+    onSuccess: (result) => {
+      setReplayResult(result);
+      queryClient.invalidateQueries({ queryKey: ["agent-test-sessions", agentId] });
+      showSuccess("Session replayed");
+    },
+    onError: (error) => {
+      showError(`Failed to replay session: ${error.message}`);
+    },
+  });
+
   // Scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -121,8 +158,12 @@ export default function AgentTestPage() {
     ]);
 
     try {
-      // Simulate streaming response (replace with actual agent execution)
-      const response = await simulateAgentResponse(userMessage.content, agent);
+      const response = await agentBuilderClient.sendTestMessage({
+        agentId: Number(agentId),
+        message: userMessage.content,
+        sessionId,
+      });
+      setSessionId(response.sessionId);
 
       // Update message with response
       setMessages((prev) =>
@@ -130,15 +171,19 @@ export default function AgentTestPage() {
           msg.id === assistantMessageId
             ? {
                 ...msg,
-                content: response.content,
+                content: response.response,
                 toolCalls: response.toolCalls,
                 isStreaming: false,
+                latencyMs: response.metrics?.averageResponseTime,
+                tokenUsage: response.metrics?.tokenUsage,
+                error: response.error,
               }
             : msg
         )
       );
+      queryClient.invalidateQueries({ queryKey: ["agent-test-sessions", agentId] });
     } catch (error) {
-      showError("Failed to get response from agent");
+      showError(error);
       // Remove streaming placeholder on error
       setMessages((prev) => prev.filter((msg) => msg.id !== assistantMessageId));
     } finally {
@@ -155,6 +200,16 @@ export default function AgentTestPage() {
 
   const handleClearChat = () => {
     setMessages([]);
+    setSessionId(undefined);
+    setReplayResult(null);
+  };
+
+  const handleOpenSession = (id: number) => {
+    const session = sessions.find((s) => s.id === id);
+    if (!session) return;
+    setSessionId(session.id);
+    setMessages((session.messages ?? []).map(toMessage));
+    setReplayResult(null);
   };
 
   const handleCopyChat = () => {
@@ -169,11 +224,17 @@ export default function AgentTestPage() {
     const chatData = {
       agentId: agent?.id,
       agentName: agent?.name,
+      sessionId,
+      agentVersion: currentSession?.agentVersion,
+      metrics: currentSession?.metrics,
       messages: messages.map((msg) => ({
         role: msg.role,
         content: msg.content,
         timestamp: msg.timestamp.toISOString(),
         toolCalls: msg.toolCalls,
+        latencyMs: msg.latencyMs,
+        tokenUsage: msg.tokenUsage,
+        error: msg.error,
       })),
       exportedAt: new Date().toISOString(),
     };
@@ -210,6 +271,7 @@ export default function AgentTestPage() {
 
   return (
     <div className="flex flex-col h-full">
+      <ToolApprovalDialog agentId={Number(agentId)} />
       {/* Header */}
       <div className="border-b p-4">
         <div className="flex items-center justify-between">
@@ -280,6 +342,12 @@ export default function AgentTestPage() {
                   <MessageBubble key={message.id} message={message} />
                 ))
               )}
+              {replayResult && (
+                <ReplayComparison
+                  result={replayResult}
+                  onClose={() => setReplayResult(null)}
+                />
+              )}
               <div ref={messagesEndRef} />
             </div>
           </ScrollArea>
@@ -373,8 +441,74 @@ export default function AgentTestPage() {
                     )}
                   </span>
                 </div>
+                {currentSession?.metrics?.averageResponseTime !== undefined && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Avg Latency</span>
+                    <span>{currentSession.metrics.averageResponseTime} ms</span>
+                  </div>
+                )}
+                {currentSession?.metrics?.tokenUsage && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Tokens</span>
+                    <span>{currentSession.metrics.tokenUsage.total}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Errors</span>
+                  <span>{currentSession?.metrics?.errorCount ?? 0}</span>
+                </div>
               </div>
             </div>
+
+            <div>
+              <h3 className="font-medium mb-2 flex items-center gap-2">
+                <History className="h-4 w-4" />
+                Saved Sessions ({sessions.length})
+              </h3>
+              {sessions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No saved sessions</p>
+              ) : (
+                <div className="space-y-1">
+                  {sessions.map((session) => (
+                    <div
+                      key={session.id}
+                      className={cn(
+                        "flex items-center justify-between gap-2 text-sm p-2 rounded bg-background",
+                        session.id === sessionId && "ring-1 ring-primary"
+                      )}
+                    >
+                      <button
+                        className="min-w-0 flex-1 text-left"
+                        onClick={() => handleOpenSession(session.id)}
+                      >
+                        <div className="truncate">
+                          #{session.id}
+                          {session.agentVersion && ` · v${session.agentVersion}`}
+                          {session.replayOfSessionId && ` · replay of #${session.replayOfSessionId}`}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {session.metrics?.totalMessages ?? 0} messages
+                        </div>
+                      </button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        title={`Replay against v${agent.version}`}
+                        disabled={replayMutation.isPending || !session.metrics?.totalMessages}
+                        onClick={() => replayMutation.mutate(session.id)}
+                      >
+                        {replayMutation.isPending && replayMutation.variables === session.id ? (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        ) : (
+                          <Repeat className="h-3 w-3" />
+                        )}
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -410,6 +544,8 @@ function MessageBubble({ message }: { message: Message }) {
               <Loader2 className="h-4 w-4 animate-spin" />
               <span>Thinking...</span>
             </div>
+          ) : message.error ? (
+            <div className="text-red-500">Error: {message.error}</div>
           ) : (
             <div className="whitespace-pre-wrap">{message.content}</div>
           )}
@@ -474,6 +610,8 @@ function MessageBubble({ message }: { message: Message }) {
 
         <div className="text-xs text-muted-foreground">
           {message.timestamp.toLocaleTimeString()}
+          {message.latencyMs !== undefined && ` · ${message.latencyMs} ms`}
+          {message.tokenUsage && ` · ${message.tokenUsage.total} tokens`}
         </div>
       </div>
 
@@ -488,37 +626,60 @@ function MessageBubble({ message }: { message: Message }) {
   );
 }
 
-// Simulated agent response (replace with actual agent execution)
-async function simulateAgentResponse(
-  userMessage: string,
-  agent: any
-): Promise<{ content: string; toolCalls?: AgentToolCall[] }> {
-  // Simulate network delay
-  await new Promise((resolve) => setTimeout(resolve, 1000 + Math.random() * 2000));
-
-  // Simple mock response based on agent type
-  const responses: Record<string, string> = {
-    chatbot: `I understand you're asking about: "${userMessage}"\n\nAs a ${agent?.name || "chatbot"}, I'm here to help! This is a test response. In a real deployment, I would use my configured model and tools to provide a more relevant response.`,
-    task: `Analyzing your request: "${userMessage}"\n\nI'll break this down into steps and execute them. This is a simulated response for testing purposes.`,
-    rag: `Searching knowledge base for: "${userMessage}"\n\nBased on the available documents, here's what I found... (simulated response)`,
-    workflow: `Starting workflow for: "${userMessage}"\n\nExecuting workflow steps... (simulated response)`,
-    "multi-agent": `Coordinating agents for: "${userMessage}"\n\nDelegating to specialized agents... (simulated response)`,
-  };
-
-  // Simulate tool call for demonstration
-  const toolCalls: AgentToolCall[] = [];
-  if (userMessage.toLowerCase().includes("weather")) {
-    toolCalls.push({
-      id: `tool-${Date.now()}`,
-      name: "get_weather",
-      input: { location: "San Francisco" },
-      output: { temperature: 68, condition: "Sunny" },
-      status: "completed",
-    });
-  }
-
-  return {
-    content: responses[agent?.type || "chatbot"] || responses.chatbot,
-    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-  };
+function ReplayComparison({
+  result,
+  onClose,
+}: {
+  result: ReplayTestSessionResult;
+  onClose: () => void;
+}) {
+  return (
+    <Card>
+      <CardHeader className="py-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-base">
+              Replay #{result.session.id}
+              {result.session.agentVersion && ` (v${result.session.agentVersion})`}
+            </CardTitle>
+            <CardDescription>
+              Compared against session #{result.session.replayOfSessionId}
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <XCircle className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {result.comparisons.map((comparison, index) => (
+          <div key={index} className="space-y-2 text-sm">
+            <div className="font-medium">{comparison.input}</div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="rounded bg-muted p-2">
+                <div className="text-xs text-muted-foreground mb-1">
+                  Original
+                  {comparison.originalToolCalls.length > 0 &&
+                    ` · ${comparison.originalToolCalls.join(", ")}`}
+                </div>
+                <div className="whitespace-pre-wrap">
+                  {comparison.originalResponse ?? "(no response)"}
+                </div>
+              </div>
+              <div className="rounded bg-muted p-2">
+                <div className="text-xs text-muted-foreground mb-1">
+                  Replay
+                  {comparison.replayToolCalls.length > 0 &&
+                    ` · ${comparison.replayToolCalls.join(", ")}`}
+                  {comparison.latencyDeltaMs !== undefined &&
+                    ` · ${comparison.latencyDeltaMs > 0 ? "+" : ""}${comparison.latencyDeltaMs} ms`}
+                </div>
+                <div className="whitespace-pre-wrap">{comparison.replayResponse}</div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
 }
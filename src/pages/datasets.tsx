@@ -6,10 +6,12 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { scraperClient } from "@/ipc/scraper_client";
+import { PipelinesPanel } from "@/components/datasets/PipelinesPanel";
 import type {
   ScrapingConfig,
   ScrapingJob,
   Dataset,
+  DatasetFormat,
   DatasetPreview,
   ScrapingField,
   ScrapingTemplate,
@@ -20,6 +22,7 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Select,
@@ -80,6 +83,7 @@ import {
   Upload,
   Zap,
   Target,
+  Workflow,
 } from "lucide-react";
 
 export default function DatasetPage() {
@@ -130,6 +134,12 @@ export default function DatasetPage() {
     refetchInterval: 2000,
   });
 
+  // Fetch pipelines
+  const { data: pipelines = [] } = useQuery({
+    queryKey: ["scraper-pipelines"],
+    queryFn: () => scraperClient.listPipelines(),
+  });
+
   // Fetch templates
   const { data: templates = [] } = useQuery({
     queryKey: ["scraper-templates"],
@@ -162,6 +172,27 @@ export default function DatasetPage() {
     },
   });
 
+  // Cancel job mutation
+  const cancelJobMutation = useMutation({
+    mutationFn: (jobId: string) => scraperClient.cancelJob(jobId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["scraper-jobs"] });
+      toast.success("Scraping job cancelled");
+    },
+  });
+
+  // Resume job mutation
+  const resumeJobMutation = useMutation({
+    mutationFn: (jobId: string) => scraperClient.resumeJob(jobId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["scraper-jobs"] });
+      toast.success("Scraping job resumed");
+    },
+    onError: (error) => {
+      toast.error(`Failed to resume job: ${error.message}`);
+    },
+  });
+
   // Delete config mutation
   const deleteConfigMutation = useMutation({
     mutationFn: (configId: string) => scraperClient.deleteConfig(configId),
@@ -182,11 +213,27 @@ export default function DatasetPage() {
 
   // Export dataset mutation
   const exportDatasetMutation = useMutation({
-    mutationFn: ({ datasetId, format }: { datasetId: string; format: string }) =>
-      scraperClient.exportDataset(datasetId, { format: format as "json" | "csv" | "jsonl" }),
+    mutationFn: ({ datasetId, format }: { datasetId: string; format: DatasetFormat }) =>
+      scraperClient.exportDataset(datasetId, { format }),
     onSuccess: (filePath) => {
       toast.success(`Dataset exported to ${filePath}`);
     },
+    onError: (error) => {
+      toast.error(`Failed to export dataset: ${error.message}`);
+    },
+  });
+
+  // Run a pipeline over one dataset
+  const runPipelineMutation = useMutation({
+    mutationFn: ({ pipelineId, datasetId }: { pipelineId: string; datasetId: string }) =>
+      scraperClient.runPipeline(pipelineId, [datasetId]),
+    onSuccess: (outputs) => {
+      queryClient.invalidateQueries({ queryKey: ["datasets"] });
+      toast.success(`Created ${outputs.map((d) => d.name).join(", ")}`);
+    },
+    onError: (error) => {
+      toast.error(`Pipeline failed: ${error.message}`);
+    },
   });
 
   // Preview dataset
@@ -383,6 +430,127 @@ export default function DatasetPage() {
                         }
                       />
                     </div>
+                    <div className="space-y-2">
+                      <Label>Sitemap URL (optional)</Label>
+                      <Input
+                        placeholder="https://example.com/sitemap.xml"
+                        value={configForm.sitemapUrl || ""}
+                        onChange={(e) =>
+                          setConfigForm({ ...configForm, sitemapUrl: e.target.value || undefined })
+                        }
+                      />
+                    </div>
+                    <div className="grid grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label>Crawl Depth</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          placeholder="0"
+                          value={configForm.maxDepth ?? ""}
+                          onChange={(e) =>
+                            setConfigForm({
+                              ...configForm,
+                              maxDepth: e.target.value ? parseInt(e.target.value) : undefined,
+                            })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Max Pages</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          placeholder="No limit"
+                          value={configForm.maxPages ?? ""}
+                          onChange={(e) =>
+                            setConfigForm({
+                              ...configForm,
+                              maxPages: e.target.value ? parseInt(e.target.value) : undefined,
+                            })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Delay (ms)</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          placeholder="0"
+                          value={configForm.delay ?? ""}
+                          onChange={(e) =>
+                            setConfigForm({
+                              ...configForm,
+                              delay: e.target.value ? parseInt(e.target.value) : undefined,
+                            })
+                          }
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Cleaning Pipeline</Label>
+                      <Select
+                        value={configForm.pipelineId ?? "none"}
+                        onValueChange={(value) =>
+                          setConfigForm({
+                            ...configForm,
+                            pipelineId: value === "none" ? undefined : value,
+                          })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">None (keep raw output)</SelectItem>
+                          {pipelines.map((pipeline) => (
+                            <SelectItem key={pipeline.id} value={pipeline.id}>
+                              {pipeline.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={configForm.respectRobotsTxt ?? false}
+                        onCheckedChange={(checked) =>
+                          setConfigForm({ ...configForm, respectRobotsTxt: checked })
+                        }
+                      />
+                      <span className="text-sm text-muted-foreground">Respect robots.txt</span>
+                    </div>
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={configForm.aiExtraction?.enabled ?? false}
+                          onCheckedChange={(checked) =>
+                            setConfigForm({
+                              ...configForm,
+                              aiExtraction: { ...configForm.aiExtraction, enabled: checked },
+                            })
+                          }
+                        />
+                        <span className="text-sm text-muted-foreground">
+                          Extract all fields with AI (selectors are used when it is unsure)
+                        </span>
+                      </div>
+                      {configForm.aiExtraction?.enabled && (
+                        <Input
+                          placeholder="Model, e.g. ollama:llama3.1 (defaults to the selected model)"
+                          value={configForm.aiExtraction.model || ""}
+                          onChange={(e) =>
+                            setConfigForm({
+                              ...configForm,
+                              aiExtraction: {
+                                ...configForm.aiExtraction!,
+                                model: e.target.value || undefined,
+                              },
+                            })
+                          }
+                        />
+                      )}
+                    </div>
 
                     {/* Fields */}
                     <div className="space-y-3">
@@ -415,7 +583,7 @@ export default function DatasetPage() {
                           ))}
                         </div>
                       )}
-                      <div className="grid grid-cols-4 gap-2 p-3 rounded-lg border border-dashed">
+                      <div className="grid grid-cols-5 gap-2 p-3 rounded-lg border border-dashed">
                         <Input
                           placeholder="Field name"
                           value={currentField.name}
@@ -444,8 +612,30 @@ export default function DatasetPage() {
                             <SelectItem value="array">Array</SelectItem>
                           </SelectContent>
                         </Select>
+                        <Select
+                          value={currentField.selectorType}
+                          onValueChange={(value) =>
+                            setCurrentField({
+                              ...currentField,
+                              selectorType: value as ScrapingField["selectorType"],
+                            })
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="css">CSS</SelectItem>
+                            <SelectItem value="xpath">XPath</SelectItem>
+                            <SelectItem value="ai-extract">AI</SelectItem>
+                          </SelectContent>
+                        </Select>
                         <Input
-                          placeholder="CSS selector"
+                          placeholder={
+                            currentField.selectorType === "ai-extract"
+                              ? "Describe the value"
+                              : "Selector"
+                          }
                           value={currentField.selector}
                           onChange={(e) =>
                             setCurrentField({ ...currentField, selector: e.target.value })
@@ -463,7 +653,7 @@ export default function DatasetPage() {
                     </Button>
                     <Button
                       onClick={() => saveConfigMutation.mutate(configForm)}
-                      disabled={!configForm.name || !configForm.sourceUrl}
+                      disabled={!configForm.name || (!configForm.sourceUrl && !configForm.sitemapUrl)}
                     >
                       Save Config
                     </Button>
@@ -489,6 +679,10 @@ export default function DatasetPage() {
               <RefreshCw className="w-4 h-4 mr-2" />
               Jobs ({jobs.filter((j) => j.status === "running").length} active)
             </TabsTrigger>
+            <TabsTrigger value="pipelines" className="data-[state=active]:bg-background">
+              <Workflow className="w-4 h-4 mr-2" />
+              Pipelines ({pipelines.length})
+            </TabsTrigger>
             <TabsTrigger value="templates" className="data-[state=active]:bg-background">
               <Layers className="w-4 h-4 mr-2" />
               Templates
@@ -545,7 +739,7 @@ export default function DatasetPage() {
                                 <CardTitle className="text-base">{dataset.name}</CardTitle>
                                 <CardDescription className="text-xs">
                                   {dataset.stats.rowCount} rows •{" "}
-                                  {formatSize(dataset.stats.sizeBytes)}
+                                  {formatSize(dataset.stats.sizeBytes)} • v{dataset.version}
                                 </CardDescription>
                               </div>
                             </div>
@@ -583,6 +777,54 @@ export default function DatasetPage() {
                                   <FileSpreadsheet className="w-4 h-4 mr-2" />
                                   Export CSV
                                 </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() =>
+                                    exportDatasetMutation.mutate({
+                                      datasetId: dataset.id,
+                                      format: "xlsx",
+                                    })
+                                  }
+                                >
+                                  <FileSpreadsheet className="w-4 h-4 mr-2" />
+                                  Export Excel
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() =>
+                                    exportDatasetMutation.mutate({
+                                      datasetId: dataset.id,
+                                      format: "parquet",
+                                    })
+                                  }
+                                >
+                                  <Database className="w-4 h-4 mr-2" />
+                                  Export Parquet
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() =>
+                                    exportDatasetMutation.mutate({
+                                      datasetId: dataset.id,
+                                      format: "sqlite",
+                                    })
+                                  }
+                                >
+                                  <Database className="w-4 h-4 mr-2" />
+                                  Export SQLite
+                                </DropdownMenuItem>
+                                {pipelines.length > 0 && <DropdownMenuSeparator />}
+                                {pipelines.map((pipeline) => (
+                                  <DropdownMenuItem
+                                    key={pipeline.id}
+                                    onClick={() =>
+                                      runPipelineMutation.mutate({
+                                        pipelineId: pipeline.id,
+                                        datasetId: dataset.id,
+                                      })
+                                    }
+                                  >
+                                    <Workflow className="w-4 h-4 mr-2" />
+                                    Run {pipeline.name}
+                                  </DropdownMenuItem>
+                                ))}
                                 <DropdownMenuSeparator />
                                 <DropdownMenuItem
                                   className="text-red-500"
@@ -612,6 +854,15 @@ export default function DatasetPage() {
                               </Badge>
                             )}
                           </div>
+                          {dataset.lineage && (
+                            <p className="text-xs text-muted-foreground mt-3 truncate">
+                              From{" "}
+                              {dataset.lineage.sourceDatasetIds
+                                .map((id) => datasets.find((d) => d.id === id)?.name ?? id)
+                                .join(", ")}{" "}
+                              via {dataset.lineage.pipelineName}
+                            </p>
+                          )}
                           <div className="flex items-center justify-between mt-4 pt-3 border-t">
                             <span className="text-xs text-muted-foreground">
                               Created {new Date(dataset.createdAt).toLocaleDateString()}
@@ -788,6 +1039,42 @@ export default function DatasetPage() {
                                   {job.stats.itemsExtracted} items
                                 </Badge>
                               )}
+                              {job.pipelineDatasetIds && (
+                                <Badge variant="outline">
+                                  <Workflow className="w-3 h-3 mr-1" />
+                                  Cleaned
+                                </Badge>
+                              )}
+                              {job.pipelineError && (
+                                <Badge
+                                  className="bg-red-500/20 text-red-400 border-red-500/50"
+                                  title={job.pipelineError}
+                                >
+                                  Pipeline failed
+                                </Badge>
+                              )}
+                              {job.status === "running" && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => cancelJobMutation.mutate(job.id)}
+                                  disabled={cancelJobMutation.isPending}
+                                >
+                                  <Pause className="w-4 h-4 mr-1" />
+                                  Stop
+                                </Button>
+                              )}
+                              {job.status === "cancelled" && job.frontier && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => resumeJobMutation.mutate(job.id)}
+                                  disabled={resumeJobMutation.isPending}
+                                >
+                                  <Play className="w-4 h-4 mr-1" />
+                                  Resume
+                                </Button>
+                              )}
                             </div>
                           </div>
                         </CardContent>
@@ -797,6 +1084,11 @@ export default function DatasetPage() {
                 )}
               </TabsContent>
 
+              {/* Pipelines Tab */}
+              <TabsContent value="pipelines" className="mt-0 space-y-4">
+                <PipelinesPanel datasets={datasets} />
+              </TabsContent>
+
               {/* Templates Tab */}
               <TabsContent value="templates" className="mt-0 space-y-4">
                 <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
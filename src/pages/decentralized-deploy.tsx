@@ -48,6 +48,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Switch } from "@/components/ui/switch";
+import { IpcClient } from "@/ipc/ipc_client";
 import {
   Globe,
   Key,
@@ -65,6 +67,7 @@ import {
   Coins,
   Box,
   Link2,
+  HardDrive,
 } from "lucide-react";
 import { format } from "date-fns";
 
@@ -80,6 +83,7 @@ const PLATFORM_ICONS: Record<string, React.ReactNode> = {
   skynet: <Globe className="h-5 w-5 text-red-500" />,
   spheron: <Shield className="h-5 w-5 text-indigo-500" />,
   filebase: <Database className="h-5 w-5 text-pink-500" />,
+  "local-helia": <HardDrive className="h-5 w-5 text-teal-500" />,
 };
 
 const PERMANENCE_COLORS: Record<string, string> = {
@@ -516,6 +520,10 @@ function DeployDialog({
   const [buildCommand, setBuildCommand] = useState("npm run build");
   const [outputDir, setOutputDir] = useState("dist");
   const [ensName, setEnsName] = useState("");
+  const [announce, setAnnounce] = useState(false);
+  const [announceKey, setAnnounceKey] = useState("");
+
+  const isLocalHelia = platform.id === "local-helia";
 
   const handleDeploy = () => {
     deployMutation.mutate(
@@ -525,6 +533,8 @@ function DeployDialog({
         buildCommand,
         outputDir,
         ensName: ensName || undefined,
+        federationAnnounce:
+          isLocalHelia && announce ? { privateKey: announceKey } : undefined,
       },
       {
         onSuccess: (result) => {
@@ -576,7 +586,33 @@ function DeployDialog({
             </p>
           </div>
 
-          {platform.id !== "arweave" && (
+          {isLocalHelia && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="announce">Announce to federation peers</Label>
+                <Switch
+                  id="announce"
+                  checked={announce}
+                  onCheckedChange={setAnnounce}
+                />
+              </div>
+              {announce && (
+                <Input
+                  id="announceKey"
+                  type="password"
+                  placeholder="Identity private key"
+                  value={announceKey}
+                  onChange={(e) => setAnnounceKey(e.target.value)}
+                />
+              )}
+              <p className="text-xs text-muted-foreground">
+                Signs the CID with your federation identity so peers can find
+                and pin the app
+              </p>
+            </div>
+          )}
+
+          {platform.id !== "arweave" && !isLocalHelia && (
             <div className="space-y-2">
               <Label htmlFor="ensName">ENS Name (optional)</Label>
               <Input
@@ -596,7 +632,10 @@ function DeployDialog({
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
-          <Button onClick={handleDeploy} disabled={deployMutation.isPending}>
+          <Button
+            onClick={handleDeploy}
+            disabled={deployMutation.isPending || (isLocalHelia && announce && !announceKey)}
+          >
             {deployMutation.isPending ? (
               <>
                 <Loader2 className="h-4 w-4 mr-2 animate-spin" />
@@ -615,6 +654,16 @@ function DeployDialog({
   );
 }
 
+// Local deployments are served by a gateway whose port can change between
+// runs, so ask the main process for a fresh URL
+async function openDeployment(deployment: { platform: string; cid?: string; url: string }) {
+  const url =
+    deployment.platform === "local-helia" && deployment.cid
+      ? await IpcClient.getInstance().getLocalIpfsPreviewUrl(deployment.cid)
+      : deployment.url;
+  window.open(url, "_blank");
+}
+
 // Deployment List Component
 function DeploymentList({
   deployments,
@@ -622,8 +671,11 @@ function DeploymentList({
 }: {
   deployments: Array<{
     id: string;
+    platform: string;
     status: string;
     cid?: string;
+    localCid?: string;
+    cidVerified?: boolean;
     url: string;
     gatewayUrls: string[];
     createdAt: number;
@@ -675,6 +727,24 @@ function DeploymentList({
                     {deployment.cid.slice(0, 12)}...
                   </code>
                 )}
+                {deployment.cidVerified !== undefined && (
+                  <span
+                    className={cn(
+                      "flex items-center text-xs",
+                      deployment.cidVerified
+                        ? "text-green-600"
+                        : "text-amber-600",
+                    )}
+                    title={
+                      deployment.cidVerified
+                        ? "Matches the CID computed before upload"
+                        : `Expected ${deployment.localCid}`
+                    }
+                  >
+                    <Shield className="h-3 w-3 mr-1" />
+                    {deployment.cidVerified ? "Verified" : "CID mismatch"}
+                  </span>
+                )}
               </div>
               <span className="text-xs text-muted-foreground">
                 {format(new Date(deployment.createdAt), "MMM d, yyyy HH:mm")}
@@ -685,7 +755,7 @@ function DeploymentList({
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => window.open(deployment.url, "_blank")}
+                onClick={() => openDeployment(deployment)}
               >
                 <ExternalLink className="h-3 w-3 mr-2" />
                 View
@@ -1,6 +1,7 @@
 /**
  * Documents Page
- * Create, manage, and export documents using LibreOffice
+ * Create, manage, and export documents. LibreOffice is optional and only
+ * needed for PDF and ODF/legacy exports.
  */
 
 import { useState, useEffect } from "react";
@@ -11,7 +12,6 @@ import {
   Presentation,
   Plus,
   Trash2,
-  Download,
   ExternalLink,
   Search,
   Grid,
@@ -23,6 +23,7 @@ import {
   MoreHorizontal,
   FileDown,
   Wand2,
+  PenLine,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -61,6 +62,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
 import { libreOfficeClient } from "@/ipc/libreoffice_client";
 import { showError, showSuccess } from "@/lib/toast";
 
@@ -70,6 +72,9 @@ import type {
   CreateDocumentRequest,
   ExportFormat,
   AIGenerationOptions,
+  DocumentContentResult,
+  GenerationProgressEvent,
+  ReviseDocumentRequest,
 } from "@/types/libreoffice_types";
 
 const DOCUMENT_TYPE_ICONS: Record<DocumentType, React.ReactNode> = {
@@ -91,11 +96,14 @@ const DOCUMENT_TYPE_ICON_COLORS: Record<DocumentType, string> = {
 };
 
 const EXPORT_FORMATS: Record<DocumentType, ExportFormat[]> = {
-  document: ["pdf", "docx", "odt", "html", "txt"],
-  spreadsheet: ["pdf", "xlsx", "ods", "csv"],
-  presentation: ["pdf", "pptx", "odp"],
+  document: ["docx", "html", "md", "txt", "pdf", "odt", "doc"],
+  spreadsheet: ["xlsx", "csv", "html", "md", "pdf", "ods"],
+  presentation: ["pptx", "html", "md", "pdf", "odp"],
 };
 
+// Formats that are converted by LibreOffice rather than written natively
+const LIBREOFFICE_EXPORT_FORMATS: ExportFormat[] = ["pdf", "odt", "ods", "odp", "doc"];
+
 export default function DocumentsPage() {
   const queryClient = useQueryClient();
   const [searchQuery, setSearchQuery] = useState("");
@@ -113,6 +121,24 @@ export default function DocumentsPage() {
   const [aiDocType, setAiDocType] = useState<DocumentType>("document");
   const [aiDocName, setAiDocName] = useState("");
   const [aiTone, setAiTone] = useState<"formal" | "casual" | "professional" | "creative">("professional");
+  const [aiLength, setAiLength] = useState<NonNullable<AIGenerationOptions["length"]>>("medium");
+  const [generationProgress, setGenerationProgress] = useState<Record<number, GenerationProgressEvent>>({});
+
+  // Revision state
+  const [reviseDoc, setReviseDoc] = useState<BaseDocument | null>(null);
+  const [reviseContent, setReviseContent] = useState<DocumentContentResult | null>(null);
+  const [reviseSection, setReviseSection] = useState("0");
+  const [reviseInstruction, setReviseInstruction] = useState("");
+
+  // Track generation progress streamed from the main process
+  useEffect(() => {
+    return libreOfficeClient.onGenerationProgress((event) => {
+      setGenerationProgress((current) => ({ ...current, [event.documentId]: event }));
+      if (event.stage === "analyzing" || event.stage === "complete") {
+        queryClient.invalidateQueries({ queryKey: ["documents"] });
+      }
+    });
+  }, [queryClient]);
 
   // Query LibreOffice status
   const { data: loStatus, isLoading: isStatusLoading } = useQuery({
@@ -173,6 +199,24 @@ export default function DocumentsPage() {
     },
   });
 
+  // Revise section mutation
+  const reviseDocMutation = useMutation({
+    mutationFn: (request: ReviseDocumentRequest) => libreOfficeClient.reviseDocument(request),
+    onSuccess: (result) => {
+      if (result.success) {
+        showSuccess("Section revised");
+        queryClient.invalidateQueries({ queryKey: ["documents"] });
+        setReviseDoc(null);
+        setReviseInstruction("");
+      } else {
+        showError(result.error || "Failed to revise document");
+      }
+    },
+    onError: (error) => {
+      showError(`Error: ${error}`);
+    },
+  });
+
   // Open document mutation
   const openDocMutation = useMutation({
     mutationFn: (id: number) => libreOfficeClient.openDocument(id),
@@ -210,6 +254,7 @@ export default function DocumentsPage() {
       aiGenerate: {
         prompt: aiPrompt,
         tone: aiTone,
+        length: aiLength,
       },
     });
     setAiDialogOpen(false);
@@ -217,6 +262,33 @@ export default function DocumentsPage() {
     setAiDocName("");
   };
 
+  const handleOpenRevise = async (doc: BaseDocument) => {
+    try {
+      const content = await libreOfficeClient.getDocumentContent(doc.id);
+      if (!content || content.sections.length === 0) {
+        showError("This document has no stored content to revise");
+        return;
+      }
+      setReviseContent(content);
+      setReviseSection("0");
+      setReviseDoc(doc);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleRevise = () => {
+    if (!reviseDoc || !reviseInstruction.trim()) {
+      showError("Please describe the change");
+      return;
+    }
+    reviseDocMutation.mutate({
+      documentId: reviseDoc.id,
+      sectionIndex: Number(reviseSection),
+      instruction: reviseInstruction,
+    });
+  };
+
   // Filter documents based on search
   const filteredDocs = documents.filter((doc) =>
     doc.name.toLowerCase().includes(searchQuery.toLowerCase())
@@ -260,12 +332,20 @@ export default function DocumentsPage() {
             <DropdownMenuContent align="end" className="border-border/50 bg-background/95 backdrop-blur-sm">
               <DropdownMenuItem onClick={() => openDocMutation.mutate(doc.id)}>
                 <ExternalLink className="h-4 w-4 mr-2" />
-                Open in LibreOffice
+                {loStatus?.installed ? "Open in LibreOffice" : "Open"}
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                disabled={doc.status === "generating"}
+                onClick={() => handleOpenRevise(doc)}
+              >
+                <PenLine className="h-4 w-4 mr-2" />
+                Revise with AI
               </DropdownMenuItem>
               <DropdownMenuSeparator />
               {EXPORT_FORMATS[doc.type].map((format) => (
                 <DropdownMenuItem
                   key={format}
+                  disabled={LIBREOFFICE_EXPORT_FORMATS.includes(format) && !loStatus?.installed}
                   onClick={() => exportDocMutation.mutate({ id: doc.id, format })}
                 >
                   <FileDown className="h-4 w-4 mr-2" />
@@ -303,60 +383,16 @@ export default function DocumentsPage() {
             {doc.status}
           </Badge>
         </div>
+        {doc.status === "generating" && generationProgress[doc.id] && (
+          <div className="mt-3 space-y-1">
+            <Progress value={generationProgress[doc.id].progress} className="h-1.5" />
+            <p className="text-xs text-muted-foreground">{generationProgress[doc.id].message}</p>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
 
-  // Show installation prompt if LibreOffice is not installed
-  if (!isStatusLoading && !loStatus?.installed) {
-    return (
-      <div className="flex flex-col h-full">
-        <div className="border-b border-border/50 p-6 bg-gradient-to-r from-blue-500/5 via-cyan-500/5 to-teal-500/5">
-          <div className="flex items-center gap-4">
-            <div className="p-3 rounded-xl bg-gradient-to-br from-blue-500/20 via-cyan-500/20 to-teal-500/20 border border-blue-500/20">
-              <FileText className="h-7 w-7 text-blue-500" />
-            </div>
-            <div>
-              <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-600 via-cyan-600 to-teal-600 bg-clip-text text-transparent">
-                Document Studio
-              </h1>
-              <p className="text-sm text-muted-foreground">
-                Create documents, spreadsheets, and presentations with AI
-              </p>
-            </div>
-          </div>
-        </div>
-
-        <div className="flex-1 flex items-center justify-center p-8">
-          <Card className="max-w-md border-border/50 bg-gradient-to-br from-amber-500/5 via-orange-500/5 to-red-500/5">
-            <CardHeader className="text-center">
-              <div className="mx-auto p-4 rounded-2xl bg-gradient-to-br from-amber-500/20 to-orange-500/20 border border-amber-500/20 mb-4">
-                <AlertCircle className="h-10 w-10 text-amber-500" />
-              </div>
-              <CardTitle className="text-xl">LibreOffice Required</CardTitle>
-              <CardDescription>
-                Install LibreOffice to create and edit documents, spreadsheets, and presentations.
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="text-center space-y-4">
-              <p className="text-sm text-muted-foreground">
-                JoyCreate uses LibreOffice Headless to power the Document Studio. It's free and
-                open-source.
-              </p>
-              <Button
-                className="bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 border-0"
-                onClick={() => window.open("https://www.libreoffice.org/download/", "_blank")}
-              >
-                <Download className="h-4 w-4 mr-2" />
-                Download LibreOffice
-              </Button>
-            </CardContent>
-          </Card>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="flex flex-col h-full">
       {/* Header */}
@@ -378,13 +414,28 @@ export default function DocumentsPage() {
 
           <div className="flex items-center gap-3">
             {/* LibreOffice Status */}
-            <Badge
-              variant="secondary"
-              className="bg-emerald-500/20 text-emerald-600 border-emerald-500/30"
-            >
-              <span className="w-2 h-2 rounded-full bg-emerald-500 mr-2 animate-pulse" />
-              LibreOffice {loStatus?.version}
-            </Badge>
+            {loStatus?.installed ? (
+              <Badge
+                variant="secondary"
+                className="bg-emerald-500/20 text-emerald-600 border-emerald-500/30"
+              >
+                <span className="w-2 h-2 rounded-full bg-emerald-500 mr-2 animate-pulse" />
+                LibreOffice {loStatus.version}
+              </Badge>
+            ) : (
+              !isStatusLoading && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-amber-600"
+                  title="Install LibreOffice to export PDF and OpenDocument files"
+                  onClick={() => window.open("https://www.libreoffice.org/download/", "_blank")}
+                >
+                  <AlertCircle className="h-4 w-4 mr-2" />
+                  PDF export needs LibreOffice
+                </Button>
+              )
+            )}
 
             {/* AI Generate Button */}
             <Dialog open={aiDialogOpen} onOpenChange={setAiDialogOpen}>
@@ -449,6 +500,21 @@ export default function DocumentsPage() {
                     </div>
                   </div>
 
+                  <div className="space-y-2">
+                    <Label>Length</Label>
+                    <Select value={aiLength} onValueChange={(v) => setAiLength(v as typeof aiLength)}>
+                      <SelectTrigger className="border-border/50">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="short">Short</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="long">Long</SelectItem>
+                        <SelectItem value="detailed">Detailed</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   <div className="space-y-2">
                     <Label>Description</Label>
                     <Textarea
@@ -618,6 +684,65 @@ export default function DocumentsPage() {
         </div>
       </div>
 
+      {/* Revise Dialog */}
+      <Dialog open={!!reviseDoc} onOpenChange={(open) => !open && setReviseDoc(null)}>
+        <DialogContent className="max-w-lg border-border/50 bg-background/95 backdrop-blur-sm">
+          <DialogHeader>
+            <DialogTitle>Revise {reviseDoc?.name}</DialogTitle>
+            <DialogDescription>
+              Pick a {reviseContent?.type === "presentation" ? "slide" : reviseContent?.type === "spreadsheet" ? "sheet" : "section"} and describe how it should change
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Section</Label>
+              <Select value={reviseSection} onValueChange={setReviseSection}>
+                <SelectTrigger className="border-border/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {reviseContent?.sections.map((section) => (
+                    <SelectItem key={section.index} value={String(section.index)}>
+                      {section.index + 1}. {section.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Instruction</Label>
+              <Textarea
+                placeholder="Make this more concise and add a comparison table"
+                value={reviseInstruction}
+                onChange={(e) => setReviseInstruction(e.target.value)}
+                className="min-h-[100px] border-border/50"
+              />
+            </div>
+            {reviseDoc && reviseDocMutation.isPending && generationProgress[reviseDoc.id] && (
+              <div className="space-y-1">
+                <Progress value={generationProgress[reviseDoc.id].progress} className="h-1.5" />
+                <p className="text-xs text-muted-foreground">{generationProgress[reviseDoc.id].message}</p>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviseDoc(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRevise}
+              disabled={reviseDocMutation.isPending}
+              className="bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-700 hover:to-purple-700 border-0"
+            >
+              <Sparkles className="h-4 w-4 mr-2" />
+              {reviseDocMutation.isPending ? "Revising..." : "Revise"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Document List */}
       <div className="flex-1 overflow-auto p-6">
         {isDocsLoading ? (
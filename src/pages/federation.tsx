@@ -138,7 +138,6 @@ export default function FederationPage() {
     paymentAmount: "",
     createReceipt: true,
     requireRemote: false,
-    privateKey: "",
   });
 
   const [chunkListingForm, setChunkListingForm] = useState({
@@ -175,6 +174,13 @@ export default function FederationPage() {
   const { data: peers = [] } = useQuery({
     queryKey: ["federation-peers"],
     queryFn: () => FederationClient.getPeers(),
+    refetchInterval: 10000,
+  });
+
+  const { data: networkStatus } = useQuery({
+    queryKey: ["federation-network-status"],
+    queryFn: () => FederationClient.getNetworkStatus(),
+    refetchInterval: 10000,
   });
 
   const { data: bootstrapPeers = [] } = useQuery<BootstrapPeerEntry[]>({
@@ -263,11 +269,28 @@ export default function FederationPage() {
     },
   });
 
+  const startNetworkMutation = useMutation({
+    mutationFn: () => FederationClient.startNetwork(),
+    onSuccess: () => {
+      toast.success("Federation network started");
+      queryClient.invalidateQueries({ queryKey: ["federation-network-status"] });
+      queryClient.invalidateQueries({ queryKey: ["federation-peers"] });
+    },
+    onError: (error) => {
+      toast.error(`Failed to start network: ${error.message}`);
+    },
+  });
+
   const connectPeerMutation = useMutation({
     mutationFn: (peerId: string) => FederationClient.connectPeer(peerId),
     onSuccess: () => {
       toast.success("Connected to peer!");
       queryClient.invalidateQueries({ queryKey: ["federation-connected-peers"] });
+      queryClient.invalidateQueries({ queryKey: ["federation-network-status"] });
+      queryClient.invalidateQueries({ queryKey: ["federation-peers"] });
+    },
+    onError: (error) => {
+      toast.error(error.message);
     },
   });
 
@@ -418,7 +441,6 @@ export default function FederationPage() {
         payment_amount: inferenceForm.paymentAmount || undefined,
         create_receipt: inferenceForm.createReceipt,
         require_remote: inferenceForm.requireRemote,
-        private_key: inferenceForm.privateKey || undefined,
       });
     },
     onSuccess: (result) => {
@@ -430,7 +452,7 @@ export default function FederationPage() {
         `${new Date().toLocaleTimeString()} • ${result.status.toUpperCase()} • route ${result.route.route_id}`,
         ...prev,
       ]);
-      toast.success(result.status === "dispatched" ? "Inference dispatched" : "Inference complete");
+      toast.success(result.status === "remote" ? "Inference completed on a peer" : "Inference complete");
     },
     onError: (error) => {
       setInferenceError(error instanceof Error ? error.message : String(error));
@@ -494,10 +516,6 @@ export default function FederationPage() {
       toast.error("Data hash is required to create a receipt");
       return false;
     }
-    if (inferenceForm.requireRemote && !inferenceForm.privateKey) {
-      toast.error("Private key is required for remote dispatch");
-      return false;
-    }
     if (inferenceForm.requireRemote && computePeers.length === 0) {
       toast.error("No compute peers are connected");
       return false;
@@ -531,7 +549,6 @@ export default function FederationPage() {
           payment_amount: inferenceForm.paymentAmount || undefined,
           create_receipt: inferenceForm.createReceipt,
           require_remote: inferenceForm.requireRemote,
-          private_key: inferenceForm.privateKey || undefined,
         },
         {
           onChunk: (content) => {
@@ -727,6 +744,21 @@ export default function FederationPage() {
                     <CardDescription>
                       Active connections in the federation network
                     </CardDescription>
+                    {networkStatus?.running ? (
+                      <p className="text-xs text-muted-foreground font-mono">
+                        Node {networkStatus.peer_id?.slice(0, 16)}... · {networkStatus.addresses.length} addresses
+                        {networkStatus.shared_with_compute && " · shared with compute network"}
+                      </p>
+                    ) : (
+                      <Button
+                        size="sm"
+                        className="w-fit"
+                        onClick={() => startNetworkMutation.mutate()}
+                        disabled={startNetworkMutation.isPending}
+                      >
+                        {startNetworkMutation.isPending ? "Starting..." : "Go Online"}
+                      </Button>
+                    )}
                   </CardHeader>
                   <CardContent>
                     {connectedPeers.length === 0 ? (
@@ -801,6 +833,7 @@ export default function FederationPage() {
                               size="sm"
                               variant="outline"
                               onClick={() => connectPeerMutation.mutate(peer.id)}
+                              disabled={connectPeerMutation.isPending}
                             >
                               Connect
                             </Button>
@@ -1646,17 +1679,6 @@ export default function FederationPage() {
                           </span>
                         </div>
                       </div>
-                      <div className="space-y-2">
-                        <Label>Private Key (dispatch)</Label>
-                        <Input
-                          type="password"
-                          value={inferenceForm.privateKey}
-                          onChange={(e) =>
-                            setInferenceForm((prev) => ({ ...prev, privateKey: e.target.value }))
-                          }
-                          placeholder="Encrypted key or session key"
-                        />
-                      </div>
                       <div className="space-y-2">
                         <Label>Create Receipt</Label>
                         <Select
@@ -1738,7 +1760,7 @@ export default function FederationPage() {
                   <Card>
                     <CardHeader className="pb-2">
                       <CardTitle className="text-base">Route</CardTitle>
-                      <CardDescription>Selected compute target and required chunks.</CardDescription>
+                      <CardDescription>Selected target, ranked candidates and fallback chain.</CardDescription>
                     </CardHeader>
                     <CardContent className="space-y-2">
                       {inferenceRoute ? (
@@ -1757,6 +1779,38 @@ export default function FederationPage() {
                           <div className="text-xs text-muted-foreground">
                             Required Chunks: {inferenceRoute.required_chunks.length}
                           </div>
+                          {inferenceRoute.candidates.length > 0 && (
+                            <div className="space-y-1 pt-1">
+                              <div className="text-xs font-medium">Candidates</div>
+                              {inferenceRoute.candidates.map((candidate) => (
+                                <div
+                                  key={candidate.peer_id}
+                                  className="flex items-center justify-between text-xs"
+                                  title={candidate.reasons.join(", ")}
+                                >
+                                  <span className="truncate">{candidate.display_name || candidate.did}</span>
+                                  <span className="font-mono text-muted-foreground">
+                                    {candidate.score.toFixed(2)}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                          {inferenceRoute.attempts.length > 0 && (
+                            <div className="space-y-1 pt-1">
+                              <div className="text-xs font-medium">Attempts</div>
+                              {inferenceRoute.attempts.map((attempt, index) => (
+                                <div key={index} className="flex items-center justify-between text-xs">
+                                  <span className="truncate" title={attempt.error}>
+                                    {attempt.capability === "local" ? "Local" : attempt.peer_id || attempt.did}
+                                  </span>
+                                  <Badge variant={attempt.status === "succeeded" ? "secondary" : "destructive"}>
+                                    {attempt.status} · {attempt.latency_ms}ms
+                                  </Badge>
+                                </div>
+                              ))}
+                            </div>
+                          )}
                         </>
                       ) : (
                         <p className="text-sm text-muted-foreground">
@@ -8,6 +8,7 @@ import { AutoApproveSwitch } from "@/components/AutoApproveSwitch";
 import { TelemetrySwitch } from "@/components/TelemetrySwitch";
 import { MaxChatTurnsSelector } from "@/components/MaxChatTurnsSelector";
 import { ThinkingBudgetSelector } from "@/components/ThinkingBudgetSelector";
+import { LocalSmartContextSwitch } from "@/components/LocalSmartContextSwitch";
 import { useSettings } from "@/hooks/useSettings";
 import { useAppVersion } from "@/hooks/useAppVersion";
 import { Button } from "@/components/ui/button";
@@ -20,6 +21,7 @@ import { SupabaseIntegration } from "@/components/SupabaseIntegration";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { AutoFixProblemsSwitch } from "@/components/AutoFixProblemsSwitch";
+import { ChatBranchesSwitch } from "@/components/ChatBranchesSwitch";
 import { AutoUpdateSwitch } from "@/components/AutoUpdateSwitch";
 import { ReleaseChannelSelector } from "@/components/ReleaseChannelSelector";
 import { NeonIntegration } from "@/components/NeonIntegration";
@@ -220,6 +222,26 @@ export default function SettingsPage() {
                   permissions.
                 </div>
               </div>
+              <div className="space-y-1 mt-4">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="enable-federated-compute"
+                    checked={!!settings?.enableFederatedCompute}
+                    onCheckedChange={(checked) => {
+                      updateSettings({
+                        enableFederatedCompute: checked,
+                      });
+                    }}
+                  />
+                  <Label htmlFor="enable-federated-compute">
+                    Serve inference for federation peers
+                  </Label>
+                </div>
+                <div className="text-sm text-gray-500 dark:text-gray-400">
+                  Advertises compute to connected peers and runs the inference
+                  requests they route to you on your local models.
+                </div>
+              </div>
             </div>
           </div>
 
@@ -365,6 +387,14 @@ export function WorkflowSettings() {
           This will automatically fix TypeScript errors.
         </div>
       </div>
+
+      <div className="space-y-1 mt-4">
+        <ChatBranchesSwitch />
+        <div className="text-sm text-gray-500 dark:text-gray-400">
+          Each chat commits to its own git branch, started from the version
+          the chat was created at. Merge it into main from the chat header.
+        </div>
+      </div>
     </div>
   );
 }
@@ -385,6 +415,10 @@ export function AISettings() {
       <div className="mt-4">
         <MaxChatTurnsSelector />
       </div>
+
+      <div className="mt-4">
+        <LocalSmartContextSwitch />
+      </div>
     </div>
   );
 }
@@ -42,7 +42,13 @@ const validInvokeChannels = [
   "list-versions",
   "revert-version",
   "checkout-version",
+  "get-version-diff",
+  "get-proposal-diff",
+  "revert-file",
   "get-current-branch",
+  "chat-branch:list",
+  "chat-branch:checkout",
+  "chat-branch:merge",
   "delete-app",
   "rename-app",
   "get-user-settings",
@@ -155,17 +161,30 @@ const validInvokeChannels = [
   "agent:tool:list",
   "agent:tool:update",
   "agent:tool:delete",
+  "agent:tool:execute",
+  "agent:tool:approval-response",
   "agent:workflow:create",
   "agent:workflow:list",
   "agent:workflow:update",
   "agent:workflow:delete",
+  "agent:workflow:run",
+  "agent:workflow:resume",
+  "agent:workflow:cancel",
+  "agent:workflow:executions",
+  "agent:workflow:execution:get",
   "agent:deploy",
   "agent:deployment:list",
   "agent:deployment:stop",
   "agent:test:create",
   "agent:test:list",
+  "agent:test:message",
+  "agent:test:replay",
+  "agent:test:delete",
   "agent:kb:create",
   "agent:kb:list",
+  "agent:kb:index",
+  "agent:kb:delete",
+  "agent:kb:search",
   "agent:ui:create",
   "agent:ui:list",
   "agent:export:json",
@@ -226,6 +245,8 @@ const validInvokeChannels = [
   "libreoffice:export",
   "libreoffice:open",
   "libreoffice:get-directory",
+  "libreoffice:content",
+  "libreoffice:revise",
   // Marketplace Integration
   "marketplace:status",
   "marketplace:connect",
@@ -273,6 +294,7 @@ const validInvokeChannels = [
   "scraper:job:status",
   "scraper:job:list",
   "scraper:job:cancel",
+  "scraper:job:resume",
   "scraper:dataset:list",
   "scraper:dataset:get",
   "scraper:dataset:preview",
@@ -280,6 +302,10 @@ const validInvokeChannels = [
   "scraper:dataset:delete",
   "scraper:dataset:create",
   "scraper:dataset:import",
+  "scraper:pipeline:list",
+  "scraper:pipeline:save",
+  "scraper:pipeline:delete",
+  "scraper:pipeline:run",
   "scraper:quick-scrape",
   // Asset Studio
   "assets:stats",
@@ -317,6 +343,9 @@ const validInvokeChannels = [
   // Federation & P2P Marketplace
   "federation:create-identity",
   "federation:get-identity",
+  "federation:network:start",
+  "federation:network:stop",
+  "federation:network:status",
   "federation:get-peers",
   "federation:get-connected-peers",
   "federation:connect-peer",
@@ -385,6 +414,7 @@ const validInvokeChannels = [
   "decentralized:get-deployment",
   "decentralized:check-pin-status",
   "decentralized:get-platforms",
+  "decentralized:local-preview-url",
   // Project Management
   "project:create",
   "project:list",
@@ -404,6 +434,12 @@ const validInvokeChannels = [
   "hybrid-bridge:sync:run",
   "hybrid-bridge:sync:state",
   "hybrid-bridge:sync:clear-errors",
+  "hybrid-bridge:sync:conflicts",
+  "hybrid-bridge:sync:resolve",
+  "hybrid-bridge:data:put",
+  "hybrid-bridge:data:get",
+  "hybrid-bridge:data:delete",
+  "hybrid-bridge:data:list",
   "hybrid-bridge:request",
   "hybrid-bridge:n8n:restart",
   "hybrid-bridge:n8n:health",
@@ -427,6 +463,46 @@ const validInvokeChannels = [
   "dchat:test:encryption",
   "dchat:test:pin",
   "dchat:test:connectivity",
+  "dchat:group:create",
+  "dchat:group:get",
+  "dchat:group:list",
+  "dchat:group:update",
+  "dchat:group:delete",
+  "dchat:group:leave",
+  "dchat:group:invite",
+  "dchat:group:join",
+  "dchat:group:review-request",
+  "dchat:group:remove-member",
+  "dchat:group:set-role",
+  "dchat:group:set-permissions",
+  "dchat:group:transfer",
+  "dchat:group:ban",
+  "dchat:group:unban",
+  "dchat:poll:create",
+  "dchat:poll:list",
+  "dchat:poll:vote",
+  "dchat:poll:add-option",
+  "dchat:poll:close",
+  "dchat:meeting:create",
+  "dchat:meeting:get",
+  "dchat:meeting:list",
+  "dchat:meeting:start",
+  "dchat:meeting:join",
+  "dchat:meeting:leave",
+  "dchat:meeting:admit",
+  "dchat:meeting:remove",
+  "dchat:meeting:set-role",
+  "dchat:meeting:update-media",
+  "dchat:meeting:end",
+  "dchat:meeting:cancel",
+  "dchat:appointment:create",
+  "dchat:appointment:get",
+  "dchat:appointment:list",
+  "dchat:appointment:occurrences",
+  "dchat:appointment:update",
+  "dchat:appointment:respond",
+  "dchat:appointment:cancel",
+  "dchat:appointment:delete",
   // Compute Network (Decentralized AI Inference)
   "compute-network:initialize",
   "compute-network:shutdown",
@@ -497,6 +573,9 @@ const validReceiveChannels = [
   "mcp:tool-consent-request",
   // Agent tool consent request from main to renderer
   "agent-tool:consent-request",
+  // Agent workflow execution events
+  "agent:workflow:event",
+  "agent:tool:approval-request",
   // Telemetry events from main to renderer
   "telemetry:event",
   // Federation inference streaming
@@ -511,6 +590,8 @@ const validReceiveChannels = [
   "compute-network:event",
   // WebRTC events
   "webrtc:event",
+  // Document generation progress
+  "libreoffice:generation:progress",
 ] as const;
 
 type ValidInvokeChannel = (typeof validInvokeChannels)[number];
@@ -8,6 +8,7 @@ import {
   resolveAgentToolConsent,
   TOOL_DEFINITIONS,
   getDefaultConsent,
+  getAllowedConsentScopes,
   type AgentToolName,
 } from "./tool_definitions";
 import { createLoggedHandler } from "@/ipc/handlers/safe_handle";
@@ -29,6 +30,9 @@ export function registerAgentToolHandlers() {
       description: tool.description,
       isAllowedByDefault: getDefaultConsent(tool.name) === "always",
       consent: consents[tool.name],
+      allowedScopes: tool.getConsentScope
+        ? getAllowedConsentScopes(tool.name)
+        : undefined,
     }));
   });
 
@@ -36,7 +40,11 @@ export function registerAgentToolHandlers() {
   handle(
     "agent-tool:set-consent",
     async (_event, params: SetAgentToolConsentParams) => {
-      setAgentToolConsent(params.toolName as AgentToolName, params.consent);
+      setAgentToolConsent(
+        params.toolName as AgentToolName,
+        params.consent,
+        params.scope,
+      );
       return { success: true };
     },
   );
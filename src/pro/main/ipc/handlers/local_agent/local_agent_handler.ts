@@ -163,12 +163,14 @@ export async function handleLocalAgentStream(
         toolName: string;
         toolDescription?: string | null;
         inputPreview?: string | null;
+        consentScope?: string | null;
       }) => {
         return requireAgentToolConsent(event, {
           chatId: chat.id,
           toolName: params.toolName as AgentToolName,
           toolDescription: params.toolDescription,
           inputPreview: params.inputPreview,
+          consentScope: params.consentScope,
         });
       },
     };
@@ -14,6 +14,10 @@ import { executeSqlTool } from "./tools/execute_sql";
 import { searchReplaceTool } from "./tools/search_replace";
 import { readFileTool } from "./tools/read_file";
 import { listFilesTool } from "./tools/list_files";
+import { grepTool } from "./tools/grep";
+import { findSymbolTool } from "./tools/find_symbol";
+import { runCommandTool } from "./tools/run_command";
+import { runTestsTool } from "./tools/run_tests";
 import { getDatabaseSchemaTool } from "./tools/get_database_schema";
 import { setChatSummaryTool } from "./tools/set_chat_summary";
 import { addIntegrationTool } from "./tools/add_integration";
@@ -35,6 +39,10 @@ export const TOOL_DEFINITIONS: readonly ToolDefinition[] = [
   searchReplaceTool,
   readFileTool,
   listFilesTool,
+  grepTool,
+  findSymbolTool,
+  runCommandTool,
+  runTestsTool,
   getDatabaseSchemaTool,
   setChatSummaryTool,
   addIntegrationTool,
@@ -96,28 +104,74 @@ export function getDefaultConsent(toolName: AgentToolName): AgentToolConsent {
   return tool?.defaultConsent ?? "ask";
 }
 
-export function getAgentToolConsent(toolName: AgentToolName): AgentToolConsent {
+/**
+ * Scoped consents live next to tool-level ones in settings, keyed as
+ * `<tool>:<scope>` (e.g. `run_command:npm test`).
+ */
+function scopedConsentKey(toolName: AgentToolName, scope: string): string {
+  return `${toolName}:${scope}`;
+}
+
+export function getAgentToolConsent(
+  toolName: AgentToolName,
+  scope?: string | null,
+): AgentToolConsent {
   const settings = readSettings();
   const stored = settings.agentToolConsents?.[toolName];
-  if (stored) {
-    return stored;
+  // Allowing the whole tool covers every scope
+  if (stored === "always" || !scope) {
+    return stored ?? getDefaultConsent(toolName);
   }
-  return getDefaultConsent(toolName);
+
+  const storedScoped =
+    settings.agentToolConsents?.[scopedConsentKey(toolName, scope)];
+  if (storedScoped) {
+    return storedScoped;
+  }
+  const tool = TOOL_DEFINITIONS.find((t) => t.name === toolName);
+  if (tool?.defaultAllowedScopes?.includes(scope)) {
+    return "always";
+  }
+  return stored ?? getDefaultConsent(toolName);
 }
 
 export function setAgentToolConsent(
   toolName: AgentToolName,
   consent: AgentToolConsent,
+  scope?: string | null,
 ): void {
   const settings = readSettings();
   writeSettings({
     agentToolConsents: {
       ...settings.agentToolConsents,
-      [toolName]: consent,
+      [scope ? scopedConsentKey(toolName, scope) : toolName]: consent,
     },
   });
 }
 
+/**
+ * Scopes that currently run without asking: the tool's defaults that haven't
+ * been revoked plus anything the user chose to always allow.
+ */
+export function getAllowedConsentScopes(toolName: AgentToolName): string[] {
+  const settings = readSettings();
+  const stored = settings.agentToolConsents ?? {};
+  const tool = TOOL_DEFINITIONS.find((t) => t.name === toolName);
+  const prefix = scopedConsentKey(toolName, "");
+
+  const scopes = new Set(
+    (tool?.defaultAllowedScopes ?? []).filter(
+      (scope) => stored[scopedConsentKey(toolName, scope)] !== "ask",
+    ),
+  );
+  for (const [key, consent] of Object.entries(stored)) {
+    if (key.startsWith(prefix) && consent === "always") {
+      scopes.add(key.slice(prefix.length));
+    }
+  }
+  return [...scopes].sort();
+}
+
 export function getAllAgentToolConsents(): Record<
   AgentToolName,
   AgentToolConsent
@@ -146,9 +200,10 @@ export async function requireAgentToolConsent(
     toolName: AgentToolName;
     toolDescription?: string | null;
     inputPreview?: string | null;
+    consentScope?: string | null;
   },
 ): Promise<boolean> {
-  const current = getAgentToolConsent(params.toolName);
+  const current = getAgentToolConsent(params.toolName, params.consentScope);
 
   if (current === "always") return true;
 
@@ -162,7 +217,7 @@ export async function requireAgentToolConsent(
   const response = await waitForAgentToolConsent(requestId, params.chatId);
 
   if (response === "accept-always") {
-    setAgentToolConsent(params.toolName, "always");
+    setAgentToolConsent(params.toolName, "always", params.consentScope);
     return true;
   }
   if (response === "decline") {
@@ -243,6 +298,8 @@ export function buildAgentToolSet(ctx: AgentContext) {
             toolName: tool.name,
             toolDescription: tool.description,
             inputPreview: tool.getConsentPreview?.(processedArgs) ?? null,
+            consentScope:
+              (await tool.getConsentScope?.(processedArgs, ctx)) ?? null,
           });
           if (!allowed) {
             throw new Error(`User denied permission for ${tool.name}`);
@@ -0,0 +1,104 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import type * as TS from "typescript";
+import { ToolDefinition, AgentContext, escapeXmlContent } from "./types";
+import { extractCodebase, OMITTED_FILE_CONTENT } from "@/utils/codebase";
+import {
+  findSymbolInFiles,
+  formatSymbolSearchResult,
+  isScriptFile,
+} from "@/lib/code_search";
+
+const findSymbolSchema = z.object({
+  name: z
+    .string()
+    .describe(
+      "Identifier to look up, e.g. a function, component, class, type or variable name",
+    ),
+  include_references: z
+    .boolean()
+    .optional()
+    .describe("Also list every place the symbol is used (default: true)"),
+});
+
+/**
+ * Compiler options from the app's tsconfig (and tsconfig.app.json, which Vite
+ * templates keep their path aliases in) so imports resolve like they do in the build
+ */
+function readAppCompilerOptions(
+  ts: typeof TS,
+  appPath: string,
+): TS.CompilerOptions {
+  let options: TS.CompilerOptions = {};
+  for (const configName of ["tsconfig.json", "tsconfig.app.json"]) {
+    const configPath = path.join(appPath, configName);
+    if (!fs.existsSync(configPath)) continue;
+
+    const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (!config?.compilerOptions) continue;
+    const converted = ts.convertCompilerOptionsFromJson(
+      config.compilerOptions,
+      appPath,
+    );
+    options = { ...options, ...converted.options };
+  }
+  // `paths` without a baseUrl are relative to the config file
+  if (options.paths && !options.baseUrl) {
+    options.baseUrl = appPath;
+  }
+  return options;
+}
+
+export const findSymbolTool: ToolDefinition<z.infer<typeof findSymbolSchema>> =
+  {
+    name: "find_symbol",
+    description: `Find where a TypeScript/JavaScript symbol is defined and everywhere it is referenced, using the TypeScript language service.
+
+- References follow imports and re-exports, so this is more precise than grep for identifiers.`,
+    inputSchema: findSymbolSchema,
+    defaultConsent: "always",
+
+    getConsentPreview: (args) => `Find symbol ${args.name}`,
+
+    buildXml: (args, _isComplete) => {
+      if (!args.name) return undefined;
+      return `<dyad-code-search>${escapeXmlContent(`Find symbol ${args.name}`)}</dyad-code-search>`;
+    },
+
+    execute: async (args, ctx: AgentContext) => {
+      const ts = await import("typescript");
+      const { files } = await extractCodebase({
+        appPath: ctx.appPath,
+        chatContext: {
+          contextPaths: [],
+          smartContextAutoIncludes: [],
+          excludePaths: [],
+        },
+      });
+
+      const result = findSymbolInFiles(
+        ts,
+        files.filter(
+          (file) =>
+            isScriptFile(file.path) && file.content !== OMITTED_FILE_CONTENT,
+        ),
+        {
+          name: args.name,
+          rootDir: ctx.appPath,
+          compilerOptions: readAppCompilerOptions(ts, ctx.appPath),
+          includeReferences: args.include_references,
+        },
+      );
+
+      const matchedFiles = [
+        ...new Set(
+          [...result.definitions, ...result.references].map((l) => l.path),
+        ),
+      ];
+      ctx.onXmlComplete(
+        `<dyad-code-search-result>\n${matchedFiles.join("\n")}\n</dyad-code-search-result>`,
+      );
+      return formatSymbolSearchResult(args.name, result);
+    },
+  };
@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { ToolDefinition, AgentContext, escapeXmlContent } from "./types";
+import { extractCodebase, OMITTED_FILE_CONTENT } from "@/utils/codebase";
+import {
+  MAX_CONTEXT_LINES,
+  formatGrepResult,
+  grepFiles,
+} from "@/lib/code_search";
+
+const grepSchema = z.object({
+  pattern: z
+    .string()
+    .describe("JavaScript regular expression to search file contents for"),
+  include: z
+    .string()
+    .optional()
+    .describe(
+      'Optional glob limiting which files are searched, e.g. "src/**/*.tsx"',
+    ),
+  context_lines: z
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_CONTEXT_LINES)
+    .optional()
+    .describe("Lines of context to show before and after each match"),
+  case_sensitive: z
+    .boolean()
+    .optional()
+    .describe("Match case exactly (default: case-insensitive)"),
+});
+
+export const grepTool: ToolDefinition<z.infer<typeof grepSchema>> = {
+  name: "grep",
+  description: `Search file contents in the application with a regular expression. Returns matching lines as path:line:text.
+
+- Use this to find where something is used or defined instead of reading files one by one.
+- For TypeScript/JavaScript identifiers, find_symbol gives precise definitions and references.`,
+  inputSchema: grepSchema,
+  defaultConsent: "always",
+
+  getConsentPreview: (args) =>
+    `Search for /${args.pattern}/${args.include ? ` in ${args.include}` : ""}`,
+
+  buildXml: (args, _isComplete) => {
+    if (!args.pattern) return undefined;
+    const scope = args.include ? ` in ${args.include}` : "";
+    return `<dyad-code-search>${escapeXmlContent(`/${args.pattern}/${scope}`)}</dyad-code-search>`;
+  },
+
+  execute: async (args, ctx: AgentContext) => {
+    const { files } = await extractCodebase({
+      appPath: ctx.appPath,
+      chatContext: {
+        contextPaths: args.include ? [{ globPath: args.include }] : [],
+        smartContextAutoIncludes: [],
+        excludePaths: [],
+      },
+    });
+
+    const result = await grepFiles(
+      files.filter((file) => file.content !== OMITTED_FILE_CONTENT),
+      {
+        pattern: args.pattern,
+        caseSensitive: args.case_sensitive,
+        contextLines: args.context_lines,
+      },
+    );
+
+    ctx.onXmlComplete(
+      `<dyad-code-search-result>\n${result.files.join("\n")}\n</dyad-code-search-result>`,
+    );
+    return formatGrepResult(result);
+  },
+};
@@ -0,0 +1,77 @@
+import { z } from "zod";
+import {
+  ToolDefinition,
+  AgentContext,
+  escapeXmlAttr,
+  escapeXmlContent,
+} from "./types";
+import {
+  MAX_COMMAND_TIMEOUT_MS,
+  formatAgentCommandResult,
+  normalizeCommand,
+  runAgentCommand,
+} from "@/ipc/utils/agent_command_runner";
+
+const runCommandSchema = z.object({
+  command: z
+    .string()
+    .describe('Shell command to run from the app root, e.g. "npm run lint"'),
+  timeout_seconds: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_COMMAND_TIMEOUT_MS / 1000)
+    .optional()
+    .describe("Kill the command after this many seconds (default: 120)"),
+});
+
+/**
+ * Read-only checks that are safe to run without asking. Package scripts
+ * (`npm test`, `npm run build`, ...) and tools installed in the app run
+ * whatever the agent last wrote to package.json or node_modules, so they
+ * always ask.
+ */
+export const DEFAULT_ALLOWED_COMMANDS = ["git status", "git diff"] as const;
+
+export const runCommandTool: ToolDefinition<z.infer<typeof runCommandSchema>> =
+  {
+    name: "run_command",
+    description: `Run a shell command in the application directory and return its exit code and output.
+
+- Use this to type-check, lint, build or run scripts to verify your changes.
+- Commands must finish on their own: don't start dev servers or watch modes (the app preview already runs the dev server).
+- Long output is truncated in the middle. For tests, prefer run_tests, which returns structured failures.`,
+    inputSchema: runCommandSchema,
+    defaultConsent: "ask",
+    defaultAllowedScopes: DEFAULT_ALLOWED_COMMANDS,
+
+    getConsentPreview: (args) => `$ ${args.command}`,
+
+    getConsentScope: (args) => normalizeCommand(args.command),
+
+    buildXml: (args, _isComplete) => {
+      if (!args.command) return undefined;
+      return `<dyad-run-command>${escapeXmlContent(args.command)}</dyad-run-command>`;
+    },
+
+    execute: async (args, ctx: AgentContext) => {
+      const result = await runAgentCommand({
+        command: args.command,
+        cwd: ctx.appPath,
+        timeoutMs: args.timeout_seconds
+          ? args.timeout_seconds * 1000
+          : undefined,
+      });
+
+      const status = result.timedOut
+        ? "timeout"
+        : result.exitCode === 0
+          ? "passed"
+          : "failed";
+      const output = formatAgentCommandResult(args.command, result);
+      ctx.onXmlComplete(
+        `<dyad-run-command-result command="${escapeXmlAttr(args.command)}" status="${status}">${escapeXmlContent(output)}</dyad-run-command-result>`,
+      );
+      return output;
+    },
+  };
@@ -0,0 +1,163 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import crypto from "node:crypto";
+import { z } from "zod";
+import {
+  ToolDefinition,
+  AgentContext,
+  escapeXmlAttr,
+  escapeXmlContent,
+} from "./types";
+import {
+  MAX_COMMAND_TIMEOUT_MS,
+  formatAgentCommandResult,
+  runAgentCommand,
+} from "@/ipc/utils/agent_command_runner";
+import {
+  buildTestCommand,
+  detectTestRunner,
+  formatTestReport,
+  parseTestReport,
+} from "@/lib/test_report";
+
+const DEFAULT_TEST_TIMEOUT_MS = 300_000;
+const TEST_CONFIG_FILE = /^(vitest|vite|jest)\.config\.[cm]?[jt]s$/;
+
+const runTestsSchema = z.object({
+  files: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Optional test files or path filters to run, relative to the app root. Runs every test when omitted.",
+    ),
+  test_name_pattern: z
+    .string()
+    .optional()
+    .describe("Only run tests whose name matches this pattern"),
+  timeout_seconds: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_COMMAND_TIMEOUT_MS / 1000)
+    .optional()
+    .describe("Kill the test run after this many seconds (default: 300)"),
+});
+
+function describeRun(args: Partial<z.infer<typeof runTestsSchema>>): string {
+  const parts = [...(args.files ?? [])];
+  if (args.test_name_pattern) {
+    parts.push(`-t "${args.test_name_pattern}"`);
+  }
+  return parts.length > 0 ? parts.join(" ") : "all tests";
+}
+
+/**
+ * Consent scope pinned to the app's test setup. package.json and the runner
+ * config decide what a test run executes and the agent can rewrite both, so
+ * "Always allow" lapses as soon as either changes.
+ */
+async function getTestSetupScope(appPath: string): Promise<string> {
+  const entries = await fs.promises.readdir(appPath).catch((): string[] => []);
+  const files = [
+    "package.json",
+    ...entries.filter((name) => TEST_CONFIG_FILE.test(name)).sort(),
+  ];
+
+  const hash = crypto.createHash("sha256");
+  for (const file of files) {
+    const content = await fs.promises
+      .readFile(path.join(appPath, file))
+      .catch(() => null);
+    if (content) {
+      hash.update(file).update("\0").update(content);
+    }
+  }
+  return `test setup ${hash.digest("hex").slice(0, 12)}`;
+}
+
+export const runTestsTool: ToolDefinition<z.infer<typeof runTestsSchema>> = {
+  name: "run_tests",
+  description: `Run the application's tests with its test runner (vitest or jest) and return a summary with each failing test, its file and line, and the failure message.
+
+- Run the tests related to your change first by passing their files, then the full suite.
+- Fix the reported failures and run the tests again until they pass.`,
+  inputSchema: runTestsSchema,
+  defaultConsent: "ask",
+
+  getConsentPreview: (args) => `Run ${describeRun(args)}`,
+
+  getConsentScope: (_args, ctx) => getTestSetupScope(ctx.appPath),
+
+  buildXml: (args, isComplete) => {
+    if (!isComplete) return undefined;
+    return `<dyad-run-command>${escapeXmlContent(`Run tests: ${describeRun(args)}`)}</dyad-run-command>`;
+  },
+
+  execute: async (args, ctx: AgentContext) => {
+    let packageJson;
+    try {
+      packageJson = JSON.parse(
+        await fs.promises.readFile(
+          path.join(ctx.appPath, "package.json"),
+          "utf8",
+        ),
+      );
+    } catch {
+      throw new Error("Could not read the app's package.json");
+    }
+
+    const runner = detectTestRunner(packageJson);
+    if (!runner) {
+      throw new Error(
+        "No vitest or jest setup found in package.json. Use run_command to run the app's tests another way.",
+      );
+    }
+
+    const outputFile = path.join(
+      os.tmpdir(),
+      `dyad-test-report-${crypto.randomUUID()}.json`,
+    );
+    const command = buildTestCommand(runner, {
+      outputFile,
+      files: args.files,
+      testNamePattern: args.test_name_pattern,
+    });
+    const label = `${runner} ${describeRun(args)}`;
+
+    try {
+      const result = await runAgentCommand({
+        command,
+        cwd: ctx.appPath,
+        timeoutMs: args.timeout_seconds
+          ? args.timeout_seconds * 1000
+          : DEFAULT_TEST_TIMEOUT_MS,
+      });
+
+      let output: string;
+      let status: "passed" | "failed" | "timeout";
+      const reportJson = result.timedOut
+        ? null
+        : await fs.promises.readFile(outputFile, "utf8").catch(() => null);
+      if (reportJson) {
+        const report = parseTestReport(runner, reportJson, ctx.appPath);
+        output = formatTestReport(report);
+        status =
+          report.failed === 0 && report.failures.length === 0
+            ? "passed"
+            : "failed";
+      } else {
+        // Usually a config or install problem: the raw output says why
+        output = `The test runner didn't produce a report.\n\n${formatAgentCommandResult(label, result)}`;
+        status = result.timedOut ? "timeout" : "failed";
+      }
+
+      ctx.onXmlComplete(
+        `<dyad-run-command-result command="${escapeXmlAttr(label)}" status="${status}">${escapeXmlContent(output)}</dyad-run-command-result>`,
+      );
+      return output;
+    } finally {
+      await fs.promises.rm(outputFile, { force: true });
+    }
+  },
+};
@@ -46,6 +46,7 @@ export interface AgentContext {
     toolName: string;
     toolDescription?: string | null;
     inputPreview?: string | null;
+    consentScope?: string | null;
   }) => Promise<boolean>;
 }
 
@@ -99,6 +100,18 @@ export interface ToolDefinition<T = any> {
    */
   getConsentPreview?: (args: T) => string;
 
+  /**
+   * Returns the specific input a consent decision applies to, such as a
+   * normalized shell command. When defined, "Always allow" only covers later
+   * calls with the same scope rather than every use of the tool.
+   */
+  getConsentScope?: (args: T, ctx: AgentContext) => string | Promise<string>;
+
+  /**
+   * Scopes allowed without asking until the user revokes them in settings.
+   */
+  defaultAllowedScopes?: readonly string[];
+
   /**
    * Build XML from parsed partial args.
    * Called by the handler during streaming and on completion.
@@ -52,9 +52,11 @@ You have tools at your disposal to solve the coding task. Follow these rules reg
 
 <tool_calling_best_practices>
 1. **Read before writing**: Use read_file and list_files to understand the codebase before making changes
+   - Use grep to find code by content and find_symbol to locate where a TypeScript/JavaScript symbol is defined and used, instead of reading files one by one
 2. **Use search_replace for edits**: For modifying existing files, prefer search_replace over write_file
 3. **Be surgical**: Only change what's necessary to accomplish the task
-4. **Handle errors gracefully**: If a tool fails, explain the issue and suggest alternatives
+4. **Verify your changes**: When the app has tests, use run_tests after changing the code they cover and fix what fails. Use run_command for type checks, linting or builds; it needs the user's approval, so don't run commands you don't need
+5. **Handle errors gracefully**: If a tool fails, explain the issue and suggest alternatives
 </tool_calling_best_practices>
 
 [[AI_RULES]]
@@ -140,6 +140,7 @@ function App() {
           toolName: payload.toolName,
           toolDescription: payload.toolDescription,
           inputPreview: payload.inputPreview,
+          consentScope: payload.consentScope,
         },
       ]);
     });
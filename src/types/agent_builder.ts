@@ -65,6 +65,7 @@ export interface AgentTool {
   inputSchema?: ToolInputSchema;
   implementationCode?: string;
   requiresApproval: boolean;
+  permissions?: ToolSandboxPermissions;
   enabled: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -89,6 +90,31 @@ export interface ToolExecutionResult {
   output?: unknown;
   error?: string;
   executionTimeMs?: number;
+  // Console output captured from the sandbox
+  logs?: string[];
+}
+
+export interface ToolSandboxPermissions {
+  // Allow fetch() from tool code (denied unless set to true)
+  network?: boolean;
+  // Directories the code may access through the `fs` global
+  filesystem?: {
+    paths: string[];
+    write?: boolean;
+  };
+}
+
+export interface ExecuteAgentToolRequest {
+  toolId: number;
+  input: Record<string, unknown>;
+}
+
+export interface AgentToolApprovalRequest {
+  requestId: string;
+  agentId: number;
+  toolName: string;
+  toolDescription: string;
+  input: Record<string, unknown>;
 }
 
 // ============================================================================
@@ -189,10 +215,17 @@ export interface WorkflowVariable {
   defaultValue?: unknown;
 }
 
+export type WorkflowExecutionStatus =
+  | "running"
+  | "completed"
+  | "failed"
+  | "paused"
+  | "cancelled";
+
 export interface WorkflowExecution {
   id: string;
   workflowId: number;
-  status: "running" | "completed" | "failed" | "paused";
+  status: WorkflowExecutionStatus;
   currentNodeId?: string;
   variables: Record<string, unknown>;
   history: WorkflowExecutionStep[];
@@ -210,6 +243,24 @@ export interface WorkflowExecutionStep {
   error?: string;
   startedAt: Date;
   completedAt?: Date;
+  iteration?: number;
+}
+
+export type WorkflowExecutionEventType =
+  | "step:started"
+  | "step:completed"
+  | "step:failed"
+  | "execution:paused"
+  | "execution:completed"
+  | "execution:failed"
+  | "execution:cancelled";
+
+export interface WorkflowExecutionEvent {
+  type: WorkflowExecutionEventType;
+  executionId: string;
+  workflowId: number;
+  step?: WorkflowExecutionStep;
+  execution: WorkflowExecution;
 }
 
 // ============================================================================
@@ -224,6 +275,7 @@ export interface AgentDeployment {
   endpoint?: string;
   status: DeploymentStatus;
   deployedAt?: Date;
+  error?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -272,6 +324,10 @@ export interface DeploymentConfig {
 export interface AgentTestSession {
   id: number;
   agentId: number;
+  // Agent version the session was run against
+  agentVersion?: string;
+  // Set when this session is a replay of another session
+  replayOfSessionId?: number;
   messages?: AgentTestMessage[];
   metrics?: TestMetrics;
   createdAt: Date;
@@ -283,6 +339,10 @@ export interface AgentTestMessage {
   content: string;
   timestamp: number;
   toolCalls?: AgentToolCall[];
+  // Per-response metrics (assistant messages only)
+  latencyMs?: number;
+  tokenUsage?: TokenUsage;
+  error?: string;
 }
 
 export interface AgentToolCall {
@@ -299,11 +359,27 @@ export interface TestMetrics {
   averageResponseTime?: number;
   toolCallCount?: number;
   errorCount?: number;
-  tokenUsage?: {
-    prompt: number;
-    completion: number;
-    total: number;
-  };
+  tokenUsage?: TokenUsage;
+}
+
+export interface TokenUsage {
+  prompt: number;
+  completion: number;
+  total: number;
+}
+
+export interface ReplayTestSessionResult {
+  session: AgentTestSession;
+  comparisons: TestReplayComparison[];
+}
+
+export interface TestReplayComparison {
+  input: string;
+  originalResponse?: string;
+  replayResponse: string;
+  originalToolCalls: string[];
+  replayToolCalls: string[];
+  latencyDeltaMs?: number;
 }
 
 // ============================================================================
@@ -322,6 +398,8 @@ export interface AgentKnowledgeBase {
   chunkOverlap: number;
   indexStatus: IndexStatus;
   documentCount: number;
+  // Failure reason when indexStatus is "failed"
+  indexError?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -368,6 +446,23 @@ export interface KnowledgeDocument {
   sourceId: string;
 }
 
+export interface KnowledgeSearchRequest {
+  agentId: number;
+  query: string;
+  // Restrict the search to one knowledge base
+  knowledgeBaseId?: number;
+  topK?: number;
+}
+
+export interface KnowledgeSearchResult {
+  knowledgeBaseId: number;
+  documentId: string;
+  sourceId: string;
+  content: string;
+  metadata: Record<string, unknown>;
+  score: number;
+}
+
 // ============================================================================
 // UI Component Types
 // ============================================================================
@@ -495,6 +590,7 @@ export interface CreateAgentToolRequest {
   inputSchema?: ToolInputSchema;
   implementationCode?: string;
   requiresApproval?: boolean;
+  permissions?: ToolSandboxPermissions;
 }
 
 export interface UpdateAgentToolRequest {
@@ -504,9 +600,20 @@ export interface UpdateAgentToolRequest {
   inputSchema?: ToolInputSchema;
   implementationCode?: string;
   requiresApproval?: boolean;
+  permissions?: ToolSandboxPermissions;
   enabled?: boolean;
 }
 
+export interface RunWorkflowRequest {
+  workflowId: number;
+  variables?: Record<string, unknown>;
+}
+
+export interface ResumeWorkflowRequest {
+  executionId: string;
+  input?: unknown;
+}
+
 export interface DeployAgentRequest {
   agentId: number;
   target: DeploymentTarget;
@@ -524,6 +631,7 @@ export interface TestAgentResponse {
   response: string;
   toolCalls?: AgentToolCall[];
   metrics?: Partial<TestMetrics>;
+  error?: string;
 }
 
 export interface ExportAgentRequest {
@@ -66,6 +66,9 @@ export interface ChatMessage {
   encryptedContent: string;          // X25519-XSalsa20-Poly1305 encrypted
   nonce: string;                     // Encryption nonce
   encryptionAlgorithm: EncryptionAlgorithm;
+  ratchet?: RatchetHeader;           // Double ratchet header (direct messages)
+  senderKey?: SenderKeyHeader;       // Sender key chain position (group messages)
+  senderKeyDistribution?: Record<string, RatchetEnvelope>; // Our sender key, per recipient who lacks it
   
   // Message metadata (public)
   messageType: ChatMessageType;
@@ -98,9 +101,11 @@ export interface ChatMessage {
 }
 
 export type EncryptionAlgorithm = 
-  | "x25519-xsalsa20-poly1305"       // NaCl box
+  | "x25519-xsalsa20-poly1305"       // NaCl box with static identity keys (legacy)
   | "x25519-chacha20-poly1305"       // Modern alternative
-  | "aes-256-gcm";                   // AES-GCM
+  | "aes-256-gcm"                    // AES-GCM
+  | "double-ratchet-aes-256-gcm"     // Pairwise X3DH session with a double ratchet
+  | "sender-key-aes-256-gcm";        // Group sender key, distributed over pairwise sessions
 
 export type ChatMessageType = 
   | "text"
@@ -198,6 +203,7 @@ export interface ConversationParticipant {
   walletAddress: string;
   did: string;
   publicKey: string;                 // Encryption public key
+  signingKey?: string;               // Ed25519 public key their PubSub messages verify against
   displayName?: string;
   avatar?: string;
   role: ParticipantRole;
@@ -358,6 +364,7 @@ export interface ChatPubSubMessage {
   payload: any;                      // Type-specific payload
   timestamp: string;
   signature: string;
+  signingKey?: string;               // Sender's Ed25519 public key, pinned on first contact
 }
 
 export type PubSubMessageType = 
@@ -372,7 +379,19 @@ export type PubSubMessageType =
   | "sync:response"
   | "key:rotate"
   | "participant:join"
-  | "participant:leave";
+  | "participant:leave"
+  | "group:update"                   // Full group snapshot from an admin
+  | "group:invite"                   // Sent on the presence topic to the invitee
+  | "group:join-request"
+  | "group:removed"
+  | "poll:update"
+  | "poll:vote"
+  | "meeting:update"                 // Full meeting snapshot from the host
+  | "meeting:join"
+  | "meeting:leave"
+  | "appointment:update"             // Full appointment snapshot from the organizer
+  | "appointment:rsvp"
+  | "keys:bundle";                   // Pre-key bundle announcement on the presence topic
 
 // ============================================================================
 // Offline Sync Types
@@ -464,6 +483,7 @@ export interface SyncResponse {
  */
 export interface KeyBundle {
   identityKey: string;               // Long-term identity key
+  identitySigningKey: string;        // Ed25519 key the pre-key signature verifies against
   signedPreKey: string;              // Medium-term signed pre-key
   preKeySignature: string;           // Signature of pre-key
   oneTimePreKeys: string[];          // One-time pre-keys
@@ -474,27 +494,106 @@ export interface KeyBundle {
 }
 
 /**
- * Session keys for an established conversation
+ * Our own pre-key material; only the public halves are published in the KeyBundle
+ */
+export interface LocalPreKeys {
+  signedPreKey: PreKeyPair & { signature: string; createdAt: string };
+  previousSignedPreKey?: PreKeyPair; // Kept for sessions started against the last bundle
+  oneTimePreKeys: PreKeyPair[];
+}
+
+export interface PreKeyPair {
+  publicKey: string;
+  secretKey: string;
+}
+
+/**
+ * X3DH parameters the initiator sends until the session is acknowledged
+ */
+export interface PreKeyMessage {
+  identityKey: string;               // Initiator's identity key
+  ephemeralKey: string;              // Initiator's base key
+  signedPreKey: string;              // Which of the recipient's signed pre-keys was used
+  oneTimePreKey?: string;            // Which one-time pre-key was consumed
+}
+
+export interface RatchetHeader {
+  sessionId: string;
+  dh: string;                        // Sender's current ratchet public key
+  pn: number;                        // Length of the sender's previous chain
+  n: number;                         // Message number in the current chain
+  preKey?: PreKeyMessage;
+}
+
+export interface RatchetEnvelope {
+  header: RatchetHeader;
+  ciphertext: string;                // AES-256-GCM ciphertext with the auth tag appended
+  nonce: string;
+}
+
+/**
+ * Double ratchet state for a session with one peer
  */
 export interface SessionKeys {
-  conversationId: string;
+  sessionId: string;
+  peerWallet: string;
+  associatedData: string;            // Both identity keys, bound into every message
   
   // Ratchet state
   rootKey: string;
-  chainKey: string;
-  messageNumber: number;
+  sendingChainKey?: string;
+  receivingChainKey?: string;
+  sendingMessageNumber: number;
+  receivingMessageNumber: number;
+  previousChainLength: number;
   
   // DHs
-  ourEphemeralKey: string;
-  theirPublicKey: string;
+  ourRatchetKey: PreKeyPair;
+  theirRatchetKey?: string;
   
   // History
-  skippedKeys: Map<number, string>;
+  skippedKeys: Record<string, string>; // "<ratchet key>:<n>" -> message key
+  pendingPreKey?: PreKeyMessage;     // Sent with every message until the peer replies
   
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * All sessions with one peer. Both sides may start a session at the same time,
+ * so the losing one is kept around to read whatever was sent on it.
+ */
+export interface PeerSessions {
+  active: string;
+  sessions: Record<string, SessionKeys>;
+}
+
+export interface SenderKeyHeader {
+  keyId: string;
+  iteration: number;
+}
+
+/**
+ * Symmetric chain a group member encrypts their messages with
+ */
+export interface SenderKeyState {
+  keyId: string;
+  chainKey: string;
+  iteration: number;
+  skippedKeys: Record<string, string>; // iteration -> message key
+}
+
+export interface OwnSenderKey extends SenderKeyState {
+  members: string[];                 // Recipients when the key was last used
+  distributedTo: string[];
+  createdAt: string;
+}
+
+export interface ConversationSenderKeys {
+  own?: OwnSenderKey;
+  received: Record<string, Record<string, SenderKeyState>>; // sender -> keyId -> state
+}
+
 // ============================================================================
 // Chat Events
 // ============================================================================
@@ -519,7 +618,14 @@ export type ChatEvent =
   | { type: "peer:connected"; peerId: string; walletAddress: string }
   | { type: "peer:disconnected"; peerId: string }
   | { type: "offline:queued"; messageId: string; recipientWallet: string }
-  | { type: "offline:delivered"; messageId: string; recipientWallet: string };
+  | { type: "offline:delivered"; messageId: string; recipientWallet: string }
+  | { type: "group:updated"; group: ChatGroup }
+  | { type: "group:removed"; groupId: string }
+  | { type: "group:invite"; invite: GroupInvite; groupName: string }
+  | { type: "poll:updated"; poll: Poll }
+  | { type: "meeting:updated"; meeting: Meeting }
+  | { type: "appointment:updated"; appointment: Appointment }
+  | { type: "appointment:reminder"; appointment: Appointment; reminder: AppointmentReminder; occurrenceStart: string };
 
 // ============================================================================
 // API Request/Response Types
@@ -926,6 +1032,8 @@ export interface ChatGroup {
 
 export interface GroupMember {
   walletAddress: string;
+  publicKey?: string;                // Carried in snapshots so peers learn members' keys
+  signingKey?: string;
   displayName?: string;
   avatar?: string;
   role: GroupRole;
@@ -1094,6 +1202,9 @@ export interface CreateMeetingRequest {
   scheduledEnd?: string;
   invitees?: string[];               // Wallet addresses
   settings?: Partial<MeetingSettings>;
+  password?: string;
+  maxParticipants?: number;
+  requiresApproval?: boolean;
 }
 
 export interface CreateMeetingResult {
@@ -1113,6 +1224,7 @@ export interface JoinMeetingRequest {
 export interface JoinMeetingResult {
   success: boolean;
   meeting?: Meeting;
+  admitted?: boolean;                // False while in the waiting room
   webrtcConfig?: {
     iceServers: any[];
     signalingTopic: string;
@@ -1120,7 +1232,23 @@ export interface JoinMeetingResult {
   error?: string;
 }
 
+export interface MeetingActionResult {
+  success: boolean;
+  meeting?: Meeting;
+  error?: string;
+}
+
+export interface MediaStateUpdate {
+  audioEnabled?: boolean;
+  videoEnabled?: boolean;
+  screenSharing?: boolean;
+  handRaised?: boolean;
+  status?: ParticipantStatus;
+  connectionQuality?: MeetingParticipant["connectionQuality"];
+}
+
 export interface CreateAppointmentRequest {
+  conversationId?: string;
   title: string;
   description?: string;
   type: AppointmentType;
@@ -1129,6 +1257,8 @@ export interface CreateAppointmentRequest {
   timezone: string;
   attendees: string[];               // Wallet addresses
   locationType: "virtual" | "in-person" | "phone" | "hybrid";
+  meetingLink?: string;
+  physicalLocation?: string;
   recurrence?: RecurrenceRule;
   reminders?: Array<{ type: "notification" | "email"; minutesBefore: number }>;
 }
@@ -1139,6 +1269,19 @@ export interface CreateAppointmentResult {
   error?: string;
 }
 
+export type UpdateAppointmentRequest = Partial<
+  Pick<Appointment, "title" | "description" | "type" | "startTime" | "endTime" | "timezone" | "recurrence" | "locationType" | "meetingLink" | "physicalLocation" | "notes" | "agenda">
+>;
+
+/**
+ * A single occurrence of a (possibly recurring) appointment
+ */
+export interface AppointmentOccurrence {
+  appointment: Appointment;
+  startTime: string;
+  endTime: string;
+}
+
 export interface CreateGroupRequest {
   name: string;
   description?: string;
@@ -1153,3 +1296,48 @@ export interface CreateGroupResult {
   conversation?: ChatConversation;
   error?: string;
 }
+
+export interface GroupActionResult {
+  success: boolean;
+  group?: ChatGroup;
+  error?: string;
+}
+
+export interface JoinGroupRequest {
+  groupId: string;
+  inviteId?: string;
+  inviteCode?: string;
+  message?: string;
+}
+
+export interface JoinGroupResult {
+  success: boolean;
+  status?: "joined" | "pending";     // Pending until an admin approves or comes online
+  group?: ChatGroup;
+  error?: string;
+}
+
+export interface UpdateGroupRequest {
+  name?: string;
+  description?: string;
+  avatar?: string;
+  coverImage?: string;
+  settings?: Partial<GroupSettings>;
+}
+
+export interface CreatePollRequest {
+  groupId: string;
+  question: string;
+  options: string[];
+  type?: Poll["type"];
+  anonymous?: boolean;
+  showResults?: Poll["showResults"];
+  allowAddOptions?: boolean;
+  endsAt?: string;
+}
+
+export interface PollResult {
+  success: boolean;
+  poll?: Poll;
+  error?: string;
+}
@@ -14,7 +14,8 @@ export type DecentralizedPlatform =
   | "filecoin"
   | "skynet"
   | "spheron"
-  | "filebase";
+  | "filebase"
+  | "local-helia";
 
 // Platform configuration
 export interface PlatformConfig {
@@ -58,6 +59,7 @@ export interface DecentralizedDeployRequest {
   ipnsKey?: string;
   permanentStorage?: boolean;
   metadata?: DeploymentMetadata;
+  federationAnnounce?: { privateKey: string }; // local-helia: announce the CID to federation peers
 }
 
 // Deployment metadata
@@ -76,6 +78,8 @@ export interface DecentralizedDeployResult {
   platform: DecentralizedPlatform;
   deploymentId: string;
   cid?: string; // IPFS Content ID
+  localCid?: string; // Root CID computed locally before upload
+  cidVerified?: boolean; // Whether cid matches localCid
   txId?: string; // Arweave Transaction ID
   url: string;
   gatewayUrls: string[];
@@ -109,6 +113,8 @@ export interface DecentralizedDeployment {
   platform: DecentralizedPlatform;
   status: DeploymentStatus;
   cid?: string;
+  localCid?: string;
+  cidVerified?: boolean;
   txId?: string;
   url: string;
   gatewayUrls: string[];
@@ -321,6 +327,20 @@ export const PLATFORM_CONFIGS: Record<DecentralizedPlatform, PlatformConfig> = {
     requiresApiKey: true,
     chainSupport: ["ipfs", "filecoin", "sia", "storj"],
   },
+  "local-helia": {
+    id: "local-helia",
+    name: "Local IPFS (Helia)",
+    description: "Publish from the built-in Helia node, no account needed",
+    icon: "helia",
+    website: "https://helia.io",
+    features: ["IPFS Publishing", "Local Pinning", "Local Gateway Preview", "Federation Announce"],
+    pricing: "free",
+    permanence: "pinned",
+    supportsCustomDomains: false,
+    supportsENS: false,
+    supportsIPNS: false,
+    requiresApiKey: false,
+  },
 };
 
 // Build configuration
@@ -70,6 +70,7 @@ export interface Peer {
   // Connection
   connected: boolean;
   connection_quality?: "excellent" | "good" | "fair" | "poor";
+  encryption_key?: string;          // X25519 public key (base64 DER) for sealed requests
 }
 
 export interface PeerAddress {
@@ -121,6 +122,7 @@ export interface DHTRecord {
   key: string;                      // Content hash or peer ID
   value: any;
   publisher: string;                // DID of publisher
+  publisher_key?: string;           // Publisher's public key (PEM), for verifying replicas
   signature: string;                // Ed25519 signature
   timestamp: string;
   ttl_seconds: number;
@@ -137,6 +139,19 @@ export interface BootstrapPeerEntry {
   added_at: string;
 }
 
+/**
+ * App published to IPFS from a local Helia node
+ */
+export interface AppDeploymentAnnouncement {
+  cid: string;
+  name: string;
+  bytes?: number;
+  peer_id: string;
+  providers: string[];        // Multiaddrs of the Helia node serving the CID
+  publisher_did: string;
+  created_at: string;
+}
+
 /**
  * Model chunk availability record in DHT
  */
@@ -184,10 +199,36 @@ export interface FederatedInferenceRoute {
     capability: "compute" | "local";
   };
   required_chunks: ModelChunkAnnouncement[];
+  candidates: FederatedRouteCandidate[];  // Ranked best-first
+  attempts: FederatedRouteAttempt[];      // Fallback chain, in order tried
   receipt?: IpldReceiptRef;
   created_at: string;
 }
 
+/**
+ * A peer considered for a federated inference route
+ */
+export interface FederatedRouteCandidate {
+  peer_id: string;
+  did: string;
+  display_name?: string;
+  score: number;                    // 0-1, higher is better
+  reasons: string[];                // Factors behind the score
+}
+
+/**
+ * One execution attempt in a route's fallback chain
+ */
+export interface FederatedRouteAttempt {
+  peer_id?: string;
+  did: string;
+  capability: "compute" | "local";
+  status: "succeeded" | "failed" | "timeout";
+  error?: string;
+  latency_ms: number;
+  started_at: string;
+}
+
 export interface FederatedInferenceExecutionRequest {
   provider: "ollama" | "lmstudio" | "llamacpp" | "vllm";
   model_id: string;
@@ -210,17 +251,15 @@ export interface FederatedInferenceExecutionRequest {
   payment_amount?: string;
   create_receipt?: boolean;
   require_remote?: boolean;
-  private_key?: string;
 }
 
 export interface FederatedInferenceExecutionResult {
-  status: "local" | "dispatched";
+  status: "local" | "remote";
   route: FederatedInferenceRoute;
   output?: string;
   record_id?: string;
   proof_cid?: string;
   receipt?: IpldReceiptRef;
-  dispatch_message_id?: string;
 }
 
 /**
@@ -625,6 +664,17 @@ export interface P2PConversation {
 
 // ============= Network Stats =============
 
+/**
+ * State of the local libp2p node used by the federation
+ */
+export interface FederationNetworkStatus {
+  running: boolean;
+  peer_id?: string;
+  shared_with_compute: boolean;     // Reusing the compute network's node
+  addresses: string[];              // Multiaddrs peers can dial
+  connected_peers: number;
+}
+
 /**
  * Federation network statistics
  */
@@ -29,6 +29,7 @@ export interface ServiceEndpoint {
   id: string;
   name: string;
   type: "local" | "cloud" | "hybrid";
+  bridgeType?: ServiceBridgeType; // storage/database bridges are sync targets
   url: string;
   healthEndpoint?: string;
   apiKey?: string;
@@ -122,18 +123,32 @@ export interface SyncState {
 export interface SyncConflict {
   id: string;
   dataType: string;
+  dataId: string;
   localVersion: any;
   cloudVersion: any;
   localTimestamp: string;
   cloudTimestamp: string;
   resolution?: ConflictResolution;
   resolved: boolean;
+  createdAt: string;
+  resolvedAt?: string;
+}
+
+// A synced record as stored locally and by storage/database services
+export interface SyncRecord {
+  id: string;
+  dataType: string;
+  data: any;
+  updatedAt: string;
+  deleted?: boolean; // tombstone, kept until the delete has synced
 }
 
+export type ConflictChoice = "local-wins" | "cloud-wins" | "merge";
+
 export interface SyncError {
   id: string;
   timestamp: string;
-  operation: "push" | "pull" | "merge";
+  operation: "push" | "pull" | "delete" | "merge";
   dataType: string;
   dataId: string;
   error: string;
@@ -10,7 +10,7 @@ export type DocumentFormat =
   | "ods" | "xlsx" | "xls" | "csv"                           // Spreadsheets
   | "odp" | "pptx" | "ppt";                                  // Presentations
 
-export type ExportFormat = "pdf" | "docx" | "xlsx" | "pptx" | "odt" | "ods" | "odp" | "html" | "txt" | "csv";
+export type ExportFormat = "pdf" | "docx" | "doc" | "xlsx" | "pptx" | "odt" | "ods" | "odp" | "html" | "md" | "txt" | "csv";
 
 // Document Status
 export type DocumentStatus = "draft" | "generating" | "ready" | "error";
@@ -247,6 +247,30 @@ export interface GenerationProgress {
   message: string;
 }
 
+export interface GenerationProgressEvent extends GenerationProgress {
+  documentId: number;
+}
+
+// Section Revision
+export interface RevisableSection {
+  index: number;
+  title: string;
+}
+
+export interface DocumentContentResult {
+  type: DocumentType;
+  content: DocumentContent | SpreadsheetContent | PresentationContent;
+  sections: RevisableSection[];
+}
+
+export interface ReviseDocumentRequest {
+  documentId: number;
+  sectionIndex: number;
+  instruction: string;
+  provider?: string;
+  model?: string;
+}
+
 // Document List Query
 export interface DocumentListQuery {
   type?: DocumentType;
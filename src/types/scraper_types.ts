@@ -78,6 +78,8 @@ export interface ScrapingConfig {
     provider?: string;
     model?: string;
     prompt?: string;
+    minConfidence?: number; // fields below this fall back to their selector (0-1)
+    maxTokens?: number; // output token limit per page
   };
   
   // Rate limiting
@@ -93,6 +95,9 @@ export interface ScrapingConfig {
     timezone?: string;
   };
   
+  // Pipeline applied to every job's output
+  pipelineId?: string;
+  
   createdAt: string;
   updatedAt: string;
 }
@@ -149,10 +154,22 @@ export interface ScrapingJob {
   // Output
   outputDatasetId?: string;
   
+  // Crawl queue left when the job was cancelled, used to resume it
+  frontier?: CrawlFrontierState;
+  
+  // Datasets produced by the config's pipeline
+  pipelineDatasetIds?: string[];
+  pipelineError?: string;
+  
   createdAt: string;
   updatedAt: string;
 }
 
+export interface CrawlFrontierState {
+  pending: { url: string; depth: number }[];
+  visited: string[];
+}
+
 export interface ScrapingError {
   url: string;
   message: string;
@@ -193,6 +210,7 @@ export interface Dataset {
   // Version tracking
   version: number;
   parentId?: string;
+  lineage?: DatasetLineage;
   
   createdAt: string;
   updatedAt: string;
@@ -214,13 +232,83 @@ export interface DatasetPreview {
 }
 
 // Data transformation
+export type DataTransformationType = "filter" | "map" | "aggregate" | "join" | "dedupe" | "sort" | "clean" | "enrich" | "split";
+
 export interface DataTransformation {
   id: string;
   name: string;
-  type: "filter" | "map" | "aggregate" | "join" | "dedupe" | "sort" | "clean" | "enrich";
+  type: DataTransformationType;
   config: Record<string, any>;
 }
 
+// Transformation configs, by type
+export interface FilterCondition {
+  field: string;
+  operator: "equals" | "not-equals" | "contains" | "not-contains" | "matches" | "gt" | "gte" | "lt" | "lte" | "exists" | "not-exists";
+  value?: any;
+}
+
+export interface FilterTransformConfig {
+  conditions: FilterCondition[];
+  match?: "all" | "any";
+}
+
+export interface MapTransformConfig {
+  rename?: Record<string, string>; // old name -> new name
+  cast?: Record<string, FieldType>; // applied after renaming
+  drop?: string[];
+}
+
+export interface DedupeTransformConfig {
+  fields?: string[]; // all fields when omitted
+  keep?: "first" | "last";
+  ignoreCase?: boolean;
+}
+
+export interface SortTransformConfig {
+  field: string;
+  direction?: "asc" | "desc";
+}
+
+export interface CleanTransformConfig {
+  fields?: string[]; // all string fields when omitted
+  pattern?: string;
+  flags?: string;
+  replacement?: string;
+  trim?: boolean;
+  collapseWhitespace?: boolean;
+}
+
+export interface JoinTransformConfig {
+  datasetId: string;
+  leftKey: string;
+  rightKey?: string; // defaults to leftKey
+  type?: "inner" | "left";
+  prefix?: string; // for right-hand fields that clash with left-hand ones
+}
+
+export interface SplitTransformConfig {
+  ratios: Record<string, number>; // e.g. { train: 0.8, test: 0.2 }
+  seed?: number;
+}
+
+// Where a pipeline output came from
+export interface DatasetLineage {
+  pipelineId: string;
+  pipelineName: string;
+  sourceDatasetIds: string[];
+  joinedDatasetIds?: string[];
+  split?: string;
+  steps: {
+    transformationId: string;
+    name: string;
+    type: DataTransformationType;
+    rowsIn: number;
+    rowsOut: number;
+  }[];
+  runAt: string;
+}
+
 // Data pipeline
 export interface DataPipeline {
   id: string;
@@ -271,6 +359,7 @@ export interface AIExtractionResult {
   success: boolean;
   data: Record<string, any>;
   confidence: number;
+  fieldConfidence?: Record<string, number>;
   tokens?: {
     input: number;
     output: number;
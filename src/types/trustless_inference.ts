@@ -57,6 +57,7 @@ export interface InferenceRequest {
 export interface InferenceMessage {
   role: "system" | "user" | "assistant";
   content: string;
+  images?: string[]; // Base64-encoded images for vision models
 }
 
 export interface InferenceResponse {
@@ -70,6 +71,19 @@ export interface InferenceResponse {
   generationTimeMs: number;
   timestamp: number;
   finishReason: "stop" | "length" | "error";
+  timings?: InferenceTimings;
+}
+
+// Backend-reported timings (Ollama only)
+export interface InferenceTimings {
+  loadMs: number;
+  promptEvalMs: number;
+  evalMs: number;
+}
+
+export interface LoadedModelMemory {
+  sizeMb: number;
+  vramMb: number;
 }
 
 // ============================================================================
@@ -309,7 +309,7 @@ async function collectFiles(dir: string, baseDir: string): Promise<string[]> {
   return files;
 }
 
-const OMITTED_FILE_CONTENT = "// File contents excluded from context";
+export const OMITTED_FILE_CONTENT = "// File contents excluded from context";
 
 /**
  * Check if file contents should be read based on extension and inclusion rules
@@ -443,7 +443,8 @@ export async function extractCodebase({
 }> {
   const settings = readSettings();
   const isSmartContextEnabled =
-    settings?.enableDyadPro && settings?.enableProSmartFilesContextMode;
+    (settings?.enableDyadPro && settings?.enableProSmartFilesContextMode) ||
+    settings?.enableLocalSmartContext;
 
   try {
     await fsAsync.access(appPath);